@@ -23,9 +23,72 @@ export {
   // Revolve
   createRevolve,
   type CreateRevolveArgs,
+  // Sweep
+  createSweep,
+  type CreateSweepArgs,
+  // Loft
+  createLoft,
+  type CreateLoftArgs,
+  // Shell
+  createShell,
+  type CreateShellArgs,
+  // Fillet / Chamfer
+  createFillet,
+  type CreateFilletArgs,
+  createChamfer,
+  type CreateChamferArgs,
+  // Patterns
+  createLinearPattern,
+  type CreateLinearPatternArgs,
+  createCircularPattern,
+  type CreateCircularPatternArgs,
+  // Mirror
+  createMirror,
+  type CreateMirrorArgs,
+  // Draft
+  createDraft,
+  type CreateDraftArgs,
+  createHole,
+  type CreateHoleArgs,
+  createHelix,
+  type CreateHelixArgs,
+  createThread,
+  type CreateThreadArgs,
+  createRib,
+  type CreateRibArgs,
+  createPrimitive,
+  type CreatePrimitiveArgs,
+  createTransform,
+  type CreateTransformArgs,
+  createSplit,
+  type CreateSplitArgs,
+  createOffsetFace,
+  type CreateOffsetFaceArgs,
+  createThicken,
+  type CreateThickenArgs,
+  createBaseFlange,
+  type CreateBaseFlangeArgs,
+  createEdgeFlange,
+  type CreateEdgeFlangeArgs,
+  createUnfold,
+  type CreateUnfoldArgs,
+  createDeleteFace,
+  type CreateDeleteFaceArgs,
+  createReplaceFace,
+  type CreateReplaceFaceArgs,
   // Boolean
   createBoolean,
   type CreateBooleanArgs,
+  // Bodies
+  deleteBody,
+  type DeleteBodyArgs,
+  setBodyAppearance,
+  type SetBodyAppearanceArgs,
+  // Import
+  createImport,
+  type CreateImportArgs,
+  replaceImportFile,
+  type ReplaceImportFileArgs,
   // Offset Plane
   createOffsetPlane,
   type CreateOffsetPlaneArgs,
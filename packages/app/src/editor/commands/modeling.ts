@@ -8,27 +8,97 @@
  * @see docs/CAD-PIPELINE-REWORK.md Phase 1
  */
 
-import type { SolidTypeDoc } from "../document/createDocument";
+import { parsePlaneRef, type SolidTypeDoc } from "../document/createDocument";
 import type { CommandResult } from "./types";
 import { ok, err } from "./types";
 import {
   addSketchFeature as addSketchFeatureHelper,
   addExtrudeFeature as addExtrudeFeatureHelper,
   addRevolveFeature as addRevolveFeatureHelper,
+  addSweepFeature as addSweepFeatureHelper,
+  addLoftFeature as addLoftFeatureHelper,
+  addShellFeature as addShellFeatureHelper,
+  addFilletFeature as addFilletFeatureHelper,
+  addChamferFeature as addChamferFeatureHelper,
+  addLinearPatternFeature as addLinearPatternFeatureHelper,
+  addCircularPatternFeature as addCircularPatternFeatureHelper,
+  addMirrorFeature as addMirrorFeatureHelper,
+  addDraftFeature as addDraftFeatureHelper,
+  addHoleFeature as addHoleFeatureHelper,
+  addHelixFeature as addHelixFeatureHelper,
+  addThreadFeature as addThreadFeatureHelper,
+  addRibFeature as addRibFeatureHelper,
+  addPrimitiveFeature as addPrimitiveFeatureHelper,
+  addTransformFeature as addTransformFeatureHelper,
+  addSplitFeature as addSplitFeatureHelper,
+  addOffsetFaceFeature as addOffsetFaceFeatureHelper,
+  addThickenFeature as addThickenFeatureHelper,
+  addBaseFlangeFeature as addBaseFlangeFeatureHelper,
+  addEdgeFlangeFeature as addEdgeFlangeFeatureHelper,
+  addUnfoldFeature as addUnfoldFeatureHelper,
+  addDeleteFaceFeature as addDeleteFaceFeatureHelper,
+  addReplaceFaceFeature as addReplaceFaceFeatureHelper,
   addBooleanFeature as addBooleanFeatureHelper,
+  addDeleteBodyFeature as addDeleteBodyFeatureHelper,
+  addImportFeature as addImportFeatureHelper,
+  replaceImportFile as replaceImportFileHelper,
+  importFormatFromFileName,
   addOffsetPlane as addOffsetPlaneHelper,
   addAxisFeature as addAxisFeatureHelper,
   deleteFeature as deleteFeatureHelper,
+  getSketchData,
   renameFeature as renameFeatureHelper,
   toggleFeatureVisibility as toggleFeatureVisibilityHelper,
   setFeatureVisibility as setFeatureVisibilityHelper,
+  setBodyAppearance as setBodyAppearanceHelper,
+  getBodySourceFeatureId,
   type ExtrudeFeatureOptions,
   type RevolveFeatureOptions,
+  type SweepFeatureOptions,
+  type LoftFeatureOptions,
+  type ShellFeatureOptions,
+  type FilletFeatureOptions,
+  type ChamferFeatureOptions,
+  type LinearPatternFeatureOptions,
+  type CircularPatternFeatureOptions,
+  type MirrorFeatureOptions,
+  type DraftFeatureOptions,
+  type HoleFeatureOptions,
+  type HelixFeatureOptions,
+  type ThreadFeatureOptions,
+  type RibFeatureOptions,
+  type PrimitiveDimensions,
+  type TransformFeatureOptions,
+  type SplitFeatureOptions,
+  type OffsetFaceFeatureOptions,
+  type ThickenFeatureOptions,
+  type BaseFlangeFeatureOptions,
+  type EdgeFlangeFeatureOptions,
+  type UnfoldFeatureOptions,
+  type DeleteFaceFeatureOptions,
+  type ReplaceFaceFeatureOptions,
   type BooleanFeatureOptions,
+  type DeleteBodyFeatureOptions,
+  type ImportFeatureOptions,
   type OffsetPlaneOptions,
   type AxisFeatureOptions,
 } from "../document/featureHelpers";
-import type { SketchPlaneRef } from "../document/schema";
+import type {
+  SketchPlaneRef,
+  FilletEdgeSet,
+  ChamferEdgeSet,
+  PatternDirection,
+  PatternAxis,
+  MirrorPlaneRef,
+  HoleType,
+  HoleExtent,
+  HoleThread,
+  SplitTool,
+  BodyMaterial,
+  ImportFormat,
+  DocumentMeta,
+} from "../document/schema";
+import { decodePersistentRef } from "../naming";
 
 // ============================================================================
 // Sketch Commands
@@ -71,12 +141,34 @@ export interface CreateExtrudeArgs {
   distance?: number;
   /** Operation type: add material or cut material */
   op?: "add" | "cut";
-  /** Extrusion direction relative to sketch plane */
-  direction?: "normal" | "reverse";
+  /** Extrusion direction relative to sketch plane; symmetric splits the distance across both sides */
+  direction?: "normal" | "reverse" | "symmetric";
   /** Extent type */
-  extent?: "blind" | "toFace" | "toVertex" | "throughAll";
+  extent?: "blind" | "toFace" | "toVertex" | "upToBody" | "throughAll";
   /** Reference for toFace/toVertex extents (PersistentRef string) */
   extentRef?: string;
+  /** Body key (ID of the feature that created the body) for upToBody extents */
+  extentBody?: string;
+  /** Distance to stop short of the up-to target (negative runs past it) */
+  extentOffset?: number;
+  /** Distance from the sketch plane to the start of the extrude */
+  startOffset?: number;
+  /** Draft angle in degrees; positive tapers inward */
+  draftAngle?: number;
+  /** Also extrude opposite the direction, with the *2 extent options */
+  twoSided?: boolean;
+  /** Extent type of the second side */
+  extent2?: "blind" | "toFace" | "toVertex" | "upToBody" | "throughAll";
+  /** Distance of the second side (for blind extent) */
+  distance2?: number;
+  /** Reference for the second side's toFace/toVertex extents */
+  extentRef2?: string;
+  /** Body key for the second side's upToBody extent */
+  extentBody2?: string;
+  /** Offset from the second side's up-to target */
+  extentOffset2?: number;
+  /** Draft angle of the second side in degrees */
+  draftAngle2?: number;
   /** Optional name for the feature */
   name?: string;
   /** Multi-body merge scope */
@@ -106,6 +198,51 @@ export function createExtrude(
     return err(`Sketch ${args.sketchId} not found`);
   }
 
+  const sides = [
+    {
+      extent: args.extent,
+      extentRef: args.extentRef,
+      extentBody: args.extentBody,
+      draftAngle: args.draftAngle,
+    },
+  ];
+  if (args.twoSided) {
+    sides.push({
+      extent: args.extent2,
+      extentRef: args.extentRef2,
+      extentBody: args.extentBody2,
+      draftAngle: args.draftAngle2,
+    });
+  }
+  for (const side of sides) {
+    if (side.draftAngle !== undefined && Math.abs(side.draftAngle) >= 90) {
+      return err("Draft angle must be between -90 and 90 degrees");
+    }
+    if (side.draftAngle && (side.extent === "toFace" || side.extent === "upToBody")) {
+      return err(`Draft is not supported for ${side.extent} extents`);
+    }
+    if ((side.extent === "toFace" || side.extent === "toVertex") && !side.extentRef) {
+      return err(`${side.extent} extent requires extentRef`);
+    }
+    if (side.extent === "upToBody") {
+      if (!side.extentBody) {
+        return err("upToBody extent requires extentBody");
+      }
+      if (!doc.featuresById.get(side.extentBody)) {
+        return err(`Body ${side.extentBody} not found`);
+      }
+    }
+  }
+
+  if (args.direction === "symmetric") {
+    if (args.twoSided) {
+      return err("Symmetric extrudes can't also be two-sided");
+    }
+    if (args.extent && args.extent !== "blind" && args.extent !== "throughAll") {
+      return err("Symmetric extrudes need a blind or throughAll extent");
+    }
+  }
+
   try {
     const options: ExtrudeFeatureOptions = {
       sketchId: args.sketchId,
@@ -114,6 +251,17 @@ export function createExtrude(
       direction: args.direction ?? "normal",
       extent: args.extent ?? "blind",
       extentRef: args.extentRef,
+      extentBody: args.extentBody,
+      extentOffset: args.extentOffset,
+      startOffset: args.startOffset,
+      draftAngle: args.draftAngle,
+      twoSided: args.twoSided,
+      extent2: args.extent2,
+      distance2: args.distance2,
+      extentRef2: args.extentRef2,
+      extentBody2: args.extentBody2,
+      extentOffset2: args.extentOffset2,
+      draftAngle2: args.draftAngle2,
       name: args.name,
       mergeScope: args.mergeScope,
       targetBodies: args.targetBodies,
@@ -141,6 +289,18 @@ export interface CreateRevolveArgs {
   angle?: number;
   /** Operation type: add material or cut material */
   op?: "add" | "cut";
+  /** Split the angle evenly either side of the sketch plane */
+  symmetric?: boolean;
+  /** Also revolve the other way from the sketch plane, by angle2 */
+  twoSided?: boolean;
+  /** Angle of the second direction in degrees */
+  angle2?: number;
+  /** Revolve the open profile as a thin wall */
+  thin?: boolean;
+  /** Wall thickness of a thin revolve */
+  thickness?: number;
+  /** Side of the profile the thin wall grows on */
+  thinSide?: "normal" | "reverse" | "symmetric";
   /** Optional name for the feature */
   name?: string;
   /** Multi-body merge scope */
@@ -175,12 +335,37 @@ export function createRevolve(
     return err("Revolve requires an axis line selection");
   }
 
+  const angle = args.angle ?? 360;
+  if (angle <= 0 || angle > 360) {
+    return err("Revolve angle must be between 0 and 360 degrees");
+  }
+  if (args.symmetric && args.twoSided) {
+    return err("Symmetric revolves can't also be two-sided");
+  }
+  if (args.twoSided) {
+    if (args.angle2 === undefined || args.angle2 <= 0) {
+      return err("Two-sided revolves need a positive angle2");
+    }
+    if (angle + args.angle2 > 360) {
+      return err("Revolve angles can't add up to more than 360 degrees");
+    }
+  }
+  if (args.thin && args.thickness !== undefined && args.thickness <= 0) {
+    return err("Thin wall thickness must be positive");
+  }
+
   try {
     const options: RevolveFeatureOptions = {
       sketchId: args.sketchId,
       axis: args.axisId,
-      angle: args.angle ?? 360,
+      angle,
       op: args.op ?? "add",
+      symmetric: args.symmetric,
+      twoSided: args.twoSided,
+      angle2: args.angle2,
+      thin: args.thin,
+      thickness: args.thickness,
+      thinSide: args.thinSide,
       name: args.name,
       mergeScope: args.mergeScope,
       targetBodies: args.targetBodies,
@@ -196,46 +381,1824 @@ export function createRevolve(
 }
 
 // ============================================================================
-// Boolean Commands
+// Sweep Commands
 // ============================================================================
 
-export interface CreateBooleanArgs {
-  /** Boolean operation type */
-  operation: "union" | "subtract" | "intersect";
-  /** Target body feature ID */
-  target: string;
-  /** Tool body feature ID */
-  tool: string;
+export interface CreateSweepArgs {
+  /** ID of the sketch containing the closed profile */
+  profileSketchId: string;
+  /** ID of the sketch containing the path */
+  pathSketchId: string;
+  /** Path entity IDs within the path sketch (default: all entities) */
+  pathEntities?: string[];
+  /** Operation type: add material or cut material */
+  op?: "add" | "cut";
   /** Optional name for the feature */
   name?: string;
+  /** Multi-body merge scope */
+  mergeScope?: "auto" | "new" | "specific";
+  /** Specific target body IDs for merge */
+  targetBodies?: string[];
+  /** Name for the result body */
+  resultBodyName?: string;
+  /** Color for the result body (hex string) */
+  resultBodyColor?: string;
 }
 
 /**
- * Create a new boolean feature.
+ * Create a new sweep feature.
  *
  * @param doc - The SolidType document
- * @param args - Boolean creation arguments
+ * @param args - Sweep creation arguments
  * @returns CommandResult with the new feature ID
  */
-export function createBoolean(
+export function createSweep(
   doc: SolidTypeDoc,
-  args: CreateBooleanArgs
+  args: CreateSweepArgs
 ): CommandResult<{ featureId: string }> {
+  // Validate both sketches exist
+  const profileSketch = doc.featuresById.get(args.profileSketchId);
+  if (!profileSketch || profileSketch.get("type") !== "sketch") {
+    return err(`Sketch ${args.profileSketchId} not found`);
+  }
+  const pathSketch = doc.featuresById.get(args.pathSketchId);
+  if (!pathSketch || pathSketch.get("type") !== "sketch") {
+    return err(`Sketch ${args.pathSketchId} not found`);
+  }
+
+  if (args.profileSketchId === args.pathSketchId) {
+    return err("Sweep profile and path must be in different sketches");
+  }
+
   try {
-    const options: BooleanFeatureOptions = {
-      operation: args.operation,
-      target: args.target,
-      tool: args.tool,
+    const options: SweepFeatureOptions = {
+      profileSketchId: args.profileSketchId,
+      pathSketchId: args.pathSketchId,
+      pathEntities: args.pathEntities,
+      op: args.op ?? "add",
       name: args.name,
+      mergeScope: args.mergeScope,
+      targetBodies: args.targetBodies,
+      resultBodyName: args.resultBodyName,
+      resultBodyColor: args.resultBodyColor,
     };
 
-    const featureId = addBooleanFeatureHelper(doc, options);
+    const featureId = addSweepFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Loft Commands
+// ============================================================================
+
+export interface CreateLoftArgs {
+  /** Profile sketch IDs in loft order (at least two) */
+  sketchIds: string[];
+  /** Straight faces between consecutive profiles instead of a smooth blend */
+  ruled?: boolean;
+  /** Tangency at the first profile (smooth lofts only) */
+  startTangency?: "none" | "normal";
+  /** Tangency at the last profile (smooth lofts only) */
+  endTangency?: "none" | "normal";
+  /** Operation type: add material or cut material */
+  op?: "add" | "cut";
+  /** Optional name for the feature */
+  name?: string;
+  /** Multi-body merge scope */
+  mergeScope?: "auto" | "new" | "specific";
+  /** Specific target body IDs for merge */
+  targetBodies?: string[];
+  /** Name for the result body */
+  resultBodyName?: string;
+  /** Color for the result body (hex string) */
+  resultBodyColor?: string;
+}
+
+/**
+ * Create a new loft feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Loft creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createLoft(
+  doc: SolidTypeDoc,
+  args: CreateLoftArgs
+): CommandResult<{ featureId: string }> {
+  if (args.sketchIds.length < 2) {
+    return err("Loft requires at least two profile sketches");
+  }
+  if (new Set(args.sketchIds).size !== args.sketchIds.length) {
+    return err("Loft profiles must be different sketches");
+  }
+
+  // Validate all sketches exist
+  for (const sketchId of args.sketchIds) {
+    const sketch = doc.featuresById.get(sketchId);
+    if (!sketch || sketch.get("type") !== "sketch") {
+      return err(`Sketch ${sketchId} not found`);
+    }
+  }
+
+  try {
+    const options: LoftFeatureOptions = {
+      sketchIds: args.sketchIds,
+      ruled: args.ruled,
+      startTangency: args.startTangency,
+      endTangency: args.endTangency,
+      op: args.op ?? "add",
+      name: args.name,
+      mergeScope: args.mergeScope,
+      targetBodies: args.targetBodies,
+      resultBodyName: args.resultBodyName,
+      resultBodyColor: args.resultBodyColor,
+    };
+
+    const featureId = addLoftFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Shell Commands
+// ============================================================================
+
+export interface CreateShellArgs {
+  /** Body to hollow (body feature ID); inferred from the open faces when omitted */
+  targetBody?: string;
+  /** Wall thickness */
+  thickness: number;
+  /** Grow the wall into the body (default) or around it */
+  direction?: "inside" | "outside";
+  /** Face PersistentRef strings to remove */
+  openFaces?: string[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new shell feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Shell creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createShell(
+  doc: SolidTypeDoc,
+  args: CreateShellArgs
+): CommandResult<{ featureId: string }> {
+  if (!(args.thickness > 0)) {
+    return err("Shell thickness must be positive");
+  }
+
+  if (args.targetBody && !doc.featuresById.get(args.targetBody)) {
+    return err(`Body ${args.targetBody} not found`);
+  }
+
+  // Validate open faces are face references
+  for (const ref of args.openFaces ?? []) {
+    const decoded = decodePersistentRef(ref);
+    if (!decoded.ok || decoded.ref.expectedType !== "face") {
+      return err(`Invalid face reference: ${ref}`);
+    }
+  }
+
+  try {
+    const options: ShellFeatureOptions = {
+      targetBody: args.targetBody,
+      thickness: args.thickness,
+      direction: args.direction,
+      openFaces: args.openFaces,
+      name: args.name,
+    };
+
+    const featureId = addShellFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Fillet / Chamfer Commands
+// ============================================================================
+
+/**
+ * Check that every edge set has at least one edge and that each edge is an
+ * edge PersistentRef.
+ */
+function validateEdgeSetRefs(edgeSets: { edges: string[] }[]): string | null {
+  if (edgeSets.length === 0) {
+    return "At least one edge set is required";
+  }
+  for (const set of edgeSets) {
+    if (set.edges.length === 0) {
+      return "Edge sets must contain at least one edge";
+    }
+    for (const ref of set.edges) {
+      const decoded = decodePersistentRef(ref);
+      if (!decoded.ok || decoded.ref.expectedType !== "edge") {
+        return `Invalid edge reference: ${ref}`;
+      }
+    }
+  }
+  return null;
+}
+
+export interface CreateFilletArgs {
+  /** Edge sets, each with its own radius */
+  edgeSets: FilletEdgeSet[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new fillet feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Fillet creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createFillet(
+  doc: SolidTypeDoc,
+  args: CreateFilletArgs
+): CommandResult<{ featureId: string }> {
+  const refError = validateEdgeSetRefs(args.edgeSets);
+  if (refError) {
+    return err(refError);
+  }
+  if (args.edgeSets.some((set) => !(set.radius > 0))) {
+    return err("Fillet radius must be positive");
+  }
+
+  try {
+    const options: FilletFeatureOptions = {
+      edgeSets: args.edgeSets,
+      name: args.name,
+    };
+
+    const featureId = addFilletFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateChamferArgs {
+  /** Edge sets, each with its own setback */
+  edgeSets: ChamferEdgeSet[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new chamfer feature.
+ *
+ * Each edge set is an equal-distance chamfer unless it carries `distance2`
+ * (distance-distance) or `angle` (distance-angle, in degrees).
+ *
+ * @param doc - The SolidType document
+ * @param args - Chamfer creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createChamfer(
+  doc: SolidTypeDoc,
+  args: CreateChamferArgs
+): CommandResult<{ featureId: string }> {
+  const refError = validateEdgeSetRefs(args.edgeSets);
+  if (refError) {
+    return err(refError);
+  }
+  for (const set of args.edgeSets) {
+    if (!(set.distance > 0)) {
+      return err("Chamfer distance must be positive");
+    }
+    if (set.distance2 !== undefined && set.angle !== undefined) {
+      return err("Chamfer edge set cannot have both a second distance and an angle");
+    }
+    if (set.distance2 !== undefined && !(set.distance2 > 0)) {
+      return err("Chamfer second distance must be positive");
+    }
+    if (set.angle !== undefined && !(set.angle > 0 && set.angle < 90)) {
+      return err("Chamfer angle must be between 0 and 90 degrees");
+    }
+  }
+
+  try {
+    const options: ChamferFeatureOptions = {
+      edgeSets: args.edgeSets,
+      name: args.name,
+    };
+
+    const featureId = addChamferFeatureHelper(doc, options);
     return ok({ featureId });
   } catch (e) {
     return err(e instanceof Error ? e.message : String(e));
   }
 }
 
+// ============================================================================
+// Pattern Commands
+// ============================================================================
+
+/** Feature types whose geometry a pattern or mirror can replicate */
+const PATTERNABLE_FEATURE_TYPES = ["extrude", "revolve", "sweep", "loft"];
+
+interface PatternSourceArgs {
+  /** Extrude/revolve/sweep/loft feature IDs to replicate */
+  sourceFeatures?: string[];
+  /** Body feature IDs to replicate whole */
+  sourceBodies?: string[];
+  /** Instance numbers to leave out (instance 0 is the original) */
+  skip?: number[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Check the features and bodies a pattern or mirror replicates. Returns an
+ * error message or null.
+ */
+function validateReplicatedSources(
+  doc: SolidTypeDoc,
+  args: { sourceFeatures?: string[]; sourceBodies?: string[] },
+  label: string
+): string | null {
+  const sourceFeatures = args.sourceFeatures ?? [];
+  const sourceBodies = args.sourceBodies ?? [];
+
+  if (sourceFeatures.length === 0 && sourceBodies.length === 0) {
+    return `${label} requires at least one source feature or body`;
+  }
+  for (const id of sourceFeatures) {
+    const feature = doc.featuresById.get(id);
+    if (!feature) {
+      return `Feature ${id} not found`;
+    }
+    if (!PATTERNABLE_FEATURE_TYPES.includes(feature.get("type") as string)) {
+      return `Feature ${id} cannot be used in a ${label.toLowerCase()}`;
+    }
+  }
+  for (const id of sourceBodies) {
+    if (!bodyExists(doc, id)) {
+      return `Body ${id} not found`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a body key names a body of an existing feature. A feature that makes
+ * several bodies keys the first by its ID and the rest as `<featureId>:<n>`.
+ */
+function bodyExists(doc: SolidTypeDoc, bodyKey: string): boolean {
+  return doc.featuresById.has(bodyKey.split(":")[0]);
+}
+
+/**
+ * Check a pattern's sources and instance count. Returns an error message or null.
+ */
+function validatePatternSources(
+  doc: SolidTypeDoc,
+  args: PatternSourceArgs,
+  instanceCount: number
+): string | null {
+  const sourceError = validateReplicatedSources(doc, args, "Pattern");
+  if (sourceError) {
+    return sourceError;
+  }
+  if (instanceCount < 2) {
+    return "Pattern requires at least two instances";
+  }
+  for (const instance of args.skip ?? []) {
+    if (!Number.isInteger(instance) || instance < 1 || instance >= instanceCount) {
+      return `Cannot skip instance ${instance}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a direction is an axis feature or a non-zero vector
+ */
+function validatePatternDirection(doc: SolidTypeDoc, direction: PatternDirection): string | null {
+  if (typeof direction === "string") {
+    return doc.featuresById.get(direction)?.get("type") === "axis"
+      ? null
+      : `Axis ${direction} not found`;
+  }
+  return direction.some((c) => c !== 0) ? null : "Pattern direction must be non-zero";
+}
+
+/**
+ * Check exactly one of spacing/extent is given and positive
+ */
+function validatePatternSpacing(spacing?: number, extent?: number): string | null {
+  if ((spacing === undefined) === (extent === undefined)) {
+    return "Pattern requires either a spacing or an extent";
+  }
+  if (!((spacing ?? extent)! > 0)) {
+    return "Pattern spacing must be positive";
+  }
+  return null;
+}
+
+export interface CreateLinearPatternArgs extends PatternSourceArgs {
+  /** Direction vector, or an axis feature ID */
+  direction: PatternDirection;
+  /** Instances along the direction, including the original */
+  count: number;
+  /** Distance between neighbouring instances (or give extent) */
+  spacing?: number;
+  /** Distance from the first to the last instance (or give spacing) */
+  extent?: number;
+  /** Optional second direction */
+  direction2?: PatternDirection;
+  count2?: number;
+  spacing2?: number;
+  extent2?: number;
+}
+
+/**
+ * Create a new linear pattern feature.
+ *
+ * Instances are numbered along the first direction, then the second:
+ * instance n sits at step `n % count` and row `floor(n / count)`.
+ *
+ * @param doc - The SolidType document
+ * @param args - Linear pattern creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createLinearPattern(
+  doc: SolidTypeDoc,
+  args: CreateLinearPatternArgs
+): CommandResult<{ featureId: string }> {
+  const count2 = args.direction2 ? (args.count2 ?? 1) : 1;
+  if (!Number.isInteger(args.count) || args.count < 1 || !Number.isInteger(count2) || count2 < 1) {
+    return err("Pattern counts must be positive integers");
+  }
+
+  const error =
+    validatePatternSources(doc, args, args.count * count2) ??
+    validatePatternDirection(doc, args.direction) ??
+    validatePatternSpacing(args.spacing, args.extent) ??
+    (args.direction2
+      ? (validatePatternDirection(doc, args.direction2) ??
+        validatePatternSpacing(args.spacing2, args.extent2))
+      : null);
+  if (error) {
+    return err(error);
+  }
+
+  try {
+    const options: LinearPatternFeatureOptions = {
+      sourceFeatures: args.sourceFeatures,
+      sourceBodies: args.sourceBodies,
+      skip: args.skip,
+      direction: args.direction,
+      count: args.count,
+      spacing: args.spacing,
+      extent: args.extent,
+      direction2: args.direction2,
+      count2: args.direction2 ? count2 : undefined,
+      spacing2: args.spacing2,
+      extent2: args.extent2,
+      name: args.name,
+    };
+
+    const featureId = addLinearPatternFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateCircularPatternArgs extends PatternSourceArgs {
+  /** Axis feature ID, or an explicit axis line */
+  axis: PatternAxis;
+  /** Instances around the axis, including the original */
+  count: number;
+  /** Angle between neighbouring instances in degrees (or give totalAngle) */
+  angle?: number;
+  /** Angle from the first to the last instance; 360 spaces instances evenly (default) */
+  totalAngle?: number;
+}
+
+/**
+ * Create a new circular pattern feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Circular pattern creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createCircularPattern(
+  doc: SolidTypeDoc,
+  args: CreateCircularPatternArgs
+): CommandResult<{ featureId: string }> {
+  if (!Number.isInteger(args.count) || args.count < 1) {
+    return err("Pattern count must be a positive integer");
+  }
+  if (args.angle !== undefined && args.totalAngle !== undefined) {
+    return err("Pattern takes either an angle or a total angle, not both");
+  }
+  if ((args.angle ?? args.totalAngle) === 0) {
+    return err("Pattern angle must be non-zero");
+  }
+
+  const error =
+    validatePatternSources(doc, args, args.count) ??
+    validatePatternDirection(doc, typeof args.axis === "string" ? args.axis : args.axis.direction);
+  if (error) {
+    return err(error);
+  }
+
+  try {
+    const options: CircularPatternFeatureOptions = {
+      sourceFeatures: args.sourceFeatures,
+      sourceBodies: args.sourceBodies,
+      skip: args.skip,
+      axis: args.axis,
+      count: args.count,
+      angle: args.angle,
+      totalAngle: args.totalAngle,
+      name: args.name,
+    };
+
+    const featureId = addCircularPatternFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Mirror Commands
+// ============================================================================
+
+/**
+ * Check that a mirror or draft plane is a plane feature or a face
+ * PersistentRef. Returns an error message or null.
+ */
+function validatePlaneRef(doc: SolidTypeDoc, plane: MirrorPlaneRef): string | null {
+  if (plane.kind === "planeFeatureId") {
+    if (doc.featuresById.get(plane.ref)?.get("type") !== "plane") {
+      return `Plane ${plane.ref} not found`;
+    }
+    return null;
+  }
+  const decoded = decodePersistentRef(plane.ref);
+  if (!decoded.ok || decoded.ref.expectedType !== "face") {
+    return `Invalid face reference: ${plane.ref}`;
+  }
+  return null;
+}
+
+export interface CreateMirrorArgs {
+  /** Extrude/revolve/sweep/loft feature IDs to mirror */
+  sourceFeatures?: string[];
+  /** Body feature IDs to mirror whole */
+  sourceBodies?: string[];
+  /** Plane feature, or planar face PersistentRef, to mirror across */
+  plane: MirrorPlaneRef;
+  /** Fuse the mirrored copy with the original (default true) */
+  merge?: boolean;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new mirror feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Mirror creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createMirror(
+  doc: SolidTypeDoc,
+  args: CreateMirrorArgs
+): CommandResult<{ featureId: string }> {
+  const sourceError = validateReplicatedSources(doc, args, "Mirror");
+  if (sourceError) {
+    return err(sourceError);
+  }
+
+  const planeError = validatePlaneRef(doc, args.plane);
+  if (planeError) {
+    return err(planeError);
+  }
+
+  try {
+    const options: MirrorFeatureOptions = {
+      sourceFeatures: args.sourceFeatures,
+      sourceBodies: args.sourceBodies,
+      plane: args.plane,
+      merge: args.merge,
+      name: args.name,
+    };
+
+    const featureId = addMirrorFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Draft Commands
+// ============================================================================
+
+export interface CreateDraftArgs {
+  /** Face PersistentRefs to taper */
+  faces: string[];
+  /** Draft angle in degrees; positive angles narrow the part along the pull direction */
+  angle: number;
+  /** Direction the part is pulled out of the mould */
+  pullDirection: [number, number, number];
+  /** Plane where the faces keep their size (default: through the origin, normal to the pull) */
+  neutralPlane?: MirrorPlaneRef;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new draft feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Draft creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createDraft(
+  doc: SolidTypeDoc,
+  args: CreateDraftArgs
+): CommandResult<{ featureId: string }> {
+  if (args.faces.length === 0) {
+    return err("Draft requires at least one face");
+  }
+  for (const ref of args.faces) {
+    const decoded = decodePersistentRef(ref);
+    if (!decoded.ok || decoded.ref.expectedType !== "face") {
+      return err(`Invalid face reference: ${ref}`);
+    }
+  }
+  if (!(Math.abs(args.angle) > 0 && Math.abs(args.angle) < 90)) {
+    return err("Draft angle must be between 0 and 90 degrees");
+  }
+  if (args.pullDirection.every((component) => component === 0)) {
+    return err("Draft pull direction must not be zero");
+  }
+  if (args.neutralPlane) {
+    const planeError = validatePlaneRef(doc, args.neutralPlane);
+    if (planeError) {
+      return err(planeError);
+    }
+  }
+
+  try {
+    const options: DraftFeatureOptions = {
+      faces: args.faces,
+      angle: args.angle,
+      pullDirection: args.pullDirection,
+      neutralPlane: args.neutralPlane,
+      name: args.name,
+    };
+
+    const featureId = addDraftFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Hole Commands
+// ============================================================================
+
+export interface CreateHoleArgs {
+  /** ID of the sketch on the face the holes start from */
+  sketchId: string;
+  /** Sketch point IDs at the hole centres */
+  points: string[];
+  /** Hole type (default: simple) */
+  holeType?: HoleType;
+  diameter: number;
+  counterboreDiameter?: number;
+  counterboreDepth?: number;
+  countersinkDiameter?: number;
+  /** Included countersink angle in degrees (default 90) */
+  countersinkAngle?: number;
+  /** How deep the holes go (default: blind) */
+  extent?: HoleExtent;
+  /** Depth for blind holes */
+  depth?: number;
+  /** Planar face PersistentRef the holes stop at, for toFace */
+  extentRef?: string;
+  /** Included drill point angle in degrees (omit for a flat bottom) */
+  tipAngle?: number;
+  /** Drill along the sketch normal instead of into the face */
+  reverse?: boolean;
+  /** Thread callout stored on the hole */
+  thread?: HoleThread;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new hole feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Hole creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createHole(
+  doc: SolidTypeDoc,
+  args: CreateHoleArgs
+): CommandResult<{ featureId: string }> {
+  const sketch = doc.featuresById.get(args.sketchId);
+  if (!sketch || sketch.get("type") !== "sketch") {
+    return err(`Sketch ${args.sketchId} not found`);
+  }
+  if (args.points.length === 0) {
+    return err("Hole requires at least one sketch point");
+  }
+  const { pointsById } = getSketchData(sketch);
+  for (const pointId of args.points) {
+    if (!pointsById[pointId]) {
+      return err(`Point ${pointId} not found in sketch ${args.sketchId}`);
+    }
+  }
+  if (!(args.diameter > 0)) {
+    return err("Hole diameter must be positive");
+  }
+
+  const holeType = args.holeType ?? "simple";
+  if (holeType === "counterbore") {
+    if (!(args.counterboreDepth! > 0) || !(args.counterboreDiameter! > args.diameter)) {
+      return err("Counterbore needs a depth and a diameter wider than the hole");
+    }
+  }
+  if (holeType === "countersink") {
+    if (!(args.countersinkDiameter! > args.diameter)) {
+      return err("Countersink needs a diameter wider than the hole");
+    }
+    const angle = args.countersinkAngle ?? 90;
+    if (!(angle > 0 && angle < 180)) {
+      return err("Countersink angle must be between 0 and 180 degrees");
+    }
+  }
+  if (args.tipAngle !== undefined && !(args.tipAngle > 0 && args.tipAngle < 180)) {
+    return err("Drill point angle must be between 0 and 180 degrees");
+  }
+
+  const extent = args.extent ?? "blind";
+  if (extent === "blind" && args.depth !== undefined && !(args.depth > 0)) {
+    return err("Hole depth must be positive");
+  }
+  if (extent === "toFace") {
+    const decoded = args.extentRef ? decodePersistentRef(args.extentRef) : undefined;
+    if (!decoded?.ok || decoded.ref.expectedType !== "face") {
+      return err("Hole up to face requires a face reference");
+    }
+  }
+  if (args.thread && !(args.thread.pitch > 0)) {
+    return err("Thread pitch must be positive");
+  }
+
+  try {
+    const options: HoleFeatureOptions = {
+      sketch: args.sketchId,
+      points: args.points,
+      holeType,
+      diameter: args.diameter,
+      counterboreDiameter: args.counterboreDiameter,
+      counterboreDepth: args.counterboreDepth,
+      countersinkDiameter: args.countersinkDiameter,
+      countersinkAngle: args.countersinkAngle,
+      extent,
+      depth: args.depth,
+      extentRef: args.extentRef,
+      tipAngle: args.tipAngle,
+      reverse: args.reverse,
+      thread: args.thread,
+      name: args.name,
+    };
+
+    const featureId = addHoleFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Helix and Thread Commands
+// ============================================================================
+
+export interface CreateHelixArgs {
+  /** ID of the axis feature the helix winds about */
+  axis: string;
+  radius: number;
+  /** Rise per turn along the axis */
+  pitch: number;
+  /** Number of turns (give this or height) */
+  turns?: number;
+  /** Height along the axis (give this or turns) */
+  height?: number;
+  /** Handedness (default: right) */
+  handedness?: "right" | "left";
+  /** Taper angle in degrees; positive widens along the axis */
+  taperAngle?: number;
+  /** Distance along the axis from the axis origin to the start of the helix */
+  startOffset?: number;
+  /** Rise against the axis direction */
+  reverse?: boolean;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new helix feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Helix creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createHelix(
+  doc: SolidTypeDoc,
+  args: CreateHelixArgs
+): CommandResult<{ featureId: string }> {
+  if (doc.featuresById.get(args.axis)?.get("type") !== "axis") {
+    return err(`Axis ${args.axis} not found`);
+  }
+  if (!(args.radius > 0) || !(args.pitch > 0)) {
+    return err("Helix radius and pitch must be positive");
+  }
+  if ((args.turns === undefined) === (args.height === undefined)) {
+    return err("Helix requires either a number of turns or a height");
+  }
+  if (!((args.turns ?? args.height)! > 0)) {
+    return err("Helix turns and height must be positive");
+  }
+  if (args.taperAngle !== undefined && !(Math.abs(args.taperAngle) < 90)) {
+    return err("Helix taper angle must be between -90 and 90 degrees");
+  }
+
+  try {
+    const options: HelixFeatureOptions = {
+      axis: args.axis,
+      radius: args.radius,
+      pitch: args.pitch,
+      turns: args.turns,
+      height: args.height,
+      handedness: args.handedness,
+      taperAngle: args.taperAngle,
+      startOffset: args.startOffset,
+      reverse: args.reverse,
+      name: args.name,
+    };
+
+    const featureId = addHelixFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateThreadArgs {
+  /** ID of the helix feature the thread follows */
+  helix: string;
+  /** Cylindrical face PersistentRef to thread */
+  face: string;
+  /** Radial depth (default: the ISO basic depth for the pitch) */
+  depth?: number;
+  /** Included flank angle in degrees (default 60) */
+  profileAngle?: number;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new thread feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Thread creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createThread(
+  doc: SolidTypeDoc,
+  args: CreateThreadArgs
+): CommandResult<{ featureId: string }> {
+  if (doc.featuresById.get(args.helix)?.get("type") !== "helix") {
+    return err(`Helix ${args.helix} not found`);
+  }
+  const decoded = decodePersistentRef(args.face);
+  if (!decoded.ok || decoded.ref.expectedType !== "face") {
+    return err(`Invalid face reference: ${args.face}`);
+  }
+  if (args.depth !== undefined && !(args.depth > 0)) {
+    return err("Thread depth must be positive");
+  }
+  if (args.profileAngle !== undefined && !(args.profileAngle > 0 && args.profileAngle < 180)) {
+    return err("Thread profile angle must be between 0 and 180 degrees");
+  }
+
+  try {
+    const options: ThreadFeatureOptions = {
+      helix: args.helix,
+      face: args.face,
+      depth: args.depth,
+      profileAngle: args.profileAngle,
+      name: args.name,
+    };
+
+    const featureId = addThreadFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Rib Commands
+// ============================================================================
+
+export interface CreateRibArgs {
+  /** ID of the sketch holding the open profile */
+  sketchId: string;
+  /** Line/arc entities forming an open chain (default: every line and arc in the sketch) */
+  entities?: string[];
+  /** Rib thickness */
+  thickness: number;
+  /** Where the thickness lies across the sketch plane (default: midplane) */
+  thicknessSide?: "oneSide" | "bothSides" | "midplane";
+  /** Put a one-sided rib against the sketch normal */
+  flipThickness?: boolean;
+  /** Side of the profile the rib fills (default: auto, the side the body closes off) */
+  materialSide?: "auto" | "left" | "right";
+  /** Body the rib joins (default: the only body) */
+  targetBody?: string;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new rib feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Rib creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createRib(
+  doc: SolidTypeDoc,
+  args: CreateRibArgs
+): CommandResult<{ featureId: string }> {
+  const sketch = doc.featuresById.get(args.sketchId);
+  if (!sketch || sketch.get("type") !== "sketch") {
+    return err(`Sketch ${args.sketchId} not found`);
+  }
+  const { entitiesById } = getSketchData(sketch);
+  for (const entityId of args.entities ?? []) {
+    const entity = entitiesById[entityId];
+    if (!entity) {
+      return err(`Entity ${entityId} not found in sketch ${args.sketchId}`);
+    }
+    if (entity.type !== "line" && entity.type !== "arc") {
+      return err(`Rib profile entity ${entityId} is not a line or arc`);
+    }
+  }
+  if (!(args.thickness > 0)) {
+    return err("Rib thickness must be positive");
+  }
+
+  try {
+    const options: RibFeatureOptions = {
+      sketch: args.sketchId,
+      entities: args.entities,
+      thickness: args.thickness,
+      thicknessSide: args.thicknessSide,
+      flipThickness: args.flipThickness,
+      materialSide: args.materialSide,
+      targetBody: args.targetBody,
+      name: args.name,
+    };
+
+    const featureId = addRibFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Primitive Commands
+// ============================================================================
+
+export type CreatePrimitiveArgs = PrimitiveDimensions & {
+  /** Plane to place it on - a datum plane role ("xy", "xz", "yz"), plane feature ID, or face reference */
+  planeRef: string;
+  /** Position in the plane */
+  offsetX?: number;
+  offsetY?: number;
+  /** Distance along the plane normal */
+  offsetZ?: number;
+  /** Rotation about the plane normal in degrees */
+  rotation?: number;
+  /** Operation type: add material or cut material */
+  op?: "add" | "cut";
+  /** Optional name for the feature */
+  name?: string;
+  /** Multi-body merge scope */
+  mergeScope?: "auto" | "new" | "specific";
+  /** Specific target body IDs for merge (when mergeScope is "specific") */
+  targetBodies?: string[];
+  /** Name for the result body */
+  resultBodyName?: string;
+  /** Color for the result body (hex string) */
+  resultBodyColor?: string;
+};
+
+/**
+ * Create a new box, cylinder, sphere, cone or torus feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Primitive creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createPrimitive(
+  doc: SolidTypeDoc,
+  args: CreatePrimitiveArgs
+): CommandResult<{ featureId: string }> {
+  const planeRef = parsePlaneRef(doc, args.planeRef);
+  if (planeRef.kind === "planeFeatureId") {
+    const plane = doc.featuresById.get(planeRef.ref);
+    if (!plane || plane.get("type") !== "plane") {
+      return err(`Plane ${args.planeRef} not found`);
+    }
+  } else if (planeRef.kind === "custom") {
+    return err(`Plane ${args.planeRef} not found`);
+  }
+
+  const { planeRef: plane, ...options } = args;
+  const positive = (...values: number[]) => values.every((value) => value > 0);
+  switch (args.type) {
+    case "box":
+      if (!positive(args.width, args.depth, args.height)) {
+        return err("Box width, depth and height must be positive");
+      }
+      break;
+    case "cylinder":
+      if (!positive(args.radius, args.height)) {
+        return err("Cylinder radius and height must be positive");
+      }
+      break;
+    case "sphere":
+      if (!positive(args.radius)) {
+        return err("Sphere radius must be positive");
+      }
+      break;
+    case "cone":
+      if (!positive(args.height) || args.radius < 0 || args.topRadius < 0) {
+        return err("Cone height must be positive and its radii not negative");
+      }
+      if (args.radius === args.topRadius) {
+        return err("Cone radii must differ");
+      }
+      break;
+    case "torus":
+      if (!positive(args.majorRadius, args.minorRadius)) {
+        return err("Torus radii must be positive");
+      }
+      if (args.minorRadius >= args.majorRadius) {
+        return err("Torus minor radius must be smaller than its major radius");
+      }
+      break;
+  }
+
+  try {
+    const featureId = addPrimitiveFeatureHelper(doc, { ...options, plane });
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Transform Commands
+// ============================================================================
+
+export interface CreateTransformArgs {
+  /** Body feature IDs to move */
+  bodies: string[];
+  /** Vertex or planar face PersistentRef on a moved body, mated onto `mateTo` */
+  mateFrom?: string;
+  /** Vertex or planar face PersistentRef to mate onto */
+  mateTo?: string;
+  /** Face mates: point the faces the same way rather than face to face */
+  mateFlip?: boolean;
+  /** Rotation angles in degrees, applied about x, then y, then z */
+  rotate?: [number, number, number];
+  /** Point the rotation is about (default: the origin) */
+  pivot?: [number, number, number];
+  /** Translation, applied after the rotation */
+  translate?: [number, number, number];
+  /** Move copies and keep the original bodies */
+  copy?: boolean;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new transform feature that moves, rotates or copies bodies.
+ *
+ * @param doc - The SolidType document
+ * @param args - Transform creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createTransform(
+  doc: SolidTypeDoc,
+  args: CreateTransformArgs
+): CommandResult<{ featureId: string }> {
+  if (args.bodies.length === 0) {
+    return err("Transform requires at least one body");
+  }
+  for (const id of args.bodies) {
+    if (!bodyExists(doc, id)) {
+      return err(`Body ${id} not found`);
+    }
+  }
+
+  if (!args.mateFrom !== !args.mateTo) {
+    return err("A mate needs both a from and a to reference");
+  }
+  for (const ref of [args.mateFrom, args.mateTo]) {
+    if (!ref) continue;
+    const decoded = decodePersistentRef(ref);
+    if (!decoded.ok || decoded.ref.expectedType === "edge") {
+      return err(`Invalid vertex or face reference: ${ref}`);
+    }
+  }
+
+  try {
+    const options: TransformFeatureOptions = {
+      bodies: args.bodies,
+      mateFrom: args.mateFrom,
+      mateTo: args.mateTo,
+      mateFlip: args.mateFlip,
+      rotate: args.rotate,
+      pivot: args.pivot,
+      translate: args.translate,
+      copy: args.copy,
+      name: args.name,
+    };
+
+    const featureId = addTransformFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Split Commands
+// ============================================================================
+
+export interface CreateSplitArgs {
+  /** Plane feature, planar face PersistentRef or sketch to cut with */
+  tool: SplitTool;
+  /** Pieces to keep as bodies (default: both) */
+  keep?: "both" | "front" | "back";
+  /** Body to split (default: the only body) */
+  targetBody?: string;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new split feature that cuts a body into separate bodies.
+ *
+ * @param doc - The SolidType document
+ * @param args - Split creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createSplit(
+  doc: SolidTypeDoc,
+  args: CreateSplitArgs
+): CommandResult<{ featureId: string }> {
+  if (args.targetBody && !bodyExists(doc, args.targetBody)) {
+    return err(`Body ${args.targetBody} not found`);
+  }
+
+  const { tool } = args;
+  if (tool.kind === "sketch") {
+    if (doc.featuresById.get(tool.ref)?.get("type") !== "sketch") {
+      return err(`Sketch ${tool.ref} not found`);
+    }
+  } else {
+    const planeError = validatePlaneRef(doc, tool);
+    if (planeError) {
+      return err(planeError);
+    }
+  }
+
+  try {
+    const options: SplitFeatureOptions = {
+      tool,
+      keep: args.keep,
+      targetBody: args.targetBody,
+      name: args.name,
+    };
+
+    const featureId = addSplitFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Offset Face / Thicken Commands
+// ============================================================================
+
+/**
+ * Check a list of face refs. Returns an error message or null.
+ */
+function validateFaceRefs(faces: string[], label: string): string | null {
+  if (faces.length === 0) {
+    return `${label} requires at least one face`;
+  }
+  for (const ref of faces) {
+    const decoded = decodePersistentRef(ref);
+    if (!decoded.ok || decoded.ref.expectedType !== "face") {
+      return `Invalid face reference: ${ref}`;
+    }
+  }
+  return null;
+}
+
+export interface CreateOffsetFaceArgs {
+  /** Face PersistentRefs to move */
+  faces: string[];
+  /** Distance along each face's outward normal; negative moves it into the body */
+  distance: number;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new offset face feature that moves faces in or out.
+ *
+ * @param doc - The SolidType document
+ * @param args - Offset face creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createOffsetFace(
+  doc: SolidTypeDoc,
+  args: CreateOffsetFaceArgs
+): CommandResult<{ featureId: string }> {
+  const faceError = validateFaceRefs(args.faces, "Offset face");
+  if (faceError) {
+    return err(faceError);
+  }
+  if (!args.distance) {
+    return err("Offset distance must not be zero");
+  }
+
+  try {
+    const options: OffsetFaceFeatureOptions = {
+      faces: args.faces,
+      distance: args.distance,
+      name: args.name,
+    };
+
+    const featureId = addOffsetFaceFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateThickenArgs {
+  /** Face PersistentRefs to thicken, all on one body */
+  faces: string[];
+  /** Thickness along each face's outward normal; negative grows into the body */
+  thickness: number;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new thicken feature that grows faces into a solid body.
+ *
+ * @param doc - The SolidType document
+ * @param args - Thicken creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createThicken(
+  doc: SolidTypeDoc,
+  args: CreateThickenArgs
+): CommandResult<{ featureId: string }> {
+  const faceError = validateFaceRefs(args.faces, "Thicken");
+  if (faceError) {
+    return err(faceError);
+  }
+  if (!args.thickness) {
+    return err("Thicken thickness must not be zero");
+  }
+
+  try {
+    const options: ThickenFeatureOptions = {
+      faces: args.faces,
+      thickness: args.thickness,
+      name: args.name,
+    };
+
+    const featureId = addThickenFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Sheet Metal Commands
+// ============================================================================
+
+export interface CreateBaseFlangeArgs {
+  /** Sketch holding the closed profile */
+  sketchId: string;
+  thickness: number;
+  /** Default inside bend radius */
+  bendRadius: number;
+  /** Neutral axis position as a fraction of the thickness (default 0.44) */
+  kFactor?: number;
+  /** Thicken against the sketch normal */
+  reverse?: boolean;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new base flange feature that starts a sheet metal part.
+ *
+ * @param doc - The SolidType document
+ * @param args - Base flange creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createBaseFlange(
+  doc: SolidTypeDoc,
+  args: CreateBaseFlangeArgs
+): CommandResult<{ featureId: string }> {
+  const sketch = doc.featuresById.get(args.sketchId);
+  if (!sketch || sketch.get("type") !== "sketch") {
+    return err(`Sketch ${args.sketchId} not found`);
+  }
+  if (!(args.thickness > 0) || !(args.bendRadius > 0)) {
+    return err("Sheet thickness and bend radius must be positive");
+  }
+  const kFactor = args.kFactor ?? 0.44;
+  if (!(kFactor >= 0 && kFactor <= 1)) {
+    return err("K-factor must be between 0 and 1");
+  }
+
+  try {
+    const options: BaseFlangeFeatureOptions = {
+      sketch: args.sketchId,
+      thickness: args.thickness,
+      bendRadius: args.bendRadius,
+      kFactor,
+      reverse: args.reverse,
+      name: args.name,
+    };
+
+    const featureId = addBaseFlangeFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateEdgeFlangeArgs {
+  /** Outline edge on the top or bottom face of the sheet */
+  edge: string;
+  /** Bend angle in degrees from flat (default 90) */
+  angle?: number;
+  /** Length of the wall beyond the bend */
+  length: number;
+  /** Inside bend radius (default: the base flange's) */
+  bendRadius?: number;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new edge flange feature that bends a wall up from a sheet edge.
+ *
+ * @param doc - The SolidType document
+ * @param args - Edge flange creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createEdgeFlange(
+  doc: SolidTypeDoc,
+  args: CreateEdgeFlangeArgs
+): CommandResult<{ featureId: string }> {
+  const decoded = decodePersistentRef(args.edge);
+  if (!decoded.ok || decoded.ref.expectedType !== "edge") {
+    return err(`Invalid edge reference: ${args.edge}`);
+  }
+  const angle = args.angle ?? 90;
+  if (!(angle > 0 && angle < 180)) {
+    return err("Flange angle must be between 0 and 180 degrees");
+  }
+  if (!(args.length > 0)) {
+    return err("Flange length must be positive");
+  }
+  if (args.bendRadius !== undefined && !(args.bendRadius > 0)) {
+    return err("Bend radius must be positive");
+  }
+
+  try {
+    const options: EdgeFlangeFeatureOptions = {
+      edge: args.edge,
+      angle,
+      length: args.length,
+      bendRadius: args.bendRadius,
+      name: args.name,
+    };
+
+    const featureId = addEdgeFlangeFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateUnfoldArgs {
+  /** Base flange feature of the part to flatten */
+  baseFlangeId: string;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new unfold feature that flattens a sheet metal part.
+ *
+ * @param doc - The SolidType document
+ * @param args - Unfold creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createUnfold(
+  doc: SolidTypeDoc,
+  args: CreateUnfoldArgs
+): CommandResult<{ featureId: string }> {
+  const baseFlange = doc.featuresById.get(args.baseFlangeId);
+  if (!baseFlange || baseFlange.get("type") !== "baseFlange") {
+    return err(`Base flange ${args.baseFlangeId} not found`);
+  }
+
+  try {
+    const options: UnfoldFeatureOptions = {
+      baseFlange: args.baseFlangeId,
+      name: args.name,
+    };
+
+    const featureId = addUnfoldFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Delete Face / Replace Face Commands
+// ============================================================================
+
+export interface CreateDeleteFaceArgs {
+  /** Face PersistentRefs to remove */
+  faces: string[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new delete face feature that removes faces and heals the gap.
+ *
+ * @param doc - The SolidType document
+ * @param args - Delete face creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createDeleteFace(
+  doc: SolidTypeDoc,
+  args: CreateDeleteFaceArgs
+): CommandResult<{ featureId: string }> {
+  const faceError = validateFaceRefs(args.faces, "Delete face");
+  if (faceError) {
+    return err(faceError);
+  }
+
+  try {
+    const options: DeleteFaceFeatureOptions = {
+      faces: args.faces,
+      name: args.name,
+    };
+
+    const featureId = addDeleteFaceFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface CreateReplaceFaceArgs {
+  /** Planar face PersistentRefs to replace */
+  faces: string[];
+  /** Plane feature, or planar face PersistentRef, to move the faces onto */
+  plane: MirrorPlaneRef;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new replace face feature that moves faces onto a plane.
+ *
+ * @param doc - The SolidType document
+ * @param args - Replace face creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createReplaceFace(
+  doc: SolidTypeDoc,
+  args: CreateReplaceFaceArgs
+): CommandResult<{ featureId: string }> {
+  const faceError = validateFaceRefs(args.faces, "Replace face");
+  if (faceError) {
+    return err(faceError);
+  }
+  const planeError = validatePlaneRef(doc, args.plane);
+  if (planeError) {
+    return err(planeError);
+  }
+  if (args.plane.kind === "faceRef" && args.faces.includes(args.plane.ref)) {
+    return err("Replace face plane must not be one of the faces being replaced");
+  }
+
+  try {
+    const options: ReplaceFaceFeatureOptions = {
+      faces: args.faces,
+      plane: args.plane,
+      name: args.name,
+    };
+
+    const featureId = addReplaceFaceFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Boolean Commands
+// ============================================================================
+
+export interface CreateBooleanArgs {
+  /** Boolean operation type */
+  operation: "union" | "subtract" | "intersect";
+  /** Target body feature ID */
+  target: string;
+  /** Tool body feature ID */
+  tool: string;
+  /** Further tool bodies, combined with the target after `tool` */
+  tools?: string[];
+  /** Keep the tool bodies instead of consuming them */
+  keepTools?: boolean;
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new boolean feature.
+ *
+ * @param doc - The SolidType document
+ * @param args - Boolean creation arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createBoolean(
+  doc: SolidTypeDoc,
+  args: CreateBooleanArgs
+): CommandResult<{ featureId: string }> {
+  const toolIds = [args.tool, ...(args.tools ?? [])];
+  if (toolIds.includes(args.target)) {
+    return err("Boolean target body cannot also be a tool");
+  }
+  if (new Set(toolIds).size !== toolIds.length) {
+    return err("Boolean tool bodies must be unique");
+  }
+
+  try {
+    const options: BooleanFeatureOptions = {
+      operation: args.operation,
+      target: args.target,
+      tool: args.tool,
+      tools: args.tools,
+      keepTools: args.keepTools,
+      name: args.name,
+    };
+
+    const featureId = addBooleanFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// ============================================================================
+// Body Commands
+// ============================================================================
+
+export interface DeleteBodyArgs {
+  /** Keys of the bodies to remove */
+  bodies: string[];
+  /** Optional name for the feature */
+  name?: string;
+}
+
+/**
+ * Create a new delete body feature that removes bodies from the part.
+ *
+ * @param doc - The SolidType document
+ * @param args - Delete body arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function deleteBody(
+  doc: SolidTypeDoc,
+  args: DeleteBodyArgs
+): CommandResult<{ featureId: string }> {
+  if (args.bodies.length === 0) {
+    return err("Delete body requires at least one body");
+  }
+  for (const bodyKey of args.bodies) {
+    if (!doc.featuresById.has(getBodySourceFeatureId(bodyKey))) {
+      return err(`Body ${bodyKey} does not belong to any feature`);
+    }
+  }
+
+  try {
+    const options: DeleteBodyFeatureOptions = {
+      bodies: args.bodies,
+      name: args.name,
+    };
+
+    const featureId = addDeleteBodyFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface SetBodyAppearanceArgs {
+  /** Body key (from the rebuild's body list) */
+  bodyKey: string;
+  /** Display name override */
+  name?: string;
+  /** Display color override (hex string like "#ff0000") */
+  color?: string;
+  /** Whether the body is shown */
+  visible?: boolean;
+  /** Display material preset */
+  material?: BodyMaterial;
+}
+
+/**
+ * Set the display name, color, visibility or material of a body.
+ * Only the fields present in args change.
+ *
+ * @param doc - The SolidType document
+ * @param args - Body appearance arguments
+ * @returns CommandResult indicating success
+ */
+export function setBodyAppearance(
+  doc: SolidTypeDoc,
+  args: SetBodyAppearanceArgs
+): CommandResult<void> {
+  if (args.color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(args.color)) {
+    return err(`Invalid body color: ${args.color}`);
+  }
+
+  // Defaults are stored as absent fields
+  const { bodyKey, ...appearance } = args;
+  if (appearance.name === "") {
+    appearance.name = undefined;
+  }
+  if (appearance.visible === true) {
+    appearance.visible = undefined;
+  }
+  if (appearance.material === "default") {
+    appearance.material = undefined;
+  }
+
+  const success = setBodyAppearanceHelper(doc, bodyKey, appearance);
+  if (!success) {
+    return err(`Body ${bodyKey} does not belong to any feature`);
+  }
+  return ok(undefined);
+}
+
+// ============================================================================
+// Import Commands
+// ============================================================================
+
+export interface CreateImportArgs {
+  /** Contents of the file */
+  data: Uint8Array;
+  /** Name of the file; its extension gives the format when none is given */
+  fileName: string;
+  format?: ImportFormat;
+  /** Units a BREP file is modelled in (default mm) */
+  fileUnits?: DocumentMeta["units"];
+  /** Optional name for the feature (defaults to the file name) */
+  name?: string;
+}
+
+/**
+ * Create a new import feature that rebuilds a body from a STEP, IGES or BREP file
+ * stored in the document.
+ *
+ * @param doc - The SolidType document
+ * @param args - Import arguments
+ * @returns CommandResult with the new feature ID
+ */
+export function createImport(
+  doc: SolidTypeDoc,
+  args: CreateImportArgs
+): CommandResult<{ featureId: string }> {
+  const format = args.format ?? importFormatFromFileName(args.fileName);
+  if (!format) {
+    return err(`Unsupported import file: ${args.fileName}`);
+  }
+  if (args.data.length === 0) {
+    return err("Import file is empty");
+  }
+
+  try {
+    const options: ImportFeatureOptions = {
+      format,
+      data: args.data,
+      fileName: args.fileName,
+      fileUnits: args.fileUnits,
+      name: args.name,
+    };
+
+    const featureId = addImportFeatureHelper(doc, options);
+    return ok({ featureId });
+  } catch (e) {
+    return err(e instanceof Error ? e.message : String(e));
+  }
+}
+
+export interface ReplaceImportFileArgs {
+  /** Import feature to update */
+  featureId: string;
+  /** Contents of the new file */
+  data: Uint8Array;
+  /** Name of the new file; its extension gives the format when none is given */
+  fileName: string;
+  format?: ImportFormat;
+}
+
+/**
+ * Replace the file of an import feature, e.g. with a vendor's new revision.
+ * Features that reference the imported faces keep their references, which
+ * resolve against the new file's faces by position, size and direction.
+ *
+ * @param doc - The SolidType document
+ * @param args - Replace file arguments
+ * @returns CommandResult indicating success
+ */
+export function replaceImportFile(
+  doc: SolidTypeDoc,
+  args: ReplaceImportFileArgs
+): CommandResult<void> {
+  const format = args.format ?? importFormatFromFileName(args.fileName);
+  if (!format) {
+    return err(`Unsupported import file: ${args.fileName}`);
+  }
+  if (args.data.length === 0) {
+    return err("Import file is empty");
+  }
+
+  const success = replaceImportFileHelper(doc, args.featureId, {
+    format,
+    data: args.data,
+    fileName: args.fileName,
+  });
+  if (!success) {
+    return err(`Import feature ${args.featureId} not found`);
+  }
+  return ok(undefined);
+}
+
 // ============================================================================
 // Offset Plane Commands
 // ============================================================================
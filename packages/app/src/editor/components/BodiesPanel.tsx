@@ -0,0 +1,228 @@
+/**
+ * Bodies Panel - lists every body from the last rebuild
+ *
+ * Each row shows the body's visibility, color, name and material, which are
+ * stored as appearance overrides on the feature that created the body.
+ * Checked bodies can be combined (first checked is the target) or deleted.
+ */
+
+import React, { useState, useCallback, useMemo } from "react";
+import { LuEye, LuEyeOff } from "react-icons/lu";
+import { useDocument } from "../contexts/DocumentContext";
+import { useKernel } from "../contexts/KernelContext";
+import { useSketch } from "../contexts/SketchContext";
+import type { BodyMaterial } from "../types/document";
+import type { BodyInfo } from "../worker/types";
+import "./BodiesPanel.css";
+
+const MATERIAL_OPTIONS: Array<{ value: BodyMaterial; label: string }> = [
+  { value: "default", label: "Default" },
+  { value: "matte", label: "Matte" },
+  { value: "glossy", label: "Glossy" },
+  { value: "metal", label: "Metal" },
+  { value: "glass", label: "Glass" },
+];
+
+const BodyIcon: React.FC = () => (
+  <svg
+    className="tree-icon tree-icon-body"
+    width="14"
+    height="14"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+  >
+    <path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z" />
+    <polyline points="3.27 6.96 12 12.01 20.73 6.96" />
+    <line x1="12" y1="22.08" x2="12" y2="12" />
+  </svg>
+);
+
+interface BodyRowProps {
+  body: BodyInfo;
+  checked: boolean;
+  disabled: boolean;
+  onCheck: (bodyKey: string, checked: boolean) => void;
+}
+
+const BodyRow: React.FC<BodyRowProps> = ({ body, checked, disabled, onCheck }) => {
+  const { setBodyAppearance } = useDocument();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState("");
+  const bodyKey = body.featureId;
+  const name = body.name || bodyKey;
+  const hidden = body.visible === false;
+
+  const startRename = useCallback(() => {
+    if (disabled) return;
+    setEditValue(name);
+    setIsEditing(true);
+  }, [disabled, name]);
+
+  const submitRename = useCallback(() => {
+    const trimmed = editValue.trim();
+    if (trimmed && trimmed !== name) {
+      setBodyAppearance(bodyKey, { name: trimmed });
+    }
+    setIsEditing(false);
+  }, [editValue, name, bodyKey, setBodyAppearance]);
+
+  return (
+    <li className={`tree-item bodies-panel-row ${hidden ? "hidden" : ""}`}>
+      <input
+        type="checkbox"
+        className="bodies-panel-check"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onCheck(bodyKey, e.target.checked)}
+        aria-label={`Select ${name}`}
+      />
+      <BodyIcon />
+      {isEditing ? (
+        <input
+          autoFocus
+          type="text"
+          className="tree-item-rename-input"
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitRename();
+            else if (e.key === "Escape") setIsEditing(false);
+          }}
+        />
+      ) : (
+        <span className="tree-item-name" onDoubleClick={startRename} title={name}>
+          {name}
+        </span>
+      )}
+      <input
+        type="color"
+        className="bodies-panel-color"
+        value={body.color || "#6699cc"}
+        disabled={disabled}
+        onChange={(e) => setBodyAppearance(bodyKey, { color: e.target.value })}
+        title="Color"
+      />
+      <select
+        className="bodies-panel-material"
+        value={body.material ?? "default"}
+        disabled={disabled}
+        onChange={(e) => {
+          const material = e.target.value as BodyMaterial;
+          setBodyAppearance(bodyKey, { material: material === "default" ? undefined : material });
+        }}
+        title="Material"
+      >
+        {MATERIAL_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className={`tree-item-visibility ${hidden ? "hidden" : ""}`}
+        disabled={disabled}
+        onClick={() => setBodyAppearance(bodyKey, { visible: hidden ? undefined : false })}
+        title={hidden ? "Show" : "Hide"}
+      >
+        {hidden ? <LuEyeOff size={12} /> : <LuEye size={12} />}
+      </button>
+    </li>
+  );
+};
+
+const BodiesPanel: React.FC = () => {
+  const { addBoolean, addDeleteBody } = useDocument();
+  const { bodies } = useKernel();
+  const { mode: sketchMode } = useSketch();
+  const [checkedKeys, setCheckedKeys] = useState<string[]>([]);
+  const [keepTools, setKeepTools] = useState(false);
+
+  const disabled = sketchMode.active;
+
+  // Drop checks for bodies that no longer exist after a rebuild
+  const selection = useMemo(
+    () => checkedKeys.filter((key) => bodies.some((b) => b.featureId === key)),
+    [checkedKeys, bodies]
+  );
+
+  const handleCheck = useCallback((bodyKey: string, checked: boolean) => {
+    setCheckedKeys((prev) =>
+      checked
+        ? [...prev.filter((key) => key !== bodyKey), bodyKey]
+        : prev.filter((key) => key !== bodyKey)
+    );
+  }, []);
+
+  const handleCombine = useCallback(
+    (operation: "union" | "subtract") => {
+      if (selection.length < 2) return;
+      const [target, tool, ...tools] = selection;
+      addBoolean(operation, target, tool, { tools, keepTools });
+      setCheckedKeys([]);
+    },
+    [selection, keepTools, addBoolean]
+  );
+
+  const handleDelete = useCallback(() => {
+    if (selection.length === 0) return;
+    addDeleteBody(selection);
+    setCheckedKeys([]);
+  }, [selection, addDeleteBody]);
+
+  if (bodies.length === 0) {
+    return (
+      <ul className="tree-list">
+        <li className="feature-tree-empty-item">No items</li>
+      </ul>
+    );
+  }
+
+  return (
+    <div className="bodies-panel">
+      <ul className="tree-list">
+        {bodies.map((body) => (
+          <BodyRow
+            key={body.featureId}
+            body={body}
+            checked={selection.includes(body.featureId)}
+            disabled={disabled}
+            onCheck={handleCheck}
+          />
+        ))}
+      </ul>
+      {selection.length > 0 && !disabled && (
+        <div className="bodies-panel-actions">
+          {selection.length >= 2 && (
+            <>
+              <button onClick={() => handleCombine("union")} title="Union into the first checked">
+                Union
+              </button>
+              <button
+                onClick={() => handleCombine("subtract")}
+                title="Subtract from the first checked"
+              >
+                Subtract
+              </button>
+              <label className="bodies-panel-keep-tools">
+                <input
+                  type="checkbox"
+                  checked={keepTools}
+                  onChange={(e) => setKeepTools(e.target.checked)}
+                />
+                Keep tools
+              </label>
+            </>
+          )}
+          <button className="danger" onClick={handleDelete}>
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BodiesPanel;
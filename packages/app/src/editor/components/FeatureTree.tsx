@@ -16,6 +16,7 @@ import { useSelection } from "../contexts/SelectionContext";
 import { useSketch } from "../contexts/SketchContext";
 import { useKeyboardShortcut, ShortcutPriority } from "../contexts/KeyboardShortcutContext";
 import { ConfirmDialog } from "./ConfirmDialog";
+import BodiesPanel from "./BodiesPanel";
 import type { Feature, FeatureType } from "../types/document";
 import type { FeatureStatus } from "../worker/types";
 import "./FeatureTree.css";
@@ -24,16 +25,42 @@ import "./ContextMenu.css";
 // Tree node types
 type NodeType =
   | "bodies-folder"
-  | "body"
   | "part"
   | "origin"
   | "plane"
   | "sketch"
   | "extrude"
   | "revolve"
+  | "sweep"
+  | "loft"
+  | "shell"
   | "fillet"
   | "chamfer"
-  | "boolean";
+  | "linearPattern"
+  | "circularPattern"
+  | "mirror"
+  | "draft"
+  | "hole"
+  | "helix"
+  | "thread"
+  | "rib"
+  | "box"
+  | "cylinder"
+  | "sphere"
+  | "cone"
+  | "torus"
+  | "transform"
+  | "split"
+  | "offsetFace"
+  | "thicken"
+  | "baseFlange"
+  | "edgeFlange"
+  | "unfold"
+  | "deleteFace"
+  | "replaceFace"
+  | "boolean"
+  | "deleteBody"
+  | "import";
 
 interface TreeNode {
   id: string;
@@ -61,6 +88,62 @@ function featureTypeToNodeType(type: FeatureType): NodeType {
       return "extrude";
     case "revolve":
       return "revolve";
+    case "sweep":
+      return "sweep";
+    case "loft":
+      return "loft";
+    case "shell":
+      return "shell";
+    case "fillet":
+      return "fillet";
+    case "chamfer":
+      return "chamfer";
+    case "linearPattern":
+      return "linearPattern";
+    case "circularPattern":
+      return "circularPattern";
+    case "mirror":
+      return "mirror";
+    case "draft":
+      return "draft";
+    case "hole":
+      return "hole";
+    case "helix":
+      return "helix";
+    case "thread":
+      return "thread";
+    case "rib":
+      return "rib";
+    case "box":
+    case "cylinder":
+    case "sphere":
+    case "cone":
+    case "torus":
+      return type;
+    case "transform":
+      return "transform";
+    case "split":
+      return "split";
+    case "offsetFace":
+      return "offsetFace";
+    case "thicken":
+      return "thicken";
+    case "baseFlange":
+      return "baseFlange";
+    case "edgeFlange":
+      return "edgeFlange";
+    case "unfold":
+      return "unfold";
+    case "deleteFace":
+      return "deleteFace";
+    case "replaceFace":
+      return "replaceFace";
+    case "boolean":
+      return "boolean";
+    case "deleteBody":
+      return "deleteBody";
+    case "import":
+      return "import";
     default:
       return "part";
   }
@@ -71,8 +154,7 @@ function featuresToTreeNodes(
   features: Feature[],
   rebuildGate: string | null,
   kernelStatus: Record<string, FeatureStatus>,
-  errorsByFeature: Record<string, string>,
-  bodies: Array<{ id: string; featureId: string }>
+  errorsByFeature: Record<string, string>
 ): TreeNode[] {
   // Find the gate index
   let gateIndex = -1;
@@ -110,19 +192,12 @@ function featuresToTreeNodes(
     children: featureNodes,
   };
 
-  // Bodies folder
+  // Bodies folder - its contents are the bodies panel
   const bodiesFolder: TreeNode = {
     id: "bodies",
     name: "Bodies",
     type: "bodies-folder",
     expanded: true,
-    children: bodies.map((b) => ({
-      id: b.id,
-      name: b.id,
-      type: "body",
-      status: "computed",
-      errorMessage: errorsByFeature[b.featureId],
-    })),
   };
 
   return [bodiesFolder, featuresNode];
@@ -133,22 +208,6 @@ const NodeIcon: React.FC<{ type: NodeType }> = ({ type }) => {
   switch (type) {
     case "bodies-folder":
       return <LuFolder className="tree-icon tree-icon-bodies" size={14} />;
-    case "body":
-      return (
-        <svg
-          className="tree-icon tree-icon-body"
-          width="14"
-          height="14"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-        >
-          <path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z" />
-          <polyline points="3.27 6.96 12 12.01 20.73 6.96" />
-          <line x1="12" y1="22.08" x2="12" y2="12" />
-        </svg>
-      );
     case "part":
       return <LuLayoutGrid className="tree-icon tree-icon-part" size={14} />;
     case "origin":
@@ -177,6 +236,52 @@ const NodeIcon: React.FC<{ type: NodeType }> = ({ type }) => {
           <RevolveIcon />
         </span>
       );
+    case "sweep":
+      return (
+        <svg
+          className="tree-icon tree-icon-sweep"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <circle cx="5" cy="19" r="2" />
+          <path d="M5 17c0-7 5-12 14-12" />
+        </svg>
+      );
+    case "loft":
+      return (
+        <svg
+          className="tree-icon tree-icon-loft"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <rect x="3" y="17" width="18" height="4" />
+          <ellipse cx="12" cy="5" rx="4" ry="2" />
+          <path d="M3 17L8 5M21 17L16 5" />
+        </svg>
+      );
+    case "shell":
+      return (
+        <svg
+          className="tree-icon tree-icon-shell"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M3 5v16h18V5" />
+          <path d="M7 5v12h10V5" />
+        </svg>
+      );
     case "fillet":
       return (
         <svg
@@ -205,12 +310,382 @@ const NodeIcon: React.FC<{ type: NodeType }> = ({ type }) => {
           <path d="M3 19h8l8-8V3" />
         </svg>
       );
+    case "linearPattern":
+      return (
+        <svg
+          className="tree-icon tree-icon-pattern"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <rect x="2" y="9" width="6" height="6" />
+          <rect x="9" y="9" width="6" height="6" />
+          <rect x="16" y="9" width="6" height="6" />
+        </svg>
+      );
+    case "circularPattern":
+      return (
+        <svg
+          className="tree-icon tree-icon-pattern"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <circle cx="12" cy="4" r="2" />
+          <circle cx="20" cy="12" r="2" />
+          <circle cx="12" cy="20" r="2" />
+          <circle cx="4" cy="12" r="2" />
+        </svg>
+      );
+    case "mirror":
+      return (
+        <svg
+          className="tree-icon tree-icon-mirror"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 2v20" strokeDasharray="3 2" />
+          <path d="M9 6L3 18h6z" />
+          <path d="M15 6l6 12h-6z" />
+        </svg>
+      );
+    case "draft":
+      return (
+        <svg
+          className="tree-icon tree-icon-draft"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M3 21h18" />
+          <path d="M6 21L8 5h8l2 16" />
+          <path d="M12 3v4" strokeDasharray="2 2" />
+        </svg>
+      );
+    case "hole":
+      return (
+        <svg
+          className="tree-icon tree-icon-hole"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M3 6h6v4h6V6h6v14H3z" />
+          <path d="M9 10v10M15 10v10" strokeDasharray="2 2" />
+        </svg>
+      );
+    case "helix":
+      return (
+        <svg
+          className="tree-icon tree-icon-helix"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 2v20" strokeDasharray="2 2" />
+          <path d="M5 5c0 2 14 1 14 3s-14 1-14 3 14 1 14 3-14 1-14 3 14 1 14 3" />
+        </svg>
+      );
+    case "thread":
+      return (
+        <svg
+          className="tree-icon tree-icon-thread"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M7 3v18M17 3v18" />
+          <path d="M7 6l10 3M7 10l10 3M7 14l10 3" />
+        </svg>
+      );
+    case "rib":
+      return (
+        <svg
+          className="tree-icon tree-icon-rib"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M4 4v16h16" />
+          <path d="M4 9l11 11M4 13l7 7" />
+        </svg>
+      );
+    case "box":
+      return (
+        <svg
+          className="tree-icon tree-icon-box"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 3l8 4.5v9L12 21l-8-4.5v-9z" />
+          <path d="M4 7.5l8 4.5 8-4.5M12 12v9" />
+        </svg>
+      );
+    case "cylinder":
+      return (
+        <svg
+          className="tree-icon tree-icon-cylinder"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <ellipse cx="12" cy="6" rx="7" ry="3" />
+          <path d="M5 6v12c0 1.7 3.1 3 7 3s7-1.3 7-3V6" />
+        </svg>
+      );
+    case "sphere":
+      return (
+        <svg
+          className="tree-icon tree-icon-sphere"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <circle cx="12" cy="12" r="9" />
+          <ellipse cx="12" cy="12" rx="9" ry="3.5" />
+        </svg>
+      );
+    case "cone":
+      return (
+        <svg
+          className="tree-icon tree-icon-cone"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 3L5 18M12 3l7 15" />
+          <ellipse cx="12" cy="18" rx="7" ry="3" />
+        </svg>
+      );
+    case "torus":
+      return (
+        <svg
+          className="tree-icon tree-icon-torus"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <ellipse cx="12" cy="12" rx="10" ry="6" />
+          <ellipse cx="12" cy="12" rx="4" ry="2" />
+        </svg>
+      );
+    case "transform":
+      return (
+        <svg
+          className="tree-icon tree-icon-transform"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 3v18M3 12h18" />
+          <path d="M9 6l3-3 3 3M9 18l3 3 3-3M6 9l-3 3 3 3M18 9l3 3-3 3" />
+        </svg>
+      );
+    case "split":
+      return (
+        <svg
+          className="tree-icon tree-icon-split"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M4 5h6v14H4zM14 5h6v14h-6z" />
+          <path d="M12 2v20" strokeDasharray="2 2" />
+        </svg>
+      );
+    case "offsetFace":
+      return (
+        <svg
+          className="tree-icon tree-icon-offset-face"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M4 20V10h16v10z" />
+          <path d="M4 5h16" strokeDasharray="2 2" />
+          <path d="M12 10V3M9 6l3-3 3 3" />
+        </svg>
+      );
+    case "thicken":
+      return (
+        <svg
+          className="tree-icon tree-icon-thicken"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M3 16c4-4 14-4 18 0" />
+          <path d="M3 10c4-4 14-4 18 0" />
+          <path d="M3 10v6M21 10v6" />
+        </svg>
+      );
+    case "baseFlange":
+      return (
+        <svg
+          className="tree-icon tree-icon-base-flange"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M2 12l8-5h12l-8 5z" />
+          <path d="M2 12v3l8-5v-3M14 12v3h-12" />
+        </svg>
+      );
+    case "edgeFlange":
+      return (
+        <svg
+          className="tree-icon tree-icon-edge-flange"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M3 20h11a4 4 0 0 0 4-4V4" />
+          <path d="M3 16h10a1 1 0 0 0 1-1V4" strokeDasharray="2 2" />
+        </svg>
+      );
+    case "unfold":
+      return (
+        <svg
+          className="tree-icon tree-icon-unfold"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M2 16h20" />
+          <path d="M14 16V6" strokeDasharray="2 2" />
+          <path d="M14 6a6 6 0 0 1 6 6l2-2M20 12l-2-2" />
+        </svg>
+      );
+    case "deleteFace":
+      return (
+        <svg
+          className="tree-icon tree-icon-delete-face"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M4 20V8h16v12z" />
+          <path d="M8 4l8 8M16 4l-8 8" />
+        </svg>
+      );
+    case "replaceFace":
+      return (
+        <svg
+          className="tree-icon tree-icon-replace-face"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M4 20V12h16v8z" />
+          <path d="M2 9l20-5" strokeDasharray="2 2" />
+          <path d="M12 12V7" />
+        </svg>
+      );
     case "boolean":
       return (
         <span className="tree-icon tree-icon-boolean">
           <BooleanIcon />
         </span>
       );
+    case "deleteBody":
+      return (
+        <svg
+          className="tree-icon tree-icon-delete-body"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M12 3l8 4.5v9L12 21l-8-4.5v-9z" />
+          <path d="M9 9l6 6M15 9l-6 6" />
+        </svg>
+      );
+    case "import":
+      return (
+        <svg
+          className="tree-icon tree-icon-import"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+        >
+          <path d="M14 3H6a2 2 0 00-2 2v14a2 2 0 002 2h12a2 2 0 002-2V9z" />
+          <path d="M14 3v6h6" />
+          <path d="M12 12v6M9 15l3 3 3-3" />
+        </svg>
+      );
     default:
       return null;
   }
@@ -458,10 +933,12 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({
           ⏸
         </span>
       )}
-      {/* Visibility toggle for sketch/extrude/revolve/boolean features */}
+      {/* Visibility toggle for sketch/extrude/revolve/sweep/loft/boolean features */}
       {(node.type === "sketch" ||
         node.type === "extrude" ||
         node.type === "revolve" ||
+        node.type === "sweep" ||
+        node.type === "loft" ||
         node.type === "boolean") &&
         !isEditing && (
           <button
@@ -588,7 +1065,7 @@ const TreeNodeItem: React.FC<TreeNodeItemProps> = ({
 const FeatureTree: React.FC = () => {
   const { features, rebuildGate, setRebuildGate, deleteFeature, renameFeature, toggleVisibility } =
     useDocument();
-  const { featureStatus, errors, bodies } = useKernel();
+  const { featureStatus, errors } = useKernel();
   const { selectedFeatureId, selectFeature, setHoveredFeature } = useSelection();
   const { mode: sketchMode, editSketch } = useSketch();
 
@@ -618,14 +1095,8 @@ const FeatureTree: React.FC = () => {
 
   // Convert features to tree structure
   const treeData = useMemo(() => {
-    return featuresToTreeNodes(
-      features,
-      rebuildGate,
-      featureStatus,
-      errorsByFeature,
-      bodies.map((b) => ({ id: b.id, featureId: b.featureId }))
-    );
-  }, [features, rebuildGate, featureStatus, errorsByFeature, bodies]);
+    return featuresToTreeNodes(features, rebuildGate, featureStatus, errorsByFeature);
+  }, [features, rebuildGate, featureStatus, errorsByFeature]);
 
   // Track expanded state for sections (using Collapsible's controlled state)
   const [expandedSections, setExpandedSections] = useState<Set<string>>(() => {
@@ -867,54 +1338,58 @@ const FeatureTree: React.FC = () => {
                 <span className="feature-tree-section-title">{node.name}</span>
               </Collapsible.Trigger>
               <Collapsible.Panel className="feature-tree-section-panel">
-                <ul className="tree-list">
-                  {node.children && node.children.length > 0 ? (
-                    <>
-                      {node.children.map((child) => (
-                        <TreeNodeItem
-                          key={child.id}
-                          node={child}
-                          level={0}
-                          expandedNodes={expandedNodes}
-                          selectedId={selectedFeatureId}
-                          rebuildGate={rebuildGate}
-                          showGateAfter={node.id === "features"}
-                          isInFeaturesSection={node.id === "features"}
-                          editingId={editingId}
-                          isDraggingGate={isDraggingGate}
-                          onToggleExpand={() => {}} // Not used for top-level items
-                          onSelect={handleSelect}
-                          onHover={handleHover}
-                          onGateDrop={handleGateDrop}
-                          onGateDragStart={() => setIsDraggingGate(true)}
-                          onGateDragEnd={() => setIsDraggingGate(false)}
-                          onDoubleClick={handleDoubleClick}
-                          onRename={handleRename}
-                          onCancelRename={handleCancelRename}
-                          onToggleVisibility={handleToggleVisibility}
-                          getContextMenuItems={getContextMenuItems}
-                        />
-                      ))}
-                      {/* Show gate at end if no gate is set, otherwise show drop zone - only for features section */}
-                      {node.id === "features" &&
-                        (rebuildGate === null ? (
-                          <RebuildGateBar
-                            afterFeatureId={null}
-                            onDragStart={() => setIsDraggingGate(true)}
-                            onDragEnd={() => setIsDraggingGate(false)}
-                          />
-                        ) : (
-                          <RebuildGateDropZone
-                            afterFeatureId={null}
-                            onDrop={handleGateDrop}
-                            isActive={isDraggingGate}
+                {node.id === "bodies" ? (
+                  <BodiesPanel />
+                ) : (
+                  <ul className="tree-list">
+                    {node.children && node.children.length > 0 ? (
+                      <>
+                        {node.children.map((child) => (
+                          <TreeNodeItem
+                            key={child.id}
+                            node={child}
+                            level={0}
+                            expandedNodes={expandedNodes}
+                            selectedId={selectedFeatureId}
+                            rebuildGate={rebuildGate}
+                            showGateAfter={node.id === "features"}
+                            isInFeaturesSection={node.id === "features"}
+                            editingId={editingId}
+                            isDraggingGate={isDraggingGate}
+                            onToggleExpand={() => {}} // Not used for top-level items
+                            onSelect={handleSelect}
+                            onHover={handleHover}
+                            onGateDrop={handleGateDrop}
+                            onGateDragStart={() => setIsDraggingGate(true)}
+                            onGateDragEnd={() => setIsDraggingGate(false)}
+                            onDoubleClick={handleDoubleClick}
+                            onRename={handleRename}
+                            onCancelRename={handleCancelRename}
+                            onToggleVisibility={handleToggleVisibility}
+                            getContextMenuItems={getContextMenuItems}
                           />
                         ))}
-                    </>
-                  ) : (
-                    <li className="feature-tree-empty-item">No items</li>
-                  )}
-                </ul>
+                        {/* Show gate at end if no gate is set, otherwise show drop zone - only for features section */}
+                        {node.id === "features" &&
+                          (rebuildGate === null ? (
+                            <RebuildGateBar
+                              afterFeatureId={null}
+                              onDragStart={() => setIsDraggingGate(true)}
+                              onDragEnd={() => setIsDraggingGate(false)}
+                            />
+                          ) : (
+                            <RebuildGateDropZone
+                              afterFeatureId={null}
+                              onDrop={handleGateDrop}
+                              isActive={isDraggingGate}
+                            />
+                          ))}
+                      </>
+                    ) : (
+                      <li className="feature-tree-empty-item">No items</li>
+                    )}
+                  </ul>
+                )}
               </Collapsible.Panel>
             </Collapsible.Root>
           );
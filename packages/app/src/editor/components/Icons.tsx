@@ -6,6 +6,7 @@ import {
   LuUndo,
   LuRedo,
   LuDownload,
+  LuUpload,
   LuChevronDown,
   LuCheck,
   LuX,
@@ -133,6 +134,8 @@ export const RedoIcon = () => <LuRedo size={18} />;
 
 export const ExportIcon = () => <LuDownload size={18} />;
 
+export const ImportIcon = () => <LuUpload size={18} />;
+
 export const AIIcon = () => <LuBotMessageSquare size={18} />;
 
 export const ChevronDownIcon = () => <LuChevronDown size={10} />;
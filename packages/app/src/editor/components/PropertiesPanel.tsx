@@ -27,6 +27,15 @@ import {
   SketchProperties,
   ExtrudeProperties,
   RevolveProperties,
+  RibProperties,
+  PrimitiveProperties,
+  TransformProperties,
+  SplitProperties,
+  OffsetFaceProperties,
+  SheetMetalProperties,
+  FaceEditProperties,
+  BodyFeatureProperties,
+  ImportProperties,
   GenericProperties,
 } from "./properties-panel/feature-properties";
 import { ExtrudeEditForm, RevolveEditForm } from "./properties-panel/edit-forms";
@@ -143,6 +152,33 @@ const PropertiesPanel: React.FC = () => {
         return <ExtrudeProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
       case "revolve":
         return <RevolveProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "rib":
+        return <RibProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "box":
+      case "cylinder":
+      case "sphere":
+      case "cone":
+      case "torus":
+        return <PrimitiveProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "transform":
+        return <TransformProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "split":
+        return <SplitProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "offsetFace":
+      case "thicken":
+        return <OffsetFaceProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "baseFlange":
+      case "edgeFlange":
+      case "unfold":
+        return <SheetMetalProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "deleteFace":
+      case "replaceFace":
+        return <FaceEditProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "boolean":
+      case "deleteBody":
+        return <BodyFeatureProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
+      case "import":
+        return <ImportProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
       default:
         return <GenericProperties feature={effectiveFeature} onUpdate={handleUpdate} />;
     }
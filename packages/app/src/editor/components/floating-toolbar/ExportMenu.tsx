@@ -1,23 +1,69 @@
 import React, { useState, useCallback } from "react";
 import { Tooltip } from "@base-ui/react";
 import { Menu } from "@base-ui/react/menu";
+import type { StepSchema } from "@solidtype/core";
+import type { FlatPatternFormat } from "../../worker/types";
 import { ExportIcon, ChevronDownIcon } from "../Icons";
 
+const STEP_SCHEMAS: Array<{ schema: StepSchema; label: string }> = [
+  { schema: "AP214", label: "AP214 (colors)" },
+  { schema: "AP242", label: "AP242 (colors)" },
+  { schema: "AP203", label: "AP203 (no colors)" },
+];
+
+const FLAT_PATTERN_FORMATS: Array<{ format: FlatPatternFormat; label: string; type: string }> = [
+  { format: "dxf", label: "DXF (Laser/CNC)", type: "application/dxf" },
+  { format: "svg", label: "SVG (Drawing)", type: "image/svg+xml" },
+];
+
+/**
+ * Save exported data as a file download
+ */
+function downloadFile(data: BlobPart, fileName: string, type: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 export interface ExportMenuProps {
   /** Whether there are bodies to export */
   canExport: boolean;
   /** Export as STL function */
   exportStl: (options?: { binary?: boolean; name?: string }) => Promise<string | ArrayBuffer>;
   /** Export as STEP function */
-  exportStep: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  exportStep: (options?: { name?: string; schema?: StepSchema }) => Promise<ArrayBuffer>;
+  /** Export as IGES function */
+  exportIges: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  /** Export as 3MF function */
+  export3mf: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  /** Unfolded sheet metal parts, by unfold feature */
+  flatPatterns: Array<{ featureId: string; name: string }>;
+  /** Export a flat pattern drawing function */
+  exportFlatPattern: (options: { featureId: string; format: FlatPatternFormat }) => Promise<string>;
 }
 
 /**
- * ExportMenu - Export dropdown with STL/STEP options
+ * ExportMenu - Export dropdown with STL/3MF/STEP/IGES options, and DXF/SVG
+ * flat patterns when the model has unfolded sheet metal
  */
-export const ExportMenu: React.FC<ExportMenuProps> = ({ canExport, exportStl, exportStep }) => {
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  canExport,
+  exportStl,
+  exportStep,
+  exportIges,
+  export3mf,
+  flatPatterns,
+  exportFlatPattern,
+}) => {
   const [isExporting, setIsExporting] = useState(false);
   const [isExportingStep, setIsExportingStep] = useState(false);
+  const [isExportingIges, setIsExportingIges] = useState(false);
+  const [isExporting3mf, setIsExporting3mf] = useState(false);
+  const [isExportingFlatPattern, setIsExportingFlatPattern] = useState(false);
 
   const handleExportStl = useCallback(async () => {
     if (!canExport || isExporting) return;
@@ -27,21 +73,9 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({ canExport, exportStl, ex
       const result = await exportStl({ binary: true, name: "model" });
 
       if (result instanceof ArrayBuffer) {
-        const blob = new Blob([result], { type: "model/stl" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = "model.stl";
-        a.click();
-        URL.revokeObjectURL(url);
+        downloadFile(result, "model.stl", "model/stl");
       } else if (typeof result === "string") {
-        const blob = new Blob([result], { type: "text/plain" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = "model.stl";
-        a.click();
-        URL.revokeObjectURL(url);
+        downloadFile(result, "model.stl", "text/plain");
       }
     } catch (err) {
       console.error("Export failed:", err);
@@ -51,29 +85,74 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({ canExport, exportStl, ex
     }
   }, [canExport, isExporting, exportStl]);
 
-  const handleExportStep = useCallback(async () => {
-    if (!canExport || isExportingStep) return;
+  const handleExportStep = useCallback(
+    async (schema: StepSchema) => {
+      if (!canExport || isExportingStep) return;
+
+      setIsExportingStep(true);
+      try {
+        const result = await exportStep({ name: "model", schema });
+        downloadFile(result, "model.step", "application/step");
+      } catch (err) {
+        console.error("STEP export failed:", err);
+        alert(`STEP export failed: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setIsExportingStep(false);
+      }
+    },
+    [canExport, isExportingStep, exportStep]
+  );
+
+  const handleExportIges = useCallback(async () => {
+    if (!canExport || isExportingIges) return;
+
+    setIsExportingIges(true);
+    try {
+      const result = await exportIges({ name: "model" });
+      downloadFile(result, "model.igs", "model/iges");
+    } catch (err) {
+      console.error("IGES export failed:", err);
+      alert(`IGES export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsExportingIges(false);
+    }
+  }, [canExport, isExportingIges, exportIges]);
+
+  const handleExport3mf = useCallback(async () => {
+    if (!canExport || isExporting3mf) return;
 
-    setIsExportingStep(true);
+    setIsExporting3mf(true);
     try {
-      const result = await exportStep({ name: "model" });
-
-      const blob = new Blob([result], { type: "application/step" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = "model.step";
-      a.click();
-      URL.revokeObjectURL(url);
+      const result = await export3mf({ name: "model" });
+      downloadFile(result, "model.3mf", "model/3mf");
     } catch (err) {
-      console.error("STEP export failed:", err);
-      alert(`STEP export failed: ${err instanceof Error ? err.message : String(err)}`);
+      console.error("3MF export failed:", err);
+      alert(`3MF export failed: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
-      setIsExportingStep(false);
+      setIsExporting3mf(false);
     }
-  }, [canExport, isExportingStep, exportStep]);
+  }, [canExport, isExporting3mf, export3mf]);
+
+  const handleExportFlatPattern = useCallback(
+    async (featureId: string, format: FlatPatternFormat, type: string) => {
+      if (isExportingFlatPattern) return;
+
+      setIsExportingFlatPattern(true);
+      try {
+        const result = await exportFlatPattern({ featureId, format });
+        downloadFile(result, `flat-pattern.${format}`, type);
+      } catch (err) {
+        console.error("Flat pattern export failed:", err);
+        alert(`Flat pattern export failed: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setIsExportingFlatPattern(false);
+      }
+    },
+    [isExportingFlatPattern, exportFlatPattern]
+  );
 
-  const isLoading = isExporting || isExportingStep;
+  const isLoading =
+    isExporting || isExportingStep || isExportingIges || isExporting3mf || isExportingFlatPattern;
   const tooltipText = isLoading
     ? "Exporting..."
     : canExport
@@ -116,12 +195,52 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({ canExport, exportStl, ex
               </Menu.Item>
               <Menu.Item
                 className="floating-toolbar-dropdown-item"
-                onClick={handleExportStep}
-                disabled={!canExport || isExportingStep}
+                onClick={handleExport3mf}
+                disabled={!canExport || isExporting3mf}
+              >
+                <span>3MF (3D Printing)</span>
+                <span className="floating-toolbar-dropdown-hint">.3mf</span>
+              </Menu.Item>
+              <Menu.Item
+                className="floating-toolbar-dropdown-item"
+                onClick={handleExportIges}
+                disabled={!canExport || isExportingIges}
               >
-                <span>STEP (CAD)</span>
-                <span className="floating-toolbar-dropdown-hint">.step</span>
+                <span>IGES (CAD)</span>
+                <span className="floating-toolbar-dropdown-hint">.igs</span>
               </Menu.Item>
+              <Menu.Separator className="floating-toolbar-dropdown-separator" />
+              <div className="floating-toolbar-dropdown-label">STEP (CAD)</div>
+              {STEP_SCHEMAS.map(({ schema, label }) => (
+                <Menu.Item
+                  key={schema}
+                  className="floating-toolbar-dropdown-item"
+                  onClick={() => handleExportStep(schema)}
+                  disabled={!canExport || isExportingStep}
+                >
+                  <span>{label}</span>
+                  <span className="floating-toolbar-dropdown-hint">.step</span>
+                </Menu.Item>
+              ))}
+              {flatPatterns.length > 0 && (
+                <>
+                  <Menu.Separator className="floating-toolbar-dropdown-separator" />
+                  <div className="floating-toolbar-dropdown-label">Flat Pattern (Sheet Metal)</div>
+                  {flatPatterns.flatMap(({ featureId, name }) =>
+                    FLAT_PATTERN_FORMATS.map(({ format, label, type }) => (
+                      <Menu.Item
+                        key={`${featureId}-${format}`}
+                        className="floating-toolbar-dropdown-item"
+                        onClick={() => handleExportFlatPattern(featureId, format, type)}
+                        disabled={isExportingFlatPattern}
+                      >
+                        <span>{flatPatterns.length > 1 ? `${name} ${label}` : label}</span>
+                        <span className="floating-toolbar-dropdown-hint">.{format}</span>
+                      </Menu.Item>
+                    ))
+                  )}
+                </>
+              )}
             </Menu.Popup>
           </Menu.Positioner>
         </Menu.Portal>
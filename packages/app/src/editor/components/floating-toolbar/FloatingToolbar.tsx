@@ -10,6 +10,7 @@ import { useKeyboardShortcut, ShortcutPriority } from "../../contexts/KeyboardSh
 import { UndoRedoGroup } from "./UndoRedoGroup";
 import { SketchModeTools } from "./SketchModeTools";
 import { FeatureModeTools } from "./FeatureModeTools";
+import { ImportButton } from "./ImportButton";
 import { ExportMenu } from "./ExportMenu";
 import "./FloatingToolbar.css";
 
@@ -21,7 +22,7 @@ import "./FloatingToolbar.css";
  * - Feature creation (extrude, revolve, boolean)
  * - Constraint application
  * - Undo/redo operations
- * - Export functionality
+ * - Import and export functionality
  *
  * The toolbar adapts its available tools based on the current mode
  * (normal view vs active sketch editing).
@@ -39,10 +40,19 @@ const FloatingToolbar: React.FC = () => {
     toggleConstruction,
     hasSelectedEntities,
   } = useSketch();
-  const { undo, redo, canUndo, canRedo, features, addBoolean, addOffsetPlane, addAxis } =
+  const { undo, redo, canUndo, canRedo, features, addBoolean, addOffsetPlane, addAxis, addImport } =
     useDocument();
   const { selectedFeatureId, selectFeature, clearSelection } = useSelection();
-  const { exportStl, exportStep, bodies, sketchPlaneTransforms } = useKernel();
+  const {
+    exportStl,
+    exportStep,
+    exportIges,
+    export3mf,
+    exportFlatPattern,
+    bodies,
+    flatPatterns,
+    sketchPlaneTransforms,
+  } = useKernel();
   const { startExtrudeEdit, startRevolveEdit, isEditing } = useFeatureEdit();
   const { actions: viewerActions, state: viewerState } = useViewer();
 
@@ -91,6 +101,14 @@ const FloatingToolbar: React.FC = () => {
     return features.filter((f) => f.type === "extrude" || f.type === "revolve");
   }, [features]);
 
+  // Flat patterns are named after their sheet metal body
+  const flatPatternExports = useMemo(() => {
+    return flatPatterns.map(({ featureId, baseFlangeId }) => ({
+      featureId,
+      name: bodies.find((b) => b.featureId === baseFlangeId)?.name ?? baseFlangeId,
+    }));
+  }, [flatPatterns, bodies]);
+
   // Capability flags
   const canStartSketch = sketchPlaneRef !== null;
   const canExtrude = !isEditing && (selectedSketch !== null || sketches.length === 1);
@@ -268,7 +286,16 @@ const FloatingToolbar: React.FC = () => {
 
         <div className="floating-toolbar-separator" />
 
-        <ExportMenu canExport={canExport} exportStl={exportStl} exportStep={exportStep} />
+        <ImportButton disabled={mode.active} addImport={addImport} />
+        <ExportMenu
+          canExport={canExport}
+          exportStl={exportStl}
+          exportStep={exportStep}
+          exportIges={exportIges}
+          export3mf={export3mf}
+          flatPatterns={flatPatternExports}
+          exportFlatPattern={exportFlatPattern}
+        />
       </div>
     </Tooltip.Provider>
   );
@@ -0,0 +1,59 @@
+import React, { useRef, useCallback } from "react";
+import { ToolbarButton } from "./ToolbarButton";
+import { ImportIcon } from "../Icons";
+import { importFormatFromFileName, type ImportFeatureOptions } from "../../document/featureHelpers";
+
+export interface ImportButtonProps {
+  /** Whether importing is available (not while sketching) */
+  disabled: boolean;
+  /** Add an import feature for the chosen file */
+  addImport: (options: ImportFeatureOptions) => string;
+}
+
+/**
+ * ImportButton - Opens a STEP, IGES or BREP file and adds it as an import feature
+ */
+export const ImportButton: React.FC<ImportButtonProps> = ({ disabled, addImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      // The file picker only offers supported files, so these are rare
+      const format = importFormatFromFileName(file.name);
+      if (!format) {
+        console.error(`Import failed: unsupported file ${file.name}`);
+        return;
+      }
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        addImport({ format, data, fileName: file.name });
+      } catch (err) {
+        console.error(`Import failed: could not read ${file.name}`, err);
+      }
+    },
+    [addImport]
+  );
+
+  return (
+    <div className="floating-toolbar-group">
+      <ToolbarButton
+        icon={<ImportIcon />}
+        label="Import"
+        tooltip="Import STEP/IGES/BREP"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      />
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".step,.stp,.iges,.igs,.brep,.brp"
+        style={{ display: "none" }}
+        onChange={handleChange}
+      />
+    </div>
+  );
+};
@@ -3,4 +3,5 @@ export { ToolbarButton } from "./ToolbarButton";
 export { UndoRedoGroup } from "./UndoRedoGroup";
 export { SketchModeTools } from "./SketchModeTools";
 export { FeatureModeTools } from "./FeatureModeTools";
+export { ImportButton } from "./ImportButton";
 export { ExportMenu } from "./ExportMenu";
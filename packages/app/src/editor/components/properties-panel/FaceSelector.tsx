@@ -23,9 +23,10 @@ export function FaceSelector({ value, onChange }: FaceSelectorProps) {
     setIsSelecting(true);
     setSelectionMode("selectFace");
     setOnFaceSelected((face) => {
-      // Create persistent reference from face selection
-      const ref = `face:${face.featureId}:${face.faceIndex}`;
-      onChange(ref);
+      // Store the face's PersistentRef so the selection survives rebuilds;
+      // faces without one (no reference index yet) can't be referenced
+      if (!face.persistentRef) return;
+      onChange(face.persistentRef);
       setIsSelecting(false);
       setSelectionMode("default");
       setOnFaceSelected(undefined);
@@ -9,7 +9,7 @@ import { useEffect } from "react";
 import { useForm } from "@tanstack/react-form";
 import { extrudeFormSchema, type ExtrudeFormData } from "../../../types/featureSchemas";
 import { useKernel } from "../../../contexts/KernelContext";
-import { NumberInput, SelectInput, PropertyRow, PropertyGroup } from "../inputs";
+import { NumberInput, SelectInput, CheckboxInput, PropertyRow, PropertyGroup } from "../inputs";
 
 interface ExtrudeEditFormProps {
   data: ExtrudeFormData;
@@ -48,6 +48,8 @@ export function ExtrudeEditForm({ data, onUpdate, onAccept, onCancel }: ExtrudeE
   const currentOp = form.state.values.op;
   const currentMergeScope = form.state.values.mergeScope || "auto";
   const isAddOperation = currentOp === "add";
+  const isSymmetric = form.state.values.direction === "symmetric";
+  const isTwoSided = form.state.values.twoSided ?? false;
 
   return (
     <form
@@ -82,10 +84,11 @@ export function ExtrudeEditForm({ data, onUpdate, onAccept, onCancel }: ExtrudeE
             <PropertyRow label="Direction">
               <SelectInput
                 value={field.state.value}
-                onChange={(dir) => field.handleChange(dir as "normal" | "reverse")}
+                onChange={(dir) => field.handleChange(dir as "normal" | "reverse" | "symmetric")}
                 options={[
                   { value: "normal", label: "Normal" },
                   { value: "reverse", label: "Reverse" },
+                  { value: "symmetric", label: "Symmetric (midplane)" },
                 ]}
               />
             </PropertyRow>
@@ -120,8 +123,85 @@ export function ExtrudeEditForm({ data, onUpdate, onAccept, onCancel }: ExtrudeE
             </PropertyRow>
           )}
         </form.Field>
+
+        <form.Field name="startOffset">
+          {(field) => (
+            <PropertyRow label="Start Offset">
+              <NumberInput
+                value={field.state.value ?? 0}
+                onChange={(startOffset) => field.handleChange(startOffset)}
+                step={1}
+                unit="mm"
+              />
+            </PropertyRow>
+          )}
+        </form.Field>
+
+        <form.Field name="draftAngle">
+          {(field) => (
+            <PropertyRow label="Draft">
+              <NumberInput
+                value={field.state.value ?? 0}
+                onChange={(draftAngle) => field.handleChange(draftAngle)}
+                min={-89}
+                max={89}
+                step={1}
+                unit="°"
+              />
+            </PropertyRow>
+          )}
+        </form.Field>
       </PropertyGroup>
 
+      {/* Second side - not available for symmetric extrudes */}
+      {!isSymmetric && (
+        <PropertyGroup title="Second Side">
+          <form.Field name="twoSided">
+            {(field) => (
+              <PropertyRow label="Two Sided">
+                <CheckboxInput
+                  checked={field.state.value ?? false}
+                  onChange={(twoSided) => field.handleChange(twoSided)}
+                />
+              </PropertyRow>
+            )}
+          </form.Field>
+
+          {isTwoSided && (
+            <form.Field name="distance2">
+              {(field) => (
+                <PropertyRow label="Distance">
+                  <NumberInput
+                    value={field.state.value ?? 10}
+                    onChange={(distance2) => field.handleChange(distance2)}
+                    min={0.1}
+                    step={1}
+                    unit="mm"
+                  />
+                </PropertyRow>
+              )}
+            </form.Field>
+          )}
+
+          {isTwoSided && (
+            <form.Field name="draftAngle2">
+              {(field) => (
+                <PropertyRow label="Draft">
+                  <NumberInput
+                    value={field.state.value ?? 0}
+                    onChange={(draftAngle2) => field.handleChange(draftAngle2)}
+                    min={-89}
+                    max={89}
+                    step={1}
+                    unit="°"
+                  />
+                </PropertyRow>
+              )}
+            </form.Field>
+          )}
+        </PropertyGroup>
+      )}
+
       {/* Multi-Body Options - only shown for add operations when bodies exist */}
       {isAddOperation && bodies.length > 0 && (
         <PropertyGroup title="Multi-Body">
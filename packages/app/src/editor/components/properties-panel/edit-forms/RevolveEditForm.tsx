@@ -9,7 +9,7 @@ import { useEffect } from "react";
 import { useForm } from "@tanstack/react-form";
 import { revolveFormSchema, type RevolveFormData } from "../../../types/featureSchemas";
 import { useKernel } from "../../../contexts/KernelContext";
-import { NumberInput, SelectInput, PropertyRow, PropertyGroup } from "../inputs";
+import { NumberInput, SelectInput, CheckboxInput, PropertyRow, PropertyGroup } from "../inputs";
 
 interface RevolveEditFormProps {
   data: RevolveFormData;
@@ -55,6 +55,9 @@ export function RevolveEditForm({
   const currentOp = form.state.values.op;
   const currentMergeScope = form.state.values.mergeScope || "auto";
   const isAddOperation = currentOp === "add";
+  const isSymmetric = form.state.values.symmetric ?? false;
+  const isTwoSided = form.state.values.twoSided ?? false;
+  const isThin = form.state.values.thin ?? false;
 
   return (
     <form
@@ -144,6 +147,99 @@ export function RevolveEditForm({
             </PropertyRow>
           )}
         </form.Field>
+
+        <form.Field name="symmetric">
+          {(field) => (
+            <PropertyRow label="Symmetric">
+              <CheckboxInput
+                checked={field.state.value ?? false}
+                onChange={(symmetric) => field.handleChange(symmetric)}
+              />
+            </PropertyRow>
+          )}
+        </form.Field>
+      </PropertyGroup>
+
+      {/* Second direction - not available for symmetric revolves */}
+      {!isSymmetric && (
+        <PropertyGroup title="Second Direction">
+          <form.Field name="twoSided">
+            {(field) => (
+              <PropertyRow label="Two Sided">
+                <CheckboxInput
+                  checked={field.state.value ?? false}
+                  onChange={(twoSided) => field.handleChange(twoSided)}
+                />
+              </PropertyRow>
+            )}
+          </form.Field>
+
+          {isTwoSided && (
+            <form.Field name="angle2">
+              {(field) => (
+                <PropertyRow label="Angle">
+                  <NumberInput
+                    value={field.state.value ?? 90}
+                    onChange={(angle2) => field.handleChange(angle2)}
+                    min={1}
+                    max={359}
+                    step={15}
+                    unit="°"
+                  />
+                </PropertyRow>
+              )}
+            </form.Field>
+          )}
+        </PropertyGroup>
+      )}
+
+      <PropertyGroup title="Thin Feature">
+        <form.Field name="thin">
+          {(field) => (
+            <PropertyRow label="Thin">
+              <CheckboxInput
+                checked={field.state.value ?? false}
+                onChange={(thin) => field.handleChange(thin)}
+              />
+            </PropertyRow>
+          )}
+        </form.Field>
+
+        {isThin && (
+          <form.Field name="thickness">
+            {(field) => (
+              <PropertyRow label="Thickness">
+                <NumberInput
+                  value={field.state.value ?? 1}
+                  onChange={(thickness) => field.handleChange(thickness)}
+                  min={0.01}
+                  step={0.5}
+                  unit="mm"
+                />
+              </PropertyRow>
+            )}
+          </form.Field>
+        )}
+
+        {isThin && (
+          <form.Field name="thinSide">
+            {(field) => (
+              <PropertyRow label="Side">
+                <SelectInput
+                  value={field.state.value ?? "normal"}
+                  onChange={(side) =>
+                    field.handleChange(side as "normal" | "reverse" | "symmetric")
+                  }
+                  options={[
+                    { value: "normal", label: "Normal" },
+                    { value: "reverse", label: "Reverse" },
+                    { value: "symmetric", label: "Both sides" },
+                  ]}
+                />
+              </PropertyRow>
+            )}
+          </form.Field>
+        )}
       </PropertyGroup>
 
       {/* Multi-Body Options - only shown for add operations when bodies exist */}
@@ -0,0 +1,65 @@
+/**
+ * Body Feature Properties Component
+ *
+ * Displays and edits properties for boolean (combine) and delete body features.
+ */
+
+import type { BooleanFeature, DeleteBodyFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { TextInput, SelectInput, CheckboxInput, PropertyRow, PropertyGroup } from "../inputs";
+
+export function BodyFeatureProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const edit = feature as BooleanFeature | DeleteBodyFeature;
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={edit.name || edit.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">
+            {edit.type === "boolean" ? "Combine" : "Delete Body"}
+          </span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{edit.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        {edit.type === "boolean" ? (
+          <>
+            <PropertyRow label="Operation">
+              <SelectInput
+                value={edit.operation}
+                onChange={(operation) => onUpdate({ operation })}
+                options={[
+                  { value: "union", label: "Union" },
+                  { value: "subtract", label: "Subtract" },
+                  { value: "intersect", label: "Intersect" },
+                ]}
+              />
+            </PropertyRow>
+            <PropertyRow label="Target">
+              <span className="readonly-value">{edit.target}</span>
+            </PropertyRow>
+            <PropertyRow label="Tools">
+              <span className="readonly-value">{1 + (edit.tools?.length ?? 0)} bodies</span>
+            </PropertyRow>
+            <PropertyRow label="Keep Tools">
+              <CheckboxInput
+                checked={edit.keepTools ?? false}
+                onChange={(keepTools) => onUpdate({ keepTools })}
+              />
+            </PropertyRow>
+          </>
+        ) : (
+          <PropertyRow label="Bodies">
+            <span className="readonly-value">{edit.bodies.length} selected</span>
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+    </>
+  );
+}
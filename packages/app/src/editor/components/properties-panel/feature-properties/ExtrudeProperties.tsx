@@ -6,6 +6,7 @@
  */
 
 import type { ExtrudeFeature } from "../../../types/document";
+import type { BodyInfo } from "../../../worker/types";
 import type { FeaturePropertiesProps } from "../types";
 import { useKernel } from "../../../contexts/KernelContext";
 import { FaceSelector } from "../FaceSelector";
@@ -13,6 +14,7 @@ import {
   TextInput,
   NumberInput,
   SelectInput,
+  CheckboxInput,
   ColorInput,
   PropertyRow,
   PropertyGroup,
@@ -24,6 +26,7 @@ export function ExtrudeProperties({ feature, onUpdate }: FeaturePropertiesProps)
   const { bodies } = useKernel();
   const mergeScope = extrude.mergeScope ?? "auto";
   const isAddOperation = extrude.op === "add";
+  const isSymmetric = extrude.direction === "symmetric";
 
   return (
     <>
@@ -60,40 +63,54 @@ export function ExtrudeProperties({ feature, onUpdate }: FeaturePropertiesProps)
             options={[
               { value: "normal", label: "Normal" },
               { value: "reverse", label: "Reverse" },
+              { value: "symmetric", label: "Symmetric (midplane)" },
             ]}
           />
         </PropertyRow>
-        <PropertyRow label="Extent">
-          <SelectInput
-            value={extent}
-            onChange={(ext) => onUpdate({ extent: ext })}
-            options={[
-              { value: "blind", label: "Distance" },
-              { value: "toFace", label: "Up to Face" },
-              { value: "throughAll", label: "Through All" },
-            ]}
+        <ExtentRows
+          extent={extent}
+          distance={extrude.distance}
+          extentRef={extrude.extentRef}
+          extentBody={extrude.extentBody}
+          extentOffset={extrude.extentOffset}
+          draftAngle={extrude.draftAngle}
+          suffix=""
+          bodies={bodies}
+          onUpdate={onUpdate}
+        />
+        <PropertyRow label="Start Offset">
+          <NumberInput
+            value={extrude.startOffset ?? 0}
+            onChange={(startOffset) => onUpdate({ startOffset })}
+            step={1}
+            unit="mm"
           />
         </PropertyRow>
-        {extent === "blind" && (
-          <PropertyRow label="Distance">
-            <NumberInput
-              value={extrude.distance ?? 10}
-              onChange={(distance) => onUpdate({ distance })}
-              min={0.1}
-              step={1}
-              unit="mm"
+      </PropertyGroup>
+
+      {!isSymmetric && (
+        <PropertyGroup title="Second Side">
+          <PropertyRow label="Two Sided">
+            <CheckboxInput
+              checked={extrude.twoSided ?? false}
+              onChange={(twoSided) => onUpdate({ twoSided })}
             />
           </PropertyRow>
-        )}
-        {extent === "toFace" && (
-          <PropertyRow label="Target Face">
-            <FaceSelector
-              value={extrude.extentRef}
-              onChange={(ref) => onUpdate({ extentRef: ref })}
+          {extrude.twoSided && (
+            <ExtentRows
+              extent={extrude.extent2 ?? "blind"}
+              distance={extrude.distance2}
+              extentRef={extrude.extentRef2}
+              extentBody={extrude.extentBody2}
+              extentOffset={extrude.extentOffset2}
+              draftAngle={extrude.draftAngle2}
+              suffix="2"
+              bodies={bodies}
+              onUpdate={onUpdate}
             />
-          </PropertyRow>
-        )}
-      </PropertyGroup>
+          )}
+        </PropertyGroup>
+      )}
 
       {isAddOperation && (
         <PropertyGroup title="Multi-Body">
@@ -150,3 +167,106 @@ export function ExtrudeProperties({ feature, onUpdate }: FeaturePropertiesProps)
     </>
   );
 }
+
+interface ExtentRowsProps {
+  extent: ExtrudeFeature["extent"];
+  distance: number | undefined;
+  extentRef: string | undefined;
+  extentBody: string | undefined;
+  extentOffset: number | undefined;
+  draftAngle: number | undefined;
+  /** "" for the first side, "2" for the second side's properties */
+  suffix: "" | "2";
+  bodies: BodyInfo[];
+  onUpdate: FeaturePropertiesProps["onUpdate"];
+}
+
+/**
+ * Extent, target, offset and draft rows for one side of an extrude.
+ */
+function ExtentRows({
+  extent,
+  distance,
+  extentRef,
+  extentBody,
+  extentOffset,
+  draftAngle,
+  suffix,
+  bodies,
+  onUpdate,
+}: ExtentRowsProps) {
+  const isUpTo = extent === "toFace" || extent === "toVertex" || extent === "upToBody";
+
+  return (
+    <>
+      <PropertyRow label="Extent">
+        <SelectInput
+          value={extent}
+          onChange={(ext) => onUpdate({ [`extent${suffix}`]: ext })}
+          options={[
+            { value: "blind", label: "Distance" },
+            { value: "toFace", label: "Up to Face" },
+            { value: "upToBody", label: "Up to Body" },
+            { value: "throughAll", label: "Through All" },
+          ]}
+        />
+      </PropertyRow>
+      {extent === "blind" && (
+        <PropertyRow label="Distance">
+          <NumberInput
+            value={distance ?? 10}
+            onChange={(value) => onUpdate({ [`distance${suffix}`]: value })}
+            min={0.1}
+            step={1}
+            unit="mm"
+          />
+        </PropertyRow>
+      )}
+      {extent === "toFace" && (
+        <PropertyRow label="Target Face">
+          <FaceSelector
+            value={extentRef}
+            onChange={(ref) => onUpdate({ [`extentRef${suffix}`]: ref })}
+          />
+        </PropertyRow>
+      )}
+      {extent === "upToBody" && (
+        <PropertyRow label="Target Body">
+          <SelectInput
+            value={extentBody ?? ""}
+            onChange={(body) => onUpdate({ [`extentBody${suffix}`]: body })}
+            options={[
+              { value: "", label: "Select a body" },
+              ...bodies.map((body) => ({
+                value: body.featureId,
+                label: body.name || body.featureId,
+              })),
+            ]}
+          />
+        </PropertyRow>
+      )}
+      {isUpTo && (
+        <PropertyRow label="Offset">
+          <NumberInput
+            value={extentOffset ?? 0}
+            onChange={(value) => onUpdate({ [`extentOffset${suffix}`]: value })}
+            step={1}
+            unit="mm"
+          />
+        </PropertyRow>
+      )}
+      {extent !== "toFace" && extent !== "upToBody" && (
+        <PropertyRow label="Draft">
+          <NumberInput
+            value={draftAngle ?? 0}
+            onChange={(value) => onUpdate({ [`draftAngle${suffix}`]: value })}
+            min={-89}
+            max={89}
+            step={1}
+            unit="°"
+          />
+        </PropertyRow>
+      )}
+    </>
+  );
+}
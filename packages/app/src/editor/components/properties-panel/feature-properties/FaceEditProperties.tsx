@@ -0,0 +1,44 @@
+/**
+ * Face Edit Properties Component
+ *
+ * Displays and edits properties for delete face and replace face features.
+ */
+
+import type { DeleteFaceFeature, ReplaceFaceFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { TextInput, PropertyRow, PropertyGroup } from "../inputs";
+
+export function FaceEditProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const edit = feature as DeleteFaceFeature | ReplaceFaceFeature;
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={edit.name || edit.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">
+            {edit.type === "replaceFace" ? "Replace Face" : "Delete Face"}
+          </span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{edit.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        <PropertyRow label="Faces">
+          <span className="readonly-value">{edit.faces.length} selected</span>
+        </PropertyRow>
+        {edit.type === "replaceFace" && (
+          <PropertyRow label="Plane">
+            <span className="readonly-value">
+              {edit.plane.kind === "faceRef" ? "Face" : `Plane ${edit.plane.ref}`}
+            </span>
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+    </>
+  );
+}
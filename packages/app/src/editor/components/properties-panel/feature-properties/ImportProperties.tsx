@@ -0,0 +1,109 @@
+/**
+ * Import Feature Properties Component
+ *
+ * Displays and edits properties for import features, and replaces the
+ * imported file with a new revision.
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { useDocument } from "../../../contexts/DocumentContext";
+import { importFormatFromFileName } from "../../../document/featureHelpers";
+import type { ImportFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { TextInput, SelectInput, PropertyRow, PropertyGroup } from "../inputs";
+
+export function ImportProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const importFeature = feature as ImportFeature;
+  const { replaceImportFile } = useDocument();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [replaceError, setReplaceError] = useState<string | null>(null);
+
+  const handleReplace = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const format = importFormatFromFileName(file.name);
+    if (!format) {
+      setReplaceError(`Unsupported file: ${file.name}`);
+      return;
+    }
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      replaceImportFile(importFeature.id, { format, data, fileName: file.name });
+      setReplaceError(null);
+    } catch (err) {
+      setReplaceError(
+        `Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  };
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput
+            value={importFeature.name || importFeature.id}
+            onChange={(name) => onUpdate({ name })}
+          />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">Import</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{importFeature.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="File">
+        <PropertyRow label="File">
+          <span className="readonly-value" title={importFeature.fileName}>
+            {importFeature.fileName}
+          </span>
+        </PropertyRow>
+        <PropertyRow label="Format">
+          <span className="readonly-value">{importFeature.format.toUpperCase()}</span>
+        </PropertyRow>
+        {importFeature.format === "brep" && (
+          <PropertyRow label="File Units">
+            <SelectInput
+              value={importFeature.fileUnits ?? "mm"}
+              onChange={(fileUnits) => onUpdate({ fileUnits })}
+              options={[
+                { value: "mm", label: "Millimeters" },
+                { value: "cm", label: "Centimeters" },
+                { value: "m", label: "Meters" },
+                { value: "in", label: "Inches" },
+                { value: "ft", label: "Feet" },
+              ]}
+            />
+          </PropertyRow>
+        )}
+        <PropertyRow label="Revision">
+          <span className="readonly-value">{importFeature.revision ?? 0}</span>
+        </PropertyRow>
+        <PropertyRow label="Replace">
+          <div className="field-with-error">
+            <button
+              type="button"
+              className="properties-btn properties-btn-cancel"
+              onClick={() => inputRef.current?.click()}
+              title="Replace with a new revision, keeping references to its faces"
+            >
+              Choose File...
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".step,.stp,.iges,.igs,.brep,.brp"
+              style={{ display: "none" }}
+              onChange={handleReplace}
+            />
+            {replaceError && <span className="field-error">{replaceError}</span>}
+          </div>
+        </PropertyRow>
+      </PropertyGroup>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Offset Face Properties Component
+ *
+ * Displays and edits properties for offset face and thicken features, which
+ * both push a list of faces along their normals.
+ */
+
+import type { OffsetFaceFeature, ThickenFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { TextInput, NumberInput, PropertyRow, PropertyGroup } from "../inputs";
+
+export function OffsetFaceProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const offset = feature as OffsetFaceFeature | ThickenFeature;
+  const isThicken = offset.type === "thicken";
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={offset.name || offset.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">{isThicken ? "Thicken" : "Offset Face"}</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{offset.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        <PropertyRow label="Faces">
+          <span className="readonly-value">{offset.faces.length} selected</span>
+        </PropertyRow>
+        {offset.type === "thicken" ? (
+          <PropertyRow label="Thickness">
+            <NumberInput
+              value={offset.thickness}
+              onChange={(thickness) => onUpdate({ thickness })}
+              step={0.5}
+              unit="mm"
+            />
+          </PropertyRow>
+        ) : (
+          <PropertyRow label="Distance">
+            <NumberInput
+              value={offset.distance}
+              onChange={(distance) => onUpdate({ distance })}
+              step={0.5}
+              unit="mm"
+            />
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+    </>
+  );
+}
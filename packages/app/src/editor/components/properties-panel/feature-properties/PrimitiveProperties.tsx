@@ -0,0 +1,190 @@
+/**
+ * Primitive Properties Component
+ *
+ * Displays and edits properties for box, cylinder, sphere, cone and torus
+ * features: their size, placement and multi-body options.
+ */
+
+import type { PrimitiveFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { useKernel } from "../../../contexts/KernelContext";
+import {
+  TextInput,
+  NumberInput,
+  SelectInput,
+  ColorInput,
+  PropertyRow,
+  PropertyGroup,
+} from "../inputs";
+
+const PRIMITIVE_LABELS: Record<PrimitiveFeature["type"], string> = {
+  box: "Box",
+  cylinder: "Cylinder",
+  sphere: "Sphere",
+  cone: "Cone",
+  torus: "Torus",
+};
+
+/** Size properties of each primitive, with their labels */
+const SIZE_ROWS: Record<PrimitiveFeature["type"], Array<[string, string]>> = {
+  box: [
+    ["width", "Width"],
+    ["depth", "Depth"],
+    ["height", "Height"],
+  ],
+  cylinder: [
+    ["radius", "Radius"],
+    ["height", "Height"],
+  ],
+  sphere: [["radius", "Radius"]],
+  cone: [
+    ["radius", "Base Radius"],
+    ["topRadius", "Top Radius"],
+    ["height", "Height"],
+  ],
+  torus: [
+    ["majorRadius", "Major Radius"],
+    ["minorRadius", "Minor Radius"],
+  ],
+};
+
+export function PrimitiveProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const primitive = feature as PrimitiveFeature;
+  const { bodies } = useKernel();
+  const mergeScope = primitive.mergeScope ?? "auto";
+  const sizes = primitive as unknown as Record<string, number>;
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput
+            value={primitive.name || primitive.id}
+            onChange={(name) => onUpdate({ name })}
+          />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">{PRIMITIVE_LABELS[primitive.type]}</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{primitive.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        <PropertyRow label="Operation">
+          <SelectInput
+            value={primitive.op}
+            onChange={(op) => onUpdate({ op })}
+            options={[
+              { value: "add", label: "Add" },
+              { value: "cut", label: "Cut" },
+            ]}
+          />
+        </PropertyRow>
+        {SIZE_ROWS[primitive.type].map(([key, label]) => (
+          <PropertyRow key={key} label={label}>
+            <NumberInput
+              value={sizes[key] ?? 0}
+              onChange={(value) => onUpdate({ [key]: value })}
+              min={key === "radius" || key === "topRadius" ? 0 : 0.01}
+              step={1}
+              unit="mm"
+            />
+          </PropertyRow>
+        ))}
+      </PropertyGroup>
+
+      <PropertyGroup title="Placement">
+        <PropertyRow label="Plane">
+          <span className="readonly-value">{primitive.plane.ref}</span>
+        </PropertyRow>
+        <PropertyRow label="Offset X">
+          <NumberInput
+            value={primitive.offsetX ?? 0}
+            onChange={(offsetX) => onUpdate({ offsetX })}
+            step={1}
+            unit="mm"
+          />
+        </PropertyRow>
+        <PropertyRow label="Offset Y">
+          <NumberInput
+            value={primitive.offsetY ?? 0}
+            onChange={(offsetY) => onUpdate({ offsetY })}
+            step={1}
+            unit="mm"
+          />
+        </PropertyRow>
+        <PropertyRow label="Offset Normal">
+          <NumberInput
+            value={primitive.offsetZ ?? 0}
+            onChange={(offsetZ) => onUpdate({ offsetZ })}
+            step={1}
+            unit="mm"
+          />
+        </PropertyRow>
+        <PropertyRow label="Rotation">
+          <NumberInput
+            value={primitive.rotation ?? 0}
+            onChange={(rotation) => onUpdate({ rotation })}
+            step={15}
+            unit="°"
+          />
+        </PropertyRow>
+      </PropertyGroup>
+
+      {primitive.op === "add" && (
+        <PropertyGroup title="Multi-Body">
+          <PropertyRow label="Merge">
+            <SelectInput
+              value={mergeScope}
+              onChange={(scope) => onUpdate({ mergeScope: scope })}
+              options={[
+                { value: "auto", label: "Auto (merge with intersecting)" },
+                { value: "new", label: "Create new body" },
+                { value: "specific", label: "Merge with selected" },
+              ]}
+            />
+          </PropertyRow>
+          {mergeScope === "specific" && bodies.length > 0 && (
+            <PropertyRow label="Target Bodies">
+              <div className="body-selector">
+                {bodies.map((body) => (
+                  <label key={body.featureId} className="body-option">
+                    <input
+                      type="checkbox"
+                      checked={(primitive.targetBodies || []).includes(body.featureId)}
+                      onChange={(e) => {
+                        const current = primitive.targetBodies || [];
+                        const newTargets = e.target.checked
+                          ? [...current, body.featureId]
+                          : current.filter((id) => id !== body.featureId);
+                        onUpdate({ targetBodies: newTargets.join(",") });
+                      }}
+                    />
+                    <span style={{ color: body.color || "#6699cc" }}>●</span>
+                    {body.name || body.featureId}
+                  </label>
+                ))}
+              </div>
+            </PropertyRow>
+          )}
+          <PropertyRow label="Body Name">
+            <TextInput
+              value={primitive.resultBodyName || ""}
+              onChange={(name) => onUpdate({ resultBodyName: name })}
+              placeholder="Auto"
+            />
+          </PropertyRow>
+          <PropertyRow label="Body Color">
+            <ColorInput
+              value={primitive.resultBodyColor}
+              onChange={(color) => onUpdate({ resultBodyColor: color || "" })}
+              defaultColor="#6699cc"
+            />
+          </PropertyRow>
+        </PropertyGroup>
+      )}
+    </>
+  );
+}
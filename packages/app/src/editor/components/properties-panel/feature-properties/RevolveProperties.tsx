@@ -11,6 +11,7 @@ import {
   TextInput,
   NumberInput,
   SelectInput,
+  CheckboxInput,
   ColorInput,
   PropertyRow,
   PropertyGroup,
@@ -53,6 +54,12 @@ export function RevolveProperties({ feature, onUpdate }: FeaturePropertiesProps)
             unit="°"
           />
         </PropertyRow>
+        <PropertyRow label="Symmetric">
+          <CheckboxInput
+            checked={revolve.symmetric ?? false}
+            onChange={(symmetric) => onUpdate({ symmetric })}
+          />
+        </PropertyRow>
         <PropertyRow label="Operation">
           <SelectInput
             value={revolve.op}
@@ -65,6 +72,59 @@ export function RevolveProperties({ feature, onUpdate }: FeaturePropertiesProps)
         </PropertyRow>
       </PropertyGroup>
 
+      {!revolve.symmetric && (
+        <PropertyGroup title="Second Direction">
+          <PropertyRow label="Two Sided">
+            <CheckboxInput
+              checked={revolve.twoSided ?? false}
+              onChange={(twoSided) => onUpdate({ twoSided })}
+            />
+          </PropertyRow>
+          {revolve.twoSided && (
+            <PropertyRow label="Angle">
+              <NumberInput
+                value={revolve.angle2 ?? 0}
+                onChange={(angle2) => onUpdate({ angle2 })}
+                min={1}
+                max={360 - revolve.angle}
+                step={5}
+                unit="°"
+              />
+            </PropertyRow>
+          )}
+        </PropertyGroup>
+      )}
+
+      <PropertyGroup title="Thin Feature">
+        <PropertyRow label="Thin">
+          <CheckboxInput checked={revolve.thin ?? false} onChange={(thin) => onUpdate({ thin })} />
+        </PropertyRow>
+        {revolve.thin && (
+          <PropertyRow label="Thickness">
+            <NumberInput
+              value={revolve.thickness ?? 1}
+              onChange={(thickness) => onUpdate({ thickness })}
+              min={0.01}
+              step={0.5}
+              unit="mm"
+            />
+          </PropertyRow>
+        )}
+        {revolve.thin && (
+          <PropertyRow label="Side">
+            <SelectInput
+              value={revolve.thinSide ?? "normal"}
+              onChange={(thinSide) => onUpdate({ thinSide })}
+              options={[
+                { value: "normal", label: "Normal" },
+                { value: "reverse", label: "Reverse" },
+                { value: "symmetric", label: "Both sides" },
+              ]}
+            />
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+
       {isAddOperation && (
         <PropertyGroup title="Multi-Body">
           <PropertyRow label="Merge">
@@ -0,0 +1,109 @@
+/**
+ * Rib Properties Component
+ *
+ * Displays and edits properties for Rib features.
+ */
+
+import type { RibFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { useKernel } from "../../../contexts/KernelContext";
+import {
+  TextInput,
+  NumberInput,
+  SelectInput,
+  CheckboxInput,
+  PropertyRow,
+  PropertyGroup,
+} from "../inputs";
+
+export function RibProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const rib = feature as RibFeature;
+  const { bodies } = useKernel();
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={rib.name || rib.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">Rib</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{rib.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        <PropertyRow label="Sketch">
+          <span className="readonly-value">{rib.sketch}</span>
+        </PropertyRow>
+        <PropertyRow label="Profile">
+          <span className="readonly-value">
+            {rib.entities?.length ? `${rib.entities.length} entities` : "All lines and arcs"}
+          </span>
+        </PropertyRow>
+        <PropertyRow label="Thickness">
+          <NumberInput
+            value={rib.thickness}
+            onChange={(thickness) => onUpdate({ thickness })}
+            min={0.01}
+            step={0.5}
+            unit="mm"
+          />
+        </PropertyRow>
+        <PropertyRow label="Thickness Side">
+          <SelectInput
+            value={rib.thicknessSide}
+            onChange={(thicknessSide) =>
+              onUpdate(
+                thicknessSide === "oneSide"
+                  ? { thicknessSide }
+                  : { thicknessSide, flipThickness: false }
+              )
+            }
+            options={[
+              { value: "midplane", label: "Midplane" },
+              { value: "bothSides", label: "Both sides" },
+              { value: "oneSide", label: "One side" },
+            ]}
+          />
+        </PropertyRow>
+        {rib.thicknessSide === "oneSide" && (
+          <PropertyRow label="Flip Side">
+            <CheckboxInput
+              checked={rib.flipThickness ?? false}
+              onChange={(flipThickness) => onUpdate({ flipThickness })}
+            />
+          </PropertyRow>
+        )}
+        <PropertyRow label="Material">
+          <SelectInput
+            value={rib.materialSide ?? "auto"}
+            onChange={(materialSide) => onUpdate({ materialSide })}
+            options={[
+              { value: "auto", label: "Auto (closed side)" },
+              { value: "left", label: "Left of profile" },
+              { value: "right", label: "Right of profile" },
+            ]}
+          />
+        </PropertyRow>
+        {bodies.length > 1 && (
+          <PropertyRow label="Target Body">
+            <SelectInput
+              value={rib.targetBody ?? ""}
+              onChange={(targetBody) => onUpdate({ targetBody })}
+              options={[
+                { value: "", label: "Select body" },
+                ...bodies.map((body) => ({
+                  value: body.featureId,
+                  label: body.name || body.featureId,
+                })),
+              ]}
+            />
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Sheet Metal Properties Component
+ *
+ * Displays and edits properties for base flange, edge flange and unfold
+ * features.
+ */
+
+import type { BaseFlangeFeature, EdgeFlangeFeature, UnfoldFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { TextInput, NumberInput, CheckboxInput, PropertyRow, PropertyGroup } from "../inputs";
+
+const TYPE_LABELS: Record<(BaseFlangeFeature | EdgeFlangeFeature | UnfoldFeature)["type"], string> =
+  {
+    baseFlange: "Base Flange",
+    edgeFlange: "Edge Flange",
+    unfold: "Unfold",
+  };
+
+export function SheetMetalProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const sheet = feature as BaseFlangeFeature | EdgeFlangeFeature | UnfoldFeature;
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={sheet.name || sheet.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">{TYPE_LABELS[sheet.type]}</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{sheet.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      {sheet.type === "baseFlange" && (
+        <PropertyGroup title="Parameters">
+          <PropertyRow label="Sketch">
+            <span className="readonly-value">{sheet.sketch}</span>
+          </PropertyRow>
+          <PropertyRow label="Thickness">
+            <NumberInput
+              value={sheet.thickness}
+              onChange={(thickness) => onUpdate({ thickness })}
+              min={0.01}
+              step={0.5}
+              unit="mm"
+            />
+          </PropertyRow>
+          <PropertyRow label="Bend Radius">
+            <NumberInput
+              value={sheet.bendRadius}
+              onChange={(bendRadius) => onUpdate({ bendRadius })}
+              min={0.01}
+              step={0.5}
+              unit="mm"
+            />
+          </PropertyRow>
+          <PropertyRow label="K-Factor">
+            <NumberInput
+              value={sheet.kFactor}
+              onChange={(kFactor) => onUpdate({ kFactor })}
+              min={0}
+              max={1}
+              step={0.01}
+            />
+          </PropertyRow>
+          <PropertyRow label="Reverse">
+            <CheckboxInput
+              checked={sheet.reverse ?? false}
+              onChange={(reverse) => onUpdate({ reverse })}
+            />
+          </PropertyRow>
+        </PropertyGroup>
+      )}
+
+      {sheet.type === "edgeFlange" && (
+        <PropertyGroup title="Parameters">
+          <PropertyRow label="Angle">
+            <NumberInput
+              value={sheet.angle}
+              onChange={(angle) => onUpdate({ angle })}
+              min={1}
+              max={179}
+              step={5}
+              unit="°"
+            />
+          </PropertyRow>
+          <PropertyRow label="Length">
+            <NumberInput
+              value={sheet.length}
+              onChange={(length) => onUpdate({ length })}
+              min={0.01}
+              step={1}
+              unit="mm"
+            />
+          </PropertyRow>
+          <PropertyRow label="Bend Radius">
+            {sheet.bendRadius !== undefined ? (
+              <NumberInput
+                value={sheet.bendRadius}
+                onChange={(bendRadius) => onUpdate({ bendRadius })}
+                min={0.01}
+                step={0.5}
+                unit="mm"
+              />
+            ) : (
+              <span className="readonly-value">Base flange default</span>
+            )}
+          </PropertyRow>
+        </PropertyGroup>
+      )}
+
+      {sheet.type === "unfold" && (
+        <PropertyGroup title="Parameters">
+          <PropertyRow label="Base Flange">
+            <span className="readonly-value">{sheet.baseFlange}</span>
+          </PropertyRow>
+        </PropertyGroup>
+      )}
+    </>
+  );
+}
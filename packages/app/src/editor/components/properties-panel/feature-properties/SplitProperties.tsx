@@ -0,0 +1,72 @@
+/**
+ * Split Properties Component
+ *
+ * Displays and edits properties for Split features.
+ */
+
+import type { SplitFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { useKernel } from "../../../contexts/KernelContext";
+import { TextInput, SelectInput, PropertyRow, PropertyGroup } from "../inputs";
+
+const TOOL_LABELS: Record<SplitFeature["tool"]["kind"], string> = {
+  planeFeatureId: "Plane",
+  faceRef: "Face",
+  sketch: "Sketch",
+};
+
+export function SplitProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const split = feature as SplitFeature;
+  const { bodies } = useKernel();
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput value={split.name || split.id} onChange={(name) => onUpdate({ name })} />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">Split</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{split.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Parameters">
+        <PropertyRow label="Tool">
+          <span className="readonly-value">
+            {TOOL_LABELS[split.tool.kind]}
+            {split.tool.kind === "faceRef" ? "" : ` ${split.tool.ref}`}
+          </span>
+        </PropertyRow>
+        <PropertyRow label="Keep">
+          <SelectInput
+            value={split.keep ?? "both"}
+            onChange={(keep) => onUpdate({ keep })}
+            options={[
+              { value: "both", label: "Both sides" },
+              { value: "front", label: "Front side" },
+              { value: "back", label: "Back side" },
+            ]}
+          />
+        </PropertyRow>
+        {bodies.length > 1 && (
+          <PropertyRow label="Target Body">
+            <SelectInput
+              value={split.targetBody ?? ""}
+              onChange={(targetBody) => onUpdate({ targetBody })}
+              options={[
+                { value: "", label: "Select body" },
+                ...bodies.map((body) => ({
+                  value: body.featureId,
+                  label: body.name || body.featureId,
+                })),
+              ]}
+            />
+          </PropertyRow>
+        )}
+      </PropertyGroup>
+    </>
+  );
+}
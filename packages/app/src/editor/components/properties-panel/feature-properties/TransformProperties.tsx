@@ -0,0 +1,122 @@
+/**
+ * Transform Properties Component
+ *
+ * Displays and edits properties for transform features: the bodies moved,
+ * the translation and rotation, and any vertex/face mate. The same values
+ * are edited by dragging the manipulator in the viewer.
+ */
+
+import type { TransformFeature } from "../../../types/document";
+import type { FeaturePropertiesProps } from "../types";
+import { useKernel } from "../../../contexts/KernelContext";
+import { decodePersistentRef } from "../../../naming";
+import { TextInput, NumberInput, CheckboxInput, PropertyRow, PropertyGroup } from "../inputs";
+
+const AXES = ["X", "Y", "Z"] as const;
+
+/** Short description of a mate reference, e.g. "face of e3" */
+function describeMateRef(ref: string | undefined): string {
+  if (!ref) return "None";
+  const decoded = decodePersistentRef(ref);
+  if (!decoded.ok) return "Invalid";
+  return `${decoded.ref.expectedType} of ${decoded.ref.originFeatureId}`;
+}
+
+export function TransformProperties({ feature, onUpdate }: FeaturePropertiesProps) {
+  const transform = feature as TransformFeature;
+  const { bodies } = useKernel();
+  const values = transform as unknown as Record<string, number | undefined>;
+  const hasMate = Boolean(transform.mateFrom && transform.mateTo);
+
+  return (
+    <>
+      <PropertyGroup title="General">
+        <PropertyRow label="Name">
+          <TextInput
+            value={transform.name || transform.id}
+            onChange={(name) => onUpdate({ name })}
+          />
+        </PropertyRow>
+        <PropertyRow label="Type">
+          <span className="readonly-value">Transform</span>
+        </PropertyRow>
+        <PropertyRow label="ID">
+          <span className="readonly-value">{transform.id}</span>
+        </PropertyRow>
+      </PropertyGroup>
+
+      <PropertyGroup title="Bodies">
+        {transform.bodies.map((bodyKey) => {
+          const body = bodies.find((b) => b.featureId === bodyKey);
+          return (
+            <PropertyRow key={bodyKey} label="Body">
+              <span className="readonly-value">
+                <span style={{ color: body?.color || "#6699cc" }}>●</span> {body?.name || bodyKey}
+              </span>
+            </PropertyRow>
+          );
+        })}
+        <PropertyRow label="Copy">
+          <CheckboxInput
+            checked={transform.copy ?? false}
+            onChange={(copy) => onUpdate({ copy })}
+            label="Keep originals"
+          />
+        </PropertyRow>
+      </PropertyGroup>
+
+      {hasMate && (
+        <PropertyGroup title="Mate">
+          <PropertyRow label="From">
+            <span className="readonly-value">{describeMateRef(transform.mateFrom)}</span>
+          </PropertyRow>
+          <PropertyRow label="To">
+            <span className="readonly-value">{describeMateRef(transform.mateTo)}</span>
+          </PropertyRow>
+          <PropertyRow label="Flip">
+            <CheckboxInput
+              checked={transform.mateFlip ?? false}
+              onChange={(mateFlip) => onUpdate({ mateFlip })}
+            />
+          </PropertyRow>
+        </PropertyGroup>
+      )}
+
+      <PropertyGroup title="Rotate">
+        {AXES.map((axis) => (
+          <PropertyRow key={axis} label={`Angle ${axis}`}>
+            <NumberInput
+              value={values[`rotate${axis}`] ?? 0}
+              onChange={(value) => onUpdate({ [`rotate${axis}`]: value })}
+              step={15}
+              unit="°"
+            />
+          </PropertyRow>
+        ))}
+        {AXES.map((axis) => (
+          <PropertyRow key={axis} label={`Pivot ${axis}`}>
+            <NumberInput
+              value={values[`pivot${axis}`] ?? 0}
+              onChange={(value) => onUpdate({ [`pivot${axis}`]: value })}
+              step={1}
+              unit="mm"
+            />
+          </PropertyRow>
+        ))}
+      </PropertyGroup>
+
+      <PropertyGroup title="Move">
+        {AXES.map((axis) => (
+          <PropertyRow key={axis} label={`Translate ${axis}`}>
+            <NumberInput
+              value={values[`translate${axis}`] ?? 0}
+              onChange={(value) => onUpdate({ [`translate${axis}`]: value })}
+              step={1}
+              unit="mm"
+            />
+          </PropertyRow>
+        ))}
+      </PropertyGroup>
+    </>
+  );
+}
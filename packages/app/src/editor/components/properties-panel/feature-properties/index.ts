@@ -10,4 +10,13 @@ export { AxisProperties } from "./AxisProperties";
 export { SketchProperties } from "./SketchProperties";
 export { ExtrudeProperties } from "./ExtrudeProperties";
 export { RevolveProperties } from "./RevolveProperties";
+export { RibProperties } from "./RibProperties";
+export { PrimitiveProperties } from "./PrimitiveProperties";
+export { TransformProperties } from "./TransformProperties";
+export { SplitProperties } from "./SplitProperties";
+export { OffsetFaceProperties } from "./OffsetFaceProperties";
+export { SheetMetalProperties } from "./SheetMetalProperties";
+export { FaceEditProperties } from "./FaceEditProperties";
+export { BodyFeatureProperties } from "./BodyFeatureProperties";
+export { ImportProperties } from "./ImportProperties";
 export { GenericProperties } from "./GenericProperties";
@@ -8,6 +8,7 @@
  * - Mesh and edge rendering for solid bodies
  * - Sketch visualization and editing
  * - Face and edge selection with highlighting
+ * - Move/rotate manipulator for transform features
  * - Datum plane and origin rendering
  * - Constraint annotations and dimension editing
  * - Multi-user cursor awareness
@@ -40,6 +41,7 @@ import { useViewerControls } from "./hooks/useViewerControls";
 import { useDimensionEditing } from "./hooks/useDimensionEditing";
 import { useSketchTools } from "./hooks/useSketchTools";
 import { use3DSelection, type RaycastHit } from "./hooks/use3DSelection";
+import { useTransformGizmo } from "./hooks/useTransformGizmo";
 
 // Renderers
 import { useMeshRenderer } from "./renderers/useMeshRenderer";
@@ -58,7 +60,15 @@ const Viewer: React.FC = () => {
   // Context hooks
   const { theme } = useTheme();
   const { registerRefs, cameraStateRef, state: viewerState } = useViewer();
-  const { meshes, bodies, sketchPlaneTransforms, featureStatus, referenceIndex } = useKernel();
+  const {
+    meshes,
+    bodies,
+    sketchPlaneTransforms,
+    featureStatus,
+    referenceIndex,
+    previewTransform,
+    clearPreview,
+  } = useKernel();
   const {
     selectedFeatureId,
     hoveredFeatureId,
@@ -607,6 +617,37 @@ const Viewer: React.FC = () => {
     sceneReady,
   });
 
+  // Write a manipulator drag back to its transform feature
+  const commitTransform = useCallback(
+    (featureId: string, updates: Record<string, number>) => {
+      const featureMap = doc?.featuresById.get(featureId);
+      if (!doc || !featureMap) return;
+      doc.ydoc.transact(() => {
+        for (const [key, value] of Object.entries(updates)) {
+          featureMap.set(key, value);
+        }
+      });
+    },
+    [doc]
+  );
+
+  // Transform feature manipulator
+  useTransformGizmo({
+    containerRef,
+    cameraRef: cameraRef as React.MutableRefObject<THREE.Camera | null>,
+    transformGizmoGroupRef: groupRefs.transformGizmoGroup,
+    features,
+    featureStatus,
+    selectedFeatureId,
+    sketchModeActive: sketchMode.active,
+    meshes,
+    previewTransform,
+    clearPreview,
+    onCommit: commitTransform,
+    sceneReady,
+    needsRenderRef,
+  });
+
   // Register refs with context
   // Re-run when sceneReady changes to apply any pending view changes
   React.useEffect(() => {
@@ -30,3 +30,4 @@ export {
   type DimensionEditingOptions,
   type DimensionEditingResult,
 } from "./useDimensionEditing";
+export { useTransformGizmo, type TransformGizmoOptions } from "./useTransformGizmo";
@@ -22,6 +22,7 @@ export interface SceneGroups {
   planes: THREE.Group;
   origin: THREE.Group;
   faceHighlights: THREE.Group;
+  transformGizmo: THREE.Group;
 }
 
 /** Result of useSceneSetup hook */
@@ -43,6 +44,7 @@ export interface SceneSetupResult {
     planesGroup: React.MutableRefObject<THREE.Group | null>;
     originGroup: React.MutableRefObject<THREE.Group | null>;
     faceHighlightGroup: React.MutableRefObject<THREE.Group | null>;
+    transformGizmoGroup: React.MutableRefObject<THREE.Group | null>;
   };
   sceneReady: boolean;
   requestRender: () => void;
@@ -77,6 +79,7 @@ export function useSceneSetup(
   const planesGroupRef = useRef<THREE.Group | null>(null);
   const originGroupRef = useRef<THREE.Group | null>(null);
   const faceHighlightGroupRef = useRef<THREE.Group | null>(null);
+  const transformGizmoGroupRef = useRef<THREE.Group | null>(null);
 
   const [sceneReady, setSceneReady] = useState(false);
   // Track container element for re-running effect when it becomes available
@@ -273,6 +276,13 @@ export function useSceneSetup(
     scene.add(faceHighlightGroup);
     faceHighlightGroupRef.current = faceHighlightGroup;
 
+    // Group for the transform feature manipulator (drawn over everything)
+    const transformGizmoGroup = new THREE.Group();
+    transformGizmoGroup.name = "transform-gizmo";
+    transformGizmoGroup.renderOrder = 10;
+    scene.add(transformGizmoGroup);
+    transformGizmoGroupRef.current = transformGizmoGroup;
+
     // Mark scene as ready
     setSceneReady(true);
     console.log("[useSceneSetup] Scene setup complete");
@@ -344,6 +354,7 @@ export function useSceneSetup(
       planesGroup: planesGroupRef,
       originGroup: originGroupRef,
       faceHighlightGroup: faceHighlightGroupRef,
+      transformGizmoGroup: transformGizmoGroupRef,
     },
     sceneReady,
     requestRender,
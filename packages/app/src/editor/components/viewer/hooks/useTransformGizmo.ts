@@ -0,0 +1,441 @@
+/**
+ * useTransformGizmo - Move/rotate manipulator for transform features
+ *
+ * While a transform feature is selected, draws a triad of arrows and rings at
+ * its pivot (carried along by the feature's translation). Dragging an arrow
+ * slides the bodies along that axis and dragging a ring turns them about it.
+ * The kernel worker previews the motion while dragging, and the result is
+ * written back to the feature's parameters on release.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import type { BodyTransform } from "@solidtype/core";
+import type { PreviewTransformMessage, TransferableMesh } from "../../../worker/types";
+
+/** Options for useTransformGizmo */
+export interface TransformGizmoOptions {
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  cameraRef: React.MutableRefObject<THREE.Camera | null>;
+  transformGizmoGroupRef: React.MutableRefObject<THREE.Group | null>;
+  /** Document features (the selected one is checked for a transform) */
+  features: Array<{ id: string; type: string; [key: string]: unknown }>;
+  /** Feature status map (for gated features) */
+  featureStatus: Record<string, string>;
+  /** Currently selected feature ID */
+  selectedFeatureId: string | null;
+  /** Whether sketch mode is active (the manipulator is hidden while sketching) */
+  sketchModeActive: boolean;
+  /** Kernel meshes, used to size the manipulator to the moved bodies */
+  meshes: Map<string, TransferableMesh>;
+  previewTransform: (args: Omit<PreviewTransformMessage, "type">) => void;
+  clearPreview: () => void;
+  /** Write the dragged parameters back to the transform feature */
+  onCommit: (featureId: string, updates: Record<string, number>) => void;
+  sceneReady: boolean;
+  needsRenderRef: React.MutableRefObject<boolean>;
+}
+
+type Axis = 0 | 1 | 2;
+
+interface GizmoHandle {
+  kind: "translate" | "rotate";
+  axis: Axis;
+}
+
+/** The selected transform feature, reduced to what the manipulator needs */
+interface ActiveTransform {
+  featureId: string;
+  /** Bodies as they currently sit at the end of the transform */
+  bodies: string[];
+  pivot: THREE.Vector3;
+  rotate: [number, number, number];
+  translate: [number, number, number];
+}
+
+interface DragState {
+  handle: GizmoHandle;
+  /** Axis parameter (translate) or in-plane direction (rotate) at mouse down */
+  start: number | THREE.Vector3;
+  /** Snapped drag amount in mm or degrees */
+  delta: number;
+}
+
+const AXIS_NAMES = ["X", "Y", "Z"] as const;
+const AXIS_COLORS = [0xef4444, 0x22c55e, 0x3b82f6];
+const AXIS_DIRS = [
+  new THREE.Vector3(1, 0, 0),
+  new THREE.Vector3(0, 1, 0),
+  new THREE.Vector3(0, 0, 1),
+];
+
+/** Drag increments */
+const TRANSLATE_SNAP = 0.5;
+const ROTATE_SNAP = 5;
+const MIN_GIZMO_SIZE = 10;
+const DEG = Math.PI / 180;
+
+function numberParam(feature: Record<string, unknown>, key: string): number {
+  const value = feature[key];
+  return typeof value === "number" ? value : 0;
+}
+
+/** Round away floating point noise before writing to the document */
+function clean(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Parameter along the line `origin + t * dir` of the point closest to a ray,
+ * or null when the ray runs parallel to the line.
+ */
+function closestAxisParam(ray: THREE.Ray, origin: THREE.Vector3, dir: THREE.Vector3) {
+  const w = ray.origin.clone().sub(origin);
+  const b = ray.direction.dot(dir);
+  const denom = 1 - b * b;
+  if (denom < 1e-6) return null;
+  return (w.dot(dir) - w.dot(ray.direction) * b) / denom;
+}
+
+/** Unit vector from the pivot to where a ray meets the plane normal to the axis */
+function planeDirection(ray: THREE.Ray, origin: THREE.Vector3, dir: THREE.Vector3) {
+  const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(dir, origin);
+  const hit = ray.intersectPlane(plane, new THREE.Vector3());
+  if (!hit) return null;
+  const v = hit.sub(origin);
+  return v.lengthSq() < 1e-12 ? null : v.normalize();
+}
+
+function disposeGroup(group: THREE.Group): void {
+  while (group.children.length > 0) {
+    const child = group.children[0];
+    group.remove(child);
+    child.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.geometry.dispose();
+        (obj.material as THREE.Material).dispose();
+      }
+    });
+  }
+}
+
+/** Build the arrows and rings; pick meshes are invisible but wider than the visible ones */
+function buildGizmo(size: number): THREE.Group {
+  const gizmo = new THREE.Group();
+  const up = new THREE.Vector3(0, 1, 0);
+
+  for (const axis of [0, 1, 2] as Axis[]) {
+    const dir = AXIS_DIRS[axis];
+    const material = () =>
+      new THREE.MeshBasicMaterial({
+        color: AXIS_COLORS[axis],
+        depthTest: false,
+        transparent: true,
+        opacity: 0.8,
+      });
+    const pickMaterial = () => new THREE.MeshBasicMaterial({ visible: false });
+
+    // Arrow along the axis
+    const arrow = new THREE.Group();
+    arrow.quaternion.setFromUnitVectors(up, dir);
+    const shaft = new THREE.Mesh(
+      new THREE.CylinderGeometry(size * 0.012, size * 0.012, size * 0.8),
+      material()
+    );
+    shaft.position.y = size * 0.4;
+    const head = new THREE.Mesh(new THREE.ConeGeometry(size * 0.04, size * 0.16, 16), material());
+    head.position.y = size * 0.88;
+    const arrowPick = new THREE.Mesh(
+      new THREE.CylinderGeometry(size * 0.06, size * 0.06, size * 0.96),
+      pickMaterial()
+    );
+    arrowPick.position.y = size * 0.48;
+    arrow.add(shaft, head, arrowPick);
+    arrow.userData = { handle: { kind: "translate", axis } satisfies GizmoHandle };
+    gizmo.add(arrow);
+
+    // Ring about the axis (a torus lies in the XY plane by default)
+    const ring = new THREE.Group();
+    ring.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), dir);
+    const band = new THREE.Mesh(
+      new THREE.TorusGeometry(size * 0.6, size * 0.01, 8, 64),
+      material()
+    );
+    const ringPick = new THREE.Mesh(
+      new THREE.TorusGeometry(size * 0.6, size * 0.05, 8, 64),
+      pickMaterial()
+    );
+    ring.add(band, ringPick);
+    ring.userData = { handle: { kind: "rotate", axis } satisfies GizmoHandle };
+    gizmo.add(ring);
+  }
+
+  gizmo.traverse((obj) => {
+    obj.renderOrder = 10;
+  });
+  return gizmo;
+}
+
+/**
+ * Hook to show and drive the transform feature manipulator.
+ */
+export function useTransformGizmo(options: TransformGizmoOptions): void {
+  const {
+    containerRef,
+    cameraRef,
+    transformGizmoGroupRef,
+    features,
+    featureStatus,
+    selectedFeatureId,
+    sketchModeActive,
+    meshes,
+    previewTransform,
+    clearPreview,
+    onCommit,
+    sceneReady,
+    needsRenderRef,
+  } = options;
+
+  const active = useMemo((): ActiveTransform | null => {
+    if (sketchModeActive || !selectedFeatureId) return null;
+    const feature = features.find((f) => f.id === selectedFeatureId);
+    if (!feature || feature.type !== "transform" || feature.suppressed) return null;
+    if (featureStatus[feature.id] === "gated") return null;
+
+    const sources = Array.isArray(feature.bodies) ? (feature.bodies as string[]) : [];
+    // Copies are new bodies keyed by the feature; otherwise the sources move
+    const bodies = feature.copy
+      ? sources.map((_, i) => (i === 0 ? feature.id : `${feature.id}:${i}`))
+      : sources;
+    const param = (key: string) => numberParam(feature, key);
+    return {
+      featureId: feature.id,
+      bodies,
+      pivot: new THREE.Vector3(param("pivotX"), param("pivotY"), param("pivotZ")),
+      rotate: [param("rotateX"), param("rotateY"), param("rotateZ")],
+      translate: [param("translateX"), param("translateY"), param("translateZ")],
+    };
+  }, [features, featureStatus, selectedFeatureId, sketchModeActive]);
+
+  // Size the manipulator to the bodies it moves
+  const size = useMemo(() => {
+    if (!active) return MIN_GIZMO_SIZE;
+    const box = new THREE.Box3();
+    const point = new THREE.Vector3();
+    for (const bodyKey of active.bodies) {
+      const positions = meshes.get(bodyKey)?.positions;
+      if (!positions) continue;
+      for (let i = 0; i < positions.length; i += 3) {
+        box.expandByPoint(point.set(positions[i], positions[i + 1], positions[i + 2]));
+      }
+    }
+    if (box.isEmpty()) return MIN_GIZMO_SIZE;
+    const extent = box.getSize(point).length();
+    return Math.max(MIN_GIZMO_SIZE, extent * 0.6);
+  }, [active, meshes]);
+
+  // Refs keep the mouse listeners bound once while reading the latest values
+  const activeRef = useRef(active);
+  // eslint-disable-next-line react-hooks/refs -- sync ref with the latest selection
+  activeRef.current = active;
+  const callbacksRef = useRef({ previewTransform, clearPreview, onCommit });
+  // eslint-disable-next-line react-hooks/refs -- sync ref with the latest callbacks
+  callbacksRef.current = { previewTransform, clearPreview, onCommit };
+
+  // Build the manipulator for the selected transform feature
+  useEffect(() => {
+    const group = transformGizmoGroupRef.current;
+    if (!group || !sceneReady) return;
+
+    disposeGroup(group);
+    group.quaternion.identity();
+    if (active) {
+      group.add(buildGizmo(size));
+      group.position.copy(active.pivot).add(new THREE.Vector3(...active.translate));
+    }
+    needsRenderRef.current = true;
+  }, [active, size, transformGizmoGroupRef, sceneReady, needsRenderRef]);
+
+  // Mouse handling. Listeners run in the capture phase so a drag that starts
+  // on a handle never reaches the orbit controls or 3D selection.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !sceneReady) return;
+
+    let drag: DragState | null = null;
+    let suppressClick = false;
+
+    const rayFromEvent = (e: MouseEvent): THREE.Ray | null => {
+      const camera = cameraRef.current;
+      if (!camera) return null;
+      const rect = container.getBoundingClientRect();
+      const ndc = new THREE.Vector2(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      const raycaster = new THREE.Raycaster();
+      raycaster.setFromCamera(ndc, camera);
+      return raycaster.ray;
+    };
+
+    const pickHandle = (ray: THREE.Ray): GizmoHandle | null => {
+      const group = transformGizmoGroupRef.current;
+      if (!group || group.children.length === 0) return null;
+      const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+      for (const hit of raycaster.intersectObjects(group.children, true)) {
+        let obj: THREE.Object3D | null = hit.object;
+        while (obj && !obj.userData.handle) obj = obj.parent;
+        if (obj) return obj.userData.handle as GizmoHandle;
+      }
+      return null;
+    };
+
+    const centreOf = (state: ActiveTransform) =>
+      state.pivot.clone().add(new THREE.Vector3(...state.translate));
+
+    /** Drag amount for the current mouse position, snapped, or null if undefined */
+    const dragAmount = (ray: THREE.Ray, state: ActiveTransform, current: DragState) => {
+      const centre = centreOf(state);
+      const dir = AXIS_DIRS[current.handle.axis];
+      if (current.handle.kind === "translate") {
+        const t = closestAxisParam(ray, centre, dir);
+        if (t === null) return null;
+        return Math.round((t - (current.start as number)) / TRANSLATE_SNAP) * TRANSLATE_SNAP;
+      }
+      const v = planeDirection(ray, centre, dir);
+      if (!v) return null;
+      const start = current.start as THREE.Vector3;
+      const angle = Math.atan2(dir.dot(start.clone().cross(v)), start.dot(v)) / DEG;
+      return Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+    };
+
+    /** Motion from the feature's current result to the dragged position */
+    const dragTransforms = (state: ActiveTransform, current: DragState): BodyTransform[] => {
+      const dir = AXIS_DIRS[current.handle.axis];
+      if (current.handle.kind === "translate") {
+        return [{ kind: "translate", vector: dir.clone().multiplyScalar(current.delta).toArray() }];
+      }
+      return [
+        {
+          kind: "rotate",
+          origin: centreOf(state).toArray(),
+          axis: dir.toArray(),
+          angleDegrees: current.delta,
+        },
+      ];
+    };
+
+    /** Feature parameters after the drag */
+    const dragUpdates = (state: ActiveTransform, current: DragState): Record<string, number> => {
+      const { axis } = current.handle;
+      if (current.handle.kind === "translate") {
+        return { [`translate${AXIS_NAMES[axis]}`]: clean(state.translate[axis] + current.delta) };
+      }
+      // The kernel applies X, then Y, then Z rotations: R = Rz * Ry * Rx ("ZYX").
+      // Turning the result about the current centre is the same as turning
+      // about the pivot before the translation, so only the angles change.
+      const [rx, ry, rz] = state.rotate;
+      const rotation = new THREE.Matrix4().makeRotationFromEuler(
+        new THREE.Euler(rx * DEG, ry * DEG, rz * DEG, "ZYX")
+      );
+      const step = new THREE.Matrix4().makeRotationAxis(AXIS_DIRS[axis], current.delta * DEG);
+      const euler = new THREE.Euler().setFromRotationMatrix(step.multiply(rotation), "ZYX");
+      return {
+        rotateX: clean(euler.x / DEG),
+        rotateY: clean(euler.y / DEG),
+        rotateZ: clean(euler.z / DEG),
+      };
+    };
+
+    const onMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0 || !container.contains(e.target as Node)) return;
+      const state = activeRef.current;
+      const ray = rayFromEvent(e);
+      if (!state || !ray) return;
+
+      const handle = pickHandle(ray);
+      if (!handle) return;
+
+      const centre = centreOf(state);
+      const dir = AXIS_DIRS[handle.axis];
+      const start =
+        handle.kind === "translate"
+          ? closestAxisParam(ray, centre, dir)
+          : planeDirection(ray, centre, dir);
+      if (start === null) return;
+
+      e.stopPropagation();
+      e.preventDefault();
+      drag = { handle, start, delta: 0 };
+    };
+
+    const onMouseMove = (e: MouseEvent) => {
+      const state = activeRef.current;
+      const group = transformGizmoGroupRef.current;
+      if (!drag || !state || !group) return;
+      e.stopPropagation();
+
+      const ray = rayFromEvent(e);
+      const amount = ray ? dragAmount(ray, state, drag) : null;
+      if (amount === null || amount === drag.delta) return;
+      drag.delta = amount;
+
+      // Move the manipulator with the drag
+      const dir = AXIS_DIRS[drag.handle.axis];
+      group.position.copy(centreOf(state));
+      group.quaternion.identity();
+      if (drag.handle.kind === "translate") {
+        group.position.addScaledVector(dir, amount);
+      } else {
+        group.quaternion.setFromAxisAngle(dir, amount * DEG);
+      }
+      needsRenderRef.current = true;
+
+      if (amount === 0) {
+        callbacksRef.current.clearPreview();
+      } else {
+        callbacksRef.current.previewTransform({
+          bodies: state.bodies,
+          transforms: dragTransforms(state, drag),
+        });
+      }
+    };
+
+    const onMouseUp = (e: MouseEvent) => {
+      const state = activeRef.current;
+      if (!drag) return;
+      e.stopPropagation();
+
+      const finished = drag;
+      drag = null;
+      // The click that follows this mouseup must not change the selection
+      suppressClick = true;
+      setTimeout(() => {
+        suppressClick = false;
+      }, 0);
+
+      callbacksRef.current.clearPreview();
+      if (state && finished.delta !== 0) {
+        callbacksRef.current.onCommit(state.featureId, dragUpdates(state, finished));
+      }
+    };
+
+    const onClick = (e: MouseEvent) => {
+      if (!suppressClick) return;
+      suppressClick = false;
+      e.stopPropagation();
+    };
+
+    document.addEventListener("mousedown", onMouseDown, true);
+    document.addEventListener("mousemove", onMouseMove, true);
+    document.addEventListener("mouseup", onMouseUp, true);
+    document.addEventListener("click", onClick, true);
+
+    return () => {
+      document.removeEventListener("mousedown", onMouseDown, true);
+      document.removeEventListener("mousemove", onMouseMove, true);
+      document.removeEventListener("mouseup", onMouseUp, true);
+      document.removeEventListener("click", onClick, true);
+    };
+  }, [containerRef, cameraRef, transformGizmoGroupRef, sceneReady, needsRenderRef]);
+}
@@ -25,8 +25,22 @@ export interface MeshData {
 export interface BodyInfo {
   featureId: string;
   color?: string;
+  visible?: boolean;
+  material?: string;
 }
 
+/** Surface settings for the body material presets */
+const MATERIAL_PRESETS: Record<
+  string,
+  { metalness: number; roughness: number; opacity?: number; envMapIntensity: number }
+> = {
+  default: { metalness: 0.1, roughness: 0.4, envMapIntensity: 0.5 },
+  matte: { metalness: 0, roughness: 0.9, envMapIntensity: 0.2 },
+  glossy: { metalness: 0.1, roughness: 0.1, envMapIntensity: 0.8 },
+  metal: { metalness: 0.9, roughness: 0.3, envMapIntensity: 1 },
+  glass: { metalness: 0, roughness: 0.05, opacity: 0.35, envMapIntensity: 1 },
+};
+
 /** Feature for visibility check */
 export interface Feature {
   id: string;
@@ -109,20 +123,25 @@ export function useMeshRenderer(options: MeshRendererOptions): void {
       const isPreview = bodyId.startsWith("__preview");
       const isCutPreview = bodyId.includes("cut");
 
-      // Get body color from bodies list if available
+      // Get body color and appearance from bodies list if available
       const bodyInfo = bodies.find((b) => b.featureId === bodyId);
+      if (bodyInfo?.visible === false) {
+        return;
+      }
       const bodyColor = parseHexColor(bodyInfo?.color, 0x3b82f6);
+      const preset = MATERIAL_PRESETS[bodyInfo?.material ?? "default"] ?? MATERIAL_PRESETS.default;
+      const isTranslucent = isPreview || preset.opacity !== undefined;
 
       // Enhanced CAD-style material
       const material = new THREE.MeshStandardMaterial({
         color: isPreview ? (isCutPreview ? 0xff4444 : 0x60a5fa) : bodyColor,
         side: THREE.DoubleSide,
-        transparent: isPreview,
-        opacity: isPreview ? 0.5 : 1,
-        depthWrite: !isPreview,
-        metalness: 0.1,
-        roughness: 0.4,
-        envMapIntensity: 0.5,
+        transparent: isTranslucent,
+        opacity: isPreview ? 0.5 : (preset.opacity ?? 1),
+        depthWrite: !isTranslucent,
+        metalness: preset.metalness,
+        roughness: preset.roughness,
+        envMapIntensity: preset.envMapIntensity,
       });
 
       const mesh = new THREE.Mesh(geometry, material);
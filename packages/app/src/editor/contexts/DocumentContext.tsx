@@ -16,7 +16,12 @@ import React, {
   useRef,
 } from "react";
 import * as Y from "yjs";
-import { createDocument, loadDocument, type SolidTypeDoc } from "../document/createDocument";
+import {
+  createDocument,
+  createUndoManager,
+  loadDocument,
+  type SolidTypeDoc,
+} from "../document/createDocument";
 import {
   getAllFeatures,
   parseFeature,
@@ -24,14 +29,24 @@ import {
   addExtrudeFeature,
   addRevolveFeature,
   addBooleanFeature,
+  addDeleteBodyFeature,
+  addImportFeature,
+  replaceImportFile,
   addOffsetPlane as addOffsetPlaneFeature,
   addAxisFeature,
   deleteFeature,
   renameFeature,
   toggleFeatureVisibility,
+  setBodyAppearance,
+} from "../document/featureHelpers";
+import type {
+  AxisFeatureOptions,
+  BooleanFeatureOptions,
+  ImportFeatureOptions,
+  ExtrudeFeatureOptions,
+  RevolveFeatureOptions,
 } from "../document/featureHelpers";
-import type { AxisFeatureOptions } from "../document/featureHelpers";
-import type { Feature } from "../document/schema";
+import type { BodyAppearance, Feature } from "../document/schema";
 import { createDocumentSync, type DocumentSync } from "../../lib/yjs-sync";
 import { SolidTypeAwareness } from "../../lib/awareness-provider";
 import { useSession } from "../../lib/auth-client";
@@ -70,15 +85,35 @@ interface DocumentContextValue {
     sketchId: string,
     distance: number,
     op?: "add" | "cut",
-    direction?: "normal" | "reverse"
+    direction?: "normal" | "reverse" | "symmetric",
+    /** Further extrude options: start offset, draft and second side */
+    options?: Omit<ExtrudeFeatureOptions, "sketchId" | "distance" | "op" | "direction">
+  ) => string;
+  addRevolve: (
+    sketchId: string,
+    axis: string,
+    angle: number,
+    op?: "add" | "cut",
+    /** Further revolve options: symmetric, second direction and thin wall */
+    options?: Omit<RevolveFeatureOptions, "sketchId" | "axis" | "angle" | "op">
   ) => string;
-  addRevolve: (sketchId: string, axis: string, angle: number, op?: "add" | "cut") => string;
   /** Add a boolean operation (Phase 17) */
   addBoolean: (
     operation: "union" | "subtract" | "intersect",
     target: string,
-    tool: string
+    tool: string,
+    /** Further tools and whether to keep them, for combining several bodies */
+    options?: Pick<BooleanFeatureOptions, "tools" | "keepTools">
   ) => string;
+  /** Add a delete body feature */
+  addDeleteBody: (bodies: string[]) => string;
+  /** Add an import feature that stores a STEP, IGES or BREP file in the document */
+  addImport: (options: ImportFeatureOptions) => string;
+  /** Replace the file of an import feature with a new revision */
+  replaceImportFile: (
+    featureId: string,
+    options: Pick<ImportFeatureOptions, "format" | "data" | "fileName">
+  ) => boolean;
   /** Add an offset plane from a datum plane or face */
   addOffsetPlane: (basePlaneId: string, offset: number, name?: string) => string;
   /** Add an axis feature */
@@ -87,6 +122,8 @@ interface DocumentContextValue {
   deleteFeature: (id: string) => boolean;
   renameFeature: (id: string, name: string) => boolean;
   toggleVisibility: (id: string) => boolean;
+  /** Update a body's display name, color, visibility or material */
+  setBodyAppearance: (bodyKey: string, appearance: Partial<BodyAppearance>) => boolean;
   // Cloud sync status (only when documentId is provided)
   syncStatus: SyncStatus;
   isCloudDocument: boolean;
@@ -224,6 +261,9 @@ export function DocumentProvider({ children, documentId }: DocumentProviderProps
             if (!root.has("featureOrder")) {
               root.set("featureOrder", new Y.Array());
             }
+            if (!root.has("blobs")) {
+              root.set("blobs", new Y.Map());
+            }
 
             // Initialize meta
             const meta = root.get("meta") as Y.Map<unknown>;
@@ -345,14 +385,10 @@ export function DocumentProvider({ children, documentId }: DocumentProviderProps
   }, [isCloudDocument, documentId, session?.user, syncStatus]); // Use syncStatus to re-run when connected
   /* eslint-enable react-hooks/set-state-in-effect */
 
-  // Create undo manager - track featuresById, featureOrder, and state
+  // Create undo manager - track featuresById, featureOrder, state, and the
+  // blob store so undoing a file replacement brings the old file back
   // Only created once doc is available
-  const undoManager = useMemo(() => {
-    if (!doc) return null;
-    return new Y.UndoManager([doc.featuresById, doc.featureOrder, doc.state], {
-      trackedOrigins: new Set([null, "local"]),
-    });
-  }, [doc]);
+  const undoManager = useMemo(() => (doc ? createUndoManager(doc) : null), [doc]);
 
   // Local state
   const [rebuildGate, setRebuildGateState] = useState<string | null>(null);
@@ -462,26 +498,62 @@ export function DocumentProvider({ children, documentId }: DocumentProviderProps
       sketchId: string,
       distance: number,
       op: "add" | "cut" = "add",
-      direction: "normal" | "reverse" = "normal"
+      direction: "normal" | "reverse" | "symmetric" = "normal",
+      options?: Omit<ExtrudeFeatureOptions, "sketchId" | "distance" | "op" | "direction">
     ) => {
       if (!doc) return "";
-      return addExtrudeFeature(doc, sketchId, distance, op, direction);
+      return addExtrudeFeature(doc, { ...options, sketchId, distance, op, direction });
     },
     [doc]
   );
 
   const addRevolve = useCallback(
-    (sketchId: string, axis: string, angle: number, op: "add" | "cut" = "add") => {
+    (
+      sketchId: string,
+      axis: string,
+      angle: number,
+      op: "add" | "cut" = "add",
+      options?: Omit<RevolveFeatureOptions, "sketchId" | "axis" | "angle" | "op">
+    ) => {
       if (!doc) return "";
-      return addRevolveFeature(doc, sketchId, axis, angle, op);
+      return addRevolveFeature(doc, { ...options, sketchId, axis, angle, op });
     },
     [doc]
   );
 
   const addBoolean = useCallback(
-    (operation: "union" | "subtract" | "intersect", target: string, tool: string) => {
+    (
+      operation: "union" | "subtract" | "intersect",
+      target: string,
+      tool: string,
+      options?: Pick<BooleanFeatureOptions, "tools" | "keepTools">
+    ) => {
+      if (!doc) return "";
+      return addBooleanFeature(doc, { ...options, operation, target, tool });
+    },
+    [doc]
+  );
+
+  const addDeleteBody = useCallback(
+    (bodies: string[]) => {
       if (!doc) return "";
-      return addBooleanFeature(doc, { operation, target, tool });
+      return addDeleteBodyFeature(doc, { bodies });
+    },
+    [doc]
+  );
+
+  const addImport = useCallback(
+    (options: ImportFeatureOptions) => {
+      if (!doc) return "";
+      return addImportFeature(doc, options);
+    },
+    [doc]
+  );
+
+  const handleReplaceImportFile = useCallback(
+    (featureId: string, options: Pick<ImportFeatureOptions, "format" | "data" | "fileName">) => {
+      if (!doc) return false;
+      return replaceImportFile(doc, featureId, options);
     },
     [doc]
   );
@@ -543,6 +615,14 @@ export function DocumentProvider({ children, documentId }: DocumentProviderProps
     [doc]
   );
 
+  const handleSetBodyAppearance = useCallback(
+    (bodyKey: string, appearance: Partial<BodyAppearance>): boolean => {
+      if (!doc) return false;
+      return setBodyAppearance(doc, bodyKey, appearance);
+    },
+    [doc]
+  );
+
   // Determine if we're still loading
   const isLoading = !doc;
 
@@ -564,12 +644,16 @@ export function DocumentProvider({ children, documentId }: DocumentProviderProps
     addExtrude,
     addRevolve,
     addBoolean,
+    addDeleteBody,
+    addImport,
+    replaceImportFile: handleReplaceImportFile,
     addOffsetPlane,
     addAxis,
     getFeatureById,
     deleteFeature: handleDeleteFeature,
     renameFeature: handleRenameFeature,
     toggleVisibility: handleToggleVisibility,
+    setBodyAppearance: handleSetBodyAppearance,
     // Cloud sync info
     syncStatus,
     isCloudDocument,
@@ -92,6 +92,11 @@ export function FeatureEditProvider({ children }: FeatureEditProviderProps) {
             distance: mode.data.distance ?? 10,
             direction: mode.data.direction,
             op: mode.data.op,
+            startOffset: mode.data.startOffset,
+            draftAngle: mode.data.draftAngle,
+            ...(mode.data.twoSided && mode.data.direction !== "symmetric"
+              ? { distance2: mode.data.distance2 ?? 10, draftAngle2: mode.data.draftAngle2 }
+              : {}),
           });
         } else if (mode.type === "revolve") {
           previewRevolve({
@@ -99,6 +104,12 @@ export function FeatureEditProvider({ children }: FeatureEditProviderProps) {
             axis: mode.data.axis,
             angle: mode.data.angle,
             op: mode.data.op,
+            symmetric: mode.data.symmetric,
+            angle2:
+              mode.data.twoSided && !mode.data.symmetric ? (mode.data.angle2 ?? 90) : undefined,
+            ...(mode.data.thin
+              ? { thickness: mode.data.thickness ?? 1, thinSide: mode.data.thinSide }
+              : {}),
           });
         }
       }, 80);
@@ -188,10 +199,23 @@ export function FeatureEditProvider({ children }: FeatureEditProviderProps) {
 
     if (editMode.type === "extrude") {
       const { data, sketchId } = editMode;
-      addExtrude(sketchId, data.distance ?? 10, data.op, data.direction);
+      addExtrude(sketchId, data.distance ?? 10, data.op, data.direction, {
+        startOffset: data.startOffset,
+        draftAngle: data.draftAngle,
+        twoSided: data.twoSided && data.direction !== "symmetric",
+        distance2: data.distance2,
+        draftAngle2: data.draftAngle2,
+      });
     } else if (editMode.type === "revolve") {
       const { data, sketchId } = editMode;
-      addRevolve(sketchId, data.axis, data.angle, data.op);
+      addRevolve(sketchId, data.axis, data.angle, data.op, {
+        symmetric: data.symmetric,
+        twoSided: data.twoSided && !data.symmetric,
+        angle2: data.angle2 ?? 90,
+        thin: data.thin,
+        thickness: data.thickness,
+        thinSide: data.thinSide,
+      });
     }
 
     clearPreview();
@@ -12,9 +12,15 @@ import type {
   BuildError,
   BodyInfo,
   FeatureStatus,
+  FlatPatternFormat,
+  FlatPatternInfo,
   PlaneTransform,
   RebuildCompleteMessage,
+  PreviewExtrudeMessage,
+  PreviewRevolveMessage,
+  PreviewTransformMessage,
 } from "../worker/types";
+import type { StepSchema } from "@solidtype/core";
 
 // ============================================================================
 // Context Types
@@ -32,6 +38,8 @@ interface KernelContextValue {
   featureStatus: Record<string, FeatureStatus>;
   /** Body info from last rebuild */
   bodies: BodyInfo[];
+  /** Sheet metal flat patterns from last rebuild */
+  flatPatterns: FlatPatternInfo[];
   /** Reference index mapping mesh indices to PersistentRefs (Phase 3) */
   referenceIndex: ReferenceIndex;
   /** Whether a rebuild is in progress */
@@ -39,19 +47,11 @@ interface KernelContextValue {
   /** Whether the worker is ready */
   isReady: boolean;
   /** Send a live preview request for extrude */
-  previewExtrude: (args: {
-    sketchId: string;
-    distance: number;
-    direction: "normal" | "reverse";
-    op: "add" | "cut";
-  }) => void;
+  previewExtrude: (args: Omit<PreviewExtrudeMessage, "type">) => void;
   /** Send a live preview request for revolve */
-  previewRevolve: (args: {
-    sketchId: string;
-    axis: string;
-    angle: number;
-    op: "add" | "cut";
-  }) => void;
+  previewRevolve: (args: Omit<PreviewRevolveMessage, "type">) => void;
+  /** Send a live preview request for bodies being moved */
+  previewTransform: (args: Omit<PreviewTransformMessage, "type">) => void;
   /** Clear any active preview mesh */
   clearPreview: () => void;
   /** Last preview error message (if any) */
@@ -75,7 +75,13 @@ interface KernelContextValue {
   /** Export model to STL format (Phase 18) */
   exportStl: (options?: { binary?: boolean; name?: string }) => Promise<ArrayBuffer | string>;
   /** Export model to STEP format */
-  exportStep: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  exportStep: (options?: { name?: string; schema?: StepSchema }) => Promise<ArrayBuffer>;
+  /** Export model to IGES format */
+  exportIges: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  /** Export model to 3MF format for 3D printing */
+  export3mf: (options?: { name?: string }) => Promise<ArrayBuffer>;
+  /** Export a sheet metal flat pattern as a DXF or SVG drawing */
+  exportFlatPattern: (options: { featureId: string; format: FlatPatternFormat }) => Promise<string>;
   /** Export full document JSON for debugging/support */
   exportJson: () => Promise<string>;
 }
@@ -109,6 +115,21 @@ export function KernelProvider({ children }: KernelProviderProps) {
     resolve: (value: ArrayBuffer) => void;
     reject: (reason: Error) => void;
   } | null>(null);
+  // For IGES export promise resolution
+  const igesResolveRef = useRef<{
+    resolve: (value: ArrayBuffer) => void;
+    reject: (reason: Error) => void;
+  } | null>(null);
+  // For 3MF export promise resolution
+  const threeMfResolveRef = useRef<{
+    resolve: (value: ArrayBuffer) => void;
+    reject: (reason: Error) => void;
+  } | null>(null);
+  // For flat pattern export promise resolution
+  const flatPatternResolveRef = useRef<{
+    resolve: (value: string) => void;
+    reject: (reason: Error) => void;
+  } | null>(null);
   // For JSON export promise resolution
   const jsonResolveRef = useRef<{
     resolve: (value: string) => void;
@@ -119,6 +140,7 @@ export function KernelProvider({ children }: KernelProviderProps) {
   const [errors, setErrors] = useState<BuildError[]>([]);
   const [featureStatus, setFeatureStatus] = useState<Record<string, FeatureStatus>>({});
   const [bodies, setBodies] = useState<BodyInfo[]>([]);
+  const [flatPatterns, setFlatPatterns] = useState<FlatPatternInfo[]>([]);
   const [referenceIndex, setReferenceIndex] = useState<ReferenceIndex>(undefined);
   const [isRebuilding, setIsRebuilding] = useState(false);
   const [isReady, setIsReady] = useState(false);
@@ -185,6 +207,7 @@ export function KernelProvider({ children }: KernelProviderProps) {
           setErrors(msg.errors);
           setFeatureStatus(msg.featureStatus);
           setBodies(msg.bodies);
+          setFlatPatterns(msg.flatPatterns);
           setReferenceIndex(msg.referenceIndex);
           setIsRebuilding(false);
           break;
@@ -271,6 +294,27 @@ export function KernelProvider({ children }: KernelProviderProps) {
           }
           break;
 
+        case "iges-exported":
+          if (igesResolveRef.current) {
+            igesResolveRef.current.resolve(msg.buffer);
+            igesResolveRef.current = null;
+          }
+          break;
+
+        case "3mf-exported":
+          if (threeMfResolveRef.current) {
+            threeMfResolveRef.current.resolve(msg.buffer);
+            threeMfResolveRef.current = null;
+          }
+          break;
+
+        case "flat-pattern-exported":
+          if (flatPatternResolveRef.current) {
+            flatPatternResolveRef.current.resolve(msg.content);
+            flatPatternResolveRef.current = null;
+          }
+          break;
+
         case "error":
           console.error("Kernel worker error:", msg.message);
           // Also reject pending export promises if any
@@ -282,6 +326,18 @@ export function KernelProvider({ children }: KernelProviderProps) {
             stepResolveRef.current.reject(new Error(msg.message));
             stepResolveRef.current = null;
           }
+          if (igesResolveRef.current) {
+            igesResolveRef.current.reject(new Error(msg.message));
+            igesResolveRef.current = null;
+          }
+          if (threeMfResolveRef.current) {
+            threeMfResolveRef.current.reject(new Error(msg.message));
+            threeMfResolveRef.current = null;
+          }
+          if (flatPatternResolveRef.current) {
+            flatPatternResolveRef.current.reject(new Error(msg.message));
+            flatPatternResolveRef.current = null;
+          }
           if (jsonResolveRef.current) {
             jsonResolveRef.current.reject(new Error(msg.message));
             jsonResolveRef.current = null;
@@ -308,12 +364,7 @@ export function KernelProvider({ children }: KernelProviderProps) {
     };
   }, [doc]);
 
-  const previewExtrude = (args: {
-    sketchId: string;
-    distance: number;
-    direction: "normal" | "reverse";
-    op: "add" | "cut";
-  }) => {
+  const previewExtrude = (args: Omit<PreviewExtrudeMessage, "type">) => {
     setPreviewError(null);
     workerRef.current?.postMessage({
       type: "preview-extrude",
@@ -321,12 +372,7 @@ export function KernelProvider({ children }: KernelProviderProps) {
     });
   };
 
-  const previewRevolve = (args: {
-    sketchId: string;
-    axis: string;
-    angle: number;
-    op: "add" | "cut";
-  }) => {
+  const previewRevolve = (args: Omit<PreviewRevolveMessage, "type">) => {
     setPreviewError(null);
     workerRef.current?.postMessage({
       type: "preview-revolve",
@@ -334,6 +380,14 @@ export function KernelProvider({ children }: KernelProviderProps) {
     });
   };
 
+  const previewTransform = (args: Omit<PreviewTransformMessage, "type">) => {
+    setPreviewError(null);
+    workerRef.current?.postMessage({
+      type: "preview-transform",
+      ...args,
+    });
+  };
+
   const clearPreview = () => {
     setPreviewError(null);
     workerRef.current?.postMessage({ type: "clear-preview" });
@@ -377,7 +431,7 @@ export function KernelProvider({ children }: KernelProviderProps) {
   };
 
   // Export STEP
-  const exportStep = (options?: { name?: string }): Promise<ArrayBuffer> => {
+  const exportStep = (options?: { name?: string; schema?: StepSchema }): Promise<ArrayBuffer> => {
     return new Promise((resolve, reject) => {
       if (!workerRef.current) {
         reject(new Error("Worker not ready"));
@@ -387,6 +441,56 @@ export function KernelProvider({ children }: KernelProviderProps) {
       workerRef.current.postMessage({
         type: "export-step",
         name: options?.name ?? "model",
+        schema: options?.schema,
+      });
+    });
+  };
+
+  // Export IGES
+  const exportIges = (options?: { name?: string }): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+      if (!workerRef.current) {
+        reject(new Error("Worker not ready"));
+        return;
+      }
+      igesResolveRef.current = { resolve, reject };
+      workerRef.current.postMessage({
+        type: "export-iges",
+        name: options?.name ?? "model",
+      });
+    });
+  };
+
+  // Export 3MF
+  const export3mf = (options?: { name?: string }): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+      if (!workerRef.current) {
+        reject(new Error("Worker not ready"));
+        return;
+      }
+      threeMfResolveRef.current = { resolve, reject };
+      workerRef.current.postMessage({
+        type: "export-3mf",
+        name: options?.name ?? "model",
+      });
+    });
+  };
+
+  // Export a flat pattern drawing
+  const exportFlatPattern = (options: {
+    featureId: string;
+    format: FlatPatternFormat;
+  }): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      if (!workerRef.current) {
+        reject(new Error("Worker not ready"));
+        return;
+      }
+      flatPatternResolveRef.current = { resolve, reject };
+      workerRef.current.postMessage({
+        type: "export-flat-pattern",
+        featureId: options.featureId,
+        format: options.format,
       });
     });
   };
@@ -396,17 +500,22 @@ export function KernelProvider({ children }: KernelProviderProps) {
     errors,
     featureStatus,
     bodies,
+    flatPatterns,
     referenceIndex,
     isRebuilding,
     isReady,
     previewExtrude,
     previewRevolve,
+    previewTransform,
     clearPreview,
     previewError,
     sketchSolveInfo,
     sketchPlaneTransforms,
     exportStl,
     exportStep,
+    exportIges,
+    export3mf,
+    exportFlatPattern,
     exportJson,
   };
 
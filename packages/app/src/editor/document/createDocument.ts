@@ -13,6 +13,7 @@ import {
   getState,
   getFeaturesById,
   getFeatureOrder,
+  getBlobs,
   createFeatureMap,
   setMapProperties,
   assertNoGhostState,
@@ -52,6 +53,7 @@ const DEFAULT_PLANE_HEIGHT = 100;
  *   - state: Y.Map (rebuildGate)
  *   - featuresById: Y.Map<uuid, Y.Map> (feature records)
  *   - featureOrder: Y.Array<uuid> (feature ordering)
+ *   - blobs: Y.Map<id, Uint8Array> (files stored by import features)
  */
 export function createDocument(): SolidTypeDoc {
   const ydoc = new Y.Doc();
@@ -81,6 +83,9 @@ export function createDocument(): SolidTypeDoc {
     const featureOrder = new Y.Array<string>();
     root.set("featureOrder", featureOrder);
 
+    // Create blob store for imported files
+    root.set("blobs", new Y.Map<Uint8Array>());
+
     // Create default features (origin + 3 datum planes)
     initializeDefaultFeatures(featuresById, featureOrder);
   });
@@ -210,6 +215,31 @@ export function loadDocument(ydoc: Y.Doc): SolidTypeDoc {
   };
 }
 
+/**
+ * Create the undo manager for a document, tracking features, their order,
+ * state and the blob store. Documents made before the blob store existed get
+ * one with their first import, which is tracked from then on.
+ */
+export function createUndoManager(doc: SolidTypeDoc): Y.UndoManager {
+  const blobs = getBlobs(doc.root);
+  const undoManager = new Y.UndoManager(
+    [doc.featuresById, doc.featureOrder, doc.state, ...(blobs ? [blobs] : [])],
+    { trackedOrigins: new Set([null, "local"]) }
+  );
+
+  if (!blobs) {
+    const trackBlobs = (event: Y.YMapEvent<unknown>) => {
+      const created = getBlobs(doc.root);
+      if (!event.keysChanged.has("blobs") || !created) return;
+      undoManager.addToScope(created);
+      doc.root.unobserve(trackBlobs);
+    };
+    doc.root.observe(trackBlobs);
+  }
+
+  return undoManager;
+}
+
 // ============================================================================
 // Datum Plane Helpers
 // ============================================================================
@@ -9,17 +9,60 @@
 import * as Y from "yjs";
 import type { SolidTypeDoc } from "./createDocument";
 import { parsePlaneRef } from "./createDocument";
-import { uuid, createFeatureMap, setMapProperties, createSketchDataMap } from "./yjs";
+import { uuid, createFeatureMap, setMapProperties, createSketchDataMap, getBlobs } from "./yjs";
 import type {
   Feature,
   SketchFeature,
   ExtrudeFeature,
   RevolveFeature,
+  SweepFeature,
+  LoftFeature,
+  ShellFeature,
+  FilletFeature,
+  FilletEdgeSet,
+  ChamferFeature,
+  ChamferEdgeSet,
+  LinearPatternFeature,
+  CircularPatternFeature,
+  PatternDirection,
+  PatternAxis,
+  MirrorFeature,
+  MirrorPlaneRef,
+  DraftFeature,
+  HoleType,
+  HoleExtent,
+  HoleThread,
+  HoleFeature,
+  HelixFeature,
+  ThreadFeature,
+  RibThicknessSide,
+  RibFeature,
+  BoxFeature,
+  CylinderFeature,
+  SphereFeature,
+  ConeFeature,
+  TorusFeature,
+  TransformFeature,
+  SplitTool,
+  SplitKeep,
+  SplitFeature,
+  OffsetFaceFeature,
+  ThickenFeature,
+  BaseFlangeFeature,
+  EdgeFlangeFeature,
+  UnfoldFeature,
+  DeleteFaceFeature,
+  ReplaceFaceFeature,
   BooleanFeature,
+  DeleteBodyFeature,
+  ImportFormat,
+  ImportFeature,
+  BodyAppearance,
   OriginFeature,
   PlaneFeature,
   DatumPlaneFeature,
   AxisFeature,
+  ThinWallSide,
   SketchPlaneRef,
   DatumPlaneRole,
 } from "./schema";
@@ -154,9 +197,21 @@ export interface ExtrudeFeatureOptions {
   sketchId: string;
   distance?: number;
   op?: "add" | "cut";
-  direction?: "normal" | "reverse";
-  extent?: "blind" | "toFace" | "toVertex" | "throughAll";
+  direction?: "normal" | "reverse" | "symmetric";
+  extent?: "blind" | "toFace" | "toVertex" | "upToBody" | "throughAll";
   extentRef?: string;
+  extentBody?: string;
+  extentOffset?: number;
+  startOffset?: number;
+  draftAngle?: number;
+  // Second side, extruded opposite the direction
+  twoSided?: boolean;
+  extent2?: "blind" | "toFace" | "toVertex" | "upToBody" | "throughAll";
+  distance2?: number;
+  extentRef2?: string;
+  extentBody2?: string;
+  extentOffset2?: number;
+  draftAngle2?: number;
   name?: string;
   // Multi-body merge options
   mergeScope?: "auto" | "new" | "specific";
@@ -165,6 +220,35 @@ export interface ExtrudeFeatureOptions {
   resultBodyColor?: string;
 }
 
+/**
+ * Extent properties for one side of an extrude, suffixed with "2" for the
+ * second side.
+ */
+function extrudeExtentProps(
+  suffix: "" | "2",
+  extent: NonNullable<ExtrudeFeatureOptions["extent"]>,
+  side: { distance?: number; extentRef?: string; extentBody?: string; extentOffset?: number }
+): Record<string, unknown> {
+  const props: Record<string, unknown> = { [`extent${suffix}`]: extent };
+
+  if (extent === "blind") {
+    props[`distance${suffix}`] = side.distance ?? 10;
+  } else if (extent === "toFace" || extent === "toVertex") {
+    if (side.extentRef) {
+      props[`extentRef${suffix}`] = side.extentRef;
+    }
+    props[`distance${suffix}`] = side.distance ?? 10;
+  } else if (extent === "upToBody" && side.extentBody) {
+    props[`extentBody${suffix}`] = side.extentBody;
+  }
+  // throughAll doesn't need distance
+
+  if (extent !== "blind" && extent !== "throughAll" && side.extentOffset) {
+    props[`extentOffset${suffix}`] = side.extentOffset;
+  }
+  return props;
+}
+
 /**
  * Create a new extrude feature
  */
@@ -173,7 +257,7 @@ export function addExtrudeFeature(
   sketchIdOrOptions: string | ExtrudeFeatureOptions,
   distance?: number,
   op: "add" | "cut" = "add",
-  direction: "normal" | "reverse" = "normal",
+  direction: "normal" | "reverse" | "symmetric" = "normal",
   name?: string
 ): string {
   // Support both old and new API
@@ -205,15 +289,38 @@ export function addExtrudeFeature(
       extent,
     };
 
-    if (extent === "blind") {
-      props.distance = options.distance ?? 10;
-    } else if (extent === "toFace" || extent === "toVertex") {
-      if (options.extentRef) {
-        props.extentRef = options.extentRef;
+    Object.assign(
+      props,
+      extrudeExtentProps("", extent, {
+        distance: options.distance,
+        extentRef: options.extentRef,
+        extentBody: options.extentBody,
+        extentOffset: options.extentOffset,
+      })
+    );
+    if (options.startOffset) {
+      props.startOffset = options.startOffset;
+    }
+    if (options.draftAngle) {
+      props.draftAngle = options.draftAngle;
+    }
+
+    if (options.twoSided) {
+      const extent2 = options.extent2 ?? "blind";
+      props.twoSided = true;
+      Object.assign(
+        props,
+        extrudeExtentProps("2", extent2, {
+          distance: options.distance2,
+          extentRef: options.extentRef2,
+          extentBody: options.extentBody2,
+          extentOffset: options.extentOffset2,
+        })
+      );
+      if (options.draftAngle2) {
+        props.draftAngle2 = options.draftAngle2;
       }
-      props.distance = options.distance ?? 10;
     }
-    // throughAll doesn't need distance
 
     // Multi-body merge options
     if (options.mergeScope) {
@@ -246,6 +353,12 @@ export interface RevolveFeatureOptions {
   angle?: number;
   op?: "add" | "cut";
   name?: string;
+  symmetric?: boolean;
+  twoSided?: boolean;
+  angle2?: number;
+  thin?: boolean;
+  thickness?: number;
+  thinSide?: ThinWallSide;
   // Multi-body merge options
   mergeScope?: "auto" | "new" | "specific";
   targetBodies?: string[];
@@ -292,6 +405,166 @@ export function addRevolveFeature(
       op: options.op ?? "add",
     };
 
+    if (options.symmetric) {
+      props.symmetric = true;
+    } else if (options.twoSided) {
+      props.twoSided = true;
+      if (options.angle2 !== undefined) {
+        props.angle2 = options.angle2;
+      }
+    }
+    if (options.thin) {
+      props.thin = true;
+      props.thickness = options.thickness ?? 1;
+      props.thinSide = options.thinSide ?? "normal";
+    }
+
+    // Multi-body merge options
+    if (options.mergeScope) {
+      props.mergeScope = options.mergeScope;
+    }
+    if (options.targetBodies && options.targetBodies.length > 0) {
+      props.targetBodies = options.targetBodies;
+    }
+    if (options.resultBodyName) {
+      props.resultBodyName = options.resultBodyName;
+    }
+    if (options.resultBodyColor) {
+      props.resultBodyColor = options.resultBodyColor;
+    }
+
+    setMapProperties(revolve, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a sweep feature
+ */
+export interface SweepFeatureOptions {
+  profileSketchId: string;
+  pathSketchId: string;
+  /** Path entity ids (defaults to every entity in the path sketch) */
+  pathEntities?: string[];
+  op?: "add" | "cut";
+  name?: string;
+  // Multi-body merge options
+  mergeScope?: "auto" | "new" | "specific";
+  targetBodies?: string[];
+  resultBodyName?: string;
+  resultBodyColor?: string;
+}
+
+/**
+ * Create a new sweep feature
+ */
+export function addSweepFeature(doc: SolidTypeDoc, options: SweepFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    // Hide the profile and path sketches if they're currently visible
+    for (const sketchId of [options.profileSketchId, options.pathSketchId]) {
+      const sketchFeature = doc.featuresById.get(sketchId);
+      if (sketchFeature && sketchFeature.get("visible") === true) {
+        sketchFeature.set("visible", false);
+      }
+    }
+
+    const sweep = createFeatureMap();
+    doc.featuresById.set(id, sweep);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "sweep",
+      name: options.name ?? `Sweep${doc.featureOrder.length}`,
+      profileSketch: options.profileSketchId,
+      pathSketch: options.pathSketchId,
+      op: options.op ?? "add",
+    };
+
+    if (options.pathEntities && options.pathEntities.length > 0) {
+      props.pathEntities = options.pathEntities;
+    }
+
+    // Multi-body merge options
+    if (options.mergeScope) {
+      props.mergeScope = options.mergeScope;
+    }
+    if (options.targetBodies && options.targetBodies.length > 0) {
+      props.targetBodies = options.targetBodies;
+    }
+    if (options.resultBodyName) {
+      props.resultBodyName = options.resultBodyName;
+    }
+    if (options.resultBodyColor) {
+      props.resultBodyColor = options.resultBodyColor;
+    }
+
+    setMapProperties(sweep, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a loft feature
+ */
+export interface LoftFeatureOptions {
+  /** Profile sketch IDs in loft order */
+  sketchIds: string[];
+  ruled?: boolean;
+  startTangency?: "none" | "normal";
+  endTangency?: "none" | "normal";
+  op?: "add" | "cut";
+  name?: string;
+  // Multi-body merge options
+  mergeScope?: "auto" | "new" | "specific";
+  targetBodies?: string[];
+  resultBodyName?: string;
+  resultBodyColor?: string;
+}
+
+/**
+ * Create a new loft feature
+ */
+export function addLoftFeature(doc: SolidTypeDoc, options: LoftFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    // Hide the profile sketches if they're currently visible
+    for (const sketchId of options.sketchIds) {
+      const sketchFeature = doc.featuresById.get(sketchId);
+      if (sketchFeature && sketchFeature.get("visible") === true) {
+        sketchFeature.set("visible", false);
+      }
+    }
+
+    const loft = createFeatureMap();
+    doc.featuresById.set(id, loft);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "loft",
+      name: options.name ?? `Loft${doc.featureOrder.length}`,
+      sketches: [...options.sketchIds],
+      op: options.op ?? "add",
+    };
+
+    if (options.ruled) {
+      props.ruled = true;
+    }
+    if (options.startTangency && options.startTangency !== "none") {
+      props.startTangency = options.startTangency;
+    }
+    if (options.endTangency && options.endTangency !== "none") {
+      props.endTangency = options.endTangency;
+    }
+
     // Multi-body merge options
     if (options.mergeScope) {
       props.mergeScope = options.mergeScope;
@@ -306,7 +579,1040 @@ export function addRevolveFeature(
       props.resultBodyColor = options.resultBodyColor;
     }
 
-    setMapProperties(revolve, props);
+    setMapProperties(loft, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a shell feature
+ */
+export interface ShellFeatureOptions {
+  /** Body to hollow (bodyMap key); inferred from the open faces when omitted */
+  targetBody?: string;
+  thickness: number;
+  direction?: "inside" | "outside";
+  /** Face PersistentRef strings to remove */
+  openFaces?: string[];
+  name?: string;
+}
+
+/**
+ * Create a new shell feature
+ */
+export function addShellFeature(doc: SolidTypeDoc, options: ShellFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const shell = createFeatureMap();
+    doc.featuresById.set(id, shell);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "shell",
+      name: options.name ?? `Shell${doc.featureOrder.length}`,
+      thickness: options.thickness,
+      openFaces: [...(options.openFaces ?? [])],
+    };
+
+    if (options.targetBody) {
+      props.targetBody = options.targetBody;
+    }
+    if (options.direction && options.direction !== "inside") {
+      props.direction = options.direction;
+    }
+
+    setMapProperties(shell, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a fillet feature
+ */
+export interface FilletFeatureOptions {
+  /** Edge sets, each with its own radius */
+  edgeSets: FilletEdgeSet[];
+  name?: string;
+}
+
+/**
+ * Create a new fillet feature
+ */
+export function addFilletFeature(doc: SolidTypeDoc, options: FilletFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const fillet = createFeatureMap();
+    doc.featuresById.set(id, fillet);
+
+    setMapProperties(fillet, {
+      id,
+      type: "fillet",
+      name: options.name ?? `Fillet${doc.featureOrder.length}`,
+      edgeSets: options.edgeSets.map((set) => ({ edges: [...set.edges], radius: set.radius })),
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a chamfer feature
+ */
+export interface ChamferFeatureOptions {
+  /** Edge sets, each with its own setback */
+  edgeSets: ChamferEdgeSet[];
+  name?: string;
+}
+
+/**
+ * Create a new chamfer feature
+ */
+export function addChamferFeature(doc: SolidTypeDoc, options: ChamferFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const chamfer = createFeatureMap();
+    doc.featuresById.set(id, chamfer);
+
+    setMapProperties(chamfer, {
+      id,
+      type: "chamfer",
+      name: options.name ?? `Chamfer${doc.featureOrder.length}`,
+      edgeSets: options.edgeSets.map((set) => {
+        const stored: ChamferEdgeSet = { edges: [...set.edges], distance: set.distance };
+        if (set.distance2 !== undefined) {
+          stored.distance2 = set.distance2;
+        }
+        if (set.angle !== undefined) {
+          stored.angle = set.angle;
+        }
+        return stored;
+      }),
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * What a pattern replicates, and which instances it leaves out
+ */
+interface PatternSourceOptions {
+  /** Extrude/revolve/sweep/loft features to replicate */
+  sourceFeatures?: string[];
+  /** Body feature IDs to replicate whole */
+  sourceBodies?: string[];
+  /** Instance numbers to leave out */
+  skip?: number[];
+  name?: string;
+}
+
+/**
+ * Pattern source properties to store, omitting empty lists
+ */
+function patternSourceProps(options: PatternSourceOptions): Record<string, unknown> {
+  const props: Record<string, unknown> = {};
+  if (options.sourceFeatures && options.sourceFeatures.length > 0) {
+    props.sourceFeatures = [...options.sourceFeatures];
+  }
+  if (options.sourceBodies && options.sourceBodies.length > 0) {
+    props.sourceBodies = [...options.sourceBodies];
+  }
+  if (options.skip && options.skip.length > 0) {
+    props.skip = [...options.skip];
+  }
+  return props;
+}
+
+/**
+ * Options for creating a linear pattern feature
+ */
+export interface LinearPatternFeatureOptions extends PatternSourceOptions {
+  direction: PatternDirection;
+  count: number;
+  spacing?: number;
+  extent?: number;
+  direction2?: PatternDirection;
+  count2?: number;
+  spacing2?: number;
+  extent2?: number;
+}
+
+/**
+ * Create a new linear pattern feature
+ */
+export function addLinearPatternFeature(
+  doc: SolidTypeDoc,
+  options: LinearPatternFeatureOptions
+): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const pattern = createFeatureMap();
+    doc.featuresById.set(id, pattern);
+
+    setMapProperties(pattern, {
+      id,
+      type: "linearPattern",
+      name: options.name ?? `LinearPattern${doc.featureOrder.length}`,
+      ...patternSourceProps(options),
+      direction: options.direction,
+      count: options.count,
+      spacing: options.spacing,
+      extent: options.extent,
+      direction2: options.direction2,
+      count2: options.direction2 ? options.count2 : undefined,
+      spacing2: options.direction2 ? options.spacing2 : undefined,
+      extent2: options.direction2 ? options.extent2 : undefined,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a circular pattern feature
+ */
+export interface CircularPatternFeatureOptions extends PatternSourceOptions {
+  axis: PatternAxis;
+  count: number;
+  angle?: number;
+  totalAngle?: number;
+}
+
+/**
+ * Create a new circular pattern feature
+ */
+export function addCircularPatternFeature(
+  doc: SolidTypeDoc,
+  options: CircularPatternFeatureOptions
+): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const pattern = createFeatureMap();
+    doc.featuresById.set(id, pattern);
+
+    setMapProperties(pattern, {
+      id,
+      type: "circularPattern",
+      name: options.name ?? `CircularPattern${doc.featureOrder.length}`,
+      ...patternSourceProps(options),
+      axis: options.axis,
+      count: options.count,
+      angle: options.angle,
+      totalAngle: options.totalAngle,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a mirror feature
+ */
+export interface MirrorFeatureOptions {
+  /** Extrude/revolve/sweep/loft features to mirror */
+  sourceFeatures?: string[];
+  /** Body feature IDs to mirror whole */
+  sourceBodies?: string[];
+  plane: MirrorPlaneRef;
+  /** Fuse with the original (default true) */
+  merge?: boolean;
+  name?: string;
+}
+
+/**
+ * Create a new mirror feature
+ */
+export function addMirrorFeature(doc: SolidTypeDoc, options: MirrorFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const mirror = createFeatureMap();
+    doc.featuresById.set(id, mirror);
+
+    setMapProperties(mirror, {
+      id,
+      type: "mirror",
+      name: options.name ?? `Mirror${doc.featureOrder.length}`,
+      ...patternSourceProps(options),
+      plane: options.plane,
+      merge: options.merge,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a draft feature
+ */
+export interface DraftFeatureOptions {
+  /** Face PersistentRef strings to taper */
+  faces: string[];
+  /** Draft angle in degrees */
+  angle: number;
+  pullDirection: [number, number, number];
+  /** Plane where the faces keep their size (default: through the origin) */
+  neutralPlane?: MirrorPlaneRef;
+  name?: string;
+}
+
+/**
+ * Create a new draft feature
+ */
+export function addDraftFeature(doc: SolidTypeDoc, options: DraftFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const draft = createFeatureMap();
+    doc.featuresById.set(id, draft);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "draft",
+      name: options.name ?? `Draft${doc.featureOrder.length}`,
+      faces: [...options.faces],
+      angle: options.angle,
+      pullDirection: [...options.pullDirection],
+    };
+
+    if (options.neutralPlane) {
+      props.neutralPlane = options.neutralPlane;
+    }
+
+    setMapProperties(draft, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a hole feature
+ */
+export interface HoleFeatureOptions {
+  /** Sketch on the face the holes start from */
+  sketch: string;
+  /** Sketch points at the hole centres */
+  points: string[];
+  holeType?: HoleType;
+  diameter: number;
+  counterboreDiameter?: number;
+  counterboreDepth?: number;
+  countersinkDiameter?: number;
+  /** Included countersink angle in degrees */
+  countersinkAngle?: number;
+  extent?: HoleExtent;
+  depth?: number;
+  extentRef?: string;
+  /** Included drill point angle in degrees */
+  tipAngle?: number;
+  reverse?: boolean;
+  thread?: HoleThread;
+  name?: string;
+}
+
+/**
+ * Create a new hole feature
+ */
+export function addHoleFeature(doc: SolidTypeDoc, options: HoleFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const hole = createFeatureMap();
+    doc.featuresById.set(id, hole);
+
+    const extent = options.extent ?? "blind";
+    const props: Record<string, unknown> = {
+      id,
+      type: "hole",
+      name: options.name ?? `Hole${doc.featureOrder.length}`,
+      sketch: options.sketch,
+      points: [...options.points],
+      holeType: options.holeType ?? "simple",
+      diameter: options.diameter,
+      extent,
+    };
+
+    if (extent === "blind") {
+      props.depth = options.depth ?? 10;
+    }
+    if (extent === "toFace" && options.extentRef) {
+      props.extentRef = options.extentRef;
+    }
+    if (options.holeType === "counterbore") {
+      props.counterboreDiameter = options.counterboreDiameter;
+      props.counterboreDepth = options.counterboreDepth;
+    }
+    if (options.holeType === "countersink") {
+      props.countersinkDiameter = options.countersinkDiameter;
+      if (options.countersinkAngle !== undefined) {
+        props.countersinkAngle = options.countersinkAngle;
+      }
+    }
+    if (options.tipAngle !== undefined) {
+      props.tipAngle = options.tipAngle;
+    }
+    if (options.reverse) {
+      props.reverse = true;
+    }
+    if (options.thread) {
+      props.thread = { ...options.thread };
+    }
+
+    setMapProperties(hole, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a helix feature
+ */
+export interface HelixFeatureOptions {
+  /** Axis feature the helix winds about */
+  axis: string;
+  radius: number;
+  pitch: number;
+  /** Number of turns; used when no height is given */
+  turns?: number;
+  /** Height along the axis; takes precedence over turns */
+  height?: number;
+  handedness?: "right" | "left";
+  /** Taper angle in degrees */
+  taperAngle?: number;
+  startOffset?: number;
+  reverse?: boolean;
+  name?: string;
+}
+
+/**
+ * Create a new helix feature
+ */
+export function addHelixFeature(doc: SolidTypeDoc, options: HelixFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const helix = createFeatureMap();
+    doc.featuresById.set(id, helix);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "helix",
+      name: options.name ?? `Helix${doc.featureOrder.length}`,
+      axis: options.axis,
+      radius: options.radius,
+      pitch: options.pitch,
+      handedness: options.handedness ?? "right",
+    };
+
+    if (options.height !== undefined) {
+      props.definition = "height";
+      props.height = options.height;
+    } else {
+      props.definition = "turns";
+      props.turns = options.turns ?? 1;
+    }
+    if (options.taperAngle) {
+      props.taperAngle = options.taperAngle;
+    }
+    if (options.startOffset) {
+      props.startOffset = options.startOffset;
+    }
+    if (options.reverse) {
+      props.reverse = true;
+    }
+
+    setMapProperties(helix, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a thread feature
+ */
+export interface ThreadFeatureOptions {
+  /** Helix feature the thread follows */
+  helix: string;
+  /** Cylindrical face PersistentRef string to thread */
+  face: string;
+  depth?: number;
+  /** Included flank angle in degrees */
+  profileAngle?: number;
+  name?: string;
+}
+
+/**
+ * Create a new thread feature
+ */
+export function addThreadFeature(doc: SolidTypeDoc, options: ThreadFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const thread = createFeatureMap();
+    doc.featuresById.set(id, thread);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "thread",
+      name: options.name ?? `Thread${doc.featureOrder.length}`,
+      helix: options.helix,
+      face: options.face,
+    };
+
+    if (options.depth !== undefined) {
+      props.depth = options.depth;
+    }
+    if (options.profileAngle !== undefined) {
+      props.profileAngle = options.profileAngle;
+    }
+
+    setMapProperties(thread, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a rib feature
+ */
+export interface RibFeatureOptions {
+  /** Sketch holding the open profile */
+  sketch: string;
+  /** Line/arc entities forming the profile (default: all) */
+  entities?: string[];
+  thickness: number;
+  thicknessSide?: RibThicknessSide;
+  flipThickness?: boolean;
+  materialSide?: "auto" | "left" | "right";
+  targetBody?: string;
+  name?: string;
+}
+
+/**
+ * Create a new rib feature
+ */
+export function addRibFeature(doc: SolidTypeDoc, options: RibFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const rib = createFeatureMap();
+    doc.featuresById.set(id, rib);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "rib",
+      name: options.name ?? `Rib${doc.featureOrder.length}`,
+      sketch: options.sketch,
+      thickness: options.thickness,
+      thicknessSide: options.thicknessSide ?? "midplane",
+    };
+
+    if (options.entities && options.entities.length > 0) {
+      props.entities = options.entities;
+    }
+    if (options.flipThickness) {
+      props.flipThickness = true;
+    }
+    if (options.materialSide && options.materialSide !== "auto") {
+      props.materialSide = options.materialSide;
+    }
+    if (options.targetBody) {
+      props.targetBody = options.targetBody;
+    }
+
+    setMapProperties(rib, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Dimensions of each primitive feature type
+ */
+export type PrimitiveDimensions =
+  | { type: "box"; width: number; depth: number; height: number }
+  | { type: "cylinder"; radius: number; height: number }
+  | { type: "sphere"; radius: number }
+  | { type: "cone"; radius: number; topRadius: number; height: number }
+  | { type: "torus"; majorRadius: number; minorRadius: number };
+
+/**
+ * Options for creating a primitive feature
+ */
+export type PrimitiveFeatureOptions = PrimitiveDimensions & {
+  /** Plane ID, datum role ("xy", "xz", "yz") or face reference to place it on */
+  plane: string;
+  /** Position in the plane */
+  offsetX?: number;
+  offsetY?: number;
+  /** Distance along the plane normal */
+  offsetZ?: number;
+  /** Rotation about the plane normal in degrees */
+  rotation?: number;
+  op?: "add" | "cut";
+  name?: string;
+  // Multi-body merge options
+  mergeScope?: "auto" | "new" | "specific";
+  targetBodies?: string[];
+  resultBodyName?: string;
+  resultBodyColor?: string;
+};
+
+const PRIMITIVE_NAMES: Record<PrimitiveDimensions["type"], string> = {
+  box: "Box",
+  cylinder: "Cylinder",
+  sphere: "Sphere",
+  cone: "Cone",
+  torus: "Torus",
+};
+
+/**
+ * Create a new box, cylinder, sphere, cone or torus feature
+ */
+export function addPrimitiveFeature(doc: SolidTypeDoc, options: PrimitiveFeatureOptions): string {
+  const id = uuid();
+  const {
+    type,
+    plane,
+    offsetX,
+    offsetY,
+    offsetZ,
+    rotation,
+    op,
+    name,
+    mergeScope,
+    targetBodies,
+    resultBodyName,
+    resultBodyColor,
+    ...dimensions
+  } = options;
+  const planeRef = parsePlaneRef(doc, plane);
+
+  doc.ydoc.transact(() => {
+    const primitive = createFeatureMap();
+    doc.featuresById.set(id, primitive);
+
+    const props: Record<string, unknown> = {
+      id,
+      type,
+      name: name ?? `${PRIMITIVE_NAMES[type]}${doc.featureOrder.length}`,
+      plane: planeRef,
+      op: op ?? "add",
+      ...dimensions,
+    };
+
+    if (offsetX) {
+      props.offsetX = offsetX;
+    }
+    if (offsetY) {
+      props.offsetY = offsetY;
+    }
+    if (offsetZ) {
+      props.offsetZ = offsetZ;
+    }
+    if (rotation) {
+      props.rotation = rotation;
+    }
+
+    // Multi-body merge options
+    if (mergeScope) {
+      props.mergeScope = mergeScope;
+    }
+    if (targetBodies && targetBodies.length > 0) {
+      props.targetBodies = targetBodies;
+    }
+    if (resultBodyName) {
+      props.resultBodyName = resultBodyName;
+    }
+    if (resultBodyColor) {
+      props.resultBodyColor = resultBodyColor;
+    }
+
+    setMapProperties(primitive, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a transform feature
+ */
+export interface TransformFeatureOptions {
+  /** Body feature IDs to move */
+  bodies: string[];
+  /** Vertex or planar face ref moved onto `mateTo` */
+  mateFrom?: string;
+  mateTo?: string;
+  /** Face mates: point the faces the same way */
+  mateFlip?: boolean;
+  /** Rotation angles in degrees, applied about x, then y, then z */
+  rotate?: [number, number, number];
+  /** Point the rotation is about */
+  pivot?: [number, number, number];
+  translate?: [number, number, number];
+  /** Move copies and keep the originals */
+  copy?: boolean;
+  name?: string;
+}
+
+/**
+ * Create a new transform feature
+ */
+export function addTransformFeature(doc: SolidTypeDoc, options: TransformFeatureOptions): string {
+  const id = uuid();
+  const { rotate, pivot, translate } = options;
+
+  doc.ydoc.transact(() => {
+    const transform = createFeatureMap();
+    doc.featuresById.set(id, transform);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "transform",
+      name: options.name ?? `Transform${doc.featureOrder.length}`,
+      bodies: options.bodies,
+      mateFrom: options.mateFrom,
+      mateTo: options.mateTo,
+      mateFlip: options.mateFlip || undefined,
+      copy: options.copy || undefined,
+    };
+
+    // Only non-zero components are stored
+    const axes = ["X", "Y", "Z"] as const;
+    axes.forEach((axis, i) => {
+      if (rotate?.[i]) props[`rotate${axis}`] = rotate[i];
+      if (pivot?.[i]) props[`pivot${axis}`] = pivot[i];
+      if (translate?.[i]) props[`translate${axis}`] = translate[i];
+    });
+
+    setMapProperties(transform, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a split feature
+ */
+export interface SplitFeatureOptions {
+  tool: SplitTool;
+  /** Pieces to keep (default: both) */
+  keep?: SplitKeep;
+  /** Body to split (default: the only body) */
+  targetBody?: string;
+  name?: string;
+}
+
+/**
+ * Create a new split feature
+ */
+export function addSplitFeature(doc: SolidTypeDoc, options: SplitFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const split = createFeatureMap();
+    doc.featuresById.set(id, split);
+
+    const props: Record<string, unknown> = {
+      id,
+      type: "split",
+      name: options.name ?? `Split${doc.featureOrder.length}`,
+      tool: options.tool,
+    };
+
+    if (options.keep && options.keep !== "both") {
+      props.keep = options.keep;
+    }
+    if (options.targetBody) {
+      props.targetBody = options.targetBody;
+    }
+
+    setMapProperties(split, props);
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating an offset face feature
+ */
+export interface OffsetFaceFeatureOptions {
+  /** Face PersistentRef strings to move */
+  faces: string[];
+  /** Distance along each face's outward normal */
+  distance: number;
+  name?: string;
+}
+
+/**
+ * Create a new offset face feature
+ */
+export function addOffsetFaceFeature(doc: SolidTypeDoc, options: OffsetFaceFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const offset = createFeatureMap();
+    doc.featuresById.set(id, offset);
+
+    setMapProperties(offset, {
+      id,
+      type: "offsetFace",
+      name: options.name ?? `OffsetFace${doc.featureOrder.length}`,
+      faces: [...options.faces],
+      distance: options.distance,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a thicken feature
+ */
+export interface ThickenFeatureOptions {
+  /** Face PersistentRef strings to thicken, all on one body */
+  faces: string[];
+  /** Thickness along each face's outward normal */
+  thickness: number;
+  name?: string;
+}
+
+/**
+ * Create a new thicken feature
+ */
+export function addThickenFeature(doc: SolidTypeDoc, options: ThickenFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const thicken = createFeatureMap();
+    doc.featuresById.set(id, thicken);
+
+    setMapProperties(thicken, {
+      id,
+      type: "thicken",
+      name: options.name ?? `Thicken${doc.featureOrder.length}`,
+      faces: [...options.faces],
+      thickness: options.thickness,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a base flange feature
+ */
+export interface BaseFlangeFeatureOptions {
+  sketch: string;
+  thickness: number;
+  bendRadius: number;
+  kFactor: number;
+  reverse?: boolean;
+  name?: string;
+}
+
+/**
+ * Create a new base flange feature
+ */
+export function addBaseFlangeFeature(doc: SolidTypeDoc, options: BaseFlangeFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const flange = createFeatureMap();
+    doc.featuresById.set(id, flange);
+
+    setMapProperties(flange, {
+      id,
+      type: "baseFlange",
+      name: options.name ?? `BaseFlange${doc.featureOrder.length}`,
+      sketch: options.sketch,
+      thickness: options.thickness,
+      bendRadius: options.bendRadius,
+      kFactor: options.kFactor,
+      reverse: options.reverse,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating an edge flange feature
+ */
+export interface EdgeFlangeFeatureOptions {
+  /** Edge PersistentRef string */
+  edge: string;
+  /** Bend angle in degrees */
+  angle: number;
+  length: number;
+  bendRadius?: number;
+  name?: string;
+}
+
+/**
+ * Create a new edge flange feature
+ */
+export function addEdgeFlangeFeature(doc: SolidTypeDoc, options: EdgeFlangeFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const flange = createFeatureMap();
+    doc.featuresById.set(id, flange);
+
+    setMapProperties(flange, {
+      id,
+      type: "edgeFlange",
+      name: options.name ?? `EdgeFlange${doc.featureOrder.length}`,
+      edge: options.edge,
+      angle: options.angle,
+      length: options.length,
+      bendRadius: options.bendRadius,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating an unfold feature
+ */
+export interface UnfoldFeatureOptions {
+  /** Base flange feature ID */
+  baseFlange: string;
+  name?: string;
+}
+
+/**
+ * Create a new unfold feature
+ */
+export function addUnfoldFeature(doc: SolidTypeDoc, options: UnfoldFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const unfold = createFeatureMap();
+    doc.featuresById.set(id, unfold);
+
+    setMapProperties(unfold, {
+      id,
+      type: "unfold",
+      name: options.name ?? `Unfold${doc.featureOrder.length}`,
+      baseFlange: options.baseFlange,
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a delete face feature
+ */
+export interface DeleteFaceFeatureOptions {
+  /** Face PersistentRef strings to remove */
+  faces: string[];
+  name?: string;
+}
+
+/**
+ * Create a new delete face feature
+ */
+export function addDeleteFaceFeature(doc: SolidTypeDoc, options: DeleteFaceFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const deleteFace = createFeatureMap();
+    doc.featuresById.set(id, deleteFace);
+
+    setMapProperties(deleteFace, {
+      id,
+      type: "deleteFace",
+      name: options.name ?? `DeleteFace${doc.featureOrder.length}`,
+      faces: [...options.faces],
+    });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a replace face feature
+ */
+export interface ReplaceFaceFeatureOptions {
+  /** Planar face PersistentRef strings to replace */
+  faces: string[];
+  /** Plane feature or planar face the faces are moved onto */
+  plane: MirrorPlaneRef;
+  name?: string;
+}
+
+/**
+ * Create a new replace face feature
+ */
+export function addReplaceFaceFeature(
+  doc: SolidTypeDoc,
+  options: ReplaceFaceFeatureOptions
+): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const replaceFace = createFeatureMap();
+    doc.featuresById.set(id, replaceFace);
+
+    setMapProperties(replaceFace, {
+      id,
+      type: "replaceFace",
+      name: options.name ?? `ReplaceFace${doc.featureOrder.length}`,
+      faces: [...options.faces],
+      plane: options.plane,
+    });
     // Insert at rebuild gate position (or end if no gate)
     insertFeatureAtGate(doc, id);
   });
@@ -321,6 +1627,10 @@ export interface BooleanFeatureOptions {
   operation: "union" | "subtract" | "intersect";
   target: string;
   tool: string;
+  /** Further tool bodies, combined after `tool` */
+  tools?: string[];
+  /** Keep the tool bodies instead of consuming them */
+  keepTools?: boolean;
   name?: string;
 }
 
@@ -342,8 +1652,110 @@ export function addBooleanFeature(doc: SolidTypeDoc, options: BooleanFeatureOpti
       operation: options.operation,
       target: options.target,
       tool: options.tool,
+      tools: options.tools?.length ? [...options.tools] : undefined,
+      keepTools: options.keepTools || undefined,
+    });
+
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating a delete body feature
+ */
+export interface DeleteBodyFeatureOptions {
+  /** Keys of the bodies to remove */
+  bodies: string[];
+  name?: string;
+}
+
+/**
+ * Create a new delete body feature
+ */
+export function addDeleteBodyFeature(doc: SolidTypeDoc, options: DeleteBodyFeatureOptions): string {
+  const id = uuid();
+
+  doc.ydoc.transact(() => {
+    const deleteBody = createFeatureMap();
+    doc.featuresById.set(id, deleteBody);
+
+    setMapProperties(deleteBody, {
+      id,
+      type: "deleteBody",
+      name: options.name ?? `DeleteBody${doc.featureOrder.length}`,
+      bodies: [...options.bodies],
     });
+    // Insert at rebuild gate position (or end if no gate)
+    insertFeatureAtGate(doc, id);
+  });
+
+  return id;
+}
+
+/**
+ * Options for creating an import feature
+ */
+export interface ImportFeatureOptions {
+  format: ImportFormat;
+  /** Contents of the file */
+  data: Uint8Array;
+  fileName: string;
+  /** Units a BREP file is modelled in (default mm) */
+  fileUnits?: ImportFeature["fileUnits"];
+  name?: string;
+}
+
+/**
+ * Work out the format of an importable file from its extension.
+ *
+ * @returns The format, or null for an unsupported extension
+ */
+export function importFormatFromFileName(fileName: string): ImportFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "step" || extension === "stp") return "step";
+  if (extension === "iges" || extension === "igs") return "iges";
+  if (extension === "brep" || extension === "brp") return "brep";
+  return null;
+}
+
+/**
+ * Store a file's bytes in the document's blob store and return its id.
+ * Must be called inside a transaction.
+ */
+function storeBlob(doc: SolidTypeDoc, data: Uint8Array): string {
+  let blobs = getBlobs(doc.root);
+  if (!blobs) {
+    blobs = new Y.Map<Uint8Array>();
+    doc.root.set("blobs", blobs);
+  }
+  const id = uuid();
+  blobs.set(id, data);
+  return id;
+}
+
+/**
+ * Create a new import feature, storing the file in the document
+ */
+export function addImportFeature(doc: SolidTypeDoc, options: ImportFeatureOptions): string {
+  const id = uuid();
 
+  doc.ydoc.transact(() => {
+    const blob = storeBlob(doc, options.data);
+    const importFeature = createFeatureMap();
+    doc.featuresById.set(id, importFeature);
+
+    setMapProperties(importFeature, {
+      id,
+      type: "import",
+      name: options.name ?? options.fileName.replace(/\.[^.]*$/, ""),
+      format: options.format,
+      blob,
+      fileName: options.fileName,
+      fileUnits: options.fileUnits,
+    });
     // Insert at rebuild gate position (or end if no gate)
     insertFeatureAtGate(doc, id);
   });
@@ -351,6 +1763,30 @@ export function addBooleanFeature(doc: SolidTypeDoc, options: BooleanFeatureOpti
   return id;
 }
 
+/**
+ * Replace the file of an import feature with a new revision. The feature
+ * keeps its ID, so references to its faces carry over to the new file.
+ */
+export function replaceImportFile(
+  doc: SolidTypeDoc,
+  featureId: string,
+  options: Pick<ImportFeatureOptions, "format" | "data" | "fileName">
+): boolean {
+  const feature = doc.featuresById.get(featureId);
+  if (!feature || feature.get("type") !== "import") return false;
+
+  doc.ydoc.transact(() => {
+    const oldBlob = feature.get("blob") as string;
+    feature.set("blob", storeBlob(doc, options.data));
+    feature.set("format", options.format);
+    feature.set("fileName", options.fileName);
+    feature.set("revision", ((feature.get("revision") as number | undefined) ?? 0) + 1);
+    getBlobs(doc.root)?.delete(oldBlob);
+  });
+
+  return true;
+}
+
 /**
  * Options for creating an offset plane
  */
@@ -549,6 +1985,17 @@ export function addAxisFeature(doc: SolidTypeDoc, options: AxisFeatureOptions):
  * Parse a feature map into a Feature object
  */
 export function parseFeature(featureMap: Y.Map<unknown>): Feature | null {
+  const feature = parseFeatureFields(featureMap);
+  const bodyAppearance = featureMap.get("bodyAppearance") as
+    | Record<string, BodyAppearance>
+    | undefined;
+  if (feature && bodyAppearance) {
+    feature.bodyAppearance = bodyAppearance;
+  }
+  return feature;
+}
+
+function parseFeatureFields(featureMap: Y.Map<unknown>): Feature | null {
   const type = featureMap.get("type") as string;
   const id = featureMap.get("id") as string;
 
@@ -654,14 +2101,21 @@ export function parseFeature(featureMap: Y.Map<unknown>): Feature | null {
         suppressed,
         sketch: featureMap.get("sketch") as string,
         op: (featureMap.get("op") ?? "add") as "add" | "cut",
-        direction: (featureMap.get("direction") ?? "normal") as "normal" | "reverse",
-        extent: (featureMap.get("extent") ?? "blind") as
-          | "blind"
-          | "toFace"
-          | "toVertex"
-          | "throughAll",
+        direction: (featureMap.get("direction") ?? "normal") as "normal" | "reverse" | "symmetric",
+        extent: (featureMap.get("extent") ?? "blind") as ExtrudeFeature["extent"],
         distance: featureMap.get("distance") as number | undefined,
         extentRef: featureMap.get("extentRef") as string | undefined,
+        extentBody: featureMap.get("extentBody") as string | undefined,
+        extentOffset: featureMap.get("extentOffset") as number | undefined,
+        startOffset: featureMap.get("startOffset") as number | undefined,
+        draftAngle: featureMap.get("draftAngle") as number | undefined,
+        twoSided: featureMap.get("twoSided") as boolean | undefined,
+        extent2: featureMap.get("extent2") as ExtrudeFeature["extent2"],
+        distance2: featureMap.get("distance2") as number | undefined,
+        extentRef2: featureMap.get("extentRef2") as string | undefined,
+        extentBody2: featureMap.get("extentBody2") as string | undefined,
+        extentOffset2: featureMap.get("extentOffset2") as number | undefined,
+        draftAngle2: featureMap.get("draftAngle2") as number | undefined,
         mergeScope: featureMap.get("mergeScope") as "auto" | "new" | "specific" | undefined,
         targetBodies,
         resultBodyName: featureMap.get("resultBodyName") as string | undefined,
@@ -680,6 +2134,12 @@ export function parseFeature(featureMap: Y.Map<unknown>): Feature | null {
         axis: featureMap.get("axis") as string,
         angle: (featureMap.get("angle") ?? 360) as number,
         op: (featureMap.get("op") ?? "add") as "add" | "cut",
+        symmetric: featureMap.get("symmetric") as boolean | undefined,
+        twoSided: featureMap.get("twoSided") as boolean | undefined,
+        angle2: featureMap.get("angle2") as number | undefined,
+        thin: featureMap.get("thin") as boolean | undefined,
+        thickness: featureMap.get("thickness") as number | undefined,
+        thinSide: featureMap.get("thinSide") as ThinWallSide | undefined,
         mergeScope: featureMap.get("mergeScope") as "auto" | "new" | "specific" | undefined,
         targetBodies,
         resultBodyName: featureMap.get("resultBodyName") as string | undefined,
@@ -687,6 +2147,355 @@ export function parseFeature(featureMap: Y.Map<unknown>): Feature | null {
       } as RevolveFeature;
     }
 
+    case "sweep": {
+      const targetBodies = featureMap.get("targetBodies") as string[] | undefined;
+      return {
+        type: "sweep",
+        id,
+        name,
+        suppressed,
+        profileSketch: featureMap.get("profileSketch") as string,
+        pathSketch: featureMap.get("pathSketch") as string,
+        pathEntities: featureMap.get("pathEntities") as string[] | undefined,
+        op: (featureMap.get("op") ?? "add") as "add" | "cut",
+        mergeScope: featureMap.get("mergeScope") as "auto" | "new" | "specific" | undefined,
+        targetBodies,
+        resultBodyName: featureMap.get("resultBodyName") as string | undefined,
+        resultBodyColor: featureMap.get("resultBodyColor") as string | undefined,
+      } as SweepFeature;
+    }
+
+    case "loft": {
+      const targetBodies = featureMap.get("targetBodies") as string[] | undefined;
+      return {
+        type: "loft",
+        id,
+        name,
+        suppressed,
+        sketches: (featureMap.get("sketches") ?? []) as string[],
+        ruled: featureMap.get("ruled") as boolean | undefined,
+        startTangency: featureMap.get("startTangency") as "none" | "normal" | undefined,
+        endTangency: featureMap.get("endTangency") as "none" | "normal" | undefined,
+        op: (featureMap.get("op") ?? "add") as "add" | "cut",
+        mergeScope: featureMap.get("mergeScope") as "auto" | "new" | "specific" | undefined,
+        targetBodies,
+        resultBodyName: featureMap.get("resultBodyName") as string | undefined,
+        resultBodyColor: featureMap.get("resultBodyColor") as string | undefined,
+      } as LoftFeature;
+    }
+
+    case "shell":
+      return {
+        type: "shell",
+        id,
+        name,
+        suppressed,
+        targetBody: featureMap.get("targetBody") as string | undefined,
+        thickness: (featureMap.get("thickness") ?? 1) as number,
+        direction: featureMap.get("direction") as "inside" | "outside" | undefined,
+        openFaces: (featureMap.get("openFaces") ?? []) as string[],
+      } as ShellFeature;
+
+    case "fillet":
+      return {
+        type: "fillet",
+        id,
+        name,
+        suppressed,
+        edgeSets: (featureMap.get("edgeSets") ?? []) as FilletEdgeSet[],
+      } as FilletFeature;
+
+    case "chamfer":
+      return {
+        type: "chamfer",
+        id,
+        name,
+        suppressed,
+        edgeSets: (featureMap.get("edgeSets") ?? []) as ChamferEdgeSet[],
+      } as ChamferFeature;
+
+    case "linearPattern":
+      return {
+        type: "linearPattern",
+        id,
+        name,
+        suppressed,
+        sourceFeatures: featureMap.get("sourceFeatures") as string[] | undefined,
+        sourceBodies: featureMap.get("sourceBodies") as string[] | undefined,
+        skip: featureMap.get("skip") as number[] | undefined,
+        direction: featureMap.get("direction") as PatternDirection,
+        count: (featureMap.get("count") ?? 2) as number,
+        spacing: featureMap.get("spacing") as number | undefined,
+        extent: featureMap.get("extent") as number | undefined,
+        direction2: featureMap.get("direction2") as PatternDirection | undefined,
+        count2: featureMap.get("count2") as number | undefined,
+        spacing2: featureMap.get("spacing2") as number | undefined,
+        extent2: featureMap.get("extent2") as number | undefined,
+      } as LinearPatternFeature;
+
+    case "circularPattern":
+      return {
+        type: "circularPattern",
+        id,
+        name,
+        suppressed,
+        sourceFeatures: featureMap.get("sourceFeatures") as string[] | undefined,
+        sourceBodies: featureMap.get("sourceBodies") as string[] | undefined,
+        skip: featureMap.get("skip") as number[] | undefined,
+        axis: featureMap.get("axis") as PatternAxis,
+        count: (featureMap.get("count") ?? 2) as number,
+        angle: featureMap.get("angle") as number | undefined,
+        totalAngle: featureMap.get("totalAngle") as number | undefined,
+      } as CircularPatternFeature;
+
+    case "mirror":
+      return {
+        type: "mirror",
+        id,
+        name,
+        suppressed,
+        sourceFeatures: featureMap.get("sourceFeatures") as string[] | undefined,
+        sourceBodies: featureMap.get("sourceBodies") as string[] | undefined,
+        plane: featureMap.get("plane") as MirrorPlaneRef,
+        merge: featureMap.get("merge") as boolean | undefined,
+      } as MirrorFeature;
+
+    case "draft":
+      return {
+        type: "draft",
+        id,
+        name,
+        suppressed,
+        faces: (featureMap.get("faces") ?? []) as string[],
+        angle: (featureMap.get("angle") ?? 0) as number,
+        pullDirection: (featureMap.get("pullDirection") ?? [0, 0, 1]) as [number, number, number],
+        neutralPlane: featureMap.get("neutralPlane") as MirrorPlaneRef | undefined,
+      } as DraftFeature;
+
+    case "hole":
+      return {
+        type: "hole",
+        id,
+        name,
+        suppressed,
+        sketch: featureMap.get("sketch") as string,
+        points: (featureMap.get("points") ?? []) as string[],
+        holeType: (featureMap.get("holeType") ?? "simple") as HoleType,
+        diameter: (featureMap.get("diameter") ?? 0) as number,
+        counterboreDiameter: featureMap.get("counterboreDiameter") as number | undefined,
+        counterboreDepth: featureMap.get("counterboreDepth") as number | undefined,
+        countersinkDiameter: featureMap.get("countersinkDiameter") as number | undefined,
+        countersinkAngle: featureMap.get("countersinkAngle") as number | undefined,
+        extent: (featureMap.get("extent") ?? "blind") as HoleExtent,
+        depth: featureMap.get("depth") as number | undefined,
+        extentRef: featureMap.get("extentRef") as string | undefined,
+        tipAngle: featureMap.get("tipAngle") as number | undefined,
+        reverse: featureMap.get("reverse") as boolean | undefined,
+        thread: featureMap.get("thread") as HoleThread | undefined,
+      } as HoleFeature;
+
+    case "helix":
+      return {
+        type: "helix",
+        id,
+        name,
+        suppressed,
+        axis: featureMap.get("axis") as string,
+        radius: (featureMap.get("radius") ?? 0) as number,
+        pitch: (featureMap.get("pitch") ?? 0) as number,
+        definition: (featureMap.get("definition") ?? "turns") as "turns" | "height",
+        turns: featureMap.get("turns") as number | undefined,
+        height: featureMap.get("height") as number | undefined,
+        handedness: (featureMap.get("handedness") ?? "right") as "right" | "left",
+        taperAngle: featureMap.get("taperAngle") as number | undefined,
+        startOffset: featureMap.get("startOffset") as number | undefined,
+        reverse: featureMap.get("reverse") as boolean | undefined,
+      } as HelixFeature;
+
+    case "thread":
+      return {
+        type: "thread",
+        id,
+        name,
+        suppressed,
+        helix: featureMap.get("helix") as string,
+        face: featureMap.get("face") as string,
+        depth: featureMap.get("depth") as number | undefined,
+        profileAngle: featureMap.get("profileAngle") as number | undefined,
+      } as ThreadFeature;
+
+    case "rib":
+      return {
+        type: "rib",
+        id,
+        name,
+        suppressed,
+        sketch: featureMap.get("sketch") as string,
+        entities: featureMap.get("entities") as string[] | undefined,
+        thickness: (featureMap.get("thickness") ?? 0) as number,
+        thicknessSide: (featureMap.get("thicknessSide") ?? "midplane") as RibThicknessSide,
+        flipThickness: featureMap.get("flipThickness") as boolean | undefined,
+        materialSide: featureMap.get("materialSide") as "auto" | "left" | "right" | undefined,
+        targetBody: featureMap.get("targetBody") as string | undefined,
+      } as RibFeature;
+
+    case "box":
+    case "cylinder":
+    case "sphere":
+    case "cone":
+    case "torus": {
+      const base = {
+        type,
+        id,
+        name,
+        suppressed,
+        plane: featureMap.get("plane") as SketchPlaneRef,
+        offsetX: featureMap.get("offsetX") as number | undefined,
+        offsetY: featureMap.get("offsetY") as number | undefined,
+        offsetZ: featureMap.get("offsetZ") as number | undefined,
+        rotation: featureMap.get("rotation") as number | undefined,
+        op: (featureMap.get("op") ?? "add") as "add" | "cut",
+        mergeScope: featureMap.get("mergeScope") as "auto" | "new" | "specific" | undefined,
+        targetBodies: featureMap.get("targetBodies") as string[] | undefined,
+        resultBodyName: featureMap.get("resultBodyName") as string | undefined,
+        resultBodyColor: featureMap.get("resultBodyColor") as string | undefined,
+      };
+      const size = (key: string) => (featureMap.get(key) ?? 0) as number;
+      if (type === "box") {
+        return {
+          ...base,
+          width: size("width"),
+          depth: size("depth"),
+          height: size("height"),
+        } as BoxFeature;
+      }
+      if (type === "cylinder") {
+        return { ...base, radius: size("radius"), height: size("height") } as CylinderFeature;
+      }
+      if (type === "sphere") {
+        return { ...base, radius: size("radius") } as SphereFeature;
+      }
+      if (type === "cone") {
+        return {
+          ...base,
+          radius: size("radius"),
+          topRadius: size("topRadius"),
+          height: size("height"),
+        } as ConeFeature;
+      }
+      return {
+        ...base,
+        majorRadius: size("majorRadius"),
+        minorRadius: size("minorRadius"),
+      } as TorusFeature;
+    }
+
+    case "transform":
+      return {
+        type: "transform",
+        id,
+        name,
+        suppressed,
+        bodies: (featureMap.get("bodies") ?? []) as string[],
+        mateFrom: featureMap.get("mateFrom") as string | undefined,
+        mateTo: featureMap.get("mateTo") as string | undefined,
+        mateFlip: featureMap.get("mateFlip") as boolean | undefined,
+        rotateX: featureMap.get("rotateX") as number | undefined,
+        rotateY: featureMap.get("rotateY") as number | undefined,
+        rotateZ: featureMap.get("rotateZ") as number | undefined,
+        pivotX: featureMap.get("pivotX") as number | undefined,
+        pivotY: featureMap.get("pivotY") as number | undefined,
+        pivotZ: featureMap.get("pivotZ") as number | undefined,
+        translateX: featureMap.get("translateX") as number | undefined,
+        translateY: featureMap.get("translateY") as number | undefined,
+        translateZ: featureMap.get("translateZ") as number | undefined,
+        copy: featureMap.get("copy") as boolean | undefined,
+      } as TransformFeature;
+
+    case "split":
+      return {
+        type: "split",
+        id,
+        name,
+        suppressed,
+        targetBody: featureMap.get("targetBody") as string | undefined,
+        tool: featureMap.get("tool") as SplitTool,
+        keep: featureMap.get("keep") as SplitKeep | undefined,
+      } as SplitFeature;
+
+    case "offsetFace":
+      return {
+        type: "offsetFace",
+        id,
+        name,
+        suppressed,
+        faces: (featureMap.get("faces") ?? []) as string[],
+        distance: (featureMap.get("distance") ?? 0) as number,
+      } as OffsetFaceFeature;
+
+    case "thicken":
+      return {
+        type: "thicken",
+        id,
+        name,
+        suppressed,
+        faces: (featureMap.get("faces") ?? []) as string[],
+        thickness: (featureMap.get("thickness") ?? 0) as number,
+      } as ThickenFeature;
+
+    case "baseFlange":
+      return {
+        type: "baseFlange",
+        id,
+        name,
+        suppressed,
+        sketch: featureMap.get("sketch") as string,
+        thickness: (featureMap.get("thickness") ?? 1) as number,
+        bendRadius: (featureMap.get("bendRadius") ?? 1) as number,
+        kFactor: (featureMap.get("kFactor") ?? 0.44) as number,
+        reverse: featureMap.get("reverse") as boolean | undefined,
+      } as BaseFlangeFeature;
+
+    case "edgeFlange":
+      return {
+        type: "edgeFlange",
+        id,
+        name,
+        suppressed,
+        edge: (featureMap.get("edge") ?? "") as string,
+        angle: (featureMap.get("angle") ?? 90) as number,
+        length: (featureMap.get("length") ?? 10) as number,
+        bendRadius: featureMap.get("bendRadius") as number | undefined,
+      } as EdgeFlangeFeature;
+
+    case "unfold":
+      return {
+        type: "unfold",
+        id,
+        name,
+        suppressed,
+        baseFlange: featureMap.get("baseFlange") as string,
+      } as UnfoldFeature;
+
+    case "deleteFace":
+      return {
+        type: "deleteFace",
+        id,
+        name,
+        suppressed,
+        faces: (featureMap.get("faces") ?? []) as string[],
+      } as DeleteFaceFeature;
+
+    case "replaceFace":
+      return {
+        type: "replaceFace",
+        id,
+        name,
+        suppressed,
+        faces: (featureMap.get("faces") ?? []) as string[],
+        plane: featureMap.get("plane") as MirrorPlaneRef,
+      } as ReplaceFaceFeature;
+
     case "boolean":
       return {
         type: "boolean",
@@ -696,8 +2505,32 @@ export function parseFeature(featureMap: Y.Map<unknown>): Feature | null {
         operation: (featureMap.get("operation") ?? "union") as "union" | "subtract" | "intersect",
         target: featureMap.get("target") as string,
         tool: featureMap.get("tool") as string,
+        tools: featureMap.get("tools") as string[] | undefined,
+        keepTools: featureMap.get("keepTools") as boolean | undefined,
       } as BooleanFeature;
 
+    case "deleteBody":
+      return {
+        type: "deleteBody",
+        id,
+        name,
+        suppressed,
+        bodies: (featureMap.get("bodies") as string[]) ?? [],
+      } as DeleteBodyFeature;
+
+    case "import":
+      return {
+        type: "import",
+        id,
+        name,
+        suppressed,
+        format: (featureMap.get("format") ?? "step") as ImportFormat,
+        blob: featureMap.get("blob") as string,
+        fileName: (featureMap.get("fileName") as string) ?? "",
+        fileUnits: featureMap.get("fileUnits") as ImportFeature["fileUnits"],
+        revision: featureMap.get("revision") as number | undefined,
+      } as ImportFeature;
+
     default:
       return null;
   }
@@ -744,6 +2577,11 @@ export function deleteFeature(doc: SolidTypeDoc, id: string): boolean {
   }
 
   doc.ydoc.transact(() => {
+    // Drop the file an import stored
+    if (type === "import") {
+      getBlobs(doc.root)?.delete(feature.get("blob") as string);
+    }
+
     // Remove from featuresById
     doc.featuresById.delete(id);
 
@@ -792,3 +2630,43 @@ export function setFeatureVisibility(doc: SolidTypeDoc, id: string, visible: boo
   feature.set("visible", visible);
   return true;
 }
+
+/**
+ * Get the ID of the feature that created a body from its body key
+ * (`featureId`, `featureId:index` or `featureId:suffix`)
+ */
+export function getBodySourceFeatureId(bodyKey: string): string {
+  return bodyKey.split(":")[0];
+}
+
+/**
+ * Update the display overrides of a body. Fields set to undefined are cleared.
+ * Overrides live on the feature that created the body.
+ */
+export function setBodyAppearance(
+  doc: SolidTypeDoc,
+  bodyKey: string,
+  appearance: Partial<BodyAppearance>
+): boolean {
+  const feature = doc.featuresById.get(getBodySourceFeatureId(bodyKey));
+  if (!feature) return false;
+
+  const all = { ...((feature.get("bodyAppearance") as Record<string, BodyAppearance>) ?? {}) };
+  const merged: Record<string, unknown> = { ...all[bodyKey], ...appearance };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+
+  if (Object.keys(merged).length > 0) {
+    all[bodyKey] = merged as BodyAppearance;
+  } else {
+    delete all[bodyKey];
+  }
+
+  if (Object.keys(all).length > 0) {
+    feature.set("bodyAppearance", all);
+  } else {
+    feature.delete("bodyAppearance");
+  }
+  return true;
+}
@@ -268,6 +268,29 @@ export const SketchDataSchema = z
 
 export type SketchData = z.infer<typeof SketchDataSchema>;
 
+// ============================================================================
+// Body Appearance
+// ============================================================================
+
+export const BodyMaterialSchema = z.enum(["default", "matte", "glossy", "metal", "glass"]);
+
+export type BodyMaterial = z.infer<typeof BodyMaterialSchema>;
+
+/**
+ * Display overrides for one body, set from the bodies panel. Stored on the
+ * feature that created the body, keyed by the body's key in the rebuild.
+ */
+export const BodyAppearanceSchema = z
+  .object({
+    name: z.string().optional(),
+    color: z.string().optional(),
+    visible: z.boolean().optional(),
+    material: BodyMaterialSchema.optional(),
+  })
+  .strict();
+
+export type BodyAppearance = z.infer<typeof BodyAppearanceSchema>;
+
 // ============================================================================
 // Feature Base
 // ============================================================================
@@ -279,6 +302,8 @@ export const FeatureBaseSchema = z
     name: z.string().optional(),
     suppressed: z.boolean().optional(),
     visible: z.boolean().optional(),
+    /** Body appearance overrides keyed by body key */
+    bodyAppearance: z.record(z.string(), BodyAppearanceSchema).optional(),
   })
   .strict();
 
@@ -532,6 +557,7 @@ export const AxisFeatureSchema = FeatureBaseSchema.extend({
   direction: Vec3,
   /** Display properties */
   length: z.number().optional(),
+  displayOffset: z.number().optional(),
   color: z.string().optional(),
 }).strict();
 
@@ -553,11 +579,17 @@ export type SketchFeature = z.infer<typeof SketchFeatureSchema>;
 // Extrude Feature
 // ============================================================================
 
-export const ExtrudeExtentSchema = z.enum(["blind", "toFace", "toVertex", "throughAll"]);
+export const ExtrudeExtentSchema = z.enum([
+  "blind",
+  "toFace",
+  "toVertex",
+  "upToBody",
+  "throughAll",
+]);
 
 export type ExtrudeExtent = z.infer<typeof ExtrudeExtentSchema>;
 
-export const ExtrudeDirectionSchema = z.union([z.enum(["normal", "reverse"]), Vec3]);
+export const ExtrudeDirectionSchema = z.union([z.enum(["normal", "reverse", "symmetric"]), Vec3]);
 
 export type ExtrudeDirection = z.infer<typeof ExtrudeDirectionSchema>;
 
@@ -573,6 +605,18 @@ export const ExtrudeFeatureSchema = FeatureBaseSchema.extend({
   extent: ExtrudeExtentSchema,
   distance: z.number().optional(),
   extentRef: z.string().optional(),
+  extentBody: z.string().optional(),
+  extentOffset: z.number().optional(),
+  startOffset: z.number().optional(),
+  draftAngle: z.number().optional(),
+  // Second side, extruded opposite the direction
+  twoSided: z.boolean().optional(),
+  extent2: ExtrudeExtentSchema.optional(),
+  distance2: z.number().optional(),
+  extentRef2: z.string().optional(),
+  extentBody2: z.string().optional(),
+  extentOffset2: z.number().optional(),
+  draftAngle2: z.number().optional(),
   // Multi-body merge options
   mergeScope: MergeScopeSchema.optional(),
   targetBodies: z.array(z.string()).optional(),
@@ -586,12 +630,26 @@ export type ExtrudeFeature = z.infer<typeof ExtrudeFeatureSchema>;
 // Revolve Feature
 // ============================================================================
 
+/** Which side of an open profile a thin wall grows on */
+export const ThinWallSideSchema = z.enum(["normal", "reverse", "symmetric"]);
+
+export type ThinWallSide = z.infer<typeof ThinWallSideSchema>;
+
 export const RevolveFeatureSchema = FeatureBaseSchema.extend({
   type: z.literal("revolve"),
   sketch: UUID,
   axis: UUID, // sketch entity id
   angle: z.number(),
   op: z.enum(["add", "cut"]),
+  /** Split `angle` evenly either side of the sketch plane */
+  symmetric: z.boolean().optional(),
+  // Second direction, revolved the other way from the sketch plane
+  twoSided: z.boolean().optional(),
+  angle2: z.number().optional(),
+  // Thin feature: revolve the open profile with a wall thickness
+  thin: z.boolean().optional(),
+  thickness: z.number().optional(),
+  thinSide: ThinWallSideSchema.optional(),
   // Multi-body merge options
   mergeScope: MergeScopeSchema.optional(),
   targetBodies: z.array(z.string()).optional(),
@@ -601,6 +659,622 @@ export const RevolveFeatureSchema = FeatureBaseSchema.extend({
 
 export type RevolveFeature = z.infer<typeof RevolveFeatureSchema>;
 
+// ============================================================================
+// Sweep Feature
+// ============================================================================
+
+export const SweepFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("sweep"),
+  /** Sketch whose closed profile is swept */
+  profileSketch: UUID,
+  /** Sketch containing the path curves */
+  pathSketch: UUID,
+  /** Path entity ids (omit to use every entity in the path sketch) */
+  pathEntities: z.array(UUID).optional(),
+  op: z.enum(["add", "cut"]),
+  // Multi-body merge options
+  mergeScope: MergeScopeSchema.optional(),
+  targetBodies: z.array(z.string()).optional(),
+  resultBodyName: z.string().optional(),
+  resultBodyColor: z.string().optional(),
+}).strict();
+
+export type SweepFeature = z.infer<typeof SweepFeatureSchema>;
+
+// ============================================================================
+// Loft Feature
+// ============================================================================
+
+export const LoftTangencySchema = z.enum(["none", "normal"]);
+
+export type LoftTangency = z.infer<typeof LoftTangencySchema>;
+
+export const LoftFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("loft"),
+  /** Profile sketches in loft order */
+  sketches: z.array(UUID).min(2),
+  /** Straight faces between consecutive profiles instead of a smooth blend */
+  ruled: z.boolean().optional(),
+  /** Tangency at the first/last profile (smooth lofts only) */
+  startTangency: LoftTangencySchema.optional(),
+  endTangency: LoftTangencySchema.optional(),
+  op: z.enum(["add", "cut"]),
+  // Multi-body merge options
+  mergeScope: MergeScopeSchema.optional(),
+  targetBodies: z.array(z.string()).optional(),
+  resultBodyName: z.string().optional(),
+  resultBodyColor: z.string().optional(),
+}).strict();
+
+export type LoftFeature = z.infer<typeof LoftFeatureSchema>;
+
+// ============================================================================
+// Shell Feature
+// ============================================================================
+
+export const ShellDirectionSchema = z.enum(["inside", "outside"]);
+
+export type ShellDirection = z.infer<typeof ShellDirectionSchema>;
+
+export const ShellFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("shell"),
+  /** Body to hollow (omit to use the body owning the open faces, or the only body) */
+  targetBody: z.string().optional(),
+  /** Wall thickness */
+  thickness: z.number().positive(),
+  /** Grow the wall into the body (default) or around it */
+  direction: ShellDirectionSchema.optional(),
+  /** Faces to remove, as PersistentRef strings (stref:v1:...) */
+  openFaces: z.array(z.string()),
+}).strict();
+
+export type ShellFeature = z.infer<typeof ShellFeatureSchema>;
+
+// ============================================================================
+// Fillet Feature
+// ============================================================================
+
+export const FilletEdgeSetSchema = z
+  .object({
+    /** Edges to round, as PersistentRef strings (stref:v1:...) */
+    edges: z.array(z.string()).min(1),
+    radius: z.number().positive(),
+  })
+  .strict();
+
+export type FilletEdgeSet = z.infer<typeof FilletEdgeSetSchema>;
+
+export const FilletFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("fillet"),
+  /** Edge sets, each with its own radius */
+  edgeSets: z.array(FilletEdgeSetSchema).min(1),
+}).strict();
+
+export type FilletFeature = z.infer<typeof FilletFeatureSchema>;
+
+// ============================================================================
+// Chamfer Feature
+// ============================================================================
+
+export const ChamferEdgeSetSchema = z
+  .object({
+    /** Edges to bevel, as PersistentRef strings (stref:v1:...) */
+    edges: z.array(z.string()).min(1),
+    /** Setback along the first face */
+    distance: z.number().positive(),
+    /** Setback along the second face (distance-distance chamfer) */
+    distance2: z.number().positive().optional(),
+    /** Angle from the first face in degrees (distance-angle chamfer) */
+    angle: z.number().gt(0).lt(90).optional(),
+  })
+  .strict();
+
+export type ChamferEdgeSet = z.infer<typeof ChamferEdgeSetSchema>;
+
+export const ChamferFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("chamfer"),
+  /** Edge sets, each with its own setback */
+  edgeSets: z.array(ChamferEdgeSetSchema).min(1),
+}).strict();
+
+export type ChamferFeature = z.infer<typeof ChamferFeatureSchema>;
+
+// ============================================================================
+// Pattern Features
+// ============================================================================
+
+/** A direction vector, or the id of an AxisFeature to follow */
+export const PatternDirectionSchema = z.union([Vec3, UUID]);
+
+export type PatternDirection = z.infer<typeof PatternDirectionSchema>;
+
+/** The id of an AxisFeature, or an explicit axis line */
+export const PatternAxisSchema = z.union([
+  UUID,
+  z.object({ origin: Vec3, direction: Vec3 }).strict(),
+]);
+
+export type PatternAxis = z.infer<typeof PatternAxisSchema>;
+
+/** What a pattern replicates, and which instances it leaves out */
+const PatternSourceFields = {
+  /** Earlier extrude/revolve/sweep/loft features to replicate */
+  sourceFeatures: z.array(UUID).optional(),
+  /** Whole bodies to replicate (body feature IDs) */
+  sourceBodies: z.array(z.string()).optional(),
+  /** Instance numbers to leave out (instance 0 is the original) */
+  skip: z.array(z.number().int().positive()).optional(),
+} as const;
+
+export const LinearPatternFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("linearPattern"),
+  ...PatternSourceFields,
+  direction: PatternDirectionSchema,
+  /** Instances along the direction, including the original */
+  count: z.number().int().min(1),
+  /** Distance between neighbouring instances (or give extent) */
+  spacing: z.number().positive().optional(),
+  /** Distance from the first to the last instance (or give spacing) */
+  extent: z.number().positive().optional(),
+  /** Optional second direction; instance n sits at (n % count, floor(n / count)) */
+  direction2: PatternDirectionSchema.optional(),
+  count2: z.number().int().min(1).optional(),
+  spacing2: z.number().positive().optional(),
+  extent2: z.number().positive().optional(),
+}).strict();
+
+export type LinearPatternFeature = z.infer<typeof LinearPatternFeatureSchema>;
+
+export const CircularPatternFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("circularPattern"),
+  ...PatternSourceFields,
+  axis: PatternAxisSchema,
+  /** Instances around the axis, including the original */
+  count: z.number().int().min(1),
+  /** Angle between neighbouring instances in degrees (or give totalAngle) */
+  angle: z.number().optional(),
+  /** Angle from the first to the last instance; 360 spaces instances evenly (default) */
+  totalAngle: z.number().optional(),
+}).strict();
+
+export type CircularPatternFeature = z.infer<typeof CircularPatternFeatureSchema>;
+
+// ============================================================================
+// Mirror Feature
+// ============================================================================
+
+/** A plane feature, or a planar face PersistentRef (stref:v1:...) */
+export const MirrorPlaneRefSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("planeFeatureId"), ref: UUID }).strict(),
+  z.object({ kind: z.literal("faceRef"), ref: z.string() }).strict(),
+]);
+
+export type MirrorPlaneRef = z.infer<typeof MirrorPlaneRefSchema>;
+
+export const MirrorFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("mirror"),
+  /** Earlier extrude/revolve/sweep/loft features to mirror */
+  sourceFeatures: z.array(UUID).optional(),
+  /** Whole bodies to mirror (body feature IDs) */
+  sourceBodies: z.array(z.string()).optional(),
+  plane: MirrorPlaneRefSchema,
+  /** Fuse the mirrored copy with the original (default true); otherwise it is a new body */
+  merge: z.boolean().optional(),
+}).strict();
+
+export type MirrorFeature = z.infer<typeof MirrorFeatureSchema>;
+
+// ============================================================================
+// Draft Feature
+// ============================================================================
+
+export const DraftFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("draft"),
+  /** Faces to taper, as PersistentRef strings (stref:v1:...) */
+  faces: z.array(z.string()).min(1),
+  /** Draft angle in degrees; positive angles narrow the part along the pull direction */
+  angle: z.number(),
+  /** Direction the part is pulled out of the mould */
+  pullDirection: Vec3,
+  /** Plane where the faces keep their size (default: through the origin, normal to the pull) */
+  neutralPlane: MirrorPlaneRefSchema.optional(),
+}).strict();
+
+export type DraftFeature = z.infer<typeof DraftFeatureSchema>;
+
+// ============================================================================
+// Hole Feature
+// ============================================================================
+
+export const HoleTypeSchema = z.enum(["simple", "counterbore", "countersink"]);
+
+export type HoleType = z.infer<typeof HoleTypeSchema>;
+
+export const HoleExtentSchema = z.enum(["blind", "throughAll", "toFace"]);
+
+export type HoleExtent = z.infer<typeof HoleExtentSchema>;
+
+/** Thread callout carried by a hole; the hole itself is cut at its drill diameter */
+export const HoleThreadSchema = z
+  .object({
+    /** Designation, e.g. "M6" or "1/4-20 UNC" */
+    size: z.string().min(1),
+    pitch: z.number().positive(),
+    /** Tolerance class, e.g. "6H" or "2B" */
+    class: z.string().optional(),
+    /** Threaded length (default: the full hole depth) */
+    length: z.number().positive().optional(),
+  })
+  .strict();
+
+export type HoleThread = z.infer<typeof HoleThreadSchema>;
+
+export const HoleFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("hole"),
+  /** Sketch on the face the holes start from */
+  sketch: UUID,
+  /** Sketch points at the hole centres */
+  points: z.array(UUID).min(1),
+  holeType: HoleTypeSchema,
+  diameter: z.number().positive(),
+  counterboreDiameter: z.number().positive().optional(),
+  counterboreDepth: z.number().positive().optional(),
+  countersinkDiameter: z.number().positive().optional(),
+  /** Included countersink angle in degrees (default 90) */
+  countersinkAngle: z.number().positive().optional(),
+  extent: HoleExtentSchema,
+  depth: z.number().positive().optional(),
+  /** Planar face the holes stop at, for toFace */
+  extentRef: z.string().optional(),
+  /** Included drill point angle in degrees (omit for a flat bottom) */
+  tipAngle: z.number().positive().optional(),
+  /** Drill along the sketch normal instead of against it */
+  reverse: z.boolean().optional(),
+  thread: HoleThreadSchema.optional(),
+}).strict();
+
+export type HoleFeature = z.infer<typeof HoleFeatureSchema>;
+
+// ============================================================================
+// Helix Feature
+// ============================================================================
+
+export const HelixFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("helix"),
+  /** Axis feature the helix winds about */
+  axis: UUID,
+  radius: z.number().positive(),
+  /** Rise per turn along the axis */
+  pitch: z.number().positive(),
+  /** Whether the length is given as a number of turns or a height */
+  definition: z.enum(["turns", "height"]),
+  turns: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  handedness: z.enum(["right", "left"]),
+  /** Taper angle in degrees; positive widens along the axis */
+  taperAngle: z.number().optional(),
+  /** Distance along the axis from the axis origin to the start of the helix */
+  startOffset: z.number().optional(),
+  /** Rise against the axis direction */
+  reverse: z.boolean().optional(),
+}).strict();
+
+export type HelixFeature = z.infer<typeof HelixFeatureSchema>;
+
+// ============================================================================
+// Thread Feature
+// ============================================================================
+
+export const ThreadFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("thread"),
+  /** Helix feature the thread follows */
+  helix: UUID,
+  /** Cylindrical face to thread, as a PersistentRef string (stref:v1:...) */
+  face: z.string(),
+  /** Radial depth (default: the ISO basic depth for the pitch) */
+  depth: z.number().positive().optional(),
+  /** Included flank angle in degrees (default 60) */
+  profileAngle: z.number().positive().optional(),
+}).strict();
+
+export type ThreadFeature = z.infer<typeof ThreadFeatureSchema>;
+
+// ============================================================================
+// Rib Feature
+// ============================================================================
+
+/**
+ * Where a rib's thickness lies across its sketch plane: all on one side,
+ * the full thickness on each side, or split evenly across it.
+ */
+export const RibThicknessSideSchema = z.enum(["oneSide", "bothSides", "midplane"]);
+
+export type RibThicknessSide = z.infer<typeof RibThicknessSideSchema>;
+
+export const RibFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("rib"),
+  /** Sketch holding the open profile */
+  sketch: UUID,
+  /** Line/arc entities forming an open chain (default: every line and arc in the sketch) */
+  entities: z.array(UUID).optional(),
+  thickness: z.number().positive(),
+  thicknessSide: RibThicknessSideSchema,
+  /** Put a one-sided rib against the sketch normal instead of along it */
+  flipThickness: z.boolean().optional(),
+  /** Side of the profile the rib fills; auto (the default) picks the side the body closes off */
+  materialSide: z.enum(["auto", "left", "right"]).optional(),
+  /** Body the rib joins (default: the only body) */
+  targetBody: z.string().optional(),
+}).strict();
+
+export type RibFeature = z.infer<typeof RibFeatureSchema>;
+
+// ============================================================================
+// Primitive Features
+// ============================================================================
+
+/**
+ * Placement and body handling shared by the primitive features. A primitive
+ * sits on its plane at (`offsetX`, `offsetY`), raised `offsetZ` along the
+ * normal and turned `rotation` degrees about it. Boxes, cylinders and cones
+ * stand on the plane and rise along its normal; spheres and tori are centred
+ * on the placement point with their axis along the normal.
+ */
+const PrimitiveBaseSchema = FeatureBaseSchema.extend({
+  plane: SketchPlaneRefSchema,
+  offsetX: z.number().optional(),
+  offsetY: z.number().optional(),
+  offsetZ: z.number().optional(),
+  rotation: z.number().optional(),
+  op: z.enum(["add", "cut"]),
+  // Multi-body merge options
+  mergeScope: MergeScopeSchema.optional(),
+  targetBodies: z.array(z.string()).optional(),
+  resultBodyName: z.string().optional(),
+  resultBodyColor: z.string().optional(),
+});
+
+export const BoxFeatureSchema = PrimitiveBaseSchema.extend({
+  type: z.literal("box"),
+  /** Size along the plane's x direction */
+  width: z.number().positive(),
+  /** Size along the plane's y direction */
+  depth: z.number().positive(),
+  height: z.number().positive(),
+}).strict();
+
+export type BoxFeature = z.infer<typeof BoxFeatureSchema>;
+
+export const CylinderFeatureSchema = PrimitiveBaseSchema.extend({
+  type: z.literal("cylinder"),
+  radius: z.number().positive(),
+  height: z.number().positive(),
+}).strict();
+
+export type CylinderFeature = z.infer<typeof CylinderFeatureSchema>;
+
+export const SphereFeatureSchema = PrimitiveBaseSchema.extend({
+  type: z.literal("sphere"),
+  radius: z.number().positive(),
+}).strict();
+
+export type SphereFeature = z.infer<typeof SphereFeatureSchema>;
+
+export const ConeFeatureSchema = PrimitiveBaseSchema.extend({
+  type: z.literal("cone"),
+  /** Radius at the base, on the plane */
+  radius: z.number().nonnegative(),
+  /** Radius at the top (0 for a point) */
+  topRadius: z.number().nonnegative(),
+  height: z.number().positive(),
+}).strict();
+
+export type ConeFeature = z.infer<typeof ConeFeatureSchema>;
+
+export const TorusFeatureSchema = PrimitiveBaseSchema.extend({
+  type: z.literal("torus"),
+  /** Radius of the ring's centre line */
+  majorRadius: z.number().positive(),
+  /** Radius of the ring's cross-section */
+  minorRadius: z.number().positive(),
+}).strict();
+
+export type TorusFeature = z.infer<typeof TorusFeatureSchema>;
+
+export type PrimitiveFeature =
+  | BoxFeature
+  | CylinderFeature
+  | SphereFeature
+  | ConeFeature
+  | TorusFeature;
+
+// ============================================================================
+// Transform Feature
+// ============================================================================
+
+/**
+ * Moves whole bodies: first mating `mateFrom` onto `mateTo` (when given), then
+ * rotating about the pivot (about x, then y, then z), then translating.
+ */
+export const TransformFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("transform"),
+  /** Bodies to move (body feature IDs) */
+  bodies: z.array(z.string()).min(1),
+  /** Vertex or planar face of a moved body, as a PersistentRef (stref:v1:...) */
+  mateFrom: z.string().optional(),
+  /** Vertex or planar face that `mateFrom` is moved onto */
+  mateTo: z.string().optional(),
+  /** Face mates: point the faces the same way rather than face to face */
+  mateFlip: z.boolean().optional(),
+  /** Rotation angles in degrees */
+  rotateX: z.number().optional(),
+  rotateY: z.number().optional(),
+  rotateZ: z.number().optional(),
+  /** Point the rotation is about (default: the origin) */
+  pivotX: z.number().optional(),
+  pivotY: z.number().optional(),
+  pivotZ: z.number().optional(),
+  /** Translation, applied after the rotation */
+  translateX: z.number().optional(),
+  translateY: z.number().optional(),
+  translateZ: z.number().optional(),
+  /** Keep the original bodies and move copies of them, each a new body */
+  copy: z.boolean().optional(),
+}).strict();
+
+export type TransformFeature = z.infer<typeof TransformFeatureSchema>;
+
+// ============================================================================
+// Split Feature
+// ============================================================================
+
+/**
+ * What a split cuts with: a plane feature, a planar face PersistentRef
+ * (stref:v1:...), or the lines and arcs of a sketch, swept through the body
+ * along the sketch normal (an open chain is extended from both ends).
+ */
+export const SplitToolSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("planeFeatureId"), ref: UUID }).strict(),
+  z.object({ kind: z.literal("faceRef"), ref: z.string() }).strict(),
+  z.object({ kind: z.literal("sketch"), ref: UUID }).strict(),
+]);
+
+export type SplitTool = z.infer<typeof SplitToolSchema>;
+
+/**
+ * Which pieces a split keeps. The front is the side a plane's normal points
+ * to, the left of an open sketch chain or the inside of a closed one.
+ */
+export const SplitKeepSchema = z.enum(["both", "front", "back"]);
+
+export type SplitKeep = z.infer<typeof SplitKeepSchema>;
+
+export const SplitFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("split"),
+  /** Body to split (default: the only body) */
+  targetBody: z.string().optional(),
+  tool: SplitToolSchema,
+  /** Pieces to keep as bodies (default: both) */
+  keep: SplitKeepSchema.optional(),
+}).strict();
+
+export type SplitFeature = z.infer<typeof SplitFeatureSchema>;
+
+// ============================================================================
+// Offset Face / Thicken Features
+// ============================================================================
+
+/**
+ * Moves faces of a body along their normals, adding or cutting away the
+ * material between each face and its new position. A direct edit that needs
+ * no history in the body, so it also works on imported bodies.
+ */
+export const OffsetFaceFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("offsetFace"),
+  /** Faces to move, as PersistentRef strings (stref:v1:...) */
+  faces: z.array(z.string()).min(1),
+  /** Distance along each face's outward normal; negative moves it into the body */
+  distance: z.number(),
+}).strict();
+
+export type OffsetFaceFeature = z.infer<typeof OffsetFaceFeatureSchema>;
+
+/**
+ * Grows faces of a body into a new solid body of the given thickness.
+ */
+export const ThickenFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("thicken"),
+  /** Faces to thicken, all on one body, as PersistentRef strings (stref:v1:...) */
+  faces: z.array(z.string()).min(1),
+  /** Thickness along each face's outward normal; negative grows into the body */
+  thickness: z.number(),
+}).strict();
+
+export type ThickenFeature = z.infer<typeof ThickenFeatureSchema>;
+
+// ============================================================================
+// Sheet Metal Features
+// ============================================================================
+
+/**
+ * Starts a sheet metal part: a closed sketch profile given the sheet
+ * thickness, along the sketch normal. The bend radius and K-factor are the
+ * defaults for every bend of the part.
+ */
+export const BaseFlangeFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("baseFlange"),
+  sketch: UUID,
+  thickness: z.number().positive(),
+  /** Default inside bend radius */
+  bendRadius: z.number().positive(),
+  /** Neutral axis position as a fraction of the thickness from the inside of a bend */
+  kFactor: z.number().min(0).max(1),
+  /** Thicken against the sketch normal instead of along it */
+  reverse: z.boolean().optional(),
+}).strict();
+
+export type BaseFlangeFeature = z.infer<typeof BaseFlangeFeatureSchema>;
+
+/**
+ * Bends a wall up from a straight outline edge of a base flange, out of the
+ * face the edge is on.
+ */
+export const EdgeFlangeFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("edgeFlange"),
+  /** Outline edge on the top or bottom face of the sheet, as a PersistentRef (stref:v1:...) */
+  edge: z.string(),
+  /** Bend angle in degrees from flat, between 0 and 180 */
+  angle: z.number(),
+  /** Length of the wall beyond the bend */
+  length: z.number().positive(),
+  /** Inside bend radius (default: the base flange's) */
+  bendRadius: z.number().positive().optional(),
+}).strict();
+
+export type EdgeFlangeFeature = z.infer<typeof EdgeFlangeFeatureSchema>;
+
+/**
+ * Flattens a sheet metal part into its flat pattern, replacing the folded
+ * body. The pattern's outline and bend lines can be exported as DXF or SVG.
+ */
+export const UnfoldFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("unfold"),
+  /** The base flange feature of the part */
+  baseFlange: UUID,
+}).strict();
+
+export type UnfoldFeature = z.infer<typeof UnfoldFeatureSchema>;
+
+// ============================================================================
+// Delete Face / Replace Face Features
+// ============================================================================
+
+/**
+ * Removes faces from a body and extends the faces around them to close the
+ * gap, e.g. to take a fillet or hole off an imported body.
+ */
+export const DeleteFaceFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("deleteFace"),
+  /** Faces to remove, as PersistentRef strings (stref:v1:...) */
+  faces: z.array(z.string()).min(1),
+}).strict();
+
+export type DeleteFaceFeature = z.infer<typeof DeleteFaceFeatureSchema>;
+
+/**
+ * Replaces planar faces of a body with a plane, extending or trimming the
+ * walls around them to meet it.
+ */
+export const ReplaceFaceFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("replaceFace"),
+  /** Planar faces to replace, as PersistentRef strings (stref:v1:...) */
+  faces: z.array(z.string()).min(1),
+  /** Plane the faces are moved onto */
+  plane: MirrorPlaneRefSchema,
+}).strict();
+
+export type ReplaceFaceFeature = z.infer<typeof ReplaceFaceFeatureSchema>;
+
 // ============================================================================
 // Boolean Feature
 // ============================================================================
@@ -614,10 +1288,56 @@ export const BooleanFeatureSchema = FeatureBaseSchema.extend({
   operation: BooleanOperationSchema,
   target: z.string(),
   tool: z.string(),
+  /** Further tool bodies, combined with the target after `tool` */
+  tools: z.array(z.string()).optional(),
+  /** Keep the tool bodies instead of consuming them */
+  keepTools: z.boolean().optional(),
 }).strict();
 
 export type BooleanFeature = z.infer<typeof BooleanFeatureSchema>;
 
+// ============================================================================
+// Delete Body Feature
+// ============================================================================
+
+/**
+ * Removes whole bodies from the part.
+ */
+export const DeleteBodyFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("deleteBody"),
+  /** Keys of the bodies to remove (see RebuildResult bodies) */
+  bodies: z.array(z.string()).min(1),
+}).strict();
+
+export type DeleteBodyFeature = z.infer<typeof DeleteBodyFeatureSchema>;
+
+// ============================================================================
+// Import Feature
+// ============================================================================
+
+export const ImportFormatSchema = z.enum(["step", "iges", "brep"]);
+
+export type ImportFormat = z.infer<typeof ImportFormatSchema>;
+
+/**
+ * A body read from a STEP, IGES or BREP file whose bytes are kept in the
+ * document's blob store, so the import rebuilds like any other feature.
+ */
+export const ImportFeatureSchema = FeatureBaseSchema.extend({
+  type: z.literal("import"),
+  format: ImportFormatSchema,
+  /** Id of the file's bytes in `root.blobs` */
+  blob: z.string(),
+  /** Name of the imported file */
+  fileName: z.string(),
+  /** Units a BREP file is modelled in (default mm); STEP and IGES files carry their own */
+  fileUnits: Units.optional(),
+  /** Number of times the file has been replaced */
+  revision: z.number().int().min(0).optional(),
+}).strict();
+
+export type ImportFeature = z.infer<typeof ImportFeatureSchema>;
+
 // ============================================================================
 // Feature Union
 // ============================================================================
@@ -629,7 +1349,36 @@ export const FeatureSchema = z.union([
   SketchFeatureSchema,
   ExtrudeFeatureSchema,
   RevolveFeatureSchema,
+  SweepFeatureSchema,
+  LoftFeatureSchema,
+  ShellFeatureSchema,
+  FilletFeatureSchema,
+  ChamferFeatureSchema,
+  LinearPatternFeatureSchema,
+  CircularPatternFeatureSchema,
+  MirrorFeatureSchema,
+  DraftFeatureSchema,
+  HoleFeatureSchema,
+  HelixFeatureSchema,
+  ThreadFeatureSchema,
+  RibFeatureSchema,
+  BoxFeatureSchema,
+  CylinderFeatureSchema,
+  SphereFeatureSchema,
+  ConeFeatureSchema,
+  TorusFeatureSchema,
+  TransformFeatureSchema,
+  SplitFeatureSchema,
+  OffsetFaceFeatureSchema,
+  ThickenFeatureSchema,
+  BaseFlangeFeatureSchema,
+  EdgeFlangeFeatureSchema,
+  UnfoldFeatureSchema,
+  DeleteFaceFeatureSchema,
+  ReplaceFaceFeatureSchema,
   BooleanFeatureSchema,
+  DeleteBodyFeatureSchema,
+  ImportFeatureSchema,
 ]);
 
 export type Feature = z.infer<typeof FeatureSchema>;
@@ -644,6 +1393,8 @@ export const DocSnapshotSchema = z
     state: DocumentStateSchema,
     featuresById: z.record(UUID, FeatureSchema),
     featureOrder: z.array(UUID),
+    /** Binary files referenced by features, keyed by blob id */
+    blobs: z.record(z.string(), z.instanceof(Uint8Array)).optional(),
   })
   .strict();
 
@@ -68,6 +68,60 @@ export function validateInvariants(snapshot: DocSnapshot): ValidationResult {
   // 6.8 Sketch internal integrity
   validateSketchIntegrity(snapshot, errors);
 
+  // 6.9 Sweep invariants
+  validateSweepInvariants(snapshot, errors);
+
+  // 6.10 Loft invariants
+  validateLoftInvariants(snapshot, errors);
+
+  // 6.11 Shell invariants
+  validateShellInvariants(snapshot, errors);
+
+  // 6.12 Fillet / chamfer invariants
+  validateEdgeSetInvariants(snapshot, errors);
+
+  // 6.13 Pattern invariants
+  validatePatternInvariants(snapshot, errors);
+
+  // 6.14 Mirror invariants
+  validateMirrorInvariants(snapshot, errors);
+
+  // 6.15 Draft invariants
+  validateDraftInvariants(snapshot, errors);
+
+  // 6.16 Hole invariants
+  validateHoleInvariants(snapshot, errors);
+
+  // 6.17 Helix and thread invariants
+  validateHelixInvariants(snapshot, errors);
+
+  // 6.18 Rib invariants
+  validateRibInvariants(snapshot, errors);
+
+  // 6.19 Primitive invariants
+  validatePrimitiveInvariants(snapshot, errors);
+
+  // 6.20 Transform invariants
+  validateTransformInvariants(snapshot, errors);
+
+  // 6.21 Split invariants
+  validateSplitInvariants(snapshot, errors);
+
+  // 6.22 Offset face and thicken invariants
+  validateFaceOffsetInvariants(snapshot, errors);
+
+  // 6.23 Sheet metal invariants
+  validateSheetMetalInvariants(snapshot, errors);
+
+  // 6.24 Delete face and replace face invariants
+  validateFaceEditInvariants(snapshot, errors);
+
+  // 6.25 Body invariants
+  validateBodyInvariants(snapshot, errors);
+
+  // 6.26 Import invariants
+  validateImportInvariants(snapshot, errors);
+
   return {
     ok: errors.length === 0,
     errors,
@@ -253,14 +307,61 @@ function validateExtrudeInvariants(snapshot: DocSnapshot, errors: string[]): voi
         );
       }
 
-      // Extent-specific requirements
-      if (feature.extent === "blind") {
-        if (feature.distance === undefined) {
-          errors.push(`Extrude ${id}: blind extent requires distance`);
+      // Extent-specific requirements, for each side
+      const sides = [
+        {
+          suffix: "",
+          extent: feature.extent,
+          distance: feature.distance,
+          extentRef: feature.extentRef,
+          extentBody: feature.extentBody,
+          draftAngle: feature.draftAngle,
+        },
+      ];
+      if (feature.twoSided) {
+        sides.push({
+          suffix: "2",
+          extent: feature.extent2 ?? "blind",
+          distance: feature.distance2,
+          extentRef: feature.extentRef2,
+          extentBody: feature.extentBody2,
+          draftAngle: feature.draftAngle2,
+        });
+      }
+      for (const side of sides) {
+        const extent = `extent${side.suffix}`;
+        if (side.extent === "blind") {
+          if (side.distance === undefined) {
+            errors.push(`Extrude ${id}: blind ${extent} requires distance${side.suffix}`);
+          }
+        } else if (side.extent === "toFace" || side.extent === "toVertex") {
+          if (!side.extentRef) {
+            errors.push(`Extrude ${id}: ${side.extent} ${extent} requires extentRef${side.suffix}`);
+          }
+        } else if (side.extent === "upToBody") {
+          if (!side.extentBody) {
+            errors.push(`Extrude ${id}: upToBody ${extent} requires extentBody${side.suffix}`);
+          } else if (!snapshot.featuresById[side.extentBody]) {
+            errors.push(
+              `Extrude ${id}: extentBody${side.suffix} '${side.extentBody}' doesn't exist`
+            );
+          }
+        }
+
+        if (side.draftAngle !== undefined && Math.abs(side.draftAngle) >= 90) {
+          errors.push(`Extrude ${id}: draftAngle${side.suffix} must be between -90 and 90`);
         }
-      } else if (feature.extent === "toFace" || feature.extent === "toVertex") {
-        if (!feature.extentRef) {
-          errors.push(`Extrude ${id}: ${feature.extent} extent requires extentRef`);
+        if (side.draftAngle && (side.extent === "toFace" || side.extent === "upToBody")) {
+          errors.push(`Extrude ${id}: draft is not supported for ${side.extent} ${extent}`);
+        }
+      }
+
+      if (feature.direction === "symmetric") {
+        if (feature.twoSided) {
+          errors.push(`Extrude ${id}: symmetric extrude can't be two-sided`);
+        }
+        if (feature.extent !== "blind" && feature.extent !== "throughAll") {
+          errors.push(`Extrude ${id}: symmetric extrude requires a blind or throughAll extent`);
         }
       }
     }
@@ -290,6 +391,16 @@ function validateRevolveInvariants(snapshot: DocSnapshot, errors: string[]): voi
           );
         }
       }
+
+      if (feature.symmetric && feature.twoSided) {
+        errors.push(`Revolve ${id}: can't be both symmetric and two-sided`);
+      }
+      if (feature.twoSided && feature.angle + (feature.angle2 ?? 0) > 360) {
+        errors.push(`Revolve ${id}: angle and angle2 add up to more than 360 degrees`);
+      }
+      if (feature.thin && feature.thickness !== undefined && feature.thickness <= 0) {
+        errors.push(`Revolve ${id}: thin wall thickness must be positive`);
+      }
     }
   }
 }
@@ -394,6 +505,567 @@ function validateSketchIntegrity(snapshot: DocSnapshot, errors: string[]): void
   }
 }
 
+/**
+ * 6.9 Sweep invariants
+ */
+function validateSweepInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "sweep") {
+      // profile sketch exists and is type sketch
+      const profileFeature = snapshot.featuresById[feature.profileSketch];
+      if (!profileFeature) {
+        errors.push(
+          `Sweep ${id}: profileSketch '${feature.profileSketch}' doesn't exist in featuresById`
+        );
+      } else if (profileFeature.type !== "sketch") {
+        errors.push(
+          `Sweep ${id}: profileSketch '${feature.profileSketch}' is not a sketch feature (is ${profileFeature.type})`
+        );
+      }
+
+      // path sketch exists and is type sketch
+      const pathFeature = snapshot.featuresById[feature.pathSketch];
+      if (!pathFeature) {
+        errors.push(
+          `Sweep ${id}: pathSketch '${feature.pathSketch}' doesn't exist in featuresById`
+        );
+      } else if (pathFeature.type !== "sketch") {
+        errors.push(
+          `Sweep ${id}: pathSketch '${feature.pathSketch}' is not a sketch feature (is ${pathFeature.type})`
+        );
+      } else {
+        // path entities exist in the path sketch's entitiesById
+        for (const entityId of feature.pathEntities ?? []) {
+          if (!pathFeature.data.entitiesById[entityId]) {
+            errors.push(
+              `Sweep ${id}: path entity '${entityId}' doesn't exist in sketch's entitiesById`
+            );
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 6.10 Loft invariants
+ */
+function validateLoftInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "loft") {
+      // every profile exists and is type sketch
+      for (const sketchId of feature.sketches) {
+        const sketchFeature = snapshot.featuresById[sketchId];
+        if (!sketchFeature) {
+          errors.push(`Loft ${id}: sketch '${sketchId}' doesn't exist in featuresById`);
+        } else if (sketchFeature.type !== "sketch") {
+          errors.push(
+            `Loft ${id}: sketch '${sketchId}' is not a sketch feature (is ${sketchFeature.type})`
+          );
+        }
+      }
+
+      if (new Set(feature.sketches).size !== feature.sketches.length) {
+        errors.push(`Loft ${id}: sketches must not repeat`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.11 Shell invariants
+ */
+function validateShellInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "shell") {
+      // target body, when given, names an existing feature
+      if (feature.targetBody && !snapshot.featuresById[feature.targetBody]) {
+        errors.push(
+          `Shell ${id}: targetBody '${feature.targetBody}' doesn't exist in featuresById`
+        );
+      }
+
+      // open faces are encoded PersistentRefs
+      for (const ref of feature.openFaces) {
+        if (!ref.startsWith("stref:v1:")) {
+          errors.push(`Shell ${id}: open face '${ref}' is not a PersistentRef`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 6.12 Fillet / chamfer invariants
+ */
+function validateEdgeSetInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "fillet" || feature.type === "chamfer") {
+      const label = feature.type === "fillet" ? "Fillet" : "Chamfer";
+
+      // edges are encoded PersistentRefs
+      for (const set of feature.edgeSets) {
+        for (const ref of set.edges) {
+          if (!ref.startsWith("stref:v1:")) {
+            errors.push(`${label} ${id}: edge '${ref}' is not a PersistentRef`);
+          }
+        }
+      }
+
+      // a chamfer set is distance-distance or distance-angle, not both
+      if (feature.type === "chamfer") {
+        feature.edgeSets.forEach((set, i) => {
+          if (set.distance2 !== undefined && set.angle !== undefined) {
+            errors.push(`Chamfer ${id}: edge set ${i} has both distance2 and angle`);
+          }
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Feature that made a body. A feature that makes several bodies keys the
+ * first by its own ID and the rest as `<featureId>:<n>`.
+ */
+function bodyKeyFeatureId(bodyKey: string): string {
+  return bodyKey.split(":")[0];
+}
+
+/**
+ * 6.13 Pattern invariants
+ */
+function validatePatternInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "linearPattern" || feature.type === "circularPattern") {
+      const label = feature.type === "linearPattern" ? "Linear pattern" : "Circular pattern";
+      const sources = [...(feature.sourceFeatures ?? []), ...(feature.sourceBodies ?? [])];
+
+      // at least one source, each naming an existing feature
+      if (sources.length === 0) {
+        errors.push(`${label} ${id}: has no source features or bodies`);
+      }
+      for (const sourceId of sources) {
+        if (!snapshot.featuresById[bodyKeyFeatureId(sourceId)]) {
+          errors.push(`${label} ${id}: source '${sourceId}' doesn't exist in featuresById`);
+        }
+      }
+
+      // axis refs name axis features
+      const axisRefs =
+        feature.type === "linearPattern" ? [feature.direction, feature.direction2] : [feature.axis];
+      for (const ref of axisRefs) {
+        if (typeof ref === "string" && snapshot.featuresById[ref]?.type !== "axis") {
+          errors.push(`${label} ${id}: axis '${ref}' is not an axis feature`);
+        }
+      }
+
+      // skipped instances are in range, and never the original
+      const instanceCount =
+        feature.type === "linearPattern"
+          ? feature.count * (feature.direction2 ? (feature.count2 ?? 1) : 1)
+          : feature.count;
+      for (const instance of feature.skip ?? []) {
+        if (instance >= instanceCount) {
+          errors.push(`${label} ${id}: skipped instance ${instance} is out of range`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 6.14 Mirror invariants
+ */
+function validateMirrorInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "mirror") {
+      const sources = [...(feature.sourceFeatures ?? []), ...(feature.sourceBodies ?? [])];
+
+      // at least one source, each naming an existing feature
+      if (sources.length === 0) {
+        errors.push(`Mirror ${id}: has no source features or bodies`);
+      }
+      for (const sourceId of sources) {
+        if (!snapshot.featuresById[bodyKeyFeatureId(sourceId)]) {
+          errors.push(`Mirror ${id}: source '${sourceId}' doesn't exist in featuresById`);
+        }
+      }
+
+      // plane is a plane feature or a face PersistentRef
+      if (feature.plane.kind === "planeFeatureId") {
+        if (snapshot.featuresById[feature.plane.ref]?.type !== "plane") {
+          errors.push(`Mirror ${id}: plane '${feature.plane.ref}' is not a plane feature`);
+        }
+      } else if (!feature.plane.ref.startsWith("stref:v1:")) {
+        errors.push(`Mirror ${id}: face '${feature.plane.ref}' is not a PersistentRef`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.15 Draft invariants
+ */
+function validateDraftInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "draft") {
+      // faces are encoded PersistentRefs
+      for (const ref of feature.faces) {
+        if (!ref.startsWith("stref:v1:")) {
+          errors.push(`Draft ${id}: face '${ref}' is not a PersistentRef`);
+        }
+      }
+
+      // the angle tilts the faces without laying them flat
+      if (!(Math.abs(feature.angle) > 0 && Math.abs(feature.angle) < 90)) {
+        errors.push(`Draft ${id}: angle must be between 0 and 90 degrees`);
+      }
+      if (feature.pullDirection.every((component) => component === 0)) {
+        errors.push(`Draft ${id}: pull direction is zero`);
+      }
+
+      // neutral plane is a plane feature or a face PersistentRef
+      const plane = feature.neutralPlane;
+      if (plane?.kind === "planeFeatureId") {
+        if (snapshot.featuresById[plane.ref]?.type !== "plane") {
+          errors.push(`Draft ${id}: neutral plane '${plane.ref}' is not a plane feature`);
+        }
+      } else if (plane && !plane.ref.startsWith("stref:v1:")) {
+        errors.push(`Draft ${id}: neutral face '${plane.ref}' is not a PersistentRef`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.16 Hole invariants
+ */
+function validateHoleInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "hole") {
+      // holes sit on points of an existing sketch
+      const sketchFeature = snapshot.featuresById[feature.sketch];
+      if (sketchFeature?.type !== "sketch") {
+        errors.push(`Hole ${id}: sketch '${feature.sketch}' is not a sketch feature`);
+      } else {
+        for (const pointId of feature.points) {
+          if (!sketchFeature.data.pointsById[pointId]) {
+            errors.push(
+              `Hole ${id}: point '${pointId}' doesn't exist in sketch '${feature.sketch}'`
+            );
+          }
+        }
+      }
+
+      // the counterbore or countersink opens wider than the hole
+      if (feature.holeType === "counterbore") {
+        if (!feature.counterboreDiameter || !feature.counterboreDepth) {
+          errors.push(`Hole ${id}: counterbore holes need a counterbore diameter and depth`);
+        } else if (feature.counterboreDiameter <= feature.diameter) {
+          errors.push(`Hole ${id}: counterbore must be wider than the hole`);
+        }
+      }
+      if (feature.holeType === "countersink") {
+        if (!feature.countersinkDiameter) {
+          errors.push(`Hole ${id}: countersink holes need a countersink diameter`);
+        } else if (feature.countersinkDiameter <= feature.diameter) {
+          errors.push(`Hole ${id}: countersink must be wider than the hole`);
+        }
+        if (feature.countersinkAngle !== undefined && feature.countersinkAngle >= 180) {
+          errors.push(`Hole ${id}: countersink angle must be less than 180 degrees`);
+        }
+      }
+
+      // the extent has what it needs
+      if (feature.extent === "blind" && feature.depth === undefined) {
+        errors.push(`Hole ${id}: blind holes need a depth`);
+      }
+      if (feature.extent === "toFace" && !feature.extentRef?.startsWith("stref:v1:")) {
+        errors.push(`Hole ${id}: toFace holes need a face PersistentRef`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.17 Helix and thread invariants
+ */
+function validateHelixInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "helix") {
+      // winds about an axis feature
+      if (snapshot.featuresById[feature.axis]?.type !== "axis") {
+        errors.push(`Helix ${id}: axis '${feature.axis}' is not an axis feature`);
+      }
+
+      // the definition names the field that sets the length
+      if (feature.definition === "turns" && feature.turns === undefined) {
+        errors.push(`Helix ${id}: turns definition needs a number of turns`);
+      }
+      if (feature.definition === "height" && feature.height === undefined) {
+        errors.push(`Helix ${id}: height definition needs a height`);
+      }
+      if (feature.taperAngle !== undefined && !(Math.abs(feature.taperAngle) < 90)) {
+        errors.push(`Helix ${id}: taper angle must be within ±90 degrees`);
+      }
+    }
+
+    if (feature.type === "thread") {
+      // follows a helix onto a face
+      if (snapshot.featuresById[feature.helix]?.type !== "helix") {
+        errors.push(`Thread ${id}: helix '${feature.helix}' is not a helix feature`);
+      }
+      if (!feature.face.startsWith("stref:v1:")) {
+        errors.push(`Thread ${id}: face '${feature.face}' is not a PersistentRef`);
+      }
+      if (feature.profileAngle !== undefined && feature.profileAngle >= 180) {
+        errors.push(`Thread ${id}: profile angle must be less than 180 degrees`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.18 Rib invariants
+ */
+function validateRibInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "rib") continue;
+
+    // sketch must exist and be a sketch
+    const sketch = snapshot.featuresById[feature.sketch];
+    if (!sketch || sketch.type !== "sketch") {
+      errors.push(`Rib ${id}: sketch '${feature.sketch}' is not a sketch`);
+      continue;
+    }
+
+    // profile entities must be lines or arcs of that sketch
+    for (const entityId of feature.entities ?? []) {
+      const entity = sketch.data.entitiesById[entityId];
+      if (!entity) {
+        errors.push(`Rib ${id}: entity '${entityId}' not found in sketch`);
+      } else if (entity.type !== "line" && entity.type !== "arc") {
+        errors.push(`Rib ${id}: entity '${entityId}' is not a line or arc`);
+      }
+    }
+
+    if (feature.flipThickness && feature.thicknessSide !== "oneSide") {
+      errors.push(`Rib ${id}: only one-sided ribs can flip their thickness`);
+    }
+  }
+}
+
+/**
+ * 6.19 Primitive invariants
+ */
+function validatePrimitiveInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (
+      feature.type !== "box" &&
+      feature.type !== "cylinder" &&
+      feature.type !== "sphere" &&
+      feature.type !== "cone" &&
+      feature.type !== "torus"
+    ) {
+      continue;
+    }
+
+    // a plane feature to stand on must exist and be a plane
+    if (feature.plane.kind === "planeFeatureId") {
+      if (snapshot.featuresById[feature.plane.ref]?.type !== "plane") {
+        errors.push(`Primitive ${id}: plane '${feature.plane.ref}' is not a plane feature`);
+      }
+    }
+
+    if (feature.type === "cone" && feature.radius === feature.topRadius) {
+      errors.push(`Primitive ${id}: cone radii must differ`);
+    }
+    if (feature.type === "torus" && feature.minorRadius >= feature.majorRadius) {
+      errors.push(`Primitive ${id}: torus minor radius must be smaller than its major radius`);
+    }
+  }
+}
+
+/**
+ * 6.20 Transform invariants
+ */
+function validateTransformInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "transform") continue;
+
+    // moved bodies were made by existing features
+    for (const bodyKey of feature.bodies) {
+      if (!snapshot.featuresById[bodyKeyFeatureId(bodyKey)]) {
+        errors.push(`Transform ${id}: body '${bodyKey}' doesn't exist in featuresById`);
+      }
+    }
+
+    // a mate has both ends, each a PersistentRef
+    if (!feature.mateFrom !== !feature.mateTo) {
+      errors.push(`Transform ${id}: mate needs both mateFrom and mateTo`);
+    }
+    for (const ref of [feature.mateFrom, feature.mateTo]) {
+      if (ref !== undefined && !ref.startsWith("stref:v1:")) {
+        errors.push(`Transform ${id}: mate reference '${ref}' is not a PersistentRef`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.21 Split invariants
+ */
+function validateSplitInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "split") continue;
+
+    if (feature.targetBody && !snapshot.featuresById[bodyKeyFeatureId(feature.targetBody)]) {
+      errors.push(`Split ${id}: body '${feature.targetBody}' doesn't exist in featuresById`);
+    }
+
+    // tool is a plane feature, a sketch or a face PersistentRef
+    const { tool } = feature;
+    if (tool.kind === "faceRef") {
+      if (!tool.ref.startsWith("stref:v1:")) {
+        errors.push(`Split ${id}: face '${tool.ref}' is not a PersistentRef`);
+      }
+    } else {
+      const expected = tool.kind === "planeFeatureId" ? "plane" : "sketch";
+      if (snapshot.featuresById[tool.ref]?.type !== expected) {
+        errors.push(`Split ${id}: tool '${tool.ref}' is not a ${expected} feature`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.22 Offset face and thicken invariants
+ */
+function validateFaceOffsetInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "offsetFace" && feature.type !== "thicken") continue;
+    const label = feature.type === "offsetFace" ? "Offset face" : "Thicken";
+
+    // faces are encoded PersistentRefs
+    for (const ref of feature.faces) {
+      if (!ref.startsWith("stref:v1:")) {
+        errors.push(`${label} ${id}: face '${ref}' is not a PersistentRef`);
+      }
+    }
+
+    const amount = feature.type === "offsetFace" ? feature.distance : feature.thickness;
+    if (amount === 0) {
+      errors.push(
+        `${label} ${id}: ${feature.type === "offsetFace" ? "distance" : "thickness"} is zero`
+      );
+    }
+  }
+}
+
+/**
+ * 6.23 Sheet metal invariants
+ */
+function validateSheetMetalInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type === "baseFlange") {
+      if (snapshot.featuresById[feature.sketch]?.type !== "sketch") {
+        errors.push(`Base flange ${id}: sketch '${feature.sketch}' is not a sketch`);
+      }
+    } else if (feature.type === "edgeFlange") {
+      if (!feature.edge.startsWith("stref:v1:")) {
+        errors.push(`Edge flange ${id}: edge '${feature.edge}' is not a PersistentRef`);
+      }
+      if (!(feature.angle > 0 && feature.angle < 180)) {
+        errors.push(`Edge flange ${id}: angle must be between 0 and 180 degrees`);
+      }
+    } else if (feature.type === "unfold") {
+      if (snapshot.featuresById[feature.baseFlange]?.type !== "baseFlange") {
+        errors.push(`Unfold ${id}: '${feature.baseFlange}' is not a base flange feature`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.24 Delete face and replace face invariants
+ */
+function validateFaceEditInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "deleteFace" && feature.type !== "replaceFace") continue;
+    const label = feature.type === "deleteFace" ? "Delete face" : "Replace face";
+
+    // faces are encoded PersistentRefs
+    for (const ref of feature.faces) {
+      if (!ref.startsWith("stref:v1:")) {
+        errors.push(`${label} ${id}: face '${ref}' is not a PersistentRef`);
+      }
+    }
+
+    if (feature.type === "replaceFace") {
+      // plane is a plane feature or a face PersistentRef
+      if (feature.plane.kind === "planeFeatureId") {
+        if (snapshot.featuresById[feature.plane.ref]?.type !== "plane") {
+          errors.push(`${label} ${id}: plane '${feature.plane.ref}' is not a plane feature`);
+        }
+      } else if (!feature.plane.ref.startsWith("stref:v1:")) {
+        errors.push(`${label} ${id}: face '${feature.plane.ref}' is not a PersistentRef`);
+      } else if (feature.faces.includes(feature.plane.ref)) {
+        errors.push(`${label} ${id}: plane face is one of the faces being replaced`);
+      }
+    }
+  }
+}
+
+/**
+ * 6.25 Body invariants
+ */
+function validateBodyInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  // Body keys start with the ID of the feature that created the body
+  const hasSourceFeature = (bodyKey: string) =>
+    snapshot.featuresById[bodyKey.split(":")[0]] !== undefined;
+
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    // Appearance overrides are keyed by this feature's own bodies
+    for (const bodyKey of Object.keys(feature.bodyAppearance ?? {})) {
+      if (bodyKey.split(":")[0] !== id) {
+        errors.push(`Feature ${id}: appearance for body '${bodyKey}' it did not create`);
+      }
+    }
+
+    if (feature.type === "boolean") {
+      const toolIds = [feature.tool, ...(feature.tools ?? [])];
+      if (toolIds.includes(feature.target)) {
+        errors.push(`Boolean ${id}: target body '${feature.target}' is also a tool`);
+      }
+      if (new Set(toolIds).size !== toolIds.length) {
+        errors.push(`Boolean ${id}: tool bodies must be unique`);
+      }
+    }
+
+    if (feature.type === "deleteBody") {
+      for (const bodyKey of feature.bodies) {
+        if (!hasSourceFeature(bodyKey)) {
+          errors.push(`Delete body ${id}: body '${bodyKey}' does not belong to any feature`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 6.26 Import invariants
+ */
+function validateImportInvariants(snapshot: DocSnapshot, errors: string[]): void {
+  for (const [id, feature] of Object.entries(snapshot.featuresById)) {
+    if (feature.type !== "import") continue;
+
+    if (!snapshot.blobs?.[feature.blob]) {
+      errors.push(`Import ${id}: file '${feature.blob}' is missing from the blob store`);
+    }
+  }
+}
+
 // ============================================================================
 // Combined Validation
 // ============================================================================
@@ -68,6 +68,14 @@ export function getFeatureOrder(root: Y.Map<unknown>): Y.Array<string> {
   return root.get("featureOrder") as Y.Array<string>;
 }
 
+/**
+ * Get blobs map from root (binary files referenced by features, keyed by id)
+ * Documents saved before the blob store existed have none until a file is stored
+ */
+export function getBlobs(root: Y.Map<unknown>): Y.Map<Uint8Array> | undefined {
+  return root.get("blobs") as Y.Map<Uint8Array> | undefined;
+}
+
 // ============================================================================
 // Ghost State Prevention (Dev-only)
 // ============================================================================
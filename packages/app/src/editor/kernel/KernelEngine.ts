@@ -18,14 +18,41 @@ import * as Y from "yjs";
 import {
   SolidSession,
   type BodyId,
+  type EdgeId,
+  type ModifyHistoryResult,
+  type BodyTransform,
   type OperationResult,
+  type StepSchema,
   XY_PLANE,
   YZ_PLANE,
   ZX_PLANE,
   createDatumPlane,
   type DatumPlane,
+  type SketchProfile,
+  type SketchPath,
+  type Sketch,
+  type SketchPointId,
+  type SketchEntityId,
+  type LoftTangency,
+  type ShellDirection,
+  type HelixOptions,
   planeToWorld,
+  type ThinWallSide,
+  type RibSide,
+  type PrimitiveOptions,
+  type SplitOptions,
+  type SheetMetalProfile,
+  type SheetMetalFlange,
+  type FlatPattern,
+  computeFlatPattern,
   sub3,
+  dot3,
+  add3,
+  mul3,
+  cross3,
+  length3,
+  normalize3,
+  type Vec3,
   vec2,
   coincident,
   horizontalPoints,
@@ -40,18 +67,58 @@ import {
   symmetric,
   pointOnLine,
   pointOnArc,
+  exportMeshesToStl,
+  exportFlatPatternToDxf,
+  exportFlatPatternToSvg,
   type Mesh,
 } from "@solidtype/core";
 
-import type { TransferableMesh, BodyInfo, BuildError, FeatureStatus } from "../worker/types";
-import { getRoot, getState, getFeaturesById, getFeatureOrder, mapToObject } from "../document/yjs";
-import type { SketchPlaneRef, DatumPlaneRole } from "../document/schema";
+import type {
+  TransferableMesh,
+  BodyInfo,
+  BuildError,
+  FeatureStatus,
+  PreviewExtrudeMessage,
+  PreviewRevolveMessage,
+  PreviewTransformMessage,
+  FlatPatternFormat,
+} from "../worker/types";
+import {
+  getRoot,
+  getMeta,
+  getState,
+  getFeaturesById,
+  getFeatureOrder,
+  getBlobs,
+  mapToObject,
+} from "../document/yjs";
+import type {
+  SketchPlaneRef,
+  DatumPlaneRole,
+  FilletEdgeSet,
+  ChamferEdgeSet,
+  PatternDirection,
+  PatternAxis,
+  MirrorPlaneRef,
+  HoleType,
+  HoleThread,
+  SplitTool,
+  SplitKeep,
+  DocumentMeta,
+} from "../document/schema";
 import {
   buildBodyReferenceIndex,
   computeProfileLoops,
+  type BodyReferenceIndex,
   type ReferenceIndex,
   type SketchInfo as ReferenceSketchInfo,
 } from "./referenceIndex";
+import { resolveExtrudeExtent, THROUGH_ALL_DISTANCE } from "./extrudeExtent";
+import { buildRevolveProfile, type RevolveThinWall } from "./revolveProfile";
+import { applyBodyAppearance, listVisibleBodies } from "./bodyAppearance";
+import { exportBodiesToStep } from "./stepExport";
+import { exportBodiesTo3mf } from "./threeMfExport";
+import { decodePersistentRef, resolvePersistentRef } from "../naming";
 
 // ============================================================================
 // Types
@@ -85,6 +152,36 @@ export interface SketchSolveResult {
   };
 }
 
+/**
+ * A hole as built, with its thread callout, for drawings and exports to annotate
+ */
+export interface HoleCallout {
+  featureId: string;
+  /** Sketch point at the centre of the hole */
+  pointId: string;
+  /** Centre of the hole on the face it starts from */
+  origin: Vec3;
+  /** Unit direction into the material */
+  direction: Vec3;
+  holeType: HoleType;
+  diameter: number;
+  /** Depth of the bore; omitted for through-all holes */
+  depth?: number;
+  thread?: HoleThread;
+}
+
+/**
+ * The flat pattern of an unfolded sheet metal part, for DXF and SVG export
+ */
+export interface FlatPatternResult {
+  /** The unfold feature */
+  featureId: string;
+  /** Base flange of the part */
+  baseFlangeId: string;
+  /** Outline and bend lines, in the base flange sketch's coordinates */
+  pattern: FlatPattern;
+}
+
 export interface RebuildResult {
   bodies: BodyInfo[];
   meshes: Map<string, TransferableMesh>;
@@ -92,6 +189,8 @@ export interface RebuildResult {
   featureStatus: Record<string, FeatureStatus>;
   errors: BuildError[];
   sketchSolveResults: Map<string, SketchSolveResult>;
+  holes: HoleCallout[];
+  flatPatterns: FlatPatternResult[];
 }
 
 /**
@@ -104,6 +203,49 @@ interface FaceOrigin {
   entityId?: string;
   /** The type of face (topCap, bottomCap, side) */
   faceType: "topCap" | "bottomCap" | "side" | "unknown";
+  /** Type of the source feature (extrude selectors are used when omitted) */
+  featureType?: string;
+  /** Pattern instance number, for faces copied by a pattern */
+  instance?: number;
+  /** Feature the pattern instance was copied from */
+  instanceOf?: string;
+  /** Position of the face's ref in a draft's face list, for drafted faces */
+  draftFace?: number;
+  /** Role of a face cut by a hole, whose entityId is the hole's sketch point */
+  holeFace?: string;
+  /** Which flank of a thread cut the face: 0 faces the start of the helix */
+  threadFlank?: number;
+  /** Which flat side of a rib the face is on: 0 is against the sketch normal */
+  ribSide?: number;
+  /** Which end of a rib's profile was extended to make the face: 0 is the start */
+  ribExtension?: number;
+  /** Stable index and name of a face of a box, cylinder, sphere, cone or torus */
+  primitiveFace?: { index: number; name: string };
+  /** Piece (0 front, 1 back) and cutting tool of a face made by a split */
+  splitFace?: { side: number; tool: string };
+  /** Position of the face's ref in an offset face's list, for moved faces */
+  offsetFace?: number;
+  /** Side (start or offset) and face list position of a face made by a thicken */
+  thickenFace?: { side: string; face: number };
+  /** Role of a face an edge flange added (bendOutside, wallEnd, start, ...) */
+  sheetMetalFace?: string;
+  /** Set on faces a replace face moved onto its plane */
+  replacedFace?: boolean;
+  /** Set on faces read from an imported file */
+  importedFace?: boolean;
+}
+
+/**
+ * A sheet metal part as built so far: its base flange and the flanges bent
+ * from it, which are all an unfold needs.
+ */
+interface SheetMetalPart {
+  /** Body the part is built in */
+  bodyKey: string;
+  profile: SheetMetalProfile;
+  /** Mapping from base flange profile edge index to sketch entity UUID */
+  profileEdgeToEntityId: Map<number, string>;
+  flanges: SheetMetalFlange[];
 }
 
 /**
@@ -132,7 +274,8 @@ interface StoredOCCTHistory {
  */
 function buildInitialFaceOrigins(
   history: StoredOCCTHistory,
-  sourceFeatureId: string
+  sourceFeatureId: string,
+  featureType?: string
 ): Map<number, FaceOrigin> {
   const origins = new Map<number, FaceOrigin>();
 
@@ -141,6 +284,7 @@ function buildInitialFaceOrigins(
     origins.set(history.topCapHash, {
       sourceFeatureId,
       faceType: "topCap",
+      featureType,
     });
   }
 
@@ -149,6 +293,7 @@ function buildInitialFaceOrigins(
     origins.set(history.bottomCapHash, {
       sourceFeatureId,
       faceType: "bottomCap",
+      featureType,
     });
   }
 
@@ -159,6 +304,7 @@ function buildInitialFaceOrigins(
       sourceFeatureId,
       entityId,
       faceType: "side",
+      featureType,
     });
   }
 
@@ -230,6 +376,15 @@ interface BodyEntry {
   occtHistory?: StoredOCCTHistory;
 }
 
+/** A feature's own tool body, kept for patterns that replicate it */
+interface PatternSeed {
+  bodyId: BodyId;
+  op: "add" | "cut";
+  origins: Map<number, FaceOrigin>;
+  /** Body the source feature was added to */
+  bodyKey?: string;
+}
+
 interface SketchData {
   pointsById: Record<
     string,
@@ -252,6 +407,7 @@ interface SketchData {
       center?: string;
       ccw?: boolean;
       radius?: number;
+      construction?: boolean;
     }
   >;
   constraintsById: Record<string, any>;
@@ -264,6 +420,22 @@ interface SketchInfo {
   referenceInfo?: ReferenceSketchInfo;
 }
 
+/** Which sketch curves go into a kernel sketch, and how */
+interface KernelSketchOptions {
+  circles: "solvable" | "fixed" | "skip";
+  /** Line added as construction geometry and left out of the profile, e.g. a revolve axis */
+  constructionLine?: string;
+}
+
+/** A cached sketch rebuilt in the kernel, with the kernel IDs of its points and curves */
+interface KernelSketch {
+  sketch: Sketch;
+  pointIds: Map<string, SketchPointId>;
+  entityIds: Map<string, SketchEntityId>;
+  /** Phase 8: sketch entity each profile edge came from, in the order they were added */
+  profileEdgeToEntityId: Map<number, string>;
+}
+
 interface FeatureInterpretResult {
   bodyId: BodyId | null;
   bodyEntryId: string | null;
@@ -273,6 +445,15 @@ interface FeatureInterpretResult {
   occtHistory?: StoredOCCTHistory;
 }
 
+/** Millimetres per document unit, for scaling imported files */
+const MM_PER_UNIT: Record<DocumentMeta["units"], number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8,
+};
+
 /** Default body colors - cycle through these for new bodies */
 const DEFAULT_BODY_COLORS = [
   "#6699cc", // blue-gray
@@ -293,9 +474,20 @@ export class KernelEngine {
   private bodyMap = new Map<string, BodyEntry>();
   private sketchCache = new Map<string, SketchInfo>();
   private featureToSketchInfo = new Map<string, ReferenceSketchInfo>();
+  /** Features replicated by a pattern later in the tree */
+  private patternSourceIds = new Set<string>();
+  private patternSeeds = new Map<string, PatternSeed>();
+  private holeCallouts: HoleCallout[] = [];
+  /** Sheet metal parts by base flange feature ID */
+  private sheetMetalParts = new Map<string, SheetMetalPart>();
+  private flatPatterns: FlatPatternResult[] = [];
   private bodyColorIndex = 0;
   private datumPlaneCache: { xy: string | null; xz: string | null; yz: string | null } | null =
     null;
+  /** Files stored by import features in the document being rebuilt */
+  private blobs: Y.Map<Uint8Array> | undefined;
+  private units: DocumentMeta["units"] = "mm";
+  private featuresById: Y.Map<Y.Map<unknown>> | null = null;
 
   constructor(options: KernelEngineOptions = {}) {
     this.options = {
@@ -345,6 +537,9 @@ export class KernelEngine {
     const featureOrder = getFeatureOrder(root);
     const state = getState(root);
     const rebuildGate = state?.get("rebuildGate") as string | null;
+    this.blobs = getBlobs(root);
+    this.units = (getMeta(root)?.get("units") as DocumentMeta["units"] | undefined) ?? "mm";
+    this.featuresById = featuresById;
 
     return this.rebuild(featuresById, featureOrder, rebuildGate);
   }
@@ -369,11 +564,18 @@ export class KernelEngine {
     this.bodyMap.clear();
     this.sketchCache.clear();
     this.featureToSketchInfo.clear();
+    this.patternSeeds.clear();
+    this.holeCallouts = [];
+    this.sheetMetalParts.clear();
+    this.flatPatterns = [];
     this.resetBodyColorIndex();
 
     // Build datum plane cache
     this.buildDatumPlaneCache(featuresById);
 
+    // Patterns need their source features' tool bodies before they are merged
+    this.patternSourceIds = this.collectPatternSourceIds(featuresById);
+
     const bodies: BodyInfo[] = [];
     const errors: BuildError[] = [];
     const featureStatus: Record<string, FeatureStatus> = {};
@@ -418,34 +620,133 @@ export class KernelEngine {
 
           case "extrude":
             result = this.interpretExtrude(featureMap, id, featuresById);
+            this.addBodyEntry(result, id);
             featureStatus[id] = "computed";
-
-            if (result.bodyId !== null && result.bodyEntryId !== null) {
-              const entry: BodyEntry = {
-                bodyId: result.bodyId,
-                name: result.bodyName || `Body${this.bodyMap.size + 1}`,
-                color: result.bodyColor || this.getNextBodyColor(),
-                sourceFeatureId: id,
-                occtHistory: result.occtHistory,
-              };
-              this.bodyMap.set(result.bodyEntryId, entry);
-            }
             break;
 
           case "revolve":
             result = this.interpretRevolve(featureMap, id, featuresById);
+            this.addBodyEntry(result, id);
             featureStatus[id] = "computed";
+            break;
 
-            if (result.bodyId !== null && result.bodyEntryId !== null) {
-              const entry: BodyEntry = {
-                bodyId: result.bodyId,
-                name: result.bodyName || `Body${this.bodyMap.size + 1}`,
-                color: result.bodyColor || this.getNextBodyColor(),
-                sourceFeatureId: id,
-                occtHistory: result.occtHistory,
-              };
-              this.bodyMap.set(result.bodyEntryId, entry);
-            }
+          case "sweep":
+            result = this.interpretSweep(featureMap, id, featuresById);
+            this.addBodyEntry(result, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "loft":
+            result = this.interpretLoft(featureMap, id, featuresById);
+            this.addBodyEntry(result, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "shell":
+            this.interpretShell(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "fillet":
+            this.interpretFillet(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "chamfer":
+            this.interpretChamfer(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "linearPattern":
+          case "circularPattern":
+            this.interpretPattern(featureMap, id, type, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "mirror":
+            this.interpretMirror(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "draft":
+            this.interpretDraft(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "hole":
+            this.interpretHole(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "helix":
+            // Reference curve: checked here, used by the threads that follow it
+            this.resolveHelix(featuresById, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "thread":
+            this.interpretThread(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "rib":
+            this.interpretRib(featureMap, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "box":
+          case "cylinder":
+          case "sphere":
+          case "cone":
+          case "torus":
+            result = this.interpretPrimitive(featureMap, id, type, featuresById);
+            this.addBodyEntry(result, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "transform":
+            this.interpretTransform(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "split":
+            this.interpretSplit(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "offsetFace":
+            this.interpretOffsetFace(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "thicken":
+            this.interpretThicken(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "baseFlange":
+            this.interpretBaseFlange(featureMap, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "edgeFlange":
+            this.interpretEdgeFlange(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "unfold":
+            this.interpretUnfold(featureMap, id);
+            featureStatus[id] = "computed";
+            break;
+
+          case "deleteFace":
+            this.interpretDeleteFace(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
+            break;
+
+          case "replaceFace":
+            this.interpretReplaceFace(featureMap, id, featuresById);
+            featureStatus[id] = "computed";
             break;
 
           case "boolean":
@@ -453,10 +754,26 @@ export class KernelEngine {
             featureStatus[id] = "computed";
             break;
 
+          case "deleteBody":
+            this.interpretDeleteBody(featureMap);
+            featureStatus[id] = "computed";
+            break;
+
+          case "import":
+            this.interpretImport(featureMap, id);
+            featureStatus[id] = "computed";
+            break;
+
           default:
             featureStatus[id] = "computed";
             break;
         }
+
+        // Pattern instances join the body their source ended up in
+        const seed = this.patternSeeds.get(id);
+        if (seed && result?.bodyEntryId) {
+          seed.bodyKey = result.bodyEntryId;
+        }
       } catch (err) {
         errors.push({
           featureId: id,
@@ -478,42 +795,8 @@ export class KernelEngine {
     if (this.options.computeMeshes) {
       for (const [featureId, entry] of this.bodyMap) {
         try {
-          // Phase 8: Use tessellateWithTopologyHashes for OCCT history matching
-          const mesh = this.session.tessellateWithTopologyHashes(entry.bodyId);
-          const transferableMesh = this.toTransferableMeshWithHashes(mesh);
-          meshes.set(featureId, transferableMesh);
-
-          // Build reference index with Phase 8 OCCT history
-          const featureMap = featuresById.get(entry.sourceFeatureId);
-          const featureType = (featureMap?.get("type") as string) || "unknown";
-          const sketchInfo = this.featureToSketchInfo.get(entry.sourceFeatureId);
-
-          // Extract OCCT history if available (including faceHashToOrigin for boolean tracking)
-          const occtHistory = entry.occtHistory
-            ? {
-                bottomCapHash: entry.occtHistory.bottomCapHash,
-                topCapHash: entry.occtHistory.topCapHash,
-                sideFaceMappings: entry.occtHistory.sideFaceMappings,
-                faceHashToOrigin: entry.occtHistory.faceHashToOrigin,
-              }
-            : undefined;
-
-          const bodyRefIndex = buildBodyReferenceIndex(
-            featureId,
-            entry.sourceFeatureId,
-            featureType,
-            transferableMesh.positions,
-            transferableMesh.normals,
-            transferableMesh.indices,
-            transferableMesh.faceMap,
-            transferableMesh.edges,
-            transferableMesh.edgeMap,
-            sketchInfo,
-            occtHistory,
-            transferableMesh.faceHashes,
-            transferableMesh.edgeHashes,
-            entry.occtHistory?.profileEdgeToEntityId
-          );
+          const { mesh, bodyRefIndex } = this.buildBodyIndex(featureId, entry, featuresById);
+          meshes.set(featureId, mesh);
           referenceIndex[featureId] = bodyRefIndex;
         } catch (err) {
           console.error(`[KernelEngine] Failed to tessellate body ${featureId}:`, err);
@@ -523,13 +806,18 @@ export class KernelEngine {
 
     // Build bodies list
     for (const [entryId, entry] of this.bodyMap) {
-      bodies.push({
-        id: String(entry.bodyId),
-        featureId: entryId,
-        faceCount: 0,
-        name: entry.name,
-        color: entry.color,
-      });
+      bodies.push(
+        applyBodyAppearance(
+          {
+            id: String(entry.bodyId),
+            featureId: entryId,
+            faceCount: 0,
+            name: entry.name,
+            color: entry.color,
+          },
+          featuresById
+        )
+      );
     }
 
     return {
@@ -539,9 +827,295 @@ export class KernelEngine {
       featureStatus,
       errors,
       sketchSolveResults,
+      holes: this.holeCallouts,
+      flatPatterns: this.flatPatterns,
     };
   }
 
+  /**
+   * The OCCT session, once init() has created it
+   */
+  private requireSession(): SolidSession {
+    if (!this.session) {
+      throw new Error("KernelEngine not initialized");
+    }
+    return this.session;
+  }
+
+  /**
+   * A body a feature works on, which an earlier feature may have removed
+   */
+  private getBodyEntry(bodyKey: string, label: string): BodyEntry {
+    const entry = this.bodyMap.get(bodyKey);
+    if (!entry) {
+      throw new Error(`${label} body not found: ${bodyKey}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Record the body a feature created, naming and coloring it unless the
+   * feature set its own
+   */
+  private addBodyEntry(result: FeatureInterpretResult, featureId: string): void {
+    if (result.bodyId === null || result.bodyEntryId === null) return;
+
+    this.bodyMap.set(result.bodyEntryId, {
+      bodyId: result.bodyId,
+      name: result.bodyName || `Body${this.bodyMap.size + 1}`,
+      color: result.bodyColor || this.getNextBodyColor(),
+      sourceFeatureId: featureId,
+      occtHistory: result.occtHistory,
+    });
+  }
+
+  /**
+   * Tessellate a body and build its reference index
+   */
+  private buildBodyIndex(
+    bodyKey: string,
+    entry: BodyEntry,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): { mesh: TransferableMesh; bodyRefIndex: BodyReferenceIndex } {
+    // Phase 8: Use tessellateWithTopologyHashes for OCCT history matching
+    const mesh = this.requireSession().tessellateWithTopologyHashes(entry.bodyId);
+    const transferableMesh = this.toTransferableMeshWithHashes(mesh);
+
+    // Build reference index with Phase 8 OCCT history
+    const featureMap = featuresById.get(entry.sourceFeatureId);
+    const featureType = (featureMap?.get("type") as string) || "unknown";
+    const sketchInfo = this.featureToSketchInfo.get(entry.sourceFeatureId);
+
+    // Extract OCCT history if available (including faceHashToOrigin for boolean tracking)
+    const occtHistory = entry.occtHistory
+      ? {
+          bottomCapHash: entry.occtHistory.bottomCapHash,
+          topCapHash: entry.occtHistory.topCapHash,
+          sideFaceMappings: entry.occtHistory.sideFaceMappings,
+          faceHashToOrigin: entry.occtHistory.faceHashToOrigin,
+        }
+      : undefined;
+
+    const bodyRefIndex = buildBodyReferenceIndex(
+      bodyKey,
+      entry.sourceFeatureId,
+      featureType,
+      transferableMesh.positions,
+      transferableMesh.normals,
+      transferableMesh.indices,
+      transferableMesh.faceMap,
+      transferableMesh.edges,
+      transferableMesh.edgeMap,
+      sketchInfo,
+      occtHistory,
+      transferableMesh.faceHashes,
+      transferableMesh.edgeHashes,
+      entry.occtHistory?.profileEdgeToEntityId,
+      transferableMesh.edgeFaces
+    );
+
+    return { mesh: transferableMesh, bodyRefIndex };
+  }
+
+  /**
+   * Export the visible bodies of the last rebuild to STEP, one product per
+   * body, in the document's units
+   */
+  exportSTEP(options: { name?: string; schema?: StepSchema } = {}): Uint8Array {
+    if (!this.session || !this.featuresById) {
+      throw new Error("KernelEngine has not built a document");
+    }
+    return exportBodiesToStep(this.session, this.bodyMap, this.featuresById, {
+      ...options,
+      units: this.units,
+    });
+  }
+
+  /**
+   * Export the visible bodies of the last rebuild to 3MF, one object per
+   * body, in the document's units
+   */
+  export3MF(options: { name?: string } = {}): ArrayBuffer {
+    if (!this.session || !this.featuresById) {
+      throw new Error("KernelEngine has not built a document");
+    }
+    return exportBodiesTo3mf(this.session, this.bodyMap, this.featuresById, {
+      ...options,
+      units: this.units,
+    });
+  }
+
+  /**
+   * Export every body of the last rebuild to STL
+   */
+  exportSTL(options: { binary?: boolean; name?: string } = {}): ArrayBuffer | string {
+    const session = this.session;
+    if (!session) {
+      throw new Error("KernelEngine not initialized");
+    }
+
+    const meshes = [...this.bodyMap.values()].map((entry) => session.tessellate(entry.bodyId));
+    if (meshes.length === 0) {
+      throw new Error("No bodies to export");
+    }
+    return exportMeshesToStl(meshes, options);
+  }
+
+  /**
+   * Export the visible bodies of the last rebuild to IGES, as one compound
+   */
+  exportIGES(): Uint8Array {
+    if (!this.session || !this.featuresById) {
+      throw new Error("KernelEngine has not built a document");
+    }
+
+    const bodies = listVisibleBodies(this.bodyMap, this.featuresById);
+    if (bodies.length === 0) {
+      throw new Error("No visible bodies to export");
+    }
+    return this.session.exportIGES(bodies.map((body) => body.bodyId));
+  }
+
+  /**
+   * Export the flat pattern an unfold feature made in the last rebuild as a
+   * DXF or SVG drawing
+   */
+  exportFlatPattern(options: { featureId: string; format: FlatPatternFormat }): string {
+    const result = this.flatPatterns.find((f) => f.featureId === options.featureId);
+    if (!result) {
+      throw new Error(`No flat pattern for feature ${options.featureId}`);
+    }
+    return options.format === "dxf"
+      ? exportFlatPatternToDxf(result.pattern)
+      : exportFlatPatternToSvg(result.pattern);
+  }
+
+  // ============================================================================
+  // Previews
+  // ============================================================================
+
+  /**
+   * Mesh of an extrude being edited, built from the sketch as last rebuilt
+   */
+  previewExtrude(preview: Omit<PreviewExtrudeMessage, "type">): TransferableMesh {
+    if (!this.session) {
+      throw new Error("KernelEngine not initialized");
+    }
+
+    const sketchInfo = this.getPreviewSketch(preview.sketchId);
+    const { profile } = this.buildSketchProfile(sketchInfo);
+    const { distance, direction } = preview;
+
+    const result = this.session.extrude(profile, {
+      operation: "new",
+      distance,
+      direction: mul3(sketchInfo.plane.surface.normal, direction === "reverse" ? -1 : 1),
+      symmetric: direction === "symmetric",
+      startOffset: preview.startOffset,
+      draftAngle: preview.draftAngle,
+      secondSide:
+        preview.distance2 !== undefined
+          ? { distance: preview.distance2, draftAngle: preview.draftAngle2 }
+          : undefined,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Extrude failed");
+    }
+
+    return this.takePreviewMesh(result.value);
+  }
+
+  /**
+   * Mesh of a revolve being edited, built from the sketch as last rebuilt
+   */
+  previewRevolve(preview: Omit<PreviewRevolveMessage, "type">): TransferableMesh {
+    if (!this.session) {
+      throw new Error("KernelEngine not initialized");
+    }
+
+    const sketchInfo = this.getPreviewSketch(preview.sketchId);
+    const { profile, axis } = this.buildRevolveSketch(
+      sketchInfo,
+      preview.axis,
+      preview.thickness !== undefined
+        ? { thickness: preview.thickness, side: preview.thinSide ?? "normal" }
+        : undefined
+    );
+
+    const result = this.session.revolve(profile, {
+      operation: "new",
+      axis,
+      angleDegrees: preview.angle,
+      symmetric: preview.symmetric,
+      secondAngleDegrees: preview.angle2,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Revolve failed");
+    }
+
+    return this.takePreviewMesh(result.value);
+  }
+
+  /**
+   * Meshes of bodies moved from where they were last built, by body key.
+   * Bodies the last rebuild did not make are left out.
+   */
+  previewTransform(preview: Omit<PreviewTransformMessage, "type">): Map<string, TransferableMesh> {
+    if (!this.session) {
+      throw new Error("KernelEngine not initialized");
+    }
+
+    const meshes = new Map<string, TransferableMesh>();
+    for (const bodyKey of preview.bodies) {
+      // Copies the edited transform makes (`id`, `id:1`...) are not built yet
+      const entry = this.bodyMap.get(bodyKey);
+      if (!entry) continue;
+
+      const result = this.session.transformBody(entry.bodyId, preview.transforms);
+      if (!result.success) {
+        throw new Error(result.error?.message || "Transform failed");
+      }
+      meshes.set(bodyKey, this.takePreviewMesh(result.value.bodyId));
+    }
+    return meshes;
+  }
+
+  /**
+   * A sketch to preview from: as last rebuilt, or solved now when the rebuild
+   * stopped before reaching it
+   */
+  private getPreviewSketch(sketchId: string): SketchInfo {
+    const cached = this.sketchCache.get(sketchId);
+    if (cached) {
+      return cached;
+    }
+
+    const sketchMap = this.featuresById?.get(sketchId);
+    if (!this.featuresById || !sketchMap) {
+      throw new Error(`Sketch not found: ${sketchId}`);
+    }
+    this.interpretSketch(sketchMap, this.featuresById);
+
+    const solved = this.sketchCache.get(sketchId);
+    if (!solved) {
+      throw new Error(`Sketch not found: ${sketchId}`);
+    }
+    return solved;
+  }
+
+  /**
+   * Tessellate a preview body, then drop it from the session
+   */
+  private takePreviewMesh(bodyId: BodyId): TransferableMesh {
+    if (!this.session) {
+      throw new Error("KernelEngine not initialized");
+    }
+
+    const mesh = this.session.tessellate(bodyId);
+    this.session.deleteBody(bodyId);
+    return this.toTransferableMesh(mesh);
+  }
+
   /**
    * Dispose of resources
    */
@@ -582,7 +1156,7 @@ export class KernelEngine {
    * Phase 8: Convert mesh with topology hashes to transferable format.
    */
   private toTransferableMeshWithHashes(
-    mesh: Mesh & { faceHashes: Uint32Array; edgeHashes: Uint32Array }
+    mesh: Mesh & { faceHashes: Uint32Array; edgeHashes: Uint32Array; edgeFaces: Int32Array }
   ): TransferableMesh {
     return {
       positions: new Float32Array(mesh.positions),
@@ -593,6 +1167,7 @@ export class KernelEngine {
       edgeMap: mesh.edgeMap ? new Uint32Array(mesh.edgeMap) : undefined,
       faceHashes: new Uint32Array(mesh.faceHashes),
       edgeHashes: new Uint32Array(mesh.edgeHashes),
+      edgeFaces: new Int32Array(mesh.edgeFaces),
     };
   }
 
@@ -741,56 +1316,12 @@ export class KernelEngine {
     const data = this.parseSketchData(sketchMap);
 
     // Build a kernel sketch
-    const sketch = this.session!.createSketch(plane);
-    const pointIdMap = new Map<string, any>();
-    const entityIdMap = new Map<string, any>();
-
-    // Add points
-    const sortedPointIds = Object.keys(data.pointsById).sort();
-    for (const pointId of sortedPointIds) {
-      const point = data.pointsById[pointId];
-      const pid = sketch.addPoint(point.x, point.y, { fixed: point.fixed });
-      pointIdMap.set(point.id, pid);
-    }
-
-    // Add entities
-    const sortedEntityIds = Object.keys(data.entitiesById).sort();
-    for (const entityId of sortedEntityIds) {
-      const entity = data.entitiesById[entityId];
-      if (entity.type === "line" && entity.start && entity.end) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        if (startId !== undefined && endId !== undefined) {
-          const eid = sketch.addLine(startId, endId);
-          entityIdMap.set(entity.id, eid);
-        }
-      }
-      if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        const centerId = pointIdMap.get(entity.center);
-        if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-          const eid = sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-          entityIdMap.set(entity.id, eid);
-        }
-      }
-      if (entity.type === "circle" && entity.center && entity.radius && entity.radius > 0) {
-        const centerId = pointIdMap.get(entity.center);
-        if (centerId !== undefined) {
-          const centerPoint = data.pointsById[entity.center];
-          if (centerPoint) {
-            const edgeX = centerPoint.x + entity.radius;
-            const edgeY = centerPoint.y;
-            const edgePointId = sketch.addPoint(edgeX, edgeY);
-            const eid = sketch.addArc(edgePointId, edgePointId, centerId, true);
-            entityIdMap.set(entity.id, eid);
-          }
-        }
-      }
-    }
+    const { sketch, pointIds, entityIds } = this.buildKernelSketch(plane, data, {
+      circles: "solvable",
+    });
 
     // Apply constraints
-    this.applyConstraints(data, pointIdMap, entityIdMap, sketch);
+    this.applyConstraints(data, pointIds, entityIds, sketch);
 
     const before = new Map<string, { x: number; y: number }>();
     for (const [pid, p] of Object.entries(data.pointsById)) {
@@ -802,10 +1333,9 @@ export class KernelEngine {
 
     // Update sketch data with solved positions
     let maxDelta = 0;
-    const solvedPoints: Array<{ id: string; x: number; y: number }> = [];
 
     for (const [pid, p] of Object.entries(data.pointsById)) {
-      const kernelPid = pointIdMap.get(pid);
+      const kernelPid = pointIds.get(pid);
       if (kernelPid === undefined) continue;
       const solved = sketch.getPoint(kernelPid);
       if (!solved) continue;
@@ -819,12 +1349,14 @@ export class KernelEngine {
 
       p.x = solved.x;
       p.y = solved.y;
-
-      if (maxDelta > 1e-9) {
-        solvedPoints.push({ id: p.id, x: p.x, y: p.y });
-      }
     }
 
+    // Once the solver has moved anything, send back every point
+    const solvedPoints =
+      maxDelta > 1e-9
+        ? Object.values(data.pointsById).map((p) => ({ id: p.id, x: p.x, y: p.y }))
+        : [];
+
     // Compute profile loops
     const profileLoops = computeProfileLoops(data.entitiesById, data.pointsById);
     const referenceInfo: ReferenceSketchInfo = { profileLoops };
@@ -848,14 +1380,84 @@ export class KernelEngine {
     };
   }
 
-  private applyConstraints(
+  /**
+   * Add a cached sketch's points and curves to a new kernel sketch, in ID
+   * order so rebuilds number profile edges the same way.
+   *
+   * Circles become closed arcs through a rim point when they must follow the
+   * solver, fixed circles when only the profile is needed, or are left out.
+   */
+  private buildKernelSketch(
+    plane: DatumPlane,
     data: SketchData,
-    pointIdMap: Map<string, any>,
-    entityIdMap: Map<string, any>,
-    sketch: any
-  ): void {
-    const sortedConstraintIds = Object.keys(data.constraintsById).sort();
-    for (const constraintId of sortedConstraintIds) {
+    options: KernelSketchOptions
+  ): KernelSketch {
+    const sketch = this.requireSession().createSketch(plane);
+    const pointIds = new Map<string, SketchPointId>();
+    const entityIds = new Map<string, SketchEntityId>();
+    const profileEdgeToEntityId = new Map<number, string>();
+
+    for (const pointId of Object.keys(data.pointsById).sort()) {
+      const point = data.pointsById[pointId];
+      pointIds.set(point.id, sketch.addPoint(point.x, point.y, { fixed: point.fixed }));
+    }
+
+    for (const entityId of Object.keys(data.entitiesById).sort()) {
+      const entity = data.entitiesById[entityId];
+      let kernelEid: SketchEntityId | undefined;
+
+      if (entity.type === "line" && entity.start && entity.end) {
+        const startId = pointIds.get(entity.start);
+        const endId = pointIds.get(entity.end);
+        if (startId !== undefined && endId !== undefined) {
+          kernelEid = sketch.addLine(startId, endId, {
+            construction: entity.id === options.constructionLine,
+          });
+        }
+      } else if (entity.type === "arc" && entity.start && entity.end && entity.center) {
+        const startId = pointIds.get(entity.start);
+        const endId = pointIds.get(entity.end);
+        const centerId = pointIds.get(entity.center);
+        if (startId !== undefined && endId !== undefined && centerId !== undefined) {
+          kernelEid = sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
+        }
+      } else if (
+        entity.type === "circle" &&
+        options.circles !== "skip" &&
+        entity.center &&
+        entity.radius &&
+        entity.radius > 0
+      ) {
+        const centerPoint = data.pointsById[entity.center];
+        const centerId = pointIds.get(entity.center);
+        if (centerPoint && centerId !== undefined) {
+          if (options.circles === "solvable") {
+            const edgePointId = sketch.addPoint(centerPoint.x + entity.radius, centerPoint.y);
+            kernelEid = sketch.addArc(edgePointId, edgePointId, centerId, true);
+          } else {
+            kernelEid = sketch.addCircle(centerPoint.x, centerPoint.y, entity.radius).arc;
+          }
+        }
+      }
+
+      if (kernelEid === undefined) continue;
+      entityIds.set(entity.id, kernelEid);
+      if (entity.id !== options.constructionLine) {
+        profileEdgeToEntityId.set(profileEdgeToEntityId.size, entity.id);
+      }
+    }
+
+    return { sketch, pointIds, entityIds, profileEdgeToEntityId };
+  }
+
+  private applyConstraints(
+    data: SketchData,
+    pointIdMap: Map<string, SketchPointId>,
+    entityIdMap: Map<string, SketchEntityId>,
+    sketch: Sketch
+  ): void {
+    const sortedConstraintIds = Object.keys(data.constraintsById).sort();
+    for (const constraintId of sortedConstraintIds) {
       const c = data.constraintsById[constraintId];
       if (!c || typeof c !== "object") continue;
 
@@ -983,39 +1585,13 @@ export class KernelEngine {
     }
   }
 
-  private calculateExtrudeDistance(
-    featureMap: Y.Map<unknown>,
-    direction: number,
-    _sketchPlane?: DatumPlane
-  ): number {
-    const extent = (featureMap.get("extent") as string) || "blind";
-    const baseDistance = (featureMap.get("distance") as number) || 10;
-
-    switch (extent) {
-      case "blind":
-        return baseDistance * direction;
-      case "throughAll":
-        return 1000 * direction;
-      case "toFace":
-      case "toVertex":
-        return baseDistance * direction;
-      default:
-        return baseDistance * direction;
-    }
-  }
-
   private interpretExtrude(
     featureMap: Y.Map<unknown>,
     featureId: string,
-    _featuresById: Y.Map<Y.Map<unknown>>
+    featuresById: Y.Map<Y.Map<unknown>>
   ): FeatureInterpretResult {
     const sketchId = featureMap.get("sketch") as string;
     const op = (featureMap.get("op") as string) || "add";
-    const direction = (featureMap.get("direction") as string) || "normal";
-    const mergeScope = (featureMap.get("mergeScope") as string) || "auto";
-    const targetBodies = (featureMap.get("targetBodies") as string[]) || [];
-    const resultBodyName = (featureMap.get("resultBodyName") as string) || "";
-    const resultBodyColor = (featureMap.get("resultBodyColor") as string) || "";
 
     if (!sketchId) {
       throw new Error("Extrude requires a sketch reference");
@@ -1026,66 +1602,19 @@ export class KernelEngine {
       throw new Error(`Sketch not found: ${sketchId}`);
     }
 
-    // Create sketch and add entities
-    // Phase 8: Track entity order for profile edge mapping
-    const sketch = this.session!.createSketch(sketchInfo.plane);
-    const pointIdMap = new Map<string, any>();
-
-    const sortedPointIds = Object.keys(sketchInfo.data.pointsById).sort();
-    for (const pid of sortedPointIds) {
-      const point = sketchInfo.data.pointsById[pid];
-      const kernelPid = sketch.addPoint(point.x, point.y, { fixed: point.fixed });
-      pointIdMap.set(point.id, kernelPid);
-    }
-
-    // Phase 8: Track entity UUIDs in the order they're added to the profile
-    // This maps profile edge index to sketch entity UUID
-    const profileEdgeToEntityId = new Map<number, string>();
-    let profileEdgeIndex = 0;
-
-    const sortedEntityIds = Object.keys(sketchInfo.data.entitiesById).sort();
-    for (const eid of sortedEntityIds) {
-      const entity = sketchInfo.data.entitiesById[eid];
-      if (entity.type === "line" && entity.start && entity.end) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        if (startId !== undefined && endId !== undefined) {
-          sketch.addLine(startId, endId);
-          // Track this entity's position in the profile
-          profileEdgeToEntityId.set(profileEdgeIndex++, entity.id);
-        }
-      } else if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        const centerId = pointIdMap.get(entity.center);
-        if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-          sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-          profileEdgeToEntityId.set(profileEdgeIndex++, entity.id);
-        }
-      } else if (entity.type === "circle" && entity.center && entity.radius) {
-        const centerPoint = sketchInfo.data.pointsById[entity.center];
-        if (centerPoint) {
-          sketch.addCircle(centerPoint.x, centerPoint.y, entity.radius);
-          profileEdgeToEntityId.set(profileEdgeIndex++, entity.id);
-        }
-      }
-    }
-
-    const profile = sketch.toProfile();
-    if (!profile) {
-      throw new Error("Sketch does not contain a closed profile");
-    }
+    // Phase 8: Track which sketch entity each profile edge came from
+    const { profile, profileEdgeToEntityId } = this.buildSketchProfile(sketchInfo);
 
-    const dirMultiplier = direction === "reverse" ? -1 : 1;
-    const finalDistance = this.calculateExtrudeDistance(
+    const extent = resolveExtrudeExtent(
       featureMap,
-      dirMultiplier,
-      sketchInfo.plane
+      sketchInfo.plane,
+      () => this.buildCurrentReferenceIndex(featuresById),
+      (bodyKey) => this.bodyMap.get(bodyKey)?.bodyId
     );
 
-    const result = this.session!.extrude(profile, {
+    const result = this.requireSession().extrude(profile, {
       operation: "new",
-      distance: finalDistance,
+      ...extent,
     });
 
     if (!result.success) {
@@ -1095,7 +1624,7 @@ export class KernelEngine {
     const extrudedBodyId = result.value;
 
     // Phase 8: Capture OCCT operation history
-    const occtHistory = this.session!.getOperationHistory(extrudedBodyId);
+    const occtHistory = this.requireSession().getOperationHistory(extrudedBodyId);
     const storedHistory: StoredOCCTHistory | undefined = occtHistory
       ? {
           bottomCapHash: occtHistory.bottomCapHash,
@@ -1118,53 +1647,14 @@ export class KernelEngine {
       this.featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
     }
 
-    // Handle cut operation
-    if (op === "cut") {
-      let anySuccess = false;
-      let lastError: string | undefined;
-      for (const [existingId, entry] of this.bodyMap) {
-        const boolResult = this.session!.subtract(entry.bodyId, extrudedBodyId);
-        if (boolResult.success) {
-          this.bodyMap.set(existingId, { ...entry, bodyId: boolResult.value });
-          anySuccess = true;
-        } else {
-          lastError = boolResult.error?.message;
-        }
-      }
-
-      this.session!.deleteBody(extrudedBodyId);
+    this.capturePatternSeed(featureId, extrudedBodyId, op, storedHistory?.faceHashToOrigin);
 
-      if (!anySuccess && this.bodyMap.size > 0 && lastError) {
-        throw new Error(`Cut operation failed: ${lastError}`);
-      }
+    if (op === "cut") {
+      this.cutFromAllBodies(extrudedBodyId, storedHistory?.faceHashToOrigin ?? new Map());
       return { bodyId: null, bodyEntryId: null };
     }
 
-    // Handle add operation with merge logic
-    const finalBodyName = resultBodyName || `Body${this.bodyMap.size + 1}`;
-    const finalBodyColor = resultBodyColor || this.getNextBodyColor();
-
-    if (mergeScope === "new" || this.bodyMap.size === 0) {
-      return {
-        bodyId: extrudedBodyId,
-        bodyEntryId: featureId,
-        bodyName: finalBodyName,
-        bodyColor: finalBodyColor,
-        occtHistory: storedHistory,
-      };
-    }
-
-    // Handle specific merge targets or auto merge
-    // Pass storedHistory so face origins can be tracked through the boolean
-    return this.handleMerge(
-      extrudedBodyId,
-      featureId,
-      mergeScope,
-      targetBodies,
-      finalBodyName,
-      finalBodyColor,
-      storedHistory
-    );
+    return this.addOrMergeBody(extrudedBodyId, featureId, featureMap, storedHistory);
   }
 
   private interpretRevolve(
@@ -1176,10 +1666,6 @@ export class KernelEngine {
     const axisId = (featureMap.get("axis") as string) || "";
     const angleDeg = (featureMap.get("angle") as number) || 360;
     const op = (featureMap.get("op") as string) || "add";
-    const mergeScope = (featureMap.get("mergeScope") as string) || "auto";
-    const targetBodies = (featureMap.get("targetBodies") as string[]) || [];
-    const resultBodyName = (featureMap.get("resultBodyName") as string) || "";
-    const resultBodyColor = (featureMap.get("resultBodyColor") as string) || "";
 
     if (!sketchId) {
       throw new Error("Revolve requires a sketch reference");
@@ -1193,6 +1679,82 @@ export class KernelEngine {
       throw new Error(`Sketch not found: ${sketchId}`);
     }
 
+    // Thin revolves wrap a wall around the open profile
+    const thin = featureMap.get("thin")
+      ? {
+          thickness: (featureMap.get("thickness") as number) || 1,
+          side: (featureMap.get("thinSide") as ThinWallSide) || "normal",
+        }
+      : undefined;
+    const { profile, axis, profileEdgeToEntityId } = this.buildRevolveSketch(
+      sketchInfo,
+      axisId,
+      thin
+    );
+
+    const result = this.requireSession().revolve(profile, {
+      operation: "new",
+      axis,
+      angleDegrees: angleDeg,
+      symmetric: featureMap.get("symmetric") === true,
+      secondAngleDegrees: featureMap.get("twoSided")
+        ? (featureMap.get("angle2") as number) || 0
+        : undefined,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error?.message || "Revolve failed");
+    }
+
+    const revolvedBodyId = result.value;
+
+    // Phase 8: Capture OCCT operation history
+    const occtHistory = this.requireSession().getOperationHistory(revolvedBodyId);
+    const storedHistory: StoredOCCTHistory | undefined = occtHistory
+      ? {
+          bottomCapHash: occtHistory.bottomCapHash,
+          topCapHash: occtHistory.topCapHash,
+          sideFaceMappings: occtHistory.sideFaceMappings.map((m) => ({
+            profileEdgeIndex: m.profileEdgeIndex,
+            generatedFaceHash: m.generatedFaceHash,
+          })),
+          profileEdgeToEntityId,
+        }
+      : undefined;
+
+    // Build initial face origins for tracking through booleans
+    if (storedHistory) {
+      storedHistory.faceHashToOrigin = buildInitialFaceOrigins(storedHistory, featureId, "revolve");
+    }
+
+    // Store sketch info for reference index generation
+    if (sketchInfo.referenceInfo) {
+      this.featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
+    }
+
+    this.capturePatternSeed(featureId, revolvedBodyId, op, storedHistory?.faceHashToOrigin);
+
+    if (op === "cut") {
+      this.cutFromAllBodies(revolvedBodyId, storedHistory?.faceHashToOrigin ?? new Map());
+      return { bodyId: null, bodyEntryId: null };
+    }
+
+    return this.addOrMergeBody(revolvedBodyId, featureId, featureMap, storedHistory);
+  }
+
+  /**
+   * Build a revolve's profile from a cached sketch, leaving out the axis line,
+   * with the world axis it turns about
+   */
+  private buildRevolveSketch(
+    sketchInfo: SketchInfo,
+    axisId: string,
+    thin?: RevolveThinWall
+  ): {
+    profile: SketchProfile;
+    axis: { origin: Vec3; direction: Vec3 };
+    profileEdgeToEntityId: Map<number, string>;
+  } {
     const axisEntity = sketchInfo.data.entitiesById[axisId];
     if (!axisEntity || axisEntity.type !== "line" || !axisEntity.start || !axisEntity.end) {
       throw new Error("Invalid axis selection");
@@ -1204,79 +1766,162 @@ export class KernelEngine {
       throw new Error("Axis references missing sketch points");
     }
 
-    const sketch = this.session!.createSketch(sketchInfo.plane);
-    const pointIdMap = new Map<string, any>();
-    const entityIdMap = new Map<string, any>();
+    // Phase 8: Track entity order for profile edge mapping (excluding the axis)
+    const { sketch, entityIds, profileEdgeToEntityId } = this.buildKernelSketch(
+      sketchInfo.plane,
+      sketchInfo.data,
+      { circles: "skip", constructionLine: axisId }
+    );
+    const profileEntityIds = [...entityIds]
+      .filter(([entityId]) => entityId !== axisId)
+      .map(([, kernelEid]) => kernelEid);
 
-    // Phase 8: Track entity order for profile edge mapping
-    const profileEdgeToEntityId = new Map<number, string>();
-    let profileEdgeIndex = 0;
+    const profile = buildRevolveProfile(sketch.getCoreSketch(), profileEntityIds, thin);
+
+    const axisStartWorld = planeToWorld(sketchInfo.plane, axisStart2d.x, axisStart2d.y);
+    const axisEndWorld = planeToWorld(sketchInfo.plane, axisEnd2d.x, axisEnd2d.y);
+    const axisDir = sub3(axisEndWorld, axisStartWorld);
+
+    return {
+      profile,
+      axis: { origin: axisStartWorld, direction: axisDir },
+      profileEdgeToEntityId,
+    };
+  }
+
+  /**
+   * Build a closed profile from every entity in a cached sketch, recording
+   * which sketch entity each profile edge came from.
+   */
+  private buildSketchProfile(sketchInfo: SketchInfo): {
+    profile: SketchProfile;
+    profileEdgeToEntityId: Map<number, string>;
+  } {
+    const { sketch, profileEdgeToEntityId } = this.buildKernelSketch(
+      sketchInfo.plane,
+      sketchInfo.data,
+      { circles: "fixed" }
+    );
 
-    const sortedPointIds = Object.keys(sketchInfo.data.pointsById).sort();
-    for (const pid of sortedPointIds) {
-      const point = sketchInfo.data.pointsById[pid];
-      const kernelPid = sketch.addPoint(point.x, point.y, { fixed: point.fixed });
-      pointIdMap.set(point.id, kernelPid);
+    const profile = sketch.toProfile();
+    if (!profile) {
+      throw new Error("Sketch does not contain a closed profile");
     }
 
-    const sortedEntityIds = Object.keys(sketchInfo.data.entitiesById).sort();
-    for (const eid of sortedEntityIds) {
-      const entity = sketchInfo.data.entitiesById[eid];
-      if (entity.type === "line" && entity.start && entity.end) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        if (startId !== undefined && endId !== undefined) {
-          const isAxis = entity.id === axisId;
-          const kernelEid = sketch.addLine(startId, endId, { construction: isAxis });
-          entityIdMap.set(entity.id, kernelEid);
-          // Phase 8: Track profile edge mapping (excluding axis)
-          if (!isAxis) {
-            profileEdgeToEntityId.set(profileEdgeIndex++, entity.id);
-          }
-        }
-      }
-      if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-        const startId = pointIdMap.get(entity.start);
-        const endId = pointIdMap.get(entity.end);
-        const centerId = pointIdMap.get(entity.center);
-        if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-          const kernelEid = sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-          entityIdMap.set(entity.id, kernelEid);
-          profileEdgeToEntityId.set(profileEdgeIndex++, entity.id);
-        }
+    return { profile, profileEdgeToEntityId };
+  }
+
+  /**
+   * Build a sweep path from a cached sketch. Uses the given entities, or
+   * every line and arc in the sketch when none are specified.
+   */
+  private buildSketchPath(sketchInfo: SketchInfo, pathEntities: string[]): SketchPath {
+    const { sketch, entityIds } = this.buildKernelSketch(sketchInfo.plane, sketchInfo.data, {
+      circles: "skip",
+    });
+
+    const ids =
+      pathEntities.length > 0 ? pathEntities : Object.keys(sketchInfo.data.entitiesById).sort();
+    const kernelIds: SketchEntityId[] = [];
+    for (const eid of ids) {
+      const kernelEid = entityIds.get(eid);
+      if (kernelEid === undefined) {
+        throw new Error(`Path entity not found: ${eid}`);
       }
+      kernelIds.push(kernelEid);
     }
 
-    const profileEntityIds: any[] = [];
-    for (const eid of sortedEntityIds) {
-      if (eid === axisId) continue;
-      const kernelEid = entityIdMap.get(eid);
-      if (kernelEid !== undefined) profileEntityIds.push(kernelEid);
+    const path = sketch.toPath(kernelIds);
+    if (!path) {
+      throw new Error("Path entities do not form a single connected chain");
     }
+    return path;
+  }
 
-    const profile = sketch.getCoreSketch().toProfile(profileEntityIds);
-    if (!profile) {
-      throw new Error("Sketch does not contain a closed profile");
+  /**
+   * Rib or split profile from a cached sketch: the given lines and arcs, or
+   * all of them, with the entity each path curve came from
+   */
+  private buildProfilePath(
+    sketchInfo: SketchInfo,
+    entities: string[]
+  ): { path: SketchPath; curveEntityIds: (string | undefined)[] } {
+    // Default to every line and arc drawn in the sketch
+    const { entitiesById, pointsById } = sketchInfo.data;
+    let entityIds = entities;
+    if (entityIds.length === 0) {
+      entityIds = Object.keys(entitiesById)
+        .sort()
+        .filter((id) => {
+          const entity = entitiesById[id];
+          return (entity.type === "line" || entity.type === "arc") && !entity.construction;
+        });
     }
+    const path = this.buildSketchPath(sketchInfo, entityIds);
+
+    // Path curves keep their entity's direction, so match them by their ends
+    const curveEntityIds = path.curves.map((curve) => {
+      const ends =
+        curve.kind === "line"
+          ? [curve.p0, curve.p1]
+          : curve.kind === "arc"
+            ? [curve.startAngle, curve.endAngle].map((a) => [
+                curve.center[0] + curve.radius * Math.cos(a),
+                curve.center[1] + curve.radius * Math.sin(a),
+              ])
+            : [];
+      return entityIds.find((id) => {
+        const entity = entitiesById[id];
+        const start = entity.start ? pointsById[entity.start] : undefined;
+        const end = entity.end ? pointsById[entity.end] : undefined;
+        return (
+          ends.length === 2 &&
+          !!start &&
+          !!end &&
+          Math.hypot(ends[0][0] - start.x, ends[0][1] - start.y) < 1e-6 &&
+          Math.hypot(ends[1][0] - end.x, ends[1][1] - end.y) < 1e-6
+        );
+      });
+    });
 
-    const axisStartWorld = planeToWorld(sketchInfo.plane, axisStart2d.x, axisStart2d.y);
-    const axisEndWorld = planeToWorld(sketchInfo.plane, axisEnd2d.x, axisEnd2d.y);
-    const axisDir = sub3(axisEndWorld, axisStartWorld);
+    return { path, curveEntityIds };
+  }
 
-    const result = this.session!.revolve(profile, {
-      operation: "new",
-      axis: { origin: axisStartWorld, direction: axisDir },
-      angleDegrees: angleDeg,
-    });
+  private interpretSweep(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    _featuresById: Y.Map<Y.Map<unknown>>
+  ): FeatureInterpretResult {
+    const profileSketchId = featureMap.get("profileSketch") as string;
+    const pathSketchId = featureMap.get("pathSketch") as string;
+    const pathEntities = (featureMap.get("pathEntities") as string[]) || [];
+    const op = (featureMap.get("op") as string) || "add";
+
+    if (!profileSketchId || !pathSketchId) {
+      throw new Error("Sweep requires a profile sketch and a path sketch");
+    }
+
+    const profileInfo = this.sketchCache.get(profileSketchId);
+    if (!profileInfo) {
+      throw new Error(`Sketch not found: ${profileSketchId}`);
+    }
+    const pathInfo = this.sketchCache.get(pathSketchId);
+    if (!pathInfo) {
+      throw new Error(`Sketch not found: ${pathSketchId}`);
+    }
 
+    const { profile, profileEdgeToEntityId } = this.buildSketchProfile(profileInfo);
+    const path = this.buildSketchPath(pathInfo, pathEntities);
+
+    const result = this.requireSession().sweep(profile, path, { operation: "new" });
     if (!result.success) {
-      throw new Error(result.error?.message || "Revolve failed");
+      throw new Error(result.error?.message || "Sweep failed");
     }
 
-    const revolvedBodyId = result.value;
+    const sweptBodyId = result.value;
 
-    // Phase 8: Capture OCCT operation history
-    const occtHistory = this.session!.getOperationHistory(revolvedBodyId);
+    // Phase 8: Capture OCCT operation history (caps are the path start/end faces)
+    const occtHistory = this.requireSession().getOperationHistory(sweptBodyId);
     const storedHistory: StoredOCCTHistory | undefined = occtHistory
       ? {
           bottomCapHash: occtHistory.bottomCapHash,
@@ -1294,46 +1939,128 @@ export class KernelEngine {
       storedHistory.faceHashToOrigin = buildInitialFaceOrigins(storedHistory, featureId);
     }
 
-    // Store sketch info for reference index generation
-    if (sketchInfo.referenceInfo) {
-      this.featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
+    // Store profile sketch info for reference index generation
+    if (profileInfo.referenceInfo) {
+      this.featureToSketchInfo.set(featureId, profileInfo.referenceInfo);
     }
 
-    // Handle cut operation
+    this.capturePatternSeed(featureId, sweptBodyId, op, storedHistory?.faceHashToOrigin);
+
     if (op === "cut") {
-      for (const [existingId, entry] of this.bodyMap) {
-        const boolResult = this.session!.subtract(entry.bodyId, revolvedBodyId);
-        if (boolResult.success) {
-          this.bodyMap.set(existingId, { ...entry, bodyId: boolResult.value });
-        }
+      this.cutFromAllBodies(sweptBodyId, storedHistory?.faceHashToOrigin ?? new Map());
+      return { bodyId: null, bodyEntryId: null };
+    }
+
+    return this.addOrMergeBody(sweptBodyId, featureId, featureMap, storedHistory);
+  }
+
+  private interpretLoft(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    _featuresById: Y.Map<Y.Map<unknown>>
+  ): FeatureInterpretResult {
+    const sketchIds = (featureMap.get("sketches") as string[]) || [];
+    const ruled = featureMap.get("ruled") === true;
+    const startTangency = (featureMap.get("startTangency") as LoftTangency) || "none";
+    const endTangency = (featureMap.get("endTangency") as LoftTangency) || "none";
+    const op = (featureMap.get("op") as string) || "add";
+
+    if (sketchIds.length < 2) {
+      throw new Error("Loft requires at least two profile sketches");
+    }
+
+    const profiles: SketchProfile[] = [];
+    let profileEdgeToEntityId = new Map<number, string>();
+    let firstSketchInfo: SketchInfo | undefined;
+
+    for (const sketchId of sketchIds) {
+      const sketchInfo = this.sketchCache.get(sketchId);
+      if (!sketchInfo) {
+        throw new Error(`Sketch not found: ${sketchId}`);
+      }
+      const built = this.buildSketchProfile(sketchInfo);
+      profiles.push(built.profile);
+      // Side faces are keyed by the edges of the first profile
+      if (!firstSketchInfo) {
+        firstSketchInfo = sketchInfo;
+        profileEdgeToEntityId = built.profileEdgeToEntityId;
       }
-      this.session!.deleteBody(revolvedBodyId);
+    }
+
+    const result = this.requireSession().loft(profiles, {
+      operation: "new",
+      ruled,
+      startTangency,
+      endTangency,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Loft failed");
+    }
+
+    const loftedBodyId = result.value;
+
+    // Phase 8: Capture OCCT operation history (caps are the first/last profiles)
+    const occtHistory = this.requireSession().getOperationHistory(loftedBodyId);
+    const storedHistory: StoredOCCTHistory | undefined = occtHistory
+      ? {
+          bottomCapHash: occtHistory.bottomCapHash,
+          topCapHash: occtHistory.topCapHash,
+          sideFaceMappings: occtHistory.sideFaceMappings.map((m) => ({
+            profileEdgeIndex: m.profileEdgeIndex,
+            generatedFaceHash: m.generatedFaceHash,
+          })),
+          profileEdgeToEntityId,
+        }
+      : undefined;
+
+    // Build initial face origins for tracking through booleans
+    if (storedHistory) {
+      storedHistory.faceHashToOrigin = buildInitialFaceOrigins(storedHistory, featureId, "loft");
+    }
+
+    // Store first profile sketch info for reference index generation
+    if (firstSketchInfo?.referenceInfo) {
+      this.featureToSketchInfo.set(featureId, firstSketchInfo.referenceInfo);
+    }
+
+    this.capturePatternSeed(featureId, loftedBodyId, op, storedHistory?.faceHashToOrigin);
+
+    if (op === "cut") {
+      this.cutFromAllBodies(loftedBodyId, storedHistory?.faceHashToOrigin ?? new Map());
       return { bodyId: null, bodyEntryId: null };
     }
 
-    // Handle add operation
-    const finalBodyName = resultBodyName || `Body${this.bodyMap.size + 1}`;
-    const finalBodyColor = resultBodyColor || this.getNextBodyColor();
+    return this.addOrMergeBody(loftedBodyId, featureId, featureMap, storedHistory);
+  }
+
+  /**
+   * Keep the body an add feature made as a new body, or merge it into the
+   * bodies its merge scope picks, named and colored as the feature sets
+   */
+  private addOrMergeBody(
+    bodyId: BodyId,
+    featureId: string,
+    featureMap: Y.Map<unknown>,
+    history: StoredOCCTHistory | undefined
+  ): FeatureInterpretResult {
+    const mergeScope = (featureMap.get("mergeScope") as string) || "auto";
+    const targetBodies = (featureMap.get("targetBodies") as string[]) || [];
+    const bodyName = (featureMap.get("resultBodyName") as string) || `Body${this.bodyMap.size + 1}`;
+    const bodyColor = (featureMap.get("resultBodyColor") as string) || this.getNextBodyColor();
 
     if (mergeScope === "new" || this.bodyMap.size === 0) {
-      return {
-        bodyId: revolvedBodyId,
-        bodyEntryId: featureId,
-        bodyName: finalBodyName,
-        bodyColor: finalBodyColor,
-        occtHistory: storedHistory,
-      };
+      return { bodyId, bodyEntryId: featureId, bodyName, bodyColor, occtHistory: history };
     }
 
-    // Pass storedHistory so face origins can be tracked through the boolean
+    // Pass the history so face origins can be tracked through the boolean
     return this.handleMerge(
-      revolvedBodyId,
+      bodyId,
       featureId,
       mergeScope,
       targetBodies,
-      finalBodyName,
-      finalBodyColor,
-      storedHistory
+      bodyName,
+      bodyColor,
+      history
     );
   }
 
@@ -1356,7 +2083,10 @@ export class KernelEngine {
         const targetEntry = this.bodyMap.get(targetId);
         if (targetEntry) {
           // Use unionWithHistory to track faces through the boolean
-          const unionResult = this.session!.unionWithHistory(targetEntry.bodyId, currentBodyId);
+          const unionResult = this.requireSession().unionWithHistory(
+            targetEntry.bodyId,
+            currentBodyId
+          );
           if (unionResult.success) {
             const result = unionResult.value;
 
@@ -1370,10 +2100,10 @@ export class KernelEngine {
             );
 
             if (currentBodyId !== result.bodyId) {
-              this.session!.deleteBody(currentBodyId);
+              this.requireSession().deleteBody(currentBodyId);
             }
             if (targetEntry.bodyId !== result.bodyId) {
-              this.session!.deleteBody(targetEntry.bodyId);
+              this.requireSession().deleteBody(targetEntry.bodyId);
             }
             currentBodyId = result.bodyId;
             if (!mergedIntoId) {
@@ -1425,7 +2155,7 @@ export class KernelEngine {
 
     for (const [existingId, entry] of this.bodyMap) {
       // Use unionWithHistory to track faces through the boolean
-      const unionResult = this.session!.unionWithHistory(entry.bodyId, currentBodyId);
+      const unionResult = this.requireSession().unionWithHistory(entry.bodyId, currentBodyId);
       if (unionResult.success) {
         const result = unionResult.value;
 
@@ -1439,10 +2169,10 @@ export class KernelEngine {
         );
 
         if (currentBodyId !== result.bodyId) {
-          this.session!.deleteBody(currentBodyId);
+          this.requireSession().deleteBody(currentBodyId);
         }
         if (entry.bodyId !== result.bodyId) {
-          this.session!.deleteBody(entry.bodyId);
+          this.requireSession().deleteBody(entry.bodyId);
         }
         currentBodyId = result.bodyId;
         if (!mergedIntoId) {
@@ -1485,23 +2215,1635 @@ export class KernelEngine {
     };
   }
 
-  private interpretBoolean(featureMap: Y.Map<unknown>): FeatureInterpretResult {
-    const operation = (featureMap.get("operation") as string) || "union";
-    const targetId = featureMap.get("target") as string;
-    const toolId = featureMap.get("tool") as string;
-
-    if (!targetId || !toolId) {
-      throw new Error("Boolean requires target and tool body references");
+  private interpretShell(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): FeatureInterpretResult {
+    const thickness = (featureMap.get("thickness") as number) ?? 0;
+    const direction = (featureMap.get("direction") as ShellDirection) || "inside";
+    const openFaceRefs = (featureMap.get("openFaces") as string[]) || [];
+    let targetId = (featureMap.get("targetBody") as string) || null;
+
+    // Resolve open faces against the bodies built so far
+    const openFacesByBody = new Map<string, number[]>();
+    if (openFaceRefs.length > 0) {
+      const referenceIndex = this.buildCurrentReferenceIndex(featuresById);
+
+      for (const ref of openFaceRefs) {
+        const resolved = resolvePersistentRef(ref, referenceIndex);
+        if (resolved.status === "not_found") {
+          throw new Error(`Shell open face not found: ${ref}`);
+        }
+        if (resolved.status === "ambiguous") {
+          throw new Error(`Shell open face is ambiguous: ${ref}`);
+        }
+        const indices = openFacesByBody.get(resolved.bodyKey) ?? [];
+        indices.push(resolved.index);
+        openFacesByBody.set(resolved.bodyKey, indices);
+      }
+    }
+
+    if (!targetId) {
+      if (openFacesByBody.size > 0) {
+        [targetId] = openFacesByBody.keys();
+      } else if (this.bodyMap.size === 1) {
+        [targetId] = this.bodyMap.keys();
+      } else {
+        throw new Error("Shell requires a target body");
+      }
+    }
+
+    const targetEntry = this.bodyMap.get(targetId);
+    if (!targetEntry) {
+      throw new Error(`Target body not found: ${targetId}`);
+    }
+    if ([...openFacesByBody.keys()].some((bodyKey) => bodyKey !== targetId)) {
+      throw new Error("Shell open faces must belong to the target body");
+    }
+
+    const result = this.requireSession().shell(targetEntry.bodyId, {
+      thickness,
+      direction,
+      openFaces: openFacesByBody.get(targetId) ?? [],
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Shell failed");
+    }
+
+    // New walls and rims belong to the shell
+    this.replaceModifiedBody(targetId, result.value, featureId, "shell");
+
+    return {
+      bodyId: null,
+      bodyEntryId: targetId,
+      bodyName: targetEntry.name,
+      bodyColor: targetEntry.color,
+    };
+  }
+
+  private interpretFillet(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const edgeSets = (featureMap.get("edgeSets") as FilletEdgeSet[]) || [];
+
+    for (const [bodyKey, sets] of this.resolveEdgeSets(edgeSets, featuresById, "Fillet")) {
+      const entry = this.getBodyEntry(bodyKey, "Fillet");
+      const result = this.requireSession().filletEdges(
+        entry.bodyId,
+        sets.map(({ set, edges }) => ({ edges, radius: set.radius }))
+      );
+      if (!result.success) {
+        throw new Error(result.error?.message || "Fillet failed");
+      }
+      this.replaceModifiedBody(bodyKey, result.value, featureId, "fillet");
+    }
+  }
+
+  private interpretChamfer(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const edgeSets = (featureMap.get("edgeSets") as ChamferEdgeSet[]) || [];
+
+    for (const [bodyKey, sets] of this.resolveEdgeSets(edgeSets, featuresById, "Chamfer")) {
+      const entry = this.getBodyEntry(bodyKey, "Chamfer");
+      const result = this.requireSession().chamferEdges(
+        entry.bodyId,
+        sets.map(({ set, edges }) => ({
+          edges,
+          distance: set.distance,
+          distance2: set.distance2,
+          angleDegrees: set.angle,
+        }))
+      );
+      if (!result.success) {
+        throw new Error(result.error?.message || "Chamfer failed");
+      }
+      this.replaceModifiedBody(bodyKey, result.value, featureId, "chamfer");
+    }
+  }
+
+  private interpretDraft(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const faceRefs = (featureMap.get("faces") as string[]) || [];
+    const angle = (featureMap.get("angle") as number) ?? 0;
+    const pullDirection = (featureMap.get("pullDirection") as Vec3) || [0, 0, 1];
+    const planeRef = featureMap.get("neutralPlane") as MirrorPlaneRef | undefined;
+    const neutralPlane = planeRef
+      ? this.getReferencePlane(planeRef, featuresById, "Draft neutral")
+      : { origin: [0, 0, 0] as Vec3, normal: pullDirection };
+
+    // Keep each face's position in the list to name the drafted face after
+    const facesByBody = this.resolveFacesByBody(faceRefs, featuresById, "Draft");
+
+    for (const [bodyKey, faces] of facesByBody) {
+      const entry = this.getBodyEntry(bodyKey, "Draft");
+      const result = this.requireSession().draft(entry.bodyId, {
+        faces: faces.map((face) => face.index),
+        angleDegrees: angle,
+        pullDirection,
+        neutralPlane,
+      });
+      if (!result.success) {
+        throw new Error(result.error?.message || "Draft failed");
+      }
+      // Drafted faces belong to the draft, named by their place in its face list
+      const origins = this.replaceModifiedBody(bodyKey, result.value, featureId, "draft");
+      faces.forEach(({ position }, i) => {
+        for (const hash of result.value.draftedFaceHashes[i]) {
+          origins.set(hash, {
+            sourceFeatureId: featureId,
+            faceType: "unknown",
+            featureType: "draft",
+            draftFace: position,
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Resolve face refs against the bodies built so far, grouped by body. Each
+   * face keeps the position of its ref in the list, which names the faces a
+   * feature makes from it.
+   */
+  private resolveFacesByBody(
+    faceRefs: string[],
+    featuresById: Y.Map<Y.Map<unknown>>,
+    label: string
+  ): Map<string, Array<{ index: number; position: number }>> {
+    const referenceIndex = this.buildCurrentReferenceIndex(featuresById);
+    const facesByBody = new Map<string, Array<{ index: number; position: number }>>();
+    faceRefs.forEach((ref, position) => {
+      const resolved = resolvePersistentRef(ref, referenceIndex);
+      if (resolved.status === "not_found") {
+        throw new Error(`${label} face not found: ${ref}`);
+      }
+      if (resolved.status === "ambiguous") {
+        throw new Error(`${label} face is ambiguous: ${ref}`);
+      }
+      const faces = facesByBody.get(resolved.bodyKey) ?? [];
+      if (!faces.some((face) => face.index === resolved.index)) {
+        faces.push({ index: resolved.index, position });
+      }
+      facesByBody.set(resolved.bodyKey, faces);
+    });
+
+    if (facesByBody.size === 0) {
+      throw new Error(`${label} requires at least one face`);
+    }
+    return facesByBody;
+  }
+
+  private interpretOffsetFace(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const faceRefs = (featureMap.get("faces") as string[]) || [];
+    const distance = (featureMap.get("distance") as number) ?? 0;
+
+    for (const [bodyKey, faces] of this.resolveFacesByBody(faceRefs, featuresById, "Offset")) {
+      const entry = this.getBodyEntry(bodyKey, "Offset");
+      const result = this.requireSession().offsetFaces(entry.bodyId, {
+        faces: faces.map((face) => face.index),
+        distance,
+      });
+      if (!result.success) {
+        throw new Error(result.error?.message || "Offset face failed");
+      }
+      // Moved faces belong to the offset, named by their place in its face list
+      const origins = this.replaceModifiedBody(bodyKey, result.value, featureId, "offsetFace");
+      faces.forEach(({ position }, i) => {
+        for (const hash of result.value.offsetFaceHashes[i]) {
+          origins.set(hash, {
+            sourceFeatureId: featureId,
+            faceType: "unknown",
+            featureType: "offsetFace",
+            offsetFace: position,
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Thicken faces of one body into a new body keyed by the feature ID. The
+   * original faces and their offset copies are named by side and position in
+   * the face list; the walls between them share one generic origin.
+   */
+  private interpretThicken(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const faceRefs = (featureMap.get("faces") as string[]) || [];
+    const thickness = (featureMap.get("thickness") as number) ?? 0;
+
+    const facesByBody = this.resolveFacesByBody(faceRefs, featuresById, "Thicken");
+    if (facesByBody.size > 1) {
+      throw new Error("Thicken faces must all be on one body");
+    }
+    const [[bodyKey, faces]] = facesByBody;
+    const entry = this.getBodyEntry(bodyKey, "Thicken");
+    const result = this.requireSession().thicken(entry.bodyId, {
+      faces: faces.map((face) => face.index),
+      thickness,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Thicken failed");
+    }
+
+    const origins = new Map<number, FaceOrigin>();
+    const thickenOrigin = (side: string, face: number): FaceOrigin => ({
+      sourceFeatureId: featureId,
+      faceType: "unknown",
+      featureType: "thicken",
+      thickenFace: { side, face },
+    });
+    faces.forEach(({ position }, i) => {
+      result.value.startFaceHashes[i].forEach((hash) =>
+        origins.set(hash, thickenOrigin("start", position))
+      );
+      result.value.offsetFaceHashes[i].forEach((hash) =>
+        origins.set(hash, thickenOrigin("offset", position))
+      );
+    });
+    for (const hash of result.value.sideFaceHashes) {
+      origins.set(hash, {
+        sourceFeatureId: featureId,
+        faceType: "unknown",
+        featureType: "thicken",
+      });
+    }
+
+    this.bodyMap.set(featureId, {
+      bodyId: result.value.bodyId,
+      name: `Body${this.bodyMap.size + 1}`,
+      color: this.getNextBodyColor(),
+      sourceFeatureId: featureId,
+      occtHistory: {
+        sideFaceMappings: [],
+        profileEdgeToEntityId: new Map(),
+        faceHashToOrigin: origins,
+      },
+    });
+  }
+
+  /**
+   * Remove faces from the bodies they are on. The faces extended to close
+   * each gap keep their names.
+   */
+  private interpretDeleteFace(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const faceRefs = (featureMap.get("faces") as string[]) || [];
+
+    for (const [bodyKey, faces] of this.resolveFacesByBody(faceRefs, featuresById, "Delete")) {
+      const entry = this.getBodyEntry(bodyKey, "Delete");
+      const result = this.requireSession().deleteFaces(entry.bodyId, {
+        faces: faces.map((face) => face.index),
+      });
+      if (!result.success) {
+        throw new Error(result.error?.message || "Delete face failed");
+      }
+      this.replaceModifiedBody(bodyKey, result.value, featureId, "deleteFace");
+    }
+  }
+
+  /**
+   * Move planar faces onto a plane feature or planar face. Faces left on the
+   * plane belong to the replace face; the walls extended or trimmed to meet
+   * it keep their names.
+   */
+  private interpretReplaceFace(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const faceRefs = (featureMap.get("faces") as string[]) || [];
+    const planeRef = featureMap.get("plane") as MirrorPlaneRef;
+    const plane = this.getReferencePlane(planeRef, featuresById, "Replace face");
+
+    for (const [bodyKey, faces] of this.resolveFacesByBody(faceRefs, featuresById, "Replace")) {
+      const entry = this.getBodyEntry(bodyKey, "Replace");
+      const result = this.requireSession().replaceFaces(entry.bodyId, {
+        faces: faces.map((face) => face.index),
+        plane,
+      });
+      if (!result.success) {
+        throw new Error(result.error?.message || "Replace face failed");
+      }
+      const origins = this.replaceModifiedBody(bodyKey, result.value, featureId, "replaceFace");
+      for (const hash of result.value.replacedFaceHashes) {
+        origins.set(hash, {
+          sourceFeatureId: featureId,
+          faceType: "unknown",
+          featureType: "replaceFace",
+          replacedFace: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * Start a sheet metal part: the sketch profile given the sheet thickness, as
+   * a new body keyed by the feature ID. Its faces are named like an extrude's,
+   * so the outline edges flanges are bent from have stable refs.
+   */
+  private interpretBaseFlange(featureMap: Y.Map<unknown>, featureId: string): void {
+    const sketchId = featureMap.get("sketch") as string;
+    const thickness = featureMap.get("thickness") as number;
+    const bendRadius = featureMap.get("bendRadius") as number;
+    const kFactor = (featureMap.get("kFactor") as number) ?? 0.44;
+    const reverse = (featureMap.get("reverse") as boolean) ?? false;
+
+    const sketchInfo = this.sketchCache.get(sketchId);
+    if (!sketchInfo) {
+      throw new Error(`Sketch not found: ${sketchId}`);
+    }
+    const { profile, profileEdgeToEntityId } = this.buildSketchProfile(sketchInfo);
+    const sheet: SheetMetalProfile = { profile, thickness, bendRadius, kFactor, reverse };
+
+    const bodyId = this.extrudeSheet(sheet);
+    const occtHistory = this.requireSession().getOperationHistory(bodyId);
+    const storedHistory: StoredOCCTHistory = {
+      bottomCapHash: occtHistory?.bottomCapHash,
+      topCapHash: occtHistory?.topCapHash,
+      sideFaceMappings: occtHistory?.sideFaceMappings ?? [],
+      profileEdgeToEntityId,
+    };
+    storedHistory.faceHashToOrigin = buildInitialFaceOrigins(
+      storedHistory,
+      featureId,
+      "baseFlange"
+    );
+
+    if (sketchInfo.referenceInfo) {
+      this.featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
+    }
+
+    this.bodyMap.set(featureId, {
+      bodyId,
+      name: `Body${this.bodyMap.size + 1}`,
+      color: this.getNextBodyColor(),
+      sourceFeatureId: featureId,
+      occtHistory: storedHistory,
+    });
+    this.sheetMetalParts.set(featureId, {
+      bodyKey: featureId,
+      profile: sheet,
+      profileEdgeToEntityId,
+      flanges: [],
+    });
+  }
+
+  /**
+   * Bend a flange from an outline edge of a sheet metal part. The flange's
+   * faces are named by their role in the flange.
+   */
+  private interpretEdgeFlange(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const edgeRef = featureMap.get("edge") as string;
+    const angle = (featureMap.get("angle") as number) ?? 90;
+    const length = featureMap.get("length") as number;
+    const bendRadius = featureMap.get("bendRadius") as number | undefined;
+
+    const resolved = resolvePersistentRef(edgeRef, this.buildCurrentReferenceIndex(featuresById));
+    if (resolved.status === "not_found") {
+      throw new Error(`Edge flange edge not found: ${edgeRef}`);
+    }
+    if (resolved.status === "ambiguous") {
+      throw new Error(`Edge flange edge is ambiguous: ${edgeRef}`);
+    }
+    const part = [...this.sheetMetalParts.values()].find(
+      (candidate) => candidate.bodyKey === resolved.bodyKey
+    );
+    if (!part) {
+      throw new Error("Edge flange edge is not on a folded sheet metal part");
+    }
+
+    const entry = this.getBodyEntry(resolved.bodyKey, "Edge flange");
+    const result = this.requireSession().edgeFlange(entry.bodyId, {
+      edge: resolved.index as EdgeId,
+      profile: part.profile,
+      angleDegrees: angle,
+      length,
+      bendRadius,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Edge flange failed");
+    }
+    const origins = this.replaceModifiedBody(
+      resolved.bodyKey,
+      result.value,
+      featureId,
+      "edgeFlange"
+    );
+    for (const [role, hashes] of Object.entries(result.value.flangeFaceHashes)) {
+      for (const hash of hashes) {
+        origins.set(hash, {
+          sourceFeatureId: featureId,
+          faceType: "unknown",
+          featureType: "edgeFlange",
+          sheetMetalFace: role,
+        });
+      }
+    }
+    part.flanges.push(result.value.flange);
+  }
+
+  /**
+   * Replace a folded sheet metal part with its flat pattern, given the sheet
+   * thickness. The pattern is built from the base flange and its flanges
+   * alone; other features on the folded part are not carried over.
+   */
+  private interpretUnfold(featureMap: Y.Map<unknown>, featureId: string): void {
+    const baseFlangeId = featureMap.get("baseFlange") as string;
+    const part = this.sheetMetalParts.get(baseFlangeId);
+    const entry = part && this.bodyMap.get(part.bodyKey);
+    if (!part || !entry) {
+      throw new Error(`No folded sheet metal part for base flange ${baseFlangeId}`);
+    }
+
+    const { profile } = part.profile;
+    const pattern = computeFlatPattern(profile, part.profile, part.flanges);
+    const flat: SketchProfile = { ...profile, loops: pattern.loops };
+
+    // Outline curves the pattern kept are still named after their sketch entities
+    const profileEdgeToEntityId = new Map<number, string>();
+    pattern.sourceCurves.forEach((sourceCurve, i) => {
+      const entityId =
+        sourceCurve === null ? undefined : part.profileEdgeToEntityId.get(sourceCurve);
+      if (entityId) {
+        profileEdgeToEntityId.set(i, entityId);
+      }
+    });
+
+    const bodyId = this.extrudeSheet({ ...part.profile, profile: flat });
+    const occtHistory = this.requireSession().getOperationHistory(bodyId);
+    const storedHistory: StoredOCCTHistory = {
+      bottomCapHash: occtHistory?.bottomCapHash,
+      topCapHash: occtHistory?.topCapHash,
+      sideFaceMappings: occtHistory?.sideFaceMappings ?? [],
+      profileEdgeToEntityId,
+    };
+    storedHistory.faceHashToOrigin = buildInitialFaceOrigins(storedHistory, featureId, "unfold");
+
+    this.requireSession().deleteBody(entry.bodyId);
+    this.bodyMap.set(part.bodyKey, { ...entry, bodyId, occtHistory: storedHistory });
+    this.sheetMetalParts.delete(baseFlangeId);
+    this.flatPatterns.push({ featureId, baseFlangeId, pattern });
+  }
+
+  /**
+   * Give a sheet metal profile its thickness, as a new body
+   */
+  private extrudeSheet(sheet: SheetMetalProfile): BodyId {
+    const { normal } = sheet.profile.plane.surface;
+    const result = this.requireSession().extrude(sheet.profile, {
+      operation: "new",
+      distance: sheet.thickness,
+      direction: mul3(normal, sheet.reverse ? -1 : 1),
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Sheet metal extrude failed");
+    }
+    return result.value;
+  }
+
+  private interpretHole(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const sketchId = featureMap.get("sketch") as string;
+    const sketchInfo = this.sketchCache.get(sketchId);
+    if (!sketchInfo) {
+      throw new Error(`Sketch ${sketchId} not found or not yet processed`);
+    }
+
+    const pointIds = (featureMap.get("points") as string[]) || [];
+    const holeType = ((featureMap.get("holeType") as HoleType) || "simple") as HoleType;
+    const diameter = featureMap.get("diameter") as number;
+    const extent = (featureMap.get("extent") as string) || "blind";
+    const thread = featureMap.get("thread") as HoleThread | undefined;
+
+    // Holes drill into the face the sketch sits on, against its normal
+    const { normal } = sketchInfo.plane.surface;
+    const direction = mul3(normal, featureMap.get("reverse") ? 1 : -1);
+
+    const origins = pointIds.map((pointId) => {
+      const point = sketchInfo.data.pointsById[pointId];
+      if (!point) {
+        throw new Error(`Hole point not found in sketch: ${pointId}`);
+      }
+      return planeToWorld(sketchInfo.plane, point.x, point.y);
+    });
+
+    let depths: number[];
+    if (extent === "throughAll") {
+      depths = origins.map(() => THROUGH_ALL_DISTANCE);
+    } else if (extent === "toFace") {
+      const extentRef = featureMap.get("extentRef") as string | undefined;
+      if (!extentRef) {
+        throw new Error("Hole up to face requires an extentRef");
+      }
+      const limit = this.getReferencePlane(
+        { kind: "faceRef", ref: extentRef },
+        featuresById,
+        "Hole limit"
+      );
+      depths = origins.map((origin) => {
+        const depth =
+          dot3(sub3(limit.origin, origin), limit.normal) / dot3(direction, limit.normal);
+        if (!(depth > 0) || !Number.isFinite(depth)) {
+          throw new Error("Hole limit face is not in front of the hole");
+        }
+        return depth;
+      });
+    } else {
+      depths = origins.map(() => (featureMap.get("depth") as number) || 10);
+    }
+
+    const tipAngle = featureMap.get("tipAngle") as number | undefined;
+    const tool = this.requireSession().createHoleTool({
+      holes: origins.map((origin, i) => ({ origin, depth: depths[i] })),
+      direction,
+      diameter,
+      counterbore:
+        holeType === "counterbore"
+          ? {
+              diameter: featureMap.get("counterboreDiameter") as number,
+              depth: featureMap.get("counterboreDepth") as number,
+            }
+          : undefined,
+      countersink:
+        holeType === "countersink"
+          ? {
+              diameter: featureMap.get("countersinkDiameter") as number,
+              angleDegrees: (featureMap.get("countersinkAngle") as number) || 90,
+            }
+          : undefined,
+      tipAngleDegrees: extent === "throughAll" ? undefined : tipAngle,
+    });
+    if (!tool.success) {
+      throw new Error(tool.error?.message || "Hole failed");
+    }
+
+    // Faces cut by the hole are named by their role and the hole's sketch point
+    const toolOrigins = new Map<number, FaceOrigin>();
+    for (const face of tool.value.faces) {
+      toolOrigins.set(face.hash, {
+        sourceFeatureId: featureId,
+        entityId: pointIds[face.hole],
+        faceType: "unknown",
+        featureType: "hole",
+        holeFace: face.role,
+      });
+    }
+    this.cutFromAllBodies(tool.value.bodyId, toolOrigins);
+
+    origins.forEach((origin, i) => {
+      this.holeCallouts.push({
+        featureId,
+        pointId: pointIds[i],
+        origin,
+        direction,
+        holeType,
+        diameter,
+        ...(extent === "throughAll" ? {} : { depth: depths[i] }),
+        ...(thread ? { thread } : {}),
+      });
+    });
+  }
+
+  /**
+   * Helix of a helix feature, starting startOffset along its axis
+   */
+  private resolveHelix(featuresById: Y.Map<Y.Map<unknown>>, helixId: string): HelixOptions {
+    const helixFeature = featuresById.get(helixId);
+    if (!helixFeature || helixFeature.get("type") !== "helix") {
+      throw new Error(`Helix not found: ${helixId}`);
+    }
+
+    const axis = this.getAxis(featuresById, helixFeature.get("axis") as string, "Helix");
+    const direction = normalize3(axis.direction);
+    const pitch = helixFeature.get("pitch") as number;
+    const height =
+      helixFeature.get("definition") === "height"
+        ? (helixFeature.get("height") as number)
+        : ((helixFeature.get("turns") as number) ?? 1) * pitch;
+    if (!(pitch > 0) || !(height > 0)) {
+      throw new Error("Helix pitch and height must be positive");
+    }
+
+    const startOffset = (helixFeature.get("startOffset") as number) || 0;
+    return {
+      origin: add3(axis.origin, mul3(direction, startOffset)),
+      axis: mul3(direction, helixFeature.get("reverse") ? -1 : 1),
+      pitch,
+      height,
+      leftHanded: helixFeature.get("handedness") === "left",
+      taperAngleDegrees: (helixFeature.get("taperAngle") as number) || 0,
+    };
+  }
+
+  private interpretThread(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const helix = this.resolveHelix(featuresById, featureMap.get("helix") as string);
+    const faceRef = featureMap.get("face") as string;
+
+    const resolved = resolvePersistentRef(faceRef, this.buildCurrentReferenceIndex(featuresById));
+    if (resolved.status === "not_found") {
+      throw new Error(`Thread face not found: ${faceRef}`);
+    }
+    if (resolved.status === "ambiguous") {
+      throw new Error(`Thread face is ambiguous: ${faceRef}`);
+    }
+
+    const entry = this.getBodyEntry(resolved.bodyKey, "Thread");
+    const result = this.requireSession().thread(entry.bodyId, {
+      face: resolved.index,
+      helix,
+      depth: featureMap.get("depth") as number | undefined,
+      profileAngleDegrees: featureMap.get("profileAngle") as number | undefined,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Thread failed");
+    }
+    // Flank faces are named by the side of the thread they face
+    const origins = this.replaceModifiedBody(resolved.bodyKey, result.value, featureId, "thread");
+    result.value.flankFaceHashes.forEach((hashes, flank) => {
+      for (const hash of hashes) {
+        origins.set(hash, {
+          sourceFeatureId: featureId,
+          faceType: "unknown",
+          featureType: "thread",
+          threadFlank: flank,
+        });
+      }
+    });
+  }
+
+  private interpretRib(featureMap: Y.Map<unknown>, featureId: string): void {
+    const sketchId = featureMap.get("sketch") as string;
+    const sketchInfo = this.sketchCache.get(sketchId);
+    if (!sketchInfo) {
+      throw new Error(`Sketch ${sketchId} not found or not yet processed`);
+    }
+
+    const { path, curveEntityIds } = this.buildProfilePath(
+      sketchInfo,
+      (featureMap.get("entities") as string[]) || []
+    );
+
+    let targetId = (featureMap.get("targetBody") as string) || null;
+    if (!targetId) {
+      if (this.bodyMap.size === 1) {
+        [targetId] = this.bodyMap.keys();
+      } else {
+        throw new Error("Rib requires a target body");
+      }
+    }
+    const targetEntry = this.bodyMap.get(targetId);
+    if (!targetEntry) {
+      throw new Error(`Target body not found: ${targetId}`);
+    }
+
+    const thickness = (featureMap.get("thickness") as number) || 1;
+    const thicknessSide = (featureMap.get("thicknessSide") as string) || "midplane";
+    const oneSide: ThinWallSide = featureMap.get("flipThickness") ? "reverse" : "normal";
+    const materialSide = featureMap.get("materialSide") as RibSide | "auto" | undefined;
+
+    const result = this.requireSession().rib(targetEntry.bodyId, {
+      path,
+      // Both sides puts the full thickness on each side of the sketch plane
+      thickness: thicknessSide === "bothSides" ? 2 * thickness : thickness,
+      thicknessSide: thicknessSide === "oneSide" ? oneSide : "symmetric",
+      materialSide: materialSide === "auto" ? undefined : materialSide,
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Rib failed");
+    }
+    // Rib faces are named by their side, or by the profile entity they run along
+    const origins = this.replaceModifiedBody(targetId, result.value, featureId, "rib");
+    const ribOrigin = (extra: Partial<FaceOrigin>): FaceOrigin => ({
+      sourceFeatureId: featureId,
+      faceType: "unknown",
+      featureType: "rib",
+      ...extra,
+    });
+    result.value.sideFaceHashes.forEach((hashes, side) => {
+      hashes.forEach((hash) => origins.set(hash, ribOrigin({ ribSide: side })));
+    });
+    result.value.extensionFaceHashes.forEach((hashes, end) => {
+      hashes.forEach((hash) => origins.set(hash, ribOrigin({ ribExtension: end })));
+    });
+    result.value.pathFaceHashes.forEach((hashes, i) => {
+      hashes.forEach((hash) => origins.set(hash, ribOrigin({ entityId: curveEntityIds[i] })));
+    });
+  }
+
+  /**
+   * Box, cylinder, sphere, cone or torus placed on a plane. Faces are named
+   * by their place on the primitive, so they keep their refs when it is resized.
+   */
+  private interpretPrimitive(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    type: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): FeatureInterpretResult {
+    const planeRef = featureMap.get("plane") as SketchPlaneRef;
+    const offsetX = (featureMap.get("offsetX") as number) || 0;
+    const offsetY = (featureMap.get("offsetY") as number) || 0;
+    const offsetZ = (featureMap.get("offsetZ") as number) || 0;
+    const rotation = (((featureMap.get("rotation") as number) || 0) * Math.PI) / 180;
+    const op = (featureMap.get("op") as string) || "add";
+
+    const plane = planeRef ? this.getSketchPlane(planeRef, featuresById) : null;
+    if (!plane) {
+      throw new Error("Cannot resolve primitive plane");
+    }
+    const { normal, xDir, yDir } = plane.surface;
+    const size = (key: string) => (featureMap.get(key) as number) || 0;
+
+    let options: PrimitiveOptions;
+    switch (type) {
+      case "box":
+        options = {
+          kind: "box",
+          width: size("width"),
+          depth: size("depth"),
+          height: size("height"),
+        };
+        break;
+      case "cylinder":
+        options = { kind: "cylinder", radius: size("radius"), height: size("height") };
+        break;
+      case "sphere":
+        options = { kind: "sphere", radius: size("radius") };
+        break;
+      case "cone":
+        options = {
+          kind: "cone",
+          radius: size("radius"),
+          topRadius: size("topRadius"),
+          height: size("height"),
+        };
+        break;
+      default:
+        options = {
+          kind: "torus",
+          majorRadius: size("majorRadius"),
+          minorRadius: size("minorRadius"),
+        };
+        break;
+    }
+
+    const result = this.requireSession().createPrimitive(options, {
+      origin: add3(planeToWorld(plane, offsetX, offsetY), mul3(normal, offsetZ)),
+      axis: normal,
+      xDir: add3(mul3(xDir, Math.cos(rotation)), mul3(yDir, Math.sin(rotation))),
+    });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Primitive failed");
+    }
+    const primitiveBodyId = result.value.bodyId;
+
+    const faceHashToOrigin = new Map<number, FaceOrigin>();
+    for (const face of result.value.faces) {
+      faceHashToOrigin.set(face.hash, {
+        sourceFeatureId: featureId,
+        faceType: "unknown",
+        featureType: type,
+        primitiveFace: { index: face.index, name: face.name },
+      });
+    }
+
+    this.capturePatternSeed(featureId, primitiveBodyId, op, faceHashToOrigin);
+
+    if (op === "cut") {
+      this.cutFromAllBodies(primitiveBodyId, faceHashToOrigin);
+      return { bodyId: null, bodyEntryId: null };
+    }
+
+    const storedHistory: StoredOCCTHistory = {
+      sideFaceMappings: [],
+      profileEdgeToEntityId: new Map(),
+      faceHashToOrigin,
+    };
+    return this.addOrMergeBody(primitiveBodyId, featureId, featureMap, storedHistory);
+  }
+
+  /**
+   * Move whole bodies, or copies of them: mate, then rotate about the pivot,
+   * then translate. Moved faces keep their names; copied faces are named as
+   * instance 1 of their originals.
+   */
+  private interpretTransform(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const bodies = (featureMap.get("bodies") as string[]) || [];
+    const copy = featureMap.get("copy") === true;
+    const value = (key: string) => (featureMap.get(key) as number | undefined) ?? 0;
+
+    const transforms: BodyTransform[] = [];
+    const mateFrom = featureMap.get("mateFrom") as string | undefined;
+    const mateTo = featureMap.get("mateTo") as string | undefined;
+    if (mateFrom && mateTo) {
+      const flip = featureMap.get("mateFlip") === true;
+      transforms.push(...this.mateTransforms(mateFrom, mateTo, flip, featuresById));
+    }
+
+    const pivot: Vec3 = [value("pivotX"), value("pivotY"), value("pivotZ")];
+    const axes: Vec3[] = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ];
+    (["rotateX", "rotateY", "rotateZ"] as const).forEach((key, i) => {
+      if (value(key)) {
+        transforms.push({ kind: "rotate", origin: pivot, axis: axes[i], angleDegrees: value(key) });
+      }
+    });
+    const translation: Vec3 = [value("translateX"), value("translateY"), value("translateZ")];
+    if (translation.some((component) => component !== 0)) {
+      transforms.push({ kind: "translate", vector: translation });
+    }
+
+    bodies.forEach((bodyKey, i) => {
+      const entry = this.bodyMap.get(bodyKey);
+      if (!entry) {
+        throw new Error(`Transform body not found: ${bodyKey}`);
+      }
+      const result = this.requireSession().transformBody(entry.bodyId, transforms);
+      if (!result.success) {
+        throw new Error(result.error?.message || "Transform failed");
+      }
+
+      if (!copy) {
+        this.replaceModifiedBody(bodyKey, result.value, featureId, "transform");
+        return;
+      }
+
+      const seed = {
+        bodyId: entry.bodyId,
+        op: "add" as const,
+        origins: entry.occtHistory?.faceHashToOrigin ?? new Map<number, FaceOrigin>(),
+        sourceId: bodyKey,
+        bodyKey,
+      };
+      // Copies of further bodies are keyed `<featureId>:<n>`
+      this.bodyMap.set(i === 0 ? featureId : `${featureId}:${i}`, {
+        bodyId: result.value.bodyId,
+        name: `Body${this.bodyMap.size + 1}`,
+        color: this.getNextBodyColor(),
+        sourceFeatureId: featureId,
+        occtHistory: {
+          sideFaceMappings: [],
+          profileEdgeToEntityId: new Map(),
+          faceHashToOrigin: this.patternInstanceOrigins(seed, result.value, featureId, 1),
+        },
+      });
+    });
+  }
+
+  /**
+   * Split a body into a body per piece. The first piece on each side is keyed
+   * `<featureId>:front` or `<featureId>:back`, further ones `:front2`, `:front3`...
+   * and the faces the tool cut are named by the side and the tool.
+   */
+  private interpretSplit(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const toolRef = featureMap.get("tool") as SplitTool;
+    let tool: SplitOptions["tool"];
+    let curveEntityIds: (string | undefined)[] = [];
+    if (toolRef.kind === "sketch") {
+      const sketchInfo = this.sketchCache.get(toolRef.ref);
+      if (!sketchInfo) {
+        throw new Error(`Sketch ${toolRef.ref} not found or not yet processed`);
+      }
+      const profile = this.buildProfilePath(sketchInfo, []);
+      tool = { kind: "path", path: profile.path };
+      curveEntityIds = profile.curveEntityIds;
+    } else {
+      tool = { kind: "plane", ...this.getReferencePlane(toolRef, featuresById, "Split") };
+    }
+
+    let targetId = (featureMap.get("targetBody") as string) || null;
+    if (!targetId) {
+      if (this.bodyMap.size === 1) {
+        [targetId] = this.bodyMap.keys();
+      } else {
+        throw new Error("Split requires a target body");
+      }
+    }
+    const entry = this.bodyMap.get(targetId);
+    if (!entry) {
+      throw new Error(`Target body not found: ${targetId}`);
+    }
+
+    const keep = (featureMap.get("keep") as SplitKeep | undefined) ?? "both";
+    const result = this.requireSession().split(entry.bodyId, { tool, keep });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Split failed");
+    }
+
+    const counts = { front: 0, back: 0 };
+    for (const piece of result.value.pieces) {
+      const n = ++counts[piece.side];
+      const suffix = n === 1 ? piece.side : `${piece.side}${n}`;
+      const side = piece.side === "front" ? 0 : 1;
+
+      const origins = mergeFaceOrigins(
+        entry.occtHistory?.faceHashToOrigin,
+        undefined,
+        piece.faceHistory,
+        []
+      );
+      const splitOrigin = (toolName: string): FaceOrigin => ({
+        sourceFeatureId: featureId,
+        faceType: "unknown",
+        featureType: "split",
+        splitFace: { side, tool: toolName },
+      });
+      for (const hash of piece.generatedFaceHashes) {
+        origins.set(hash, splitOrigin("plane"));
+      }
+      piece.toolFaceHashes.forEach((hashes, i) => {
+        const toolName = tool.kind === "plane" ? "plane" : (curveEntityIds[i] ?? `curve${i}`);
+        hashes.forEach((hash) => origins.set(hash, splitOrigin(toolName)));
+      });
+      piece.extensionFaceHashes.forEach((hashes, end) => {
+        hashes.forEach((hash) => origins.set(hash, splitOrigin(end === 0 ? "start" : "end")));
+      });
+
+      this.bodyMap.set(`${featureId}:${suffix}`, {
+        bodyId: piece.bodyId,
+        name: `${entry.name}-${suffix}`,
+        // The front piece carries on as the original body
+        color: piece.side === "front" && n === 1 ? entry.color : this.getNextBodyColor(),
+        sourceFeatureId: featureId,
+        occtHistory: {
+          sideFaceMappings: [],
+          profileEdgeToEntityId: new Map(),
+          faceHashToOrigin: origins,
+        },
+      });
+    }
+
+    this.requireSession().deleteBody(entry.bodyId);
+    this.bodyMap.delete(targetId);
+  }
+
+  /**
+   * Transforms that bring a vertex or planar face onto another. A face mated
+   * to a face is also turned to face it (or to point the same way, flipped).
+   */
+  private mateTransforms(
+    fromRef: string,
+    toRef: string,
+    flip: boolean,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): BodyTransform[] {
+    const referenceIndex = this.buildCurrentReferenceIndex(featuresById);
+    const from = this.getMateTarget(fromRef, referenceIndex);
+    const to = this.getMateTarget(toRef, referenceIndex);
+
+    const transforms: BodyTransform[] = [];
+    if (from.normal && to.normal) {
+      const target = flip ? to.normal : mul3(to.normal, -1);
+      const cosine = Math.max(-1, Math.min(1, dot3(from.normal, target)));
+      if (cosine < 1 - 1e-9) {
+        let axis = cross3(from.normal, target);
+        if (length3(axis) < 1e-9) {
+          // Opposite normals: turn half way round any perpendicular axis
+          axis = cross3(from.normal, Math.abs(from.normal[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]);
+        }
+        transforms.push({
+          kind: "rotate",
+          origin: from.point,
+          axis: normalize3(axis),
+          angleDegrees: (Math.acos(cosine) * 180) / Math.PI,
+        });
+      }
     }
+    transforms.push({ kind: "translate", vector: sub3(to.point, from.point) });
+    return transforms;
+  }
 
-    const targetEntry = this.bodyMap.get(targetId);
-    const toolEntry = this.bodyMap.get(toolId);
+  /**
+   * Position of a mate vertex, or a point and normal of a mate face
+   */
+  private getMateTarget(
+    ref: string,
+    referenceIndex: ReferenceIndex
+  ): { point: Vec3; normal?: Vec3 } {
+    const decoded = decodePersistentRef(ref);
+    if (!decoded.ok || decoded.ref.expectedType === "edge") {
+      throw new Error(`Transform mate is not a vertex or face reference: ${ref}`);
+    }
+
+    const resolved = resolvePersistentRef(ref, referenceIndex);
+    if (resolved.status !== "found") {
+      throw new Error(
+        `Transform mate ${decoded.ref.expectedType} ${resolved.status === "ambiguous" ? "is ambiguous" : "not found"}`
+      );
+    }
+
+    if (decoded.ref.expectedType === "vertex") {
+      // The current ref's fingerprint holds the vertex position
+      const current = decodePersistentRef(
+        referenceIndex[resolved.bodyKey].vertices![resolved.index]
+      );
+      if (!current.ok || !current.ref.fingerprint) {
+        throw new Error("Transform mate vertex has no position");
+      }
+      return { point: current.ref.fingerprint.centroid };
+    }
+
+    const facePlane = this.requireSession().getFacePlane(
+      this.getBodyEntry(resolved.bodyKey, "Transform mate").bodyId,
+      resolved.index
+    );
+    if (!facePlane) {
+      throw new Error("Transform mate face is not planar");
+    }
+    return { point: facePlane.origin, normal: facePlane.normal };
+  }
+
+  /**
+   * Reference index of the bodies built so far, for resolving refs mid-rebuild
+   */
+  private buildCurrentReferenceIndex(featuresById: Y.Map<Y.Map<unknown>>): ReferenceIndex {
+    const referenceIndex: ReferenceIndex = {};
+    for (const [bodyKey, entry] of this.bodyMap) {
+      referenceIndex[bodyKey] = this.buildBodyIndex(bodyKey, entry, featuresById).bodyRefIndex;
+    }
+    return referenceIndex;
+  }
+
+  /**
+   * Resolve the edge refs of each edge set against the bodies built so far,
+   * grouping the sets by the body their edges belong to.
+   */
+  private resolveEdgeSets<T extends { edges: string[] }>(
+    edgeSets: T[],
+    featuresById: Y.Map<Y.Map<unknown>>,
+    label: string
+  ): Map<string, Array<{ set: T; edges: EdgeId[] }>> {
+    const referenceIndex = this.buildCurrentReferenceIndex(featuresById);
+
+    const byBody = new Map<string, Array<{ set: T; edges: EdgeId[] }>>();
+    for (const set of edgeSets) {
+      const edgesByBody = new Map<string, EdgeId[]>();
+      for (const ref of set.edges) {
+        const resolved = resolvePersistentRef(ref, referenceIndex);
+        if (resolved.status === "not_found") {
+          throw new Error(`${label} edge not found: ${ref}`);
+        }
+        if (resolved.status === "ambiguous") {
+          throw new Error(`${label} edge is ambiguous: ${ref}`);
+        }
+        const edges = edgesByBody.get(resolved.bodyKey) ?? [];
+        edges.push(resolved.index as EdgeId);
+        edgesByBody.set(resolved.bodyKey, edges);
+      }
+      for (const [bodyKey, edges] of edgesByBody) {
+        const sets = byBody.get(bodyKey) ?? [];
+        sets.push({ set, edges });
+        byBody.set(bodyKey, sets);
+      }
+    }
+
+    if (byBody.size === 0) {
+      throw new Error(`${label} requires at least one edge`);
+    }
+    return byBody;
+  }
+
+  /**
+   * Swap a body for its modified version (shell, fillet, chamfer, draft), carrying
+   * face origins through the operation. Faces created by the operation are
+   * attributed to the modifying feature. Returns the body's face origins, for
+   * the feature to name the faces it made.
+   */
+  private replaceModifiedBody(
+    bodyKey: string,
+    result: ModifyHistoryResult,
+    featureId: string,
+    featureType: string
+  ): Map<number, FaceOrigin> {
+    const entry = this.getBodyEntry(bodyKey, featureType);
+
+    const origins = mergeFaceOrigins(
+      entry.occtHistory?.faceHashToOrigin,
+      undefined,
+      result.faceHistory,
+      []
+    );
+    for (const hash of result.generatedFaceHashes) {
+      origins.set(hash, {
+        sourceFeatureId: featureId,
+        faceType: "unknown",
+        featureType,
+      });
+    }
+
+    this.requireSession().deleteBody(entry.bodyId);
+    this.bodyMap.set(bodyKey, {
+      ...entry,
+      bodyId: result.bodyId,
+      occtHistory: {
+        ...(entry.occtHistory ?? {
+          sideFaceMappings: [],
+          profileEdgeToEntityId: new Map(),
+        }),
+        faceHashToOrigin: origins,
+      },
+    });
+    return origins;
+  }
+
+  /**
+   * IDs of features that a pattern or mirror replicates
+   */
+  private collectPatternSourceIds(featuresById: Y.Map<Y.Map<unknown>>): Set<string> {
+    const ids = new Set<string>();
+    featuresById.forEach((featureMap) => {
+      const type = featureMap.get("type");
+      if (type === "linearPattern" || type === "circularPattern" || type === "mirror") {
+        for (const id of (featureMap.get("sourceFeatures") as string[]) || []) {
+          ids.add(id);
+        }
+      }
+    });
+    return ids;
+  }
+
+  /**
+   * Keep a copy of a feature's tool body if a pattern or mirror replicates it.
+   * The copy is taken before the tool is merged or cut, while it is still the
+   * feature's own geometry.
+   */
+  private capturePatternSeed(
+    featureId: string,
+    bodyId: BodyId,
+    op: string,
+    origins: Map<number, FaceOrigin> | undefined
+  ): void {
+    if (!this.patternSourceIds.has(featureId)) return;
+
+    const copy = this.requireSession().transformBody(bodyId, {
+      kind: "translate",
+      vector: [0, 0, 0],
+    });
+    if (!copy.success) return;
+
+    this.patternSeeds.set(featureId, {
+      bodyId: copy.value.bodyId,
+      op: op === "cut" ? "cut" : "add",
+      origins: mergeFaceOrigins(origins, undefined, copy.value.faceHistory, []),
+    });
+  }
+
+  /**
+   * Seed bodies for a pattern or mirror: the captured tool body of each source
+   * feature, and each source body as built so far
+   */
+  private collectPatternSeeds(
+    featureMap: Y.Map<unknown>,
+    label: string
+  ): Array<PatternSeed & { sourceId: string }> {
+    const sourceFeatures = (featureMap.get("sourceFeatures") as string[]) || [];
+    const sourceBodies = (featureMap.get("sourceBodies") as string[]) || [];
+
+    const seeds: Array<PatternSeed & { sourceId: string }> = [];
+    for (const sourceId of sourceFeatures) {
+      const seed = this.patternSeeds.get(sourceId);
+      if (!seed) {
+        throw new Error(`${label} source has no geometry: ${sourceId}`);
+      }
+      const bodyKey =
+        seed.op === "cut"
+          ? undefined
+          : seed.bodyKey && this.bodyMap.has(seed.bodyKey)
+            ? seed.bodyKey
+            : (this.findBodyForFeature(sourceId) ?? undefined);
+      if (seed.op === "add" && !bodyKey) {
+        throw new Error(`${label} source body not found: ${sourceId}`);
+      }
+      seeds.push({ ...seed, sourceId, bodyKey });
+    }
+    for (const bodyKey of sourceBodies) {
+      const entry = this.bodyMap.get(bodyKey);
+      if (!entry) {
+        throw new Error(`${label} body not found: ${bodyKey}`);
+      }
+      seeds.push({
+        bodyId: entry.bodyId,
+        op: "add",
+        origins: entry.occtHistory?.faceHashToOrigin ?? new Map(),
+        sourceId: bodyKey,
+        bodyKey,
+      });
+    }
+    return seeds;
+  }
+
+  private interpretPattern(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    type: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const skip = new Set((featureMap.get("skip") as number[]) || []);
+
+    const transforms =
+      type === "linearPattern"
+        ? this.linearPatternTransforms(featureMap, featuresById)
+        : this.circularPatternTransforms(featureMap, featuresById);
+
+    const seeds = this.collectPatternSeeds(featureMap, "Pattern");
+
+    // Copy every seed first: unions below replace the bodies being copied
+    const instances: Array<{ seed: (typeof seeds)[number]; copy: ModifyHistoryResult; n: number }> =
+      [];
+    for (const seed of seeds) {
+      transforms.forEach((transform, n) => {
+        if (n === 0 || skip.has(n)) return;
+        const copy = this.requireSession().transformBody(seed.bodyId, transform);
+        if (!copy.success) {
+          throw new Error(copy.error?.message || `Pattern instance ${n} failed`);
+        }
+        instances.push({ seed, copy: copy.value, n });
+      });
+    }
+
+    for (const { seed, copy, n } of instances) {
+      const origins = this.patternInstanceOrigins(seed, copy, featureId, n);
+      this.placePatternInstance(seed.op, copy, origins, seed.bodyKey, "Pattern");
+    }
+  }
+
+  private interpretMirror(
+    featureMap: Y.Map<unknown>,
+    featureId: string,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): void {
+    const planeRef = featureMap.get("plane") as MirrorPlaneRef;
+    const merge = featureMap.get("merge") !== false;
+    const name = featureMap.get("name") as string | undefined;
+
+    const plane = this.getReferencePlane(planeRef, featuresById, "Mirror");
+    const seeds = this.collectPatternSeeds(featureMap, "Mirror");
+
+    const copies: Array<{ seed: (typeof seeds)[number]; copy: ModifyHistoryResult }> = [];
+    for (const seed of seeds) {
+      const copy = this.requireSession().transformBody(seed.bodyId, { kind: "mirror", ...plane });
+      if (!copy.success) {
+        throw new Error(copy.error?.message || "Mirror failed");
+      }
+      copies.push({ seed, copy: copy.value });
+    }
+
+    // Mirrored faces are named as instance 1 of their source
+    for (const { seed, copy } of copies) {
+      const origins = this.patternInstanceOrigins(seed, copy, featureId, 1);
+
+      if (seed.op === "add" && !merge && !this.bodyMap.has(featureId)) {
+        this.bodyMap.set(featureId, {
+          bodyId: copy.bodyId,
+          name: name || `Body${this.bodyMap.size + 1}`,
+          color: this.getNextBodyColor(),
+          sourceFeatureId: featureId,
+          occtHistory: {
+            sideFaceMappings: [],
+            profileEdgeToEntityId: new Map(),
+            faceHashToOrigin: origins,
+          },
+        });
+        continue;
+      }
+
+      this.placePatternInstance(seed.op, copy, origins, merge ? seed.bodyKey : featureId, "Mirror");
+    }
+  }
+
+  /**
+   * Mirror or draft neutral plane from a plane feature or a planar face
+   */
+  private getReferencePlane(
+    planeRef: MirrorPlaneRef,
+    featuresById: Y.Map<Y.Map<unknown>>,
+    label: string
+  ): { origin: Vec3; normal: Vec3 } {
+    if (planeRef.kind === "planeFeatureId") {
+      const planeFeature = featuresById.get(planeRef.ref);
+      const plane = planeFeature ? this.getDatumPlaneFromFeature(planeFeature) : null;
+      if (!plane) {
+        throw new Error(`${label} plane not found: ${planeRef.ref}`);
+      }
+      return { origin: plane.surface.origin, normal: plane.surface.normal };
+    }
+
+    const referenceIndex = this.buildCurrentReferenceIndex(featuresById);
+    const resolved = resolvePersistentRef(planeRef.ref, referenceIndex);
+    if (resolved.status !== "found") {
+      throw new Error(
+        `${label} face ${resolved.status === "ambiguous" ? "is ambiguous" : "not found"}`
+      );
+    }
+    const facePlane = this.requireSession().getFacePlane(
+      this.getBodyEntry(resolved.bodyKey, label).bodyId,
+      resolved.index
+    );
+    if (!facePlane) {
+      throw new Error(`${label} face is not planar`);
+    }
+    return { origin: facePlane.origin, normal: facePlane.normal };
+  }
+
+  /**
+   * Subtract a tool body from every body, then delete the tool. Faces the
+   * tool leaves behind take their origins from `toolOrigins`. Fails when there
+   * is no body to cut or no body could be cut.
+   */
+  private cutFromAllBodies(toolBodyId: BodyId, toolOrigins: Map<number, FaceOrigin>): void {
+    let anySuccess = false;
+    let lastError: string | undefined;
+    for (const [existingId, entry] of this.bodyMap) {
+      const boolResult = this.requireSession().subtractWithHistory(entry.bodyId, toolBodyId);
+      if (!boolResult.success) {
+        lastError = boolResult.error?.message;
+        continue;
+      }
+      anySuccess = true;
+      this.bodyMap.set(existingId, {
+        ...entry,
+        bodyId: boolResult.value.bodyId,
+        occtHistory: {
+          ...(entry.occtHistory ?? { sideFaceMappings: [], profileEdgeToEntityId: new Map() }),
+          faceHashToOrigin: mergeFaceOrigins(
+            entry.occtHistory?.faceHashToOrigin,
+            toolOrigins,
+            boolResult.value.baseFaceHistory,
+            boolResult.value.toolFaceHistory
+          ),
+        },
+      });
+    }
+    this.requireSession().deleteBody(toolBodyId);
+
+    if (this.bodyMap.size === 0) {
+      throw new Error("Cut operation failed: there is no body to cut");
+    }
+    if (!anySuccess) {
+      throw new Error(`Cut operation failed: ${lastError || "no body was cut"}`);
+    }
+  }
 
+  /**
+   * Cut a pattern/mirror instance from every body, or fuse it into the
+   * target body
+   */
+  private placePatternInstance(
+    op: "add" | "cut",
+    copy: ModifyHistoryResult,
+    origins: Map<number, FaceOrigin>,
+    targetKey: string | undefined,
+    label: string
+  ): void {
+    if (op === "cut") {
+      this.cutFromAllBodies(copy.bodyId, origins);
+      return;
+    }
+
+    if (!targetKey) {
+      throw new Error(`${label} has no body to add instances to`);
+    }
+    const target = this.getBodyEntry(targetKey, label);
+    const unionResult = this.requireSession().unionWithHistory(target.bodyId, copy.bodyId);
+    if (!unionResult.success) {
+      throw new Error(unionResult.error?.message || "Boolean union failed");
+    }
+    const result = unionResult.value;
+    if (target.bodyId !== result.bodyId) {
+      this.requireSession().deleteBody(target.bodyId);
+    }
+    if (copy.bodyId !== result.bodyId) {
+      this.requireSession().deleteBody(copy.bodyId);
+    }
+    this.bodyMap.set(targetKey, {
+      ...target,
+      bodyId: result.bodyId,
+      occtHistory: {
+        ...(target.occtHistory ?? { sideFaceMappings: [], profileEdgeToEntityId: new Map() }),
+        faceHashToOrigin: mergeFaceOrigins(
+          target.occtHistory?.faceHashToOrigin,
+          origins,
+          result.baseFaceHistory,
+          result.toolFaceHistory
+        ),
+      },
+    });
+  }
+
+  /**
+   * Face origins for one pattern instance. Faces keep their seed's selector
+   * and are attributed to the pattern, told apart by instance number.
+   */
+  private patternInstanceOrigins(
+    seed: PatternSeed & { sourceId: string },
+    copy: ModifyHistoryResult,
+    featureId: string,
+    instance: number
+  ): Map<number, FaceOrigin> {
+    const origins = new Map<number, FaceOrigin>();
+    for (const mapping of copy.faceHistory) {
+      const origin = seed.origins.get(mapping.inputHash) ?? {
+        sourceFeatureId: seed.sourceId,
+        faceType: "unknown" as const,
+      };
+      for (const hash of mapping.outputHashes) {
+        origins.set(hash, {
+          ...origin,
+          sourceFeatureId: featureId,
+          instance,
+          instanceOf: origin.sourceFeatureId,
+        });
+      }
+    }
+    return origins;
+  }
+
+  /**
+   * Body holding a feature's faces: the body the feature created, or the one
+   * it was merged into
+   */
+  private findBodyForFeature(featureId: string): string | null {
+    if (this.bodyMap.has(featureId)) return featureId;
+    for (const [bodyKey, entry] of this.bodyMap) {
+      for (const origin of entry.occtHistory?.faceHashToOrigin?.values() ?? []) {
+        if (origin.sourceFeatureId === featureId) return bodyKey;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Transforms for each linear pattern instance. Instance n sits at step
+   * `n % count` along the first direction and `floor(n / count)` along the second.
+   */
+  private linearPatternTransforms(
+    featureMap: Y.Map<unknown>,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): BodyTransform[] {
+    const count = (featureMap.get("count") as number) || 1;
+    const step = this.linearPatternStep(
+      featuresById,
+      featureMap.get("direction") as PatternDirection,
+      count,
+      featureMap.get("spacing") as number | undefined,
+      featureMap.get("extent") as number | undefined
+    );
+
+    const direction2 = featureMap.get("direction2") as PatternDirection | undefined;
+    const count2 = direction2 ? (featureMap.get("count2") as number) || 1 : 1;
+    const step2: Vec3 = direction2
+      ? this.linearPatternStep(
+          featuresById,
+          direction2,
+          count2,
+          featureMap.get("spacing2") as number | undefined,
+          featureMap.get("extent2") as number | undefined
+        )
+      : [0, 0, 0];
+
+    const transforms: BodyTransform[] = [];
+    for (let n = 0; n < count * count2; n++) {
+      const vector = add3(mul3(step, n % count), mul3(step2, Math.floor(n / count)));
+      transforms.push({ kind: "translate", vector });
+    }
+    return transforms;
+  }
+
+  /**
+   * Offset between neighbouring instances along one pattern direction
+   */
+  private linearPatternStep(
+    featuresById: Y.Map<Y.Map<unknown>>,
+    direction: PatternDirection,
+    count: number,
+    spacing: number | undefined,
+    extent: number | undefined
+  ): Vec3 {
+    const unit = normalize3(
+      typeof direction === "string"
+        ? this.getAxis(featuresById, direction, "Pattern").direction
+        : direction
+    );
+    const distance = spacing ?? (count > 1 ? (extent ?? 0) / (count - 1) : 0);
+    return mul3(unit, distance);
+  }
+
+  /**
+   * Transforms for each circular pattern instance. A total angle of 360°
+   * spaces instances evenly; smaller totals place the last instance at the total.
+   */
+  private circularPatternTransforms(
+    featureMap: Y.Map<unknown>,
+    featuresById: Y.Map<Y.Map<unknown>>
+  ): BodyTransform[] {
+    const count = (featureMap.get("count") as number) || 1;
+    const axisRef = featureMap.get("axis") as PatternAxis;
+    const axis =
+      typeof axisRef === "string" ? this.getAxis(featuresById, axisRef, "Pattern") : axisRef;
+
+    const angle = featureMap.get("angle") as number | undefined;
+    const totalAngle = (featureMap.get("totalAngle") as number | undefined) ?? 360;
+    const step =
+      angle ??
+      (Math.abs(totalAngle) === 360 || count < 2 ? totalAngle / count : totalAngle / (count - 1));
+
+    const transforms: BodyTransform[] = [];
+    for (let n = 0; n < count; n++) {
+      transforms.push({
+        kind: "rotate",
+        origin: axis.origin,
+        axis: axis.direction,
+        angleDegrees: step * n,
+      });
+    }
+    return transforms;
+  }
+
+  /**
+   * Origin and direction of an axis feature
+   */
+  private getAxis(
+    featuresById: Y.Map<Y.Map<unknown>>,
+    axisId: string,
+    label: string
+  ): { origin: Vec3; direction: Vec3 } {
+    const axisFeature = featuresById.get(axisId);
+    if (!axisFeature || axisFeature.get("type") !== "axis") {
+      throw new Error(`${label} axis not found: ${axisId}`);
+    }
+    return {
+      origin: axisFeature.get("origin") as Vec3,
+      direction: axisFeature.get("direction") as Vec3,
+    };
+  }
+
+  private interpretBoolean(featureMap: Y.Map<unknown>): FeatureInterpretResult {
+    const operation = (featureMap.get("operation") as string) || "union";
+    const targetId = featureMap.get("target") as string;
+    const toolId = featureMap.get("tool") as string;
+    const extraToolIds = (featureMap.get("tools") as string[] | undefined) ?? [];
+    const keepTools = featureMap.get("keepTools") === true;
+
+    if (!targetId || !toolId) {
+      throw new Error("Boolean requires target and tool body references");
+    }
+
+    let targetEntry = this.bodyMap.get(targetId);
     if (!targetEntry) {
       throw new Error(`Target body not found: ${targetId}`);
     }
-    if (!toolEntry) {
-      throw new Error(`Tool body not found: ${toolId}`);
+
+    const toolEntries = new Map<string, BodyEntry>();
+    for (const id of [toolId, ...extraToolIds]) {
+      if (id === targetId) {
+        throw new Error(`Body ${id} cannot be both target and tool`);
+      }
+      const entry = this.bodyMap.get(id);
+      if (!entry) {
+        throw new Error(`Tool body not found: ${id}`);
+      }
+      toolEntries.set(id, entry);
     }
 
     // Use history-tracking versions for all boolean operations
@@ -1511,57 +3853,63 @@ export class KernelEngine {
       toolFaceHistory: Array<{ inputHash: number; outputHashes: number[]; isDeleted: boolean }>;
     };
 
-    let result: OperationResult<BooleanHistoryResult>;
-    switch (operation) {
-      case "union":
-        result = this.session!.unionWithHistory(targetEntry.bodyId, toolEntry.bodyId);
-        break;
-      case "subtract":
-        result = this.session!.subtractWithHistory(targetEntry.bodyId, toolEntry.bodyId);
-        break;
-      case "intersect":
-        result = this.session!.intersectWithHistory(targetEntry.bodyId, toolEntry.bodyId);
-        break;
-      default:
-        throw new Error(`Unknown boolean operation: ${operation}`);
-    }
-
-    if (!result.success) {
-      throw new Error(result.error?.message || "Boolean operation failed");
-    }
+    // Combine the tools into the target one at a time, carrying face origins along
+    for (const [id, toolEntry] of toolEntries) {
+      let result: OperationResult<BooleanHistoryResult>;
+      switch (operation) {
+        case "union":
+          result = this.requireSession().unionWithHistory(targetEntry.bodyId, toolEntry.bodyId);
+          break;
+        case "subtract":
+          result = this.requireSession().subtractWithHistory(targetEntry.bodyId, toolEntry.bodyId);
+          break;
+        case "intersect":
+          result = this.requireSession().intersectWithHistory(targetEntry.bodyId, toolEntry.bodyId);
+          break;
+        default:
+          throw new Error(`Unknown boolean operation: ${operation}`);
+      }
 
-    const historyResult = result.value;
+      if (!result.success) {
+        throw new Error(result.error?.message || "Boolean operation failed");
+      }
 
-    // Merge face origins from both input bodies
-    const targetOrigins = targetEntry.occtHistory?.faceHashToOrigin;
-    const toolOrigins = toolEntry.occtHistory?.faceHashToOrigin;
-    const mergedOrigins = mergeFaceOrigins(
-      targetOrigins,
-      toolOrigins,
-      historyResult.baseFaceHistory,
-      historyResult.toolFaceHistory
-    );
+      const historyResult = result.value;
+
+      // Merge face origins from both input bodies
+      const targetOrigins = targetEntry.occtHistory?.faceHashToOrigin;
+      const toolOrigins = toolEntry.occtHistory?.faceHashToOrigin;
+      const mergedOrigins = mergeFaceOrigins(
+        targetOrigins,
+        toolOrigins,
+        historyResult.baseFaceHistory,
+        historyResult.toolFaceHistory
+      );
+
+      // Build updated history for the result
+      const updatedHistory: StoredOCCTHistory | undefined =
+        targetEntry.occtHistory || mergedOrigins.size > 0
+          ? {
+              ...(targetEntry.occtHistory ?? {
+                sideFaceMappings: [],
+                profileEdgeToEntityId: new Map(),
+              }),
+              faceHashToOrigin: mergedOrigins,
+            }
+          : undefined;
 
-    // Build updated history for the result
-    const updatedHistory: StoredOCCTHistory | undefined =
-      targetEntry.occtHistory || mergedOrigins.size > 0
-        ? {
-            ...(targetEntry.occtHistory ?? {
-              sideFaceMappings: [],
-              profileEdgeToEntityId: new Map(),
-            }),
-            faceHashToOrigin: mergedOrigins,
-          }
-        : undefined;
-
-    this.session!.deleteBody(targetEntry.bodyId);
-    this.session!.deleteBody(toolEntry.bodyId);
-    this.bodyMap.delete(toolId);
-    this.bodyMap.set(targetId, {
-      ...targetEntry,
-      bodyId: historyResult.bodyId,
-      occtHistory: updatedHistory,
-    });
+      this.requireSession().deleteBody(targetEntry.bodyId);
+      if (!keepTools) {
+        this.requireSession().deleteBody(toolEntry.bodyId);
+        this.bodyMap.delete(id);
+      }
+      targetEntry = {
+        ...targetEntry,
+        bodyId: historyResult.bodyId,
+        occtHistory: updatedHistory,
+      };
+      this.bodyMap.set(targetId, targetEntry);
+    }
 
     return {
       bodyId: null,
@@ -1570,4 +3918,81 @@ export class KernelEngine {
       bodyColor: targetEntry.color,
     };
   }
+
+  /**
+   * Remove bodies from the part. Later features can no longer reference them.
+   */
+  private interpretDeleteBody(featureMap: Y.Map<unknown>): void {
+    const bodyKeys = (featureMap.get("bodies") as string[] | undefined) ?? [];
+    if (bodyKeys.length === 0) {
+      throw new Error("Delete body requires at least one body");
+    }
+
+    const entries = bodyKeys.map((key) => {
+      const entry = this.bodyMap.get(key);
+      if (!entry) {
+        throw new Error(`Body not found: ${key}`);
+      }
+      return [key, entry] as const;
+    });
+
+    for (const [key, entry] of entries) {
+      this.requireSession().deleteBody(entry.bodyId);
+      this.bodyMap.delete(key);
+    }
+  }
+
+  /**
+   * Read a body from a STEP, IGES or BREP file stored in the document, scaled from
+   * the file's units to the document's. Imported faces have no history to
+   * name them by, so refs to them resolve by fingerprint alone, which lets
+   * them carry over when the file is replaced with a new revision.
+   */
+  private interpretImport(featureMap: Y.Map<unknown>, featureId: string): void {
+    const format = (featureMap.get("format") as string) || "step";
+    const blobId = featureMap.get("blob") as string;
+    const data = blobId ? this.blobs?.get(blobId) : undefined;
+    if (!data) {
+      throw new Error(`Import file not found: ${featureMap.get("fileName") ?? blobId}`);
+    }
+
+    // STEP and IGES files are read in millimetres whatever units they were written in
+    const fileUnits =
+      format === "brep"
+        ? ((featureMap.get("fileUnits") as DocumentMeta["units"] | undefined) ?? "mm")
+        : "mm";
+    const scale = MM_PER_UNIT[fileUnits] / MM_PER_UNIT[this.units];
+
+    const result =
+      format === "brep"
+        ? this.requireSession().importBREP(data, { scale })
+        : format === "iges"
+          ? this.requireSession().importIGES(data, { scale })
+          : this.requireSession().importSTEP(data, { scale });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Import failed");
+    }
+
+    const origins = new Map<number, FaceOrigin>();
+    for (const hash of this.requireSession().getFaceHashes(result.value)) {
+      origins.set(hash, {
+        sourceFeatureId: featureId,
+        faceType: "unknown",
+        featureType: "import",
+        importedFace: true,
+      });
+    }
+
+    this.bodyMap.set(featureId, {
+      bodyId: result.value,
+      name: `Body${this.bodyMap.size + 1}`,
+      color: this.getNextBodyColor(),
+      sourceFeatureId: featureId,
+      occtHistory: {
+        sideFaceMappings: [],
+        profileEdgeToEntityId: new Map(),
+        faceHashToOrigin: origins,
+      },
+    });
+  }
 }
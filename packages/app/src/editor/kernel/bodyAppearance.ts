@@ -0,0 +1,68 @@
+/**
+ * Body Appearance
+ *
+ * Applies the display overrides set from the bodies panel (name, color,
+ * visibility, material) to the body list of a rebuild, and picks the bodies
+ * file exports write.
+ *
+ * @see docs/DOCUMENT-MODEL.md 3.1 Feature Base
+ */
+
+import type * as Y from "yjs";
+import type { BodyId } from "@solidtype/core";
+import type { BodyAppearance } from "../document/schema";
+import type { BodyInfo } from "../worker/types";
+
+/**
+ * Apply the appearance overrides stored on each body's source feature.
+ * Bodies are keyed `featureId`, `featureId:index` or `featureId:suffix`.
+ */
+export function applyBodyAppearance(body: BodyInfo, featuresById: Y.Map<Y.Map<unknown>>): BodyInfo {
+  const sourceFeature = featuresById.get(body.featureId.split(":")[0]);
+  const overrides = sourceFeature?.get("bodyAppearance") as
+    | Record<string, BodyAppearance>
+    | undefined;
+  const appearance = overrides?.[body.featureId];
+  if (!appearance) return body;
+
+  return {
+    ...body,
+    name: appearance.name || body.name,
+    color: appearance.color || body.color,
+    visible: appearance.visible,
+    material: appearance.material,
+  };
+}
+
+/** The parts of a bodyMap entry an export needs */
+export interface ExportBodyEntry {
+  bodyId: BodyId;
+  name: string;
+  color: string;
+}
+
+/**
+ * The bodies a file export should write: visible ones, with the names and
+ * colors shown in the bodies panel.
+ */
+export function listVisibleBodies(
+  bodyMap: Map<string, ExportBodyEntry>,
+  featuresById: Y.Map<Y.Map<unknown>>
+): Array<{ bodyId: BodyId; name: string; color?: string }> {
+  const bodies = [];
+  for (const [bodyKey, entry] of bodyMap) {
+    const body = applyBodyAppearance(
+      {
+        id: String(entry.bodyId),
+        featureId: bodyKey,
+        faceCount: 0,
+        name: entry.name,
+        color: entry.color,
+      },
+      featuresById
+    );
+    if (body.visible === false) continue;
+    bodies.push({ bodyId: entry.bodyId, name: body.name || bodyKey, color: body.color });
+  }
+  return bodies;
+}
@@ -0,0 +1,193 @@
+/**
+ * Extrude Extents
+ *
+ * Turns an extrude feature's extents into the distances, direction, up-to
+ * limits and draft passed to SolidSession.extrude.
+ *
+ * @see docs/DOCUMENT-MODEL.md 3.6 Extrude
+ */
+
+import type * as Y from "yjs";
+import {
+  type BodyId,
+  type DatumPlane,
+  type ExtrudeOptions,
+  type ExtrudeSide,
+  type Vec3,
+  add3,
+  dot3,
+  mul3,
+  sub3,
+} from "@solidtype/core";
+import type { ReferenceIndex } from "./referenceIndex";
+import { decodePersistentRef, resolvePersistentRef } from "../naming";
+
+/** Distance used for throughAll extents */
+export const THROUGH_ALL_DISTANCE = 1000;
+
+/** The parts of SolidSession.extrude options that depend on the extent */
+export type ExtrudeExtentOptions = Pick<
+  ExtrudeOptions,
+  "distance" | "direction" | "upTo" | "symmetric" | "draftAngle" | "secondSide" | "startOffset"
+>;
+
+/**
+ * Resolve an extrude's extents against the bodies built so far.
+ *
+ * Each side of the extrude is one of:
+ * - `blind` / `throughAll`: a distance along the side's direction
+ * - `toVertex`: the height of the `extentRef` vertex above the start plane
+ * - `toFace`: up to the `extentRef` face, which may be slanted or curved
+ * - `upToBody`: up to the first surface of the `extentBody` body
+ *
+ * `extentOffset` stops the up-to extents short of their target (negative
+ * values run past it), measured along the side's direction. The second side
+ * runs opposite the first and reads the same fields suffixed with `2`; it is
+ * only built when `twoSided` is set. A `symmetric` direction splits `distance`
+ * evenly across both sides of the sketch plane. `startOffset` moves the start
+ * of the extrude off the sketch plane, and `draftAngle` / `draftAngle2` taper
+ * each side.
+ *
+ * @param featureMap - The extrude feature
+ * @param sketchPlane - Plane of the extruded sketch
+ * @param getReferenceIndex - Builds the reference index of the current bodies
+ * @param getBodyId - Looks up the kernel body for a body key
+ */
+export function resolveExtrudeExtent(
+  featureMap: Y.Map<unknown>,
+  sketchPlane: DatumPlane,
+  getReferenceIndex: () => ReferenceIndex,
+  getBodyId: (bodyKey: string) => BodyId | undefined
+): ExtrudeExtentOptions {
+  const direction = (featureMap.get("direction") as string) || "normal";
+  const startOffset = (featureMap.get("startOffset") as number) || 0;
+  const draftAngle = (featureMap.get("draftAngle") as number) || 0;
+  const { origin, normal } = sketchPlane.surface;
+  const extrudeDirection = mul3(normal, direction === "reverse" ? -1 : 1);
+  const start = add3(origin, mul3(extrudeDirection, startOffset));
+
+  const resolveSide = (suffix: "" | "2", sideDirection: Vec3): ExtrudeSide =>
+    resolveExtrudeSide(featureMap, suffix, start, sideDirection, getReferenceIndex, getBodyId);
+
+  const first = resolveSide("", extrudeDirection);
+  const options: ExtrudeExtentOptions = {
+    distance: first.distance,
+    direction: extrudeDirection,
+    upTo: first.upTo,
+    ...(draftAngle ? { draftAngle } : {}),
+    ...(startOffset ? { startOffset } : {}),
+  };
+
+  if (direction === "symmetric") {
+    if (first.upTo) {
+      throw new Error("Symmetric extrudes need a distance or through-all extent");
+    }
+    return { ...options, symmetric: true };
+  }
+
+  if (featureMap.get("twoSided")) {
+    const second = resolveSide("2", mul3(extrudeDirection, -1));
+    const draftAngle2 = (featureMap.get("draftAngle2") as number) || 0;
+    options.secondSide = { ...second, ...(draftAngle2 ? { draftAngle: draftAngle2 } : {}) };
+  }
+
+  return options;
+}
+
+/**
+ * Resolve one side of an extrude to a distance or an up-to limit.
+ */
+function resolveExtrudeSide(
+  featureMap: Y.Map<unknown>,
+  suffix: "" | "2",
+  start: Vec3,
+  sideDirection: Vec3,
+  getReferenceIndex: () => ReferenceIndex,
+  getBodyId: (bodyKey: string) => BodyId | undefined
+): ExtrudeSide {
+  const extent = (featureMap.get(`extent${suffix}`) as string) || "blind";
+  const baseDistance = (featureMap.get(`distance${suffix}`) as number) || 10;
+  const offset = (featureMap.get(`extentOffset${suffix}`) as number) || 0;
+
+  switch (extent) {
+    case "throughAll":
+      return { distance: THROUGH_ALL_DISTANCE };
+
+    case "toVertex": {
+      const vertex = resolveExtentRef(featureMap, suffix, "vertex", getReferenceIndex());
+      const position = vertexPosition(vertex.ref);
+      // Height above the start plane, along this side's direction
+      const height = dot3(sub3(position, start), sideDirection);
+      if (height <= 0) {
+        throw new Error("Extrude vertex is not in front of the sketch plane");
+      }
+      return { distance: height - offset };
+    }
+
+    case "toFace": {
+      const face = resolveExtentRef(featureMap, suffix, "face", getReferenceIndex());
+      const bodyId = getBodyId(face.bodyKey);
+      if (bodyId === undefined) {
+        throw new Error(`Extrude limit body not found: ${face.bodyKey}`);
+      }
+      return { distance: 0, upTo: { kind: "face", bodyId, faceIndex: face.index, offset } };
+    }
+
+    case "upToBody": {
+      const bodyKey = (featureMap.get(`extentBody${suffix}`) as string) || "";
+      const bodyId = getBodyId(bodyKey);
+      if (bodyId === undefined) {
+        throw new Error(`Extrude limit body not found: ${bodyKey}`);
+      }
+      return { distance: 0, upTo: { kind: "body", bodyId, offset } };
+    }
+
+    default:
+      return { distance: baseDistance };
+  }
+}
+
+/**
+ * Resolve one side's extentRef to a face or vertex of a current body.
+ */
+function resolveExtentRef(
+  featureMap: Y.Map<unknown>,
+  suffix: "" | "2",
+  expectedType: "face" | "vertex",
+  referenceIndex: ReferenceIndex
+): { bodyKey: string; index: number; ref: string } {
+  const extentRef = featureMap.get(`extentRef${suffix}`) as string | undefined;
+  if (!extentRef) {
+    throw new Error(`Extrude up to ${expectedType} requires an extentRef`);
+  }
+
+  const decoded = decodePersistentRef(extentRef);
+  if (!decoded.ok || decoded.ref.expectedType !== expectedType) {
+    throw new Error(`Extrude extentRef is not a ${expectedType} reference`);
+  }
+
+  const resolved = resolvePersistentRef(extentRef, referenceIndex);
+  if (resolved.status === "not_found") {
+    throw new Error(`Extrude limit ${expectedType} not found: ${extentRef}`);
+  }
+  if (resolved.status === "ambiguous") {
+    throw new Error(`Extrude limit ${expectedType} is ambiguous: ${extentRef}`);
+  }
+
+  const refs =
+    expectedType === "face"
+      ? referenceIndex[resolved.bodyKey].faces
+      : referenceIndex[resolved.bodyKey].vertices;
+  return { bodyKey: resolved.bodyKey, index: resolved.index, ref: refs![resolved.index] };
+}
+
+/**
+ * Position of a vertex from its current ref's fingerprint.
+ */
+function vertexPosition(ref: string): Vec3 {
+  const decoded = decodePersistentRef(ref);
+  if (!decoded.ok || !decoded.ref.fingerprint) {
+    throw new Error("Extrude limit vertex has no position");
+  }
+  return decoded.ref.fingerprint.centroid;
+}
@@ -11,6 +11,7 @@ export {
   // Types
   type FaceFingerprint,
   type EdgeFingerprint,
+  type EdgeVertex,
   type ProfileLoop,
   type SketchInfo,
   type BodyReferenceIndex,
@@ -18,9 +19,11 @@ export {
   // Fingerprint computation
   computeFaceFingerprints,
   computeEdgeFingerprints,
+  computeEdgeVertices,
   // Ref generation
   generateFaceRef,
   generateEdgeRef,
+  generateVertexRef,
   // ReferenceIndex building
   buildBodyReferenceIndex,
   // Profile loop computation
@@ -34,6 +37,8 @@ export {
   type KernelEngineOptions,
   type RebuildResult,
   type SketchSolveResult,
+  type HoleCallout,
+  type FlatPatternResult,
 } from "./KernelEngine";
 
 export {
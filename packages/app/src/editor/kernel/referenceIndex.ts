@@ -12,7 +12,12 @@
  * @see docs/CAD-PIPELINE-REWORK.md Phase 3
  */
 
-import { encodePersistentRef, computeLoopId, type PersistentRefV1 } from "../naming/persistentRef";
+import {
+  encodePersistentRef,
+  decodePersistentRef,
+  computeLoopId,
+  type PersistentRefV1,
+} from "../naming/persistentRef";
 
 // ============================================================================
 // Types
@@ -68,6 +73,36 @@ export interface FaceOriginInfo {
   entityId?: string;
   /** The type of face (topCap, bottomCap, side) */
   faceType: "topCap" | "bottomCap" | "side" | "unknown";
+  /** Type of the source feature (extrude selectors are used when omitted) */
+  featureType?: string;
+  /** Pattern instance number, for faces copied by a pattern */
+  instance?: number;
+  /** Feature the pattern instance was copied from */
+  instanceOf?: string;
+  /** Position of the face's ref in a draft's face list, for drafted faces */
+  draftFace?: number;
+  /** Role of a face cut by a hole, whose entityId is the hole's sketch point */
+  holeFace?: string;
+  /** Which flank of a thread cut the face: 0 faces the start of the helix */
+  threadFlank?: number;
+  /** Which flat side of a rib the face is on: 0 is against the sketch normal */
+  ribSide?: number;
+  /** Which end of a rib's profile was extended to make the face: 0 is the start */
+  ribExtension?: number;
+  /** Stable index and name of a face of a box, cylinder, sphere, cone or torus */
+  primitiveFace?: { index: number; name: string };
+  /** Piece (0 front, 1 back) and cutting tool of a face made by a split */
+  splitFace?: { side: number; tool: string };
+  /** Position of the face's ref in an offset face's list, for moved faces */
+  offsetFace?: number;
+  /** Side (start or offset) and face list position of a face made by a thicken */
+  thickenFace?: { side: string; face: number };
+  /** Role of a face an edge flange added (bendOutside, wallEnd, start, ...) */
+  sheetMetalFace?: string;
+  /** Set on faces a replace face moved onto its plane */
+  replacedFace?: boolean;
+  /** Set on faces read from an imported file */
+  importedFace?: boolean;
 }
 
 /**
@@ -114,6 +149,8 @@ export interface BodyReferenceIndex {
   faces: string[];
   /** Encoded PersistentRef strings, indexed by edge index */
   edges: string[];
+  /** Encoded PersistentRef strings for edge end points, indexed by vertex index */
+  vertices?: string[];
 }
 
 /**
@@ -327,6 +364,73 @@ export function computeEdgeFingerprints(
   return fingerprints;
 }
 
+/**
+ * A vertex where edges meet, found from the ends of edge polylines
+ */
+export interface EdgeVertex {
+  /** Vertex position [x, y, z] */
+  position: [number, number, number];
+  /** Indices of the edges that start or end here */
+  edgeIndices: number[];
+}
+
+/**
+ * Compute the vertices at the ends of edges
+ *
+ * Each edge's polyline contributes its first and last point; points that
+ * agree to within the tolerance are merged so a corner shared by several
+ * edges yields one vertex. Vertices are numbered in order of first appearance.
+ *
+ * @param edges - Float32Array of edge segments [x1,y1,z1,x2,y2,z2,...]
+ * @param edgeMap - Uint32Array mapping edge segment to edge index
+ * @returns Array of EdgeVertex, indexed by vertex index
+ */
+export function computeEdgeVertices(
+  edges: Float32Array,
+  edgeMap: Uint32Array,
+  tolerance = 1e-4
+): EdgeVertex[] {
+  // First and last segment of each edge
+  const ends = new Map<number, { first: number; last: number }>();
+  const segCount = Math.min(Math.floor(edges.length / 6), edgeMap.length);
+  for (let s = 0; s < segCount; s++) {
+    const span = ends.get(edgeMap[s]);
+    if (span) {
+      span.last = s;
+    } else {
+      ends.set(edgeMap[s], { first: s, last: s });
+    }
+  }
+
+  const vertices: EdgeVertex[] = [];
+  const byPosition = new Map<string, EdgeVertex>();
+  const addEnd = (edgeIdx: number, offset: number) => {
+    const position: [number, number, number] = [
+      edges[offset],
+      edges[offset + 1],
+      edges[offset + 2],
+    ];
+    const key = position.map((c) => Math.round(c / tolerance)).join(",");
+    const existing = byPosition.get(key);
+    if (!existing) {
+      const vertex = { position, edgeIndices: [edgeIdx] };
+      vertices.push(vertex);
+      byPosition.set(key, vertex);
+    } else if (!existing.edgeIndices.includes(edgeIdx)) {
+      existing.edgeIndices.push(edgeIdx);
+    }
+  };
+
+  const edgeIndices = [...ends.keys()].sort((a, b) => a - b);
+  for (const edgeIdx of edgeIndices) {
+    const { first, last } = ends.get(edgeIdx)!;
+    addEnd(edgeIdx, first * 6);
+    addEnd(edgeIdx, last * 6 + 3);
+  }
+
+  return vertices;
+}
+
 // ============================================================================
 // PersistentRef Generation
 // ============================================================================
@@ -384,7 +488,40 @@ export function generateFaceRef(
       const loopId = sketchInfo?.profileLoops?.[0]?.loopId ?? "loop:unknown";
 
       // Use the tracked origin to generate the selector
-      if (origin.faceType === "topCap") {
+      if (origin.draftFace !== undefined) {
+        localSelector = { kind: "draft.face", data: { face: origin.draftFace } };
+      } else if (origin.holeFace && origin.entityId) {
+        localSelector = { kind: `hole.${origin.holeFace}`, data: { pointId: origin.entityId } };
+      } else if (origin.threadFlank !== undefined) {
+        localSelector = { kind: "thread.flank", data: { flank: origin.threadFlank } };
+      } else if (origin.ribSide !== undefined) {
+        localSelector = { kind: "rib.side", data: { side: origin.ribSide } };
+      } else if (origin.ribExtension !== undefined) {
+        localSelector = { kind: "rib.extension", data: { end: origin.ribExtension } };
+      } else if (origin.primitiveFace) {
+        localSelector = { kind: "primitive.face", data: { ...origin.primitiveFace } };
+      } else if (origin.splitFace) {
+        localSelector = { kind: "split.face", data: { ...origin.splitFace } };
+      } else if (origin.offsetFace !== undefined) {
+        localSelector = { kind: "offsetFace.face", data: { face: origin.offsetFace } };
+      } else if (origin.thickenFace) {
+        localSelector = { kind: "thicken.face", data: { ...origin.thickenFace } };
+      } else if (origin.sheetMetalFace) {
+        localSelector = { kind: "edgeFlange.face", data: { role: origin.sheetMetalFace } };
+      } else if (origin.replacedFace) {
+        localSelector = { kind: "replaceFace.face", data: {} };
+      } else if (origin.importedFace) {
+        localSelector = { kind: "import.face", data: {} };
+      } else if (origin.featureType === "rib" && origin.entityId) {
+        localSelector = { kind: "rib.face", data: { segmentId: origin.entityId } };
+      } else if (origin.featureType === "loft" || origin.featureType === "revolve") {
+        localSelector = startEndFaceSelector(
+          origin.featureType,
+          origin.faceType,
+          origin.entityId,
+          faceIdx
+        );
+      } else if (origin.faceType === "topCap") {
         localSelector = { kind: "extrude.topCap", data: { loopId } };
       } else if (origin.faceType === "bottomCap") {
         localSelector = { kind: "extrude.bottomCap", data: { loopId } };
@@ -396,6 +533,14 @@ export function generateFaceRef(
         localSelector = { kind: "face.unknown", data: { faceIndex: faceIdx } };
       }
 
+      // Pattern copies share their seed's selector, told apart by instance
+      if (origin.instance !== undefined) {
+        localSelector.data.instance = origin.instance;
+        if (origin.instanceOf) {
+          localSelector.data.instanceOf = origin.instanceOf;
+        }
+      }
+
       // Note: originFeatureId might differ from the body's sourceFeatureId
       // because the face may have come from a different feature before the boolean
       const persistentRef: PersistentRefV1 = {
@@ -510,6 +655,34 @@ export function generateFaceRef(
         localSelector = { kind: "revolve.side", data: { faceIndex: faceIdx } };
       }
     }
+  } else if (featureType === "loft") {
+    if (occtHistory && faceHash !== undefined) {
+      if (occtHistory.bottomCapHash === faceHash) {
+        localSelector = startEndFaceSelector("loft", "bottomCap", undefined, faceIdx);
+      } else if (occtHistory.topCapHash === faceHash) {
+        localSelector = startEndFaceSelector("loft", "topCap", undefined, faceIdx);
+      } else {
+        const sideMapping = occtHistory.sideFaceMappings.find(
+          (m) => m.generatedFaceHash === faceHash
+        );
+        const entityId = sideMapping
+          ? profileEdgeToEntityId?.get(sideMapping.profileEdgeIndex)
+          : undefined;
+
+        if (entityId) {
+          localSelector = startEndFaceSelector("loft", "side", entityId, faceIdx);
+        } else if (sideMapping) {
+          localSelector = {
+            kind: "loft.side",
+            data: { profileEdgeIndex: sideMapping.profileEdgeIndex },
+          };
+        } else {
+          localSelector = startEndFaceSelector("loft", "side", undefined, faceIdx);
+        }
+      }
+    } else {
+      localSelector = { kind: "face.unknown", data: { faceIndex: faceIdx } };
+    }
   } else {
     // Generic fallback - use fingerprint for matching
     localSelector = { kind: "face.unknown", data: { faceIndex: faceIdx } };
@@ -530,6 +703,33 @@ export function generateFaceRef(
   return encodePersistentRef(ref);
 }
 
+/**
+ * Selector for a loft or revolve face. Caps are named after where the sweep
+ * starts and ends (the first/last loft profile, or the ends of a revolve's
+ * second and first directions) and side faces after the profile entity that
+ * generated them.
+ */
+function startEndFaceSelector(
+  featureType: "loft" | "revolve",
+  faceType: FaceOriginInfo["faceType"],
+  entityId: string | undefined,
+  faceIdx: number
+): { kind: string; data: Record<string, string | number> } {
+  if (faceType === "bottomCap") {
+    return { kind: `${featureType}.startCap`, data: {} };
+  }
+  if (faceType === "topCap") {
+    return { kind: `${featureType}.endCap`, data: {} };
+  }
+  if (faceType === "side" && entityId) {
+    return { kind: `${featureType}.side`, data: { segmentId: entityId } };
+  }
+  if (faceType === "side") {
+    return { kind: `${featureType}.side`, data: { faceIndex: faceIdx } };
+  }
+  return { kind: "face.unknown", data: { faceIndex: faceIdx } };
+}
+
 /**
  * Generate fallback selector for extrude side faces when OCCT history doesn't match.
  */
@@ -545,11 +745,16 @@ function generateFallbackExtrudeSideSelector(
 /**
  * Generate a PersistentRef for an edge
  *
+ * When both faces bounding the edge come from the same extrude, the edge is
+ * named after them (`extrude.topEdge`, `extrude.bottomEdge`,
+ * `extrude.sideEdge`) so the ref survives upstream parameter changes.
+ *
  * @param featureId - UUID of the originating feature
  * @param featureType - Type of the feature
  * @param edgeIdx - Index of the edge in the tessellation
  * @param fingerprint - Computed fingerprint for this edge
  * @param sketchInfo - Optional sketch info for semantic selectors
+ * @param adjacentFaces - Optional refs of the two faces bounding the edge
  * @returns Encoded PersistentRef string
  */
 export function generateEdgeRef(
@@ -557,14 +762,20 @@ export function generateEdgeRef(
   featureType: string,
   edgeIdx: number,
   fingerprint: EdgeFingerprint,
-  sketchInfo?: SketchInfo
+  sketchInfo?: SketchInfo,
+  adjacentFaces?: [PersistentRefV1 | undefined, PersistentRefV1 | undefined]
 ): string {
   let localSelector: { kind: string; data: Record<string, string | number> };
+  let originFeatureId = featureId;
 
-  if (featureType === "extrude") {
+  const faceSelector = adjacentFaces ? extrudeEdgeSelector(adjacentFaces) : null;
+
+  if (faceSelector) {
+    localSelector = faceSelector;
+    originFeatureId = adjacentFaces![0]!.originFeatureId;
+  } else if (featureType === "extrude") {
     const loopId = sketchInfo?.profileLoops?.[0]?.loopId ?? "loop:unknown";
-    // For extrude edges, we categorize by position
-    // TODO: Improve with OCCT history in Phase 8
+    // No usable adjacent faces - fall back to the edge index
     localSelector = { kind: "extrude.edge", data: { loopId, edgeIndex: edgeIdx } };
   } else if (featureType === "revolve") {
     localSelector = { kind: "revolve.edge", data: { edgeIndex: edgeIdx } };
@@ -575,7 +786,7 @@ export function generateEdgeRef(
   const ref: PersistentRefV1 = {
     v: 1,
     expectedType: "edge",
-    originFeatureId: featureId,
+    originFeatureId,
     localSelector,
     fingerprint: {
       centroid: fingerprint.centroid,
@@ -586,6 +797,125 @@ export function generateEdgeRef(
   return encodePersistentRef(ref);
 }
 
+/**
+ * Selector for an edge between two faces of the same extrude.
+ *
+ * - cap + side: `extrude.topEdge` / `extrude.bottomEdge` with the side's segmentId
+ * - side + side: `extrude.sideEdge` with both segmentIds, sorted and comma-joined
+ *
+ * Pattern instance keys are carried over when both faces belong to the same
+ * instance. Returns null when the faces don't identify the edge by sketch entity.
+ */
+function extrudeEdgeSelector([a, b]: [PersistentRefV1 | undefined, PersistentRefV1 | undefined]): {
+  kind: string;
+  data: Record<string, string | number>;
+} | null {
+  if (!a || !b || a.originFeatureId !== b.originFeatureId) return null;
+
+  const kinds = [a.localSelector.kind, b.localSelector.kind];
+  const side = [a, b].filter((face) => face.localSelector.kind === "extrude.side");
+  const segmentIds = side.map((face) => face.localSelector.data.segmentId);
+  if (segmentIds.some((id) => typeof id !== "string")) return null;
+
+  const instanceKeys: Record<string, string | number> = {};
+  for (const key of ["instance", "instanceOf"]) {
+    if (a.localSelector.data[key] !== b.localSelector.data[key]) return null;
+    if (a.localSelector.data[key] !== undefined) instanceKeys[key] = a.localSelector.data[key];
+  }
+
+  const loopId = String(side[0]?.localSelector.data.loopId ?? a.localSelector.data.loopId);
+
+  if (side.length === 2) {
+    const ids = (segmentIds as string[]).slice().sort();
+    return {
+      kind: "extrude.sideEdge",
+      data: { loopId, segmentIds: ids.join(","), ...instanceKeys },
+    };
+  }
+  if (side.length === 1 && kinds.includes("extrude.topCap")) {
+    return {
+      kind: "extrude.topEdge",
+      data: { loopId, segmentId: segmentIds[0] as string, ...instanceKeys },
+    };
+  }
+  if (side.length === 1 && kinds.includes("extrude.bottomCap")) {
+    return {
+      kind: "extrude.bottomEdge",
+      data: { loopId, segmentId: segmentIds[0] as string, ...instanceKeys },
+    };
+  }
+  return null;
+}
+
+/**
+ * Generate a PersistentRef for a vertex
+ *
+ * Vertices on an extrude cap between two side faces are named after those
+ * faces (`extrude.topVertex` / `extrude.bottomVertex`), taken from the edges
+ * meeting at the vertex. Other vertices fall back to their position.
+ *
+ * @param featureId - UUID of the originating feature
+ * @param vertexIdx - Index of the vertex
+ * @param vertex - Position and edges of the vertex
+ * @param edgeRefs - Decoded refs of the body's edges, indexed by edge index
+ * @returns Encoded PersistentRef string
+ */
+export function generateVertexRef(
+  featureId: string,
+  vertexIdx: number,
+  vertex: EdgeVertex,
+  edgeRefs: Array<PersistentRefV1 | undefined>
+): string {
+  const adjacentEdges = vertex.edgeIndices.map((idx) => edgeRefs[idx]);
+  const edgeSelector = extrudeVertexSelector(adjacentEdges);
+
+  const ref: PersistentRefV1 = {
+    v: 1,
+    expectedType: "vertex",
+    originFeatureId: edgeSelector?.originFeatureId ?? featureId,
+    localSelector: edgeSelector?.localSelector ?? {
+      kind: "vertex.unknown",
+      data: { vertexIndex: vertexIdx },
+    },
+    fingerprint: {
+      centroid: vertex.position,
+      size: 0,
+    },
+  };
+
+  return encodePersistentRef(ref);
+}
+
+/**
+ * Selector for a vertex where a side edge of an extrude meets one of its caps.
+ *
+ * The side edge names the two side faces; a top or bottom edge at the same
+ * vertex says which cap. Returns null for any other arrangement.
+ */
+function extrudeVertexSelector(adjacentEdges: Array<PersistentRefV1 | undefined>): {
+  originFeatureId: string;
+  localSelector: { kind: string; data: Record<string, string | number> };
+} | null {
+  const sideEdge = adjacentEdges.find((edge) => edge?.localSelector.kind === "extrude.sideEdge");
+  if (!sideEdge) return null;
+
+  const sameFeature = adjacentEdges.filter(
+    (edge) => edge?.originFeatureId === sideEdge.originFeatureId
+  );
+  const capKinds = sameFeature.map((edge) => edge!.localSelector.kind);
+  const kind = capKinds.includes("extrude.topEdge")
+    ? "extrude.topVertex"
+    : capKinds.includes("extrude.bottomEdge")
+      ? "extrude.bottomVertex"
+      : null;
+  if (!kind) return null;
+
+  return {
+    originFeatureId: sideEdge.originFeatureId,
+    localSelector: { kind, data: { ...sideEdge.localSelector.data } },
+  };
+}
+
 // ============================================================================
 // ReferenceIndex Building
 // ============================================================================
@@ -612,6 +942,8 @@ export interface BuildReferenceIndexOptions {
   edgeHashes?: Uint32Array;
   /** Phase 8: Mapping from profile edge index to sketch entity UUID */
   profileEdgeToEntityId?: Map<number, string>;
+  /** Face indices on either side of each edge (2 per edge, -1 if missing) */
+  edgeFaces?: Int32Array;
 }
 
 /**
@@ -631,6 +963,7 @@ export interface BuildReferenceIndexOptions {
  * @param faceHashes - Optional face hashes for Phase 8
  * @param edgeHashes - Optional edge hashes for Phase 8
  * @param profileEdgeToEntityId - Optional edge-to-entity mapping for Phase 8
+ * @param edgeFaces - Optional adjacent face indices per edge, for face-based edge names
  * @returns BodyReferenceIndex for this body
  */
 export function buildBodyReferenceIndex(
@@ -647,7 +980,8 @@ export function buildBodyReferenceIndex(
   occtHistory?: OCCTHistory,
   faceHashes?: Uint32Array,
   _edgeHashes?: Uint32Array,
-  profileEdgeToEntityId?: Map<number, string>
+  profileEdgeToEntityId?: Map<number, string>,
+  edgeFaces?: Int32Array
 ): BodyReferenceIndex {
   const result: BodyReferenceIndex = {
     faces: [],
@@ -677,8 +1011,31 @@ export function buildBodyReferenceIndex(
   if (edges && edgeMap && edges.length > 0 && edgeMap.length > 0) {
     const edgeFingerprints = computeEdgeFingerprints(edges, edgeMap);
 
+    // Decoded face refs let edges be named by the faces they bound
+    const faceRefs = edgeFaces
+      ? result.faces.map((ref) => {
+          const decoded = decodePersistentRef(ref);
+          return decoded.ok ? decoded.ref : undefined;
+        })
+      : [];
+    const adjacentFaces = (
+      idx: number
+    ): [PersistentRefV1 | undefined, PersistentRefV1 | undefined] | undefined =>
+      edgeFaces && idx * 2 + 1 < edgeFaces.length
+        ? [faceRefs[edgeFaces[idx * 2]], faceRefs[edgeFaces[idx * 2 + 1]]]
+        : undefined;
+
     result.edges = edgeFingerprints.map((fp, idx) =>
-      generateEdgeRef(featureId, featureType, idx, fp, sketchInfo)
+      generateEdgeRef(featureId, featureType, idx, fp, sketchInfo, adjacentFaces(idx))
+    );
+
+    // Vertices are named by the edges that meet there
+    const edgeRefs = result.edges.map((ref) => {
+      const decoded = decodePersistentRef(ref);
+      return decoded.ok ? decoded.ref : undefined;
+    });
+    result.vertices = computeEdgeVertices(edges, edgeMap).map((vertex, idx) =>
+      generateVertexRef(featureId, idx, vertex, edgeRefs)
     );
   }
 
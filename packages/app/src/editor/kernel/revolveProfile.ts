@@ -0,0 +1,50 @@
+/**
+ * Revolve Profiles
+ *
+ * Builds the profile a revolve sweeps from the sketch entities around its
+ * axis, so rebuilds and previews make the same solid and thin-wall profiles.
+ *
+ * @see docs/DOCUMENT-MODEL.md 3.7 Revolve
+ */
+
+import {
+  type SketchEntityId,
+  type SketchModel,
+  type SketchProfile,
+  type ThinWallSide,
+  createThinProfile,
+} from "@solidtype/core";
+
+/** Wall settings of a thin revolve */
+export interface RevolveThinWall {
+  thickness: number;
+  side: ThinWallSide;
+}
+
+/**
+ * Build the profile a revolve sweeps: the sketch's closed profile, or a thin
+ * wall around its open profile.
+ *
+ * @param coreSketch - Sketch holding the profile entities
+ * @param entityIds - Profile entities, excluding the axis line
+ * @param thin - Wall settings when the revolve is thin
+ */
+export function buildRevolveProfile(
+  coreSketch: SketchModel,
+  entityIds: SketchEntityId[],
+  thin?: RevolveThinWall
+): SketchProfile {
+  if (thin) {
+    const path = coreSketch.toPath(entityIds);
+    if (!path) {
+      throw new Error("Thin revolve needs a single connected profile");
+    }
+    return createThinProfile(path, thin.thickness, thin.side);
+  }
+
+  const profile = coreSketch.toProfile(entityIds);
+  if (!profile) {
+    throw new Error("Sketch does not contain a closed profile");
+  }
+  return profile;
+}
@@ -0,0 +1,35 @@
+/**
+ * STEP Export
+ *
+ * Writes the visible bodies of a rebuild to STEP, one product per body named
+ * and colored as in the bodies panel, declared in the document's units.
+ */
+
+import type * as Y from "yjs";
+import type { SolidSession, StepSchema } from "@solidtype/core";
+import type { DocumentMeta } from "../document/schema";
+import { listVisibleBodies, type ExportBodyEntry } from "./bodyAppearance";
+
+export interface StepExportOptions {
+  /** Name of the top-level assembly */
+  name?: string;
+  schema?: StepSchema;
+  units: DocumentMeta["units"];
+}
+
+/**
+ * Export every visible body as a product of one STEP assembly.
+ */
+export function exportBodiesToStep(
+  session: SolidSession,
+  bodyMap: Map<string, ExportBodyEntry>,
+  featuresById: Y.Map<Y.Map<unknown>>,
+  options: StepExportOptions
+): Uint8Array {
+  const products = listVisibleBodies(bodyMap, featuresById);
+  if (products.length === 0) {
+    throw new Error("No visible bodies to export");
+  }
+
+  return session.exportSTEPAssembly(products, options);
+}
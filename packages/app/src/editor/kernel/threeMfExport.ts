@@ -0,0 +1,39 @@
+/**
+ * 3MF Export
+ *
+ * Writes the visible bodies of a rebuild to a 3MF package for 3D printing,
+ * one object per body named and colored as in the bodies panel, in the
+ * document's units.
+ */
+
+import type * as Y from "yjs";
+import { exportMeshesTo3mf, type SolidSession } from "@solidtype/core";
+import type { DocumentMeta } from "../document/schema";
+import { listVisibleBodies, type ExportBodyEntry } from "./bodyAppearance";
+
+export interface ThreeMfExportOptions {
+  /** Model title */
+  name?: string;
+  units: DocumentMeta["units"];
+}
+
+/**
+ * Tessellate every visible body and export them as 3MF objects.
+ */
+export function exportBodiesTo3mf(
+  session: SolidSession,
+  bodyMap: Map<string, ExportBodyEntry>,
+  featuresById: Y.Map<Y.Map<unknown>>,
+  options: ThreeMfExportOptions
+): ArrayBuffer {
+  const bodies = listVisibleBodies(bodyMap, featuresById).map((body) => ({
+    name: body.name,
+    color: body.color,
+    mesh: session.tessellate(body.bodyId),
+  }));
+  if (bodies.length === 0) {
+    throw new Error("No visible bodies to export");
+  }
+
+  return exportMeshesTo3mf(bodies, options);
+}
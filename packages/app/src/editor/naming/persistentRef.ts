@@ -200,6 +200,13 @@ export function getAllCandidates(ref: string | PersistentRefSet): string[] {
 
 /**
  * Known local selector kinds for extrude features
+ *
+ * Edge selectors are named by the faces they bound:
+ * - `extrude.topEdge` / `extrude.bottomEdge`: `{ loopId, segmentId }` of the side face
+ * - `extrude.sideEdge`: `{ loopId, segmentIds }`, both side segmentIds sorted and comma-joined
+ *
+ * Vertex selectors are named by the side edge meeting a cap there:
+ * - `extrude.topVertex` / `extrude.bottomVertex`: the side edge's `{ loopId, segmentIds }`
  */
 export type ExtrudeLocalSelectorKind =
   | "extrude.topCap"
@@ -207,19 +214,130 @@ export type ExtrudeLocalSelectorKind =
   | "extrude.side"
   | "extrude.topEdge"
   | "extrude.bottomEdge"
-  | "extrude.sideEdge";
+  | "extrude.sideEdge"
+  | "extrude.topVertex"
+  | "extrude.bottomVertex";
 
 /**
  * Known local selector kinds for revolve features
  */
 export type RevolveLocalSelectorKind = "revolve.side" | "revolve.startCap" | "revolve.endCap";
 
+/**
+ * Known local selector kinds for loft features
+ */
+export type LoftLocalSelectorKind = "loft.side" | "loft.startCap" | "loft.endCap";
+
+/**
+ * Known local selector kinds for draft features
+ *
+ * - `draft.face`: `{ face }`, the position of the drafted face's ref in the draft's face list
+ */
+export type DraftLocalSelectorKind = "draft.face";
+
+/**
+ * Known local selector kinds for hole features, each with `{ pointId }`, the
+ * sketch point at the centre of the hole
+ */
+export type HoleLocalSelectorKind =
+  | "hole.wall"
+  | "hole.bottom"
+  | "hole.counterbore"
+  | "hole.counterboreFloor"
+  | "hole.countersink";
+
+/**
+ * Known local selector kinds for thread features
+ *
+ * - `thread.flank`: `{ flank }`, 0 for the flank facing the start of the helix, 1 for the other
+ */
+export type ThreadLocalSelectorKind = "thread.flank";
+
+/**
+ * Known local selector kinds for rib features
+ *
+ * - `rib.side`: `{ side }`, 0 for the flat side against the sketch normal, 1 for the other
+ * - `rib.face`: `{ segmentId }`, the face along a profile entity
+ * - `rib.extension`: `{ end }`, the face where the profile was extended to the body,
+ *   0 before its start and 1 after its end
+ */
+export type RibLocalSelectorKind = "rib.side" | "rib.face" | "rib.extension";
+
+/**
+ * Known local selector kinds for box, cylinder, sphere, cone and torus features
+ *
+ * - `primitive.face`: `{ index, name }`, the face's place on the primitive (`top`,
+ *   `side`, ...) and its index in that primitive's face list
+ */
+export type PrimitiveLocalSelectorKind = "primitive.face";
+
+/**
+ * Known local selector kinds for split features
+ *
+ * - `split.face`: `{ side, tool }`, a face cut by the split on its front (0) or back (1)
+ *   piece; `tool` is the sketch entity that cut it, `plane`, or `start`/`end` for the
+ *   extensions of an open sketch chain
+ */
+export type SplitLocalSelectorKind = "split.face";
+
+/**
+ * Known local selector kinds for offset face features
+ *
+ * - `offsetFace.face`: `{ face }`, a moved face by the position of its ref in the face list
+ */
+export type OffsetFaceLocalSelectorKind = "offsetFace.face";
+
+/**
+ * Known local selector kinds for thicken features
+ *
+ * - `thicken.face`: `{ side, face }`, the `start` face or its `offset` copy, by the
+ *   position of its ref in the face list
+ */
+export type ThickenLocalSelectorKind = "thicken.face";
+
+/**
+ * Known local selector kinds for sheet metal features
+ *
+ * - `edgeFlange.face`: `{ role }`, a face of an edge flange: the outside or inside of the
+ *   bend (`bendOutside`, `bendInside`) or wall (`wallOutside`, `wallInside`), the end of
+ *   the wall (`wallEnd`), or the `start`/`end` of the flange along its edge
+ */
+export type SheetMetalLocalSelectorKind = "edgeFlange.face";
+
+/**
+ * Known local selector kinds for replace face features
+ *
+ * - `replaceFace.face`: `{}`, a face lying on the replacement plane (several are told
+ *   apart by fingerprint)
+ */
+export type ReplaceFaceLocalSelectorKind = "replaceFace.face";
+
+/**
+ * Known local selector kinds for import features
+ *
+ * - `import.face`: `{}`, a face read from the imported file (told apart by fingerprint,
+ *   which also carries refs over to a replacement file)
+ */
+export type ImportLocalSelectorKind = "import.face";
+
 /**
  * All known local selector kinds
  */
 export type KnownLocalSelectorKind =
   | ExtrudeLocalSelectorKind
   | RevolveLocalSelectorKind
+  | LoftLocalSelectorKind
+  | DraftLocalSelectorKind
+  | HoleLocalSelectorKind
+  | ThreadLocalSelectorKind
+  | RibLocalSelectorKind
+  | PrimitiveLocalSelectorKind
+  | SplitLocalSelectorKind
+  | OffsetFaceLocalSelectorKind
+  | ThickenLocalSelectorKind
+  | SheetMetalLocalSelectorKind
+  | ReplaceFaceLocalSelectorKind
+  | ImportLocalSelectorKind
   | "face.unknown"
   | "edge.unknown"
   | "vertex.unknown";
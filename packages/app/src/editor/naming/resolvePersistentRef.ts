@@ -72,10 +72,16 @@ export function resolvePersistentRef(
     if (!decoded.ok) continue;
     const parsed = decoded.ref;
 
-    const hits: Array<{ bodyKey: string; index: number; score: number }> = [];
+    let hits: Array<{ bodyKey: string; index: number; score: number }> = [];
+    const identityHits = new Set<{ bodyKey: string; index: number; score: number }>();
 
     for (const [bodyKey, refIndex] of Object.entries(referenceIndex)) {
-      const refs = parsed.expectedType === "face" ? refIndex.faces : refIndex.edges;
+      const refs =
+        parsed.expectedType === "face"
+          ? refIndex.faces
+          : parsed.expectedType === "edge"
+            ? refIndex.edges
+            : (refIndex.vertices ?? []);
 
       for (let i = 0; i < refs.length; i++) {
         const candidateDecoded = decodePersistentRef(refs[i]);
@@ -91,12 +97,22 @@ export function resolvePersistentRef(
 
         // Score by selector data + fingerprint similarity
         const score = computeScore(parsed, candidate);
-        hits.push({ bodyKey, index: i, score });
+        const hit = { bodyKey, index: i, score };
+        hits.push(hit);
+        if (matchesIdentityKeys(parsed, candidate)) {
+          identityHits.add(hit);
+        }
       }
     }
 
     if (hits.length === 0) continue;
 
+    // Sketch entity ids and pattern instances name the face/edge outright, so
+    // they win over fingerprints (which drift when upstream parameters change)
+    if (identityHits.size > 0) {
+      hits = hits.filter((hit) => identityHits.has(hit));
+    }
+
     // Sort by score (lower is better)
     hits.sort((a, b) => a.score - b.score);
 
@@ -121,6 +137,21 @@ export function resolvePersistentRef(
   return { status: "not_found", reason: "No candidate reference could be resolved" };
 }
 
+/** Selector data keys that identify a face/edge: sketch entity ids and pattern instances */
+const IDENTITY_SELECTOR_KEYS = ["segmentId", "segmentIds", "instance", "instanceOf"];
+
+/**
+ * Whether a candidate agrees with every identifying key in the ref's selector.
+ * Refs without identifying keys never match.
+ */
+function matchesIdentityKeys(ref: PersistentRefV1, candidate: PersistentRefV1): boolean {
+  const keys = IDENTITY_SELECTOR_KEYS.filter((key) => key in ref.localSelector.data);
+  return (
+    keys.length > 0 &&
+    keys.every((key) => candidate.localSelector.data[key] === ref.localSelector.data[key])
+  );
+}
+
 /**
  * Compute match score between two refs (lower is better)
  */
@@ -5,6 +5,8 @@
  * This file exists for backward compatibility - prefer importing from document/schema.ts directly.
  */
 
+import type { BodyMaterial } from "../document/schema";
+
 // Re-export all types from schema
 export type {
   DocumentMeta,
@@ -17,6 +19,8 @@ export type {
   SketchEntity,
   SketchConstraint,
   SketchData,
+  BodyMaterial,
+  BodyAppearance,
   OriginFeature,
   // Plane definition types
   PlaneDefinition,
@@ -35,8 +39,52 @@ export type {
   MergeScope,
   ExtrudeFeature,
   RevolveFeature,
+  SweepFeature,
+  LoftTangency,
+  LoftFeature,
+  ShellDirection,
+  ShellFeature,
+  FilletEdgeSet,
+  FilletFeature,
+  ChamferEdgeSet,
+  ChamferFeature,
+  PatternDirection,
+  PatternAxis,
+  LinearPatternFeature,
+  CircularPatternFeature,
+  MirrorPlaneRef,
+  MirrorFeature,
+  DraftFeature,
+  HoleType,
+  HoleExtent,
+  HoleThread,
+  HoleFeature,
+  HelixFeature,
+  ThreadFeature,
+  RibThicknessSide,
+  RibFeature,
+  BoxFeature,
+  CylinderFeature,
+  SphereFeature,
+  ConeFeature,
+  TorusFeature,
+  PrimitiveFeature,
+  TransformFeature,
+  SplitTool,
+  SplitKeep,
+  SplitFeature,
+  OffsetFaceFeature,
+  ThickenFeature,
+  BaseFlangeFeature,
+  EdgeFlangeFeature,
+  UnfoldFeature,
+  DeleteFaceFeature,
+  ReplaceFaceFeature,
   BooleanOperation,
   BooleanFeature,
+  DeleteBodyFeature,
+  ImportFormat,
+  ImportFeature,
   Feature,
   DocSnapshot,
 } from "../document/schema";
@@ -59,7 +107,36 @@ export type FeatureType =
   | "sketch"
   | "extrude"
   | "revolve"
-  | "boolean";
+  | "sweep"
+  | "loft"
+  | "shell"
+  | "fillet"
+  | "chamfer"
+  | "linearPattern"
+  | "circularPattern"
+  | "mirror"
+  | "draft"
+  | "hole"
+  | "helix"
+  | "thread"
+  | "rib"
+  | "box"
+  | "cylinder"
+  | "sphere"
+  | "cone"
+  | "torus"
+  | "transform"
+  | "split"
+  | "offsetFace"
+  | "thicken"
+  | "baseFlange"
+  | "edgeFlange"
+  | "unfold"
+  | "deleteFace"
+  | "replaceFace"
+  | "boolean"
+  | "deleteBody"
+  | "import";
 
 // ============================================================================
 // Build State Types (transient, not stored in Yjs)
@@ -87,4 +164,8 @@ export interface BodyInfo {
   name?: string;
   /** Display color for the body (hex string like "#ff0000") */
   color?: string;
+  /** False when hidden from the bodies panel */
+  visible?: boolean;
+  /** Display material preset */
+  material?: BodyMaterial;
 }
@@ -19,7 +19,19 @@ export const featureBaseSchema = z.object({
 // Extrude Feature Schema
 // ============================================================================
 
-export const extrudeExtentSchema = z.enum(["blind", "toFace", "toVertex", "throughAll"]);
+export const extrudeExtentSchema = z.enum([
+  "blind",
+  "toFace",
+  "toVertex",
+  "upToBody",
+  "throughAll",
+]);
+
+/** Draft angle in degrees; positive tapers inward */
+export const draftAngleSchema = z
+  .number()
+  .gt(-90, "Draft angle must be greater than -90°")
+  .lt(90, "Draft angle must be less than 90°");
 
 /** Merge scope for add operations - SolidWorks-like multi-body support */
 export const mergeScopeSchema = z.enum(["auto", "new", "specific"]);
@@ -28,10 +40,18 @@ export const extrudeFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
   sketch: z.string().min(1, "Sketch is required"),
   op: z.enum(["add", "cut"]),
-  direction: z.enum(["normal", "reverse"]),
+  direction: z.enum(["normal", "reverse", "symmetric"]),
   extent: extrudeExtentSchema,
   distance: z.number().min(0.1, "Distance must be at least 0.1"),
   extentRef: z.string().optional(),
+  extentBody: z.string().optional(),
+  extentOffset: z.number().optional(),
+  startOffset: z.number().optional(),
+  draftAngle: draftAngleSchema.optional(),
+  // Second side, extruded opposite the direction
+  twoSided: z.boolean().optional(),
+  distance2: z.number().min(0.1, "Distance must be at least 0.1").optional(),
+  draftAngle2: draftAngleSchema.optional(),
   // Multi-body merge options
   mergeScope: mergeScopeSchema.optional(),
   targetBodies: z.array(z.string()).optional(),
@@ -61,6 +81,18 @@ export const revolveFormSchema = z.object({
   axis: z.string().min(1, "Axis is required"),
   angle: z.number().min(1, "Angle must be at least 1").max(360, "Angle must be at most 360"),
   op: z.enum(["add", "cut"]),
+  symmetric: z.boolean().optional(),
+  // Second direction, revolved the other way from the sketch plane
+  twoSided: z.boolean().optional(),
+  angle2: z
+    .number()
+    .min(1, "Angle must be at least 1")
+    .max(359, "Angle must be at most 359")
+    .optional(),
+  // Thin feature
+  thin: z.boolean().optional(),
+  thickness: z.number().positive("Thickness must be positive").optional(),
+  thinSide: z.enum(["normal", "reverse", "symmetric"]).optional(),
   // Multi-body merge options
   mergeScope: mergeScopeSchema.optional(),
   targetBodies: z.array(z.string()).optional(),
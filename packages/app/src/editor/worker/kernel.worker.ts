@@ -4,70 +4,22 @@
  * Runs the CAD kernel in a separate thread and syncs with the Yjs document.
  * Uses Y.Map/Y.Array model (no XML). See DOCUMENT-MODEL.md.
  *
- * Updated to use the new OCCT-based SolidSession API.
+ * Rebuilds, previews and exports go through KernelEngine, the same engine the
+ * AI worker uses; this file only relays messages.
+ *
+ * @see docs/CAD-PIPELINE-REWORK.md Phase 4
  */
 
-/* eslint-disable @typescript-eslint/no-explicit-any -- OpenCascade WASM bindings use dynamic types */
 /// <reference lib="webworker" />
 
 import * as Y from "yjs";
-import {
-  SolidSession,
-  setOC,
-  type BodyId,
-  type OperationResult,
-  XY_PLANE,
-  YZ_PLANE,
-  ZX_PLANE,
-  createDatumPlane,
-  type DatumPlane,
-  planeToWorld,
-  sub3,
-  vec2,
-  coincident,
-  horizontalPoints,
-  verticalPoints,
-  fixed,
-  distance,
-  angle,
-  // Advanced constraints (Phase 19)
-  parallel,
-  perpendicular,
-  equalLength,
-  tangent,
-  symmetric,
-  pointOnLine,
-  pointOnArc,
-  exportMeshesToStl,
-  type Mesh,
-} from "@solidtype/core";
+import { setOC } from "@solidtype/core";
 
 // Browser-specific OpenCascade.js initialization with static imports
 import { initOCCTBrowser } from "./occt-init";
-import type {
-  MainToWorkerMessage,
-  WorkerToMainMessage,
-  TransferableMesh,
-  BodyInfo,
-  BuildError,
-  FeatureStatus,
-} from "./types";
-import {
-  getRoot,
-  getMeta as _getMeta,
-  getState,
-  getFeaturesById,
-  getFeatureOrder,
-  mapToObject,
-  getSortedKeys as _getSortedKeys,
-} from "../document/yjs";
-import type { SketchPlaneRef, DatumPlaneRole } from "../document/schema";
-import {
-  buildBodyReferenceIndex,
-  computeProfileLoops,
-  type ReferenceIndex,
-  type SketchInfo as ReferenceSketchInfo,
-} from "../kernel/referenceIndex";
+import type { MainToWorkerMessage, WorkerToMainMessage, TransferableMesh } from "./types";
+import { getRoot, mapToObject } from "../document/yjs";
+import { KernelEngine } from "../kernel/KernelEngine";
 
 // Declare self as a worker global scope
 declare const self: DedicatedWorkerGlobalScope;
@@ -92,64 +44,23 @@ console.log("[Worker] Build tag:", WORKER_BUILD_TAG);
 
 let doc: Y.Doc | null = null;
 let syncPort: MessagePort | null = null;
-let session: SolidSession | null = null;
+let engine: KernelEngine | null = null;
 let rebuildTimeout: ReturnType<typeof setTimeout> | null = null;
-let initializationPromise: Promise<void> | null = null;
-
-/**
- * Body entry in the bodyMap - stores body ID with metadata
- */
-interface BodyEntry {
-  bodyId: BodyId;
-  name: string;
-  color: string;
-  /** Feature ID that created this body (for reference tracking) */
-  sourceFeatureId: string;
-}
-
-// Map of feature IDs to their body entries
-const bodyMap = new Map<string, BodyEntry>();
-
-/** Default body colors - cycle through these for new bodies */
-const DEFAULT_BODY_COLORS = [
-  "#6699cc", // blue-gray
-  "#99cc99", // green
-  "#cc9999", // red
-  "#cccc99", // yellow
-  "#cc99cc", // purple
-  "#99cccc", // cyan
-];
-
-let bodyColorIndex = 0;
-
-function getNextBodyColor(): string {
-  const color = DEFAULT_BODY_COLORS[bodyColorIndex % DEFAULT_BODY_COLORS.length];
-  bodyColorIndex++;
-  return color;
-}
-
-function resetBodyColorIndex(): void {
-  bodyColorIndex = 0;
-}
+let initializationPromise: Promise<KernelEngine> | null = null;
 
 // ============================================================================
-// Session Initialization
+// Engine Initialization
 // ============================================================================
 
 /**
- * Initialize the OCCT session asynchronously
+ * Initialize the kernel engine asynchronously
  */
-async function initializeSession(): Promise<SolidSession> {
-  if (session && session.isInitialized()) {
-    return session;
-  }
-
-  if (initializationPromise) {
-    await initializationPromise;
-    return session!;
+async function initializeEngine(): Promise<KernelEngine> {
+  if (engine?.isInitialized()) {
+    return engine;
   }
 
-  initializationPromise = (async () => {
+  initializationPromise ??= (async () => {
     // Initialize OpenCascade.js using browser-specific static imports
     // This uses Vite-compatible imports from occt-init.ts
     console.log("[Worker] Initializing OpenCascade.js...");
@@ -159,14 +70,24 @@ async function initializeSession(): Promise<SolidSession> {
     setOC(oc);
     console.log("[Worker] OpenCascade.js initialized and set in core");
 
-    // Create and initialize the session
-    session = new SolidSession();
-    await session.init();
-    console.log("[Worker] OCCT session initialized");
+    const created = new KernelEngine({ oc, computeMeshes: true });
+    await created.init();
+    engine = created;
+    console.log("[Worker] Kernel engine initialized");
+    return created;
   })();
 
-  await initializationPromise;
-  return session!;
+  return initializationPromise;
+}
+
+/**
+ * The engine, once a rebuild has started it
+ */
+function requireEngine(): KernelEngine {
+  if (!engine) {
+    throw new Error("No session available");
+  }
+  return engine;
 }
 
 // ============================================================================
@@ -252,1212 +173,43 @@ function scheduleRebuild(): void {
 }
 
 // ============================================================================
-// Datum Plane Helpers
-// ============================================================================
-
-/**
- * Cache of datum plane IDs by role
- */
-let datumPlaneCache: {
-  xy: string | null;
-  xz: string | null;
-  yz: string | null;
-} | null = null;
-
-/**
- * Find datum plane ID by role from featuresById
- */
-function findDatumPlaneByRole(
-  featuresById: Y.Map<Y.Map<unknown>>,
-  role: DatumPlaneRole
-): string | null {
-  let foundId: string | null = null;
-  featuresById.forEach((featureMap, id) => {
-    if (featureMap.get("type") === "plane") {
-      // Check both old format (role at top level) and new format (role in definition)
-      const topLevelRole = featureMap.get("role");
-      const definition = featureMap.get("definition") as
-        | { kind?: string; role?: string }
-        | undefined;
-      const definitionRole = definition?.kind === "datum" ? definition.role : undefined;
-      if (topLevelRole === role || definitionRole === role) {
-        foundId = id;
-      }
-    }
-  });
-  return foundId;
-}
-
-/**
- * Build datum plane cache
- */
-function buildDatumPlaneCache(featuresById: Y.Map<Y.Map<unknown>>): void {
-  datumPlaneCache = {
-    xy: findDatumPlaneByRole(featuresById, "xy"),
-    xz: findDatumPlaneByRole(featuresById, "xz"),
-    yz: findDatumPlaneByRole(featuresById, "yz"),
-  };
-  void datumPlaneCache; // suppress unused read warning - cache for future use
-}
-
-/**
- * Get DatumPlane from a plane feature map
- */
-function getDatumPlaneFromFeature(featureMap: Y.Map<unknown>): DatumPlane | null {
-  const type = featureMap.get("type");
-  if (type !== "plane") return null;
-
-  const role = featureMap.get("role") as DatumPlaneRole | undefined;
-  const normal = featureMap.get("normal") as [number, number, number];
-  const origin = featureMap.get("origin") as [number, number, number];
-  const xDir = featureMap.get("xDir") as [number, number, number];
-
-  // For datum planes with standard roles, use predefined planes
-  if (role === "xy") return XY_PLANE;
-  if (role === "xz") return ZX_PLANE;
-  if (role === "yz") return YZ_PLANE;
-
-  // For custom planes, create from vectors
-  const yDir = [
-    normal[1] * xDir[2] - normal[2] * xDir[1],
-    normal[2] * xDir[0] - normal[0] * xDir[2],
-    normal[0] * xDir[1] - normal[1] * xDir[0],
-  ] as [number, number, number];
-
-  return createDatumPlane("custom", {
-    kind: "plane",
-    origin,
-    normal,
-    xDir,
-    yDir,
-  });
-}
-
-/**
- * Get sketch plane from a SketchPlaneRef
- * Supports datum plane references and face references.
- */
-function getSketchPlane(
-  planeRef: SketchPlaneRef,
-  featuresById: Y.Map<Y.Map<unknown>>
-): DatumPlane | null {
-  if (planeRef.kind === "planeFeatureId") {
-    const planeFeature = featuresById.get(planeRef.ref);
-    if (!planeFeature) return null;
-    return getDatumPlaneFromFeature(planeFeature);
-  }
-
-  if (planeRef.kind === "faceRef") {
-    // Parse face reference: "face:featureId:faceIndex"
-    const parts = planeRef.ref.split(":");
-    if (parts.length !== 3 || parts[0] !== "face") {
-      console.warn(`[Worker] Invalid face reference format: ${planeRef.ref}`);
-      return null;
-    }
-
-    const featureId = parts[1];
-    const faceIndex = parseInt(parts[2], 10);
-
-    if (isNaN(faceIndex)) {
-      console.warn(`[Worker] Invalid face index in reference: ${planeRef.ref}`);
-      return null;
-    }
-
-    // Find the body entry for this feature
-    const bodyEntry = bodyMap.get(featureId);
-    if (!bodyEntry || !session) {
-      console.warn(`[Worker] Body not found for feature: ${featureId}`);
-      return null;
-    }
-
-    // Get face plane data from the session
-    const facePlane = session.getFacePlane(bodyEntry.bodyId, faceIndex);
-    if (!facePlane) {
-      console.warn(`[Worker] Could not extract plane from face ${faceIndex} of body ${featureId}`);
-      return null;
-    }
-
-    // Create a datum plane from the face plane data
-    return createDatumPlane(`face-${featureId}-${faceIndex}`, {
-      kind: "plane",
-      origin: facePlane.origin,
-      normal: facePlane.normal,
-      xDir: facePlane.xDir,
-      yDir: facePlane.yDir,
-    });
-  }
-
-  return null;
-}
-
-// ============================================================================
-// Feature Interpretation
-// ============================================================================
-
-interface SketchData {
-  pointsById: Record<
-    string,
-    {
-      id: string;
-      x: number;
-      y: number;
-      fixed?: boolean;
-      attachedTo?: string;
-      param?: number;
-    }
-  >;
-  entitiesById: Record<
-    string,
-    {
-      id: string;
-      type: string;
-      start?: string;
-      end?: string;
-      center?: string;
-      ccw?: boolean;
-    }
-  >;
-  constraintsById: Record<string, any>;
-}
-
-function parseSketchData(sketchMap: Y.Map<unknown>): SketchData {
-  const dataMap = sketchMap.get("data") as Y.Map<unknown> | undefined;
-
-  if (!dataMap) {
-    return { pointsById: {}, entitiesById: {}, constraintsById: {} };
-  }
-
-  const pointsById: Record<string, any> = {};
-  const entitiesById: Record<string, any> = {};
-  const constraintsById: Record<string, any> = {};
-
-  const pointsMap = dataMap.get("pointsById") as Y.Map<Y.Map<unknown>> | undefined;
-  if (pointsMap) {
-    pointsMap.forEach((pointMap, id) => {
-      pointsById[id] = mapToObject(pointMap);
-    });
-  }
-
-  const entitiesMap = dataMap.get("entitiesById") as Y.Map<Y.Map<unknown>> | undefined;
-  if (entitiesMap) {
-    entitiesMap.forEach((entityMap, id) => {
-      entitiesById[id] = mapToObject(entityMap);
-    });
-  }
-
-  const constraintsMap = dataMap.get("constraintsById") as Y.Map<Y.Map<unknown>> | undefined;
-  if (constraintsMap) {
-    constraintsMap.forEach((constraintMap, id) => {
-      constraintsById[id] = mapToObject(constraintMap);
-    });
-  }
-
-  return { pointsById, entitiesById, constraintsById };
-}
-
-interface SketchInfo {
-  planeRef: SketchPlaneRef;
-  plane: DatumPlane;
-  data: SketchData;
-  /** Profile loops for PersistentRef generation (Phase 3) */
-  referenceInfo?: ReferenceSketchInfo;
-}
-
-// Map of sketch IDs to their parsed data
-const sketchCache = new Map<string, SketchInfo>();
-
-/** Map from feature ID to its source sketch info (for reference index generation) */
-const featureToSketchInfo = new Map<string, ReferenceSketchInfo>();
-
-/**
- * Calculate extrude distance based on extent type (Phase 14)
- */
-function calculateExtrudeDistance(
-  featureMap: Y.Map<unknown>,
-  direction: number,
-  _sketchPlane?: DatumPlane
-): number {
-  const extent = (featureMap.get("extent") as string) || "blind";
-  const baseDistance = (featureMap.get("distance") as number) || 10;
-
-  switch (extent) {
-    case "blind":
-      return baseDistance * direction;
-
-    case "throughAll":
-      return 1000 * direction;
-
-    case "toFace": {
-      // TODO: Implement toFace extent in OCCT API
-      console.warn("[Worker] toFace extent is not yet supported in the OCCT API");
-      return baseDistance * direction;
-    }
-
-    case "toVertex":
-      return baseDistance * direction;
-
-    default:
-      return baseDistance * direction;
-  }
-}
-
-function interpretSketch(
-  currentSession: SolidSession,
-  sketchMap: Y.Map<unknown>,
-  featuresById: Y.Map<Y.Map<unknown>>
-): void {
-  const id = sketchMap.get("id") as string;
-  const planeRef = sketchMap.get("plane") as SketchPlaneRef;
-
-  const plane = getSketchPlane(planeRef, featuresById);
-  if (!plane) {
-    throw new Error(`Cannot resolve sketch plane`);
-  }
-
-  const data = parseSketchData(sketchMap);
-
-  // Build a kernel sketch
-  const sketch = currentSession.createSketch(plane);
-  const pointIdMap = new Map<string, any>();
-  const entityIdMap = new Map<string, any>();
-
-  // Sort keys for deterministic iteration
-  const sortedPointIds = Object.keys(data.pointsById).sort();
-  for (const pointId of sortedPointIds) {
-    const point = data.pointsById[pointId];
-    const x = point.x;
-    const y = point.y;
-    const isFixed = point.fixed;
-
-    const pid = sketch.addPoint(x, y, { fixed: isFixed });
-    pointIdMap.set(point.id, pid);
-  }
-
-  const sortedEntityIds = Object.keys(data.entitiesById).sort();
-  for (const entityId of sortedEntityIds) {
-    const entity = data.entitiesById[entityId];
-    if (entity.type === "line" && entity.start && entity.end) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      if (startId !== undefined && endId !== undefined) {
-        const eid = sketch.addLine(startId, endId);
-        entityIdMap.set(entity.id, eid);
-      }
-    }
-    if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      const centerId = pointIdMap.get(entity.center);
-      if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-        const eid = sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-        entityIdMap.set(entity.id, eid);
-      }
-    }
-    // Circle: center + radius (no edge point needed)
-    // In the kernel, we represent this as a full arc (360°) by creating a point on the circle
-    // and using it as both start and end of the arc.
-    if (
-      entity.type === "circle" &&
-      entity.center &&
-      "radius" in entity &&
-      (entity as { radius: number }).radius > 0
-    ) {
-      const centerId = pointIdMap.get(entity.center);
-      if (centerId !== undefined) {
-        // Get center point position
-        const centerPoint = data.pointsById[entity.center];
-        if (centerPoint) {
-          // Create a point on the circle circumference (at angle 0)
-          const radius = (entity as { radius: number }).radius;
-          const edgeX = centerPoint.x + radius;
-          const edgeY = centerPoint.y;
-          const edgePointId = sketch.addPoint(edgeX, edgeY);
-
-          // Create a full arc (circle) using the same start/end point
-          const eid = sketch.addArc(edgePointId, edgePointId, centerId, true);
-          entityIdMap.set(entity.id, eid);
-        }
-      }
-    }
-  }
-
-  // Apply constraints (sorted for determinism)
-  const sortedConstraintIds = Object.keys(data.constraintsById).sort();
-  for (const constraintId of sortedConstraintIds) {
-    const c = data.constraintsById[constraintId];
-    if (!c || typeof c !== "object") continue;
-
-    switch (c.type) {
-      case "coincident": {
-        const [a, b] = c.points ?? [];
-        const p1 = pointIdMap.get(a);
-        const p2 = pointIdMap.get(b);
-        if (p1 !== undefined && p2 !== undefined) {
-          sketch.addConstraint(coincident(p1, p2));
-        }
-        break;
-      }
-      case "horizontal": {
-        const [a, b] = c.points ?? [];
-        const p1 = pointIdMap.get(a);
-        const p2 = pointIdMap.get(b);
-        if (p1 !== undefined && p2 !== undefined) {
-          sketch.addConstraint(horizontalPoints(p1, p2));
-        }
-        break;
-      }
-      case "vertical": {
-        const [a, b] = c.points ?? [];
-        const p1 = pointIdMap.get(a);
-        const p2 = pointIdMap.get(b);
-        if (p1 !== undefined && p2 !== undefined) {
-          sketch.addConstraint(verticalPoints(p1, p2));
-        }
-        break;
-      }
-      case "fixed": {
-        const pointId = c.point;
-        const pid = pointIdMap.get(pointId);
-        const p = data.pointsById[pointId];
-        if (pid !== undefined && p) {
-          sketch.addConstraint(fixed(pid, vec2(p.x, p.y)));
-        }
-        break;
-      }
-      case "distance": {
-        const [a, b] = c.points ?? [];
-        const p1 = pointIdMap.get(a);
-        const p2 = pointIdMap.get(b);
-        const val = typeof c.value === "number" ? c.value : Number(c.value);
-        if (p1 !== undefined && p2 !== undefined && Number.isFinite(val)) {
-          sketch.addConstraint(distance(p1, p2, val));
-        }
-        break;
-      }
-      case "angle": {
-        const [l1, l2] = c.lines ?? [];
-        const e1 = entityIdMap.get(l1);
-        const e2 = entityIdMap.get(l2);
-        const valDeg = typeof c.value === "number" ? c.value : Number(c.value);
-        if (e1 !== undefined && e2 !== undefined && Number.isFinite(valDeg)) {
-          sketch.addConstraint(angle(e1, e2, (valDeg * Math.PI) / 180));
-        }
-        break;
-      }
-      case "parallel": {
-        const [l1, l2] = c.lines ?? [];
-        const e1 = entityIdMap.get(l1);
-        const e2 = entityIdMap.get(l2);
-        if (e1 !== undefined && e2 !== undefined) {
-          sketch.addConstraint(parallel(e1, e2));
-        }
-        break;
-      }
-      case "perpendicular": {
-        const [l1, l2] = c.lines ?? [];
-        const e1 = entityIdMap.get(l1);
-        const e2 = entityIdMap.get(l2);
-        if (e1 !== undefined && e2 !== undefined) {
-          sketch.addConstraint(perpendicular(e1, e2));
-        }
-        break;
-      }
-      case "equalLength": {
-        const [l1, l2] = c.lines ?? [];
-        const e1 = entityIdMap.get(l1);
-        const e2 = entityIdMap.get(l2);
-        if (e1 !== undefined && e2 !== undefined) {
-          sketch.addConstraint(equalLength(e1, e2));
-        }
-        break;
-      }
-      case "tangent": {
-        const lineId = entityIdMap.get(c.line);
-        const arcId = entityIdMap.get(c.arc);
-        if (lineId !== undefined && arcId !== undefined) {
-          sketch.addConstraint(tangent(lineId, arcId, "end", "start"));
-        }
-        break;
-      }
-      case "symmetric": {
-        const [pt1, pt2] = c.points ?? [];
-        const p1 = pointIdMap.get(pt1);
-        const p2 = pointIdMap.get(pt2);
-        const axisId = entityIdMap.get(c.axis);
-        if (p1 !== undefined && p2 !== undefined && axisId !== undefined) {
-          sketch.addConstraint(symmetric(p1, p2, axisId));
-        }
-        break;
-      }
-      case "pointOnLine": {
-        const pid = pointIdMap.get(c.point);
-        const lid = entityIdMap.get(c.line);
-        if (pid !== undefined && lid !== undefined) {
-          sketch.addConstraint(pointOnLine(pid, lid));
-        }
-        break;
-      }
-      case "pointOnArc": {
-        const pid = pointIdMap.get(c.point);
-        const arcId = entityIdMap.get(c.arc);
-        if (pid !== undefined && arcId !== undefined) {
-          sketch.addConstraint(pointOnArc(pid, arcId));
-        }
-        break;
-      }
-      default:
-        break;
-    }
-  }
-
-  const before = new Map<string, { x: number; y: number }>();
-  for (const [pid, p] of Object.entries(data.pointsById)) {
-    before.set(pid, { x: p.x, y: p.y });
-  }
-
-  const solveResult = sketch.solve();
-  const dof = sketch.analyzeDOF();
-
-  // Update sketch data with solved positions
-  let maxDelta = 0;
-  for (const [pid, p] of Object.entries(data.pointsById)) {
-    const kernelPid = pointIdMap.get(pid);
-    if (kernelPid === undefined) continue;
-    const solved = sketch.getPoint(kernelPid);
-    if (!solved) continue;
-
-    const prev = before.get(pid);
-    if (prev) {
-      const dx = solved.x - prev.x;
-      const dy = solved.y - prev.y;
-      maxDelta = Math.max(maxDelta, Math.hypot(dx, dy));
-    }
-
-    p.x = solved.x;
-    p.y = solved.y;
-  }
-
-  // Notify main thread of solve status
-  const { origin, xDir, yDir, normal } = plane.surface;
-  const pointsArray = Object.values(data.pointsById);
-  self.postMessage({
-    type: "sketch-solved",
-    sketchId: id,
-    points: maxDelta > 1e-9 ? pointsArray.map((p) => ({ id: p.id, x: p.x, y: p.y })) : [],
-    status: solveResult.status,
-    planeTransform: {
-      origin: origin as [number, number, number],
-      xDir: xDir as [number, number, number],
-      yDir: yDir as [number, number, number],
-      normal: normal as [number, number, number],
-    },
-    dof,
-  } as WorkerToMainMessage);
-
-  // Compute profile loops for PersistentRef generation (Phase 3)
-  const profileLoops = computeProfileLoops(data.entitiesById, data.pointsById);
-  const referenceInfo: ReferenceSketchInfo = { profileLoops };
-
-  // Store for downstream features
-  sketchCache.set(id, { planeRef, plane, data, referenceInfo });
-}
-
-/**
- * Result from interpretExtrude/interpretRevolve with metadata
- */
-interface FeatureInterpretResult {
-  bodyId: BodyId | null;
-  bodyEntryId: string | null;
-  bodyName?: string;
-  bodyColor?: string;
-}
-
-function interpretExtrude(
-  currentSession: SolidSession,
-  featureMap: Y.Map<unknown>,
-  featureId: string,
-  _featuresById: Y.Map<Y.Map<unknown>>
-): FeatureInterpretResult {
-  const sketchId = featureMap.get("sketch") as string;
-  const op = (featureMap.get("op") as string) || "add";
-  const direction = (featureMap.get("direction") as string) || "normal";
-  const mergeScope = (featureMap.get("mergeScope") as string) || "auto";
-  const targetBodies = (featureMap.get("targetBodies") as string[]) || [];
-  const resultBodyName = (featureMap.get("resultBodyName") as string) || "";
-  const resultBodyColor = (featureMap.get("resultBodyColor") as string) || "";
-
-  if (!sketchId) {
-    throw new Error("Extrude requires a sketch reference");
-  }
-
-  const sketchInfo = sketchCache.get(sketchId);
-  if (!sketchInfo) {
-    throw new Error(`Sketch not found: ${sketchId}`);
-  }
-
-  // Create sketch and add entities
-  const sketch = currentSession.createSketch(sketchInfo.plane);
-  const pointIdMap = new Map<string, any>();
-
-  // Add points (sorted for determinism)
-  const sortedPointIds = Object.keys(sketchInfo.data.pointsById).sort();
-  for (const pid of sortedPointIds) {
-    const point = sketchInfo.data.pointsById[pid];
-    const kernelPid = sketch.addPoint(point.x, point.y, { fixed: point.fixed });
-    pointIdMap.set(point.id, kernelPid);
-  }
-
-  // Add entities
-  const sortedEntityIds = Object.keys(sketchInfo.data.entitiesById).sort();
-  for (const eid of sortedEntityIds) {
-    const entity = sketchInfo.data.entitiesById[eid];
-    if (entity.type === "line" && entity.start && entity.end) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      if (startId !== undefined && endId !== undefined) {
-        sketch.addLine(startId, endId);
-      }
-    } else if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      const centerId = pointIdMap.get(entity.center);
-      if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-        sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-      }
-    } else if (entity.type === "circle" && entity.center && entity.radius) {
-      // Circle entities are stored as center + radius
-      // The sketch.addCircle creates a center point and a full arc (start=end)
-      const centerPoint = sketchInfo.data.pointsById[entity.center];
-      if (centerPoint) {
-        sketch.addCircle(centerPoint.x, centerPoint.y, entity.radius);
-      }
-    }
-  }
-
-  const profile = sketch.toProfile();
-  if (!profile) {
-    throw new Error("Sketch does not contain a closed profile");
-  }
-
-  const dirMultiplier = direction === "reverse" ? -1 : 1;
-  const finalDistance = calculateExtrudeDistance(featureMap, dirMultiplier, sketchInfo.plane);
-
-  // Extrude to create new body
-  const result = currentSession.extrude(profile, {
-    operation: "new",
-    distance: finalDistance,
-  });
-
-  if (!result.success) {
-    throw new Error(result.error?.message || "Extrude failed");
-  }
-
-  const extrudedBodyId = result.value;
-
-  // Store sketch info for reference index generation (Phase 3)
-  if (sketchInfo.referenceInfo) {
-    featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
-  }
-
-  // Handle cut operation
-  if (op === "cut") {
-    console.log("[Worker] Extrude CUT operation");
-
-    let anySuccess = false;
-    let lastError: string | undefined;
-    for (const [existingId, entry] of bodyMap) {
-      console.log(`[Worker] Subtracting from body ${existingId}`);
-
-      const boolResult = currentSession.subtract(entry.bodyId, extrudedBodyId);
-      console.log(`[Worker] Subtract result: success=${boolResult.success}`);
-      if (boolResult.success) {
-        // Update the body entry with the new body ID from the boolean result
-        bodyMap.set(existingId, { ...entry, bodyId: boolResult.value });
-        anySuccess = true;
-      } else {
-        lastError = boolResult.error?.message;
-        console.error(`[Worker] Boolean subtract failed: ${lastError}`);
-      }
-    }
-
-    // Delete the tool body
-    currentSession.deleteBody(extrudedBodyId);
-
-    if (!anySuccess && bodyMap.size > 0 && lastError) {
-      throw new Error(`Cut operation failed: ${lastError}`);
-    }
-    return { bodyId: null, bodyEntryId: null };
-  }
-
-  // Handle add operation with merge logic
-  const finalBodyName = resultBodyName || `Body${bodyMap.size + 1}`;
-  const finalBodyColor = resultBodyColor || getNextBodyColor();
-
-  if (mergeScope === "new" || bodyMap.size === 0) {
-    return {
-      bodyId: extrudedBodyId,
-      bodyEntryId: featureId,
-      bodyName: finalBodyName,
-      bodyColor: finalBodyColor,
-    };
-  }
-
-  if (mergeScope === "specific" && targetBodies.length > 0) {
-    let currentBodyId = extrudedBodyId;
-    let mergedIntoId: string | null = null;
-    let mergedEntry: BodyEntry | null = null;
-
-    for (const targetId of targetBodies) {
-      const targetEntry = bodyMap.get(targetId);
-      if (targetEntry) {
-        const unionResult = currentSession.union(targetEntry.bodyId, currentBodyId);
-        if (unionResult.success) {
-          // Delete old bodies if they're different from result
-          if (currentBodyId !== unionResult.value) {
-            currentSession.deleteBody(currentBodyId);
-          }
-          if (targetEntry.bodyId !== unionResult.value) {
-            currentSession.deleteBody(targetEntry.bodyId);
-          }
-          currentBodyId = unionResult.value;
-          if (!mergedIntoId) {
-            mergedIntoId = targetId;
-            mergedEntry = targetEntry;
-          }
-        }
-      }
-    }
-
-    if (mergedIntoId && mergedEntry) {
-      bodyMap.set(mergedIntoId, { ...mergedEntry, bodyId: currentBodyId });
-      return {
-        bodyId: null,
-        bodyEntryId: mergedIntoId,
-        bodyName: mergedEntry.name,
-        bodyColor: mergedEntry.color,
-      };
-    }
-
-    return {
-      bodyId: currentBodyId,
-      bodyEntryId: featureId,
-      bodyName: finalBodyName,
-      bodyColor: finalBodyColor,
-    };
-  }
-
-  // mergeScope === 'auto'
-  console.log("[Worker] Extrude ADD with auto merge");
-  let currentBodyId = extrudedBodyId;
-  let mergedIntoId: string | null = null;
-  let mergedEntry: BodyEntry | null = null;
-  const mergeWarnings: string[] = [];
-
-  for (const [existingId, entry] of bodyMap) {
-    console.log(`[Worker] Union with body ${existingId}`);
-    const unionResult = currentSession.union(entry.bodyId, currentBodyId);
-    console.log(`[Worker] Union result: success=${unionResult.success}`);
-    if (unionResult.success) {
-      // Delete old bodies if they're different from result
-      if (currentBodyId !== unionResult.value) {
-        currentSession.deleteBody(currentBodyId);
-      }
-      if (entry.bodyId !== unionResult.value) {
-        currentSession.deleteBody(entry.bodyId);
-      }
-      currentBodyId = unionResult.value;
-      if (!mergedIntoId) {
-        mergedIntoId = existingId;
-        mergedEntry = entry;
-      }
-    } else if (unionResult.error) {
-      // Log warning but continue - bodies will remain separate
-      console.warn(
-        `[Worker] Union failed (bodies will remain separate): ${unionResult.error.message}`
-      );
-      mergeWarnings.push(`Union with existing body failed: ${unionResult.error.message}`);
-    }
-  }
-
-  if (mergedIntoId && mergedEntry) {
-    console.log(`[Worker] Merged into ${mergedIntoId}`);
-    bodyMap.set(mergedIntoId, { ...mergedEntry, bodyId: currentBodyId });
-    return {
-      bodyId: null,
-      bodyEntryId: mergedIntoId,
-      bodyName: mergedEntry.name,
-      bodyColor: mergedEntry.color,
-    };
-  }
-
-  // No successful merge - return as separate body
-  if (mergeWarnings.length > 0) {
-    console.warn(
-      `[Worker] Creating separate body due to merge failures: ${mergeWarnings.join("; ")}`
-    );
-  }
-  return {
-    bodyId: currentBodyId,
-    bodyEntryId: featureId,
-    bodyName: finalBodyName,
-    bodyColor: finalBodyColor,
-  };
-}
-
-function interpretRevolve(
-  currentSession: SolidSession,
-  featureMap: Y.Map<unknown>,
-  featureId: string,
-  _featuresById: Y.Map<Y.Map<unknown>>
-): FeatureInterpretResult {
-  const sketchId = featureMap.get("sketch") as string;
-  const axisId = (featureMap.get("axis") as string) || "";
-  const angleDeg = (featureMap.get("angle") as number) || 360;
-  const op = (featureMap.get("op") as string) || "add";
-  const mergeScope = (featureMap.get("mergeScope") as string) || "auto";
-  const targetBodies = (featureMap.get("targetBodies") as string[]) || [];
-  const resultBodyName = (featureMap.get("resultBodyName") as string) || "";
-  const resultBodyColor = (featureMap.get("resultBodyColor") as string) || "";
-
-  if (!sketchId) {
-    throw new Error("Revolve requires a sketch reference");
-  }
-  if (!axisId) {
-    throw new Error("Revolve requires an axis line selection");
-  }
-
-  const sketchInfo = sketchCache.get(sketchId);
-  if (!sketchInfo) {
-    throw new Error(`Sketch not found: ${sketchId}`);
-  }
-
-  const axisEntity = sketchInfo.data.entitiesById[axisId];
-  if (!axisEntity || axisEntity.type !== "line" || !axisEntity.start || !axisEntity.end) {
-    throw new Error("Invalid axis selection");
-  }
-
-  const axisStart2d = sketchInfo.data.pointsById[axisEntity.start];
-  const axisEnd2d = sketchInfo.data.pointsById[axisEntity.end];
-  if (!axisStart2d || !axisEnd2d) {
-    throw new Error("Axis references missing sketch points");
-  }
-
-  const sketch = currentSession.createSketch(sketchInfo.plane);
-  const pointIdMap = new Map<string, any>();
-  const entityIdMap = new Map<string, any>();
-
-  const sortedPointIds = Object.keys(sketchInfo.data.pointsById).sort();
-  for (const pid of sortedPointIds) {
-    const point = sketchInfo.data.pointsById[pid];
-    const kernelPid = sketch.addPoint(point.x, point.y, { fixed: point.fixed });
-    pointIdMap.set(point.id, kernelPid);
-  }
-
-  const sortedEntityIds = Object.keys(sketchInfo.data.entitiesById).sort();
-  for (const eid of sortedEntityIds) {
-    const entity = sketchInfo.data.entitiesById[eid];
-    if (entity.type === "line" && entity.start && entity.end) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      if (startId !== undefined && endId !== undefined) {
-        const isAxis = entity.id === axisId;
-        const kernelEid = sketch.addLine(startId, endId, { construction: isAxis });
-        entityIdMap.set(entity.id, kernelEid);
-      }
-    }
-    if (entity.type === "arc" && entity.start && entity.end && entity.center) {
-      const startId = pointIdMap.get(entity.start);
-      const endId = pointIdMap.get(entity.end);
-      const centerId = pointIdMap.get(entity.center);
-      if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-        const kernelEid = sketch.addArc(startId, endId, centerId, entity.ccw ?? true);
-        entityIdMap.set(entity.id, kernelEid);
-      }
-    }
-  }
-
-  const profileEntityIds: any[] = [];
-  for (const eid of sortedEntityIds) {
-    if (eid === axisId) continue;
-    const kernelEid = entityIdMap.get(eid);
-    if (kernelEid !== undefined) profileEntityIds.push(kernelEid);
-  }
-
-  const profile = sketch.getCoreSketch().toProfile(profileEntityIds);
-  if (!profile) {
-    throw new Error("Sketch does not contain a closed profile");
-  }
-
-  const axisStartWorld = planeToWorld(sketchInfo.plane, axisStart2d.x, axisStart2d.y);
-  const axisEndWorld = planeToWorld(sketchInfo.plane, axisEnd2d.x, axisEnd2d.y);
-  const axisDir = sub3(axisEndWorld, axisStartWorld);
-
-  const result = currentSession.revolve(profile, {
-    operation: "new",
-    axis: { origin: axisStartWorld, direction: axisDir },
-    angleDegrees: angleDeg,
-  });
-
-  if (!result.success) {
-    throw new Error(result.error?.message || "Revolve failed");
-  }
-
-  const revolvedBodyId = result.value;
-
-  // Store sketch info for reference index generation (Phase 3)
-  if (sketchInfo.referenceInfo) {
-    featureToSketchInfo.set(featureId, sketchInfo.referenceInfo);
-  }
-
-  // Handle cut operation
-  if (op === "cut") {
-    for (const [existingId, entry] of bodyMap) {
-      const boolResult = currentSession.subtract(entry.bodyId, revolvedBodyId);
-      if (boolResult.success) {
-        bodyMap.set(existingId, { ...entry, bodyId: boolResult.value });
-      }
-    }
-    currentSession.deleteBody(revolvedBodyId);
-    return { bodyId: null, bodyEntryId: null };
-  }
-
-  // Handle add (same merge logic as extrude)
-  const finalBodyName = resultBodyName || `Body${bodyMap.size + 1}`;
-  const finalBodyColor = resultBodyColor || getNextBodyColor();
-
-  if (mergeScope === "new" || bodyMap.size === 0) {
-    return {
-      bodyId: revolvedBodyId,
-      bodyEntryId: featureId,
-      bodyName: finalBodyName,
-      bodyColor: finalBodyColor,
-    };
-  }
-
-  if (mergeScope === "specific" && targetBodies.length > 0) {
-    let currentBodyId = revolvedBodyId;
-    let mergedIntoId: string | null = null;
-    let mergedEntry: BodyEntry | null = null;
-
-    for (const targetId of targetBodies) {
-      const targetEntry = bodyMap.get(targetId);
-      if (targetEntry) {
-        const unionResult = currentSession.union(targetEntry.bodyId, currentBodyId);
-        if (unionResult.success) {
-          if (currentBodyId !== unionResult.value) {
-            currentSession.deleteBody(currentBodyId);
-          }
-          if (targetEntry.bodyId !== unionResult.value) {
-            currentSession.deleteBody(targetEntry.bodyId);
-          }
-          currentBodyId = unionResult.value;
-          if (!mergedIntoId) {
-            mergedIntoId = targetId;
-            mergedEntry = targetEntry;
-          }
-        }
-      }
-    }
-
-    if (mergedIntoId && mergedEntry) {
-      bodyMap.set(mergedIntoId, { ...mergedEntry, bodyId: currentBodyId });
-      return {
-        bodyId: null,
-        bodyEntryId: mergedIntoId,
-        bodyName: mergedEntry.name,
-        bodyColor: mergedEntry.color,
-      };
-    }
-
-    return {
-      bodyId: currentBodyId,
-      bodyEntryId: featureId,
-      bodyName: finalBodyName,
-      bodyColor: finalBodyColor,
-    };
-  }
-
-  // auto merge
-  let currentBodyId = revolvedBodyId;
-  let mergedIntoId: string | null = null;
-  let mergedEntry: BodyEntry | null = null;
-
-  for (const [existingId, entry] of bodyMap) {
-    const unionResult = currentSession.union(entry.bodyId, currentBodyId);
-    if (unionResult.success) {
-      if (currentBodyId !== unionResult.value) {
-        currentSession.deleteBody(currentBodyId);
-      }
-      if (entry.bodyId !== unionResult.value) {
-        currentSession.deleteBody(entry.bodyId);
-      }
-      currentBodyId = unionResult.value;
-      if (!mergedIntoId) {
-        mergedIntoId = existingId;
-        mergedEntry = entry;
-      }
-    }
-  }
-
-  if (mergedIntoId && mergedEntry) {
-    bodyMap.set(mergedIntoId, { ...mergedEntry, bodyId: currentBodyId });
-    return {
-      bodyId: null,
-      bodyEntryId: mergedIntoId,
-      bodyName: mergedEntry.name,
-      bodyColor: mergedEntry.color,
-    };
-  }
-
-  return {
-    bodyId: currentBodyId,
-    bodyEntryId: featureId,
-    bodyName: finalBodyName,
-    bodyColor: finalBodyColor,
-  };
-}
-
-function interpretBoolean(
-  currentSession: SolidSession,
-  featureMap: Y.Map<unknown>
-): FeatureInterpretResult {
-  const operation = (featureMap.get("operation") as string) || "union";
-  const targetId = featureMap.get("target") as string;
-  const toolId = featureMap.get("tool") as string;
-
-  if (!targetId || !toolId) {
-    throw new Error("Boolean requires target and tool body references");
-  }
-
-  const targetEntry = bodyMap.get(targetId);
-  const toolEntry = bodyMap.get(toolId);
-
-  if (!targetEntry) {
-    throw new Error(`Target body not found: ${targetId}`);
-  }
-  if (!toolEntry) {
-    throw new Error(`Tool body not found: ${toolId}`);
-  }
-
-  let result: OperationResult<BodyId>;
-  switch (operation) {
-    case "union":
-      result = currentSession.union(targetEntry.bodyId, toolEntry.bodyId);
-      break;
-    case "subtract":
-      result = currentSession.subtract(targetEntry.bodyId, toolEntry.bodyId);
-      break;
-    case "intersect":
-      result = currentSession.intersect(targetEntry.bodyId, toolEntry.bodyId);
-      break;
-    default:
-      throw new Error(`Unknown boolean operation: ${operation}`);
-  }
-
-  if (!result.success) {
-    throw new Error(result.error?.message || "Boolean operation failed");
-  }
-
-  // Delete old bodies and update map
-  currentSession.deleteBody(targetEntry.bodyId);
-  currentSession.deleteBody(toolEntry.bodyId);
-  bodyMap.delete(toolId);
-  bodyMap.set(targetId, { ...targetEntry, bodyId: result.value });
-
-  return {
-    bodyId: null,
-    bodyEntryId: targetId,
-    bodyName: targetEntry.name,
-    bodyColor: targetEntry.color,
-  };
-}
-
-// ============================================================================
-// Rebuild Logic
+// Rebuild
 // ============================================================================
 
 async function performRebuild(): Promise<void> {
   if (!doc) return;
 
-  const root = getRoot(doc);
-  const featuresById = getFeaturesById(root);
-  const featureOrder = getFeatureOrder(root);
-  const state = getState(root);
-  const rebuildGate = state.get("rebuildGate") as string | null;
-
   self.postMessage({ type: "rebuild-start" } as WorkerToMainMessage);
 
   try {
-    // Initialize session (async)
-    const currentSession = await initializeSession();
-
-    // Clear previous state
-    currentSession.dispose();
-    session = new SolidSession();
-    await session.init();
+    const currentEngine = await initializeEngine();
+    const result = await currentEngine.rebuildFromYDoc(doc);
 
-    bodyMap.clear();
-    sketchCache.clear();
-    featureToSketchInfo.clear();
-    resetBodyColorIndex();
-
-    // Build datum plane cache
-    buildDatumPlaneCache(featuresById);
-
-    const bodies: BodyInfo[] = [];
-    const errors: BuildError[] = [];
-    const featureStatus: Record<string, FeatureStatus> = {};
-
-    let reachedGate = false;
-
-    // Iterate in featureOrder (array of UUIDs)
-    for (const id of featureOrder.toArray()) {
-      const featureMap = featuresById.get(id);
-      if (!featureMap) continue;
-
-      const type = featureMap.get("type") as string;
-      const suppressed = featureMap.get("suppressed") === true;
-
-      // Check if we've passed the rebuild gate
-      if (reachedGate) {
-        featureStatus[id] = "gated";
-        continue;
-      }
-
-      if (suppressed) {
-        featureStatus[id] = "suppressed";
-        continue;
-      }
-
-      try {
-        let result: FeatureInterpretResult | null = null;
-
-        switch (type) {
-          case "origin":
-          case "plane":
-            featureStatus[id] = "computed";
-            break;
-
-          case "sketch":
-            interpretSketch(session!, featureMap, featuresById);
-            featureStatus[id] = "computed";
-            break;
-
-          case "extrude":
-            result = interpretExtrude(session!, featureMap, id, featuresById);
-            featureStatus[id] = "computed";
-
-            // Check for bodyId !== null (not just truthy) because bodyId can be 0
-            if (result.bodyId !== null && result.bodyEntryId !== null) {
-              const entry: BodyEntry = {
-                bodyId: result.bodyId,
-                name: result.bodyName || `Body${bodyMap.size + 1}`,
-                color: result.bodyColor || getNextBodyColor(),
-                sourceFeatureId: id,
-              };
-              bodyMap.set(result.bodyEntryId, entry);
-            }
-            break;
-
-          case "revolve":
-            result = interpretRevolve(session!, featureMap, id, featuresById);
-            featureStatus[id] = "computed";
-
-            // Check for bodyId !== null (not just truthy) because bodyId can be 0
-            if (result.bodyId !== null && result.bodyEntryId !== null) {
-              const entry: BodyEntry = {
-                bodyId: result.bodyId,
-                name: result.bodyName || `Body${bodyMap.size + 1}`,
-                color: result.bodyColor || getNextBodyColor(),
-                sourceFeatureId: id,
-              };
-              bodyMap.set(result.bodyEntryId, entry);
-            }
-            break;
-
-          case "boolean":
-            result = interpretBoolean(session!, featureMap);
-            featureStatus[id] = "computed";
-            break;
-
-          default:
-            featureStatus[id] = "computed";
-            break;
-        }
-      } catch (err) {
-        errors.push({
-          featureId: id,
-          code: "BUILD_ERROR",
-          message: err instanceof Error ? err.message : String(err),
-        });
-        featureStatus[id] = "error";
-      }
-
-      if (rebuildGate && id === rebuildGate) {
-        reachedGate = true;
-      }
-    }
-
-    // Build bodies list from bodyMap
-    for (const [entryId, entry] of bodyMap) {
-      bodies.push({
-        id: String(entry.bodyId),
-        featureId: entryId,
-        faceCount: 0, // Face count not available in new API without topology access
-        name: entry.name,
-        color: entry.color,
-      });
-    }
-
-    // Build ReferenceIndex for all bodies (Phase 3)
-    const referenceIndex: ReferenceIndex = {};
-    for (const [featureId, entry] of bodyMap) {
-      try {
-        const mesh = session!.tessellate(entry.bodyId);
-        const positions = new Float32Array(mesh.positions);
-        const normals = new Float32Array(mesh.normals);
-        const indices = new Uint32Array(mesh.indices);
-        const faceMap = mesh.faceMap ? new Uint32Array(mesh.faceMap) : undefined;
-        const edges = mesh.edges ? new Float32Array(mesh.edges) : undefined;
-        const edgeMap = mesh.edgeMap ? new Uint32Array(mesh.edgeMap) : undefined;
-
-        // Get the feature type for this body
-        const featureMap = featuresById.get(entry.sourceFeatureId);
-        const featureType = (featureMap?.get("type") as string) || "unknown";
-
-        // Get sketch info if available
-        const sketchInfo = featureToSketchInfo.get(entry.sourceFeatureId);
-
-        const bodyRefIndex = buildBodyReferenceIndex(
-          featureId,
-          entry.sourceFeatureId,
-          featureType,
-          positions,
-          normals,
-          indices,
-          faceMap,
-          edges,
-          edgeMap,
-          sketchInfo
-        );
-
-        referenceIndex[featureId] = bodyRefIndex;
-      } catch (err) {
-        console.error(`[Worker] Failed to build reference index for body ${featureId}:`, err);
-      }
+    // Solved sketch positions go back before the bodies built from them
+    for (const [sketchId, solveResult] of result.sketchSolveResults) {
+      self.postMessage({
+        type: "sketch-solved",
+        ...solveResult,
+        sketchId,
+      } as WorkerToMainMessage);
     }
 
     self.postMessage({
       type: "rebuild-complete",
-      bodies,
-      featureStatus,
-      errors,
-      referenceIndex,
+      bodies: result.bodies,
+      featureStatus: result.featureStatus,
+      errors: result.errors,
+      flatPatterns: result.flatPatterns.map(({ featureId, baseFlangeId }) => ({
+        featureId,
+        baseFlangeId,
+      })),
+      referenceIndex: result.referenceIndex,
     } as WorkerToMainMessage);
 
     // Send meshes for all bodies
-    for (const [featureId, entry] of bodyMap) {
-      sendMesh(session!, featureId, entry.bodyId, entry.color);
+    const colors = new Map(result.bodies.map((body) => [body.featureId, body.color]));
+    for (const [bodyKey, mesh] of result.meshes) {
+      postMesh(bodyKey, mesh, colors.get(bodyKey));
     }
   } catch (err) {
     console.error("[Worker] Rebuild failed:", err);
@@ -1468,256 +220,23 @@ async function performRebuild(): Promise<void> {
   }
 }
 
-function sendMesh(
-  currentSession: SolidSession,
-  featureId: string,
-  bodyId: BodyId,
-  color?: string
-): void {
-  try {
-    console.log(`[Worker] sendMesh for ${featureId}`);
-
-    const mesh = currentSession.tessellate(bodyId);
-
-    const positions = new Float32Array(mesh.positions);
-    const normals = new Float32Array(mesh.normals);
-    const indices = new Uint32Array(mesh.indices);
-    const faceMap = mesh.faceMap ? new Uint32Array(mesh.faceMap) : undefined;
-    const edges = mesh.edges ? new Float32Array(mesh.edges) : undefined;
-    const edgeMap = mesh.edgeMap ? new Uint32Array(mesh.edgeMap) : undefined;
-
-    console.log(
-      `[Worker] Mesh stats: ${positions.length / 3} vertices, ${indices.length / 3} triangles, ${faceMap?.length ?? 0} faces, ${edges ? edges.length / 6 : 0} edge segments, ${edgeMap?.length ?? 0} unique edges`
-    );
-
-    const transferableMesh: TransferableMesh = {
-      positions,
-      normals,
-      indices,
-      faceMap,
-      edges,
-      edgeMap,
-    };
-
-    const transferBuffers: ArrayBuffer[] = [positions.buffer, normals.buffer, indices.buffer];
-    if (faceMap) {
-      transferBuffers.push(faceMap.buffer);
-    }
-    if (edges) {
-      transferBuffers.push(edges.buffer);
-    }
-    if (edgeMap) {
-      transferBuffers.push(edgeMap.buffer);
-    }
-
-    self.postMessage(
-      {
-        type: "mesh",
-        bodyId: featureId,
-        mesh: transferableMesh,
-        color,
-      } as WorkerToMainMessage,
-      { transfer: transferBuffers }
-    );
-  } catch (err) {
-    console.error("Failed to tessellate body:", err);
-  }
-}
-
-// ============================================================================
-// Preview Functions
-// ============================================================================
-
-async function performPreviewExtrude(
-  sketchId: string,
-  distance: number,
-  direction: string,
-  _op: string
-): Promise<BodyId | null> {
-  const previewSession = new SolidSession();
-  await previewSession.init();
-
-  const sketchInfo = sketchCache.get(sketchId);
-  if (!sketchInfo) {
-    throw new Error(`Sketch not found: ${sketchId}`);
-  }
-
-  const sketch = previewSession.createSketch(sketchInfo.plane);
-  const pointIdMap = new Map<string, any>();
-
-  for (const [, point] of Object.entries(sketchInfo.data.pointsById)) {
-    const p = point as any;
-    const kernelPid = sketch.addPoint(p.x, p.y, { fixed: p.fixed });
-    pointIdMap.set(p.id, kernelPid);
-  }
-
-  for (const [, entity] of Object.entries(sketchInfo.data.entitiesById)) {
-    const e = entity as any;
-    if (e.type === "line" && e.start && e.end) {
-      const startId = pointIdMap.get(e.start);
-      const endId = pointIdMap.get(e.end);
-      if (startId !== undefined && endId !== undefined) {
-        sketch.addLine(startId, endId);
-      }
-    }
-    if (e.type === "arc" && e.start && e.end && e.center) {
-      const startId = pointIdMap.get(e.start);
-      const endId = pointIdMap.get(e.end);
-      const centerId = pointIdMap.get(e.center);
-      if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-        sketch.addArc(startId, endId, centerId, e.ccw ?? true);
-      }
-    }
-  }
-
-  const profile = sketch.toProfile();
-  if (!profile) {
-    throw new Error("Sketch does not contain a closed profile");
-  }
-
-  const dirMultiplier = direction === "reverse" ? -1 : 1;
-  const finalDistance = distance * dirMultiplier;
-
-  const result = previewSession.extrude(profile, {
-    operation: "new",
-    distance: finalDistance,
-  });
-
-  if (!result.success) {
-    throw new Error(result.error?.message || "Extrude failed");
-  }
-
-  // Tessellate and send mesh
-  const mesh = previewSession.tessellate(result.value);
-  const positions = new Float32Array(mesh.positions);
-  const normals = new Float32Array(mesh.normals);
-  const indices = new Uint32Array(mesh.indices);
-
-  const transferableMesh: TransferableMesh = {
-    positions,
-    normals,
-    indices,
-  };
-
-  self.postMessage(
-    {
-      type: "mesh",
-      bodyId: `__preview_extrude_${_op}`,
-      mesh: transferableMesh,
-    } as WorkerToMainMessage,
-    { transfer: [positions.buffer, normals.buffer, indices.buffer] }
-  );
-
-  previewSession.dispose();
-  return result.value;
-}
-
-async function performPreviewRevolve(
-  sketchId: string,
-  axisId: string,
-  angleDeg: number,
-  _op: string
-): Promise<BodyId | null> {
-  const previewSession = new SolidSession();
-  await previewSession.init();
-
-  const sketchInfo = sketchCache.get(sketchId);
-  if (!sketchInfo) {
-    throw new Error(`Sketch not found: ${sketchId}`);
-  }
-
-  const axisEntity = sketchInfo.data.entitiesById[axisId];
-  if (!axisEntity || axisEntity.type !== "line" || !axisEntity.start || !axisEntity.end) {
-    throw new Error("Invalid axis selection");
-  }
-
-  const axisStart2d = sketchInfo.data.pointsById[axisEntity.start];
-  const axisEnd2d = sketchInfo.data.pointsById[axisEntity.end];
-  if (!axisStart2d || !axisEnd2d) {
-    throw new Error("Axis references missing sketch points");
-  }
-
-  const sketch = previewSession.createSketch(sketchInfo.plane);
-  const pointIdMap = new Map<string, any>();
-  const entityIdMap = new Map<string, any>();
-
-  for (const [, point] of Object.entries(sketchInfo.data.pointsById)) {
-    const p = point as any;
-    const kernelPid = sketch.addPoint(p.x, p.y, { fixed: p.fixed });
-    pointIdMap.set(p.id, kernelPid);
-  }
-
-  for (const [, entity] of Object.entries(sketchInfo.data.entitiesById)) {
-    const e = entity as any;
-    if (e.type === "line" && e.start && e.end) {
-      const startId = pointIdMap.get(e.start);
-      const endId = pointIdMap.get(e.end);
-      if (startId !== undefined && endId !== undefined) {
-        const isAxis = e.id === axisId;
-        const kernelEid = sketch.addLine(startId, endId, { construction: isAxis });
-        entityIdMap.set(e.id, kernelEid);
-      }
-    }
-    if (e.type === "arc" && e.start && e.end && e.center) {
-      const startId = pointIdMap.get(e.start);
-      const endId = pointIdMap.get(e.end);
-      const centerId = pointIdMap.get(e.center);
-      if (startId !== undefined && endId !== undefined && centerId !== undefined) {
-        const kernelEid = sketch.addArc(startId, endId, centerId, e.ccw ?? true);
-        entityIdMap.set(e.id, kernelEid);
-      }
-    }
-  }
-
-  const profileEntityIds: any[] = [];
-  for (const [eid, _] of Object.entries(sketchInfo.data.entitiesById)) {
-    if (eid === axisId) continue;
-    const kernelEid = entityIdMap.get(eid);
-    if (kernelEid !== undefined) profileEntityIds.push(kernelEid);
-  }
-
-  const profile = sketch.getCoreSketch().toProfile(profileEntityIds);
-  if (!profile) {
-    throw new Error("Sketch does not contain a closed profile");
-  }
-
-  const axisStartWorld = planeToWorld(sketchInfo.plane, axisStart2d.x, axisStart2d.y);
-  const axisEndWorld = planeToWorld(sketchInfo.plane, axisEnd2d.x, axisEnd2d.y);
-  const axisDir = sub3(axisEndWorld, axisStartWorld);
-
-  const result = previewSession.revolve(profile, {
-    operation: "new",
-    axis: { origin: axisStartWorld, direction: axisDir },
-    angleDegrees: angleDeg,
-  });
-
-  if (!result.success) {
-    throw new Error(result.error?.message || "Revolve failed");
-  }
-
-  // Tessellate and send mesh
-  const mesh = previewSession.tessellate(result.value);
-  const positions = new Float32Array(mesh.positions);
-  const normals = new Float32Array(mesh.normals);
-  const indices = new Uint32Array(mesh.indices);
-
-  const transferableMesh: TransferableMesh = {
-    positions,
-    normals,
-    indices,
-  };
-
-  self.postMessage(
-    {
-      type: "mesh",
-      bodyId: `__preview_revolve_${_op}`,
-      mesh: transferableMesh,
-    } as WorkerToMainMessage,
-    { transfer: [positions.buffer, normals.buffer, indices.buffer] }
-  );
-
-  previewSession.dispose();
-  return result.value;
+/**
+ * Post a mesh to the main thread, transferring its buffers
+ */
+function postMesh(bodyId: string, mesh: TransferableMesh, color?: string): void {
+  const transfer = [
+    mesh.positions,
+    mesh.normals,
+    mesh.indices,
+    mesh.faceMap,
+    mesh.edges,
+    mesh.edgeMap,
+    mesh.faceHashes,
+    mesh.edgeHashes,
+    mesh.edgeFaces,
+  ].flatMap((array) => (array ? [array.buffer as ArrayBuffer] : []));
+
+  self.postMessage({ type: "mesh", bodyId, mesh, color } as WorkerToMainMessage, { transfer });
 }
 
 // ============================================================================
@@ -1744,24 +263,8 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
 
     case "preview-extrude": {
       try {
-        if (!doc) throw new Error("Worker not ready");
-        const { sketchId, distance, direction, op } = event.data;
-
-        // Ensure we have sketch data
-        const root = getRoot(doc);
-        const featuresById = getFeaturesById(root);
-        const sketchMap = featuresById.get(sketchId);
-        if (!sketchMap) throw new Error(`Sketch not found: ${sketchId}`);
-
-        // Build sketch info for preview if not cached
-        if (!sketchCache.has(sketchId)) {
-          const previewSession = new SolidSession();
-          await previewSession.init();
-          interpretSketch(previewSession, sketchMap, featuresById);
-          previewSession.dispose();
-        }
-
-        await performPreviewExtrude(sketchId, distance, direction, op);
+        const mesh = requireEngine().previewExtrude(event.data);
+        postMesh(`__preview_extrude_${event.data.op}`, mesh);
       } catch (err) {
         self.postMessage({
           type: "preview-error",
@@ -1773,23 +276,23 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
 
     case "preview-revolve": {
       try {
-        if (!doc) throw new Error("Worker not ready");
-        const { sketchId, axis, angle, op } = event.data;
+        const mesh = requireEngine().previewRevolve(event.data);
+        postMesh(`__preview_revolve_${event.data.op}`, mesh);
+      } catch (err) {
+        self.postMessage({
+          type: "preview-error",
+          message: err instanceof Error ? err.message : String(err),
+        } as WorkerToMainMessage);
+      }
+      break;
+    }
 
-        const root = getRoot(doc);
-        const featuresById = getFeaturesById(root);
-        const sketchMap = featuresById.get(sketchId);
-        if (!sketchMap) throw new Error(`Sketch not found: ${sketchId}`);
-
-        // Build sketch info for preview if not cached
-        if (!sketchCache.has(sketchId)) {
-          const previewSession = new SolidSession();
-          await previewSession.init();
-          interpretSketch(previewSession, sketchMap, featuresById);
-          previewSession.dispose();
+    case "preview-transform": {
+      try {
+        const meshes = requireEngine().previewTransform(event.data);
+        for (const [bodyKey, mesh] of meshes) {
+          postMesh(`__preview_transform_${bodyKey}`, mesh);
         }
-
-        await performPreviewRevolve(sketchId, axis, angle, op);
       } catch (err) {
         self.postMessage({
           type: "preview-error",
@@ -1802,29 +305,13 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
     case "export-stl": {
       try {
         const { binary = true, name = "model" } = event.data;
+        const result = requireEngine().exportSTL({ binary, name });
 
-        if (!session) {
-          throw new Error("No session available");
-        }
-
-        // Collect meshes from all bodies
-        const meshes: Mesh[] = [];
-        for (const [, entry] of bodyMap) {
-          const mesh = session.tessellate(entry.bodyId);
-          meshes.push(mesh);
-        }
-
-        if (meshes.length === 0) {
-          throw new Error("No bodies to export");
-        }
-
-        const result = exportMeshesToStl(meshes, { binary, name });
-
-        if (binary && result instanceof ArrayBuffer) {
+        if (result instanceof ArrayBuffer) {
           self.postMessage({ type: "stl-exported", buffer: result } as WorkerToMainMessage, [
             result,
           ]);
-        } else if (typeof result === "string") {
+        } else {
           self.postMessage({ type: "stl-exported", content: result } as WorkerToMainMessage);
         }
       } catch (err) {
@@ -1856,19 +343,8 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
 
     case "export-step": {
       try {
-        if (!session) {
-          throw new Error("No session available");
-        }
-
-        // Get all body IDs
-        const bodyIds = Array.from(bodyMap.values()).map((entry) => entry.bodyId);
-
-        if (bodyIds.length === 0) {
-          throw new Error("No bodies to export");
-        }
-
-        // Export first body for now (TODO: support compound/assembly)
-        const stepData = session.exportSTEP(bodyIds[0]);
+        const { name = "model", schema } = event.data;
+        const stepData = requireEngine().exportSTEP({ name, schema });
 
         // Convert Uint8Array to ArrayBuffer for transfer
         const buffer = stepData.buffer.slice(
@@ -1885,5 +361,54 @@ self.onmessage = async (event: MessageEvent<MainToWorkerMessage>) => {
       }
       break;
     }
+
+    case "export-iges": {
+      try {
+        const igesData = requireEngine().exportIGES();
+
+        const buffer = igesData.buffer.slice(
+          igesData.byteOffset,
+          igesData.byteOffset + igesData.byteLength
+        );
+
+        self.postMessage({ type: "iges-exported", buffer } as WorkerToMainMessage, [buffer]);
+      } catch (err) {
+        self.postMessage({
+          type: "error",
+          message: err instanceof Error ? err.message : String(err),
+        } as WorkerToMainMessage);
+      }
+      break;
+    }
+
+    case "export-3mf": {
+      try {
+        const { name = "model" } = event.data;
+        const buffer = requireEngine().export3MF({ name });
+
+        self.postMessage({ type: "3mf-exported", buffer } as WorkerToMainMessage, [buffer]);
+      } catch (err) {
+        self.postMessage({
+          type: "error",
+          message: err instanceof Error ? err.message : String(err),
+        } as WorkerToMainMessage);
+      }
+      break;
+    }
+
+    case "export-flat-pattern": {
+      try {
+        const { featureId, format } = event.data;
+        const content = requireEngine().exportFlatPattern({ featureId, format });
+
+        self.postMessage({ type: "flat-pattern-exported", content } as WorkerToMainMessage);
+      } catch (err) {
+        self.postMessage({
+          type: "error",
+          message: err instanceof Error ? err.message : String(err),
+        } as WorkerToMainMessage);
+      }
+      break;
+    }
   }
 };
@@ -2,6 +2,9 @@
  * Types for kernel worker communication
  */
 
+import type { BodyTransform, StepSchema } from "@solidtype/core";
+import type { BodyMaterial } from "../document/schema";
+
 // ============================================================================
 // Message Types: Main Thread → Worker
 // ============================================================================
@@ -25,8 +28,16 @@ export interface PreviewExtrudeMessage {
   type: "preview-extrude";
   sketchId: string;
   distance: number;
-  direction: "normal" | "reverse";
+  direction: "normal" | "reverse" | "symmetric";
   op: "add" | "cut";
+  /** Distance from the sketch plane to the start of the extrude */
+  startOffset?: number;
+  /** Draft angle in degrees; positive tapers inward */
+  draftAngle?: number;
+  /** Blind distance of a second side, extruded opposite the direction */
+  distance2?: number;
+  /** Draft angle of the second side in degrees */
+  draftAngle2?: number;
 }
 
 export interface PreviewRevolveMessage {
@@ -35,6 +46,22 @@ export interface PreviewRevolveMessage {
   axis: string;
   angle: number;
   op: "add" | "cut";
+  /** Split the angle evenly either side of the sketch plane */
+  symmetric?: boolean;
+  /** Angle revolved the other way from the sketch plane */
+  angle2?: number;
+  /** Wall thickness, for thin revolves of an open profile */
+  thickness?: number;
+  /** Side of the profile the thin wall grows on */
+  thinSide?: "normal" | "reverse" | "symmetric";
+}
+
+export interface PreviewTransformMessage {
+  type: "preview-transform";
+  /** Bodies to show moved (body feature IDs) */
+  bodies: string[];
+  /** Motion from where the bodies were last built, applied in order */
+  transforms: BodyTransform[];
 }
 
 export interface ClearPreviewMessage {
@@ -53,19 +80,44 @@ export interface ExportJsonMessage {
 
 export interface ExportStepMessage {
   type: "export-step";
+  /** Name of the top-level assembly */
+  name?: string;
+  /** Application protocol (default AP214) */
+  schema?: StepSchema;
+}
+
+export interface ExportIgesMessage {
+  type: "export-iges";
+  name?: string;
+}
+
+export interface Export3mfMessage {
+  type: "export-3mf";
+  /** Model title */
   name?: string;
 }
 
+export interface ExportFlatPatternMessage {
+  type: "export-flat-pattern";
+  /** The unfold feature whose flat pattern to export */
+  featureId: string;
+  format: FlatPatternFormat;
+}
+
 export type MainToWorkerMessage =
   | InitSyncMessage
   | YjsInitMessage
   | YjsUpdateMessage
   | PreviewExtrudeMessage
   | PreviewRevolveMessage
+  | PreviewTransformMessage
   | ClearPreviewMessage
   | ExportStlMessage
   | ExportJsonMessage
-  | ExportStepMessage;
+  | ExportStepMessage
+  | ExportIgesMessage
+  | Export3mfMessage
+  | ExportFlatPatternMessage;
 
 // ============================================================================
 // Message Types: Worker → Main Thread
@@ -84,6 +136,8 @@ export interface RebuildCompleteMessage {
   bodies: BodyInfo[];
   featureStatus: Record<string, FeatureStatus>;
   errors: BuildError[];
+  /** Flat patterns of unfolded sheet metal parts, ready to export */
+  flatPatterns: FlatPatternInfo[];
   /**
    * Map from bodyKey to arrays of encoded PersistentRef strings
    * @see docs/CAD-PIPELINE-REWORK.md Phase 3
@@ -94,6 +148,8 @@ export interface RebuildCompleteMessage {
       faces: string[];
       /** Encoded PersistentRef strings, indexed by edgeIndex */
       edges: string[];
+      /** Encoded PersistentRef strings for edge end points, indexed by vertex index */
+      vertices?: string[];
     };
   };
 }
@@ -163,6 +219,24 @@ export interface StepExportedMessage {
   buffer: ArrayBuffer;
 }
 
+export interface IgesExportedMessage {
+  type: "iges-exported";
+  /** IGES file data */
+  buffer: ArrayBuffer;
+}
+
+export interface ThreeMfExportedMessage {
+  type: "3mf-exported";
+  /** 3MF package data */
+  buffer: ArrayBuffer;
+}
+
+export interface FlatPatternExportedMessage {
+  type: "flat-pattern-exported";
+  /** DXF or SVG drawing */
+  content: string;
+}
+
 export type WorkerToMainMessage =
   | ReadyMessage
   | RebuildStartMessage
@@ -173,7 +247,10 @@ export type WorkerToMainMessage =
   | ErrorMessage
   | StlExportedMessage
   | JsonExportedMessage
-  | StepExportedMessage;
+  | StepExportedMessage
+  | IgesExportedMessage
+  | ThreeMfExportedMessage
+  | FlatPatternExportedMessage;
 
 // ============================================================================
 // Shared Types
@@ -192,6 +269,16 @@ export interface BuildError {
   message: string;
 }
 
+/** Drawing format for a sheet metal flat pattern */
+export type FlatPatternFormat = "dxf" | "svg";
+
+export interface FlatPatternInfo {
+  /** The unfold feature */
+  featureId: string;
+  /** Base flange of the part, which is also its body key */
+  baseFlangeId: string;
+}
+
 export interface BodyInfo {
   id: string;
   featureId: string;
@@ -200,6 +287,10 @@ export interface BodyInfo {
   name?: string;
   /** Display color for the body (hex string like "#6699cc") */
   color?: string;
+  /** False when hidden from the bodies panel */
+  visible?: boolean;
+  /** Display material preset */
+  material?: BodyMaterial;
 }
 
 export interface TransferableMesh {
@@ -222,6 +313,11 @@ export interface TransferableMesh {
    * One hash per edge, indexed by edgeIndex.
    */
   edgeHashes?: Uint32Array;
+  /**
+   * Face indices on either side of each edge (2 per edge, -1 if missing).
+   * Used to name edges by their adjacent faces.
+   */
+  edgeFaces?: Int32Array;
 }
 
 /** Request to resolve a persistent reference */
@@ -61,6 +61,17 @@ export function isModelingTool(toolName: string): boolean {
       "createLinearPattern",
       "createCircularPattern",
       "createMirror",
+      "createTransform",
+      "createSplit",
+      "createOffsetFace",
+      "createThicken",
+      "createBaseFlange",
+      "createEdgeFlange",
+      "createUnfold",
+      "createDeleteFace",
+      "createReplaceFace",
+      "createCombine",
+      "createDeleteBody",
     ].includes(toolName)
   ) {
     return true;
@@ -89,6 +100,7 @@ export function isModelingTool(toolName: string): boolean {
       "createCylinder",
       "createSphere",
       "createCone",
+      "createTorus",
       "createHole",
       "createPocket",
       "createBoss",
@@ -157,6 +169,28 @@ export function executeModelingTool(
       return modelingImpl.createCircularPatternImpl(args, ctx);
     case "createMirror":
       return modelingImpl.createMirrorImpl(args, ctx);
+    case "createTransform":
+      return modelingImpl.createTransformImpl(args, ctx);
+    case "createSplit":
+      return modelingImpl.createSplitImpl(args, ctx);
+    case "createOffsetFace":
+      return modelingImpl.createOffsetFaceImpl(args, ctx);
+    case "createThicken":
+      return modelingImpl.createThickenImpl(args, ctx);
+    case "createBaseFlange":
+      return modelingImpl.createBaseFlangeImpl(args, ctx);
+    case "createEdgeFlange":
+      return modelingImpl.createEdgeFlangeImpl(args, ctx);
+    case "createUnfold":
+      return modelingImpl.createUnfoldImpl(args, ctx);
+    case "createDeleteFace":
+      return modelingImpl.createDeleteFaceImpl(args, ctx);
+    case "createReplaceFace":
+      return modelingImpl.createReplaceFaceImpl(args, ctx);
+    case "createCombine":
+      return modelingImpl.createCombineImpl(args, ctx);
+    case "createDeleteBody":
+      return modelingImpl.createDeleteBodyImpl(args, ctx);
 
     // ============ Modify Tools ============
     case "modifyFeature":
@@ -185,6 +219,8 @@ export function executeModelingTool(
       return modelingImpl.createSphereImpl(args, ctx);
     case "createCone":
       return modelingImpl.createConeImpl(args, ctx);
+    case "createTorus":
+      return modelingImpl.createTorusImpl(args, ctx);
     case "createHole":
       return modelingImpl.createHoleImpl(args, ctx);
     case "createPocket":
@@ -103,6 +103,17 @@ const TOOL_EXECUTION_REGISTRY: Record<string, ToolExecutionMode> = {
   createLinearPattern: "local",
   createCircularPattern: "local",
   createMirror: "local",
+  createTransform: "local",
+  createSplit: "local",
+  createOffsetFace: "local",
+  createThicken: "local",
+  createBaseFlange: "local",
+  createEdgeFlange: "local",
+  createUnfold: "local",
+  createDeleteFace: "local",
+  createReplaceFace: "local",
+  createCombine: "local",
+  createDeleteBody: "local",
 
   // ============ 3D Modeling Modify Tools (Phase 26) ============
   modifyFeature: "local",
@@ -119,6 +130,7 @@ const TOOL_EXECUTION_REGISTRY: Record<string, ToolExecutionMode> = {
   createCylinder: "local",
   createSphere: "local",
   createCone: "local",
+  createTorus: "local",
   createHole: "local",
   createPocket: "local",
   createBoss: "local",
@@ -20,7 +20,43 @@ export const createExtrudeDef = toolDefinition({
     direction: z
       .enum(["normal", "reverse", "symmetric"])
       .default("normal")
-      .describe("Extrusion direction relative to sketch plane"),
+      .describe(
+        "Extrusion direction relative to sketch plane; symmetric splits the distance across both sides"
+      ),
+    extent: z
+      .enum(["blind", "toFace", "toVertex", "upToBody", "throughAll"])
+      .default("blind")
+      .describe("How far to extrude; distance is only used for blind extents"),
+    extentRef: z
+      .string()
+      .nullish()
+      .describe("PersistentRef of the target face (toFace) or vertex (toVertex)"),
+    extentBody: z.string().nullish().describe("Feature ID of the target body (upToBody)"),
+    extentOffset: z
+      .number()
+      .nullish()
+      .describe("Distance to stop short of the target (negative runs past it)"),
+    startOffset: z
+      .number()
+      .nullish()
+      .describe("Distance from the sketch plane to the start of the extrude"),
+    draftAngle: z
+      .number()
+      .gt(-90)
+      .lt(90)
+      .nullish()
+      .describe("Taper of the side walls in degrees; positive tapers inward"),
+    distance2: z
+      .number()
+      .positive()
+      .nullish()
+      .describe("Also extrude this far opposite the direction (two-sided extrude)"),
+    draftAngle2: z
+      .number()
+      .gt(-90)
+      .lt(90)
+      .nullish()
+      .describe("Draft angle of the second side in degrees"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -38,6 +74,25 @@ export const createRevolveDef = toolDefinition({
     axisLineId: z.string().describe("ID of the line entity in the sketch to use as axis"),
     angle: z.number().min(0).max(360).describe("Revolve angle in degrees"),
     op: z.enum(["add", "cut"]).describe("Boolean operation"),
+    symmetric: z
+      .boolean()
+      .nullish()
+      .describe("Split the angle evenly either side of the sketch plane"),
+    angle2: z
+      .number()
+      .positive()
+      .max(360)
+      .nullish()
+      .describe("Also revolve this many degrees the other way (two-direction revolve)"),
+    thickness: z
+      .number()
+      .positive()
+      .nullish()
+      .describe("Revolve the open profile as a thin wall of this thickness"),
+    thinSide: z
+      .enum(["normal", "reverse", "symmetric"])
+      .nullish()
+      .describe("Side of the open profile the thin wall grows on"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -51,7 +106,16 @@ export const createLoftDef = toolDefinition({
   name: "createLoft",
   description: "Create a lofted solid between two or more sketch profiles",
   inputSchema: z.object({
-    sketchIds: z.array(z.string()).min(2).describe("IDs of sketches to loft between"),
+    sketchIds: z.array(z.string()).min(2).describe("IDs of sketches to loft between, in order"),
+    ruled: z.boolean().nullish().describe("Straight faces between profiles (default: smooth)"),
+    startTangency: z
+      .enum(["none", "normal"])
+      .nullish()
+      .describe("Leave the first profile along its plane normal"),
+    endTangency: z
+      .enum(["none", "normal"])
+      .nullish()
+      .describe("Arrive at the last profile along its plane normal"),
     op: z.enum(["add", "cut"]).describe("Boolean operation"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
@@ -68,7 +132,10 @@ export const createSweepDef = toolDefinition({
   inputSchema: z.object({
     profileSketchId: z.string().describe("ID of the profile sketch"),
     pathSketchId: z.string().describe("ID of the sketch containing the path"),
-    pathEntityId: z.string().describe("ID of the path entity (line, arc, or spline)"),
+    pathEntityId: z
+      .string()
+      .nullish()
+      .describe("ID of a single path entity (line or arc); omit to use the whole path sketch"),
     op: z.enum(["add", "cut"]).describe("Boolean operation"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
@@ -102,6 +169,17 @@ export const createChamferDef = toolDefinition({
   inputSchema: z.object({
     edgeRefs: z.array(z.string()).min(1).describe("Persistent references to edges"),
     distance: z.number().positive().describe("Chamfer distance"),
+    distance2: z
+      .number()
+      .positive()
+      .nullish()
+      .describe("Second distance for an asymmetric (distance-distance) chamfer"),
+    angle: z
+      .number()
+      .gt(0)
+      .lt(90)
+      .nullish()
+      .describe("Angle in degrees for a distance-angle chamfer"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -120,6 +198,12 @@ export const createDraftDef = toolDefinition({
     pullDirectionX: z.number().describe("Pull direction vector X component"),
     pullDirectionY: z.number().describe("Pull direction vector Y component"),
     pullDirectionZ: z.number().describe("Pull direction vector Z component"),
+    neutralPlane: z
+      .string()
+      .nullish()
+      .describe(
+        "Plane where the faces keep their size: a plane feature ID or a planar face reference (stref:v1:...). Defaults to the plane through the origin normal to the pull direction"
+      ),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -141,6 +225,10 @@ export const createLinearPatternDef = toolDefinition({
     directionZ: z.number().describe("Pattern direction vector Z component"),
     count: z.number().int().min(2).describe("Number of instances"),
     spacing: z.number().positive().describe("Distance between instances"),
+    skip: z
+      .array(z.number().int().positive())
+      .nullish()
+      .describe("Instance numbers to leave out (instance 0 is the original)"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -163,6 +251,10 @@ export const createCircularPatternDef = toolDefinition({
     axisPointZ: z.number().describe("Point on axis Z coordinate"),
     count: z.number().int().min(2).describe("Number of instances"),
     totalAngle: z.number().default(360).describe("Total angle of pattern in degrees"),
+    skip: z
+      .array(z.number().int().positive())
+      .nullish()
+      .describe("Instance numbers to leave out (instance 0 is the original)"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -177,7 +269,235 @@ export const createMirrorDef = toolDefinition({
   description: "Mirror features across a plane",
   inputSchema: z.object({
     featureIds: z.array(z.string()).min(1).describe("Feature IDs to mirror"),
-    planeRef: z.string().describe("Reference to mirror plane (datum or face)"),
+    planeRef: z
+      .string()
+      .describe("Mirror plane: a plane feature ID or a planar face reference (stref:v1:...)"),
+    merge: z
+      .boolean()
+      .nullish()
+      .describe("Fuse the mirrored copy with the original (default true)"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createTransformDef = toolDefinition({
+  name: "createTransform",
+  description:
+    "Move, rotate or copy bodies. An optional mate moves a vertex or planar face of a body onto another; the rotation (about the pivot) and translation are applied after it",
+  inputSchema: z.object({
+    bodyIds: z.array(z.string()).min(1).describe("Body IDs to move"),
+    mateFrom: z
+      .string()
+      .nullish()
+      .describe("Vertex or planar face reference (stref:v1:...) on a moved body"),
+    mateTo: z
+      .string()
+      .nullish()
+      .describe("Vertex or planar face reference (stref:v1:...) to mate onto"),
+    mateFlip: z
+      .boolean()
+      .nullish()
+      .describe("Face mates: point the faces the same way instead of face to face"),
+    rotateX: z.number().default(0).describe("Rotation about X in degrees (applied first)"),
+    rotateY: z.number().default(0).describe("Rotation about Y in degrees"),
+    rotateZ: z.number().default(0).describe("Rotation about Z in degrees (applied last)"),
+    pivotX: z.number().default(0).describe("Rotation pivot X coordinate"),
+    pivotY: z.number().default(0).describe("Rotation pivot Y coordinate"),
+    pivotZ: z.number().default(0).describe("Rotation pivot Z coordinate"),
+    translateX: z.number().default(0).describe("Translation along X"),
+    translateY: z.number().default(0).describe("Translation along Y"),
+    translateZ: z.number().default(0).describe("Translation along Z"),
+    copy: z.boolean().nullish().describe("Keep the original bodies and move copies of them"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createSplitDef = toolDefinition({
+  name: "createSplit",
+  description:
+    "Split a body into separate bodies with a plane, a planar face or the lines and arcs of a sketch (swept through the body along the sketch normal)",
+  inputSchema: z.object({
+    toolRef: z
+      .string()
+      .describe(
+        "What to cut with: a plane feature ID, a sketch ID or a planar face reference (stref:v1:...)"
+      ),
+    keep: z
+      .enum(["both", "front", "back"])
+      .default("both")
+      .describe(
+        "Pieces to keep: front is the side the plane normal points to, left of an open sketch chain or inside a closed one"
+      ),
+    targetBody: z.string().nullish().describe("Body to split (default: the only body)"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createOffsetFaceDef = toolDefinition({
+  name: "createOffsetFace",
+  description:
+    "Move faces of a body along their normals, adding material (positive distance) or cutting it away (negative distance). Works on imported bodies too",
+  inputSchema: z.object({
+    faceRefs: z.array(z.string()).min(1).describe("Persistent references to faces"),
+    distance: z.number().describe("Distance to move each face along its outward normal"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createThickenDef = toolDefinition({
+  name: "createThicken",
+  description: "Grow faces of one body into a new solid body of the given thickness",
+  inputSchema: z.object({
+    faceRefs: z.array(z.string()).min(1).describe("Persistent references to faces on one body"),
+    thickness: z
+      .number()
+      .describe("Thickness along each face's outward normal; negative grows into the body"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createBaseFlangeDef = toolDefinition({
+  name: "createBaseFlange",
+  description:
+    "Start a sheet metal part from a closed sketch profile, with the sheet thickness and the bend settings its flanges use",
+  inputSchema: z.object({
+    sketchId: z.string().describe("ID of the sketch holding the closed profile"),
+    thickness: z.number().positive().describe("Sheet thickness"),
+    bendRadius: z.number().positive().describe("Default inside bend radius"),
+    kFactor: z
+      .number()
+      .min(0)
+      .max(1)
+      .nullish()
+      .describe("Neutral axis position as a fraction of the thickness (default 0.44)"),
+    reverse: z.boolean().nullish().describe("Thicken against the sketch normal"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createEdgeFlangeDef = toolDefinition({
+  name: "createEdgeFlange",
+  description:
+    "Bend a flange wall from a straight outline edge on the top or bottom face of a sheet metal part",
+  inputSchema: z.object({
+    edgeRef: z.string().describe("Persistent reference to the outline edge"),
+    angle: z.number().nullish().describe("Bend angle in degrees from flat (default 90)"),
+    length: z.number().positive().describe("Length of the wall beyond the bend"),
+    bendRadius: z
+      .number()
+      .positive()
+      .nullish()
+      .describe("Inside bend radius (default: the base flange's)"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createUnfoldDef = toolDefinition({
+  name: "createUnfold",
+  description:
+    "Flatten a sheet metal part into its flat pattern, whose outline and bend lines can be exported as DXF or SVG",
+  inputSchema: z.object({
+    baseFlangeId: z.string().describe("ID of the part's base flange feature"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createDeleteFaceDef = toolDefinition({
+  name: "createDeleteFace",
+  description:
+    "Remove faces from a body and heal the gap by extending the faces around them, e.g. to take a fillet, hole or boss off an imported body",
+  inputSchema: z.object({
+    faceRefs: z.array(z.string()).min(1).describe("Persistent references to faces to remove"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createReplaceFaceDef = toolDefinition({
+  name: "createReplaceFace",
+  description:
+    "Replace planar faces of a body with a plane, extending or trimming the walls around them to meet it. Works on imported bodies too",
+  inputSchema: z.object({
+    faceRefs: z.array(z.string()).min(1).describe("Persistent references to planar faces"),
+    planeRef: z
+      .string()
+      .describe("Replacement plane: a plane feature ID or a planar face reference (stref:v1:...)"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createCombineDef = toolDefinition({
+  name: "createCombine",
+  description:
+    "Combine bodies: union several tool bodies into a target body, or subtract them from it. Body keys are the featureId values in the body list",
+  inputSchema: z.object({
+    operation: z.enum(["union", "subtract", "intersect"]).describe("Boolean operation"),
+    targetBody: z.string().describe("Key of the body that receives the result"),
+    toolBodies: z.array(z.string()).min(1).describe("Keys of the tool bodies, applied in order"),
+    keepTools: z.boolean().nullish().describe("Keep the tool bodies instead of consuming them"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createDeleteBodyDef = toolDefinition({
+  name: "createDeleteBody",
+  description: "Remove whole bodies from the part",
+  inputSchema: z.object({
+    bodies: z.array(z.string()).min(1).describe("Keys of the bodies to remove"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -200,4 +520,15 @@ export const modelingFeatureToolDefs = {
   createLinearPattern: createLinearPatternDef,
   createCircularPattern: createCircularPatternDef,
   createMirror: createMirrorDef,
+  createTransform: createTransformDef,
+  createSplit: createSplitDef,
+  createOffsetFace: createOffsetFaceDef,
+  createThicken: createThickenDef,
+  createBaseFlange: createBaseFlangeDef,
+  createEdgeFlange: createEdgeFlangeDef,
+  createUnfold: createUnfoldDef,
+  createDeleteFace: createDeleteFaceDef,
+  createReplaceFace: createReplaceFaceDef,
+  createCombine: createCombineDef,
+  createDeleteBody: createDeleteBodyDef,
 };
@@ -48,33 +48,54 @@ export const createCylinderDef = toolDefinition({
 
 export const createSphereDef = toolDefinition({
   name: "createSphere",
-  description: "Create a sphere primitive (creates a semicircle sketch and revolves it)",
+  description: "Create a parametric sphere feature centred on a point",
   inputSchema: z.object({
     radius: z.number().positive().describe("Sphere radius"),
     centerX: z.number().default(0).describe("Center point X coordinate"),
     centerY: z.number().default(0).describe("Center point Y coordinate"),
     centerZ: z.number().default(0).describe("Center point Z coordinate"),
+    op: z.enum(["add", "cut"]).default("add").describe("Add material or cut it from the bodies"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
-    sketchId: z.string(),
-    revolveId: z.string(),
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
   }),
 });
 
 export const createConeDef = toolDefinition({
   name: "createCone",
-  description: "Create a cone primitive",
+  description: "Create a parametric cone feature standing on a plane, centred on the origin",
   inputSchema: z.object({
-    baseRadius: z.number().positive().describe("Base radius"),
+    baseRadius: z.number().min(0).describe("Base radius, on the plane"),
     topRadius: z.number().min(0).describe("Top radius (0 for a point)"),
-    height: z.number().positive().describe("Cone height"),
-    plane: z.enum(["xy", "xz", "yz"]).default("xy").describe("Plane for the base sketch"),
+    height: z.number().positive().describe("Cone height along the plane normal"),
+    plane: z.enum(["xy", "xz", "yz"]).default("xy").describe("Plane the cone stands on"),
+    op: z.enum(["add", "cut"]).default("add").describe("Add material or cut it from the bodies"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
-    sketchId: z.string(),
-    revolveId: z.string(),
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
+  }),
+});
+
+export const createTorusDef = toolDefinition({
+  name: "createTorus",
+  description: "Create a parametric torus (ring) feature centred on the origin of a plane",
+  inputSchema: z.object({
+    majorRadius: z.number().positive().describe("Radius of the ring's centre line"),
+    minorRadius: z.number().positive().describe("Radius of the ring's cross-section"),
+    plane: z.enum(["xy", "xz", "yz"]).default("xy").describe("Plane the ring lies in"),
+    op: z.enum(["add", "cut"]).default("add").describe("Add material or cut it from the bodies"),
+    name: z.string().nullish().describe("Optional feature name"),
+  }),
+  outputSchema: z.object({
+    featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
   }),
 });
 
@@ -82,25 +103,40 @@ export const createConeDef = toolDefinition({
 
 export const createHoleDef = toolDefinition({
   name: "createHole",
-  description: "Create a hole on a face (creates a sketch with circle and cuts)",
+  description:
+    "Create simple, counterbored or countersunk holes at sketch points. Either give an existing sketch and its point IDs, or a face to sketch on with hole positions. Thread size/pitch/class are stored on the hole as a callout (the hole is cut at the given drill diameter).",
   inputSchema: z.object({
-    faceRef: z.string().describe("Persistent reference to the face"),
-    diameter: z.number().positive().describe("Hole diameter"),
-    depthValue: z.number().nullish().describe("Hole depth in units (omit for through-all)"),
-    throughAll: z.boolean().default(false).describe("If true, hole goes through entire body"),
-    positionU: z
-      .number()
+    sketchId: z.string().nullish().describe("Existing sketch holding the hole centre points"),
+    pointIds: z.array(z.string()).nullish().describe("Sketch point IDs at the hole centres"),
+    faceRef: z
+      .string()
       .nullish()
-      .describe("Position along face U parameter (0-1), omit for center"),
-    positionV: z
-      .number()
+      .describe("Face to sketch the hole centres on, when no sketchId is given"),
+    positions: z
+      .array(z.object({ x: z.number(), y: z.number() }))
       .nullish()
-      .describe("Position along face V parameter (0-1), omit for center"),
+      .describe("Hole centres in the new sketch's coordinates (default: the sketch origin)"),
+    holeType: z
+      .enum(["simple", "counterbore", "countersink"])
+      .default("simple")
+      .describe("Hole type"),
+    diameter: z.number().positive().describe("Hole (drill) diameter"),
+    depthValue: z.number().nullish().describe("Hole depth in units (omit for through-all)"),
+    throughAll: z.boolean().default(false).describe("If true, hole goes through entire body"),
+    counterboreDiameter: z.number().nullish().describe("Counterbore diameter"),
+    counterboreDepth: z.number().nullish().describe("Counterbore depth"),
+    countersinkDiameter: z.number().nullish().describe("Countersink diameter at the face"),
+    countersinkAngle: z.number().nullish().describe("Included countersink angle (default 90°)"),
+    threadSize: z.string().nullish().describe('Thread designation, e.g. "M6" or "1/4-20 UNC"'),
+    threadPitch: z.number().nullish().describe("Thread pitch"),
+    threadClass: z.string().nullish().describe('Thread tolerance class, e.g. "6H"'),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
     sketchId: z.string(),
     featureId: z.string(),
+    status: z.enum(["ok", "error"]),
+    error: z.string().nullish(),
   }),
 });
 
@@ -161,7 +197,18 @@ export const createShellDef = toolDefinition({
   description: "Hollow out a solid body with uniform wall thickness",
   inputSchema: z.object({
     thickness: z.number().positive().describe("Wall thickness"),
-    openFaces: z.array(z.string()).nullish().describe("Face references to leave open (remove)"),
+    direction: z
+      .enum(["inside", "outside"])
+      .nullish()
+      .describe("Grow the wall into the body (default) or around it"),
+    targetBody: z
+      .string()
+      .nullish()
+      .describe("Body to hollow, omit to use the body owning the open faces"),
+    openFaces: z
+      .array(z.string())
+      .nullish()
+      .describe("Face PersistentRefs (stref:v1:...) to leave open (remove)"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -173,15 +220,27 @@ export const createShellDef = toolDefinition({
 
 export const createRibDef = toolDefinition({
   name: "createRib",
-  description: "Create a rib (thin wall feature) from a sketch line",
+  description:
+    "Create a rib or web from an open chain of sketch lines/arcs. The chain is extended to the faces of the body and the rib fills the space between them.",
   inputSchema: z.object({
     sketchId: z.string().describe("Sketch containing the rib profile"),
-    lineId: z.string().describe("Line entity ID in the sketch"),
+    entityIds: z
+      .array(z.string())
+      .nullish()
+      .describe("Line/arc entity IDs forming an open chain (default: all lines and arcs)"),
     thickness: z.number().positive().describe("Rib thickness"),
-    direction: z
-      .enum(["left", "right", "symmetric"])
-      .default("symmetric")
-      .describe("Which side of the line to add material"),
+    thicknessSide: z
+      .enum(["oneSide", "bothSides", "midplane"])
+      .default("midplane")
+      .describe(
+        "Where the thickness lies across the sketch plane: one side, the full thickness on each side, or centred"
+      ),
+    flipThickness: z.boolean().nullish().describe("Put a one-sided rib against the sketch normal"),
+    materialSide: z
+      .enum(["auto", "left", "right"])
+      .default("auto")
+      .describe("Side of the chain to fill, looking along it (auto: the side the body closes off)"),
+    targetBody: z.string().nullish().describe("Body to add the rib to (default: the only body)"),
     name: z.string().nullish().describe("Optional feature name"),
   }),
   outputSchema: z.object({
@@ -220,6 +279,7 @@ export const modelingHelperToolDefs = {
   createCylinder: createCylinderDef,
   createSphere: createSphereDef,
   createCone: createConeDef,
+  createTorus: createTorusDef,
   createHole: createHoleDef,
   createPocket: createPocketDef,
   createBoss: createBossDef,
@@ -16,42 +16,9 @@ import * as Y from "yjs";
 
 // Import the unified commands module
 import * as commands from "../../../editor/commands";
-import type { SolidTypeDoc } from "../../../editor/document/createDocument";
-import { insertFeatureAtGate } from "../../../editor/document/featureHelpers";
-import { createFeatureMap, setMapProperties } from "../../../editor/document/yjs";
+import { addPointToSketch } from "../../../editor/document/featureHelpers";
 import { decodePersistentRef } from "../../../editor/naming";
 
-/**
- * Helper to create advanced feature types not yet in the commands module.
- * Uses the same pattern as featureHelpers.ts for consistency.
- *
- * TODO: Move these to the commands module as features are implemented.
- */
-function createAdvancedFeature(doc: SolidTypeDoc, props: Record<string, unknown>): string {
-  const featureId = uuid();
-
-  doc.ydoc.transact(() => {
-    const featureMap = createFeatureMap();
-    doc.featuresById.set(featureId, featureMap);
-
-    // Set the id first
-    featureMap.set("id", featureId);
-
-    // Set all other properties
-    setMapProperties(featureMap, props);
-
-    // Try to insert at rebuild gate position, fall back to push if document structure is incomplete
-    try {
-      insertFeatureAtGate(doc, featureId);
-    } catch {
-      // Fallback for minimal test documents or incomplete structures
-      doc.featureOrder.push([featureId]);
-    }
-  });
-
-  return featureId;
-}
-
 // ============ Query Tool Implementations ============
 
 export function getCurrentSelectionImpl(
@@ -356,12 +323,23 @@ export function createExtrudeImpl(
   ctx: ModelingToolContext
 ): unknown {
   const { doc } = ctx;
-  const { sketchId, distance, op, direction, name } = args as {
-    sketchId: string;
-    distance: number;
-    op: "add" | "cut";
-    direction?: string;
-    name?: string;
+  const { sketchId, distance, op, direction, extent, extentRef, extentBody, extentOffset, name } =
+    args as {
+      sketchId: string;
+      distance: number;
+      op: "add" | "cut";
+      direction?: commands.CreateExtrudeArgs["direction"];
+      extent?: commands.CreateExtrudeArgs["extent"];
+      extentRef?: string | null;
+      extentBody?: string | null;
+      extentOffset?: number | null;
+      name?: string;
+    };
+  const { startOffset, draftAngle, distance2, draftAngle2 } = args as {
+    startOffset?: number | null;
+    draftAngle?: number | null;
+    distance2?: number | null;
+    draftAngle2?: number | null;
   };
 
   // Use unified commands module
@@ -369,7 +347,16 @@ export function createExtrudeImpl(
     sketchId,
     distance,
     op: op ?? "add",
-    direction: (direction as "normal" | "reverse") ?? "normal",
+    direction: direction ?? "normal",
+    extent: extent ?? "blind",
+    extentRef: extentRef ?? undefined,
+    extentBody: extentBody ?? undefined,
+    extentOffset: extentOffset ?? undefined,
+    startOffset: startOffset ?? undefined,
+    draftAngle: draftAngle ?? undefined,
+    twoSided: distance2 != null,
+    distance2: distance2 ?? undefined,
+    draftAngle2: draftAngle2 ?? undefined,
     name: name || `Extrude ${op === "cut" ? "Cut" : ""}`,
   });
 
@@ -392,6 +379,12 @@ export function createRevolveImpl(
     op: "add" | "cut";
     name?: string;
   };
+  const { symmetric, angle2, thickness, thinSide } = args as {
+    symmetric?: boolean | null;
+    angle2?: number | null;
+    thickness?: number | null;
+    thinSide?: commands.CreateRevolveArgs["thinSide"] | null;
+  };
 
   // Use unified commands module
   const result = commands.createRevolve(doc, {
@@ -399,6 +392,12 @@ export function createRevolveImpl(
     axisId: axisLineId,
     angle: angle ?? 360,
     op: op ?? "add",
+    symmetric: symmetric ?? undefined,
+    twoSided: angle2 != null,
+    angle2: angle2 ?? undefined,
+    thin: thickness != null,
+    thickness: thickness ?? undefined,
+    thinSide: thinSide ?? undefined,
     name: name || `Revolve ${op === "cut" ? "Cut" : ""}`,
   });
 
@@ -411,33 +410,30 @@ export function createRevolveImpl(
 
 export function createLoftImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
   const { doc } = ctx;
-  const { sketchIds, op, name } = args as {
+  const { sketchIds, ruled, startTangency, endTangency, op, name } = args as {
     sketchIds: string[];
+    ruled?: boolean | null;
+    startTangency?: "none" | "normal" | null;
+    endTangency?: "none" | "normal" | null;
     op: "add" | "cut";
     name?: string;
   };
 
-  // Verify all sketches exist and hide them if visible
-  for (const sketchId of sketchIds) {
-    const sketchFeature = doc.featuresById.get(sketchId);
-    if (!sketchFeature || sketchFeature.get("type") !== "sketch") {
-      return { featureId: "", status: "error", error: `Sketch ${sketchId} not found` };
-    }
-    // Hide the referenced sketch if it's currently visible
-    if (sketchFeature.get("visible") === true) {
-      sketchFeature.set("visible", false);
-    }
-  }
-
-  // Create loft feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "loft",
+  // Use unified commands module
+  const result = commands.createLoft(doc, {
+    sketchIds,
+    ruled: ruled ?? undefined,
+    startTangency: startTangency ?? undefined,
+    endTangency: endTangency ?? undefined,
+    op: op ?? "add",
     name: name || "Loft",
-    sketches: sketchIds,
-    op,
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createSweepImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
@@ -445,32 +441,25 @@ export function createSweepImpl(args: Record<string, unknown>, ctx: ModelingTool
   const { profileSketchId, pathSketchId, pathEntityId, op, name } = args as {
     profileSketchId: string;
     pathSketchId: string;
-    pathEntityId: string;
+    pathEntityId?: string | null;
     op: "add" | "cut";
     name?: string;
   };
 
-  // Hide the referenced sketches if they're currently visible
-  const profileSketch = doc.featuresById.get(profileSketchId);
-  if (profileSketch && profileSketch.get("visible") === true) {
-    profileSketch.set("visible", false);
-  }
-  const pathSketch = doc.featuresById.get(pathSketchId);
-  if (pathSketch && pathSketch.get("visible") === true) {
-    pathSketch.set("visible", false);
-  }
-
-  // Create sweep feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "sweep",
+  // Use unified commands module
+  const result = commands.createSweep(doc, {
+    profileSketchId,
+    pathSketchId,
+    pathEntities: pathEntityId ? [pathEntityId] : undefined,
+    op: op ?? "add",
     name: name || "Sweep",
-    profileSketch: profileSketchId,
-    pathSketch: pathSketchId,
-    pathEntity: pathEntityId,
-    op,
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createFilletImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
@@ -481,15 +470,17 @@ export function createFilletImpl(args: Record<string, unknown>, ctx: ModelingToo
     name?: string;
   };
 
-  // Create fillet feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "fillet",
+  // Use unified commands module
+  const result = commands.createFillet(doc, {
+    edgeSets: [{ edges: edgeRefs, radius }],
     name: name || "Fillet",
-    edges: edgeRefs,
-    radius,
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createChamferImpl(
@@ -497,44 +488,68 @@ export function createChamferImpl(
   ctx: ModelingToolContext
 ): unknown {
   const { doc } = ctx;
-  const { edgeRefs, distance, name } = args as {
+  const { edgeRefs, distance, distance2, angle, name } = args as {
     edgeRefs: string[];
     distance: number;
+    distance2?: number | null;
+    angle?: number | null;
     name?: string;
   };
 
-  // Create chamfer feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "chamfer",
+  // Use unified commands module
+  const result = commands.createChamfer(doc, {
+    edgeSets: [
+      {
+        edges: edgeRefs,
+        distance,
+        distance2: distance2 ?? undefined,
+        angle: angle ?? undefined,
+      },
+    ],
     name: name || "Chamfer",
-    edges: edgeRefs,
-    distance,
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createDraftImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
   const { doc } = ctx;
-  const { faceRefs, angle, pullDirectionX, pullDirectionY, pullDirectionZ, name } = args as {
-    faceRefs: string[];
-    angle: number;
-    pullDirectionX: number;
-    pullDirectionY: number;
-    pullDirectionZ: number;
-    name?: string;
-  };
+  const { faceRefs, angle, pullDirectionX, pullDirectionY, pullDirectionZ, neutralPlane, name } =
+    args as {
+      faceRefs: string[];
+      angle: number;
+      pullDirectionX: number;
+      pullDirectionY: number;
+      pullDirectionZ: number;
+      neutralPlane?: string | null;
+      name?: string;
+    };
 
-  // Create draft feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "draft",
-    name: name || "Draft",
+  // A face PersistentRef, or the ID of a plane feature
+  const plane = !neutralPlane
+    ? undefined
+    : neutralPlane.startsWith("stref:")
+      ? { kind: "faceRef" as const, ref: neutralPlane }
+      : { kind: "planeFeatureId" as const, ref: neutralPlane };
+
+  // Use unified commands module
+  const result = commands.createDraft(doc, {
     faces: faceRefs,
     angle,
     pullDirection: [pullDirectionX, pullDirectionY, pullDirectionZ],
+    neutralPlane: plane,
+    name: name || "Draft",
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createLinearPatternImpl(
@@ -542,27 +557,32 @@ export function createLinearPatternImpl(
   ctx: ModelingToolContext
 ): unknown {
   const { doc } = ctx;
-  const { featureIds, directionX, directionY, directionZ, count, spacing, name } = args as {
+  const { featureIds, directionX, directionY, directionZ, count, spacing, skip, name } = args as {
     featureIds: string[];
     directionX: number;
     directionY: number;
     directionZ: number;
     count: number;
     spacing: number;
+    skip?: number[] | null;
     name?: string;
   };
 
-  // Create linear pattern feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "linearPattern",
-    name: name || "Linear Pattern",
+  // Use unified commands module
+  const result = commands.createLinearPattern(doc, {
     sourceFeatures: featureIds,
     direction: [directionX, directionY, directionZ],
     count,
     spacing,
+    skip: skip ?? undefined,
+    name: name || "Linear Pattern",
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createCircularPatternImpl(
@@ -580,6 +600,7 @@ export function createCircularPatternImpl(
     axisPointZ,
     count,
     totalAngle,
+    skip,
     name,
   } = args as {
     featureIds: string[];
@@ -590,41 +611,370 @@ export function createCircularPatternImpl(
     axisPointY: number;
     axisPointZ: number;
     count: number;
-    totalAngle: number;
+    totalAngle?: number;
+    skip?: number[] | null;
     name?: string;
   };
 
-  // Create circular pattern feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "circularPattern",
-    name: name || "Circular Pattern",
+  // Use unified commands module
+  const result = commands.createCircularPattern(doc, {
     sourceFeatures: featureIds,
-    axis: [axisX, axisY, axisZ],
-    axisPoint: [axisPointX, axisPointY, axisPointZ],
+    axis: {
+      origin: [axisPointX, axisPointY, axisPointZ],
+      direction: [axisX, axisY, axisZ],
+    },
     count,
-    totalAngle,
+    totalAngle: totalAngle ?? 360,
+    skip: skip ?? undefined,
+    name: name || "Circular Pattern",
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function createMirrorImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
   const { doc } = ctx;
-  const { featureIds, planeRef, name } = args as {
+  const { featureIds, planeRef, merge, name } = args as {
     featureIds: string[];
     planeRef: string;
+    merge?: boolean | null;
     name?: string;
   };
 
-  // Create mirror feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "mirror",
-    name: name || "Mirror",
+  // A face PersistentRef, or the ID of a plane feature
+  const plane = planeRef.startsWith("stref:")
+    ? { kind: "faceRef" as const, ref: planeRef }
+    : { kind: "planeFeatureId" as const, ref: planeRef };
+
+  // Use unified commands module
+  const result = commands.createMirror(doc, {
     sourceFeatures: featureIds,
-    plane: planeRef,
+    plane,
+    merge: merge ?? undefined,
+    name: name || "Mirror",
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createTransformImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const a = args as {
+    bodyIds: string[];
+    mateFrom?: string | null;
+    mateTo?: string | null;
+    mateFlip?: boolean | null;
+    rotateX?: number;
+    rotateY?: number;
+    rotateZ?: number;
+    pivotX?: number;
+    pivotY?: number;
+    pivotZ?: number;
+    translateX?: number;
+    translateY?: number;
+    translateZ?: number;
+    copy?: boolean | null;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createTransform(doc, {
+    bodies: a.bodyIds,
+    mateFrom: a.mateFrom ?? undefined,
+    mateTo: a.mateTo ?? undefined,
+    mateFlip: a.mateFlip ?? undefined,
+    rotate: [a.rotateX ?? 0, a.rotateY ?? 0, a.rotateZ ?? 0],
+    pivot: [a.pivotX ?? 0, a.pivotY ?? 0, a.pivotZ ?? 0],
+    translate: [a.translateX ?? 0, a.translateY ?? 0, a.translateZ ?? 0],
+    copy: a.copy ?? undefined,
+    name: a.name || "Transform",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createSplitImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const { toolRef, keep, targetBody, name } = args as {
+    toolRef: string;
+    keep?: "both" | "front" | "back";
+    targetBody?: string | null;
+    name?: string | null;
+  };
+
+  // A face PersistentRef, or the ID of a sketch or plane feature
+  const tool = toolRef.startsWith("stref:")
+    ? { kind: "faceRef" as const, ref: toolRef }
+    : doc.featuresById.get(toolRef)?.get("type") === "sketch"
+      ? { kind: "sketch" as const, ref: toolRef }
+      : { kind: "planeFeatureId" as const, ref: toolRef };
+
+  // Use unified commands module
+  const result = commands.createSplit(doc, {
+    tool,
+    keep,
+    targetBody: targetBody ?? undefined,
+    name: name || "Split",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createOffsetFaceImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { faceRefs, distance, name } = args as {
+    faceRefs: string[];
+    distance: number;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createOffsetFace(doc, {
+    faces: faceRefs,
+    distance,
+    name: name || "OffsetFace",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createThickenImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { faceRefs, thickness, name } = args as {
+    faceRefs: string[];
+    thickness: number;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createThicken(doc, {
+    faces: faceRefs,
+    thickness,
+    name: name || "Thicken",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createBaseFlangeImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { sketchId, thickness, bendRadius, kFactor, reverse, name } = args as {
+    sketchId: string;
+    thickness: number;
+    bendRadius: number;
+    kFactor?: number | null;
+    reverse?: boolean | null;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createBaseFlange(doc, {
+    sketchId,
+    thickness,
+    bendRadius,
+    kFactor: kFactor ?? undefined,
+    reverse: reverse ?? undefined,
+    name: name || "BaseFlange",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createEdgeFlangeImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { edgeRef, angle, length, bendRadius, name } = args as {
+    edgeRef: string;
+    angle?: number | null;
+    length: number;
+    bendRadius?: number | null;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createEdgeFlange(doc, {
+    edge: edgeRef,
+    angle: angle ?? undefined,
+    length,
+    bendRadius: bendRadius ?? undefined,
+    name: name || "EdgeFlange",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createUnfoldImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const { baseFlangeId, name } = args as {
+    baseFlangeId: string;
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createUnfold(doc, {
+    baseFlangeId,
+    name: name || "Unfold",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createDeleteFaceImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { faceRefs, name } = args as {
+    faceRefs: string[];
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.createDeleteFace(doc, {
+    faces: faceRefs,
+    name: name || "DeleteFace",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createReplaceFaceImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { faceRefs, planeRef, name } = args as {
+    faceRefs: string[];
+    planeRef: string;
+    name?: string | null;
+  };
+
+  // A face PersistentRef, or the ID of a plane feature
+  const plane = planeRef.startsWith("stref:")
+    ? { kind: "faceRef" as const, ref: planeRef }
+    : { kind: "planeFeatureId" as const, ref: planeRef };
+
+  // Use unified commands module
+  const result = commands.createReplaceFace(doc, {
+    faces: faceRefs,
+    plane,
+    name: name || "ReplaceFace",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createCombineImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { operation, targetBody, toolBodies, keepTools, name } = args as {
+    operation: "union" | "subtract" | "intersect";
+    targetBody: string;
+    toolBodies: string[];
+    keepTools?: boolean | null;
+    name?: string | null;
+  };
+
+  const [tool, ...tools] = toolBodies;
+
+  // Use unified commands module
+  const result = commands.createBoolean(doc, {
+    operation,
+    target: targetBody,
+    tool,
+    tools,
+    keepTools: keepTools ?? undefined,
+    name: name || "Combine",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createDeleteBodyImpl(
+  args: Record<string, unknown>,
+  ctx: ModelingToolContext
+): unknown {
+  const { doc } = ctx;
+  const { bodies, name } = args as {
+    bodies: string[];
+    name?: string | null;
+  };
+
+  // Use unified commands module
+  const result = commands.deleteBody(doc, {
+    bodies,
+    name: name || "DeleteBody",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 // ============ Modify Tool Implementations ============
@@ -1017,22 +1367,156 @@ export function createCylinderImpl(
   return { sketchId, extrudeId };
 }
 
-export function createSphereImpl(
-  _args: Record<string, unknown>,
-  _ctx: ModelingToolContext
-): unknown {
-  // TODO: Implement sphere (semicircle + revolve)
-  return { sketchId: "", revolveId: "" };
+export function createSphereImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const { radius, centerX, centerY, centerZ, op, name } = args as {
+    radius: number;
+    centerX?: number;
+    centerY?: number;
+    centerZ?: number;
+    op?: "add" | "cut";
+    name?: string | null;
+  };
+
+  // The XY plane's x/y are world x/y and its normal is world z
+  const result = commands.createPrimitive(doc, {
+    type: "sphere",
+    radius,
+    planeRef: "xy",
+    offsetX: centerX ?? 0,
+    offsetY: centerY ?? 0,
+    offsetZ: centerZ ?? 0,
+    op,
+    name: name || "Sphere",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
-export function createConeImpl(_args: Record<string, unknown>, _ctx: ModelingToolContext): unknown {
-  // TODO: Implement cone (triangle + revolve)
-  return { sketchId: "", revolveId: "" };
+export function createConeImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const { baseRadius, topRadius, height, plane, op, name } = args as {
+    baseRadius: number;
+    topRadius: number;
+    height: number;
+    plane?: string;
+    op?: "add" | "cut";
+    name?: string | null;
+  };
+
+  const result = commands.createPrimitive(doc, {
+    type: "cone",
+    radius: baseRadius,
+    topRadius,
+    height,
+    planeRef: plane || "xy",
+    op,
+    name: name || "Cone",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
-export function createHoleImpl(_args: Record<string, unknown>, _ctx: ModelingToolContext): unknown {
-  // TODO: Implement hole (sketch on face + cut extrude)
-  return { sketchId: "", featureId: "" };
+export function createTorusImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const { majorRadius, minorRadius, plane, op, name } = args as {
+    majorRadius: number;
+    minorRadius: number;
+    plane?: string;
+    op?: "add" | "cut";
+    name?: string | null;
+  };
+
+  const result = commands.createPrimitive(doc, {
+    type: "torus",
+    majorRadius,
+    minorRadius,
+    planeRef: plane || "xy",
+    op,
+    name: name || "Torus",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+  return { featureId: result.value.featureId, status: "ok" };
+}
+
+export function createHoleImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const input = args as {
+    sketchId?: string | null;
+    pointIds?: string[] | null;
+    faceRef?: string | null;
+    positions?: Array<{ x: number; y: number }> | null;
+    holeType?: "simple" | "counterbore" | "countersink";
+    diameter: number;
+    depthValue?: number | null;
+    throughAll?: boolean;
+    counterboreDiameter?: number | null;
+    counterboreDepth?: number | null;
+    countersinkDiameter?: number | null;
+    countersinkAngle?: number | null;
+    threadSize?: string | null;
+    threadPitch?: number | null;
+    threadClass?: string | null;
+    name?: string;
+  };
+
+  // Sketch the hole centres on the face unless an existing sketch is given
+  let sketchId = input.sketchId ?? "";
+  let points = input.pointIds ?? [];
+  if (!sketchId) {
+    if (!input.faceRef) {
+      return { sketchId: "", featureId: "", status: "error", error: "Give a sketchId or faceRef" };
+    }
+    const sketchResult = commands.createSketch(doc, {
+      planeRef: input.faceRef,
+      name: input.name ? `${input.name} Sketch` : "Hole Sketch",
+    });
+    if (!sketchResult.ok) {
+      return { sketchId: "", featureId: "", status: "error", error: sketchResult.error };
+    }
+    sketchId = sketchResult.value.featureId;
+    const sketch = doc.featuresById.get(sketchId)!;
+    const positions = input.positions?.length ? input.positions : [{ x: 0, y: 0 }];
+    points = positions.map(({ x, y }) => addPointToSketch(sketch, x, y));
+  }
+
+  const throughAll = input.throughAll || input.depthValue == null;
+  const result = commands.createHole(doc, {
+    sketchId,
+    points,
+    holeType: input.holeType ?? "simple",
+    diameter: input.diameter,
+    counterboreDiameter: input.counterboreDiameter ?? undefined,
+    counterboreDepth: input.counterboreDepth ?? undefined,
+    countersinkDiameter: input.countersinkDiameter ?? undefined,
+    countersinkAngle: input.countersinkAngle ?? undefined,
+    extent: throughAll ? "throughAll" : "blind",
+    depth: throughAll ? undefined : input.depthValue!,
+    thread:
+      input.threadSize && input.threadPitch
+        ? {
+            size: input.threadSize,
+            pitch: input.threadPitch,
+            ...(input.threadClass ? { class: input.threadClass } : {}),
+          }
+        : undefined,
+    name: input.name || "Hole",
+  });
+
+  if (!result.ok) {
+    return { sketchId, featureId: "", status: "error", error: result.error };
+  }
+
+  return { sketchId, featureId: result.value.featureId, status: "ok" };
 }
 
 export function createPocketImpl(
@@ -1050,26 +1534,59 @@ export function createBossImpl(_args: Record<string, unknown>, _ctx: ModelingToo
 
 export function createShellImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
   const { doc } = ctx;
-  const { thickness, openFaces, name } = args as {
+  const { thickness, direction, targetBody, openFaces, name } = args as {
     thickness: number;
-    openFaces?: string[];
+    direction?: "inside" | "outside" | null;
+    targetBody?: string | null;
+    openFaces?: string[] | null;
     name?: string;
   };
 
-  // Create shell feature using helper
-  const featureId = createAdvancedFeature(doc, {
-    type: "shell",
-    name: name || "Shell",
+  // Use unified commands module
+  const result = commands.createShell(doc, {
+    targetBody: targetBody ?? undefined,
     thickness,
-    openFaces: openFaces || [],
+    direction: direction ?? undefined,
+    openFaces: openFaces ?? [],
+    name: name || "Shell",
   });
 
-  return { featureId, status: "ok" };
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
-export function createRibImpl(_args: Record<string, unknown>, _ctx: ModelingToolContext): unknown {
-  // TODO: Implement rib
-  return { featureId: "", status: "error", error: "Not implemented" };
+export function createRibImpl(args: Record<string, unknown>, ctx: ModelingToolContext): unknown {
+  const { doc } = ctx;
+  const input = args as {
+    sketchId: string;
+    entityIds?: string[] | null;
+    thickness: number;
+    thicknessSide?: "oneSide" | "bothSides" | "midplane";
+    flipThickness?: boolean | null;
+    materialSide?: "auto" | "left" | "right";
+    targetBody?: string | null;
+    name?: string | null;
+  };
+
+  const result = commands.createRib(doc, {
+    sketchId: input.sketchId,
+    entities: input.entityIds ?? undefined,
+    thickness: input.thickness,
+    thicknessSide: input.thicknessSide,
+    flipThickness: input.flipThickness ?? undefined,
+    materialSide: input.materialSide,
+    targetBody: input.targetBody ?? undefined,
+    name: input.name || "Rib",
+  });
+
+  if (!result.ok) {
+    return { featureId: "", status: "error", error: result.error };
+  }
+
+  return { featureId: result.value.featureId, status: "ok" };
 }
 
 export function filletAllEdgesImpl(
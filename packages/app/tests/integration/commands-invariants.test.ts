@@ -9,12 +9,44 @@
 
 import { describe, test, expect, beforeEach } from "vitest";
 import * as Y from "yjs";
-import { createDocument, type SolidTypeDoc } from "../../src/editor/document/createDocument";
+import {
+  createDocument,
+  createUndoManager,
+  type SolidTypeDoc,
+} from "../../src/editor/document/createDocument";
 import {
   createSketch,
   createExtrude,
   createRevolve,
+  createSweep,
+  createLoft,
+  createShell,
+  createFillet,
+  createChamfer,
+  createLinearPattern,
+  createCircularPattern,
+  createMirror,
+  createDraft,
+  createHole,
+  createHelix,
+  createThread,
+  createRib,
+  createPrimitive,
+  createTransform,
+  createSplit,
+  createOffsetFace,
+  createThicken,
+  createDeleteFace,
+  createReplaceFace,
+  createBaseFlange,
+  createEdgeFlange,
+  createUnfold,
+  createAxis,
   createBoolean,
+  deleteBody,
+  setBodyAppearance,
+  createImport,
+  replaceImportFile,
   deleteFeature,
   renameFeature,
   suppressFeature,
@@ -22,6 +54,8 @@ import {
 } from "../../src/editor/commands";
 import { addPointToSketch, addLineToSketch } from "../../src/editor/document/featureHelpers";
 import { uuid } from "../../src/editor/document/yjs";
+import { encodePersistentRef } from "../../src/editor/naming";
+import { validateDocument } from "../../src/editor/document/validate";
 
 // ============================================================================
 // Test Helpers
@@ -337,6 +371,59 @@ describe("Invariant D: Command validation", () => {
     }
   });
 
+  test("createExtrude stores up-to-body extents and requires a target", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const base = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(base.ok).toBe(true);
+    if (!base.ok) return;
+
+    const missing = createExtrude(doc, { sketchId, extent: "upToBody" });
+    expect(missing.ok).toBe(false);
+    const noRef = createExtrude(doc, { sketchId, extent: "toFace" });
+    expect(noRef.ok).toBe(false);
+
+    const result = createExtrude(doc, {
+      sketchId,
+      extent: "upToBody",
+      extentBody: base.value.featureId,
+      extentOffset: 2,
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const feature = doc.featuresById.get(result.value.featureId)!;
+    expect(feature.get("extent")).toBe("upToBody");
+    expect(feature.get("extentBody")).toBe(base.value.featureId);
+    expect(feature.get("extentOffset")).toBe(2);
+    expect(feature.has("distance")).toBe(false);
+  });
+
+  test("createExtrude checks symmetric, two-sided and drafted options", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+
+    const symmetricTwoSided = createExtrude(doc, {
+      sketchId,
+      direction: "symmetric",
+      twoSided: true,
+    });
+    expect(symmetricTwoSided.ok).toBe(false);
+    const steepDraft = createExtrude(doc, { sketchId, draftAngle: 90 });
+    expect(steepDraft.ok).toBe(false);
+    const missingSecondRef = createExtrude(doc, { sketchId, twoSided: true, extent2: "toFace" });
+    expect(missingSecondRef.ok).toBe(false);
+
+    const symmetric = createExtrude(doc, { sketchId, direction: "symmetric", draftAngle: 3 });
+    expect(symmetric.ok).toBe(true);
+    if (!symmetric.ok) return;
+    const feature = doc.featuresById.get(symmetric.value.featureId)!;
+    expect(feature.get("direction")).toBe("symmetric");
+    expect(feature.get("draftAngle")).toBe(3);
+    expect(feature.has("twoSided")).toBe(false);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
   test("createRevolve fails without axis", () => {
     const doc = createDocument();
     const sketchResult = createSketch(doc, { planeRef: "xy" });
@@ -355,6 +442,982 @@ describe("Invariant D: Command validation", () => {
     }
   });
 
+  test("createSweep fails with a missing path sketch", () => {
+    const doc = createDocument();
+    const profileId = addTestSketchWithRectangle(doc, "xy");
+
+    const result = createSweep(doc, {
+      profileSketchId: profileId,
+      pathSketchId: "nonexistent-sketch-id",
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toContain("not found");
+    }
+  });
+
+  test("createSweep hides the profile and path sketches", () => {
+    const doc = createDocument();
+    const profileId = addTestSketchWithRectangle(doc, "xy");
+    const pathResult = createSketch(doc, { planeRef: "xz" });
+    expect(pathResult.ok).toBe(true);
+    if (!pathResult.ok) return;
+    const pathId = pathResult.value.featureId;
+    doc.featuresById.get(profileId)!.set("visible", true);
+    doc.featuresById.get(pathId)!.set("visible", true);
+
+    const result = createSweep(doc, { profileSketchId: profileId, pathSketchId: pathId });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const sweep = doc.featuresById.get(result.value.featureId)!;
+    expect(sweep.get("type")).toBe("sweep");
+    expect(sweep.get("op")).toBe("add");
+    expect(doc.featuresById.get(profileId)?.get("visible")).toBe(false);
+    expect(doc.featuresById.get(pathId)?.get("visible")).toBe(false);
+  });
+
+  test("createLoft requires two distinct profile sketches", () => {
+    const doc = createDocument();
+    const profileId = addTestSketchWithRectangle(doc, "xy");
+
+    const single = createLoft(doc, { sketchIds: [profileId] });
+    expect(single.ok).toBe(false);
+
+    const repeated = createLoft(doc, { sketchIds: [profileId, profileId] });
+    expect(repeated.ok).toBe(false);
+  });
+
+  test("createLoft stores profiles in order with tangency options", () => {
+    const doc = createDocument();
+    const bottomId = addTestSketchWithRectangle(doc, "xy");
+    const topId = addTestSketchWithRectangle(doc, "xy");
+
+    const result = createLoft(doc, {
+      sketchIds: [topId, bottomId],
+      startTangency: "normal",
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const loft = doc.featuresById.get(result.value.featureId)!;
+    expect(loft.get("type")).toBe("loft");
+    expect(loft.get("sketches")).toEqual([topId, bottomId]);
+    expect(loft.get("startTangency")).toBe("normal");
+    expect(loft.get("endTangency")).toBeUndefined();
+  });
+
+  test("createShell rejects non-positive thickness and non-face references", () => {
+    const doc = createDocument();
+
+    const thin = createShell(doc, { thickness: 0 });
+    expect(thin.ok).toBe(false);
+
+    const badRef = createShell(doc, { thickness: 1, openFaces: ["face:0"] });
+    expect(badRef.ok).toBe(false);
+  });
+
+  test("createShell stores open face references", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+
+    const topFace = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.topCap", data: { loopId: "loop:unknown" } },
+    });
+
+    const result = createShell(doc, {
+      targetBody: extrude.value.featureId,
+      thickness: 1,
+      direction: "outside",
+      openFaces: [topFace],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const shell = doc.featuresById.get(result.value.featureId)!;
+    expect(shell.get("type")).toBe("shell");
+    expect(shell.get("targetBody")).toBe(extrude.value.featureId);
+    expect(shell.get("direction")).toBe("outside");
+    expect(shell.get("openFaces")).toEqual([topFace]);
+  });
+
+  test("createFillet and createChamfer store per-set edge references", () => {
+    const doc = createDocument();
+    const edge = (segmentId: string) =>
+      encodePersistentRef({
+        v: 1,
+        expectedType: "edge",
+        originFeatureId: "extrude-1",
+        localSelector: { kind: "extrude.topEdge", data: { loopId: "loop:abc", segmentId } },
+      });
+
+    const fillet = createFillet(doc, {
+      edgeSets: [
+        { edges: [edge("a")], radius: 1 },
+        { edges: [edge("b"), edge("c")], radius: 2.5 },
+      ],
+    });
+    const chamfer = createChamfer(doc, {
+      edgeSets: [
+        { edges: [edge("a")], distance: 1, distance2: 2 },
+        { edges: [edge("b")], distance: 1, angle: 30 },
+      ],
+    });
+
+    expect(fillet.ok).toBe(true);
+    expect(chamfer.ok).toBe(true);
+    if (!fillet.ok || !chamfer.ok) return;
+    expect(doc.featuresById.get(fillet.value.featureId)!.get("edgeSets")).toEqual([
+      { edges: [edge("a")], radius: 1 },
+      { edges: [edge("b"), edge("c")], radius: 2.5 },
+    ]);
+    expect(doc.featuresById.get(chamfer.value.featureId)!.get("edgeSets")).toEqual([
+      { edges: [edge("a")], distance: 1, distance2: 2 },
+      { edges: [edge("b")], distance: 1, angle: 30 },
+    ]);
+  });
+
+  test("createFillet and createChamfer reject invalid edge sets", () => {
+    const doc = createDocument();
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: "extrude-1",
+      localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+    });
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: "extrude-1",
+      localSelector: { kind: "extrude.sideEdge", data: { loopId: "loop:abc", segmentIds: "a,b" } },
+    });
+
+    expect(createFillet(doc, { edgeSets: [] }).ok).toBe(false);
+    expect(createFillet(doc, { edgeSets: [{ edges: [face], radius: 1 }] }).ok).toBe(false);
+    expect(createFillet(doc, { edgeSets: [{ edges: [edge], radius: 0 }] }).ok).toBe(false);
+    expect(
+      createChamfer(doc, { edgeSets: [{ edges: [edge], distance: 1, distance2: 1, angle: 45 }] }).ok
+    ).toBe(false);
+    expect(createChamfer(doc, { edgeSets: [{ edges: [edge], distance: 1, angle: 90 }] }).ok).toBe(
+      false
+    );
+  });
+
+  test("createLinearPattern and createCircularPattern store pattern parameters", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+
+    const linear = createLinearPattern(doc, {
+      sourceFeatures: [extrude.value.featureId],
+      direction: [1, 0, 0],
+      count: 3,
+      spacing: 20,
+      direction2: [0, 1, 0],
+      count2: 2,
+      spacing2: 15,
+      skip: [4],
+    });
+    const circular = createCircularPattern(doc, {
+      sourceBodies: [extrude.value.featureId],
+      axis: { origin: [0, 0, 0], direction: [0, 0, 1] },
+      count: 4,
+    });
+
+    expect(linear.ok).toBe(true);
+    expect(circular.ok).toBe(true);
+    if (!linear.ok || !circular.ok) return;
+    const linearFeature = doc.featuresById.get(linear.value.featureId)!;
+    expect(linearFeature.get("type")).toBe("linearPattern");
+    expect(linearFeature.get("count2")).toBe(2);
+    expect(linearFeature.get("skip")).toEqual([4]);
+    const circularFeature = doc.featuresById.get(circular.value.featureId)!;
+    expect(circularFeature.get("sourceBodies")).toEqual([extrude.value.featureId]);
+    expect(circularFeature.get("axis")).toEqual({ origin: [0, 0, 0], direction: [0, 0, 1] });
+  });
+
+  test("createLinearPattern and createCircularPattern reject invalid patterns", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const sourceFeatures = [extrude.value.featureId];
+
+    // no sources, a sketch source, zero direction, both spacing and extent
+    expect(createLinearPattern(doc, { direction: [1, 0, 0], count: 3, spacing: 5 }).ok).toBe(false);
+    expect(
+      createLinearPattern(doc, {
+        sourceFeatures: [sketchId],
+        direction: [1, 0, 0],
+        count: 3,
+        spacing: 5,
+      }).ok
+    ).toBe(false);
+    expect(
+      createLinearPattern(doc, { sourceFeatures, direction: [0, 0, 0], count: 3, spacing: 5 }).ok
+    ).toBe(false);
+    expect(
+      createLinearPattern(doc, {
+        sourceFeatures,
+        direction: [1, 0, 0],
+        count: 3,
+        spacing: 5,
+        extent: 10,
+      }).ok
+    ).toBe(false);
+    // skipping the original or past the last instance
+    expect(
+      createCircularPattern(doc, {
+        sourceFeatures,
+        axis: { origin: [0, 0, 0], direction: [0, 0, 1] },
+        count: 4,
+        skip: [0],
+      }).ok
+    ).toBe(false);
+    expect(
+      createCircularPattern(doc, {
+        sourceFeatures,
+        axis: { origin: [0, 0, 0], direction: [0, 0, 1] },
+        count: 4,
+        skip: [4],
+      }).ok
+    ).toBe(false);
+    // axis that is not an axis feature
+    expect(createCircularPattern(doc, { sourceFeatures, axis: sketchId, count: 4 }).ok).toBe(false);
+  });
+
+  test("createMirror stores the plane and merge flag", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const yzPlaneId = doc.featureOrder.toArray()[3];
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+    });
+
+    const acrossPlane = createMirror(doc, {
+      sourceFeatures: [extrude.value.featureId],
+      plane: { kind: "planeFeatureId", ref: yzPlaneId },
+    });
+    const acrossFace = createMirror(doc, {
+      sourceBodies: [extrude.value.featureId],
+      plane: { kind: "faceRef", ref: face },
+      merge: false,
+    });
+
+    expect(acrossPlane.ok).toBe(true);
+    expect(acrossFace.ok).toBe(true);
+    if (!acrossPlane.ok || !acrossFace.ok) return;
+    const planeFeature = doc.featuresById.get(acrossPlane.value.featureId)!;
+    expect(planeFeature.get("type")).toBe("mirror");
+    expect(planeFeature.get("plane")).toEqual({ kind: "planeFeatureId", ref: yzPlaneId });
+    expect(planeFeature.has("merge")).toBe(false);
+    const faceFeature = doc.featuresById.get(acrossFace.value.featureId)!;
+    expect(faceFeature.get("plane")).toEqual({ kind: "faceRef", ref: face });
+    expect(faceFeature.get("merge")).toBe(false);
+  });
+
+  test("createMirror rejects invalid sources and planes", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const sourceFeatures = [extrude.value.featureId];
+    const yzPlaneId = doc.featureOrder.toArray()[3];
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.sideEdge", data: { loopId: "loop:abc", segmentIds: "a,b" } },
+    });
+
+    // no sources, a sketch source
+    expect(createMirror(doc, { plane: { kind: "planeFeatureId", ref: yzPlaneId } }).ok).toBe(false);
+    expect(
+      createMirror(doc, {
+        sourceFeatures: [sketchId],
+        plane: { kind: "planeFeatureId", ref: yzPlaneId },
+      }).ok
+    ).toBe(false);
+    // plane that is not a plane feature, an edge ref, an undecodable ref
+    expect(
+      createMirror(doc, { sourceFeatures, plane: { kind: "planeFeatureId", ref: sketchId } }).ok
+    ).toBe(false);
+    expect(createMirror(doc, { sourceFeatures, plane: { kind: "faceRef", ref: edge } }).ok).toBe(
+      false
+    );
+    expect(
+      createMirror(doc, { sourceFeatures, plane: { kind: "faceRef", ref: "not-a-ref" } }).ok
+    ).toBe(false);
+  });
+
+  test("createDraft stores the faces, pull direction and neutral plane", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const xyPlaneId = doc.featureOrder.toArray()[1];
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.side", data: { loopId: "loop:abc", segmentId: "a" } },
+    });
+
+    const result = createDraft(doc, {
+      faces: [face],
+      angle: 3,
+      pullDirection: [0, 0, 1],
+      neutralPlane: { kind: "planeFeatureId", ref: xyPlaneId },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const feature = doc.featuresById.get(result.value.featureId)!;
+    expect(feature.get("type")).toBe("draft");
+    expect(feature.get("faces")).toEqual([face]);
+    expect(feature.get("pullDirection")).toEqual([0, 0, 1]);
+    expect(feature.get("neutralPlane")).toEqual({ kind: "planeFeatureId", ref: xyPlaneId });
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createDraft rejects invalid faces, angles and pull directions", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.side", data: { loopId: "loop:abc", segmentId: "a" } },
+    });
+    const pullDirection: [number, number, number] = [0, 0, 1];
+
+    // no faces, a non-face ref
+    expect(createDraft(doc, { faces: [], angle: 3, pullDirection }).ok).toBe(false);
+    expect(createDraft(doc, { faces: ["not-a-ref"], angle: 3, pullDirection }).ok).toBe(false);
+    // flat and vertical angles, no pull direction
+    expect(createDraft(doc, { faces: [face], angle: 0, pullDirection }).ok).toBe(false);
+    expect(createDraft(doc, { faces: [face], angle: -90, pullDirection }).ok).toBe(false);
+    expect(createDraft(doc, { faces: [face], angle: 3, pullDirection: [0, 0, 0] }).ok).toBe(false);
+    // neutral plane that is not a plane feature
+    expect(
+      createDraft(doc, {
+        faces: [face],
+        angle: 3,
+        pullDirection,
+        neutralPlane: { kind: "planeFeatureId", ref: sketchId },
+      }).ok
+    ).toBe(false);
+  });
+
+  test("createHole stores the hole type, extent and thread callout", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const sketch = doc.featuresById.get(sketchId)!;
+    const pointId = addPointToSketch(sketch, 5, 5);
+
+    const result = createHole(doc, {
+      sketchId,
+      points: [pointId],
+      holeType: "counterbore",
+      diameter: 5,
+      counterboreDiameter: 9,
+      counterboreDepth: 4,
+      depth: 12,
+      thread: { size: "M6", pitch: 1, class: "6H" },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const feature = doc.featuresById.get(result.value.featureId)!;
+    expect(feature.get("type")).toBe("hole");
+    expect(feature.get("points")).toEqual([pointId]);
+    expect(feature.get("extent")).toBe("blind");
+    expect(feature.get("depth")).toBe(12);
+    expect(feature.get("counterboreDiameter")).toBe(9);
+    expect(feature.get("thread")).toEqual({ size: "M6", pitch: 1, class: "6H" });
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createHole rejects missing points and undersized counterbores", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const pointId = addPointToSketch(doc.featuresById.get(sketchId)!, 5, 5);
+
+    // no points, a point from nowhere
+    expect(createHole(doc, { sketchId, points: [], diameter: 5 }).ok).toBe(false);
+    expect(createHole(doc, { sketchId, points: [uuid()], diameter: 5 }).ok).toBe(false);
+    // counterbore no wider than the hole, countersink with no diameter
+    expect(
+      createHole(doc, {
+        sketchId,
+        points: [pointId],
+        holeType: "counterbore",
+        diameter: 5,
+        counterboreDiameter: 5,
+        counterboreDepth: 2,
+      }).ok
+    ).toBe(false);
+    expect(
+      createHole(doc, { sketchId, points: [pointId], holeType: "countersink", diameter: 5 }).ok
+    ).toBe(false);
+    // up to face without a face
+    expect(createHole(doc, { sketchId, points: [pointId], diameter: 5, extent: "toFace" }).ok).toBe(
+      false
+    );
+  });
+
+  test("createHelix and createThread store a helix and the thread that follows it", () => {
+    const doc = createDocument();
+    const axis = createAxis(doc, { definition: { kind: "datum", role: "z" } });
+    if (!axis.ok) throw new Error(axis.error);
+
+    const helix = createHelix(doc, {
+      axis: axis.value.featureId,
+      radius: 5,
+      pitch: 1.5,
+      turns: 4,
+      handedness: "left",
+    });
+    expect(helix.ok).toBe(true);
+    if (!helix.ok) return;
+    const helixFeature = doc.featuresById.get(helix.value.featureId)!;
+    expect(helixFeature.get("type")).toBe("helix");
+    expect(helixFeature.get("definition")).toBe("turns");
+    expect(helixFeature.get("turns")).toBe(4);
+    expect(helixFeature.get("handedness")).toBe("left");
+
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: "extrude-1",
+      localSelector: { kind: "extrude.side", data: { loopId: "loop:abc", segmentId: "seg:a" } },
+    });
+    const thread = createThread(doc, { helix: helix.value.featureId, face, depth: 0.9 });
+    expect(thread.ok).toBe(true);
+    if (!thread.ok) return;
+    const threadFeature = doc.featuresById.get(thread.value.featureId)!;
+    expect(threadFeature.get("type")).toBe("thread");
+    expect(threadFeature.get("helix")).toBe(helix.value.featureId);
+    expect(threadFeature.get("face")).toBe(face);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createHelix and createThread reject bad references and sizes", () => {
+    const doc = createDocument();
+    const axis = createAxis(doc, { definition: { kind: "datum", role: "z" } });
+    if (!axis.ok) throw new Error(axis.error);
+    const axisId = axis.value.featureId;
+
+    // not an axis, both turns and height, neither, non-positive pitch, flat taper
+    expect(createHelix(doc, { axis: uuid(), radius: 5, pitch: 1, turns: 2 }).ok).toBe(false);
+    expect(createHelix(doc, { axis: axisId, radius: 5, pitch: 1, turns: 2, height: 2 }).ok).toBe(
+      false
+    );
+    expect(createHelix(doc, { axis: axisId, radius: 5, pitch: 1 }).ok).toBe(false);
+    expect(createHelix(doc, { axis: axisId, radius: 5, pitch: 0, turns: 2 }).ok).toBe(false);
+    expect(
+      createHelix(doc, { axis: axisId, radius: 5, pitch: 1, turns: 2, taperAngle: 90 }).ok
+    ).toBe(false);
+
+    const helix = createHelix(doc, { axis: axisId, radius: 5, pitch: 1, height: 10 });
+    if (!helix.ok) throw new Error(helix.error);
+    // an axis for a helix, a face that is not a ref
+    expect(createThread(doc, { helix: axisId, face: `face:${uuid()}:0` }).ok).toBe(false);
+    expect(createThread(doc, { helix: helix.value.featureId, face: "not-a-ref" }).ok).toBe(false);
+  });
+
+  test("createRib stores a rib on open sketch lines", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const sketchMap = doc.featuresById.get(sketchId)!;
+    const lineId = addLineToSketch(
+      sketchMap,
+      addPointToSketch(sketchMap, 0, 5),
+      addPointToSketch(sketchMap, 5, 0)
+    );
+
+    const result = createRib(doc, {
+      sketchId,
+      entities: [lineId],
+      thickness: 1.5,
+      thicknessSide: "oneSide",
+      flipThickness: true,
+      materialSide: "left",
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const rib = doc.featuresById.get(result.value.featureId)!;
+    expect(rib.get("type")).toBe("rib");
+    expect(rib.get("entities")).toEqual([lineId]);
+    expect(rib.get("thicknessSide")).toBe("oneSide");
+    expect(rib.get("flipThickness")).toBe(true);
+    expect(rib.get("materialSide")).toBe("left");
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createRib rejects bad sketches, entities and thickness", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const xyPlaneId = doc.featureOrder.toArray()[1];
+
+    // not a sketch, an entity the sketch does not have, no thickness
+    expect(createRib(doc, { sketchId: xyPlaneId, thickness: 1 }).ok).toBe(false);
+    expect(createRib(doc, { sketchId, entities: [uuid()], thickness: 1 }).ok).toBe(false);
+    expect(createRib(doc, { sketchId, thickness: 0 }).ok).toBe(false);
+  });
+
+  test("createPrimitive stores a placed primitive", () => {
+    const doc = createDocument();
+
+    const result = createPrimitive(doc, {
+      type: "box",
+      width: 10,
+      depth: 20,
+      height: 5,
+      planeRef: "xz",
+      offsetX: 4,
+      rotation: 45,
+      op: "add",
+      mergeScope: "new",
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const box = doc.featuresById.get(result.value.featureId)!;
+    expect(box.get("type")).toBe("box");
+    expect(box.get("plane")).toEqual({
+      kind: "planeFeatureId",
+      ref: doc.featureOrder.toArray()[2],
+    });
+    expect(box.get("offsetX")).toBe(4);
+    expect(box.get("offsetY")).toBeUndefined();
+    expect(box.get("rotation")).toBe(45);
+    expect(box.get("mergeScope")).toBe("new");
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createPrimitive rejects bad planes and dimensions", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+
+    // not a plane, zero size, equal cone radii, minor radius too large
+    expect(createPrimitive(doc, { type: "sphere", radius: 1, planeRef: sketchId }).ok).toBe(false);
+    expect(createPrimitive(doc, { type: "sphere", radius: 0, planeRef: "xy" }).ok).toBe(false);
+    expect(
+      createPrimitive(doc, { type: "cone", radius: 2, topRadius: 2, height: 1, planeRef: "xy" }).ok
+    ).toBe(false);
+    expect(
+      createPrimitive(doc, { type: "torus", majorRadius: 2, minorRadius: 3, planeRef: "xy" }).ok
+    ).toBe(false);
+  });
+
+  test("createTransform stores a move and a face mate", () => {
+    const doc = createDocument();
+    const box = createPrimitive(doc, {
+      type: "box",
+      width: 10,
+      depth: 10,
+      height: 10,
+      planeRef: "xy",
+    });
+    const other = createPrimitive(doc, {
+      type: "box",
+      width: 5,
+      depth: 5,
+      height: 5,
+      planeRef: "xy",
+    });
+    expect(box.ok && other.ok).toBe(true);
+    if (!box.ok || !other.ok) return;
+    const face = (featureId: string, name: string) =>
+      encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: featureId,
+        localSelector: { kind: "primitive.face", data: { index: 0, name } },
+      });
+
+    const result = createTransform(doc, {
+      bodies: [other.value.featureId],
+      mateFrom: face(other.value.featureId, "bottom"),
+      mateTo: face(box.value.featureId, "top"),
+      rotate: [0, 0, 90],
+      translate: [5, 0, 0],
+      copy: true,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const transform = doc.featuresById.get(result.value.featureId)!;
+    expect(transform.get("type")).toBe("transform");
+    expect(transform.get("bodies")).toEqual([other.value.featureId]);
+    expect(transform.get("rotateZ")).toBe(90);
+    expect(transform.get("rotateX")).toBeUndefined();
+    expect(transform.get("translateX")).toBe(5);
+    expect(transform.get("mateFlip")).toBeUndefined();
+    expect(transform.get("copy")).toBe(true);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createTransform rejects missing bodies and bad mates", () => {
+    const doc = createDocument();
+    const box = createPrimitive(doc, {
+      type: "box",
+      width: 10,
+      depth: 10,
+      height: 10,
+      planeRef: "xy",
+    });
+    expect(box.ok).toBe(true);
+    if (!box.ok) return;
+    const bodyId = box.value.featureId;
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: bodyId,
+      localSelector: { kind: "primitive.edge", data: { index: 0 } },
+    });
+    const vertex = encodePersistentRef({
+      v: 1,
+      expectedType: "vertex",
+      originFeatureId: bodyId,
+      localSelector: { kind: "primitive.vertex", data: { index: 0 } },
+    });
+
+    expect(createTransform(doc, { bodies: [] }).ok).toBe(false);
+    expect(createTransform(doc, { bodies: ["missing"] }).ok).toBe(false);
+    expect(createTransform(doc, { bodies: [bodyId], mateFrom: vertex }).ok).toBe(false);
+    expect(createTransform(doc, { bodies: [bodyId], mateFrom: edge, mateTo: vertex }).ok).toBe(
+      false
+    );
+  });
+
+  test("createSplit stores a plane, face or sketch tool", () => {
+    const doc = createDocument();
+    const box = createPrimitive(doc, {
+      type: "box",
+      width: 10,
+      depth: 10,
+      height: 10,
+      planeRef: "xy",
+    });
+    expect(box.ok).toBe(true);
+    if (!box.ok) return;
+    const planeId = [...doc.featuresById.entries()].find(
+      ([, feature]) => feature.get("type") === "plane"
+    )![0];
+    const sketch = createSketch(doc, { planeRef: "xy" });
+    expect(sketch.ok).toBe(true);
+    if (!sketch.ok) return;
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: box.value.featureId,
+      localSelector: { kind: "primitive.face", data: { index: 0, name: "top" } },
+    });
+
+    const byPlane = createSplit(doc, {
+      tool: { kind: "planeFeatureId", ref: planeId },
+      keep: "front",
+      targetBody: box.value.featureId,
+    });
+    const byFace = createSplit(doc, { tool: { kind: "faceRef", ref: face }, keep: "both" });
+    const bySketch = createSplit(doc, { tool: { kind: "sketch", ref: sketch.value.featureId } });
+
+    expect(byPlane.ok && byFace.ok && bySketch.ok).toBe(true);
+    if (!byPlane.ok || !byFace.ok || !bySketch.ok) return;
+    const split = doc.featuresById.get(byPlane.value.featureId)!;
+    expect(split.get("type")).toBe("split");
+    expect(split.get("tool")).toEqual({ kind: "planeFeatureId", ref: planeId });
+    expect(split.get("keep")).toBe("front");
+    expect(split.get("targetBody")).toBe(box.value.featureId);
+    expect(doc.featuresById.get(byFace.value.featureId)!.get("keep")).toBeUndefined();
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createSplit rejects missing bodies and tools", () => {
+    const doc = createDocument();
+    const sketch = createSketch(doc, { planeRef: "xy" });
+    expect(sketch.ok).toBe(true);
+    if (!sketch.ok) return;
+
+    expect(
+      createSplit(doc, { tool: { kind: "sketch", ref: sketch.value.featureId }, targetBody: "x" })
+        .ok
+    ).toBe(false);
+    expect(createSplit(doc, { tool: { kind: "sketch", ref: uuid() } }).ok).toBe(false);
+    expect(
+      createSplit(doc, { tool: { kind: "planeFeatureId", ref: sketch.value.featureId } }).ok
+    ).toBe(false);
+    expect(createSplit(doc, { tool: { kind: "faceRef", ref: "not-a-ref" } }).ok).toBe(false);
+  });
+
+  test("createOffsetFace and createThicken store the faces and amount", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+    });
+
+    const offset = createOffsetFace(doc, { faces: [face], distance: -2 });
+    expect(offset.ok).toBe(true);
+    if (!offset.ok) return;
+    const offsetFeature = doc.featuresById.get(offset.value.featureId)!;
+    expect(offsetFeature.get("type")).toBe("offsetFace");
+    expect(offsetFeature.get("faces")).toEqual([face]);
+    expect(offsetFeature.get("distance")).toBe(-2);
+
+    const thicken = createThicken(doc, { faces: [face], thickness: 3 });
+    expect(thicken.ok).toBe(true);
+    if (!thicken.ok) return;
+    const thickenFeature = doc.featuresById.get(thicken.value.featureId)!;
+    expect(thickenFeature.get("type")).toBe("thicken");
+    expect(thickenFeature.get("thickness")).toBe(3);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("createOffsetFace and createThicken reject bad faces and zero amounts", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: sketchId,
+      localSelector: { kind: "edge.unknown", data: {} },
+    });
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: sketchId,
+      localSelector: { kind: "face.unknown", data: {} },
+    });
+
+    expect(createOffsetFace(doc, { faces: [], distance: 1 }).ok).toBe(false);
+    expect(createOffsetFace(doc, { faces: [edge], distance: 1 }).ok).toBe(false);
+    expect(createOffsetFace(doc, { faces: [face], distance: 0 }).ok).toBe(false);
+    expect(createThicken(doc, { faces: ["not-a-ref"], thickness: 1 }).ok).toBe(false);
+    expect(createThicken(doc, { faces: [face], thickness: 0 }).ok).toBe(false);
+  });
+
+  test("createBaseFlange, createEdgeFlange and createUnfold build a sheet metal part", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+
+    const base = createBaseFlange(doc, { sketchId, thickness: 2, bendRadius: 1 });
+    expect(base.ok).toBe(true);
+    if (!base.ok) return;
+    const baseFeature = doc.featuresById.get(base.value.featureId)!;
+    expect(baseFeature.get("type")).toBe("baseFlange");
+    expect(baseFeature.get("kFactor")).toBe(0.44);
+
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: base.value.featureId,
+      localSelector: { kind: "extrude.topEdge", data: { loopId: "loop:abc", segmentId: "s1" } },
+    });
+    const flange = createEdgeFlange(doc, { edge, length: 10 });
+    expect(flange.ok).toBe(true);
+    if (!flange.ok) return;
+    expect(doc.featuresById.get(flange.value.featureId)!.get("angle")).toBe(90);
+
+    const unfold = createUnfold(doc, { baseFlangeId: base.value.featureId });
+    expect(unfold.ok).toBe(true);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+  });
+
+  test("sheet metal commands reject bad parameters and references", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: sketchId,
+      localSelector: { kind: "edge.unknown", data: {} },
+    });
+
+    expect(createBaseFlange(doc, { sketchId, thickness: 0, bendRadius: 1 }).ok).toBe(false);
+    expect(createBaseFlange(doc, { sketchId, thickness: 1, bendRadius: 1, kFactor: 2 }).ok).toBe(
+      false
+    );
+    expect(createBaseFlange(doc, { sketchId: "missing", thickness: 1, bendRadius: 1 }).ok).toBe(
+      false
+    );
+    expect(createEdgeFlange(doc, { edge, angle: 180, length: 10 }).ok).toBe(false);
+    expect(createEdgeFlange(doc, { edge, length: 0 }).ok).toBe(false);
+    expect(createEdgeFlange(doc, { edge: "not-a-ref", length: 10 }).ok).toBe(false);
+    expect(createUnfold(doc, { baseFlangeId: sketchId }).ok).toBe(false);
+  });
+
+  test("createDeleteFace and createReplaceFace store faces and check the plane", () => {
+    const doc = createDocument();
+    const sketchId = addTestSketchWithRectangle(doc, "xy");
+    const extrude = createExtrude(doc, { sketchId, distance: 10, op: "add" });
+    expect(extrude.ok).toBe(true);
+    if (!extrude.ok) return;
+    const face = encodePersistentRef({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: extrude.value.featureId,
+      localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+    });
+    const xyPlaneId = doc.featureOrder.toArray()[1];
+
+    const deleteFace = createDeleteFace(doc, { faces: [face] });
+    expect(deleteFace.ok).toBe(true);
+    if (!deleteFace.ok) return;
+    expect(doc.featuresById.get(deleteFace.value.featureId)!.get("faces")).toEqual([face]);
+
+    const plane = { kind: "planeFeatureId" as const, ref: xyPlaneId };
+    const replaceFace = createReplaceFace(doc, { faces: [face], plane });
+    expect(replaceFace.ok).toBe(true);
+    if (!replaceFace.ok) return;
+    expect(doc.featuresById.get(replaceFace.value.featureId)!.get("plane")).toEqual(plane);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+
+    expect(createDeleteFace(doc, { faces: [] }).ok).toBe(false);
+    expect(createDeleteFace(doc, { faces: ["not-a-ref"] }).ok).toBe(false);
+    expect(
+      createReplaceFace(doc, { faces: [face], plane: { kind: "planeFeatureId", ref: sketchId } }).ok
+    ).toBe(false);
+    expect(
+      createReplaceFace(doc, { faces: [face], plane: { kind: "faceRef", ref: face } }).ok
+    ).toBe(false);
+  });
+
+  test("createBoolean combines several tools and bodies keep appearance overrides", () => {
+    const doc = createDocument();
+    const bodyIds: string[] = [];
+    for (const offset of [0, 5, 10]) {
+      const sketchId = addTestSketchWithRectangle(doc, "xy");
+      const extrude = createExtrude(doc, { sketchId, distance: 10 + offset, op: "add" });
+      expect(extrude.ok).toBe(true);
+      if (!extrude.ok) return;
+      bodyIds.push(extrude.value.featureId);
+    }
+    const [target, tool, other] = bodyIds;
+
+    const combine = createBoolean(doc, {
+      operation: "union",
+      target,
+      tool,
+      tools: [other],
+      keepTools: true,
+    });
+    expect(combine.ok).toBe(true);
+    if (!combine.ok) return;
+    const combineMap = doc.featuresById.get(combine.value.featureId)!;
+    expect(combineMap.get("tools")).toEqual([other]);
+    expect(combineMap.get("keepTools")).toBe(true);
+
+    expect(createBoolean(doc, { operation: "union", target, tool: target }).ok).toBe(false);
+    expect(createBoolean(doc, { operation: "subtract", target, tool, tools: [tool] }).ok).toBe(
+      false
+    );
+
+    const removed = deleteBody(doc, { bodies: [`${other}:1`] });
+    expect(removed.ok).toBe(true);
+    expect(deleteBody(doc, { bodies: [] }).ok).toBe(false);
+    expect(deleteBody(doc, { bodies: ["missing"] }).ok).toBe(false);
+
+    expect(
+      setBodyAppearance(doc, { bodyKey: target, name: "Base", color: "#ff0000", visible: false }).ok
+    ).toBe(true);
+    expect(setBodyAppearance(doc, { bodyKey: target, material: "metal" }).ok).toBe(true);
+    expect(doc.featuresById.get(target)!.get("bodyAppearance")).toEqual({
+      [target]: { name: "Base", color: "#ff0000", visible: false, material: "metal" },
+    });
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+
+    // Defaults are cleared rather than stored
+    setBodyAppearance(doc, { bodyKey: target, name: "", color: undefined, visible: true });
+    setBodyAppearance(doc, { bodyKey: target, material: "default" });
+    expect(doc.featuresById.get(target)!.get("bodyAppearance")).toBeUndefined();
+
+    expect(setBodyAppearance(doc, { bodyKey: target, color: "red" }).ok).toBe(false);
+    expect(setBodyAppearance(doc, { bodyKey: "missing", name: "X" }).ok).toBe(false);
+  });
+
+  test("createImport stores the file in the document and replaceImportFile swaps it", () => {
+    const doc = createDocument();
+    const blobs = doc.root.get("blobs") as Y.Map<Uint8Array>;
+    const revA = Uint8Array.from([73, 83, 79, 1]);
+    const revB = Uint8Array.from([73, 83, 79, 2]);
+
+    const result = createImport(doc, { data: revA, fileName: "bracket.STP" });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const featureMap = doc.featuresById.get(result.value.featureId)!;
+    expect(featureMap.get("format")).toBe("step");
+    expect(featureMap.get("name")).toBe("bracket");
+    expect(blobs.get(featureMap.get("blob") as string)).toEqual(revA);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(true);
+
+    const firstBlob = featureMap.get("blob") as string;
+    const replaced = replaceImportFile(doc, {
+      featureId: result.value.featureId,
+      data: revB,
+      fileName: "bracket-revB.step",
+    });
+    expect(replaced.ok).toBe(true);
+    expect(featureMap.get("fileName")).toBe("bracket-revB.step");
+    expect(featureMap.get("revision")).toBe(1);
+    expect(blobs.has(firstBlob)).toBe(false);
+    expect(blobs.get(featureMap.get("blob") as string)).toEqual(revB);
+
+    // A supplier's IGES revision replaces a STEP file too
+    expect(
+      replaceImportFile(doc, {
+        featureId: result.value.featureId,
+        data: revA,
+        fileName: "bracket-revC.IGS",
+      }).ok
+    ).toBe(true);
+    expect(featureMap.get("format")).toBe("iges");
+    expect(featureMap.get("revision")).toBe(2);
+    expect(blobs.size).toBe(1);
+
+    expect(createImport(doc, { data: revA, fileName: "model.obj" }).ok).toBe(false);
+    expect(createImport(doc, { data: new Uint8Array(), fileName: "empty.step" }).ok).toBe(false);
+    expect(
+      replaceImportFile(doc, { featureId: "missing", data: revB, fileName: "a.step" }).ok
+    ).toBe(false);
+
+    // An import whose file is gone fails validation
+    blobs.delete(featureMap.get("blob") as string);
+    expect(validateDocument(doc.root.toJSON()).ok).toBe(false);
+
+    deleteFeature(doc, { featureId: result.value.featureId });
+    expect(blobs.size).toBe(0);
+  });
+
   test("deleteFeature fails for datum planes", () => {
     const doc = createDocument();
 
@@ -438,4 +1501,22 @@ describe("Invariant E: Undo/Redo consistency", () => {
     undoManager.redo();
     expect(doc.featureOrder.length).toBe(initialCount + 1);
   });
+
+  test("undo removes an import's file from a document made without a blob store", () => {
+    const doc = createDocument();
+    doc.root.delete("blobs");
+    const undoManager = createUndoManager(doc);
+
+    expect(createImport(doc, { data: new Uint8Array([1, 2, 3]), fileName: "part.step" }).ok).toBe(
+      true
+    );
+    const blobs = doc.root.get("blobs") as Y.Map<Uint8Array>;
+    expect(blobs.size).toBe(1);
+
+    undoManager.undo();
+    expect(blobs.size).toBe(0);
+
+    undoManager.redo();
+    expect(blobs.size).toBe(1);
+  });
 });
@@ -0,0 +1,805 @@
+/**
+ * KernelEngine Rebuild Tests
+ *
+ * Rebuilds documents made with the modeling commands through KernelEngine,
+ * the path both the editor's kernel worker and the AI worker use, and checks
+ * the geometry and references each feature type builds.
+ *
+ * @vitest-environment node
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { createDocument, type SolidTypeDoc } from "../../src/editor/document/createDocument";
+import {
+  createSketch,
+  createExtrude,
+  createRevolve,
+  createSweep,
+  createLoft,
+  createShell,
+  createFillet,
+  createChamfer,
+  createLinearPattern,
+  createCircularPattern,
+  createMirror,
+  createDraft,
+  createHole,
+  createHelix,
+  createThread,
+  createRib,
+  createPrimitive,
+  createTransform,
+  createSplit,
+  createOffsetFace,
+  createThicken,
+  createDeleteFace,
+  createReplaceFace,
+  createBaseFlange,
+  createEdgeFlange,
+  createUnfold,
+  createBoolean,
+  deleteBody,
+  setBodyAppearance,
+  createImport,
+  createOffsetPlane,
+  createAxis,
+} from "../../src/editor/commands";
+import type { CommandResult } from "../../src/editor/commands/types";
+import { addPointToSketch, addLineToSketch } from "../../src/editor/document/featureHelpers";
+import { KernelEngine, type RebuildResult } from "../../src/editor/kernel/KernelEngine";
+import { decodePersistentRef, resolvePersistentRef } from "../../src/editor/naming";
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+type Vec3 = [number, number, number];
+
+let engine: KernelEngine;
+
+beforeAll(async () => {
+  // SolidSession loads OpenCascade itself under node
+  engine = new KernelEngine({ oc: {}, computeMeshes: true });
+  await engine.init();
+});
+
+afterAll(() => {
+  engine.dispose();
+});
+
+function must<T>(result: CommandResult<T>): T {
+  if (!result.ok) throw new Error(result.error);
+  return result.value;
+}
+
+/**
+ * Datum plane feature IDs, in the order createDocument adds them
+ */
+function datumPlanes(doc: SolidTypeDoc): { xy: string; xz: string; yz: string } {
+  const [, xy, xz, yz] = doc.featureOrder.toArray();
+  return { xy, xz, yz };
+}
+
+/**
+ * Add a sketch holding a closed polygon through the given points
+ */
+function addPolygonSketch(doc: SolidTypeDoc, planeRef: string, points: [number, number][]) {
+  const sketchId = must(createSketch(doc, { planeRef })).featureId;
+  const sketchMap = doc.featuresById.get(sketchId)!;
+  const pointIds = points.map(([x, y]) => addPointToSketch(sketchMap, x, y));
+  const lineIds = pointIds.map((id, i) =>
+    addLineToSketch(sketchMap, id, pointIds[(i + 1) % pointIds.length])
+  );
+  return { sketchId, pointIds, lineIds };
+}
+
+function addRectangleSketch(
+  doc: SolidTypeDoc,
+  planeRef: string,
+  [x0, y0]: [number, number],
+  [x1, y1]: [number, number]
+) {
+  return addPolygonSketch(doc, planeRef, [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+  ]);
+}
+
+/**
+ * A 10 x 10 x 10 box extruded from the XY plane, spanning x and y from 0 to 10
+ */
+function addBox(doc: SolidTypeDoc, [x, y]: [number, number] = [0, 0], height = 10) {
+  const { sketchId } = addRectangleSketch(doc, "xy", [x, y], [x + 10, y + 10]);
+  return must(createExtrude(doc, { sketchId, distance: height, op: "add", mergeScope: "new" }))
+    .featureId;
+}
+
+async function rebuild(doc: SolidTypeDoc): Promise<RebuildResult> {
+  const result = await engine.rebuildFromYDoc(doc.ydoc);
+  expect(result.errors).toEqual([]);
+  return result;
+}
+
+function meshOf(result: RebuildResult, bodyKey: string) {
+  const mesh = result.meshes.get(bodyKey);
+  if (!mesh) throw new Error(`No mesh for body ${bodyKey}`);
+  return mesh;
+}
+
+function vertex(positions: Float32Array, index: number): Vec3 {
+  return [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]];
+}
+
+/**
+ * Enclosed volume of a body's mesh
+ */
+function volume(result: RebuildResult, bodyKey: string): number {
+  const { positions, indices } = meshOf(result, bodyKey);
+  let sum = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const [ax, ay, az] = vertex(positions, indices[t]);
+    const [bx, by, bz] = vertex(positions, indices[t + 1]);
+    const [cx, cy, cz] = vertex(positions, indices[t + 2]);
+    sum += ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+  }
+  return sum / 6;
+}
+
+function totalVolume(result: RebuildResult): number {
+  return [...result.meshes.keys()].reduce((sum, key) => sum + volume(result, key), 0);
+}
+
+function bounds(result: RebuildResult, bodyKey: string): { min: Vec3; max: Vec3 } {
+  const { positions } = meshOf(result, bodyKey);
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  return { min, max };
+}
+
+/**
+ * The ref of the face whose triangles all satisfy a test on their centroid and
+ * normal; there must be exactly one
+ */
+function faceRef(
+  result: RebuildResult,
+  bodyKey: string,
+  matches: (centroid: Vec3, normal: Vec3) => boolean
+): string {
+  const { positions, normals, indices, faceMap } = meshOf(result, bodyKey);
+  const faces = new Map<number, boolean>();
+  for (let t = 0; t < indices.length / 3; t++) {
+    const corners = [0, 1, 2].map((k) => vertex(positions, indices[t * 3 + k]));
+    const centroid = [0, 1, 2].map((a) => (corners[0][a] + corners[1][a] + corners[2][a]) / 3);
+    const face = faceMap![t];
+    const ok = matches(centroid as Vec3, vertex(normals, indices[t * 3]));
+    faces.set(face, (faces.get(face) ?? true) && ok);
+  }
+  const found = [...faces].filter(([, ok]) => ok).map(([face]) => face);
+  expect(found).toHaveLength(1);
+  return result.referenceIndex[bodyKey].faces[found[0]];
+}
+
+/** The ref of the planar face facing along an axis-aligned normal, at a coordinate */
+function planarFaceRef(result: RebuildResult, bodyKey: string, normal: Vec3, at: number): string {
+  const axis = normal.findIndex((n) => n !== 0);
+  return faceRef(
+    result,
+    bodyKey,
+    (centroid, n) =>
+      Math.abs(centroid[axis] - at) < 1e-4 &&
+      n.every((value, i) => Math.abs(value - normal[i]) < 1e-4)
+  );
+}
+
+/**
+ * Refs of the edges whose every tessellated point satisfies a test
+ */
+function edgeRefs(result: RebuildResult, bodyKey: string, matches: (p: Vec3) => boolean) {
+  const { edges, edgeMap } = meshOf(result, bodyKey);
+  const edgeOk = new Map<number, boolean>();
+  for (let s = 0; s < edgeMap!.length; s++) {
+    const ok = matches(vertex(edges!, s * 2)) && matches(vertex(edges!, s * 2 + 1));
+    edgeOk.set(edgeMap![s], (edgeOk.get(edgeMap![s]) ?? true) && ok);
+  }
+  return [...edgeOk]
+    .filter(([, ok]) => ok)
+    .map(([edge]) => result.referenceIndex[bodyKey].edges[edge]);
+}
+
+/** Ref of a primitive's face by its name */
+function primitiveFaceRef(result: RebuildResult, bodyKey: string, name: string): string {
+  const ref = result.referenceIndex[bodyKey].faces.find((face) => {
+    const decoded = decodePersistentRef(face);
+    return decoded.ok && decoded.ref.localSelector.data.name === name;
+  });
+  if (!ref) throw new Error(`No ${name} face on ${bodyKey}`);
+  return ref;
+}
+
+/** Mesh volume within a tolerance for tessellated curved faces */
+function expectVolume(actual: number, expected: number, tolerance = 0.01) {
+  expect(Math.abs(actual - expected)).toBeLessThan(expected * tolerance);
+}
+
+function expectFound(result: RebuildResult, ref: string) {
+  expect(resolvePersistentRef(ref, result.referenceIndex).status).toBe("found");
+}
+
+function expectComputed(result: RebuildResult, featureId: string) {
+  expect(result.featureStatus[featureId]).toBe("computed");
+}
+
+// ============================================================================
+// Feature Rebuilds
+// ============================================================================
+
+describe("KernelEngine rebuild", () => {
+  test("sweeps a profile along a path sketch", async () => {
+    const doc = createDocument();
+    const { sketchId: profileSketchId } = addRectangleSketch(doc, "xy", [-1, -1], [1, 1]);
+    const pathSketchId = must(createSketch(doc, { planeRef: "xz" })).featureId;
+    const pathMap = doc.featuresById.get(pathSketchId)!;
+    // The XZ sketch's y axis runs along world z
+    addLineToSketch(pathMap, addPointToSketch(pathMap, 0, 0), addPointToSketch(pathMap, 0, 10));
+    const sweep = must(createSweep(doc, { profileSketchId, pathSketchId })).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, sweep);
+    expect(volume(result, sweep)).toBeCloseTo(40, 3);
+    const { min, max } = bounds(result, sweep);
+    expect(max[2] - min[2]).toBeCloseTo(10, 4);
+  });
+
+  test("lofts between profiles on parallel planes", async () => {
+    const doc = createDocument();
+    const bottom = addRectangleSketch(doc, "xy", [-2, -2], [2, 2]).sketchId;
+    const plane = must(
+      createOffsetPlane(doc, {
+        baseRef: { kind: "planeFeatureId", ref: datumPlanes(doc).xy },
+        offset: 10,
+      })
+    ).featureId;
+    const top = addRectangleSketch(doc, plane, [-1, -1], [1, 1]).sketchId;
+    const loft = must(createLoft(doc, { sketchIds: [bottom, top] })).featureId;
+
+    const result = await rebuild(doc);
+
+    // A square frustum: h/3 * (A1 + A2 + sqrt(A1 A2))
+    expectComputed(result, loft);
+    expect(volume(result, loft)).toBeCloseTo((10 / 3) * (16 + 4 + 8), 3);
+  });
+
+  test("revolves a thin wall around a sketch axis", async () => {
+    const doc = createDocument();
+    const sketchId = must(createSketch(doc, { planeRef: "xy" })).featureId;
+    const sketchMap = doc.featuresById.get(sketchId)!;
+    const axisId = addLineToSketch(
+      sketchMap,
+      addPointToSketch(sketchMap, 0, 0),
+      addPointToSketch(sketchMap, 0, 10)
+    );
+    addLineToSketch(
+      sketchMap,
+      addPointToSketch(sketchMap, 5, 0),
+      addPointToSketch(sketchMap, 5, 10)
+    );
+    const revolve = must(
+      createRevolve(doc, { sketchId, axisId, thin: true, thickness: 1, thinSide: "symmetric" })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    // A tube from radius 4.5 to 5.5, 10 long
+    expectComputed(result, revolve);
+    expectVolume(volume(result, revolve), Math.PI * (5.5 ** 2 - 4.5 ** 2) * 10);
+  });
+
+  test("cuts with a revolve and fails a revolve cut with no body to cut", async () => {
+    // A rod of radius 2 along the y axis
+    const addRevolveCut = (doc: SolidTypeDoc) => {
+      const sketchId = must(createSketch(doc, { planeRef: "xy" })).featureId;
+      const sketchMap = doc.featuresById.get(sketchId)!;
+      const axisId = addLineToSketch(
+        sketchMap,
+        addPointToSketch(sketchMap, 0, 0),
+        addPointToSketch(sketchMap, 0, 10)
+      );
+      const corners = [
+        [0, 0],
+        [2, 0],
+        [2, 10],
+        [0, 10],
+      ].map(([x, y]) => addPointToSketch(sketchMap, x, y));
+      corners.forEach((point, i) => addLineToSketch(sketchMap, point, corners[(i + 1) % 4]));
+      return must(createRevolve(doc, { sketchId, axisId, op: "cut" })).featureId;
+    };
+
+    const empty = createDocument();
+    const failedCut = addRevolveCut(empty);
+    const failed = await engine.rebuildFromYDoc(empty.ydoc);
+
+    expect(failed.featureStatus[failedCut]).toBe("error");
+    expect(failed.errors).toEqual([
+      expect.objectContaining({
+        featureId: failedCut,
+        message: expect.stringMatching(/^Cut operation failed/),
+      }),
+    ]);
+
+    const doc = createDocument();
+    const box = addBox(doc);
+    const cut = addRevolveCut(doc);
+    const result = await rebuild(doc);
+
+    // The rod takes a quarter cylinder off the box's edge along y
+    expectComputed(result, cut);
+    expectVolume(volume(result, box), 1000 - (Math.PI * 4 * 10) / 4);
+  });
+
+  test("shells a body open at a face picked from the reference index", async () => {
+    const doc = createDocument();
+    const box = addBox(doc);
+    const openFace = planarFaceRef(await rebuild(doc), box, [0, 0, 1], 10);
+    const shell = must(
+      createShell(doc, { targetBody: box, thickness: 1, openFaces: [openFace] })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, shell);
+    expect(volume(result, box)).toBeCloseTo(1000 - 8 * 8 * 9, 3);
+  });
+
+  test("fillets and chamfers edges picked from the reference index", async () => {
+    const doc = createDocument();
+    const filleted = addBox(doc);
+    const chamfered = addBox(doc, [20, 0]);
+    const before = await rebuild(doc);
+    const topEdges = (key: string) => edgeRefs(before, key, (p) => Math.abs(p[2] - 10) < 1e-4);
+    expect(topEdges(filleted)).toHaveLength(4);
+    const fillet = must(
+      createFillet(doc, { edgeSets: [{ edges: topEdges(filleted), radius: 1 }] })
+    ).featureId;
+    const chamfer = must(
+      createChamfer(doc, { edgeSets: [{ edges: [topEdges(chamfered)[0]], distance: 2 }] })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, fillet);
+    expectComputed(result, chamfer);
+    expect(volume(result, filleted)).toBeLessThan(1000 - 4 * 10 * (1 - Math.PI / 4) + 1);
+    expect(volume(result, filleted)).toBeGreaterThan(1000 - 4 * 10 * (1 - Math.PI / 4) - 1);
+    expect(volume(result, chamfered)).toBeCloseTo(1000 - 0.5 * 2 * 2 * 10, 3);
+  });
+
+  test("drafts a side face about the neutral plane", async () => {
+    const doc = createDocument();
+    const box = addBox(doc);
+    const side = planarFaceRef(await rebuild(doc), box, [1, 0, 0], 10);
+    const draft = must(
+      createDraft(doc, {
+        faces: [side],
+        angle: 5,
+        pullDirection: [0, 0, 1],
+        neutralPlane: { kind: "planeFeatureId", ref: datumPlanes(doc).xy },
+      })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    // The face leans by 10 tan 5° at the top, taking or adding a wedge
+    expectComputed(result, draft);
+    const wedge = 0.5 * 10 * 10 * 10 * Math.tan((5 * Math.PI) / 180);
+    expect(Math.abs(volume(result, box) - 1000)).toBeCloseTo(wedge, 3);
+  });
+
+  test("patterns and mirrors bodies", async () => {
+    const doc = createDocument();
+    const box = addBox(doc, [5, 0]);
+    const linear = must(
+      createLinearPattern(doc, {
+        sourceFeatures: [box],
+        direction: [0, 1, 0],
+        count: 3,
+        spacing: 20,
+      })
+    ).featureId;
+    const axis = must(createAxis(doc, { definition: { kind: "datum", role: "z" } })).featureId;
+    const circular = must(
+      createCircularPattern(doc, { sourceBodies: [box], axis, count: 2 })
+    ).featureId;
+    const mirror = must(
+      createMirror(doc, {
+        sourceBodies: [box],
+        plane: { kind: "planeFeatureId", ref: datumPlanes(doc).xz },
+      })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    for (const id of [linear, circular, mirror]) expectComputed(result, id);
+    // Three boxes along y, turned half way around z, then mirrored across y = 0
+    expect(totalVolume(result)).toBeCloseTo(12 * 1000, 0);
+    const { min, max } = bounds(result, box);
+    expect(min[0]).toBeCloseTo(-15, 4);
+    expect(max[0]).toBeCloseTo(15, 4);
+    expect(max[1]).toBeCloseTo(50, 4);
+    expect(min[1]).toBeCloseTo(-50, 4);
+  });
+
+  test("drills holes and records their callouts", async () => {
+    const doc = createDocument();
+    const box = addBox(doc);
+    const { sketchId } = addRectangleSketch(doc, "xy", [0, 0], [10, 10]);
+    const pointId = addPointToSketch(doc.featuresById.get(sketchId)!, 5, 5);
+    const hole = must(
+      createHole(doc, {
+        sketchId,
+        points: [pointId],
+        diameter: 4,
+        extent: "throughAll",
+        reverse: true,
+        thread: { size: "M4", pitch: 0.7 },
+      })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, hole);
+    expectVolume(volume(result, box), 1000 - Math.PI * 4 * 10);
+    expect(result.holes).toHaveLength(1);
+    expect(result.holes[0]).toMatchObject({ featureId: hole, pointId, diameter: 4 });
+  });
+
+  test("fails a hole with no body to cut", async () => {
+    const doc = createDocument();
+    const { sketchId } = addRectangleSketch(doc, "xy", [0, 0], [10, 10]);
+    const pointId = addPointToSketch(doc.featuresById.get(sketchId)!, 5, 5);
+    const hole = must(
+      createHole(doc, { sketchId, points: [pointId], diameter: 4, depth: 5 })
+    ).featureId;
+
+    const result = await engine.rebuildFromYDoc(doc.ydoc);
+
+    expect(result.featureStatus[hole]).toBe("error");
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        featureId: hole,
+        message: expect.stringMatching(/^Cut operation failed/),
+      }),
+    ]);
+  });
+
+  test("threads a cylinder face along a helix", async () => {
+    const doc = createDocument();
+    const shaft = must(
+      createPrimitive(doc, { type: "cylinder", radius: 5, height: 10, planeRef: "xy" })
+    ).featureId;
+    const axis = must(createAxis(doc, { definition: { kind: "datum", role: "z" } })).featureId;
+    const helix = must(
+      createHelix(doc, { axis, radius: 5, pitch: 1.5, height: 6, startOffset: 2 })
+    ).featureId;
+    const before = await rebuild(doc);
+    const face = primitiveFaceRef(before, shaft, "side");
+    expectFound(before, face);
+    const thread = must(createThread(doc, { helix, face, depth: 0.8 })).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, helix);
+    expectComputed(result, thread);
+    expect(volume(result, shaft)).toBeLessThan(Math.PI * 25 * 10 - 1);
+  });
+
+  test("adds a rib between the walls of a bracket", async () => {
+    const doc = createDocument();
+    const { sketchId } = addPolygonSketch(doc, "xy", [
+      [0, 0],
+      [30, 0],
+      [30, 3],
+      [3, 3],
+      [3, 30],
+      [0, 30],
+    ]);
+    const bracket = must(createExtrude(doc, { sketchId, distance: 20, op: "add" })).featureId;
+    const plane = must(
+      createOffsetPlane(doc, {
+        baseRef: { kind: "planeFeatureId", ref: datumPlanes(doc).xy },
+        offset: 10,
+      })
+    ).featureId;
+    const ribSketch = must(createSketch(doc, { planeRef: plane })).featureId;
+    const ribMap = doc.featuresById.get(ribSketch)!;
+    addLineToSketch(ribMap, addPointToSketch(ribMap, 10, 13), addPointToSketch(ribMap, 13, 10));
+    const rib = must(createRib(doc, { sketchId: ribSketch, thickness: 2 })).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, rib);
+    expect(volume(result, bracket)).toBeGreaterThan((30 * 3 + 27 * 3) * 20 + 1);
+  });
+
+  test("places primitives and moves or copies bodies", async () => {
+    const doc = createDocument();
+    const box = must(
+      createPrimitive(doc, {
+        type: "box",
+        width: 10,
+        depth: 20,
+        height: 5,
+        planeRef: "xy",
+        mergeScope: "new",
+      })
+    ).featureId;
+    const sphere = must(
+      createPrimitive(doc, { type: "sphere", radius: 2, planeRef: "xy", mergeScope: "new" })
+    ).featureId;
+    const transform = must(
+      createTransform(doc, { bodies: [sphere], translate: [20, 0, 0], copy: true })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, box);
+    expectComputed(result, transform);
+    expect(volume(result, box)).toBeCloseTo(1000, 3);
+    expect(result.bodies).toHaveLength(3);
+    const copy = result.bodies.find((body) => body.featureId.startsWith(transform))!;
+    expect(bounds(result, copy.featureId).min[0]).toBeCloseTo(18, 1);
+    expect(volume(result, copy.featureId)).toBeCloseTo(volume(result, sphere), 3);
+  });
+
+  test("previews moving the bodies it has built", async () => {
+    const doc = createDocument();
+    const box = addBox(doc);
+    await rebuild(doc);
+
+    // A copy the transform being edited would make does not exist yet
+    const meshes = engine.previewTransform({
+      bodies: [box, `${box}:1`],
+      transforms: [{ kind: "translate", vector: [0, 0, 5] }],
+    });
+
+    expect([...meshes.keys()]).toEqual([box]);
+    const positions = meshes.get(box)!.positions;
+    expect(Math.min(...positions.filter((_, i) => i % 3 === 2))).toBeCloseTo(5, 4);
+  });
+
+  test("splits a body with a plane", async () => {
+    const doc = createDocument();
+    const box = addBox(doc, [-5, 0]);
+    const split = must(
+      createSplit(doc, {
+        tool: { kind: "planeFeatureId", ref: datumPlanes(doc).yz },
+        targetBody: box,
+      })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, split);
+    expect(result.bodies).toHaveLength(2);
+    for (const body of result.bodies) {
+      expect(volume(result, body.featureId)).toBeCloseTo(500, 3);
+    }
+  });
+
+  test("offsets and thickens faces", async () => {
+    const doc = createDocument();
+    const offsetBox = addBox(doc);
+    const thickenedBox = addBox(doc, [20, 0]);
+    const before = await rebuild(doc);
+    const top = planarFaceRef(before, offsetBox, [0, 0, 1], 10);
+    const offset = must(createOffsetFace(doc, { faces: [top], distance: 2 })).featureId;
+    const side = planarFaceRef(before, thickenedBox, [1, 0, 0], 30);
+    const thicken = must(createThicken(doc, { faces: [side], thickness: 3 })).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, offset);
+    expectComputed(result, thicken);
+    expect(bounds(result, offsetBox).max[2]).toBeCloseTo(12, 4);
+    expect(volume(result, offsetBox)).toBeCloseTo(1200, 3);
+    expect(totalVolume(result) - volume(result, offsetBox)).toBeCloseTo(1000 + 3 * 10 * 10, 3);
+  });
+
+  test("deletes and replaces faces", async () => {
+    const doc = createDocument();
+    const box = addBox(doc);
+    const { sketchId } = addRectangleSketch(doc, "xy", [0, 0], [10, 10]);
+    const pointId = addPointToSketch(doc.featuresById.get(sketchId)!, 5, 5);
+    must(createHole(doc, { sketchId, points: [pointId], diameter: 4, depth: 5, reverse: true }));
+    const plane = must(
+      createOffsetPlane(doc, {
+        baseRef: { kind: "planeFeatureId", ref: datumPlanes(doc).xy },
+        offset: 15,
+      })
+    ).featureId;
+    const drilled = await rebuild(doc);
+    const holeFaces = [...drilled.referenceIndex[box].faces].filter((face) => {
+      const decoded = decodePersistentRef(face);
+      return decoded.ok && decoded.ref.localSelector.kind.startsWith("hole.");
+    });
+    expect(holeFaces.length).toBeGreaterThan(0);
+    const deleteFace = must(createDeleteFace(doc, { faces: holeFaces })).featureId;
+    const top = planarFaceRef(drilled, box, [0, 0, 1], 10);
+    const replaceFace = must(
+      createReplaceFace(doc, { faces: [top], plane: { kind: "planeFeatureId", ref: plane } })
+    ).featureId;
+
+    const result = await rebuild(doc);
+
+    // The hole is gone and the top now sits on the plane at z = 15
+    expectComputed(result, deleteFace);
+    expectComputed(result, replaceFace);
+    expect(volume(result, box)).toBeCloseTo(1500, 3);
+  });
+
+  test("builds and unfolds a sheet metal part", async () => {
+    const doc = createDocument();
+    const { sketchId } = addRectangleSketch(doc, "xy", [0, 0], [20, 10]);
+    const base = must(createBaseFlange(doc, { sketchId, thickness: 1, bendRadius: 1 })).featureId;
+    const before = await rebuild(doc);
+    const [edge] = edgeRefs(
+      before,
+      base,
+      (p) => Math.abs(p[0] - 20) < 1e-4 && Math.abs(p[2] - 1) < 1e-4
+    );
+    const flange = must(createEdgeFlange(doc, { edge, length: 10 })).featureId;
+    const unfold = must(createUnfold(doc, { baseFlangeId: base })).featureId;
+
+    const result = await rebuild(doc);
+
+    for (const id of [base, flange, unfold]) expectComputed(result, id);
+    expect(result.flatPatterns).toHaveLength(1);
+    expect(result.flatPatterns[0]).toMatchObject({ featureId: unfold, baseFlangeId: base });
+    expect(result.flatPatterns[0].pattern.bendLines).toHaveLength(1);
+
+    const dxf = engine.exportFlatPattern({ featureId: unfold, format: "dxf" });
+    expect(dxf).toContain("BEND_UP");
+    expect(dxf.trimEnd().endsWith("EOF")).toBe(true);
+    const svg = engine.exportFlatPattern({ featureId: unfold, format: "svg" });
+    expect(svg).toContain("<svg");
+    expect(() => engine.exportFlatPattern({ featureId: base, format: "dxf" })).toThrow(
+      `No flat pattern for feature ${base}`
+    );
+  });
+
+  test("combines several tool bodies and deletes bodies", async () => {
+    const doc = createDocument();
+    const target = addBox(doc);
+    const tools = [addBox(doc, [5, 0]), addBox(doc, [-5, 0])];
+    const kept = addBox(doc, [0, 20]);
+    const union = must(
+      createBoolean(doc, { operation: "union", target, tool: tools[0], tools: [tools[1]] })
+    ).featureId;
+    const cut = must(
+      createBoolean(doc, { operation: "subtract", target, tool: kept, keepTools: true })
+    ).featureId;
+    const removed = must(deleteBody(doc, { bodies: [kept] })).featureId;
+
+    const result = await rebuild(doc);
+
+    for (const id of [union, cut, removed]) expectComputed(result, id);
+    expect(result.bodies.map((body) => body.featureId)).toEqual([target]);
+    expect(volume(result, target)).toBeCloseTo(2000, 3);
+  });
+
+  test("rebuilds an imported STEP file stored in the document", async () => {
+    const source = createDocument();
+    addBox(source);
+    await rebuild(source);
+    const data = engine.exportSTEP({ name: "box" });
+
+    const doc = createDocument();
+    const imported = must(createImport(doc, { data, fileName: "box.step" })).featureId;
+
+    const result = await rebuild(doc);
+
+    expectComputed(result, imported);
+    expect(result.bodies).toHaveLength(1);
+    expect(totalVolume(result)).toBeCloseTo(1000, 3);
+  });
+
+  test("exports primitive bodies to STEP as named, colored products", async () => {
+    const source = createDocument();
+    must(
+      createPrimitive(source, {
+        type: "box",
+        width: 10,
+        depth: 20,
+        height: 5,
+        planeRef: "xy",
+        mergeScope: "new",
+        resultBodyName: "Plate",
+        resultBodyColor: "#ff8000",
+      })
+    );
+    must(
+      createPrimitive(source, {
+        type: "sphere",
+        radius: 2,
+        planeRef: "xy",
+        offsetX: 30,
+        mergeScope: "new",
+        resultBodyName: "Ball",
+      })
+    );
+    await rebuild(source);
+    const data = engine.exportSTEP({ name: "parts", schema: "AP242" });
+
+    const text = new TextDecoder().decode(data);
+    expect(text).toContain("PRODUCT('Plate'");
+    expect(text).toContain("PRODUCT('Ball'");
+    expect(text).toContain("COLOUR_RGB");
+
+    const doc = createDocument();
+    must(createImport(doc, { data, fileName: "parts.step" }));
+    const result = await rebuild(doc);
+
+    expectVolume(totalVolume(result), 1000 + (4 / 3) * Math.PI * 8);
+  });
+
+  test("exports primitive bodies to 3MF as separate colored objects", async () => {
+    const doc = createDocument();
+    must(
+      createPrimitive(doc, {
+        type: "cylinder",
+        radius: 5,
+        height: 10,
+        planeRef: "xy",
+        mergeScope: "new",
+        resultBodyName: "Post",
+        resultBodyColor: "#336699",
+      })
+    );
+    must(
+      createPrimitive(doc, {
+        type: "box",
+        width: 10,
+        depth: 10,
+        height: 2,
+        planeRef: "xy",
+        offsetX: 30,
+        mergeScope: "new",
+        resultBodyName: "Base",
+      })
+    );
+    await rebuild(doc);
+
+    // Entries are stored uncompressed, so the model reads straight from the package
+    const text = new TextDecoder().decode(engine.export3MF({ name: "parts" }));
+    expect(text).toContain('<model unit="millimeter"');
+    expect(text).toContain('name="Post"');
+    expect(text).toContain('name="Base"');
+    expect(text).toContain('displaycolor="#336699FF"');
+    expect(text.match(/<item objectid=/g)).toHaveLength(2);
+  });
+
+  test("exports every visible body to IGES", async () => {
+    const source = createDocument();
+    addBox(source);
+    addBox(source, [40, 0]);
+    const hidden = addBox(source, [0, 40]);
+    must(setBodyAppearance(source, { bodyKey: hidden, visible: false }));
+    await rebuild(source);
+    const data = engine.exportIGES();
+
+    const doc = createDocument();
+    const imported = must(createImport(doc, { data, fileName: "model.igs" })).featureId;
+
+    const result = await rebuild(doc);
+
+    expect(bounds(result, imported).max[0] - bounds(result, imported).min[0]).toBeCloseTo(50, 3);
+    expect(bounds(result, imported).max[1] - bounds(result, imported).min[1]).toBeCloseTo(10, 3);
+    expect(totalVolume(result)).toBeCloseTo(2000, 3);
+  });
+});
@@ -7,8 +7,16 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import * as Y from "yjs";
 import { v4 as uuid } from "uuid";
-import type { SolidTypeDoc } from "../../../../../src/editor/document/createDocument";
+import {
+  createDocument,
+  type SolidTypeDoc,
+} from "../../../../../src/editor/document/createDocument";
 import * as modelingImpl from "../../../../../src/lib/ai/tools/modeling-impl";
+import { encodePersistentRef } from "../../../../../src/editor/naming";
+import {
+  addPointToSketch,
+  addLineToSketch,
+} from "../../../../../src/editor/document/featureHelpers";
 import {
   isModelingTool,
   executeModelingTool,
@@ -182,6 +190,22 @@ describe("Feature Tools", () => {
       expect(feature.get("op")).toBe("cut");
       expect(feature.get("direction")).toBe("reverse");
     });
+
+    it("creates a two-sided drafted extrude", () => {
+      const sketchId = createTestSketch(doc);
+      const result = modelingImpl.createExtrudeImpl(
+        { sketchId, distance: 20, op: "add", draftAngle: 5, distance2: 4, startOffset: 2 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("draftAngle")).toBe(5);
+      expect(feature.get("startOffset")).toBe(2);
+      expect(feature.get("twoSided")).toBe(true);
+      expect(feature.get("extent2")).toBe("blind");
+      expect(feature.get("distance2")).toBe(4);
+    });
   });
 
   describe("createRevolveImpl", () => {
@@ -197,41 +221,111 @@ describe("Feature Tools", () => {
       expect(feature.get("type")).toBe("revolve");
       expect(feature.get("angle")).toBe(180);
     });
+
+    it("creates a two-direction thin revolve", () => {
+      const sketchId = createTestSketch(doc);
+      const result = modelingImpl.createRevolveImpl(
+        { sketchId, axisLineId: "line1", angle: 90, angle2: 45, thickness: 2, op: "add" },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("twoSided")).toBe(true);
+      expect(feature.get("angle2")).toBe(45);
+      expect(feature.get("thin")).toBe(true);
+      expect(feature.get("thickness")).toBe(2);
+      expect(feature.get("thinSide")).toBe("normal");
+    });
+
+    it("rejects revolve angles over 360 degrees", () => {
+      const sketchId = createTestSketch(doc);
+      const result = modelingImpl.createRevolveImpl(
+        { sketchId, axisLineId: "line1", angle: 270, angle2: 180, op: "add" },
+        { doc }
+      ) as { featureId: string; status: string; error?: string };
+
+      expect(result.status).toBe("error");
+      expect(result.error).toMatch(/360/);
+    });
   });
 
   describe("createFilletImpl", () => {
+    const edgeRef = (segmentId: string) =>
+      encodePersistentRef({
+        v: 1,
+        expectedType: "edge",
+        originFeatureId: "extrude-1",
+        localSelector: { kind: "extrude.topEdge", data: { loopId: "loop:abc", segmentId } },
+      });
+
     it("creates a fillet feature", () => {
+      const edges = [edgeRef("line-1"), edgeRef("line-2")];
+      const result = modelingImpl.createFilletImpl({ edgeRefs: edges, radius: 2 }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("fillet");
+      expect(feature.get("edgeSets")).toEqual([{ edges, radius: 2 }]);
+    });
+
+    it("rejects edges that are not edge references", () => {
       const result = modelingImpl.createFilletImpl(
         { edgeRefs: ["edge1", "edge2"], radius: 2 },
         { doc }
       ) as { featureId: string; status: string };
 
-      expect(result.status).toBe("ok");
-      const feature = doc.featuresById.get(result.featureId)!;
-      expect(feature.get("type")).toBe("fillet");
-      expect(feature.get("radius")).toBe(2);
+      expect(result.status).toBe("error");
     });
   });
 
   describe("createChamferImpl", () => {
+    const edge = encodePersistentRef({
+      v: 1,
+      expectedType: "edge",
+      originFeatureId: "extrude-1",
+      localSelector: { kind: "extrude.sideEdge", data: { loopId: "loop:abc", segmentIds: "a,b" } },
+    });
+
     it("creates a chamfer feature", () => {
       const result = modelingImpl.createChamferImpl(
-        { edgeRefs: ["edge1"], distance: 1.5 },
+        { edgeRefs: [edge], distance: 1.5 },
         { doc }
-      ) as { featureId: string; status: string };
+      ) as {
+        featureId: string;
+        status: string;
+      };
 
       expect(result.status).toBe("ok");
       const feature = doc.featuresById.get(result.featureId)!;
       expect(feature.get("type")).toBe("chamfer");
-      expect(feature.get("distance")).toBe(1.5);
+      expect(feature.get("edgeSets")).toEqual([{ edges: [edge], distance: 1.5 }]);
+    });
+
+    it("creates a distance-angle chamfer", () => {
+      const result = modelingImpl.createChamferImpl(
+        { edgeRefs: [edge], distance: 1, angle: 30 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("edgeSets")).toEqual([{ edges: [edge], distance: 1, angle: 30 }]);
     });
   });
 
   describe("createLinearPatternImpl", () => {
     it("creates a linear pattern feature", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
       const result = modelingImpl.createLinearPatternImpl(
         {
-          featureIds: ["f1", "f2"],
+          featureIds: [extrude.featureId],
           directionX: 1,
           directionY: 0,
           directionZ: 0,
@@ -247,6 +341,378 @@ describe("Feature Tools", () => {
       expect(feature.get("count")).toBe(5);
       expect(feature.get("spacing")).toBe(10);
       expect(feature.get("direction")).toEqual([1, 0, 0]);
+      expect(feature.get("sourceFeatures")).toEqual([extrude.featureId]);
+    });
+
+    it("rejects sources that are not features", () => {
+      const result = modelingImpl.createLinearPatternImpl(
+        { featureIds: ["f1"], directionX: 1, directionY: 0, directionZ: 0, count: 3, spacing: 10 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createCircularPatternImpl", () => {
+    it("creates a circular pattern around an explicit axis", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const result = modelingImpl.createCircularPatternImpl(
+        {
+          featureIds: [extrude.featureId],
+          axisX: 0,
+          axisY: 0,
+          axisZ: 1,
+          axisPointX: 10,
+          axisPointY: 0,
+          axisPointZ: 0,
+          count: 6,
+          totalAngle: 360,
+          skip: [3],
+        },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("circularPattern");
+      expect(feature.get("axis")).toEqual({ origin: [10, 0, 0], direction: [0, 0, 1] });
+      expect(feature.get("skip")).toEqual([3]);
+    });
+  });
+
+  describe("createMirrorImpl", () => {
+    it("mirrors across a planar face reference", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const face = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+      });
+      const result = modelingImpl.createMirrorImpl(
+        { featureIds: [extrude.featureId], planeRef: face, merge: false },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("mirror");
+      expect(feature.get("plane")).toEqual({ kind: "faceRef", ref: face });
+      expect(feature.get("merge")).toBe(false);
+    });
+
+    it("rejects a plane ID that is not a plane feature", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const result = modelingImpl.createMirrorImpl(
+        { featureIds: [extrude.featureId], planeRef: sketchId },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createTransformImpl", () => {
+    it("moves a body, storing only the non-zero components", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const result = modelingImpl.createTransformImpl(
+        { bodyIds: [extrude.featureId], rotateX: 90, translateZ: 12, pivotY: 3, copy: true },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("transform");
+      expect(feature.get("bodies")).toEqual([extrude.featureId]);
+      expect(feature.get("rotateX")).toBe(90);
+      expect(feature.get("rotateY")).toBeUndefined();
+      expect(feature.get("pivotY")).toBe(3);
+      expect(feature.get("translateZ")).toBe(12);
+      expect(feature.get("copy")).toBe(true);
+    });
+
+    it("rejects an unknown body", () => {
+      const result = modelingImpl.createTransformImpl(
+        { bodyIds: ["missing"], translateX: 1 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createSplitImpl", () => {
+    it("splits with a sketch, keeping one side", () => {
+      const sketchId = createTestSketch(doc);
+      const result = modelingImpl.createSplitImpl({ toolRef: sketchId, keep: "back" }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("split");
+      expect(feature.get("tool")).toEqual({ kind: "sketch", ref: sketchId });
+      expect(feature.get("keep")).toBe("back");
+    });
+
+    it("rejects an unknown plane", () => {
+      const result = modelingImpl.createSplitImpl({ toolRef: "missing" }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createOffsetFaceImpl and createThickenImpl", () => {
+    it("offsets and thickens faces", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const top = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+      });
+
+      const offset = modelingImpl.createOffsetFaceImpl(
+        { faceRefs: [top], distance: 2 },
+        { doc }
+      ) as { featureId: string; status: string };
+      const thicken = modelingImpl.createThickenImpl(
+        { faceRefs: [top], thickness: 1 },
+        { doc }
+      ) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(offset.status).toBe("ok");
+      expect(doc.featuresById.get(offset.featureId)!.get("distance")).toBe(2);
+      expect(thicken.status).toBe("ok");
+      expect(doc.featuresById.get(thicken.featureId)!.get("type")).toBe("thicken");
+    });
+
+    it("rejects a zero thickness", () => {
+      const result = modelingImpl.createThickenImpl(
+        { faceRefs: ["not-a-ref"], thickness: 0 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("sheet metal tools", () => {
+    it("creates a base flange, an edge flange and an unfold", () => {
+      const sketchId = createTestSketch(doc);
+      const base = modelingImpl.createBaseFlangeImpl(
+        { sketchId, thickness: 1.5, bendRadius: 1, kFactor: 0.4 },
+        { doc }
+      ) as { featureId: string; status: string };
+      const edge = encodePersistentRef({
+        v: 1,
+        expectedType: "edge",
+        originFeatureId: base.featureId,
+        localSelector: { kind: "extrude.topEdge", data: { loopId: "loop:abc", segmentId: "s1" } },
+      });
+      const flange = modelingImpl.createEdgeFlangeImpl(
+        { edgeRef: edge, angle: 45, length: 8 },
+        { doc }
+      ) as { featureId: string; status: string };
+      const unfold = modelingImpl.createUnfoldImpl({ baseFlangeId: base.featureId }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(base.status).toBe("ok");
+      expect(doc.featuresById.get(base.featureId)!.get("kFactor")).toBe(0.4);
+      expect(flange.status).toBe("ok");
+      expect(doc.featuresById.get(flange.featureId)!.get("angle")).toBe(45);
+      expect(unfold.status).toBe("ok");
+    });
+
+    it("rejects an unfold of a feature that is not a base flange", () => {
+      const sketchId = createTestSketch(doc);
+      const result = modelingImpl.createUnfoldImpl({ baseFlangeId: sketchId }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("delete and replace face tools", () => {
+    it("creates a delete face and a replace face onto a planar face", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const face = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+      });
+      const side = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.side", data: { loopId: "loop:abc", segmentId: "a" } },
+      });
+
+      const deleteFace = modelingImpl.createDeleteFaceImpl({ faceRefs: [side] }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+      const replaceFace = modelingImpl.createReplaceFaceImpl(
+        { faceRefs: [face], planeRef: side },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(deleteFace.status).toBe("ok");
+      expect(replaceFace.status).toBe("ok");
+      expect(doc.featuresById.get(replaceFace.featureId)!.get("plane")).toEqual({
+        kind: "faceRef",
+        ref: side,
+      });
+    });
+
+    it("rejects a replace face plane that is not a plane", () => {
+      const sketchId = createTestSketch(doc);
+      const face = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: sketchId,
+        localSelector: { kind: "face.unknown", data: {} },
+      });
+      const result = modelingImpl.createReplaceFaceImpl(
+        { faceRefs: [face], planeRef: sketchId },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("body tools", () => {
+    it("combines several tool bodies and deletes a body", () => {
+      const bodies = [5, 10, 15].map(
+        (distance) =>
+          (
+            modelingImpl.createExtrudeImpl(
+              { sketchId: createTestSketch(doc), distance },
+              { doc }
+            ) as {
+              featureId: string;
+            }
+          ).featureId
+      );
+
+      const combine = modelingImpl.createCombineImpl(
+        { operation: "subtract", targetBody: bodies[0], toolBodies: [bodies[1], bodies[2]] },
+        { doc }
+      ) as { featureId: string; status: string };
+      const deleteBody = modelingImpl.createDeleteBodyImpl({ bodies: [bodies[2]] }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(combine.status).toBe("ok");
+      const combineMap = doc.featuresById.get(combine.featureId)!;
+      expect(combineMap.get("tool")).toBe(bodies[1]);
+      expect(combineMap.get("tools")).toEqual([bodies[2]]);
+      expect(deleteBody.status).toBe("ok");
+      expect(doc.featuresById.get(deleteBody.featureId)!.get("bodies")).toEqual([bodies[2]]);
+    });
+
+    it("rejects a combine whose target is also a tool", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const result = modelingImpl.createCombineImpl(
+        { operation: "union", targetBody: extrude.featureId, toolBodies: [extrude.featureId] },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createDraftImpl", () => {
+    it("drafts faces about a neutral plane", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const face = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.side", data: { loopId: "loop:abc", segmentId: "a" } },
+      });
+      const bottom = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.bottomCap", data: { loopId: "loop:abc" } },
+      });
+      const result = modelingImpl.createDraftImpl(
+        {
+          faceRefs: [face],
+          angle: 2,
+          pullDirectionX: 0,
+          pullDirectionY: 0,
+          pullDirectionZ: 1,
+          neutralPlane: bottom,
+        },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("draft");
+      expect(feature.get("faces")).toEqual([face]);
+      expect(feature.get("angle")).toBe(2);
+      expect(feature.get("neutralPlane")).toEqual({ kind: "faceRef", ref: bottom });
+    });
+
+    it("rejects a zero pull direction", () => {
+      const sketchId = createTestSketch(doc);
+      const extrude = modelingImpl.createExtrudeImpl({ sketchId, distance: 5 }, { doc }) as {
+        featureId: string;
+      };
+      const face = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: extrude.featureId,
+        localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
+      });
+      const result = modelingImpl.createDraftImpl(
+        { faceRefs: [face], angle: 2, pullDirectionX: 0, pullDirectionY: 0, pullDirectionZ: 0 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
     });
   });
 });
@@ -448,10 +914,151 @@ describe("Helper Tools", () => {
     });
   });
 
+  describe("createHoleImpl", () => {
+    it("sketches the hole centres on the face and stores the thread", () => {
+      const result = modelingImpl.createHoleImpl(
+        {
+          faceRef: `face:${uuid()}:0`,
+          positions: [
+            { x: 5, y: 5 },
+            { x: -5, y: 5 },
+          ],
+          holeType: "countersink",
+          diameter: 4,
+          countersinkDiameter: 8,
+          depthValue: 10,
+          threadSize: "M5",
+          threadPitch: 0.8,
+        },
+        { doc }
+      ) as { sketchId: string; featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("hole");
+      expect(feature.get("sketch")).toBe(result.sketchId);
+      expect(feature.get("points")).toHaveLength(2);
+      expect(feature.get("depth")).toBe(10);
+      expect(feature.get("thread")).toEqual({ size: "M5", pitch: 0.8 });
+    });
+
+    it("drills through all without a depth", () => {
+      const sketchId = createTestSketch(doc);
+      const sketch = doc.featuresById.get(sketchId)!;
+      const pointIds = [addPointToSketch(sketch, 1, 2)];
+
+      const result = modelingImpl.createHoleImpl({ sketchId, pointIds, diameter: 3 }, { doc }) as {
+        featureId: string;
+        status: string;
+      };
+
+      expect(result.status).toBe("ok");
+      expect(doc.featuresById.get(result.featureId)!.get("extent")).toBe("throughAll");
+    });
+  });
+
+  describe("createRibImpl", () => {
+    it("creates a midplane rib along the sketch lines", () => {
+      const sketchId = createTestSketch(doc);
+      const sketch = doc.featuresById.get(sketchId)!;
+      const lineId = addLineToSketch(
+        sketch,
+        addPointToSketch(sketch, 0, 0),
+        addPointToSketch(sketch, 10, 10)
+      );
+
+      const result = modelingImpl.createRibImpl(
+        { sketchId, entityIds: [lineId], thickness: 2 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("rib");
+      expect(feature.get("entities")).toEqual([lineId]);
+      expect(feature.get("thickness")).toBe(2);
+      expect(feature.get("thicknessSide")).toBe("midplane");
+    });
+
+    it("rejects entities that are not in the sketch", () => {
+      const sketchId = createTestSketch(doc);
+
+      const result = modelingImpl.createRibImpl(
+        { sketchId, entityIds: [uuid()], thickness: 2 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
+  describe("createSphereImpl", () => {
+    // Primitives are placed on datum planes, which the minimal test document lacks
+    beforeEach(() => {
+      doc = createDocument();
+    });
+
+    it("places a sphere on the XY plane at the given centre", () => {
+      const result = modelingImpl.createSphereImpl(
+        { radius: 5, centerX: 10, centerZ: 3 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("sphere");
+      expect(feature.get("radius")).toBe(5);
+      expect(feature.get("plane")).toEqual({
+        kind: "planeFeatureId",
+        ref: doc.featureOrder.toArray()[1],
+      });
+      expect(feature.get("offsetX")).toBe(10);
+      expect(feature.get("offsetY")).toBeUndefined();
+      expect(feature.get("offsetZ")).toBe(3);
+      expect(feature.get("op")).toBe("add");
+    });
+  });
+
+  describe("createConeImpl", () => {
+    beforeEach(() => {
+      doc = createDocument();
+    });
+
+    it("creates a cone feature", () => {
+      const result = modelingImpl.createConeImpl(
+        { baseRadius: 5, topRadius: 0, height: 10, op: "cut" },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("ok");
+      const feature = doc.featuresById.get(result.featureId)!;
+      expect(feature.get("type")).toBe("cone");
+      expect(feature.get("radius")).toBe(5);
+      expect(feature.get("topRadius")).toBe(0);
+      expect(feature.get("op")).toBe("cut");
+    });
+
+    it("rejects equal radii", () => {
+      const result = modelingImpl.createConeImpl(
+        { baseRadius: 5, topRadius: 5, height: 10 },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
+    });
+  });
+
   describe("createShellImpl", () => {
     it("creates a shell feature", () => {
+      const openFace = encodePersistentRef({
+        v: 1,
+        expectedType: "face",
+        originFeatureId: uuid(),
+        localSelector: { kind: "extrude.topCap", data: { loopId: "loop:unknown" } },
+      });
+
       const result = modelingImpl.createShellImpl(
-        { thickness: 2, openFaces: ["face1"] },
+        { thickness: 2, openFaces: [openFace] },
         { doc }
       ) as { featureId: string; status: string };
 
@@ -459,6 +1066,16 @@ describe("Helper Tools", () => {
       const feature = doc.featuresById.get(result.featureId)!;
       expect(feature.get("type")).toBe("shell");
       expect(feature.get("thickness")).toBe(2);
+      expect(feature.get("openFaces")).toEqual([openFace]);
+    });
+
+    it("rejects open faces that are not face references", () => {
+      const result = modelingImpl.createShellImpl(
+        { thickness: 2, openFaces: ["face1"] },
+        { doc }
+      ) as { featureId: string; status: string };
+
+      expect(result.status).toBe("error");
     });
   });
 });
@@ -12,12 +12,14 @@ import {
   computeEdgeFingerprints,
   generateFaceRef,
   generateEdgeRef,
+  computeEdgeVertices,
+  generateVertexRef,
   buildBodyReferenceIndex,
   computeProfileLoops,
   type FaceFingerprint,
   type SketchInfo,
 } from "../../src/editor/kernel/referenceIndex";
-import { decodePersistentRef } from "../../src/editor/naming";
+import { decodePersistentRef, type PersistentRefV1 } from "../../src/editor/naming";
 
 // ============================================================================
 // Test Helpers
@@ -283,6 +285,478 @@ describe("generateFaceRef", () => {
     }
   });
 
+  test("generates loft refs from OCCT history", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 5],
+      size: 10,
+      normal: [1, 0, 0],
+    };
+    const occtHistory = {
+      bottomCapHash: 11,
+      topCapHash: 22,
+      sideFaceMappings: [{ profileEdgeIndex: 1, generatedFaceHash: 33 }],
+    };
+    const profileEdgeToEntityId = new Map([[1, "line-b"]]);
+
+    const kinds = [11, 22, 33].map((hash) => {
+      const decoded = decodePersistentRef(
+        generateFaceRef(
+          "loft-1",
+          "loft",
+          0,
+          fingerprint,
+          undefined,
+          occtHistory,
+          hash,
+          profileEdgeToEntityId
+        )
+      );
+      return decoded.ok ? decoded.ref.localSelector : null;
+    });
+
+    expect(kinds[0]?.kind).toBe("loft.startCap");
+    expect(kinds[1]?.kind).toBe("loft.endCap");
+    expect(kinds[2]).toEqual({ kind: "loft.side", data: { segmentId: "line-b" } });
+  });
+
+  test("keeps loft selectors for faces tracked through booleans", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 10],
+      size: 4,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [44, { sourceFeatureId: "loft-1", faceType: "topCap" as const, featureType: "loft" }],
+      ]),
+    };
+
+    const refString = generateFaceRef(
+      "extrude-2",
+      "extrude",
+      0,
+      fingerprint,
+      undefined,
+      occtHistory,
+      44
+    );
+
+    const decoded = decodePersistentRef(refString);
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("loft-1");
+      expect(decoded.ref.localSelector.kind).toBe("loft.endCap");
+    }
+  });
+
+  test("names revolve caps after the direction they end", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [3, 0, -3],
+      size: 4,
+      normal: [0, 0, -1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          61,
+          { sourceFeatureId: "revolve-1", faceType: "bottomCap" as const, featureType: "revolve" },
+        ],
+        [62, { sourceFeatureId: "revolve-1", faceType: "topCap" as const, featureType: "revolve" }],
+      ]),
+    };
+
+    const kinds = [61, 62].map((hash) => {
+      const decoded = decodePersistentRef(
+        generateFaceRef("revolve-1", "revolve", 0, fingerprint, undefined, occtHistory, hash)
+      );
+      return decoded.ok ? decoded.ref.localSelector.kind : undefined;
+    });
+    expect(kinds).toEqual(["revolve.startCap", "revolve.endCap"]);
+  });
+
+  test("names drafted faces after their place in the draft's face list", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [10, 5, 5],
+      size: 10,
+      normal: [0.98, 0, 0.17],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          71,
+          {
+            sourceFeatureId: "draft-1",
+            faceType: "unknown" as const,
+            featureType: "draft",
+            draftFace: 2,
+          },
+        ],
+      ]),
+    };
+
+    const decoded = decodePersistentRef(
+      generateFaceRef("extrude-1", "extrude", 3, fingerprint, undefined, occtHistory, 71)
+    );
+
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("draft-1");
+      expect(decoded.ref.localSelector).toEqual({ kind: "draft.face", data: { face: 2 } });
+    }
+  });
+
+  test("names hole faces after their role and sketch point", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [5, 5, 8],
+      size: 25,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          44,
+          {
+            sourceFeatureId: "hole-1",
+            entityId: "point-a",
+            faceType: "unknown" as const,
+            featureType: "hole",
+            holeFace: "counterboreFloor",
+          },
+        ],
+      ]),
+    };
+
+    const decoded = decodePersistentRef(
+      generateFaceRef("extrude-1", "extrude", 6, fingerprint, undefined, occtHistory, 44)
+    );
+
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("hole-1");
+      expect(decoded.ref.localSelector).toEqual({
+        kind: "hole.counterboreFloor",
+        data: { pointId: "point-a" },
+      });
+    }
+  });
+
+  test("names thread faces after their flank", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 4],
+      size: 60,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          51,
+          {
+            sourceFeatureId: "thread-1",
+            faceType: "unknown" as const,
+            featureType: "thread",
+            threadFlank: 1,
+          },
+        ],
+      ]),
+    };
+
+    const decoded = decodePersistentRef(
+      generateFaceRef("extrude-1", "extrude", 3, fingerprint, undefined, occtHistory, 51)
+    );
+
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("thread-1");
+      expect(decoded.ref.localSelector).toEqual({ kind: "thread.flank", data: { flank: 1 } });
+    }
+  });
+
+  test("names rib faces after their side or path segment", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [10, 10, 5],
+      size: 8,
+      normal: [1, 1, 0],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          61,
+          {
+            sourceFeatureId: "rib-1",
+            faceType: "unknown" as const,
+            featureType: "rib",
+            ribSide: 0,
+          },
+        ],
+        [
+          62,
+          {
+            sourceFeatureId: "rib-1",
+            faceType: "unknown" as const,
+            featureType: "rib",
+            entityId: "line-a",
+          },
+        ],
+      ]),
+    };
+
+    const side = decodePersistentRef(
+      generateFaceRef("extrude-1", "extrude", 4, fingerprint, undefined, occtHistory, 61)
+    );
+    const path = decodePersistentRef(
+      generateFaceRef("extrude-1", "extrude", 5, fingerprint, undefined, occtHistory, 62)
+    );
+
+    expect(side.ok && side.ref.localSelector).toEqual({ kind: "rib.side", data: { side: 0 } });
+    expect(path.ok && path.ref.localSelector).toEqual({
+      kind: "rib.face",
+      data: { segmentId: "line-a" },
+    });
+  });
+
+  test("names primitive faces after their index and name", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 10],
+      size: 100,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          71,
+          {
+            sourceFeatureId: "box-1",
+            faceType: "unknown" as const,
+            featureType: "box",
+            primitiveFace: { index: 1, name: "top" },
+          },
+        ],
+      ]),
+    };
+
+    const decoded = decodePersistentRef(
+      generateFaceRef("box-1", "box", 1, fingerprint, undefined, occtHistory, 71)
+    );
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("box-1");
+      expect(decoded.ref.localSelector).toEqual({
+        kind: "primitive.face",
+        data: { index: 1, name: "top" },
+      });
+    }
+  });
+
+  test("names split faces after their piece and cutting tool", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 2, 5],
+      size: 10,
+      normal: [0, -1, 0],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          71,
+          {
+            sourceFeatureId: "split-1",
+            faceType: "unknown" as const,
+            featureType: "split",
+            splitFace: { side: 1, tool: "line-a" },
+          },
+        ],
+      ]),
+    };
+
+    const face = decodePersistentRef(
+      generateFaceRef("split-1", "split", 3, fingerprint, undefined, occtHistory, 71)
+    );
+
+    expect(face.ok && face.ref.localSelector).toEqual({
+      kind: "split.face",
+      data: { side: 1, tool: "line-a" },
+    });
+  });
+
+  test("names offset and thickened faces after their place in the face list", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 12],
+      size: 10,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          71,
+          {
+            sourceFeatureId: "offset-1",
+            faceType: "unknown" as const,
+            featureType: "offsetFace",
+            offsetFace: 2,
+          },
+        ],
+        [
+          72,
+          {
+            sourceFeatureId: "thicken-1",
+            faceType: "unknown" as const,
+            featureType: "thicken",
+            thickenFace: { side: "offset", face: 0 },
+          },
+        ],
+      ]),
+    };
+
+    const moved = decodePersistentRef(
+      generateFaceRef("offset-1", "offsetFace", 1, fingerprint, undefined, occtHistory, 71)
+    );
+    const thickened = decodePersistentRef(
+      generateFaceRef("thicken-1", "thicken", 4, fingerprint, undefined, occtHistory, 72)
+    );
+
+    expect(moved.ok && moved.ref.localSelector).toEqual({
+      kind: "offsetFace.face",
+      data: { face: 2 },
+    });
+    expect(thickened.ok && thickened.ref.localSelector).toEqual({
+      kind: "thicken.face",
+      data: { side: "offset", face: 0 },
+    });
+  });
+
+  test("names edge flange faces by their role in the flange", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [20, 23, 8],
+      size: 10,
+      normal: [0, 1, 0],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          81,
+          {
+            sourceFeatureId: "flange-1",
+            faceType: "unknown" as const,
+            featureType: "edgeFlange",
+            sheetMetalFace: "wallOutside",
+          },
+        ],
+      ]),
+    };
+
+    const wall = decodePersistentRef(
+      generateFaceRef("base-1", "baseFlange", 6, fingerprint, undefined, occtHistory, 81)
+    );
+
+    expect(wall.ok && wall.ref.originFeatureId).toBe("flange-1");
+    expect(wall.ok && wall.ref.localSelector).toEqual({
+      kind: "edgeFlange.face",
+      data: { role: "wallOutside" },
+    });
+  });
+
+  test("names faces moved onto a replace face plane after the replace face", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [0, 0, 12],
+      size: 10,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          91,
+          {
+            sourceFeatureId: "replace-1",
+            faceType: "unknown" as const,
+            featureType: "replaceFace",
+            replacedFace: true,
+          },
+        ],
+      ]),
+    };
+
+    const face = decodePersistentRef(
+      generateFaceRef("import-1", "import", 2, fingerprint, undefined, occtHistory, 91)
+    );
+
+    expect(face.ok && face.ref.originFeatureId).toBe("replace-1");
+    expect(face.ok && face.ref.localSelector).toEqual({ kind: "replaceFace.face", data: {} });
+  });
+
+  test("names imported faces by fingerprint alone", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [5, 10, 30],
+      size: 200,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          17,
+          {
+            sourceFeatureId: "import-1",
+            faceType: "unknown" as const,
+            featureType: "import",
+            importedFace: true,
+          },
+        ],
+      ]),
+    };
+
+    const face = decodePersistentRef(
+      generateFaceRef("import-1", "import", 4, fingerprint, undefined, occtHistory, 17)
+    );
+
+    expect(face.ok && face.ref.originFeatureId).toBe("import-1");
+    expect(face.ok && face.ref.localSelector).toEqual({ kind: "import.face", data: {} });
+    expect(face.ok && face.ref.fingerprint).toEqual(fingerprint);
+  });
+
+  test("names pattern instance faces after their seed face and instance", () => {
+    const fingerprint: FaceFingerprint = {
+      centroid: [40, 0, 10],
+      size: 4,
+      normal: [0, 0, 1],
+    };
+    const occtHistory = {
+      sideFaceMappings: [],
+      faceHashToOrigin: new Map([
+        [
+          51,
+          {
+            sourceFeatureId: "pattern-1",
+            faceType: "topCap" as const,
+            instance: 2,
+            instanceOf: "extrude-1",
+          },
+        ],
+      ]),
+    };
+
+    const decoded = decodePersistentRef(
+      generateFaceRef("extrude-0", "extrude", 0, fingerprint, undefined, occtHistory, 51)
+    );
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.originFeatureId).toBe("pattern-1");
+      expect(decoded.ref.localSelector).toEqual({
+        kind: "extrude.topCap",
+        data: { loopId: "loop:unknown", instance: 2, instanceOf: "extrude-1" },
+      });
+    }
+  });
+
   test("generates face.unknown for unknown feature type", () => {
     const fingerprint: FaceFingerprint = {
       centroid: [0, 0, 0],
@@ -316,6 +790,171 @@ describe("generateEdgeRef", () => {
       expect(decoded.ref.localSelector.kind).toBe("extrude.edge");
     }
   });
+
+  describe("named by adjacent faces", () => {
+    const fingerprint = {
+      centroid: [0.5, 0, 0] as [number, number, number],
+      size: 1,
+    };
+    const face = (kind: string, data: Record<string, string>): PersistentRefV1 => ({
+      v: 1,
+      expectedType: "face",
+      originFeatureId: "extrude-1",
+      localSelector: { kind, data: { loopId: "loop:abc", ...data } },
+    });
+    const selectorOf = (refString: string) => {
+      const decoded = decodePersistentRef(refString);
+      return decoded.ok ? decoded.ref : null;
+    };
+
+    test("names cap/side edges after the side segment", () => {
+      const top = selectorOf(
+        generateEdgeRef("body-feature", "extrude", 3, fingerprint, undefined, [
+          face("extrude.topCap", {}),
+          face("extrude.side", { segmentId: "line-1" }),
+        ])
+      );
+      const bottom = selectorOf(
+        generateEdgeRef("body-feature", "extrude", 4, fingerprint, undefined, [
+          face("extrude.side", { segmentId: "line-1" }),
+          face("extrude.bottomCap", {}),
+        ])
+      );
+
+      expect(top?.originFeatureId).toBe("extrude-1");
+      expect(top?.localSelector).toEqual({
+        kind: "extrude.topEdge",
+        data: { loopId: "loop:abc", segmentId: "line-1" },
+      });
+      expect(bottom?.localSelector.kind).toBe("extrude.bottomEdge");
+    });
+
+    test("names side/side edges after both segments in sorted order", () => {
+      const ref = selectorOf(
+        generateEdgeRef("extrude-1", "extrude", 0, fingerprint, undefined, [
+          face("extrude.side", { segmentId: "line-b" }),
+          face("extrude.side", { segmentId: "line-a" }),
+        ])
+      );
+
+      expect(ref?.localSelector).toEqual({
+        kind: "extrude.sideEdge",
+        data: { loopId: "loop:abc", segmentIds: "line-a,line-b" },
+      });
+    });
+
+    test("falls back when the faces come from different features", () => {
+      const other: PersistentRefV1 = {
+        ...face("extrude.topCap", {}),
+        originFeatureId: "extrude-2",
+      };
+      const ref = selectorOf(
+        generateEdgeRef("extrude-1", "extrude", 7, fingerprint, undefined, [
+          other,
+          face("extrude.side", { segmentId: "line-1" }),
+        ])
+      );
+
+      expect(ref?.localSelector.kind).toBe("extrude.edge");
+    });
+
+    test("keeps the pattern instance of both faces", () => {
+      const instanceFace = (kind: string, data: Record<string, string>, instance: number) => {
+        const ref = face(kind, data);
+        return {
+          ...ref,
+          originFeatureId: "pattern-1",
+          localSelector: {
+            kind,
+            data: { ...ref.localSelector.data, instance, instanceOf: "extrude-1" },
+          },
+        };
+      };
+
+      const same = selectorOf(
+        generateEdgeRef("body-feature", "extrude", 2, fingerprint, undefined, [
+          instanceFace("extrude.topCap", {}, 3),
+          instanceFace("extrude.side", { segmentId: "line-1" }, 3),
+        ])
+      );
+      const mixed = selectorOf(
+        generateEdgeRef("body-feature", "extrude", 2, fingerprint, undefined, [
+          instanceFace("extrude.topCap", {}, 3),
+          instanceFace("extrude.side", { segmentId: "line-1" }, 4),
+        ])
+      );
+
+      expect(same?.originFeatureId).toBe("pattern-1");
+      expect(same?.localSelector).toEqual({
+        kind: "extrude.topEdge",
+        data: { loopId: "loop:abc", segmentId: "line-1", instance: 3, instanceOf: "extrude-1" },
+      });
+      expect(mixed?.localSelector.kind).toBe("extrude.edge");
+    });
+  });
+});
+
+// ============================================================================
+// Vertex Tests
+// ============================================================================
+
+describe("computeEdgeVertices", () => {
+  test("merges shared edge end points", () => {
+    const { edges, edgeMap } = createEdgeData();
+
+    const vertices = computeEdgeVertices(edges, edgeMap);
+
+    expect(vertices.map((v) => v.position)).toEqual([
+      [0, 0, 0],
+      [1, 0, 0],
+      [1, 1, 0],
+    ]);
+    expect(vertices[1].edgeIndices).toEqual([0, 1]);
+  });
+});
+
+describe("generateVertexRef", () => {
+  const edge = (kind: string, data: Record<string, string>): PersistentRefV1 => ({
+    v: 1,
+    expectedType: "edge",
+    originFeatureId: "extrude-1",
+    localSelector: { kind, data: { loopId: "loop:abc", ...data } },
+  });
+  const vertex = { position: [1, 0, 5] as [number, number, number], edgeIndices: [0, 1] };
+
+  test("names cap corners after the side edge", () => {
+    const decoded = decodePersistentRef(
+      generateVertexRef("body-feature", 0, vertex, [
+        edge("extrude.topEdge", { segmentId: "line-1" }),
+        edge("extrude.sideEdge", { segmentIds: "line-1,line-2" }),
+      ])
+    );
+
+    expect(decoded.ok).toBe(true);
+    if (decoded.ok) {
+      expect(decoded.ref.expectedType).toBe("vertex");
+      expect(decoded.ref.originFeatureId).toBe("extrude-1");
+      expect(decoded.ref.localSelector).toEqual({
+        kind: "extrude.topVertex",
+        data: { loopId: "loop:abc", segmentIds: "line-1,line-2" },
+      });
+      expect(decoded.ref.fingerprint?.centroid).toEqual([1, 0, 5]);
+    }
+  });
+
+  test("falls back to vertex.unknown without a side edge", () => {
+    const decoded = decodePersistentRef(
+      generateVertexRef("body-feature", 4, vertex, [
+        edge("extrude.topEdge", { segmentId: "line-1" }),
+        undefined,
+      ])
+    );
+
+    expect(decoded.ok && decoded.ref.localSelector).toEqual({
+      kind: "vertex.unknown",
+      data: { vertexIndex: 4 },
+    });
+  });
 });
 
 // ============================================================================
@@ -341,6 +980,7 @@ describe("buildBodyReferenceIndex", () => {
 
     expect(refIndex.faces).toHaveLength(2);
     expect(refIndex.edges).toHaveLength(2);
+    expect(refIndex.vertices).toHaveLength(3);
 
     // All refs should be valid PersistentRef strings
     for (const ref of refIndex.faces) {
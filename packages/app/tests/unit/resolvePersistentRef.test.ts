@@ -131,6 +131,30 @@ describe("resolvePersistentRef", () => {
     expect(result.status).toBe("ambiguous");
   });
 
+  test("prefers matching sketch entities over closer fingerprints", () => {
+    const edge = (segmentId: string, z: number) =>
+      encodePersistentRef(
+        createTestRef({
+          expectedType: "edge",
+          localSelector: { kind: "extrude.topEdge", data: { loopId: "loop:abc", segmentId } },
+          fingerprint: { centroid: [0, 5, z], size: 10 },
+        })
+      );
+
+    // Stored when the extrude was 10 deep; the body is now 40 deep
+    const stored = edge("line-1", 10);
+    const index: ReferenceIndex = {
+      body1: { faces: [], edges: [edge("line-2", 0), edge("line-1", 40)] },
+    };
+
+    const result = resolvePersistentRef(stored, index);
+
+    expect(result.status).toBe("found");
+    if (result.status === "found") {
+      expect(result.index).toBe(1);
+    }
+  });
+
   test("uses fingerprint for disambiguation", () => {
     // Two faces with same selector but different positions
     const ref1 = createTestRef({
@@ -157,6 +181,33 @@ describe("resolvePersistentRef", () => {
     }
   });
 
+  test("carries an imported face over to a revised file by fingerprint", () => {
+    const importFace = (centroid: [number, number, number], normal: [number, number, number]) =>
+      encodePersistentRef(
+        createTestRef({
+          originFeatureId: "import-1",
+          localSelector: { kind: "import.face", data: {} },
+          fingerprint: { centroid, size: 200, normal },
+        })
+      );
+
+    // Top face of a 30 high box; the next revision is 40 high and lists faces in another order
+    const stored = importFace([5, 10, 30], [0, 0, 1]);
+    const index = createTestIndex([
+      importFace([5, 10, 0], [0, 0, -1]),
+      importFace([5, 0, 20], [0, -1, 0]),
+      importFace([5, 10, 40], [0, 0, 1]),
+      importFace([5, 20, 20], [0, 1, 0]),
+    ]);
+
+    const result = resolvePersistentRef(stored, index);
+
+    expect(result.status).toBe("found");
+    if (result.status === "found") {
+      expect(result.index).toBe(2);
+    }
+  });
+
   test("handles PersistentRefSet with preferred", () => {
     const ref1 = createTestRef({
       localSelector: { kind: "extrude.topCap", data: { loopId: "loop:abc" } },
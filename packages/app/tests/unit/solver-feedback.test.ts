@@ -32,6 +32,7 @@ function createMockRebuildResult(sketchResults: Map<string, SketchSolveResult>):
     featureStatus: {},
     errors: [],
     sketchSolveResults: sketchResults,
+    holes: [],
   };
 }
 
@@ -6,7 +6,7 @@
  */
 
 import type { DatumPlane } from "../model/planes.js";
-import type { SketchProfile } from "../model/sketchProfile.js";
+import type { SketchProfile, SketchPath } from "../model/sketchProfile.js";
 import type {
   SketchPointId,
   SketchEntityId,
@@ -248,4 +248,13 @@ export class Sketch {
   toProfile(): SketchProfile | null {
     return this.sketchModel.toProfile();
   }
+
+  /**
+   * Convert to a SketchPath for use as a sweep path
+   *
+   * @param entityIds Optional specific entities to include (defaults to all non-construction)
+   */
+  toPath(entityIds?: SketchEntityId[]): SketchPath | null {
+    return this.sketchModel.toPath(entityIds);
+  }
 }
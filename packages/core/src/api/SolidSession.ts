@@ -6,15 +6,31 @@
  */
 
 import type { Vec3 } from "../num/vec3.js";
+import { cross3, dot3, length3, mul3, normalize3, sub3 } from "../num/vec3.js";
 import type { Vec2 } from "../num/vec2.js";
 import type { DatumPlane } from "../model/planes.js";
-import { createDatumPlaneFromNormal, XY_PLANE, YZ_PLANE, ZX_PLANE } from "../model/planes.js";
-import type { SketchProfile } from "../model/sketchProfile.js";
 import {
+  createDatumPlaneFromNormal,
+  createOffsetPlane,
+  XY_PLANE,
+  YZ_PLANE,
+  ZX_PLANE,
+} from "../model/planes.js";
+import type { SketchProfile, SketchPath, ThinWallSide, RibSide } from "../model/sketchProfile.js";
+import {
+  addLoopToProfile,
+  createEmptyProfile,
+  createRibRegion,
   createRectangleProfile,
   createCircleProfile,
   createPolygonProfile,
 } from "../model/sketchProfile.js";
+import {
+  createFlangeSection,
+  findOutlineEdge,
+  type SheetMetalParams,
+  type SheetMetalFlange,
+} from "../model/sheetMetal.js";
 import { Sketch } from "./Sketch.js";
 
 // Import kernel functions (internal - not exported from @solidtype/core)
@@ -24,25 +40,68 @@ import {
   makeBox,
   makeCylinder,
   makeSphere,
+  makePrimitive,
+  PRIMITIVE_FACE_NAMES,
   booleanOp,
   booleanOpWithHistory,
-  extrudeSymmetric,
+  translate,
+  rotate,
   extrudeWithHistory,
+  extrudeUpToWithHistory,
+  extrudeDraftedWithHistory,
+  joinExtrudeSides,
   revolveWithHistory,
+  sweepWithHistory,
+  loftWithHistory,
+  shellWithHistory,
+  filletEdgesWithHistory,
+  chamferEdgesWithHistory,
+  draftFacesWithHistory,
+  makeHoleTool,
+  makeCompound,
+  makeThreadTool,
+  makeRibTool,
+  splitWithHistory,
+  offsetFacesWithHistory,
+  deleteFacesWithHistory,
+  replaceFacesWithHistory,
+  thickenFacesWithHistory,
+  transformWithHistory,
   filletAllEdges,
   chamferAllEdges,
   tessellate,
   tessellateWithHashes,
   getBoundingBox,
   getFacePlane as kernelGetFacePlane,
+  getFaceCylinder as kernelGetFaceCylinder,
+  getEdgeLine as kernelGetEdgeLine,
+  getFaceHashes as kernelGetFaceHashes,
   sketchProfileToFace,
+  sketchPathToWire,
+  sketchProfileToWire,
   getPlaneNormal,
+  scale,
   exportSTEP,
+  exportSTEPAssembly,
   importSTEP,
+  exportIGES,
+  importIGES,
+  importBREP,
+  type ImportResult,
+  type StepSchema,
+  type StepLengthUnit,
+  type StepAssemblyOptions,
   type TessellationQuality,
   type TessellatedMeshWithHashes,
   type FacePlaneData,
+  type FaceCylinderData,
+  type EdgeLineData,
   type FaceHistoryMapping,
+  type ModifyWithHistoryResult,
+  type ExtrudeWithHistoryResult,
+  type HoleFaceRole,
+  type PrimitiveSpec,
+  type PrimitiveFaceName,
 } from "../kernel/index.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -94,11 +153,34 @@ export interface ModelingError {
 
 export type ExtrudeOperation = `add` | `cut` | `new`;
 
+/**
+ * Where an up-to extrude stops: a face of a body (by face index, as in
+ * Mesh.faceMap) or the first surface of a body it reaches. A positive offset
+ * stops short of the limit, a negative one runs past it.
+ */
+export type ExtrudeLimit =
+  | { kind: `face`; bodyId: BodyId; faceIndex: number; offset?: number }
+  | { kind: `body`; bodyId: BodyId; offset?: number };
+
+/**
+ * The second side of a two-sided extrude, extruded opposite the direction.
+ * Draft angles are in degrees; positive angles taper inward.
+ */
+export interface ExtrudeSide {
+  distance: number;
+  upTo?: ExtrudeLimit;
+  draftAngle?: number;
+}
+
 export interface ExtrudeOptions {
   operation: ExtrudeOperation;
   distance: number;
   direction?: [number, number, number]; // Default: profile plane normal
-  symmetric?: boolean; // Extrude both directions
+  symmetric?: boolean; // Extrude both directions, distance split evenly
+  upTo?: ExtrudeLimit; // Extrude up to a face or body instead of a distance
+  draftAngle?: number; // Taper of the side faces in degrees, positive inward
+  secondSide?: ExtrudeSide; // Also extrude opposite the direction
+  startOffset?: number; // Start this far from the profile plane, along the direction
   targetBody?: BodyId; // For add/cut operations
 }
 
@@ -106,6 +188,29 @@ export interface RevolveOptions {
   operation?: ExtrudeOperation;
   axis: { origin: [number, number, number]; direction: [number, number, number] };
   angleDegrees: number;
+  /** Split `angleDegrees` evenly either side of the sketch plane */
+  symmetric?: boolean;
+  /** Also revolve this far the other way from the sketch plane */
+  secondAngleDegrees?: number;
+  targetBody?: BodyId;
+}
+
+export interface SweepOptions {
+  operation?: ExtrudeOperation;
+  targetBody?: BodyId;
+}
+
+/** How a loft leaves its first or arrives at its last section */
+export type LoftTangency = `none` | `normal`;
+
+export interface LoftOptions {
+  operation?: ExtrudeOperation;
+  /** Straight faces between consecutive sections instead of one smooth surface */
+  ruled?: boolean;
+  /** Tangency at the first section (smooth lofts only) */
+  startTangency?: LoftTangency;
+  /** Tangency at the last section (smooth lofts only) */
+  endTangency?: LoftTangency;
   targetBody?: BodyId;
 }
 
@@ -164,6 +269,374 @@ export interface FilletOptions {
   edges?: EdgeId[]; // If omitted, fillet all edges
 }
 
+/** Edges rounded with one radius. Edge IDs are edge indices as in Mesh.edgeMap. */
+export interface FilletEdgeSet {
+  edges: EdgeId[];
+  radius: number;
+}
+
+/**
+ * Edges bevelled with one setback. Edge IDs are edge indices as in Mesh.edgeMap.
+ *
+ * Gives a symmetric chamfer by default, a two-distance chamfer with distance2,
+ * or a distance-angle chamfer with angleDegrees. Asymmetric setbacks are
+ * measured from the first face bounding each edge.
+ */
+export interface ChamferEdgeSet {
+  edges: EdgeId[];
+  distance: number;
+  distance2?: number;
+  angleDegrees?: number;
+}
+
+/** Which side of the original boundary a shell wall grows on */
+export type ShellDirection = `inside` | `outside`;
+
+export interface ShellOptions {
+  /** Wall thickness (positive) */
+  thickness: number;
+  /** Grow the wall into the solid (default) or around it */
+  direction?: ShellDirection;
+  /** Faces to remove, as face indices in Mesh.faceMap order. Omit for a closed shell. */
+  openFaces?: number[];
+}
+
+/**
+ * Options for drafting faces
+ */
+export interface DraftOptions {
+  /** Faces to taper, as face indices in Mesh.faceMap order */
+  faces: number[];
+  /** Draft angle in degrees; positive angles narrow the body along the pull direction */
+  angleDegrees: number;
+  /** Direction the part is pulled out of the mould */
+  pullDirection: Vec3;
+  /** Plane where the drafted faces keep their size */
+  neutralPlane: { origin: Vec3; normal: Vec3 };
+}
+
+/**
+ * A helix about an axis
+ */
+export interface HelixOptions {
+  /** Point on the axis where the helix starts */
+  origin: Vec3;
+  /** The helix rises along this direction */
+  axis: Vec3;
+  /** Rise per turn */
+  pitch: number;
+  /** Total rise along the axis */
+  height: number;
+  leftHanded?: boolean;
+  /** Half-angle of the cone the helix lies on; positive widens along the axis */
+  taperAngleDegrees?: number;
+}
+
+/**
+ * Options for cutting a modelled thread into a cylindrical face
+ */
+export interface ThreadOptions {
+  /** Cylindrical face to thread, as a face index in Mesh.faceMap order */
+  face: number;
+  /** Helix the thread follows, on the axis of the face; its radius is the face's */
+  helix: HelixOptions;
+  /** Radial depth (default: the ISO basic depth for the pitch) */
+  depth?: number;
+  /** Included flank angle (default 60) */
+  profileAngleDegrees?: number;
+}
+
+/**
+ * Result of a thread with history tracking.
+ */
+export interface ThreadHistoryResult extends ModifyHistoryResult {
+  /** Faces cut by each flank, the one facing the start of the helix first */
+  flankFaceHashes: [number[], number[]];
+}
+
+/**
+ * Options for adding a rib or web from an open sketch path
+ */
+export interface RibOptions {
+  /** Open chain of lines and arcs the rib grows from */
+  path: SketchPath;
+  /** Thickness across the sketch plane */
+  thickness: number;
+  /** Where the thickness lies: along the plane normal, against it, or split across it */
+  thicknessSide?: ThinWallSide;
+  /** Side of the path the rib fills (default: whichever side the body closes off) */
+  materialSide?: RibSide;
+}
+
+/**
+ * Result of a rib with history tracking.
+ */
+export interface RibHistoryResult extends ModifyHistoryResult {
+  /** Faces of the rib's flat sides: the one against the plane normal first */
+  sideFaceHashes: [number[], number[]];
+  /** Faces along each curve of the path, in path order */
+  pathFaceHashes: number[][];
+  /** Faces along the extensions of the path: before its start, after its end */
+  extensionFaceHashes: [number[], number[]];
+}
+
+/**
+ * What a split cuts a body with
+ *
+ * A path is swept along its sketch plane's normal right through the body;
+ * an open path is first extended from both ends along its end tangents.
+ */
+export type SplitTool =
+  | { kind: `plane`; origin: Vec3; normal: Vec3 }
+  | { kind: `path`; path: SketchPath };
+
+/**
+ * Side of a split tool. The front is the side a plane's normal points to,
+ * the left of an open path (looking down the sketch normal) or the inside of
+ * a closed one.
+ */
+export type SplitSide = `front` | `back`;
+
+/**
+ * Options for splitting a body
+ */
+export interface SplitOptions {
+  tool: SplitTool;
+  /** Pieces to keep (default: both sides) */
+  keep?: SplitSide | `both`;
+}
+
+/**
+ * One body left by a split, with history tracking
+ */
+export interface SplitPiece extends ModifyHistoryResult {
+  side: SplitSide;
+  /** Faces cut by the tool: one list per path curve, in path order, or one for a plane */
+  toolFaceHashes: number[][];
+  /** Faces cut by the extensions of an open path: before its start, after its end */
+  extensionFaceHashes: [number[], number[]];
+}
+
+/**
+ * Result of a split with history tracking
+ */
+export interface SplitHistoryResult {
+  /** Front pieces, then back pieces; each side ordered by position along x, then y, then z */
+  pieces: SplitPiece[];
+}
+
+/**
+ * Options for moving faces of a body
+ */
+export interface OffsetFacesOptions {
+  /** Faces to move, as face indices in Mesh.faceMap order */
+  faces: number[];
+  /** Distance along each face's outward normal; negative moves it into the body */
+  distance: number;
+}
+
+/**
+ * Result of moving faces with history tracking
+ */
+export interface OffsetFacesHistoryResult extends ModifyHistoryResult {
+  /** Each moved face in its new position, in the order the faces were given */
+  offsetFaceHashes: number[][];
+}
+
+/**
+ * Options for removing faces from a body
+ */
+export interface DeleteFacesOptions {
+  /** Faces to remove, as face indices in Mesh.faceMap order */
+  faces: number[];
+}
+
+/**
+ * Options for replacing faces of a body with a plane
+ */
+export interface ReplaceFacesOptions {
+  /** Planar faces to replace, as face indices in Mesh.faceMap order */
+  faces: number[];
+  /** Plane the faces are moved onto; it must not be perpendicular to any of them */
+  plane: { origin: Vec3; normal: Vec3 };
+}
+
+/**
+ * Result of replacing faces with history tracking
+ */
+export interface ReplaceFacesHistoryResult extends ModifyHistoryResult {
+  /** Faces of the new body lying on the replacement plane */
+  replacedFaceHashes: number[];
+}
+
+/**
+ * Options for growing faces of a body into a solid
+ */
+export interface ThickenOptions {
+  /** Faces to thicken, as face indices in Mesh.faceMap order */
+  faces: number[];
+  /** Thickness along each face's outward normal; negative grows into the body */
+  thickness: number;
+}
+
+/**
+ * Result of thickening faces with history tracking
+ */
+export interface ThickenHistoryResult {
+  bodyId: BodyId;
+  /** Each face where it started, in the order the faces were given */
+  startFaceHashes: number[][];
+  /** Each face's offset copy, in the order the faces were given */
+  offsetFaceHashes: number[][];
+  /** Walls joining the free edges of the faces to their copies */
+  sideFaceHashes: number[];
+}
+
+/**
+ * Options for bending a flange up from an edge of a sheet metal body
+ */
+export interface EdgeFlangeOptions {
+  /** A straight edge on the outline of the top or bottom face of the sheet */
+  edge: EdgeId;
+  /** The base flange profile the sheet was made from */
+  profile: SheetMetalProfile;
+  /** Bend angle in degrees, from flat (0 < angle < 180) */
+  angleDegrees: number;
+  /** Length of the straight wall beyond the bend */
+  length: number;
+  /** Inside bend radius, overriding the part's default */
+  bendRadius?: number;
+}
+
+/**
+ * A base flange profile with the settings the sheet was made with
+ */
+export interface SheetMetalProfile extends SheetMetalParams {
+  profile: SketchProfile;
+  /** The sheet was thickened against the profile plane normal */
+  reverse?: boolean;
+}
+
+/** A face of an edge flange */
+export type EdgeFlangeFace =
+  | `bendOutside`
+  | `wallOutside`
+  | `wallEnd`
+  | `wallInside`
+  | `bendInside`
+  | `start`
+  | `end`;
+
+/**
+ * Result of an edge flange with history tracking
+ */
+export interface EdgeFlangeHistoryResult extends ModifyHistoryResult {
+  /** The flange in profile coordinates, for the flat pattern */
+  flange: SheetMetalFlange;
+  /** Faces of the flange by the part they play */
+  flangeFaceHashes: Record<EdgeFlangeFace, number[]>;
+}
+
+/**
+ * Options for building the tool that cuts a set of identical holes
+ */
+export interface HoleOptions {
+  /** Centre of each hole on the face it starts from, with its bore depth */
+  holes: Array<{ origin: Vec3; depth: number }>;
+  /** Direction into the material, shared by every hole */
+  direction: Vec3;
+  diameter: number;
+  counterbore?: { diameter: number; depth: number };
+  /** Countersink with its included angle */
+  countersink?: { diameter: number; angleDegrees: number };
+  /** Included angle of a drill point at the bottom (omit for a flat bottom) */
+  tipAngleDegrees?: number;
+}
+
+/**
+ * Tool body for a set of holes, with the hole and role of each of its faces
+ */
+export interface HoleToolResult {
+  bodyId: BodyId;
+  faces: Array<{ hash: number; hole: number; role: HoleFaceRole }>;
+}
+
+/**
+ * Dimensions of a primitive solid. Boxes, cylinders and cones stand on their
+ * base at the placement origin; spheres and tori are centred on it.
+ */
+export type PrimitiveOptions = PrimitiveSpec;
+
+/**
+ * Where a primitive goes: its origin, its axis (the direction boxes,
+ * cylinders and cones rise along) and the direction of its width
+ */
+export interface PrimitivePlacement {
+  origin: Vec3;
+  axis: Vec3;
+  xDir: Vec3;
+}
+
+/**
+ * A primitive body, with the stable index and name of each of its faces
+ */
+export interface PrimitiveResult {
+  bodyId: BodyId;
+  faces: Array<{ hash: number; index: number; name: PrimitiveFaceName }>;
+}
+
+/** A rigid transform or reflection applied to a whole body */
+export type BodyTransform =
+  | { kind: `translate`; vector: Vec3 }
+  | { kind: `rotate`; origin: Vec3; axis: Vec3; angleDegrees: number }
+  | { kind: `mirror`; origin: Vec3; normal: Vec3 };
+
+/**
+ * Options for importing a body from a file
+ */
+export interface ImportOptions {
+  /** Uniform scale applied about the origin, e.g. to convert units (default 1) */
+  scale?: number;
+}
+
+// Re-export the STEP export types for consumers
+export type { StepSchema, StepLengthUnit };
+
+/**
+ * A body written as one product of a STEP assembly
+ */
+export interface StepExportProduct {
+  bodyId: BodyId;
+  name: string;
+  /** Hex color like "#6699cc" */
+  color?: string;
+}
+
+/**
+ * Options for exporting bodies to STEP as an assembly
+ */
+export type StepExportOptions = StepAssemblyOptions;
+
+/**
+ * Result of a shell, fillet, chamfer or transform with history tracking.
+ */
+export interface ModifyHistoryResult {
+  /** The resulting body ID */
+  bodyId: BodyId;
+  /** Maps faces of the input body to faces of the resulting body */
+  faceHistory: FaceHistoryMapping[];
+  /** Hashes of faces created by the operation (walls, rims, rounds, bevels) */
+  generatedFaceHashes: number[];
+}
+
+/**
+ * Result of a draft with history tracking.
+ */
+export interface DraftHistoryResult extends ModifyHistoryResult {
+  /** Face hashes each drafted face became, in the order of DraftOptions.faces */
+  draftedFaceHashes: number[][];
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // SolidSession Implementation
 // ─────────────────────────────────────────────────────────────────────────────
@@ -295,6 +768,52 @@ export class SolidSession {
     return id;
   }
 
+  /**
+   * Create a primitive solid at a placement
+   *
+   * Each face is named for its place on the primitive (`top`, `side`, ...),
+   * with an index that stays the same whatever the dimensions.
+   */
+  createPrimitive(
+    options: PrimitiveOptions,
+    placement: PrimitivePlacement = { origin: [0, 0, 0], axis: [0, 0, 1], xDir: [1, 0, 0] }
+  ): OperationResult<PrimitiveResult> {
+    this.ensureInitialized();
+
+    const axis = length3(placement.axis) < 1e-12 ? placement.axis : normalize3(placement.axis);
+    // Keep only the part of xDir square to the axis
+    const xDir = sub3(placement.xDir, mul3(axis, dot3(placement.xDir, axis)));
+    if (length3(axis) < 1e-12 || length3(xDir) < 1e-12) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Primitive axis and x direction must not be parallel` },
+      };
+    }
+
+    try {
+      const primitive = makePrimitive(options, {
+        origin: placement.origin,
+        normal: axis,
+        xDir: normalize3(xDir),
+      });
+      const names: readonly PrimitiveFaceName[] = PRIMITIVE_FACE_NAMES[options.kind];
+      const faces = [...primitive.faceNames].map(([hash, name]) => ({
+        hash,
+        index: names.indexOf(name),
+        name,
+      }));
+
+      const id = this.allocateBodyId();
+      this.bodies.set(id, primitive.shape);
+      return { success: true, value: { bodyId: id, faces } };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Primitive failed` },
+      };
+    }
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Sketches
   // ─────────────────────────────────────────────────────────────────────────────
@@ -387,30 +906,46 @@ export class SolidSession {
       // Get extrusion direction
       const direction = options.direction ?? getPlaneNormal(profile.plane);
 
-      // Create extruded solid with history tracking
-      let extrudedShape: Shape;
-      let history: OperationHistory | undefined;
-
-      if (options.symmetric) {
-        // Symmetric extrude doesn't have simple first/last shape semantics
-        extrudedShape = extrudeSymmetric(face, direction, options.distance);
-      } else {
-        // Use history-enabled extrude for Phase 8 persistent naming
-        const result = extrudeWithHistory(face, direction, options.distance);
-        extrudedShape = result.shape;
-
-        // Capture the history for later use in referenceIndex
-        history = {
-          bottomCapHash: result.firstShapeHash,
-          topCapHash: result.lastShapeHash,
-          sideFaceMappings: result.sideFaceMappings.map((m) => ({
-            profileEdgeHash: m.profileEdgeHash,
-            generatedFaceHash: m.generatedFaceHash,
-            profileEdgeIndex: m.profileEdgeIndex,
-          })),
-        };
+      // Move the profile to the start of the extrude
+      const start = options.startOffset
+        ? translate(
+            face,
+            direction[0] * options.startOffset,
+            direction[1] * options.startOffset,
+            direction[2] * options.startOffset
+          )
+        : face;
+
+      // Use history-enabled extrudes for Phase 8 persistent naming
+      const firstSide: ExtrudeSide = {
+        distance: options.symmetric ? options.distance / 2 : options.distance,
+        upTo: options.symmetric ? undefined : options.upTo,
+        draftAngle: options.draftAngle,
+      };
+      const secondSide = options.symmetric ? { ...firstSide } : options.secondSide;
+      let extruded: ExtrudeWithHistoryResult;
+      try {
+        extruded = secondSide
+          ? this.extrudeTwoSided(start, direction, firstSide, secondSide)
+          : this.extrudeSide(start, direction, firstSide);
+      } finally {
+        if (start !== face) {
+          start.dispose();
+        }
+        face.dispose();
       }
-      face.dispose();
+      const extrudedShape = extruded.shape;
+
+      // Capture the history for later use in referenceIndex
+      const history: OperationHistory = {
+        bottomCapHash: extruded.firstShapeHash,
+        topCapHash: extruded.lastShapeHash,
+        sideFaceMappings: extruded.sideFaceMappings.map((m) => ({
+          profileEdgeHash: m.profileEdgeHash,
+          generatedFaceHash: m.generatedFaceHash,
+          profileEdgeIndex: m.profileEdgeIndex,
+        })),
+      };
 
       // Handle operation type
       if (options.operation === `add` && options.targetBody !== undefined) {
@@ -469,9 +1004,7 @@ export class SolidSession {
         this.bodies.set(id, extrudedShape);
 
         // Store the operation history for this new body
-        if (history) {
-          this.operationHistory.set(id, history);
-        }
+        this.operationHistory.set(id, history);
 
         return { success: true, value: id };
       }
@@ -486,9 +1019,87 @@ export class SolidSession {
     }
   }
 
+  /**
+   * Extrude a profile face up to a face or body of this session.
+   */
+  /**
+   * Extrude one side of an extrude: a distance or up to a limit, with an
+   * optional draft.
+   */
+  private extrudeSide(
+    face: Shape,
+    direction: [number, number, number],
+    side: ExtrudeSide
+  ): ExtrudeWithHistoryResult {
+    if (side.upTo) {
+      if (side.draftAngle) {
+        throw new Error(`Draft is not supported for up-to extrudes`);
+      }
+      return this.extrudeUpTo(face, direction, side.upTo);
+    }
+    return extrudeDraftedWithHistory(face, direction, side.distance, side.draftAngle ?? 0);
+  }
+
+  /**
+   * Extrude both sides of the profile and join them.
+   *
+   * Plain distances on both sides are made as one prism from the far end of
+   * the second side, so the side faces stay whole.
+   */
+  private extrudeTwoSided(
+    face: Shape,
+    direction: [number, number, number],
+    first: ExtrudeSide,
+    second: ExtrudeSide
+  ): ExtrudeWithHistoryResult {
+    const opposite: [number, number, number] = [-direction[0], -direction[1], -direction[2]];
+
+    if (!first.upTo && !second.upTo && !first.draftAngle && !second.draftAngle) {
+      const base = translate(
+        face,
+        opposite[0] * second.distance,
+        opposite[1] * second.distance,
+        opposite[2] * second.distance
+      );
+      try {
+        return extrudeWithHistory(base, direction, first.distance + second.distance);
+      } finally {
+        base.dispose();
+      }
+    }
+
+    const firstResult = this.extrudeSide(face, direction, first);
+    try {
+      const secondResult = this.extrudeSide(face, opposite, second);
+      try {
+        return joinExtrudeSides(firstResult, secondResult);
+      } finally {
+        secondResult.shape.dispose();
+      }
+    } finally {
+      firstResult.shape.dispose();
+    }
+  }
+
+  private extrudeUpTo(face: Shape, direction: [number, number, number], upTo: ExtrudeLimit) {
+    const limitBody = this.bodies.get(upTo.bodyId);
+    if (!limitBody) {
+      throw new Error(`Body ${upTo.bodyId} not found`);
+    }
+    const limit =
+      upTo.kind === `face`
+        ? { kind: upTo.kind, shape: limitBody, faceIndex: upTo.faceIndex }
+        : { kind: upTo.kind, shape: limitBody };
+    return extrudeUpToWithHistory(face, direction, limit, upTo.offset ?? 0);
+  }
+
   /**
    * Revolve a sketch profile around an axis
    *
+   * Symmetric and two-direction revolves start from the far end of the second
+   * direction, so the start cap ends that direction and the end cap ends the
+   * first. Revolves totalling 360° or more are full revolutions.
+   *
    * This method now captures OCCT history for persistent naming (Phase 8).
    * Use getOperationHistory(bodyId) to retrieve the generated face mappings.
    */
@@ -496,16 +1107,25 @@ export class SolidSession {
     this.ensureInitialized();
 
     try {
-      // Convert profile to OCCT face
-      const face = sketchProfileToFace(profile);
+      const { origin, direction } = options.axis;
+      const backAngle = options.symmetric
+        ? options.angleDegrees / 2
+        : (options.secondAngleDegrees ?? 0);
+      const totalAngle = Math.min(
+        options.symmetric ? options.angleDegrees : options.angleDegrees + backAngle,
+        360
+      );
+
+      // Convert profile to OCCT face, turned back to where the second direction ends
+      let face = sketchProfileToFace(profile);
+      if (backAngle !== 0 && totalAngle < 360) {
+        const sketchFace = face;
+        face = rotate(sketchFace, origin, direction, -backAngle);
+        sketchFace.dispose();
+      }
 
       // Use history-enabled revolve for Phase 8 persistent naming
-      const revolveResult = revolveWithHistory(
-        face,
-        options.axis.origin,
-        options.axis.direction,
-        options.angleDegrees
-      );
+      const revolveResult = revolveWithHistory(face, origin, direction, totalAngle);
       const revolvedShape = revolveResult.shape;
 
       // Capture the history for later use in referenceIndex
@@ -590,32 +1210,287 @@ export class SolidSession {
     }
   }
 
-  // ─────────────────────────────────────────────────────────────────────────────
-  // Boolean operations
-  // ─────────────────────────────────────────────────────────────────────────────
-
   /**
-   * Union two bodies
+   * Sweep a sketch profile along a sketch path
+   *
+   * The profile is swept where it lies, so it should sit at the start of the path.
+   * Captures OCCT history like extrude: the start/end faces are recorded as the
+   * bottom/top caps.
    */
-  union(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
+  sweep(
+    profile: SketchProfile,
+    path: SketchPath,
+    options: SweepOptions = {}
+  ): OperationResult<BodyId> {
     this.ensureInitialized();
-    return this.performBoolean(bodyA, bodyB, `union`);
-  }
 
-  /**
-   * Subtract bodyB from bodyA
-   */
-  subtract(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
-    this.ensureInitialized();
-    return this.performBoolean(bodyA, bodyB, `subtract`);
-  }
+    if (path.curves.length === 0) {
+      return {
+        success: false,
+        error: { code: `INVALID_PROFILE`, message: `Sweep path has no curves` },
+      };
+    }
 
-  /**
-   * Intersect two bodies
-   */
-  intersect(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
-    this.ensureInitialized();
-    return this.performBoolean(bodyA, bodyB, `intersect`);
+    try {
+      const face = sketchProfileToFace(profile);
+      const spine = sketchPathToWire(path);
+
+      let sweepResult;
+      try {
+        sweepResult = sweepWithHistory(face, spine);
+      } finally {
+        face.dispose();
+        spine.dispose();
+      }
+
+      const history: OperationHistory = {
+        bottomCapHash: sweepResult.firstShapeHash,
+        topCapHash: sweepResult.lastShapeHash,
+        sideFaceMappings: sweepResult.sideFaceMappings.map((m) => ({
+          profileEdgeHash: m.profileEdgeHash,
+          generatedFaceHash: m.generatedFaceHash,
+          profileEdgeIndex: m.profileEdgeIndex,
+        })),
+      };
+
+      return this.applyOperation(
+        sweepResult.shape,
+        options.operation ?? `new`,
+        options.targetBody,
+        history
+      );
+    } catch (e) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: e instanceof Error ? e.message : `Unknown sweep error`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Loft a solid through an ordered list of sketch profiles
+   *
+   * Only the outer loop of each profile is used. Normal tangency is made by
+   * adding a copy of the end section a short way along its plane normal, which
+   * pulls the smooth surface square to the sketch plane. The caps are recorded
+   * as bottom/top caps and side faces are keyed by the first profile's edges.
+   */
+  loft(profiles: SketchProfile[], options: LoftOptions = {}): OperationResult<BodyId> {
+    this.ensureInitialized();
+
+    if (profiles.length < 2) {
+      return {
+        success: false,
+        error: { code: `INVALID_PROFILE`, message: `Loft needs at least two profiles` },
+      };
+    }
+    if (profiles.some((p) => p.loops.length !== 1)) {
+      return {
+        success: false,
+        error: {
+          code: `INVALID_PROFILE`,
+          message: `Loft profiles must have exactly one closed loop`,
+        },
+      };
+    }
+
+    try {
+      const sections = [...profiles];
+      if (!options.ruled) {
+        if (options.startTangency === `normal`) {
+          sections.splice(1, 0, this.loftTangentSection(profiles[0], profiles[1]));
+        }
+        if (options.endTangency === `normal`) {
+          const last = profiles[profiles.length - 1];
+          const tangent = this.loftTangentSection(last, profiles[profiles.length - 2]);
+          sections.splice(sections.length - 1, 0, tangent);
+        }
+      }
+
+      const wires = sections.map((p) => sketchProfileToWire(p));
+      let loftResult;
+      try {
+        loftResult = loftWithHistory(wires, options.ruled ?? false);
+      } finally {
+        for (const wire of wires) wire.dispose();
+      }
+
+      const history: OperationHistory = {
+        bottomCapHash: loftResult.firstShapeHash,
+        topCapHash: loftResult.lastShapeHash,
+        sideFaceMappings: loftResult.sideFaceMappings.map((m) => ({
+          profileEdgeHash: m.profileEdgeHash,
+          generatedFaceHash: m.generatedFaceHash,
+          profileEdgeIndex: m.profileEdgeIndex,
+        })),
+      };
+
+      return this.applyOperation(
+        loftResult.shape,
+        options.operation ?? `new`,
+        options.targetBody,
+        history
+      );
+    } catch (e) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: e instanceof Error ? e.message : `Unknown loft error`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Copy of an end section moved a fifth of the way towards its neighbour
+   * along the section's plane normal.
+   */
+  private loftTangentSection(section: SketchProfile, neighbour: SketchProfile): SketchProfile {
+    const { origin, normal } = section.plane.surface;
+    const gap = dot3(sub3(neighbour.plane.surface.origin, origin), normal);
+    if (Math.abs(gap) < 1e-9) {
+      throw new Error(`Tangent sections need profiles on distinct parallel planes`);
+    }
+    return { ...section, plane: createOffsetPlane(section.plane, gap * 0.2) };
+  }
+
+  /**
+   * Combine a newly built shape with a target body (add/cut) or store it as a
+   * new body. History is only kept for new bodies since booleans merge faces.
+   */
+  private applyOperation(
+    shape: Shape,
+    operation: ExtrudeOperation,
+    targetBody: BodyId | undefined,
+    history?: OperationHistory
+  ): OperationResult<BodyId> {
+    if (operation !== `new` && targetBody !== undefined) {
+      const target = this.bodies.get(targetBody);
+      if (!target) {
+        shape.dispose();
+        return {
+          success: false,
+          error: { code: `UNKNOWN`, message: `Body ${targetBody} not found` },
+        };
+      }
+
+      const result = booleanOp(target, shape, operation === `add` ? `union` : `subtract`);
+      target.dispose();
+      shape.dispose();
+
+      if (!result.success || !result.shape) {
+        return {
+          success: false,
+          error: {
+            code: `BOOLEAN_FAILED`,
+            message: result.error ?? (operation === `add` ? `Union failed` : `Cut failed`),
+          },
+        };
+      }
+
+      this.bodies.set(targetBody, result.shape);
+      return { success: true, value: targetBody };
+    }
+
+    const id = this.allocateBodyId();
+    this.bodies.set(id, shape);
+    if (history) {
+      this.operationHistory.set(id, history);
+    }
+    return { success: true, value: id };
+  }
+
+  /**
+   * Build the tool body that cuts a set of holes
+   *
+   * The tool is a new body holding one solid per hole; subtract it from the
+   * bodies the holes go into.
+   */
+  createHoleTool(options: HoleOptions): OperationResult<HoleToolResult> {
+    this.ensureInitialized();
+
+    if (options.holes.length === 0 || !(options.diameter > 0)) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Holes need positions and a positive diameter` },
+      };
+    }
+    if (options.holes.some((hole) => !(hole.depth > 0))) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Hole depth must be positive` },
+      };
+    }
+    if (length3(options.direction) < 1e-12) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Hole direction must not be zero` },
+      };
+    }
+
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const direction = normalize3(options.direction);
+
+    try {
+      const faces: HoleToolResult[`faces`] = [];
+      const tools = options.holes.map((hole, index) => {
+        const tool = makeHoleTool(hole.origin, direction, {
+          diameter: options.diameter,
+          depth: hole.depth,
+          counterbore: options.counterbore,
+          countersink: options.countersink && {
+            diameter: options.countersink.diameter,
+            angle: toRadians(options.countersink.angleDegrees),
+          },
+          tipAngle: options.tipAngleDegrees ? toRadians(options.tipAngleDegrees) : undefined,
+        });
+        for (const [hash, role] of tool.faceRoles) {
+          faces.push({ hash, hole: index, role });
+        }
+        return tool.shape;
+      });
+
+      const id = this.allocateBodyId();
+      this.bodies.set(id, tools.length === 1 ? tools[0] : makeCompound(tools));
+      return { success: true, value: { bodyId: id, faces } };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Hole failed` },
+      };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Boolean operations
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Union two bodies
+   */
+  union(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
+    this.ensureInitialized();
+    return this.performBoolean(bodyA, bodyB, `union`);
+  }
+
+  /**
+   * Subtract bodyB from bodyA
+   */
+  subtract(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
+    this.ensureInitialized();
+    return this.performBoolean(bodyA, bodyB, `subtract`);
+  }
+
+  /**
+   * Intersect two bodies
+   */
+  intersect(bodyA: BodyId, bodyB: BodyId): OperationResult<BodyId> {
+    this.ensureInitialized();
+    return this.performBoolean(bodyA, bodyB, `intersect`);
   }
 
   private performBoolean(
@@ -632,107 +1507,796 @@ export class SolidSession {
     if (!shapeB) {
       return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyB} not found` } };
     }
-
-    const result = booleanOp(shapeA, shapeB, op);
-
-    if (!result.success || !result.shape) {
+
+    const result = booleanOp(shapeA, shapeB, op);
+
+    if (!result.success || !result.shape) {
+      return {
+        success: false,
+        error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Boolean ${op} failed` },
+      };
+    }
+
+    // Create new body with result (original bodies are preserved)
+    const id = this.allocateBodyId();
+    this.bodies.set(id, result.shape);
+    return { success: true, value: id };
+  }
+
+  /**
+   * Union two bodies with history tracking.
+   * Returns face mappings showing what happened to each input face.
+   *
+   * @param bodyA - The base body
+   * @param bodyB - The tool body
+   * @returns Result with body ID and face history mappings
+   */
+  unionWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+    this.ensureInitialized();
+    return this.performBooleanWithHistory(bodyA, bodyB, `union`);
+  }
+
+  /**
+   * Subtract bodyB from bodyA with history tracking.
+   * Returns face mappings showing what happened to each input face.
+   *
+   * @param bodyA - The base body (to cut from)
+   * @param bodyB - The tool body (the cutter)
+   * @returns Result with body ID and face history mappings
+   */
+  subtractWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+    this.ensureInitialized();
+    return this.performBooleanWithHistory(bodyA, bodyB, `subtract`);
+  }
+
+  /**
+   * Intersect two bodies with history tracking.
+   * Returns face mappings showing what happened to each input face.
+   *
+   * @param bodyA - The base body
+   * @param bodyB - The tool body
+   * @returns Result with body ID and face history mappings
+   */
+  intersectWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+    this.ensureInitialized();
+    return this.performBooleanWithHistory(bodyA, bodyB, `intersect`);
+  }
+
+  private performBooleanWithHistory(
+    bodyA: BodyId,
+    bodyB: BodyId,
+    op: `union` | `subtract` | `intersect`
+  ): OperationResult<BooleanHistoryResult> {
+    const shapeA = this.bodies.get(bodyA);
+    const shapeB = this.bodies.get(bodyB);
+
+    if (!shapeA) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyA} not found` } };
+    }
+    if (!shapeB) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyB} not found` } };
+    }
+
+    const result = booleanOpWithHistory(shapeA, shapeB, op);
+
+    if (!result.success || !result.shape) {
+      return {
+        success: false,
+        error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Boolean ${op} failed` },
+      };
+    }
+
+    // Create new body with result (original bodies are preserved)
+    const id = this.allocateBodyId();
+    this.bodies.set(id, result.shape);
+
+    return {
+      success: true,
+      value: {
+        bodyId: id,
+        baseFaceHistory: result.baseFaceMap ?? [],
+        toolFaceHistory: result.toolFaceMap ?? [],
+      },
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Modification operations
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Apply fillet to the given edges of a body (all edges when omitted)
+   */
+  fillet(bodyId: BodyId, options: FilletOptions): OperationResult<void> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    try {
+      const filleted = options.edges
+        ? filletEdgesWithHistory(body, [{ edgeIndices: options.edges, radius: options.radius }])
+            .shape
+        : filletAllEdges(body, options.radius);
+      body.dispose();
+      this.bodies.set(bodyId, filleted);
+      return { success: true, value: undefined };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Fillet failed` },
+      };
+    }
+  }
+
+  /**
+   * Apply chamfer to the given edges of a body (all edges when omitted)
+   */
+  chamfer(bodyId: BodyId, distance: number, edges?: EdgeId[]): OperationResult<void> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    try {
+      const chamfered = edges
+        ? chamferEdgesWithHistory(body, [{ edgeIndices: edges, distance }]).shape
+        : chamferAllEdges(body, distance);
+      body.dispose();
+      this.bodies.set(bodyId, chamfered);
+      return { success: true, value: undefined };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Chamfer failed` },
+      };
+    }
+  }
+
+  /**
+   * Fillet sets of edges, each with its own radius
+   *
+   * The result is a new body; the original body is preserved.
+   */
+  filletEdges(bodyId: BodyId, edgeSets: FilletEdgeSet[]): OperationResult<ModifyHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    if (edgeSets.some((set) => set.edges.length === 0 || !(set.radius > 0))) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Fillet edge sets need edges and a positive radius` },
+      };
+    }
+
+    try {
+      const result = filletEdgesWithHistory(
+        body,
+        edgeSets.map((set) => ({ edgeIndices: set.edges, radius: set.radius }))
+      );
+      return { success: true, value: this.addModifiedBody(result) };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Fillet failed` },
+      };
+    }
+  }
+
+  /**
+   * Chamfer sets of edges, each with its own setback
+   *
+   * The result is a new body; the original body is preserved.
+   */
+  chamferEdges(bodyId: BodyId, edgeSets: ChamferEdgeSet[]): OperationResult<ModifyHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    for (const set of edgeSets) {
+      const angle = set.angleDegrees;
+      if (
+        set.edges.length === 0 ||
+        !(set.distance > 0) ||
+        (set.distance2 !== undefined && !(set.distance2 > 0)) ||
+        (angle !== undefined && !(angle > 0 && angle < 90))
+      ) {
+        return {
+          success: false,
+          error: { code: `UNKNOWN`, message: `Invalid chamfer edge set` },
+        };
+      }
+    }
+
+    try {
+      const result = chamferEdgesWithHistory(
+        body,
+        edgeSets.map((set) => ({
+          edgeIndices: set.edges,
+          distance: set.distance,
+          distance2: set.distance2,
+          angle: set.angleDegrees !== undefined ? (set.angleDegrees * Math.PI) / 180 : undefined,
+        }))
+      );
+      return { success: true, value: this.addModifiedBody(result) };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Chamfer failed` },
+      };
+    }
+  }
+
+  /**
+   * Hollow a body into a thin-walled shell
+   *
+   * The result is a new body; the original body is preserved. Open faces are
+   * removed from the shell, leaving openings into the hollow.
+   */
+  shell(bodyId: BodyId, options: ShellOptions): OperationResult<ModifyHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    if (!(options.thickness > 0)) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Shell thickness must be positive` },
+      };
+    }
+
+    try {
+      const offset = options.direction === `outside` ? options.thickness : -options.thickness;
+      const result = shellWithHistory(body, options.openFaces ?? [], offset);
+
+      return { success: true, value: this.addModifiedBody(result) };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Shell failed` },
+      };
+    }
+  }
+
+  /**
+   * Taper faces of a body by a draft angle
+   *
+   * The result is a new body; the original body is preserved. Drafted faces
+   * pivot about the neutral plane, leaning away from the pull direction.
+   */
+  draft(bodyId: BodyId, options: DraftOptions): OperationResult<DraftHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    const angle = options.angleDegrees;
+    if (options.faces.length === 0 || !(Math.abs(angle) > 0 && Math.abs(angle) < 90)) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: `Draft needs faces and an angle between 0 and 90 degrees`,
+        },
+      };
+    }
+    if (length3(options.pullDirection) < 1e-12 || length3(options.neutralPlane.normal) < 1e-12) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: `Draft pull direction and plane normal must not be zero`,
+        },
+      };
+    }
+
+    try {
+      const result = draftFacesWithHistory(
+        body,
+        options.faces,
+        normalize3(options.pullDirection),
+        {
+          origin: options.neutralPlane.origin,
+          normal: normalize3(options.neutralPlane.normal),
+        },
+        (angle * Math.PI) / 180
+      );
+      return {
+        success: true,
+        value: { ...this.addModifiedBody(result), draftedFaceHashes: result.draftedFaceHashes },
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Draft failed` },
+      };
+    }
+  }
+  /**
+   * Cut a modelled thread into a cylindrical face
+   *
+   * Shafts get an external thread cut inward; holes get an internal thread
+   * cut outward into the surrounding material.
+   */
+  thread(bodyId: BodyId, options: ThreadOptions): OperationResult<ThreadHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    const fail = (message: string): OperationResult<ThreadHistoryResult> => ({
+      success: false,
+      error: { code: `UNKNOWN`, message },
+    });
+
+    const cylinder = kernelGetFaceCylinder(body, options.face);
+    if (!cylinder) {
+      return fail(`Thread face is not cylindrical`);
+    }
+    const { helix } = options;
+    if (length3(helix.axis) < 1e-12) {
+      return fail(`Thread helix axis must not be zero`);
+    }
+    const axis = normalize3(helix.axis);
+    const offAxis = cross3(sub3(helix.origin, cylinder.origin), cylinder.axis);
+    if (length3(cross3(axis, cylinder.axis)) > 1e-6 || length3(offAxis) > 1e-6) {
+      return fail(`Thread helix is not on the axis of the face`);
+    }
+
+    // ISO basic thread depths: 17/24 H on a shaft, 5/8 H in a hole
+    const fundamentalHeight = (Math.sqrt(3) / 2) * helix.pitch;
+    const depth =
+      options.depth ??
+      (cylinder.internal ? (5 / 8) * fundamentalHeight : (17 / 24) * fundamentalHeight);
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+    try {
+      const tool = makeThreadTool(
+        {
+          origin: helix.origin,
+          axis,
+          radius: cylinder.radius,
+          pitch: helix.pitch,
+          height: helix.height,
+          leftHanded: helix.leftHanded,
+          taperAngle: toRadians(helix.taperAngleDegrees ?? 0),
+        },
+        {
+          depth,
+          angle: toRadians(options.profileAngleDegrees ?? 60),
+          internal: cylinder.internal,
+        }
+      );
+
+      const result = booleanOpWithHistory(body, tool.shape, `subtract`);
+      if (!result.success || !result.shape) {
+        return fail(result.error ?? `Thread cut failed`);
+      }
+
+      // Every face the tool leaves behind was cut by the thread
+      const toolFaces = new Map<number, number[]>();
+      for (const mapping of result.toolFaceMap ?? []) {
+        if (!mapping.isDeleted) {
+          toolFaces.set(mapping.inputHash, mapping.outputHashes);
+        }
+      }
+      const flankFaceHashes = tool.flankFaceHashes.map((hashes) =>
+        hashes.flatMap((hash) => toolFaces.get(hash) ?? [])
+      ) as [number[], number[]];
+
+      const id = this.allocateBodyId();
+      this.bodies.set(id, result.shape);
+      return {
+        success: true,
+        value: {
+          bodyId: id,
+          faceHistory: result.baseFaceMap ?? [],
+          generatedFaceHashes: [...toolFaces.values()].flat(),
+          flankFaceHashes,
+        },
+      };
+    } catch (e) {
+      return fail(e instanceof Error ? e.message : `Thread failed`);
+    }
+  }
+
+  /**
+   * Add a rib or web to a body from an open sketch path
+   *
+   * The path is extended along its end tangents until it meets the body, and
+   * the rib fills the space between the path and the body's faces on one side
+   * of it. The body must close that space off.
+   */
+  rib(bodyId: BodyId, options: RibOptions): OperationResult<RibHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+    if (!(options.thickness > 0)) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Rib thickness must be positive` },
+      };
+    }
+
+    const { path, thickness } = options;
+    const side = options.thicknessSide ?? `symmetric`;
+    const normal = getPlaneNormal(path.plane);
+    const near = side === `normal` ? 0 : side === `reverse` ? -thickness : -thickness / 2;
+
+    // Far enough for the region to cross the body from anywhere on the path
+    const box = getBoundingBox(body);
+    const center: Vec3 = [
+      (box.min[0] + box.max[0]) / 2,
+      (box.min[1] + box.max[1]) / 2,
+      (box.min[2] + box.max[2]) / 2,
+    ];
+    const reach =
+      2 * (length3(sub3(box.max, box.min)) + length3(sub3(path.plane.surface.origin, center))) +
+      thickness +
+      1;
+
+    // Region edges: the extension before the path, the path, the extension
+    // after it, then the two lines closing the region far out
+    const count = path.curves.length;
+    const pathEdges = Array.from({ length: count }, (_, i) => i + 1);
+    const farEdges = [count + 2, count + 3];
+
+    const build = (materialSide: RibSide) => {
+      const face = sketchProfileToFace(createRibRegion(path, reach, materialSide));
+      const start = translate(face, normal[0] * near, normal[1] * near, normal[2] * near);
+      face.dispose();
+      try {
+        return makeRibTool(body, start, normal, thickness, pathEdges, farEdges);
+      } finally {
+        start.dispose();
+      }
+    };
+
+    try {
+      let tool: ReturnType<typeof makeRibTool>;
+      if (options.materialSide) {
+        tool = build(options.materialSide);
+      } else {
+        // Use the side the body closes off, the smaller one if it closes both
+        const tools: ReturnType<typeof makeRibTool>[] = [];
+        let lastError: unknown;
+        for (const materialSide of [`left`, `right`] as const) {
+          try {
+            tools.push(build(materialSide));
+          } catch (e) {
+            lastError = e;
+          }
+        }
+        if (tools.length === 0) {
+          throw lastError;
+        }
+        const size = (shape: Shape) => {
+          const b = getBoundingBox(shape);
+          return length3(sub3(b.max, b.min));
+        };
+        tools.sort((a, b) => size(a.shape) - size(b.shape));
+        tools.slice(1).forEach((other) => other.shape.dispose());
+        tool = tools[0];
+      }
+
+      const result = booleanOpWithHistory(body, tool.shape, `union`);
+      tool.shape.dispose();
+      if (!result.success || !result.shape) {
+        return {
+          success: false,
+          error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Rib union failed` },
+        };
+      }
+
+      const toolFaces = new Map<number, number[]>();
+      for (const mapping of result.toolFaceMap ?? []) {
+        if (!mapping.isDeleted) {
+          toolFaces.set(mapping.inputHash, mapping.outputHashes);
+        }
+      }
+      const image = (hashes: number[]) => hashes.flatMap((hash) => toolFaces.get(hash) ?? []);
+
+      const edgeFaces = (edge: number) => image(tool.edgeFaceHashes[edge] ?? []);
+
+      const id = this.allocateBodyId();
+      this.bodies.set(id, result.shape);
+      return {
+        success: true,
+        value: {
+          bodyId: id,
+          faceHistory: result.baseFaceMap ?? [],
+          generatedFaceHashes: [...toolFaces.values()].flat(),
+          sideFaceHashes: tool.sideFaceHashes.map(image) as [number[], number[]],
+          pathFaceHashes: path.curves.map((_, i) => edgeFaces(i + 1)),
+          extensionFaceHashes: [edgeFaces(0), edgeFaces(count + 1)],
+        },
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Rib failed` },
+      };
+    }
+  }
+
+  /**
+   * Split a body into separate bodies on either side of a plane or sketch path
+   *
+   * Every solid piece on a kept side becomes a new body; the original body is
+   * preserved. Fails unless the tool leaves material on both sides.
+   */
+  split(bodyId: BodyId, options: SplitOptions): OperationResult<SplitHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+
+    const { tool } = options;
+    const keep = options.keep ?? `both`;
+    let region: ReturnType<typeof extrudeWithHistory> | undefined;
+    try {
+      // Far enough for the region to cover the body from anywhere on the tool
+      const box = getBoundingBox(body);
+      const center: Vec3 = [
+        (box.min[0] + box.max[0]) / 2,
+        (box.min[1] + box.max[1]) / 2,
+        (box.min[2] + box.max[2]) / 2,
+      ];
+      const toolOrigin = tool.kind === `plane` ? tool.origin : tool.path.plane.surface.origin;
+      const reach = 2 * (length3(sub3(box.max, box.min)) + length3(sub3(toolOrigin, center))) + 1;
+
+      // The region is a solid covering the front of the tool
+      let toolFaces: number[][];
+      let extensionFaces: [number[], number[]] = [[], []];
+      if (tool.kind === `plane`) {
+        const normal = normalize3(tool.normal);
+        const onPlane = sub3(center, mul3(normal, dot3(sub3(center, tool.origin), normal)));
+        const plane = createDatumPlaneFromNormal(`split`, onPlane, normal);
+        const face = sketchProfileToFace(
+          createPolygonProfile(plane, [
+            [-reach, -reach],
+            [reach, -reach],
+            [reach, reach],
+            [-reach, reach],
+          ])
+        );
+        region = extrudeWithHistory(face, normal, reach);
+        face.dispose();
+        toolFaces = [region.firstShapeHash === undefined ? [] : [region.firstShapeHash]];
+      } else {
+        const { path } = tool;
+        const normal = getPlaneNormal(path.plane);
+        let profile: SketchProfile;
+        if (path.closed) {
+          profile = createEmptyProfile(path.plane);
+          addLoopToProfile(profile, path.curves, true);
+        } else {
+          profile = createRibRegion(path, reach, `left`);
+        }
+        const face = sketchProfileToFace(profile);
+        const start = translate(face, -normal[0] * reach, -normal[1] * reach, -normal[2] * reach);
+        face.dispose();
+        region = extrudeWithHistory(start, normal, 2 * reach);
+        start.dispose();
+
+        // Open path regions run: the extension before the path, the path, the extension after it
+        const sides = region.sideFaceMappings;
+        const edgeFaces = (edge: number) =>
+          sides.filter((m) => m.profileEdgeIndex === edge).map((m) => m.generatedFaceHash);
+        const first = path.closed ? 0 : 1;
+        toolFaces = path.curves.map((_, i) => edgeFaces(i + first));
+        if (!path.closed) {
+          extensionFaces = [edgeFaces(0), edgeFaces(path.curves.length + 1)];
+        }
+      }
+
+      const pieces = splitWithHistory(body, region.shape);
+      if (!pieces.some((p) => p.side === 0) || !pieces.some((p) => p.side === 1)) {
+        pieces.forEach((p) => p.shape.dispose());
+        throw new Error(`Split tool does not cut the body`);
+      }
+
+      const result: SplitPiece[] = [];
+      for (const piece of pieces) {
+        const side: SplitSide = piece.side === 0 ? `front` : `back`;
+        if (keep !== `both` && keep !== side) {
+          piece.shape.dispose();
+          continue;
+        }
+        const image = (hashes: number[]) =>
+          hashes.flatMap((hash) => piece.regionFaceHashes.get(hash) ?? []);
+        result.push({
+          ...this.addModifiedBody(piece),
+          side,
+          toolFaceHashes: toolFaces.map(image),
+          extensionFaceHashes: extensionFaces.map(image) as [number[], number[]],
+        });
+      }
+      return { success: true, value: { pieces: result } };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Split failed` },
+      };
+    } finally {
+      region?.shape.dispose();
+    }
+  }
+
+  /**
+   * Move faces of a body along their normals
+   *
+   * Material is added between each face and its new position, or cut away
+   * when the distance is negative. The original body is preserved.
+   */
+  offsetFaces(
+    bodyId: BodyId,
+    options: OffsetFacesOptions
+  ): OperationResult<OffsetFacesHistoryResult> {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+    if (options.faces.length === 0 || options.distance === 0) {
       return {
         success: false,
-        error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Boolean ${op} failed` },
+        error: { code: `UNKNOWN`, message: `Offset needs faces and a non-zero distance` },
       };
     }
 
-    // Create new body with result (original bodies are preserved)
-    const id = this.allocateBodyId();
-    this.bodies.set(id, result.shape);
-    return { success: true, value: id };
+    try {
+      const result = offsetFacesWithHistory(body, options.faces, options.distance);
+      return {
+        success: true,
+        value: { ...this.addModifiedBody(result), offsetFaceHashes: result.offsetFaceHashes },
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Offset failed` },
+      };
+    }
   }
 
   /**
-   * Union two bodies with history tracking.
-   * Returns face mappings showing what happened to each input face.
+   * Remove faces from a body and heal the gap
    *
-   * @param bodyA - The base body
-   * @param bodyB - The tool body
-   * @returns Result with body ID and face history mappings
+   * The neighbouring faces are extended to close the body again, which takes
+   * fillets, chamfers, holes or bosses off bodies with no feature history,
+   * such as imported ones. The result is a new body; the original body is
+   * preserved.
    */
-  unionWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+  deleteFaces(bodyId: BodyId, options: DeleteFacesOptions): OperationResult<ModifyHistoryResult> {
     this.ensureInitialized();
-    return this.performBooleanWithHistory(bodyA, bodyB, `union`);
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+    if (options.faces.length === 0) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Delete face needs at least one face` },
+      };
+    }
+
+    try {
+      return {
+        success: true,
+        value: this.addModifiedBody(deleteFacesWithHistory(body, options.faces)),
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Delete face failed` },
+      };
+    }
   }
 
   /**
-   * Subtract bodyB from bodyA with history tracking.
-   * Returns face mappings showing what happened to each input face.
+   * Replace planar faces of a body with a plane
    *
-   * @param bodyA - The base body (to cut from)
-   * @param bodyB - The tool body (the cutter)
-   * @returns Result with body ID and face history mappings
+   * The walls around each face are extended or trimmed to meet the plane.
+   * The result is a new body; the original body is preserved.
    */
-  subtractWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+  replaceFaces(
+    bodyId: BodyId,
+    options: ReplaceFacesOptions
+  ): OperationResult<ReplaceFacesHistoryResult> {
     this.ensureInitialized();
-    return this.performBooleanWithHistory(bodyA, bodyB, `subtract`);
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
+    }
+    if (options.faces.length === 0) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Replace face needs at least one face` },
+      };
+    }
+
+    try {
+      const result = replaceFacesWithHistory(body, options.faces, options.plane);
+      return {
+        success: true,
+        value: { ...this.addModifiedBody(result), replacedFaceHashes: result.replacedFaceHashes },
+      };
+    } catch (e) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Replace face failed` },
+      };
+    }
   }
 
   /**
-   * Intersect two bodies with history tracking.
-   * Returns face mappings showing what happened to each input face.
+   * Grow faces of a body into a new solid body
    *
-   * @param bodyA - The base body
-   * @param bodyB - The tool body
-   * @returns Result with body ID and face history mappings
+   * Faces that share edges are thickened together; separate groups of faces
+   * give a body of several solids. The original body is preserved.
    */
-  intersectWithHistory(bodyA: BodyId, bodyB: BodyId): OperationResult<BooleanHistoryResult> {
+  thicken(bodyId: BodyId, options: ThickenOptions): OperationResult<ThickenHistoryResult> {
     this.ensureInitialized();
-    return this.performBooleanWithHistory(bodyA, bodyB, `intersect`);
-  }
-
-  private performBooleanWithHistory(
-    bodyA: BodyId,
-    bodyB: BodyId,
-    op: `union` | `subtract` | `intersect`
-  ): OperationResult<BooleanHistoryResult> {
-    const shapeA = this.bodies.get(bodyA);
-    const shapeB = this.bodies.get(bodyB);
 
-    if (!shapeA) {
-      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyA} not found` } };
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
     }
-    if (!shapeB) {
-      return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyB} not found` } };
+    if (options.faces.length === 0 || options.thickness === 0) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Thicken needs faces and a non-zero thickness` },
+      };
     }
 
-    const result = booleanOpWithHistory(shapeA, shapeB, op);
-
-    if (!result.success || !result.shape) {
+    try {
+      const { shape, ...faces } = thickenFacesWithHistory(body, options.faces, options.thickness);
+      const id = this.allocateBodyId();
+      this.bodies.set(id, shape);
+      return { success: true, value: { bodyId: id, ...faces } };
+    } catch (e) {
       return {
         success: false,
-        error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Boolean ${op} failed` },
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Thicken failed` },
       };
     }
-
-    // Create new body with result (original bodies are preserved)
-    const id = this.allocateBodyId();
-    this.bodies.set(id, result.shape);
-
-    return {
-      success: true,
-      value: {
-        bodyId: id,
-        baseFaceHistory: result.baseFaceMap ?? [],
-        toolFaceHistory: result.toolFaceMap ?? [],
-      },
-    };
   }
 
-  // ─────────────────────────────────────────────────────────────────────────────
-  // Modification operations
-  // ─────────────────────────────────────────────────────────────────────────────
-
   /**
-   * Apply fillet to all edges of a body
+   * Bend a flange up from a straight edge of a sheet metal body
+   *
+   * The edge must run along the outline of the base flange profile on the
+   * top or bottom face of the sheet; the flange bends toward that face's side
+   * with the inside of the bend tangent to it. The result is a new body; the
+   * original body is preserved.
    */
-  fillet(bodyId: BodyId, options: FilletOptions): OperationResult<void> {
+  edgeFlange(bodyId: BodyId, options: EdgeFlangeOptions): OperationResult<EdgeFlangeHistoryResult> {
     this.ensureInitialized();
 
     const body = this.bodies.get(bodyId);
@@ -740,24 +2304,157 @@ export class SolidSession {
       return { success: false, error: { code: `UNKNOWN`, message: `Body ${bodyId} not found` } };
     }
 
+    const { profile, thickness, reverse } = options.profile;
+    const bendRadius = options.bendRadius ?? options.profile.bendRadius;
+    if (
+      !(options.angleDegrees > 0 && options.angleDegrees < 180) ||
+      !(options.length > 0) ||
+      !(bendRadius > 0)
+    ) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: `Edge flange needs an angle between 0 and 180, and a positive length and bend radius`,
+        },
+      };
+    }
+
+    const line = kernelGetEdgeLine(body, options.edge);
+    if (!line) {
+      return {
+        success: false,
+        error: { code: `UNKNOWN`, message: `Edge flange needs a straight edge` },
+      };
+    }
+
+    // Place the edge on the sheet: in the profile plane, and on which face
+    const { origin, normal, xDir, yDir } = profile.plane.surface;
+    const toProfile = (p: Vec3): Vec2 => [dot3(sub3(p, origin), xDir), dot3(sub3(p, origin), yDir)];
+    const heights = [line.start, line.end].map((p) => dot3(sub3(p, origin), normal));
+    const far = reverse ? -thickness : thickness;
+    const tolerance = 1e-6 * Math.max(1, thickness);
+    const onFace = (height: number) => heights.every((h) => Math.abs(h - height) < tolerance);
+    if (!onFace(0) && !onFace(far)) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: `Edge flange edge must be on the top or bottom face of the sheet`,
+        },
+      };
+    }
+    // The flange bends out of the face the edge is on
+    const up = onFace(far) ? !reverse : !!reverse;
+
+    const start = toProfile(line.start);
+    const end = toProfile(line.end);
+    const outline = findOutlineEdge(profile, start, end);
+    if (!outline) {
+      return {
+        success: false,
+        error: {
+          code: `UNKNOWN`,
+          message: `Edge flange edge must be a straight edge of the base flange outline`,
+        },
+      };
+    }
+
+    const edgeVector = sub3(line.end, line.start);
+    const edgeLength = length3(edgeVector);
+    const along = normalize3(edgeVector);
+    const outward = normalize3([
+      xDir[0] * outline.outward[0] + yDir[0] * outline.outward[1],
+      xDir[1] * outline.outward[0] + yDir[1] * outline.outward[1],
+      xDir[2] * outline.outward[0] + yDir[2] * outline.outward[1],
+    ]);
+    const bendTo = up ? normal : mul3(normal, -1);
+
+    // Section across the edge, swept along it. The section's y axis runs
+    // toward the bend or away from it depending on the edge's direction.
+    const plane = createDatumPlaneFromNormal(`flange`, line.start, along, outward);
+    const flip = dot3(plane.surface.yDir, bendTo) < 0;
+    const section = createFlangeSection(
+      thickness,
+      bendRadius,
+      options.angleDegrees,
+      options.length,
+      flip
+    );
+    const sectionProfile = createEmptyProfile(plane);
+    addLoopToProfile(sectionProfile, section, true);
+
     try {
-      // TODO: Support specific edges when options.edges is provided
-      const filleted = filletAllEdges(body, options.radius);
-      body.dispose();
-      this.bodies.set(bodyId, filleted);
-      return { success: true, value: undefined };
+      const face = sketchProfileToFace(sectionProfile);
+      const tool = extrudeWithHistory(face, along, edgeLength);
+      face.dispose();
+
+      const result = booleanOpWithHistory(body, tool.shape, `union`);
+      tool.shape.dispose();
+      if (!result.success || !result.shape) {
+        return {
+          success: false,
+          error: { code: `BOOLEAN_FAILED`, message: result.error ?? `Edge flange failed` },
+        };
+      }
+
+      const toolFaces = new Map<number, number[]>();
+      for (const mapping of result.toolFaceMap ?? []) {
+        if (!mapping.isDeleted) {
+          toolFaces.set(mapping.inputHash, mapping.outputHashes);
+        }
+      }
+      const image = (hash: number | undefined) =>
+        hash === undefined ? [] : (toolFaces.get(hash) ?? []);
+      const sideFace = (edge: number) =>
+        image(tool.sideFaceMappings.find((m) => m.profileEdgeIndex === edge)?.generatedFaceHash);
+
+      const id = this.allocateBodyId();
+      this.bodies.set(id, result.shape);
+      return {
+        success: true,
+        value: {
+          bodyId: id,
+          faceHistory: result.baseFaceMap ?? [],
+          generatedFaceHashes: [...toolFaces.values()].flat(),
+          flange: {
+            start,
+            end,
+            angleDegrees: options.angleDegrees,
+            length: options.length,
+            up,
+            bendRadius,
+          },
+          flangeFaceHashes: {
+            bendOutside: sideFace(1),
+            wallOutside: sideFace(2),
+            wallEnd: sideFace(3),
+            wallInside: sideFace(4),
+            bendInside: sideFace(5),
+            start: image(tool.firstShapeHash),
+            end: image(tool.lastShapeHash),
+          },
+        },
+      };
     } catch (e) {
       return {
         success: false,
-        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Fillet failed` },
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Edge flange failed` },
       };
     }
   }
 
   /**
-   * Apply chamfer to all edges of a body
+   * Copy a body under a rigid transform or reflection
+   *
+   * A list of transforms is applied in order. The result is a new body; the
+   * original body is preserved. Every face of the original maps to one face
+   * of the copy in the face history.
    */
-  chamfer(bodyId: BodyId, distance: number, _edges?: EdgeId[]): OperationResult<void> {
+  transformBody(
+    bodyId: BodyId,
+    transform: BodyTransform | BodyTransform[]
+  ): OperationResult<ModifyHistoryResult> {
     this.ensureInitialized();
 
     const body = this.bodies.get(bodyId);
@@ -766,19 +2463,29 @@ export class SolidSession {
     }
 
     try {
-      // TODO: Support specific edges
-      const chamfered = chamferAllEdges(body, distance);
-      body.dispose();
-      this.bodies.set(bodyId, chamfered);
-      return { success: true, value: undefined };
+      const result = transformWithHistory(body, transform);
+      return { success: true, value: this.addModifiedBody(result) };
     } catch (e) {
       return {
         success: false,
-        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Chamfer failed` },
+        error: { code: `UNKNOWN`, message: e instanceof Error ? e.message : `Transform failed` },
       };
     }
   }
 
+  /**
+   * Store the result of a shell/fillet/chamfer/draft/transform/split as a new body
+   */
+  private addModifiedBody(result: ModifyWithHistoryResult): ModifyHistoryResult {
+    const id = this.allocateBodyId();
+    this.bodies.set(id, result.shape);
+    return {
+      bodyId: id,
+      faceHistory: result.faceHistory,
+      generatedFaceHashes: result.generatedFaceHashes,
+    };
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Query operations
   // ─────────────────────────────────────────────────────────────────────────────
@@ -816,14 +2523,14 @@ export class SolidSession {
    *
    * This extended version returns hash codes that can be matched with
    * getOperationHistory() to determine which profile edges generated
-   * which result faces.
+   * which result faces, plus the faces on either side of each edge.
    *
    * @see docs/CAD-PIPELINE-REWORK.md Phase 8
    */
   tessellateWithTopologyHashes(
     bodyId: BodyId,
     quality: TessellationQuality = `medium`
-  ): Mesh & { faceHashes: Uint32Array; edgeHashes: Uint32Array } {
+  ): Mesh & { faceHashes: Uint32Array; edgeHashes: Uint32Array; edgeFaces: Int32Array } {
     this.ensureInitialized();
 
     const body = this.bodies.get(bodyId);
@@ -841,6 +2548,7 @@ export class SolidSession {
       edgeMap: result.edgeMap,
       faceHashes: result.faceHashes,
       edgeHashes: result.edgeHashes,
+      edgeFaces: result.edgeFaces,
     };
   }
 
@@ -891,6 +2599,59 @@ export class SolidSession {
     return kernelGetFacePlane(body, faceIndex);
   }
 
+  /**
+   * Get the cylinder a face lies on.
+   * Returns null if the face index is out of range or the face is not cylindrical.
+   *
+   * @param bodyId - The body containing the face
+   * @param faceIndex - The 0-based face index
+   */
+  getFaceCylinder(bodyId: BodyId, faceIndex: number): FaceCylinderData | null {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      throw new Error(`Body ${bodyId} not found`);
+    }
+
+    return kernelGetFaceCylinder(body, faceIndex);
+  }
+
+  /**
+   * Get the end points of a straight edge of a body.
+   * Returns null if the edge index is out of range or the edge is not a line.
+   *
+   * @param bodyId - The body containing the edge
+   * @param edgeIndex - The 0-based edge index
+   */
+  getEdgeLine(bodyId: BodyId, edgeIndex: number): EdgeLineData | null {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      throw new Error(`Body ${bodyId} not found`);
+    }
+
+    return kernelGetEdgeLine(body, edgeIndex);
+  }
+
+  /**
+   * Get the hash of each face of a body, in face index order
+   *
+   * The hashes match the `faceHashes` of `tessellateWithTopologyHashes` and
+   * the face hashes in operation histories.
+   */
+  getFaceHashes(bodyId: BodyId): number[] {
+    this.ensureInitialized();
+
+    const body = this.bodies.get(bodyId);
+    if (!body) {
+      throw new Error(`Body ${bodyId} not found`);
+    }
+
+    return kernelGetFaceHashes(body);
+  }
+
   /**
    * Check if a body exists
    */
@@ -916,23 +2677,108 @@ export class SolidSession {
     return exportSTEP(body);
   }
 
+  /**
+   * Export bodies to STEP as an assembly with one named, colored product each
+   *
+   * The bodies are declared to be in `options.units` rather than scaled.
+   */
+  exportSTEPAssembly(products: StepExportProduct[], options: StepExportOptions = {}): Uint8Array {
+    this.ensureInitialized();
+
+    const shapes = products.map((product) => {
+      const body = this.bodies.get(product.bodyId);
+      if (!body) {
+        throw new Error(`Body ${product.bodyId} not found`);
+      }
+      return { shape: body, name: product.name, color: product.color };
+    });
+
+    return exportSTEPAssembly(shapes, options);
+  }
+
   /**
    * Import body from STEP format
+   *
+   * STEP files are read in millimetres, whatever units they were written in.
+   */
+  importSTEP(data: Uint8Array, options: ImportOptions = {}): OperationResult<BodyId> {
+    this.ensureInitialized();
+    return this.addImportedBody(importSTEP(data), `STEP`, options);
+  }
+
+  /**
+   * Export bodies to IGES format
+   *
+   * IGES has no product structure, so several bodies are written as one compound.
+   */
+  exportIGES(bodyIds: BodyId | BodyId[]): Uint8Array {
+    this.ensureInitialized();
+
+    const bodies = (Array.isArray(bodyIds) ? bodyIds : [bodyIds]).map((bodyId) => {
+      const body = this.bodies.get(bodyId);
+      if (!body) {
+        throw new Error(`Body ${bodyId} not found`);
+      }
+      return body;
+    });
+
+    if (bodies.length === 1) {
+      return exportIGES(bodies[0]);
+    }
+    return makeCompound(bodies).using(exportIGES);
+  }
+
+  /**
+   * Import body from IGES format
+   *
+   * Like STEP, IGES files are read in millimetres. Surfaces that enclose a
+   * volume are sewn into a solid.
    */
-  importSTEP(data: Uint8Array): OperationResult<BodyId> {
+  importIGES(data: Uint8Array, options: ImportOptions = {}): OperationResult<BodyId> {
     this.ensureInitialized();
+    return this.addImportedBody(importIGES(data), `IGES`, options);
+  }
 
-    const result = importSTEP(data);
+  /**
+   * Import body from BREP format (OpenCascade native format)
+   */
+  importBREP(data: Uint8Array, options: ImportOptions = {}): OperationResult<BodyId> {
+    this.ensureInitialized();
+    return this.addImportedBody(importBREP(data), `BREP`, options);
+  }
 
+  /**
+   * Store the shape read from a file as a new body, scaled if asked
+   */
+  private addImportedBody(
+    result: ImportResult,
+    format: string,
+    options: ImportOptions
+  ): OperationResult<BodyId> {
     if (!result.success || !result.shape) {
       return {
         success: false,
-        error: { code: `UNKNOWN`, message: result.error ?? `STEP import failed` },
+        error: { code: `UNKNOWN`, message: result.error ?? `${format} import failed` },
       };
     }
 
+    let shape = result.shape;
+    const factor = options.scale ?? 1;
+    if (factor !== 1) {
+      if (!(factor > 0)) {
+        shape.dispose();
+        return {
+          success: false,
+          error: { code: `UNKNOWN`, message: `Import scale must be positive` },
+        };
+      }
+      const scaled = scale(shape, factor);
+      shape.dispose();
+      shape = scaled;
+    }
+
     const id = this.allocateBodyId();
-    this.bodies.set(id, result.shape);
+    this.bodies.set(id, shape);
     return { success: true, value: id };
   }
 
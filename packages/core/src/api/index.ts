@@ -31,8 +31,52 @@ export type {
   ModelingError,
   ExtrudeOperation,
   ExtrudeOptions,
+  ExtrudeLimit,
+  ExtrudeSide,
   RevolveOptions,
+  SweepOptions,
+  LoftOptions,
+  LoftTangency,
   FilletOptions,
+  FilletEdgeSet,
+  ChamferEdgeSet,
+  ShellOptions,
+  ShellDirection,
+  DraftOptions,
+  HoleOptions,
+  HelixOptions,
+  ThreadOptions,
+  RibOptions,
+  SplitTool,
+  SplitSide,
+  SplitOptions,
+  OffsetFacesOptions,
+  DeleteFacesOptions,
+  ReplaceFacesOptions,
+  ThickenOptions,
+  EdgeFlangeOptions,
+  SheetMetalProfile,
+  EdgeFlangeFace,
+  BodyTransform,
+  ImportOptions,
+  StepSchema,
+  StepLengthUnit,
+  StepExportProduct,
+  StepExportOptions,
+  ModifyHistoryResult,
+  DraftHistoryResult,
+  HoleToolResult,
+  PrimitiveOptions,
+  PrimitivePlacement,
+  PrimitiveResult,
+  ThreadHistoryResult,
+  RibHistoryResult,
+  SplitPiece,
+  SplitHistoryResult,
+  OffsetFacesHistoryResult,
+  ReplaceFacesHistoryResult,
+  ThickenHistoryResult,
+  EdgeFlangeHistoryResult,
 } from "./types.js";
 
 // Phase 8: Operation history types for persistent naming
@@ -44,4 +88,9 @@ export type {
 } from "./SolidSession.js";
 
 // Re-export tessellation quality and face plane data for convenience
-export type { TessellationQuality, FacePlaneData } from "../kernel/tessellate.js";
+export type {
+  TessellationQuality,
+  FacePlaneData,
+  FaceCylinderData,
+  EdgeLineData,
+} from "../kernel/tessellate.js";
@@ -23,6 +23,50 @@ export type {
   ModelingError,
   ExtrudeOperation,
   ExtrudeOptions,
+  ExtrudeLimit,
+  ExtrudeSide,
   RevolveOptions,
+  SweepOptions,
+  LoftOptions,
+  LoftTangency,
   FilletOptions,
+  FilletEdgeSet,
+  ChamferEdgeSet,
+  ShellOptions,
+  ShellDirection,
+  DraftOptions,
+  HoleOptions,
+  HelixOptions,
+  ThreadOptions,
+  RibOptions,
+  SplitTool,
+  SplitSide,
+  SplitOptions,
+  OffsetFacesOptions,
+  DeleteFacesOptions,
+  ReplaceFacesOptions,
+  ThickenOptions,
+  EdgeFlangeOptions,
+  SheetMetalProfile,
+  EdgeFlangeFace,
+  BodyTransform,
+  ImportOptions,
+  StepSchema,
+  StepLengthUnit,
+  StepExportProduct,
+  StepExportOptions,
+  ModifyHistoryResult,
+  DraftHistoryResult,
+  HoleToolResult,
+  PrimitiveOptions,
+  PrimitivePlacement,
+  PrimitiveResult,
+  ThreadHistoryResult,
+  RibHistoryResult,
+  SplitPiece,
+  SplitHistoryResult,
+  OffsetFacesHistoryResult,
+  ReplaceFacesHistoryResult,
+  ThickenHistoryResult,
+  EdgeFlangeHistoryResult,
 } from "./SolidSession.js";
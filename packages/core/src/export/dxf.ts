@@ -0,0 +1,132 @@
+/**
+ * DXF Export
+ *
+ * Writes a sheet metal flat pattern as an ASCII DXF (R12) drawing for laser,
+ * plasma and punch programming. The outline goes on the OUTLINE layer and
+ * bend lines on BEND_UP or BEND_DOWN, drawn dashed.
+ */
+
+import type { Curve2D } from "../geom/curve2d.js";
+import { getArcAngleSpan } from "../geom/curve2d.js";
+import type { FlatPattern, FlatPatternBendLine } from "../model/sheetMetal.js";
+
+/**
+ * Options for DXF export
+ */
+export interface DxfExportOptions {
+  /** Decimal precision for coordinates (default: 6) */
+  precision?: number;
+}
+
+/** Layers written to every drawing, with their colour number and line type */
+const LAYERS: Array<[name: string, color: number, lineType: string]> = [
+  [`OUTLINE`, 7, `CONTINUOUS`],
+  [`BEND_UP`, 3, `DASHED`],
+  [`BEND_DOWN`, 1, `DASHED`],
+];
+
+/**
+ * Export a flat pattern to DXF
+ *
+ * @param pattern The flat pattern, in millimetres
+ * @param options Export options (precision)
+ * @returns The DXF file contents
+ */
+export function exportFlatPatternToDxf(
+  pattern: FlatPattern,
+  options: DxfExportOptions = {}
+): string {
+  const { precision = 6 } = options;
+  const fmt = (n: number) => n.toFixed(precision);
+  const codes: Array<[number, string | number]> = [];
+  const add = (...pairs: Array<[number, string | number]>) => codes.push(...pairs);
+
+  add([0, `SECTION`], [2, `HEADER`], [9, `$ACADVER`], [1, `AC1009`], [0, `ENDSEC`]);
+
+  add([0, `SECTION`], [2, `TABLES`]);
+  add([0, `TABLE`], [2, `LTYPE`], [70, 2]);
+  add([0, `LTYPE`], [2, `CONTINUOUS`], [70, 0], [3, `Solid line`], [72, 65], [73, 0], [40, 0]);
+  add([0, `LTYPE`], [2, `DASHED`], [70, 0], [3, `Dashed __ __ __`], [72, 65], [73, 2]);
+  add([40, fmt(6)], [49, fmt(4)], [49, fmt(-2)]);
+  add([0, `ENDTAB`]);
+  add([0, `TABLE`], [2, `LAYER`], [70, LAYERS.length]);
+  for (const [name, color, lineType] of LAYERS) {
+    add([0, `LAYER`], [2, name], [70, 0], [62, color], [6, lineType]);
+  }
+  add([0, `ENDTAB`], [0, `ENDSEC`]);
+
+  add([0, `SECTION`], [2, `ENTITIES`]);
+  for (const loop of pattern.loops) {
+    for (const curve of loop.curves) {
+      add(...curveEntity(curve, `OUTLINE`, fmt));
+    }
+  }
+  for (const bend of pattern.bendLines) {
+    add(...bendEntity(bend, fmt));
+  }
+  add([0, `ENDSEC`], [0, `EOF`]);
+
+  return codes.map(([code, value]) => `${code}\n${value}\n`).join(``);
+}
+
+/**
+ * Group codes for one outline curve
+ */
+function curveEntity(
+  curve: Curve2D,
+  layer: string,
+  fmt: (n: number) => string
+): Array<[number, string | number]> {
+  if (curve.kind === `line`) {
+    return [
+      [0, `LINE`],
+      [8, layer],
+      [10, fmt(curve.p0[0])],
+      [20, fmt(curve.p0[1])],
+      [30, fmt(0)],
+      [11, fmt(curve.p1[0])],
+      [21, fmt(curve.p1[1])],
+      [31, fmt(0)],
+    ];
+  }
+  if (curve.kind === `arc`) {
+    const center: Array<[number, string | number]> = [
+      [8, layer],
+      [10, fmt(curve.center[0])],
+      [20, fmt(curve.center[1])],
+      [30, fmt(0)],
+      [40, fmt(curve.radius)],
+    ];
+    if (getArcAngleSpan(curve) >= 2 * Math.PI - 1e-9) {
+      return [[0, `CIRCLE`], ...center];
+    }
+    // DXF arcs always run counter-clockwise
+    const [from, to] = curve.ccw
+      ? [curve.startAngle, curve.endAngle]
+      : [curve.endAngle, curve.startAngle];
+    return [
+      [0, `ARC`],
+      ...center,
+      [50, fmt((from * 180) / Math.PI)],
+      [51, fmt((to * 180) / Math.PI)],
+    ];
+  }
+  // Polylines as a run of lines
+  return curve.pts
+    .slice(1)
+    .flatMap((p, i) => curveEntity({ kind: `line`, p0: curve.pts[i], p1: p }, layer, fmt));
+}
+
+/**
+ * Group codes for a bend line
+ */
+function bendEntity(
+  bend: FlatPatternBendLine,
+  fmt: (n: number) => string
+): Array<[number, string | number]> {
+  return curveEntity(
+    { kind: `line`, p0: bend.start, p1: bend.end },
+    bend.up ? `BEND_UP` : `BEND_DOWN`,
+    fmt
+  );
+}
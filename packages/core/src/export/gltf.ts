@@ -0,0 +1,306 @@
+/**
+ * glTF Export
+ *
+ * Exports tessellated bodies to glTF 2.0, either as a single binary GLB or as
+ * a JSON document with a separate .bin buffer. Each body becomes one node and
+ * mesh with a PBR material from its color. Models are Z-up in millimetres, so
+ * a root node turns them into glTF's Y-up metres.
+ */
+
+import type { Mesh } from "../mesh/types.js";
+
+/**
+ * A body to export
+ */
+export interface GltfBody {
+  /** Node and mesh name */
+  name: string;
+  /** Tessellated body; faceMap is needed for face groups */
+  mesh: Mesh & { faceMap?: Uint32Array };
+  /** Hex color like "#6699cc"; glTF's default material is used when omitted */
+  color?: string;
+}
+
+/**
+ * Options for glTF export
+ */
+export interface GltfExportOptions {
+  /** Write a single GLB (default) or JSON plus a separate buffer */
+  binary?: boolean;
+  /** Scene and root node name; also names the .bin file (default: 'model') */
+  name?: string;
+  /** Split each body into one primitive per face using the mesh faceMap */
+  faceGroups?: boolean;
+  /** Metres per model unit (default: 0.001 for millimetres) */
+  unitScale?: number;
+}
+
+/**
+ * A glTF document with its buffer stored alongside
+ */
+export interface GltfFiles {
+  /** The .gltf JSON document */
+  gltf: string;
+  /** Contents of the .bin buffer */
+  bin: ArrayBuffer;
+  /** File name the document refers to the buffer by */
+  binUri: string;
+}
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_JSON_CHUNK = 0x4e4f534a;
+const GLB_BIN_CHUNK = 0x004e4942;
+
+/** Rotation of -90° about X, taking Z-up to Y-up */
+const Z_UP_TO_Y_UP = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+/**
+ * Accumulates typed arrays into one buffer with a view per array
+ */
+class BufferBuilder {
+  readonly views: Array<{ buffer: 0; byteOffset: number; byteLength: number; target: number }> = [];
+  private chunks: Uint8Array[] = [];
+  private byteLength = 0;
+
+  add(data: Float32Array | Uint32Array, target: number): number {
+    this.chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    this.views.push({
+      buffer: 0,
+      byteOffset: this.byteLength,
+      byteLength: data.byteLength,
+      target,
+    });
+    // Float32 and Uint32 data keeps every view 4-byte aligned
+    this.byteLength += data.byteLength;
+    return this.views.length - 1;
+  }
+
+  build(): ArrayBuffer {
+    const out = new Uint8Array(this.byteLength);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return out.buffer;
+  }
+}
+
+/**
+ * Convert a hex color to a linear RGBA base color factor
+ */
+function baseColorFactor(hex: string): [number, number, number, number] {
+  const value = parseInt(hex.replace(`#`, ``), 16);
+  const toLinear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return [toLinear((value >> 16) & 0xff), toLinear((value >> 8) & 0xff), toLinear(value & 0xff), 1];
+}
+
+/**
+ * Triangle indices of a mesh grouped by face, in face order
+ */
+function groupIndicesByFace(mesh: Mesh, faceMap: Uint32Array): Array<[number, Uint32Array]> {
+  const groups = new Map<number, number[]>();
+  for (let t = 0; t < faceMap.length; t++) {
+    let group = groups.get(faceMap[t]);
+    if (!group) {
+      group = [];
+      groups.set(faceMap[t], group);
+    }
+    group.push(mesh.indices[t * 3], mesh.indices[t * 3 + 1], mesh.indices[t * 3 + 2]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([face, indices]) => [face, new Uint32Array(indices)]);
+}
+
+/**
+ * Build the glTF document and its binary buffer
+ */
+function buildGltf(
+  bodies: GltfBody[],
+  name: string,
+  faceGroups: boolean,
+  unitScale: number
+): { json: Record<string, unknown>; bin: ArrayBuffer } {
+  const buffer = new BufferBuilder();
+  const accessors: Array<Record<string, unknown>> = [];
+  const materials: Array<Record<string, unknown>> = [];
+  const meshes: Array<Record<string, unknown>> = [];
+  const nodes: Array<Record<string, unknown>> = [];
+  const materialByColor = new Map<string, number>();
+
+  const addAccessor = (accessor: Record<string, unknown>) => accessors.push(accessor) - 1;
+
+  const materialFor = (color: string): number => {
+    const key = color.toLowerCase();
+    let index = materialByColor.get(key);
+    if (index === undefined) {
+      index =
+        materials.push({
+          name: key,
+          pbrMetallicRoughness: {
+            baseColorFactor: baseColorFactor(key),
+            metallicFactor: 0,
+            roughnessFactor: 0.5,
+          },
+        }) - 1;
+      materialByColor.set(key, index);
+    }
+    return index;
+  };
+
+  for (const body of bodies) {
+    const { mesh } = body;
+    const vertexCount = mesh.positions.length / 3;
+    if (vertexCount === 0 || mesh.indices.length === 0) continue;
+
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < mesh.positions.length; i++) {
+      min[i % 3] = Math.min(min[i % 3], mesh.positions[i]);
+      max[i % 3] = Math.max(max[i % 3], mesh.positions[i]);
+    }
+
+    const attributes: Record<string, number> = {
+      POSITION: addAccessor({
+        bufferView: buffer.add(mesh.positions, ARRAY_BUFFER),
+        componentType: FLOAT,
+        count: vertexCount,
+        type: `VEC3`,
+        min,
+        max,
+      }),
+    };
+    if (mesh.normals.length === mesh.positions.length) {
+      attributes.NORMAL = addAccessor({
+        bufferView: buffer.add(mesh.normals, ARRAY_BUFFER),
+        componentType: FLOAT,
+        count: vertexCount,
+        type: `VEC3`,
+      });
+    }
+
+    const material = body.color ? materialFor(body.color) : undefined;
+    const primitive = (indices: Uint32Array, extras?: Record<string, unknown>) => ({
+      attributes,
+      indices: addAccessor({
+        bufferView: buffer.add(indices, ELEMENT_ARRAY_BUFFER),
+        componentType: UNSIGNED_INT,
+        count: indices.length,
+        type: `SCALAR`,
+      }),
+      ...(material !== undefined && { material }),
+      ...(extras && { extras }),
+    });
+
+    const groups =
+      faceGroups && mesh.faceMap?.length === mesh.indices.length / 3
+        ? groupIndicesByFace(mesh, mesh.faceMap)
+        : null;
+    const primitives = groups
+      ? groups.map(([faceIndex, indices]) => primitive(indices, { faceIndex }))
+      : [primitive(mesh.indices)];
+
+    const meshIndex = meshes.push({ name: body.name, primitives }) - 1;
+    nodes.push({ name: body.name, mesh: meshIndex });
+  }
+
+  const bodyNodes = nodes.map((_, i) => i);
+  const rootIndex =
+    nodes.push({
+      name,
+      rotation: Z_UP_TO_Y_UP,
+      scale: [unitScale, unitScale, unitScale],
+      ...(bodyNodes.length > 0 && { children: bodyNodes }),
+    }) - 1;
+
+  const bin = buffer.build();
+  const json: Record<string, unknown> = {
+    asset: { version: `2.0`, generator: `SolidType glTF Export` },
+    scene: 0,
+    scenes: [{ name, nodes: [rootIndex] }],
+    nodes,
+  };
+  if (meshes.length > 0) {
+    json.meshes = meshes;
+    if (materials.length > 0) json.materials = materials;
+    json.accessors = accessors;
+    json.bufferViews = buffer.views;
+    json.buffers = [{ byteLength: bin.byteLength }];
+  }
+  return { json, bin };
+}
+
+/**
+ * Pack a glTF document and buffer into a GLB container
+ */
+function writeGlb(json: Record<string, unknown>, bin: ArrayBuffer): ArrayBuffer {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = Math.ceil(jsonBytes.byteLength / 4) * 4;
+  const binLength = Math.ceil(bin.byteLength / 4) * 4;
+  const hasBin = bin.byteLength > 0;
+  const totalLength = 12 + 8 + jsonLength + (hasBin ? 8 + binLength : 0);
+
+  const out = new ArrayBuffer(totalLength);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  // JSON chunk, padded with spaces
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_JSON_CHUNK, true);
+  bytes.fill(0x20, 20, 20 + jsonLength);
+  bytes.set(jsonBytes, 20);
+
+  // BIN chunk, padded with zeros
+  if (hasBin) {
+    const offset = 20 + jsonLength;
+    view.setUint32(offset, binLength, true);
+    view.setUint32(offset + 4, GLB_BIN_CHUNK, true);
+    bytes.set(new Uint8Array(bin), offset + 8);
+  }
+
+  return out;
+}
+
+/**
+ * Export bodies to glTF 2.0
+ *
+ * @param bodies Tessellated bodies with their names and colors
+ * @param options Export options (binary, name, face groups, unit scale)
+ * @returns ArrayBuffer for GLB, or the JSON document and its buffer
+ */
+export function exportMeshesToGltf(
+  bodies: GltfBody[],
+  options: GltfExportOptions = {}
+): ArrayBuffer | GltfFiles {
+  const { binary = true, name = `model`, faceGroups = false, unitScale = 0.001 } = options;
+  const { json, bin } = buildGltf(bodies, name, faceGroups, unitScale);
+
+  if (binary) {
+    return writeGlb(json, bin);
+  }
+
+  const binUri = `${name}.bin`;
+  const buffers = json.buffers as Array<Record<string, unknown>> | undefined;
+  if (buffers) buffers[0].uri = encodeURIComponent(binUri);
+  return { gltf: JSON.stringify(json, null, 2), bin, binUri };
+}
+
+/**
+ * Check if the result is a GLB (ArrayBuffer) or separate files
+ */
+export function isGltfBinary(result: ArrayBuffer | GltfFiles): result is ArrayBuffer {
+  return result instanceof ArrayBuffer;
+}
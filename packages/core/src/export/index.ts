@@ -3,3 +3,18 @@
  */
 
 export { exportMeshesToStl, isStlBinary, type StlExportOptions } from "./stl.js";
+export {
+  exportMeshesToGltf,
+  isGltfBinary,
+  type GltfBody,
+  type GltfExportOptions,
+  type GltfFiles,
+} from "./gltf.js";
+export {
+  exportMeshesTo3mf,
+  type ThreeMfBody,
+  type ThreeMfExportOptions,
+  type ThreeMfUnit,
+} from "./threeMf.js";
+export { exportFlatPatternToDxf, type DxfExportOptions } from "./dxf.js";
+export { exportFlatPatternToSvg, type SvgExportOptions } from "./svg.js";
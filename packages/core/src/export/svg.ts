@@ -0,0 +1,125 @@
+/**
+ * SVG Export
+ *
+ * Writes a sheet metal flat pattern as an SVG drawing in millimetres, with
+ * the y axis pointing up as in the sketch. Bend lines are dashed and carry
+ * their direction, angle and radius in a title.
+ */
+
+import type { Vec2 } from "../num/vec2.js";
+import type { Curve2D } from "../geom/curve2d.js";
+import { evalCurve2D, getArcAngleSpan } from "../geom/curve2d.js";
+import type { FlatPattern } from "../model/sheetMetal.js";
+
+/**
+ * Options for SVG export
+ */
+export interface SvgExportOptions {
+  /** Space around the pattern in millimetres (default: 5) */
+  margin?: number;
+  /** Decimal precision for coordinates (default: 4) */
+  precision?: number;
+  /** Outline stroke width in millimetres (default: 0.25) */
+  strokeWidth?: number;
+}
+
+/**
+ * Export a flat pattern to SVG
+ *
+ * @param pattern The flat pattern, in millimetres
+ * @param options Export options (margin, precision, stroke width)
+ * @returns The SVG document
+ */
+export function exportFlatPatternToSvg(
+  pattern: FlatPattern,
+  options: SvgExportOptions = {}
+): string {
+  const { margin = 5, precision = 4, strokeWidth = 0.25 } = options;
+  const fmt = (n: number) => Number(n.toFixed(precision)).toString();
+
+  // Bounds of everything drawn, sampling arcs along their length
+  const points: Vec2[] = [];
+  for (const loop of pattern.loops) {
+    for (const curve of loop.curves) {
+      const steps = curve.kind === `line` ? 1 : 32;
+      for (let i = 0; i <= steps; i++) points.push(evalCurve2D(curve, i / steps));
+    }
+  }
+  for (const bend of pattern.bendLines) points.push(bend.start, bend.end);
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const minX = (xs.length ? Math.min(...xs) : 0) - margin;
+  const maxY = (ys.length ? Math.max(...ys) : 0) + margin;
+  const width = (xs.length ? Math.max(...xs) : 0) + margin - minX;
+  const height = maxY - ((ys.length ? Math.min(...ys) : 0) - margin);
+
+  // Flip y so the drawing reads the same way up as the sketch
+  const x = (p: Vec2) => fmt(p[0] - minX);
+  const y = (p: Vec2) => fmt(maxY - p[1]);
+
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}mm" height="${fmt(height)}mm" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`,
+    `  <g class="outline" fill="none" stroke="#000000" stroke-width="${fmt(strokeWidth)}">`,
+  ];
+  for (const loop of pattern.loops) {
+    const circles = loop.curves.filter(isCircle);
+    for (const circle of circles) {
+      if (circle.kind !== `arc`) continue;
+      lines.push(
+        `    <circle cx="${x(circle.center)}" cy="${y(circle.center)}" r="${fmt(circle.radius)}"/>`
+      );
+    }
+    const path = loop.curves
+      .filter((curve) => !isCircle(curve))
+      .map((curve) => curvePath(curve, x, y, fmt))
+      .join(` `);
+    if (path) lines.push(`    <path d="${path}"/>`);
+  }
+  lines.push(`  </g>`);
+
+  if (pattern.bendLines.length > 0) {
+    lines.push(
+      `  <g class="bend-lines" fill="none" stroke-width="${fmt(strokeWidth)}" stroke-dasharray="${fmt(strokeWidth * 12)} ${fmt(strokeWidth * 6)}">`
+    );
+    for (const bend of pattern.bendLines) {
+      const direction = bend.up ? `up` : `down`;
+      lines.push(
+        `    <line class="bend-${direction}" x1="${x(bend.start)}" y1="${y(bend.start)}" x2="${x(bend.end)}" y2="${y(bend.end)}" stroke="${bend.up ? `#008000` : `#cc0000`}">` +
+          `<title>${direction.toUpperCase()} ${fmt(bend.angleDegrees)}° R${fmt(bend.radius)}</title></line>`
+      );
+    }
+    lines.push(`  </g>`);
+  }
+
+  lines.push(`</svg>`);
+  return lines.join(`\n`) + `\n`;
+}
+
+function isCircle(curve: Curve2D): boolean {
+  return curve.kind === `arc` && getArcAngleSpan(curve) >= 2 * Math.PI - 1e-9;
+}
+
+/**
+ * Path commands drawing one curve on its own
+ */
+function curvePath(
+  curve: Curve2D,
+  x: (p: Vec2) => string,
+  y: (p: Vec2) => string,
+  fmt: (n: number) => string
+): string {
+  if (curve.kind === `line`) {
+    return `M ${x(curve.p0)} ${y(curve.p0)} L ${x(curve.p1)} ${y(curve.p1)}`;
+  }
+  if (curve.kind === `arc`) {
+    const start = evalCurve2D(curve, 0);
+    const end = evalCurve2D(curve, 1);
+    const large = getArcAngleSpan(curve) > Math.PI ? 1 : 0;
+    // Counter-clockwise in the sketch is clockwise once y is flipped
+    const sweep = curve.ccw ? 0 : 1;
+    const r = fmt(curve.radius);
+    return `M ${x(start)} ${y(start)} A ${r} ${r} 0 ${large} ${sweep} ${x(end)} ${y(end)}`;
+  }
+  return curve.pts.map((p, i) => `${i === 0 ? `M` : `L`} ${x(p)} ${y(p)}`).join(` `);
+}
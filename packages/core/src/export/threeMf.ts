@@ -0,0 +1,256 @@
+/**
+ * 3MF Export
+ *
+ * Writes tessellated bodies as a 3MF package for 3D printing. Each body is a
+ * separate object with its own color, the model carries the document's length
+ * unit, and the build places the objects side by side resting on the plate.
+ * Vertices shared between faces are welded so slicers see closed meshes.
+ */
+
+import type { Mesh } from "../mesh/types.js";
+import { writeZip } from "./zip.js";
+
+/**
+ * A body to export
+ */
+export interface ThreeMfBody {
+  /** Object name */
+  name: string;
+  /** Tessellated body */
+  mesh: Mesh;
+  /** Hex color like "#6699cc" */
+  color?: string;
+}
+
+/**
+ * Length unit of the model coordinates
+ */
+export type ThreeMfUnit = `mm` | `cm` | `m` | `in` | `ft`;
+
+/**
+ * Options for 3MF export
+ */
+export interface ThreeMfExportOptions {
+  /** Unit of the mesh coordinates (default: 'mm') */
+  units?: ThreeMfUnit;
+  /** Model title (default: 'model') */
+  name?: string;
+  /** Lay the objects out on the build plate, or keep their positions (default: true) */
+  arrange?: boolean;
+  /** Gap between arranged objects in millimetres (default: 5) */
+  spacing?: number;
+  /** Decimal precision for coordinates (default: 6) */
+  precision?: number;
+}
+
+const UNIT_NAMES: Record<ThreeMfUnit, string> = {
+  mm: `millimeter`,
+  cm: `centimeter`,
+  m: `meter`,
+  in: `inch`,
+  ft: `foot`,
+};
+
+const MM_PER_UNIT: Record<ThreeMfUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+const CORE_NAMESPACE = `http://schemas.microsoft.com/3dmanufacturing/core/2015/02`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+/**
+ * A body's mesh with coincident vertices merged
+ */
+interface WeldedMesh {
+  vertices: number[];
+  triangles: number[];
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+/**
+ * Merge vertices at identical positions and drop triangles that collapse
+ */
+function weldMesh(mesh: Mesh): WeldedMesh {
+  const { positions, indices } = mesh;
+  const vertices: number[] = [];
+  const remap = new Uint32Array(positions.length / 3);
+  const byPosition = new Map<string, number>();
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i < remap.length; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const key = `${x},${y},${z}`;
+    let index = byPosition.get(key);
+    if (index === undefined) {
+      index = vertices.length / 3;
+      vertices.push(x, y, z);
+      byPosition.set(key, index);
+      min[0] = Math.min(min[0], x);
+      min[1] = Math.min(min[1], y);
+      min[2] = Math.min(min[2], z);
+      max[0] = Math.max(max[0], x);
+      max[1] = Math.max(max[1], y);
+      max[2] = Math.max(max[2], z);
+    }
+    remap[i] = index;
+  }
+
+  const triangles: number[] = [];
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = remap[indices[t]];
+    const b = remap[indices[t + 1]];
+    const c = remap[indices[t + 2]];
+    if (a !== b && b !== c && c !== a) triangles.push(a, b, c);
+  }
+
+  return { vertices, triangles, min, max };
+}
+
+/**
+ * Translation for each object, placing them in rows on the plate around the
+ * origin with their lowest point at z = 0
+ */
+function arrangeOnPlate(meshes: WeldedMesh[], gap: number): Array<[number, number, number]> {
+  const columns = Math.ceil(Math.sqrt(meshes.length));
+  const offsets: Array<[number, number, number]> = [];
+  let x = 0;
+  let y = 0;
+  let rowDepth = 0;
+  let width = 0;
+
+  meshes.forEach((mesh, i) => {
+    if (i > 0 && i % columns === 0) {
+      x = 0;
+      y += rowDepth + gap;
+      rowDepth = 0;
+    }
+    offsets.push([x - mesh.min[0], y - mesh.min[1], -mesh.min[2]]);
+    x += mesh.max[0] - mesh.min[0] + gap;
+    width = Math.max(width, x - gap);
+    rowDepth = Math.max(rowDepth, mesh.max[1] - mesh.min[1]);
+  });
+
+  // Centre the whole layout on the origin
+  const depth = y + rowDepth;
+  return offsets.map(([ox, oy, oz]) => [ox - width / 2, oy - depth / 2, oz]);
+}
+
+/**
+ * Escape text for an XML attribute
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, `&amp;`)
+    .replace(/</g, `&lt;`)
+    .replace(/>/g, `&gt;`)
+    .replace(/"/g, `&quot;`);
+}
+
+/**
+ * Write the 3D/3dmodel.model document
+ */
+function writeModel(
+  bodies: ThreeMfBody[],
+  meshes: WeldedMesh[],
+  units: ThreeMfUnit,
+  name: string,
+  arrange: boolean,
+  spacing: number,
+  precision: number
+): string {
+  const fmt = (n: number) => Number(n.toFixed(precision)).toString();
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<model unit="${UNIT_NAMES[units]}" xml:lang="en-US" xmlns="${CORE_NAMESPACE}">`,
+    `  <metadata name="Title">${escapeXml(name)}</metadata>`,
+    `  <metadata name="Application">SolidType</metadata>`,
+    `  <resources>`,
+  ];
+
+  // One base material per distinct color, in a single group
+  const colors = [...new Set(bodies.flatMap((b) => (b.color ? [b.color.toUpperCase()] : [])))];
+  const materialsId = colors.length > 0 ? 1 : 0;
+  if (colors.length > 0) {
+    lines.push(`    <basematerials id="${materialsId}">`);
+    for (const color of colors) {
+      lines.push(`      <base name="${color}" displaycolor="${color}FF"/>`);
+    }
+    lines.push(`    </basematerials>`);
+  }
+
+  const objectIds = meshes.map((_, i) => materialsId + 1 + i);
+  meshes.forEach((mesh, i) => {
+    const color = bodies[i].color?.toUpperCase();
+    const material = color ? ` pid="${materialsId}" pindex="${colors.indexOf(color)}"` : ``;
+    lines.push(
+      `    <object id="${objectIds[i]}" type="model" name="${escapeXml(bodies[i].name)}"${material}>`,
+      `      <mesh>`,
+      `        <vertices>`
+    );
+    for (let v = 0; v < mesh.vertices.length; v += 3) {
+      lines.push(
+        `          <vertex x="${fmt(mesh.vertices[v])}" y="${fmt(mesh.vertices[v + 1])}" z="${fmt(mesh.vertices[v + 2])}"/>`
+      );
+    }
+    lines.push(`        </vertices>`, `        <triangles>`);
+    for (let t = 0; t < mesh.triangles.length; t += 3) {
+      lines.push(
+        `          <triangle v1="${mesh.triangles[t]}" v2="${mesh.triangles[t + 1]}" v3="${mesh.triangles[t + 2]}"/>`
+      );
+    }
+    lines.push(`        </triangles>`, `      </mesh>`, `    </object>`);
+  });
+  lines.push(`  </resources>`, `  <build>`);
+
+  const offsets = arrange
+    ? arrangeOnPlate(meshes, spacing / MM_PER_UNIT[units])
+    : meshes.map((): [number, number, number] => [0, 0, 0]);
+  meshes.forEach((_, i) => {
+    const [x, y, z] = offsets[i];
+    lines.push(
+      `    <item objectid="${objectIds[i]}" transform="1 0 0 0 1 0 0 0 1 ${fmt(x)} ${fmt(y)} ${fmt(z)}"/>`
+    );
+  });
+  lines.push(`  </build>`, `</model>`, ``);
+
+  return lines.join(`\n`);
+}
+
+/**
+ * Export bodies to a 3MF package
+ *
+ * @param bodies Tessellated bodies with their names and colors
+ * @param options Export options (units, name, arrangement, precision)
+ * @returns The .3mf file contents
+ */
+export function exportMeshesTo3mf(
+  bodies: ThreeMfBody[],
+  options: ThreeMfExportOptions = {}
+): ArrayBuffer {
+  const { units = `mm`, name = `model`, arrange = true, spacing = 5, precision = 6 } = options;
+
+  const kept = bodies.filter((b) => b.mesh.indices.length > 0);
+  const meshes = kept.map((b) => weldMesh(b.mesh));
+  const model = writeModel(kept, meshes, units, name, arrange, spacing, precision);
+
+  const encoder = new TextEncoder();
+  return writeZip([
+    { path: `[Content_Types].xml`, data: encoder.encode(CONTENT_TYPES) },
+    { path: `_rels/.rels`, data: encoder.encode(RELS) },
+    { path: `3D/3dmodel.model`, data: encoder.encode(model) },
+  ]);
+}
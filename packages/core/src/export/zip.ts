@@ -0,0 +1,111 @@
+/**
+ * ZIP Writer
+ *
+ * Minimal writer for the ZIP containers used by package formats such as
+ * 3MF. Entries are stored uncompressed with a fixed timestamp, so the same
+ * input always gives the same bytes.
+ */
+
+/**
+ * A file to place in the archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  path: string;
+  /** File contents */
+  data: Uint8Array;
+}
+
+/** 1980-01-01 00:00 in MS-DOS date format */
+const DOS_DATE = 0x0021;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE) of a byte array
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write a ZIP archive with every entry stored uncompressed
+ */
+export function writeZip(entries: ZipEntry[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.path),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new ArrayBuffer(localSize + centralSize + 22);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+  let offset = 0;
+
+  // Local file headers followed by the data
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 names
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.name, offset + 30);
+    bytes.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, 0, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra, comment, disk, attributes: all zero
+    view.setUint32(offset + 42, file.offset, true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  }
+
+  // End of central directory
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return out;
+}
@@ -98,7 +98,7 @@ export function evalCurve2D(curve: Curve2D, t: number): Vec2 {
   } else if (curve.kind === `arc`) {
     // Arc: interpolate angle from startAngle to endAngle
     const angleSpan = getArcAngleSpan(curve);
-    const angle = curve.startAngle + t * angleSpan;
+    const angle = curve.startAngle + t * (curve.ccw ? angleSpan : -angleSpan);
     return vec2(
       curve.center[0] + curve.radius * Math.cos(angle),
       curve.center[1] + curve.radius * Math.sin(angle)
@@ -145,7 +145,7 @@ export function evalCurve2D(curve: Curve2D, t: number): Vec2 {
 /**
  * Get the angle span of an arc (accounting for direction)
  */
-function getArcAngleSpan(arc: Arc2D): number {
+export function getArcAngleSpan(arc: Arc2D): number {
   let span: number;
   if (arc.ccw) {
     span = arc.endAngle - arc.startAngle;
@@ -180,10 +180,9 @@ export function curveTangent2D(curve: Curve2D, t: number): Vec2 {
     return normalize2(dir);
   } else if (curve.kind === `arc`) {
     // Arc tangent: perpendicular to radius vector
-    const angleSpan = getArcAngleSpan(curve);
-    const angle = curve.startAngle + t * angleSpan;
     // Tangent direction depends on ccw
     const sign = curve.ccw ? 1 : -1;
+    const angle = curve.startAngle + t * sign * getArcAngleSpan(curve);
     return vec2(-sign * Math.sin(angle), sign * Math.cos(angle));
   } else {
     // Polyline: find current segment and return its direction
@@ -104,13 +104,21 @@ export {
 export type { PersistentRef, ResolveResult, SubshapeRef, FeatureId } from "./naming/types.js";
 
 // Profile types
-export type { SketchProfile, ProfileLoop, ProfileId } from "./model/sketchProfile.js";
+export type {
+  SketchProfile,
+  SketchPath,
+  ProfileLoop,
+  ProfileId,
+  ThinWallSide,
+  RibSide,
+} from "./model/sketchProfile.js";
 export {
   createRectangleProfile,
   createCircleProfile,
   createPolygonProfile,
   createEmptyProfile,
   addLoopToProfile,
+  createThinProfile,
 } from "./model/sketchProfile.js";
 
 // =============================================================================
@@ -230,3 +238,31 @@ export type {
 
 // Export module (Phase 18) - STL export still works with new mesh format
 export { exportMeshesToStl, isStlBinary, type StlExportOptions } from "./export/stl.js";
+export {
+  exportMeshesToGltf,
+  isGltfBinary,
+  type GltfBody,
+  type GltfExportOptions,
+  type GltfFiles,
+} from "./export/gltf.js";
+export {
+  exportMeshesTo3mf,
+  type ThreeMfBody,
+  type ThreeMfExportOptions,
+  type ThreeMfUnit,
+} from "./export/threeMf.js";
+
+// Sheet metal flat patterns and their 2D exports
+export {
+  bendAllowance,
+  computeFlatPattern,
+  findOutlineEdge,
+  createFlangeSection,
+  type SheetMetalParams,
+  type SheetMetalFlange,
+  type FlatPattern,
+  type FlatPatternBendLine,
+  type OutlineEdge,
+} from "./model/sheetMetal.js";
+export { exportFlatPatternToDxf, type DxfExportOptions } from "./export/dxf.js";
+export { exportFlatPatternToSvg, type SvgExportOptions } from "./export/svg.js";
@@ -17,7 +17,19 @@ export { initOCCT, getOC, isOCCTInitialized, setOC } from "./init.js";
 export { Shape } from "./Shape.js";
 
 // Primitives
-export { makeBox, makeCylinder, makeSphere, makeCone, makeTorus } from "./primitives.js";
+export {
+  makeBox,
+  makeCylinder,
+  makeSphere,
+  makeCone,
+  makeTorus,
+  makePrimitive,
+  PRIMITIVE_FACE_NAMES,
+  type PrimitiveSpec,
+  type PrimitiveFaceName,
+  type PrimitiveFrame,
+  type PrimitiveShape,
+} from "./primitives.js";
 
 // Operations
 export {
@@ -31,21 +43,64 @@ export {
   chamferAllEdges,
   translate,
   rotate,
+  mirror,
+  scale,
   // Phase 8: Extended operations with OCCT history
   extrudeWithHistory,
+  extrudeUpToWithHistory,
+  extrudeDraftedWithHistory,
+  joinExtrudeSides,
   revolveWithHistory,
+  sweepWithHistory,
+  loftWithHistory,
+  shellWithHistory,
+  filletEdgesWithHistory,
+  chamferEdgesWithHistory,
+  draftFacesWithHistory,
+  makeHoleTool,
+  makeCompound,
+  makeHelix,
+  makeThreadTool,
+  makeRibTool,
+  splitWithHistory,
+  thickenFacesWithHistory,
+  offsetFacesWithHistory,
+  deleteFacesWithHistory,
+  replaceFacesWithHistory,
+  transformWithHistory,
   type BooleanOp,
   type BooleanResult,
   type BooleanWithHistoryResult,
   type FaceHistoryMapping,
   type ExtrudeWithHistoryResult,
+  type ExtrudeUpToLimit,
   type RevolveWithHistoryResult,
+  type SweepWithHistoryResult,
+  type LoftWithHistoryResult,
+  type ModifyWithHistoryResult,
+  type DraftWithHistoryResult,
+  type HoleFaceRole,
+  type HoleShape,
+  type HoleTool,
+  type HelixSpec,
+  type ThreadProfile,
+  type ThreadTool,
+  type RibTool,
+  type SplitPieceShape,
+  type ThickenedShape,
+  type OffsetFacesWithHistoryResult,
+  type ReplaceFacesWithHistoryResult,
+  type FilletEdgeSet,
+  type ChamferEdgeSet,
+  type ShapeTransform,
   type ProfileEdgeToFaceMapping,
 } from "./operations.js";
 
 // Sketch conversion
 export {
   sketchProfileToFace,
+  sketchPathToWire,
+  sketchProfileToWire,
   createRectangleFace,
   createCircleFace,
   createPolygonFace,
@@ -58,12 +113,30 @@ export {
   tessellateWithParams,
   tessellateWithHashes,
   getBoundingBox,
+  getFaceHashes,
   getFacePlane,
+  getFaceCylinder,
+  getEdgeLine,
   type TessellatedMesh,
   type TessellatedMeshWithHashes,
   type TessellationQuality,
   type FacePlaneData,
+  type FaceCylinderData,
+  type EdgeLineData,
 } from "./tessellate.js";
 
 // Import/Export
-export { exportSTEP, importSTEP, exportBREP, importBREP, type ImportResult } from "./io.js";
+export {
+  exportSTEP,
+  exportSTEPAssembly,
+  importSTEP,
+  exportIGES,
+  importIGES,
+  exportBREP,
+  importBREP,
+  type ImportResult,
+  type StepSchema,
+  type StepLengthUnit,
+  type StepProduct,
+  type StepAssemblyOptions,
+} from "./io.js";
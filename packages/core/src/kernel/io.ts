@@ -1,9 +1,14 @@
 /**
  * Import/Export Functions
  *
- * STEP and other file format support.
+ * STEP, IGES and BREP file format support.
+ *
+ * Files go through Emscripten's virtual filesystem. Their names are kept to
+ * 10 characters or fewer: the bindings only pass strings that fit std::string's
+ * inline buffer through to OCCT intact, and longer names come out garbled.
  */
 
+import type { TopoDS_Shape } from "opencascade.js";
 import { getOC } from "./init.js";
 import { Shape } from "./Shape.js";
 
@@ -28,15 +33,8 @@ export function exportSTEP(shape: Shape): Uint8Array {
   // Transfer shape to STEP
   writer.Transfer(shape.raw, oc.STEPControl_StepModelType.STEPControl_AsIs, true);
 
-  // Create the filename as a TCollection_AsciiString for proper C++ string handling
-  const filename = "export.step";
-  const filenameStr = new oc.TCollection_AsciiString_2(filename);
-
-  // Write using the TCollection_AsciiString overload
-  const status = writer.Write(filenameStr.ToCString());
-
-  // Clean up the string
-  filenameStr.delete();
+  const filename = "out.step";
+  const status = writer.Write(filename);
 
   if (status !== oc.IFSelect_ReturnStatus.IFSelect_RetDone) {
     writer.delete();
@@ -57,13 +55,223 @@ export function exportSTEP(shape: Shape): Uint8Array {
   return new Uint8Array(fileData);
 }
 
+/**
+ * STEP application protocol to write.
+ */
+export type StepSchema = `AP203` | `AP214` | `AP242`;
+
+/**
+ * Length unit a STEP file is declared in.
+ */
+export type StepLengthUnit = `mm` | `cm` | `m` | `in` | `ft`;
+
+/**
+ * One part of a STEP assembly.
+ */
+export interface StepProduct {
+  shape: Shape;
+  name: string;
+  /** Hex color like "#6699cc" */
+  color?: string;
+}
+
+/**
+ * Options for writing a STEP assembly.
+ */
+export interface StepAssemblyOptions {
+  /** Name of the top-level assembly (default "model") */
+  name?: string;
+  /** Application protocol (default AP214) */
+  schema?: StepSchema;
+  /** Units the shapes are modelled in, declared in the file (default mm) */
+  units?: StepLengthUnit;
+}
+
+const STEP_FILE_SCHEMAS: Record<StepSchema, string> = {
+  AP203: `CONFIG_CONTROL_DESIGN`,
+  AP214: `AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }`,
+  AP242: `AP242_MANAGED_MODEL_BASED_3D_ENGINEERING_MIM_LF { 1 0 10303 442 1 1 4 }`,
+};
+
+const STEP_MM_UNIT = `( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.) )`;
+
+const STEP_SI_UNITS: Partial<Record<StepLengthUnit, string>> = {
+  mm: STEP_MM_UNIT,
+  cm: `( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.CENTI.,.METRE.) )`,
+  m: `( LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT($,.METRE.) )`,
+};
+
+const STEP_CONVERSION_UNITS: Partial<Record<StepLengthUnit, [name: string, mm: number]>> = {
+  in: [`INCH`, 25.4],
+  ft: [`FOOT`, 304.8],
+};
+
+/**
+ * Export shapes to STEP as an assembly with one named, colored product each.
+ *
+ * OCCT picks the schema and units from its `write.step.*` parameters, which
+ * can't be set through the bindings (their names are too long to pass), so
+ * the file is written as AP214 in millimetres and its schema and length unit
+ * are then rewritten. Shapes are not scaled: they are declared to be in
+ * `units`. AP203 has no colors, so none are written for it.
+ */
+export function exportSTEPAssembly(
+  products: StepProduct[],
+  options: StepAssemblyOptions = {}
+): Uint8Array {
+  const oc = getOC();
+  const schema = options.schema ?? `AP214`;
+
+  const doc = new oc.TDocStd_Document(toExtendedString(`MDTV-XCAF`));
+  const docHandle = new oc.Handle_TDocStd_Document_2(doc);
+  const writer = new oc.STEPCAFControl_Writer_1();
+  const filename = "out.step";
+
+  try {
+    const shapeTool = oc.XCAFDoc_DocumentTool.ShapeTool(doc.Main()).get();
+    const colorTool = oc.XCAFDoc_DocumentTool.ColorTool(doc.Main()).get();
+
+    const assembly = shapeTool.NewShape();
+    setLabelName(assembly, options.name || `model`);
+
+    for (const product of products) {
+      const label = shapeTool.AddShape(product.shape.raw, false, false);
+      setLabelName(label, product.name);
+
+      const rgb = product.color ? parseHexColor(product.color) : null;
+      if (rgb) {
+        const color = new oc.Quantity_Color_3(
+          rgb[0],
+          rgb[1],
+          rgb[2],
+          oc.Quantity_TypeOfColor.Quantity_TOC_RGB
+        );
+        colorTool.SetColor_2(label, color, oc.XCAFDoc_ColorType.XCAFDoc_ColorGen);
+        color.delete();
+      }
+
+      const location = new oc.TopLoc_Location_1();
+      shapeTool.AddComponent_1(assembly, label, location).delete();
+      location.delete();
+      label.delete();
+    }
+    shapeTool.UpdateAssemblies();
+    assembly.delete();
+
+    writer.SetNameMode(true);
+    writer.SetColorMode(schema !== `AP203`);
+    if (!writer.Perform_2(docHandle, filename)) {
+      throw new Error(`Failed to export STEP file`);
+    }
+
+    const fileData = oc.FS.readFile(filename);
+    try {
+      oc.FS.unlink(filename);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    const text = new TextDecoder().decode(fileData);
+    return new TextEncoder().encode(rewriteStepHeader(text, schema, options.units ?? `mm`));
+  } finally {
+    writer.delete();
+    docHandle.delete();
+  }
+}
+
+/**
+ * Build an OCCT string from text of any length. Strings reach OCCT intact
+ * only up to 10 bytes, so longer text is appended in pieces. The UTF-8
+ * bytes are kept as they are, so non-ASCII names survive into the file.
+ */
+function toExtendedString(text: string) {
+  const oc = getOC();
+  const encoder = new TextEncoder();
+  const result = new oc.TCollection_ExtendedString_1();
+
+  let piece = ``;
+  const flush = () => {
+    if (!piece) return;
+    const part = new oc.TCollection_ExtendedString_2(piece, false);
+    result.AssignCat(part);
+    part.delete();
+    piece = ``;
+  };
+  for (const char of text) {
+    if (encoder.encode(piece + char).length > 10) flush();
+    piece += char;
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Name an XCAF label, which becomes the STEP product name.
+ */
+function setLabelName(label: unknown, name: string): void {
+  const oc = getOC();
+  const text = toExtendedString(name);
+  oc.TDataStd_Name.Set_1(label, text);
+  text.delete();
+}
+
+/**
+ * Parse "#rrggbb" into RGB components from 0 to 1.
+ */
+function parseHexColor(hex: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+/**
+ * Set the schema a STEP file names in its header and the length unit its
+ * geometry is declared in. Units without an SI prefix are written as
+ * conversion-based units defined from millimetres, as OCCT does.
+ */
+function rewriteStepHeader(text: string, schema: StepSchema, units: StepLengthUnit): string {
+  let result = text.replace(
+    /FILE_SCHEMA\(\('[^']*'\)\);/,
+    `FILE_SCHEMA(('${STEP_FILE_SCHEMAS[schema]}'));`
+  );
+
+  const siUnit = STEP_SI_UNITS[units];
+  if (siUnit) {
+    return result.split(STEP_MM_UNIT).join(siUnit);
+  }
+
+  const [unitName, mm] = STEP_CONVERSION_UNITS[units]!;
+  let nextId = 0;
+  for (const match of result.matchAll(/^#(\d+)\s*=/gm)) {
+    nextId = Math.max(nextId, Number(match[1]));
+  }
+  const [measureId, exponentsId, mmId] = [nextId + 1, nextId + 2, nextId + 3];
+
+  result = result
+    .split(STEP_MM_UNIT)
+    .join(
+      `( CONVERSION_BASED_UNIT('${unitName}',#${measureId}) LENGTH_UNIT() NAMED_UNIT(#${exponentsId}) )`
+    );
+
+  // The unit definitions go at the end of the data section
+  const definitions = [
+    `#${measureId} = LENGTH_MEASURE_WITH_UNIT(LENGTH_MEASURE(${mm}),#${mmId});`,
+    `#${exponentsId} = DIMENSIONAL_EXPONENTS(1.,0.,0.,0.,0.,0.,0.);`,
+    `#${mmId} = ${STEP_MM_UNIT};`,
+  ].join(`\n`);
+  const end = result.lastIndexOf(`ENDSEC;`);
+  return `${result.slice(0, end)}${definitions}\n${result.slice(end)}`;
+}
+
 /**
  * Import a shape from STEP format.
  */
 export function importSTEP(data: Uint8Array): ImportResult {
   const oc = getOC();
 
-  const filename = "import.step";
+  const filename = "in.step";
 
   try {
     // Write to Emscripten filesystem
@@ -119,7 +327,7 @@ export function importSTEP(data: Uint8Array): ImportResult {
 export function exportBREP(shape: Shape): Uint8Array {
   const oc = getOC();
 
-  const filename = "export.brep";
+  const filename = "out.brep";
   // Use BRepTools.Write_1 which takes (shape, filename) without progress
   const result = oc.BRepTools.Write_1(shape.raw, filename);
 
@@ -143,7 +351,7 @@ export function exportBREP(shape: Shape): Uint8Array {
 export function importBREP(data: Uint8Array): ImportResult {
   const oc = getOC();
 
-  const filename = "import.brep";
+  const filename = "in.brep";
 
   try {
     oc.FS.writeFile(filename, data);
@@ -179,3 +387,149 @@ export function importBREP(data: Uint8Array): ImportResult {
     };
   }
 }
+
+/**
+ * Export a shape to IGES format.
+ *
+ * Written as trimmed surfaces in millimetres, which every IGES reader
+ * understands; importIGES sews them back into a solid.
+ */
+export function exportIGES(shape: Shape): Uint8Array {
+  const oc = getOC();
+
+  // Mode 0 writes faces (type 144), mode 1 the rarely supported BRep entities
+  const writer = new oc.IGESControl_Writer_2("MM", 0);
+  const filename = "out.igs";
+
+  try {
+    if (!writer.AddShape(shape.raw)) {
+      throw new Error(`Failed to export IGES file`);
+    }
+    writer.ComputeModel();
+    if (!writer.Write_2(filename, false)) {
+      throw new Error(`Failed to export IGES file`);
+    }
+
+    const fileData = oc.FS.readFile(filename);
+    try {
+      oc.FS.unlink(filename);
+    } catch {
+      // Ignore cleanup errors
+    }
+    return new Uint8Array(fileData);
+  } finally {
+    writer.delete();
+  }
+}
+
+/**
+ * Import a shape from IGES format.
+ *
+ * IGES usually carries loose trimmed surfaces, so faces that close up are
+ * sewn into solids. Surfaces that do not close are kept as open shells.
+ */
+export function importIGES(data: Uint8Array): ImportResult {
+  const oc = getOC();
+
+  const filename = "in.igs";
+
+  try {
+    oc.FS.writeFile(filename, data);
+
+    const reader = new oc.IGESControl_Reader_1();
+    const status = reader.ReadFile(filename);
+
+    try {
+      oc.FS.unlink(filename);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    if (status !== oc.IFSelect_ReturnStatus.IFSelect_RetDone) {
+      reader.delete();
+      return { success: false, error: `Failed to read IGES file` };
+    }
+
+    reader.TransferRoots();
+    const shape = reader.OneShape();
+    reader.delete();
+
+    if (shape.IsNull()) {
+      return { success: false, error: `No shapes found in IGES file` };
+    }
+
+    return { success: true, shape: new Shape(sewIntoSolids(shape)) };
+  } catch (e) {
+    try {
+      oc.FS.unlink(filename);
+    } catch {
+      // Ignore cleanup errors
+    }
+    return {
+      success: false,
+      error: e instanceof Error ? e.message : `Unknown import error`,
+    };
+  }
+}
+
+/**
+ * Sew the faces of a shape that has no solids into closed shells and fill
+ * each one. Shapes that already contain a solid are returned unchanged.
+ */
+function sewIntoSolids(shape: TopoDS_Shape): TopoDS_Shape {
+  const oc = getOC();
+
+  const solids = new oc.TopExp_Explorer_2(
+    shape,
+    oc.TopAbs_ShapeEnum.TopAbs_SOLID,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  const hasSolid = solids.More();
+  solids.delete();
+  if (hasSolid) return shape;
+
+  const sewing = new oc.BRepBuilderAPI_Sewing(1e-6, true, true, true, false);
+  const progress = new oc.Handle_Message_ProgressIndicator_1();
+  try {
+    sewing.Add(shape);
+    sewing.Perform(progress);
+    const sewn = sewing.SewedShape();
+
+    const builder = new oc.BRep_Builder();
+    const result = new oc.TopoDS_Compound();
+    builder.MakeCompound(result);
+
+    const shells = new oc.TopExp_Explorer_2(
+      sewn,
+      oc.TopAbs_ShapeEnum.TopAbs_SHELL,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+    let count = 0;
+    let last: TopoDS_Shape = sewn;
+    for (; shells.More(); shells.Next()) {
+      const shell = oc.TopoDS.Shell_1(shells.Current());
+      last = shell;
+      if (oc.BRep_Tool.IsClosed_1(shell)) {
+        const maker = new oc.BRepBuilderAPI_MakeSolid_3(shell);
+        const solid = maker.Solid();
+        maker.delete();
+
+        // Sewn shells may face inward, which gives a negative volume
+        const props = new oc.GProp_GProps_1();
+        oc.BRepGProp.VolumeProperties_1(solid, props, false, false, false);
+        last = props.Mass() < 0 ? solid.Reversed() : solid;
+        props.delete();
+      }
+      builder.Add(result, last);
+      count++;
+    }
+    shells.delete();
+    builder.delete();
+
+    if (count === 0) return sewn;
+    return count === 1 ? last : result;
+  } finally {
+    progress.delete();
+    sewing.delete();
+  }
+}
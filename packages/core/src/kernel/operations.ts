@@ -8,7 +8,8 @@
 
 import { getOC } from "./init.js";
 import { Shape } from "./Shape.js";
-import type { TopoDS_Shape, TopoDS_Edge } from "opencascade.js";
+import { getBoundingBox } from "./tessellate.js";
+import type { TopoDS_Shape, TopoDS_Edge, TopoDS_Face } from "opencascade.js";
 // Type declarations are in ./opencascade.d.ts
 
 export type BooleanOp = `union` | `subtract` | `intersect`;
@@ -478,6 +479,445 @@ export function extrudeSymmetric(
   return shape;
 }
 
+/**
+ * Extrude a face with its side faces tapered by a draft angle, with OCCT
+ * history information.
+ *
+ * Positive angles taper inward, so the outer boundary shrinks away from the
+ * profile plane and holes grow; negative angles taper outward. Each boundary
+ * wire is lofted to an offset copy of itself at the far end, and the holes are
+ * cut from the outer loft. Side faces keep the profile edge index they were
+ * generated from, counted the same way as extrudeWithHistory.
+ */
+export function extrudeDraftedWithHistory(
+  profile: Shape,
+  direction: [number, number, number],
+  distance: number,
+  draftAngle: number
+): ExtrudeWithHistoryResult {
+  if (draftAngle === 0) {
+    return extrudeWithHistory(profile, direction, distance);
+  }
+  if (distance < 0) {
+    const reversed: [number, number, number] = [-direction[0], -direction[1], -direction[2]];
+    return extrudeDraftedWithHistory(profile, reversed, -distance, draftAngle);
+  }
+  if (Math.abs(draftAngle) >= 90) {
+    throw new Error(`Draft angle must be between -90 and 90 degrees`);
+  }
+
+  const oc = getOC();
+  const inset = distance * Math.tan((draftAngle * Math.PI) / 180);
+  const edgeIndices = profileEdgeIndices(profile);
+  const face = oc.TopoDS.Face_1(profile.raw);
+  const outerWire = oc.BRepTools.OuterWire(face);
+
+  let outer: ExtrudeWithHistoryResult | undefined;
+  const holes: ExtrudeWithHistoryResult[] = [];
+  const wires = new oc.TopExp_Explorer_2(
+    face,
+    oc.TopAbs_ShapeEnum.TopAbs_WIRE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  try {
+    while (wires.More()) {
+      const wire = new Shape(wires.Current());
+      const isOuter = wires.Current().IsSame(outerWire);
+      const end = offsetWire(wire, isOuter ? -inset : inset, direction, distance);
+      try {
+        const loft = loftWithHistory([wire, end], true);
+        if (isOuter) {
+          outer = loft;
+        } else {
+          holes.push(loft);
+        }
+      } catch {
+        throw new Error(`Draft angle is too large for the profile`);
+      } finally {
+        end.dispose();
+      }
+      wires.Next();
+    }
+  } finally {
+    wires.delete();
+  }
+  if (!outer) {
+    throw new Error(`Profile has no outer boundary`);
+  }
+
+  let result: ExtrudeWithHistoryResult = {
+    ...outer,
+    sideFaceMappings: withProfileEdgeIndices(outer.sideFaceMappings, edgeIndices),
+  };
+  for (const hole of holes) {
+    const cut = booleanOpWithHistory(result.shape, hole.shape, `subtract`);
+    result.shape.dispose();
+    hole.shape.dispose();
+    if (!cut.success || !cut.shape) {
+      throw new Error(cut.error ?? `Drafted extrude failed`);
+    }
+    const fromBase = historyImage(cut.baseFaceMap);
+    const fromHole = historyImage(cut.toolFaceMap);
+    result = {
+      shape: cut.shape,
+      firstShapeHash: fromBase(result.firstShapeHash),
+      lastShapeHash: fromBase(result.lastShapeHash),
+      sideFaceMappings: [
+        ...remapSideFaces(result.sideFaceMappings, fromBase),
+        ...remapSideFaces(withProfileEdgeIndices(hole.sideFaceMappings, edgeIndices), fromHole),
+      ],
+    };
+  }
+  return result;
+}
+
+/**
+ * Join the two sides of a two-sided extrude into one solid.
+ *
+ * The end of the first side becomes the top cap and the end of the second side
+ * the bottom cap. Side faces are named after the first side. The input shapes
+ * are left for the caller to dispose.
+ */
+export function joinExtrudeSides(
+  first: ExtrudeWithHistoryResult,
+  second: ExtrudeWithHistoryResult
+): ExtrudeWithHistoryResult {
+  const fused = booleanOpWithHistory(first.shape, second.shape, `union`);
+  if (!fused.success || !fused.shape) {
+    throw new Error(fused.error ?? `Two-sided extrude failed`);
+  }
+
+  const fromFirst = historyImage(fused.baseFaceMap);
+  const fromSecond = historyImage(fused.toolFaceMap);
+  return {
+    shape: fused.shape,
+    firstShapeHash: fromSecond(second.lastShapeHash),
+    lastShapeHash: fromFirst(first.lastShapeHash),
+    sideFaceMappings: remapSideFaces(first.sideFaceMappings, fromFirst),
+  };
+}
+
+/**
+ * Index of each profile edge, in the order extrudeWithHistory counts them.
+ */
+function profileEdgeIndices(profile: Shape): Map<number, number> {
+  const oc = getOC();
+  const indices = new Map<number, number>();
+  const explorer = new oc.TopExp_Explorer_2(
+    profile.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (explorer.More()) {
+    const hash = explorer.Current().HashCode(0x7fffffff);
+    if (!indices.has(hash)) {
+      indices.set(hash, indices.size);
+    }
+    explorer.Next();
+  }
+  explorer.delete();
+  return indices;
+}
+
+/**
+ * Renumber side face mappings by their edge's index in the whole profile.
+ */
+function withProfileEdgeIndices(
+  mappings: ProfileEdgeToFaceMapping[],
+  edgeIndices: Map<number, number>
+): ProfileEdgeToFaceMapping[] {
+  return mappings.flatMap((m) => {
+    const profileEdgeIndex = edgeIndices.get(m.profileEdgeHash);
+    return profileEdgeIndex === undefined ? [] : [{ ...m, profileEdgeIndex }];
+  });
+}
+
+/**
+ * Follow side faces through a boolean, dropping any that were deleted.
+ */
+function remapSideFaces(
+  mappings: ProfileEdgeToFaceMapping[],
+  image: (hash: number | undefined) => number | undefined
+): ProfileEdgeToFaceMapping[] {
+  return mappings.flatMap((m) => {
+    const generatedFaceHash = image(m.generatedFaceHash);
+    return generatedFaceHash === undefined ? [] : [{ ...m, generatedFaceHash }];
+  });
+}
+
+/**
+ * Look up the first output face of an input face in boolean face history.
+ */
+function historyImage(
+  faceMap: FaceHistoryMapping[] | undefined
+): (hash: number | undefined) => number | undefined {
+  const outputs = new Map((faceMap ?? []).map((m) => [m.inputHash, m.outputHashes]));
+  return (hash) => (hash === undefined ? undefined : outputs.get(hash)?.[0]);
+}
+
+/**
+ * Offset a closed planar wire within its plane and move it along a direction.
+ *
+ * Positive amounts grow the area the wire encloses and negative amounts
+ * shrink it, whichever way the wire is oriented.
+ */
+function offsetWire(
+  wire: Shape,
+  amount: number,
+  direction: [number, number, number],
+  distance: number
+): Shape {
+  const oc = getOC();
+
+  const offsetBy = (value: number): Shape => {
+    const builder = new oc.BRepOffsetAPI_MakeOffset_3(
+      oc.TopoDS.Wire_1(wire.raw),
+      oc.GeomAbs_JoinType.GeomAbs_Intersection,
+      false
+    );
+    builder.Perform(value, 0);
+    const result = new Shape(builder.Shape());
+    builder.delete();
+    return result;
+  };
+
+  const before = boundingDiagonal([wire]);
+  let offset = offsetBy(amount);
+  if (boundingDiagonal([offset]) > before !== amount > 0) {
+    offset.dispose();
+    offset = offsetBy(-amount);
+  }
+
+  const moved = translate(
+    offset,
+    direction[0] * distance,
+    direction[1] * distance,
+    direction[2] * distance
+  );
+  offset.dispose();
+  return moved;
+}
+
+/**
+ * What an up-to extrude stops at: one face of a shape, or the whole shape.
+ */
+export type ExtrudeUpToLimit =
+  | { kind: `face`; shape: Shape; faceIndex: number }
+  | { kind: `body`; shape: Shape };
+
+/**
+ * Extrude a face up to a face or body, with OCCT history information.
+ *
+ * The profile is extruded well past the limit and then trimmed by it. A face
+ * limit removes everything swept beyond the face along the direction (planar
+ * faces are first extended so they cut across the whole prism); a body limit
+ * removes the body itself. Only pieces still attached to the profile are kept,
+ * so the result ends where it first reaches the limit, whether the limit is
+ * parallel to the profile, slanted or curved.
+ *
+ * A positive offset stops short of the limit and a negative one runs past it,
+ * measured along the direction. The end faces come from the limit; the first
+ * of them is reported as the top cap.
+ */
+export function extrudeUpToWithHistory(
+  profile: Shape,
+  direction: [number, number, number],
+  limit: ExtrudeUpToLimit,
+  offset: number = 0
+): ExtrudeWithHistoryResult {
+  const disposables: Shape[] = [];
+
+  try {
+    // Long enough to cross the limit from anywhere on the profile
+    const reach = 2 * boundingDiagonal([profile, limit.shape]) + Math.abs(offset) + 1;
+    const prism = extrudeWithHistory(profile, direction, reach);
+    disposables.push(prism.shape);
+
+    let tool = limit.shape;
+    if (limit.kind === `face`) {
+      tool = sweptBeyondFace(limit.shape, limit.faceIndex, direction, reach);
+      disposables.push(tool);
+    }
+    if (offset !== 0) {
+      tool = translate(
+        tool,
+        -direction[0] * offset,
+        -direction[1] * offset,
+        -direction[2] * offset
+      );
+      disposables.push(tool);
+    }
+
+    const cut = booleanOpWithHistory(prism.shape, tool, `subtract`);
+    if (!cut.success || !cut.shape) {
+      throw new Error(cut.error ?? `Up-to extrude failed`);
+    }
+    disposables.push(cut.shape);
+
+    const baseFaces = new Map((cut.baseFaceMap ?? []).map((m) => [m.inputHash, m.outputHashes]));
+    const startFaces =
+      prism.firstShapeHash !== undefined ? (baseFaces.get(prism.firstShapeHash) ?? []) : [];
+    const kept = keepSolidsWithFaces(cut.shape, new Set(startFaces));
+    if (!kept) {
+      throw new Error(`Extrude profile starts inside the limit`);
+    }
+
+    const endFaces = (cut.toolFaceMap ?? [])
+      .flatMap((m) => m.outputHashes)
+      .filter((hash) => kept.faceHashes.has(hash));
+    if (endFaces.length === 0) {
+      kept.shape.dispose();
+      throw new Error(`Extrude does not reach the limit`);
+    }
+
+    // Follow each prism face onto its trimmed piece in the kept solids
+    const trimmed = (hash: number | undefined) =>
+      hash === undefined
+        ? undefined
+        : (baseFaces.get(hash) ?? []).find((output) => kept.faceHashes.has(output));
+
+    return {
+      shape: kept.shape,
+      firstShapeHash: trimmed(prism.firstShapeHash),
+      lastShapeHash: endFaces[0],
+      sideFaceMappings: prism.sideFaceMappings.flatMap((m) => {
+        const generatedFaceHash = trimmed(m.generatedFaceHash);
+        return generatedFaceHash === undefined ? [] : [{ ...m, generatedFaceHash }];
+      }),
+    };
+  } finally {
+    for (const shape of disposables) {
+      shape.dispose();
+    }
+  }
+}
+
+/**
+ * Diagonal of the box bounding all the given shapes.
+ */
+function boundingDiagonal(shapes: Shape[]): number {
+  const oc = getOC();
+  const bbox = new oc.Bnd_Box_1();
+  for (const shape of shapes) {
+    oc.BRepBndLib.Add(shape.raw, bbox, false);
+  }
+  const diagonal = Math.sqrt(bbox.SquareExtent());
+  bbox.delete();
+  return diagonal;
+}
+
+/**
+ * Build the solid swept from a face of a shape along a direction.
+ *
+ * Planar faces are replaced by a square of their plane centred on the face,
+ * so the sweep covers anything within reach of it.
+ */
+function sweptBeyondFace(
+  shape: Shape,
+  faceIndex: number,
+  direction: [number, number, number],
+  reach: number
+): Shape {
+  const oc = getOC();
+
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  for (let i = 0; i < faceIndex && explorer.More(); i++) {
+    explorer.Next();
+  }
+  if (!explorer.More()) {
+    explorer.delete();
+    throw new Error(`Extrude limit face index out of range`);
+  }
+  const face = oc.TopoDS.Face_1(explorer.Current());
+  explorer.delete();
+
+  const surface = new oc.BRepAdaptor_Surface_2(face, true);
+  let limitFace: Shape;
+  try {
+    if (surface.GetType() === oc.GeomAbs_SurfaceType.GeomAbs_Plane) {
+      const center = surface.Value(
+        (surface.FirstUParameter() + surface.LastUParameter()) / 2,
+        (surface.FirstVParameter() + surface.LastVParameter()) / 2
+      );
+      const axis = surface.Plane().Axis().Direction();
+      const plane = new oc.gp_Pln_3(center, axis);
+      // _9 = (gp_Pln, UMin, UMax, VMin, VMax) constructor
+      const faceBuilder = new oc.BRepBuilderAPI_MakeFace_9(plane, -reach, reach, -reach, reach);
+      limitFace = new Shape(faceBuilder.Face());
+      faceBuilder.delete();
+      plane.delete();
+      axis.delete();
+      center.delete();
+    } else {
+      limitFace = new Shape(face);
+    }
+  } finally {
+    surface.delete();
+  }
+
+  const swept = extrude(limitFace, direction, reach);
+  limitFace.dispose();
+  return swept;
+}
+
+/**
+ * Keep the solids of a shape that contain any of the given faces.
+ *
+ * Returns a single solid, or a compound when several solids are kept, along
+ * with the hashes of every face they contain.
+ */
+function keepSolidsWithFaces(
+  shape: Shape,
+  faceHashes: Set<number>
+): { shape: Shape; faceHashes: Set<number> } | null {
+  const oc = getOC();
+  const kept: TopoDS_Shape[] = [];
+  const keptFaces = new Set<number>();
+
+  const solids = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_SOLID,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (solids.More()) {
+    const solid = solids.Current();
+    const solidFaces: number[] = [];
+    const faces = new oc.TopExp_Explorer_2(
+      solid,
+      oc.TopAbs_ShapeEnum.TopAbs_FACE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+    while (faces.More()) {
+      solidFaces.push(faces.Current().HashCode(0x7fffffff));
+      faces.Next();
+    }
+    faces.delete();
+
+    if (solidFaces.some((hash) => faceHashes.has(hash))) {
+      kept.push(solid);
+      solidFaces.forEach((hash) => keptFaces.add(hash));
+    }
+    solids.Next();
+  }
+  solids.delete();
+
+  if (kept.length === 0) {
+    return null;
+  }
+  if (kept.length === 1) {
+    return { shape: new Shape(kept[0]), faceHashes: keptFaces };
+  }
+
+  return {
+    shape: makeCompound(kept.map((solid) => new Shape(solid))),
+    faceHashes: keptFaces,
+  };
+}
+
 /**
  * Revolve a face or wire around an axis.
  */
@@ -644,89 +1084,1747 @@ export function revolveWithHistory(
 }
 
 /**
- * Add fillets to all edges of a shape.
+ * Extended sweep result with OCCT history info.
  */
-export function filletAllEdges(shape: Shape, radius: number): Shape {
-  const oc = getOC();
-  // Use correct enum access: ChFi3d_FilletShape.ChFi3d_Rational
-  const fillet = new oc.BRepFilletAPI_MakeFillet(shape.raw, oc.ChFi3d_FilletShape.ChFi3d_Rational);
-
-  // Add all edges
-  const explorer = new oc.TopExp_Explorer_2(
-    shape.raw,
-    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
-    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
-  );
-
-  while (explorer.More()) {
-    const edge = oc.TopoDS.Edge_1(explorer.Current());
-    fillet.Add_2(radius, edge);
-    explorer.Next();
-  }
-
-  // Build() works without progress parameter in this OpenCascade.js version
-  fillet.Build();
-  const result = new Shape(fillet.Shape());
-
-  explorer.delete();
-  fillet.delete();
-
-  return result;
+export interface SweepWithHistoryResult {
+  shape: Shape;
+  /** Face at the start of the path (the swept profile itself) */
+  firstShapeHash?: number;
+  /** Face at the end of the path */
+  lastShapeHash?: number;
+  /**
+   * Mappings from profile edges to generated side faces.
+   * A profile edge generates one face per path segment, so an index may repeat.
+   */
+  sideFaceMappings: ProfileEdgeToFaceMapping[];
 }
 
 /**
- * Add fillets to specific edges.
+ * Sweep a profile face along a path wire with OCCT history information.
+ *
+ * The profile is swept as positioned; it is not moved to the start of the path.
+ * Uses OCCT's Generated() API to map each profile edge to its side faces.
  */
-export function filletEdges(shape: Shape, radius: number, edges: TopoDS_Edge[]): Shape {
+export function sweepWithHistory(profile: Shape, path: Shape): SweepWithHistoryResult {
   const oc = getOC();
-  const fillet = new oc.BRepFilletAPI_MakeFillet(shape.raw, oc.ChFi3d_FilletShape.ChFi3d_Rational);
-
-  for (const edge of edges) {
-    fillet.Add_2(radius, edge);
-  }
-
-  fillet.Build();
-  const result = new Shape(fillet.Shape());
 
-  fillet.delete();
-
-  return result;
-}
-
-/**
- * Add chamfers to all edges of a shape.
- */
-export function chamferAllEdges(shape: Shape, distance: number): Shape {
-  const oc = getOC();
-  const chamfer = new oc.BRepFilletAPI_MakeChamfer(shape.raw);
+  const spine = oc.TopoDS.Wire_1(path.raw);
+  // MakePipe builds in its constructor
+  const pipe = new oc.BRepOffsetAPI_MakePipe_1(spine, profile.raw);
 
-  // Track added edges to avoid duplicates
-  const addedEdges = new Set<number>();
+  if (!pipe.IsDone()) {
+    pipe.delete();
+    throw new Error(`Sweep failed`);
+  }
 
-  // Explore all edges
-  const explorer = new oc.TopExp_Explorer_2(
-    shape.raw,
-    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
-    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
-  );
+  const shape = new Shape(pipe.Shape());
 
-  while (explorer.More()) {
-    const edge = oc.TopoDS.Edge_1(explorer.Current());
-    const hash = edge.HashCode(10000000);
+  let firstShapeHash: number | undefined;
+  let lastShapeHash: number | undefined;
 
-    if (!addedEdges.has(hash)) {
-      // _2 = (distance, edge) - symmetric chamfer
-      chamfer.Add_2(distance, edge);
-      addedEdges.add(hash);
+  try {
+    const first = pipe.FirstShape();
+    if (first && !first.IsNull()) {
+      firstShapeHash = first.HashCode(0x7fffffff);
     }
-    explorer.Next();
+    const last = pipe.LastShape();
+    if (last && !last.IsNull()) {
+      lastShapeHash = last.HashCode(0x7fffffff);
+    }
+  } catch {
+    // Caps are not available for closed paths
   }
 
-  chamfer.Build();
-  const result = new Shape(chamfer.Shape());
+  const sideFaceMappings: ProfileEdgeToFaceMapping[] = [];
 
-  explorer.delete();
-  chamfer.delete();
+  try {
+    const edgeExplorer = new oc.TopExp_Explorer_2(
+      profile.raw,
+      oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+
+    const processedEdges = new Set<number>();
+    let profileEdgeIndex = 0;
+
+    while (edgeExplorer.More()) {
+      const edge = edgeExplorer.Current();
+      const edgeHash = edge.HashCode(0x7fffffff);
+
+      if (!processedEdges.has(edgeHash)) {
+        processedEdges.add(edgeHash);
+
+        try {
+          // No list iterator in this OpenCascade.js version - drain the list instead
+          const generatedShapes = pipe.Generated(edge);
+          while (generatedShapes.Size() > 0) {
+            const generated = generatedShapes.First_1();
+            if (generated.ShapeType() === oc.TopAbs_ShapeEnum.TopAbs_FACE) {
+              sideFaceMappings.push({
+                profileEdgeHash: edgeHash,
+                generatedFaceHash: generated.HashCode(0x7fffffff),
+                profileEdgeIndex,
+              });
+            }
+            generatedShapes.RemoveFirst();
+          }
+        } catch {
+          // Generated() might fail for some edge types
+        }
+
+        profileEdgeIndex++;
+      }
+
+      edgeExplorer.Next();
+    }
+
+    edgeExplorer.delete();
+  } catch {
+    // Edge exploration might fail
+  }
+
+  pipe.delete();
+
+  return {
+    shape,
+    firstShapeHash,
+    lastShapeHash,
+    sideFaceMappings,
+  };
+}
+
+/**
+ * Extended loft result with OCCT history info.
+ */
+export interface LoftWithHistoryResult {
+  shape: Shape;
+  /** Face closing the first section */
+  firstShapeHash?: number;
+  /** Face closing the last section */
+  lastShapeHash?: number;
+  /** Mappings from edges of the first section to generated side faces */
+  sideFaceMappings: ProfileEdgeToFaceMapping[];
+}
+
+/**
+ * Loft a solid through an ordered list of section wires with OCCT history information.
+ *
+ * Ruled lofts join consecutive sections with straight faces; smooth lofts fit
+ * one surface through every section. Side faces are keyed by the edges of the
+ * first section.
+ */
+export function loftWithHistory(sections: Shape[], ruled: boolean): LoftWithHistoryResult {
+  const oc = getOC();
+
+  if (sections.length < 2) {
+    throw new Error(`Loft needs at least two sections`);
+  }
+
+  const loft = new oc.BRepOffsetAPI_ThruSections(true, ruled, 1e-6);
+  for (const section of sections) {
+    loft.AddWire(oc.TopoDS.Wire_1(section.raw));
+  }
+  loft.CheckCompatibility(true);
+  loft.Build();
+
+  if (!loft.IsDone()) {
+    loft.delete();
+    throw new Error(`Loft failed`);
+  }
+
+  const shape = new Shape(loft.Shape());
+
+  let firstShapeHash: number | undefined;
+  let lastShapeHash: number | undefined;
+
+  try {
+    const first = loft.FirstShape();
+    if (first && !first.IsNull()) {
+      firstShapeHash = first.HashCode(0x7fffffff);
+    }
+    const last = loft.LastShape();
+    if (last && !last.IsNull()) {
+      lastShapeHash = last.HashCode(0x7fffffff);
+    }
+  } catch {
+    // Caps might not be available
+  }
+
+  const sideFaceMappings: ProfileEdgeToFaceMapping[] = [];
+
+  try {
+    const edgeExplorer = new oc.TopExp_Explorer_2(
+      sections[0].raw,
+      oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+
+    const processedEdges = new Set<number>();
+    let profileEdgeIndex = 0;
+
+    while (edgeExplorer.More()) {
+      const edge = edgeExplorer.Current();
+      const edgeHash = edge.HashCode(0x7fffffff);
+
+      if (!processedEdges.has(edgeHash)) {
+        processedEdges.add(edgeHash);
+
+        try {
+          const face = loft.GeneratedFace(edge);
+          if (face && !face.IsNull()) {
+            sideFaceMappings.push({
+              profileEdgeHash: edgeHash,
+              generatedFaceHash: face.HashCode(0x7fffffff),
+              profileEdgeIndex,
+            });
+          }
+        } catch {
+          // GeneratedFace() might fail for some edge types
+        }
+
+        profileEdgeIndex++;
+      }
+
+      edgeExplorer.Next();
+    }
+
+    edgeExplorer.delete();
+  } catch {
+    // Edge exploration might fail
+  }
+
+  loft.delete();
+
+  return {
+    shape,
+    firstShapeHash,
+    lastShapeHash,
+    sideFaceMappings,
+  };
+}
+
+/**
+ * Result of an operation that reshapes a single solid, with OCCT history info.
+ * Used by shell, fillet and chamfer.
+ */
+export interface ModifyWithHistoryResult {
+  shape: Shape;
+  /** Face mappings from the input solid */
+  faceHistory: FaceHistoryMapping[];
+  /** Hashes of faces created by the operation (not traced to an input face) */
+  generatedFaceHashes: number[];
+}
+
+/**
+ * Hollow a solid into a thin-walled shell with OCCT history information.
+ *
+ * Faces listed in openFaceIndices (TopExp face order, as in Mesh.faceMap) are
+ * removed to leave openings. A negative offset grows the wall inward, a
+ * positive one outward. With no open faces the solid is hollowed into a
+ * closed shell by cutting its offset from it.
+ */
+export function shellWithHistory(
+  shape: Shape,
+  openFaceIndices: number[],
+  offset: number
+): ModifyWithHistoryResult {
+  const oc = getOC();
+
+  if (openFaceIndices.length === 0) {
+    return closedShellWithHistory(shape, offset);
+  }
+
+  const faces = new oc.TopTools_ListOfShape_1();
+  const wanted = new Set(openFaceIndices);
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+
+  const openHashes = new Set<number>();
+  let faceIndex = 0;
+  while (explorer.More()) {
+    if (wanted.has(faceIndex)) {
+      faces.Append_1(explorer.Current());
+      openHashes.add(explorer.Current().HashCode(0x7fffffff));
+    }
+    faceIndex++;
+    explorer.Next();
+  }
+  explorer.delete();
+
+  if (faces.Size() !== wanted.size) {
+    faces.delete();
+    throw new Error(`Shell open face index out of range`);
+  }
+
+  const builder = new oc.BRepOffsetAPI_MakeThickSolid_1();
+  try {
+    builder.MakeThickSolidByJoin(
+      shape.raw,
+      faces,
+      offset,
+      1e-3,
+      oc.BRepOffset_Mode.BRepOffset_Skin,
+      false,
+      false,
+      oc.GeomAbs_JoinType.GeomAbs_Arc,
+      false
+    );
+    builder.Build();
+
+    if (!builder.IsDone()) {
+      throw new Error(`Shell failed`);
+    }
+
+    // OCCT reports removed faces as modified into the rim of the opening;
+    // treat them as deleted so nothing keeps referring to them
+    const faceHistory = extractFaceHistory(builder, shape.raw).map((m) =>
+      openHashes.has(m.inputHash)
+        ? { inputHash: m.inputHash, outputHashes: [], isDeleted: true }
+        : m
+    );
+    const result = new Shape(builder.Shape());
+    return {
+      shape: result,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+    };
+  } finally {
+    builder.delete();
+    faces.delete();
+  }
+}
+
+/**
+ * Hollow a solid without openings by removing its offset copy.
+ *
+ * MakeThickSolid needs at least one face to remove, so a closed shell is
+ * built as a boolean between the solid and its offset instead.
+ */
+function closedShellWithHistory(shape: Shape, offset: number): ModifyWithHistoryResult {
+  const oc = getOC();
+
+  const offsetBuilder = new oc.BRepOffsetAPI_MakeOffsetShape_1();
+  let offsetShape: Shape;
+  try {
+    offsetBuilder.PerformByJoin(
+      shape.raw,
+      offset,
+      1e-3,
+      oc.BRepOffset_Mode.BRepOffset_Skin,
+      false,
+      false,
+      oc.GeomAbs_JoinType.GeomAbs_Arc,
+      false
+    );
+
+    if (!offsetBuilder.IsDone()) {
+      throw new Error(`Shell failed`);
+    }
+
+    offsetShape = new Shape(offsetBuilder.Shape());
+  } finally {
+    offsetBuilder.delete();
+  }
+
+  // Inward walls cut the shrunken copy out of the solid; outward walls cut the
+  // solid out of the grown copy
+  const inward = offset < 0;
+  const result = inward
+    ? booleanOpWithHistory(shape, offsetShape, `subtract`)
+    : booleanOpWithHistory(offsetShape, shape, `subtract`);
+  offsetShape.dispose();
+
+  if (!result.success || !result.shape) {
+    throw new Error(result.error ?? `Shell failed`);
+  }
+
+  const faceHistory = (inward ? result.baseFaceMap : result.toolFaceMap) ?? [];
+  return {
+    shape: result.shape,
+    faceHistory,
+    generatedFaceHashes: collectGeneratedFaceHashes(result.shape, faceHistory),
+  };
+}
+
+/**
+ * Find the faces of a result shape that no input face maps onto.
+ */
+function collectGeneratedFaceHashes(shape: Shape, faceHistory: FaceHistoryMapping[]): number[] {
+  const oc = getOC();
+  const traced = new Set(faceHistory.flatMap((m) => m.outputHashes));
+  const generated = new Set<number>();
+
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (explorer.More()) {
+    const hash = explorer.Current().HashCode(0x7fffffff);
+    if (!traced.has(hash)) {
+      generated.add(hash);
+    }
+    explorer.Next();
+  }
+  explorer.delete();
+
+  return [...generated];
+}
+
+/**
+ * A set of edges filleted with one radius.
+ */
+export interface FilletEdgeSet {
+  /** Edge indices in exploration order (as in the tessellation edgeMap) */
+  edgeIndices: number[];
+  radius: number;
+}
+
+/**
+ * A set of edges chamfered with one setback.
+ *
+ * Without distance2 or angle the chamfer is symmetric. distance2 gives a
+ * two-distance chamfer and angle (radians) a distance-angle chamfer; both are
+ * measured from the first face adjacent to each edge.
+ */
+export interface ChamferEdgeSet {
+  /** Edge indices in exploration order (as in the tessellation edgeMap) */
+  edgeIndices: number[];
+  distance: number;
+  distance2?: number;
+  angle?: number;
+}
+
+/**
+ * Look up edges by index, together with the first face that bounds each one.
+ *
+ * Edge indices follow the deduplicated TopExp order used by tessellation.
+ */
+function collectEdgesByIndex(
+  shape: Shape,
+  edgeIndices: number[]
+): Map<number, { edge: TopoDS_Edge; face: TopoDS_Face }> {
+  const oc = getOC();
+  const wanted = new Set(edgeIndices);
+  const edgesByHash = new Map<number, { index: number; edge: TopoDS_Edge }>();
+
+  const edgeExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  const seen = new Set<number>();
+  let edgeIndex = 0;
+  while (edgeExplorer.More()) {
+    const hash = edgeExplorer.Current().HashCode(0x7fffffff);
+    if (!seen.has(hash)) {
+      seen.add(hash);
+      if (wanted.has(edgeIndex)) {
+        edgesByHash.set(hash, {
+          index: edgeIndex,
+          edge: oc.TopoDS.Edge_1(edgeExplorer.Current()),
+        });
+      }
+      edgeIndex++;
+    }
+    edgeExplorer.Next();
+  }
+  edgeExplorer.delete();
+
+  const result = new Map<number, { edge: TopoDS_Edge; face: TopoDS_Face }>();
+  const faceExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (faceExplorer.More() && result.size < edgesByHash.size) {
+    const face = oc.TopoDS.Face_1(faceExplorer.Current());
+    const faceEdges = new oc.TopExp_Explorer_2(
+      face,
+      oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+    while (faceEdges.More()) {
+      const found = edgesByHash.get(faceEdges.Current().HashCode(0x7fffffff));
+      if (found && !result.has(found.index)) {
+        result.set(found.index, { edge: found.edge, face });
+      }
+      faceEdges.Next();
+    }
+    faceEdges.delete();
+    faceExplorer.Next();
+  }
+  faceExplorer.delete();
+
+  for (const index of edgeIndices) {
+    if (!result.has(index)) {
+      throw new Error(`Edge index ${index} out of range`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fillet sets of edges, each with its own radius, with OCCT history information.
+ */
+export function filletEdgesWithHistory(
+  shape: Shape,
+  edgeSets: FilletEdgeSet[]
+): ModifyWithHistoryResult {
+  const oc = getOC();
+  const edges = collectEdgesByIndex(
+    shape,
+    edgeSets.flatMap((set) => set.edgeIndices)
+  );
+
+  const fillet = new oc.BRepFilletAPI_MakeFillet(shape.raw, oc.ChFi3d_FilletShape.ChFi3d_Rational);
+  try {
+    for (const set of edgeSets) {
+      for (const index of set.edgeIndices) {
+        fillet.Add_2(set.radius, edges.get(index)!.edge);
+      }
+    }
+
+    fillet.Build();
+    if (!fillet.IsDone()) {
+      throw new Error(`Fillet failed`);
+    }
+
+    const faceHistory = extractFaceHistory(fillet, shape.raw);
+    const result = new Shape(fillet.Shape());
+    return {
+      shape: result,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+    };
+  } finally {
+    fillet.delete();
+  }
+}
+
+/**
+ * Chamfer sets of edges, each with its own setback, with OCCT history information.
+ */
+export function chamferEdgesWithHistory(
+  shape: Shape,
+  edgeSets: ChamferEdgeSet[]
+): ModifyWithHistoryResult {
+  const oc = getOC();
+  const edges = collectEdgesByIndex(
+    shape,
+    edgeSets.flatMap((set) => set.edgeIndices)
+  );
+
+  const chamfer = new oc.BRepFilletAPI_MakeChamfer(shape.raw);
+  try {
+    for (const set of edgeSets) {
+      for (const index of set.edgeIndices) {
+        const { edge, face } = edges.get(index)!;
+        if (set.angle !== undefined) {
+          chamfer.AddDA(set.distance, set.angle, edge, face);
+        } else if (set.distance2 !== undefined) {
+          // _3 = (distance1, distance2, edge, face) - asymmetric chamfer
+          chamfer.Add_3(set.distance, set.distance2, edge, face);
+        } else {
+          chamfer.Add_2(set.distance, edge);
+        }
+      }
+    }
+
+    chamfer.Build();
+    if (!chamfer.IsDone()) {
+      throw new Error(`Chamfer failed`);
+    }
+
+    const faceHistory = extractFaceHistory(chamfer, shape.raw);
+    const result = new Shape(chamfer.Shape());
+    return {
+      shape: result,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+    };
+  } finally {
+    chamfer.delete();
+  }
+}
+
+/**
+ * Result of a draft with OCCT history info.
+ */
+export interface DraftWithHistoryResult extends ModifyWithHistoryResult {
+  /** Output face hashes of each drafted face, in the order the faces were given */
+  draftedFaceHashes: number[][];
+}
+
+/**
+ * Taper faces by an angle about a neutral plane, with OCCT history information.
+ *
+ * Each face is rotated about its intersection with the neutral plane, so it
+ * keeps its size on the plane and leans away from the pull direction. A
+ * positive angle makes the solid narrower along the pull direction.
+ *
+ * @param faceIndices - Faces to draft, in TopExp face order (as in Mesh.faceMap)
+ * @param pullDirection - Direction the part is pulled out of the mould
+ * @param neutralPlane - Plane where the drafted faces keep their position
+ * @param angle - Draft angle in radians
+ */
+export function draftFacesWithHistory(
+  shape: Shape,
+  faceIndices: number[],
+  pullDirection: [number, number, number],
+  neutralPlane: { origin: [number, number, number]; normal: [number, number, number] },
+  angle: number
+): DraftWithHistoryResult {
+  const oc = getOC();
+
+  const facesByIndex = new Map<number, { face: TopoDS_Face; hash: number }>();
+  const wanted = new Set(faceIndices);
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  let faceIndex = 0;
+  while (explorer.More()) {
+    if (wanted.has(faceIndex)) {
+      facesByIndex.set(faceIndex, {
+        face: oc.TopoDS.Face_1(explorer.Current()),
+        hash: explorer.Current().HashCode(0x7fffffff),
+      });
+    }
+    faceIndex++;
+    explorer.Next();
+  }
+  explorer.delete();
+
+  for (const index of faceIndices) {
+    if (!facesByIndex.has(index)) {
+      throw new Error(`Draft face index ${index} out of range`);
+    }
+  }
+
+  const direction = new oc.gp_Dir_4(pullDirection[0], pullDirection[1], pullDirection[2]);
+  const planeOrigin = new oc.gp_Pnt_3(...neutralPlane.origin);
+  const planeNormal = new oc.gp_Dir_4(...neutralPlane.normal);
+  const plane = new oc.gp_Pln_3(planeOrigin, planeNormal);
+  const draft = new oc.BRepOffsetAPI_DraftAngle_2(shape.raw);
+  try {
+    for (const index of faceIndices) {
+      draft.Add(facesByIndex.get(index)!.face, direction, angle, plane, true);
+      if (!draft.AddDone()) {
+        throw new Error(`Draft could not be applied to face ${index}`);
+      }
+    }
+
+    draft.Build();
+    if (!draft.IsDone()) {
+      throw new Error(`Draft failed`);
+    }
+
+    // DraftAngle reports face history through ModifiedShape, not Modified
+    const faceHistory = extractFaceHistory(
+      {
+        Modified: (face: TopoDS_Shape) => {
+          const modified = draft.ModifiedShape(face);
+          return { Size: () => 1, First_1: () => modified, Last_1: () => modified };
+        },
+        IsDeleted: () => false,
+      },
+      shape.raw
+    );
+    const outputsByHash = new Map(faceHistory.map((m) => [m.inputHash, m.outputHashes]));
+    const result = new Shape(draft.Shape());
+    return {
+      shape: result,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+      draftedFaceHashes: faceIndices.map(
+        (index) => outputsByHash.get(facesByIndex.get(index)!.hash) ?? []
+      ),
+    };
+  } finally {
+    draft.delete();
+    plane.delete();
+    planeNormal.delete();
+    planeOrigin.delete();
+    direction.delete();
+  }
+}
+
+/**
+ * What a face of a hole is: the bore wall, the bottom (flat or drill point),
+ * or part of a counterbore or countersink.
+ */
+export type HoleFaceRole = `wall` | `bottom` | `counterbore` | `counterboreFloor` | `countersink`;
+
+/**
+ * Shape of a hole, measured from the face it is drilled into.
+ */
+export interface HoleShape {
+  diameter: number;
+  /** Depth of the full-diameter bore, not counting a drill point */
+  depth: number;
+  counterbore?: { diameter: number; depth: number };
+  /** Countersink with its included angle in radians */
+  countersink?: { diameter: number; angle: number };
+  /** Included angle of a drill point in radians (omit for a flat bottom) */
+  tipAngle?: number;
+}
+
+/**
+ * A solid that cuts a hole, with the role of each of its faces.
+ */
+export interface HoleTool {
+  shape: Shape;
+  /** Role of each face of the tool, by face hash */
+  faceRoles: Map<number, HoleFaceRole>;
+}
+
+/**
+ * Build the solid removed by a hole, by revolving its half cross-section
+ * about the hole axis.
+ *
+ * @param origin - Centre of the hole on the face it starts from
+ * @param direction - Unit direction into the material
+ */
+export function makeHoleTool(
+  origin: [number, number, number],
+  direction: [number, number, number],
+  hole: HoleShape
+): HoleTool {
+  const radius = hole.diameter / 2;
+
+  // Cross-section as (radius, depth) points, with the role of the face each
+  // edge sweeps. The opening at the surface and the axis sweep no faces.
+  const section: Array<[number, number]> = [[0, 0]];
+  const roles: Array<HoleFaceRole | null> = [null];
+  if (hole.counterbore) {
+    const cbRadius = hole.counterbore.diameter / 2;
+    if (!(cbRadius > radius) || !(hole.counterbore.depth < hole.depth)) {
+      throw new Error(`Counterbore must be wider and shallower than the hole`);
+    }
+    section.push(
+      [cbRadius, 0],
+      [cbRadius, hole.counterbore.depth],
+      [radius, hole.counterbore.depth]
+    );
+    roles.push(`counterbore`, `counterboreFloor`);
+  } else if (hole.countersink) {
+    const csRadius = hole.countersink.diameter / 2;
+    const csDepth = (csRadius - radius) / Math.tan(hole.countersink.angle / 2);
+    if (!(csRadius > radius) || !(csDepth < hole.depth)) {
+      throw new Error(`Countersink must be wider and shallower than the hole`);
+    }
+    section.push([csRadius, 0], [radius, csDepth]);
+    roles.push(`countersink`);
+  } else {
+    section.push([radius, 0]);
+  }
+  section.push([radius, hole.depth]);
+  roles.push(`wall`);
+  const tipDepth = hole.tipAngle ? radius / Math.tan(hole.tipAngle / 2) : 0;
+  section.push([0, hole.depth + tipDepth]);
+  roles.push(`bottom`, null);
+
+  // Any direction perpendicular to the axis serves as the radial direction
+  const profile = makeAxialSection(origin, direction, perpendicularTo(direction), section);
+
+  const revolved = revolveWithHistory(profile, origin, direction, 360);
+  const faceRoles = new Map<number, HoleFaceRole>();
+  for (const mapping of revolved.sideFaceMappings) {
+    const role = roles[mapping.profileEdgeIndex];
+    if (role) {
+      faceRoles.set(mapping.generatedFaceHash, role);
+    }
+  }
+
+  return { shape: revolved.shape, faceRoles };
+}
+
+/**
+ * A unit direction perpendicular to `direction`.
+ */
+function perpendicularTo(direction: [number, number, number]): [number, number, number] {
+  const [dx, dy, dz] = direction;
+  const helper = Math.abs(dx) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const cross: [number, number, number] = [
+    helper[1] * dz - helper[2] * dy,
+    helper[2] * dx - helper[0] * dz,
+    helper[0] * dy - helper[1] * dx,
+  ];
+  const length = Math.hypot(...cross);
+  return [cross[0] / length, cross[1] / length, cross[2] / length];
+}
+
+/**
+ * Build a closed planar face from (radial, axial) points in the plane through
+ * an axis. Edge `i` runs from point `i` to point `i + 1`.
+ */
+function makeAxialSection(
+  origin: [number, number, number],
+  axis: [number, number, number],
+  radial: [number, number, number],
+  section: Array<[number, number]>
+): Shape {
+  const oc = getOC();
+  const toWorld = ([r, d]: [number, number]): [number, number, number] => [
+    origin[0] + radial[0] * r + axis[0] * d,
+    origin[1] + radial[1] * r + axis[1] * d,
+    origin[2] + radial[2] * r + axis[2] * d,
+  ];
+
+  const wireBuilder = new oc.BRepBuilderAPI_MakeWire_1();
+  for (let i = 0; i < section.length; i++) {
+    const start = toWorld(section[i]);
+    const end = toWorld(section[(i + 1) % section.length]);
+    const p1 = new oc.gp_Pnt_3(...start);
+    const p2 = new oc.gp_Pnt_3(...end);
+    const edge = new oc.BRepBuilderAPI_MakeEdge_3(p1, p2);
+    wireBuilder.Add_1(edge.Edge());
+    edge.delete();
+    p1.delete();
+    p2.delete();
+  }
+  const faceBuilder = new oc.BRepBuilderAPI_MakeFace_15(wireBuilder.Wire(), true);
+  const face = new Shape(faceBuilder.Face());
+  faceBuilder.delete();
+  wireBuilder.delete();
+  return face;
+}
+
+/**
+ * A helix about an axis.
+ */
+export interface HelixSpec {
+  /** Point on the axis where the helix starts */
+  origin: [number, number, number];
+  /** Unit axis direction; the helix rises along it */
+  axis: [number, number, number];
+  /** Unit direction from the axis to the start of the helix (default: any perpendicular) */
+  startDirection?: [number, number, number];
+  radius: number;
+  /** Rise per turn along the axis */
+  pitch: number;
+  /** Total rise along the axis */
+  height: number;
+  /** Turn clockwise looking down the axis (default: right-handed) */
+  leftHanded?: boolean;
+  /** Half-angle of the cone the helix lies on in radians; positive widens along the axis */
+  taperAngle?: number;
+}
+
+/**
+ * Build a helix as a single-edge wire.
+ *
+ * The helix is a straight line in the parameter space of the cylinder (or
+ * cone, when tapered) it lies on.
+ */
+export function makeHelix(spec: HelixSpec): Shape {
+  const oc = getOC();
+  const taper = spec.taperAngle ?? 0;
+  if (!(spec.radius > 0) || !(spec.pitch > 0) || !(spec.height > 0)) {
+    throw new Error(`Helix radius, pitch and height must be positive`);
+  }
+  if (!(Math.abs(taper) < Math.PI / 2)) {
+    throw new Error(`Helix taper must be less than 90 degrees`);
+  }
+  if (taper < 0 && spec.radius + spec.height * Math.tan(taper) <= 0) {
+    throw new Error(`Helix tapers to a point before it ends`);
+  }
+
+  const start = spec.startDirection ?? perpendicularTo(spec.axis);
+  const location = new oc.gp_Pnt_3(...spec.origin);
+  const axisDir = new oc.gp_Dir_4(...spec.axis);
+  const startDir = new oc.gp_Dir_4(...start);
+  const frame = new oc.gp_Ax3_3(location, axisDir, startDir);
+  const surface =
+    taper === 0
+      ? new oc.Geom_CylindricalSurface_1(frame, spec.radius)
+      : new oc.Geom_ConicalSurface_1(frame, taper, spec.radius);
+
+  // u is the angle about the axis; v runs along the surface's generatrix,
+  // which climbs the axis at cos(taper) per unit
+  const turns = spec.height / spec.pitch;
+  const rise = spec.pitch / Math.cos(taper);
+  const turn = spec.leftHanded ? -2 * Math.PI : 2 * Math.PI;
+  const lineStart = new oc.gp_Pnt2d_3(0, 0);
+  const lineDir = new oc.gp_Dir2d_4(turn, rise);
+  const line = new oc.Geom2d_Line_3(lineStart, lineDir);
+  const length = turns * Math.hypot(turn, rise);
+
+  const curveHandle = new oc.Handle_Geom2d_Curve_2(line);
+  const surfaceHandle = new oc.Handle_Geom_Surface_2(surface);
+  const edgeBuilder = new oc.BRepBuilderAPI_MakeEdge_31(curveHandle, surfaceHandle, 0, length);
+  if (!edgeBuilder.IsDone()) {
+    edgeBuilder.delete();
+    throw new Error(`Helix could not be built`);
+  }
+  const edge = edgeBuilder.Edge();
+  oc.BRepLib.BuildCurves3d_2(edge);
+  const wireBuilder = new oc.BRepBuilderAPI_MakeWire_2(edge);
+  const wire = new Shape(wireBuilder.Wire());
+
+  wireBuilder.delete();
+  edgeBuilder.delete();
+  lineDir.delete();
+  lineStart.delete();
+  frame.delete();
+  startDir.delete();
+  axisDir.delete();
+  location.delete();
+  return wire;
+}
+
+/**
+ * Cross-section of a modelled thread.
+ */
+export interface ThreadProfile {
+  /** Radial depth of the thread */
+  depth: number;
+  /** Included flank angle in radians */
+  angle: number;
+  /** Cut outward into the material around a hole, rather than into a shaft */
+  internal: boolean;
+}
+
+/**
+ * The solid removed by a modelled thread, with the hashes of the faces swept
+ * by its two flanks (the one facing the start of the helix first).
+ */
+export interface ThreadTool {
+  shape: Shape;
+  flankFaceHashes: [number[], number[]];
+}
+
+/**
+ * Build the solid that cuts a thread groove along a helix, by sweeping a V
+ * profile along it. The profile sits on the helix and points into the
+ * material, overlapping the surface slightly so the cut leaves no sliver.
+ */
+export function makeThreadTool(helix: HelixSpec, profile: ThreadProfile): ThreadTool {
+  const oc = getOC();
+  const overlap = profile.depth * 0.1;
+  const halfWidth = (profile.depth + overlap) * Math.tan(profile.angle / 2);
+  if (!(profile.depth > 0) || !(profile.angle > 0 && profile.angle < Math.PI)) {
+    throw new Error(`Thread depth and flank angle must be positive`);
+  }
+  if (!(halfWidth < helix.pitch / 2)) {
+    throw new Error(`Thread profile is wider than the pitch`);
+  }
+
+  const startDirection = helix.startDirection ?? perpendicularTo(helix.axis);
+  const path = makeHelix({ ...helix, startDirection });
+
+  // (radial, axial) points about the start of the helix: the two flanks
+  // meet at the root, the third edge closes the profile outside the material
+  const inward = profile.internal ? 1 : -1;
+  const surface = -inward * overlap;
+  const section: Array<[number, number]> = [
+    [helix.radius + surface, -halfWidth],
+    [helix.radius + inward * profile.depth, 0],
+    [helix.radius + surface, halfWidth],
+  ];
+  const face = makeAxialSection(helix.origin, helix.axis, startDirection, section);
+  const outerWire = oc.BRepTools.OuterWire(oc.TopoDS.Face_1(face.raw));
+
+  const pipe = new oc.BRepOffsetAPI_MakePipeShell(oc.TopoDS.Wire_1(path.raw));
+  // Keep the profile upright by holding its binormal along the axis
+  const binormal = new oc.gp_Dir_4(...helix.axis);
+  pipe.SetMode_3(binormal);
+  pipe.Add_1(outerWire, false, false);
+  pipe.Build();
+  if (!pipe.IsDone() || !pipe.MakeSolid()) {
+    binormal.delete();
+    pipe.delete();
+    throw new Error(`Thread could not be swept along the helix`);
+  }
+
+  const flankFaceHashes: [number[], number[]] = [[], []];
+  const edgeExplorer = new oc.TopExp_Explorer_2(
+    outerWire,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  for (let edgeIndex = 0; edgeExplorer.More() && edgeIndex < 2; edgeIndex++) {
+    // No list iterator in this OpenCascade.js version - drain the list instead
+    const generated = pipe.Generated(edgeExplorer.Current());
+    while (generated.Size() > 0) {
+      flankFaceHashes[edgeIndex].push(generated.First_1().HashCode(0x7fffffff));
+      generated.RemoveFirst();
+    }
+    edgeExplorer.Next();
+  }
+  edgeExplorer.delete();
+
+  const shape = new Shape(pipe.Shape());
+  binormal.delete();
+  pipe.delete();
+  return { shape, flankFaceHashes };
+}
+
+/**
+ * A rib between an open profile and the walls of a body, with the faces it
+ * was built from.
+ */
+export interface RibTool {
+  shape: Shape;
+  /** Faces of the rib's flat sides: the one at the start of the direction first */
+  sideFaceHashes: [number[], number[]];
+  /** Faces swept from each region edge, by its index in the region */
+  edgeFaceHashes: number[][];
+}
+
+/**
+ * Build a rib from a planar region that reaches past the walls of a body.
+ *
+ * The region is swept along the direction into a slab and the body is cut
+ * from it. The rib is whatever is left touching the faces swept from the
+ * `pathEdges`; if that also touches a face swept from one of the `farEdges`,
+ * the body does not close the rib off and it fails.
+ *
+ * @param body - The body the rib joins
+ * @param region - Planar face of the rib's profile, at the start of the slab
+ * @param direction - Direction across the rib, normal to the region
+ * @param thickness - Thickness of the rib along the direction
+ * @param pathEdges - Region edges the rib grows from
+ * @param farEdges - Region edges the rib must not reach
+ */
+export function makeRibTool(
+  body: Shape,
+  region: Shape,
+  direction: [number, number, number],
+  thickness: number,
+  pathEdges: number[],
+  farEdges: number[]
+): RibTool {
+  const slab = extrudeWithHistory(region, direction, thickness);
+  try {
+    const cut = booleanOpWithHistory(slab.shape, body, `subtract`);
+    if (!cut.success || !cut.shape) {
+      throw new Error(cut.error ?? `Rib failed`);
+    }
+
+    const outputs = new Map((cut.baseFaceMap ?? []).map((m) => [m.inputHash, m.outputHashes]));
+    const image = (hash: number | undefined) =>
+      hash === undefined ? [] : (outputs.get(hash) ?? []);
+    const edgeFaces: number[][] = [];
+    for (const m of slab.sideFaceMappings) {
+      edgeFaces[m.profileEdgeIndex] = image(m.generatedFaceHash);
+    }
+
+    const kept = keepSolidsWithFaces(
+      cut.shape,
+      new Set(pathEdges.flatMap((edge) => edgeFaces[edge] ?? []))
+    );
+    cut.shape.dispose();
+    if (!kept) {
+      throw new Error(`Rib profile lies inside the body`);
+    }
+    if (
+      farEdges.some((edge) => (edgeFaces[edge] ?? []).some((hash) => kept.faceHashes.has(hash)))
+    ) {
+      kept.shape.dispose();
+      throw new Error(`Rib is not closed off by the body`);
+    }
+
+    const keptOnly = (hashes: number[]) => hashes.filter((hash) => kept.faceHashes.has(hash));
+    return {
+      shape: kept.shape,
+      sideFaceHashes: [keptOnly(image(slab.firstShapeHash)), keptOnly(image(slab.lastShapeHash))],
+      edgeFaceHashes: Array.from(edgeFaces, (hashes) => keptOnly(hashes ?? [])),
+    };
+  } finally {
+    slab.shape.dispose();
+  }
+}
+
+/**
+ * One solid left by splitting a shape, with OCCT history info.
+ */
+export interface SplitPieceShape extends ModifyWithHistoryResult {
+  /** 0 for a piece inside the splitting region, 1 for one outside it */
+  side: 0 | 1;
+  /** Faces of this piece cut by each region face, keyed by the region face's hash */
+  regionFaceHashes: Map<number, number[]>;
+}
+
+/**
+ * Split a solid into the pieces inside and outside a region.
+ *
+ * The region is a solid covering everything on one side of the splitting
+ * surface. Pieces inside it come first; on each side, pieces are ordered by
+ * the centre of their bounds along x, then y, then z. Face history is
+ * limited to the faces of each piece, so a face cut in two maps to one half
+ * in each piece.
+ */
+export function splitWithHistory(shape: Shape, region: Shape): SplitPieceShape[] {
+  const oc = getOC();
+  const pieces: SplitPieceShape[] = [];
+
+  for (const [side, op] of [
+    [0, `intersect`],
+    [1, `subtract`],
+  ] as const) {
+    const result = booleanOpWithHistory(shape, region, op);
+    if (!result.success || !result.shape) {
+      throw new Error(result.error ?? `Split failed`);
+    }
+
+    const sidePieces: Array<SplitPieceShape & { centre: number[] }> = [];
+    const solids = new oc.TopExp_Explorer_2(
+      result.shape.raw,
+      oc.TopAbs_ShapeEnum.TopAbs_SOLID,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+    while (solids.More()) {
+      const solid = new Shape(solids.Current());
+      const faces = new Set<number>();
+      const explorer = new oc.TopExp_Explorer_2(
+        solid.raw,
+        oc.TopAbs_ShapeEnum.TopAbs_FACE,
+        oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+      );
+      while (explorer.More()) {
+        faces.add(explorer.Current().HashCode(0x7fffffff));
+        explorer.Next();
+      }
+      explorer.delete();
+
+      const inPiece = (hashes: number[]) => hashes.filter((hash) => faces.has(hash));
+      const faceHistory = (result.baseFaceMap ?? []).map((m) => {
+        const outputHashes = inPiece(m.outputHashes);
+        return { inputHash: m.inputHash, outputHashes, isDeleted: outputHashes.length === 0 };
+      });
+      const box = getBoundingBox(solid);
+      sidePieces.push({
+        shape: solid,
+        side,
+        faceHistory,
+        generatedFaceHashes: collectGeneratedFaceHashes(solid, faceHistory),
+        regionFaceHashes: new Map(
+          (result.toolFaceMap ?? []).map((m) => [m.inputHash, inPiece(m.outputHashes)])
+        ),
+        centre: [0, 1, 2].map((k) => (box.min[k] + box.max[k]) / 2),
+      });
+      solids.Next();
+    }
+    solids.delete();
+    result.shape.dispose();
+
+    sidePieces.sort((a, b) => {
+      for (let k = 0; k < 3; k++) {
+        if (Math.abs(a.centre[k] - b.centre[k]) > 1e-6) return a.centre[k] - b.centre[k];
+      }
+      return 0;
+    });
+    for (const { centre: _centre, ...piece } of sidePieces) {
+      pieces.push(piece);
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * A solid grown from faces, with where each of its faces came from.
+ */
+export interface ThickenedShape {
+  shape: Shape;
+  /** The input faces, as faces of the solid (one list per input face) */
+  startFaceHashes: number[][];
+  /** Each input face's copy at the far side of the solid */
+  offsetFaceHashes: number[][];
+  /** Walls joining the free edges of the faces to their copies */
+  sideFaceHashes: number[];
+}
+
+/**
+ * Point at the middle of a face's parameter range, with the face's outward
+ * normal there.
+ */
+function sampleFace(face: TopoDS_Face): { point: number[]; normal: number[] } {
+  const oc = getOC();
+  const surface = new oc.BRepAdaptor_Surface_2(face, true);
+  const d1u = new oc.gp_Vec_1();
+  const d1v = new oc.gp_Vec_1();
+  const pnt = new oc.gp_Pnt_1();
+  try {
+    surface.D1(
+      (surface.FirstUParameter() + surface.LastUParameter()) / 2,
+      (surface.FirstVParameter() + surface.LastVParameter()) / 2,
+      pnt,
+      d1u,
+      d1v
+    );
+    const normal = d1u.Crossed(d1v);
+    const sign = face.Orientation_1() === oc.TopAbs_Orientation.TopAbs_REVERSED ? -1 : 1;
+    const length = normal.Magnitude() || 1;
+    const result = {
+      point: [pnt.X(), pnt.Y(), pnt.Z()],
+      normal: [normal.X(), normal.Y(), normal.Z()].map((c) => (sign * c) / length),
+    };
+    normal.delete();
+    return result;
+  } finally {
+    pnt.delete();
+    d1v.delete();
+    d1u.delete();
+    surface.delete();
+  }
+}
+
+/**
+ * Grow faces of a solid into a solid of their own, with OCCT history info.
+ *
+ * Each face is offset along its outward normal by the thickness (into the
+ * solid when negative) and joined to its copy by walls along the free edges
+ * of the face set. Faces that share edges are thickened together.
+ *
+ * @param faceIndices - Faces to thicken, in TopExp face order (as in Mesh.faceMap)
+ */
+export function thickenFacesWithHistory(
+  shape: Shape,
+  faceIndices: number[],
+  thickness: number
+): ThickenedShape {
+  const oc = getOC();
+
+  const facesByIndex = new Map<number, TopoDS_Face>();
+  const wanted = new Set(faceIndices);
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  let faceIndex = 0;
+  while (explorer.More()) {
+    if (wanted.has(faceIndex)) {
+      facesByIndex.set(faceIndex, oc.TopoDS.Face_1(explorer.Current()));
+    }
+    faceIndex++;
+    explorer.Next();
+  }
+  explorer.delete();
+
+  for (const index of faceIndices) {
+    if (!facesByIndex.has(index)) {
+      throw new Error(`Thicken face index ${index} out of range`);
+    }
+  }
+  // Copies, so the solid shares no topology with the one the faces came from
+  const faces = faceIndices.map((index) => {
+    const copy = new oc.BRepBuilderAPI_Copy_2(facesByIndex.get(index)!, true, false);
+    const face = oc.TopoDS.Face_1(copy.Shape());
+    copy.delete();
+    return face;
+  });
+
+  // Join the faces into shells along their shared edges; separate groups of
+  // faces are each thickened into a solid of their own
+  const sewing = new oc.BRepBuilderAPI_Sewing(1e-6, true, true, true, false);
+  const progress = new oc.Handle_Message_ProgressIndicator_1();
+  const solids: Shape[] = [];
+  try {
+    faces.forEach((face) => sewing.Add(face));
+    sewing.Perform(progress);
+
+    const sewn = sewing.SewedShape();
+    const groups: TopoDS_Shape[] = [];
+    if (sewn.ShapeType() === oc.TopAbs_ShapeEnum.TopAbs_COMPOUND) {
+      const children = new oc.TopoDS_Iterator_2(sewn, true, true);
+      for (; children.More(); children.Next()) {
+        groups.push(children.Value());
+      }
+      children.delete();
+    } else {
+      groups.push(sewn);
+    }
+
+    for (const group of groups) {
+      const builder = new oc.BRepOffset_MakeSimpleOffset_2(group, thickness);
+      try {
+        builder.SetBuildSolidFlag(true);
+        builder.Perform();
+        if (!builder.IsDone()) {
+          throw new Error(`Thicken failed`);
+        }
+
+        // Walls are built facing inward when growing along the normal
+        const solid = builder.GetResultShape();
+        const props = new oc.GProp_GProps_1();
+        oc.BRepGProp.VolumeProperties_1(solid, props, false, false, false);
+        solids.push(new Shape(props.Mass() < 0 ? solid.Reversed() : solid));
+        props.delete();
+      } finally {
+        builder.delete();
+      }
+    }
+  } catch (e) {
+    solids.forEach((solid) => solid.dispose());
+    throw e;
+  } finally {
+    progress.delete();
+    sewing.delete();
+  }
+
+  let result = solids[0];
+  if (solids.length > 1) {
+    result = makeCompound(solids);
+    solids.forEach((solid) => solid.dispose());
+  }
+
+  // MakeSimpleOffset reports no history, but it offsets each face's surface
+  // without reparameterising it, so a face's mid-parameter point is found on
+  // the solid where it started and again moved along its normal
+  const resultFaces: Array<{ hash: number; point: number[] }> = [];
+  const faceExplorer = new oc.TopExp_Explorer_2(
+    result.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (faceExplorer.More()) {
+    const face = oc.TopoDS.Face_1(faceExplorer.Current());
+    resultFaces.push({ hash: face.HashCode(0x7fffffff), point: sampleFace(face).point });
+    faceExplorer.Next();
+  }
+  faceExplorer.delete();
+
+  const tolerance = 1e-6 + 1e-4 * Math.abs(thickness);
+  const samples = faces.map(sampleFace);
+  const facesAt = (distance: number) =>
+    samples.map(({ point, normal }) => {
+      const target = point.map((c, k) => c + distance * normal[k]);
+      return resultFaces
+        .filter((face) => Math.hypot(...face.point.map((c, k) => c - target[k])) < tolerance)
+        .map((face) => face.hash);
+    });
+  const startFaceHashes = facesAt(0);
+  const offsetFaceHashes = facesAt(thickness);
+  const named = new Set([...startFaceHashes.flat(), ...offsetFaceHashes.flat()]);
+
+  return {
+    shape: result,
+    startFaceHashes,
+    offsetFaceHashes,
+    sideFaceHashes: resultFaces.map((face) => face.hash).filter((hash) => !named.has(hash)),
+  };
+}
+
+/**
+ * Result of offsetting faces of a solid, with OCCT history info.
+ */
+export interface OffsetFacesWithHistoryResult extends ModifyWithHistoryResult {
+  /** Each offset face in its new position (one list per input face) */
+  offsetFaceHashes: number[][];
+}
+
+/**
+ * Move faces of a solid along their normals, with OCCT history information.
+ *
+ * The slab between each face and its offset is added to the solid when the
+ * distance is positive and cut from it when negative, so the walls around a
+ * face are extended (or shortened) with it where they meet it square on.
+ *
+ * @param faceIndices - Faces to move, in TopExp face order (as in Mesh.faceMap)
+ */
+export function offsetFacesWithHistory(
+  shape: Shape,
+  faceIndices: number[],
+  distance: number
+): OffsetFacesWithHistoryResult {
+  const slab = thickenFacesWithHistory(shape, faceIndices, distance);
+  try {
+    const result = booleanOpWithHistory(shape, slab.shape, distance > 0 ? `union` : `subtract`);
+    if (!result.success || !result.shape) {
+      throw new Error(result.error ?? `Offset failed`);
+    }
+
+    const toolOutputs = new Map(
+      (result.toolFaceMap ?? []).map((m) => [m.inputHash, m.outputHashes])
+    );
+    const faceHistory = result.baseFaceMap ?? [];
+    return {
+      shape: result.shape,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result.shape, faceHistory),
+      offsetFaceHashes: slab.offsetFaceHashes.map((hashes) =>
+        hashes.flatMap((hash) => toolOutputs.get(hash) ?? [])
+      ),
+    };
+  } finally {
+    slab.shape.dispose();
+  }
+}
+
+/**
+ * Collect faces of a shape by index, in TopExp face order (as in Mesh.faceMap),
+ * with their hashes.
+ */
+function collectFacesByIndex(
+  shape: Shape,
+  faceIndices: number[],
+  label: string
+): Array<{ face: TopoDS_Face; hash: number }> {
+  const oc = getOC();
+  const facesByIndex = new Map<number, { face: TopoDS_Face; hash: number }>();
+  const wanted = new Set(faceIndices);
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  let faceIndex = 0;
+  while (explorer.More()) {
+    if (wanted.has(faceIndex)) {
+      facesByIndex.set(faceIndex, {
+        face: oc.TopoDS.Face_1(explorer.Current()),
+        hash: explorer.Current().HashCode(0x7fffffff),
+      });
+    }
+    faceIndex++;
+    explorer.Next();
+  }
+  explorer.delete();
+
+  return faceIndices.map((index) => {
+    const entry = facesByIndex.get(index);
+    if (!entry) {
+      throw new Error(`${label} face index ${index} out of range`);
+    }
+    return entry;
+  });
+}
+
+/**
+ * Whether a shape has any solid in it.
+ */
+function hasSolid(shape: Shape): boolean {
+  const oc = getOC();
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_SOLID,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  const found = explorer.More();
+  explorer.delete();
+  return found;
+}
+
+/**
+ * Follow face history through a second operation applied to the result of
+ * the first.
+ */
+function chainFaceHistory(
+  first: FaceHistoryMapping[],
+  second: FaceHistoryMapping[]
+): FaceHistoryMapping[] {
+  const next = new Map(second.map((m) => [m.inputHash, m.outputHashes]));
+  return first.map((m) => {
+    const outputHashes = [...new Set(m.outputHashes.flatMap((hash) => next.get(hash) ?? [hash]))];
+    return { inputHash: m.inputHash, outputHashes, isDeleted: outputHashes.length === 0 };
+  });
+}
+
+/**
+ * Remove faces from a solid and heal the gap, with OCCT history information.
+ *
+ * The faces around each removed face are extended until they close the
+ * solid again, so a fillet, chamfer, hole or boss can be taken off a body
+ * with no feature history (such as an imported one).
+ *
+ * @param faceIndices - Faces to remove, in TopExp face order (as in Mesh.faceMap)
+ */
+export function deleteFacesWithHistory(
+  shape: Shape,
+  faceIndices: number[]
+): ModifyWithHistoryResult {
+  const oc = getOC();
+  const faces = collectFacesByIndex(shape, faceIndices, `Delete`);
+
+  const builder = new oc.BRepAlgoAPI_Defeaturing();
+  try {
+    builder.SetShape(shape.raw);
+    faces.forEach(({ face }) => builder.AddFaceToRemove(face));
+    builder.SetToFillHistory(true);
+    builder.Build();
+
+    // Faces that cannot be removed are left in place rather than failing
+    const removed = new Set(faces.map(({ hash }) => hash));
+    const faceHistory = builder.IsDone() ? extractFaceHistory(builder, shape.raw) : [];
+    const deleted = new Set(faceHistory.filter((m) => m.isDeleted).map((m) => m.inputHash));
+    if ([...removed].some((hash) => !deleted.has(hash))) {
+      throw new Error(`Delete face failed: the gap could not be healed`);
+    }
+
+    const result = new Shape(builder.Shape());
+    return {
+      shape: result,
+      faceHistory,
+      generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+    };
+  } finally {
+    builder.delete();
+  }
+}
+
+/**
+ * Result of replacing faces of a solid, with OCCT history info.
+ */
+export interface ReplaceFacesWithHistoryResult extends ModifyWithHistoryResult {
+  /** Faces of the result lying on the replacement plane */
+  replacedFaceHashes: number[];
+}
+
+/**
+ * Replace planar faces of a solid with a plane, with OCCT history info.
+ *
+ * Each face is swept along its normal to the plane: material is added
+ * between the face and the plane where the plane lies outside the solid, and
+ * cut away where it lies inside, so the walls around the face are extended
+ * or trimmed to meet the plane. The plane may be tilted relative to the
+ * faces but not perpendicular to them.
+ *
+ * @param faceIndices - Faces to replace, in TopExp face order (as in Mesh.faceMap)
+ */
+export function replaceFacesWithHistory(
+  shape: Shape,
+  faceIndices: number[],
+  plane: { origin: [number, number, number]; normal: [number, number, number] }
+): ReplaceFacesWithHistoryResult {
+  const oc = getOC();
+  const faces = collectFacesByIndex(shape, faceIndices, `Replace`);
+
+  const length = Math.hypot(...plane.normal);
+  if (length < 1e-12) {
+    throw new Error(`Replace face plane needs a non-zero normal`);
+  }
+  const normal = plane.normal.map((c) => c / length) as [number, number, number];
+  const distanceTo = (point: number[]) =>
+    point.reduce((sum, c, k) => sum + (c - plane.origin[k]) * normal[k], 0);
+
+  const samples = faces.map(({ face }, i) => {
+    const surface = new oc.BRepAdaptor_Surface_2(face, true);
+    const planar = surface.GetType() === oc.GeomAbs_SurfaceType.GeomAbs_Plane;
+    surface.delete();
+    if (!planar) {
+      throw new Error(`Replace face ${faceIndices[i]} is not planar`);
+    }
+    const sample = sampleFace(face);
+    const facing = sample.normal.reduce((sum, c, k) => sum + c * normal[k], 0);
+    if (Math.abs(facing) < 1e-6) {
+      throw new Error(`Replace face ${faceIndices[i]} is perpendicular to the plane`);
+    }
+    return { ...sample, facing };
+  });
+
+  // Sweeps and plane regions long enough to reach across the solid and the
+  // plane from anywhere on it
+  const diagonal = boundingDiagonal([shape]);
+  const reach =
+    2 * (diagonal + Math.max(...samples.map(({ point }) => Math.abs(distanceTo(point))))) + 1;
+
+  const centre = samples[0].point.map((c, k) => c - distanceTo(samples[0].point) * normal[k]);
+  const origin = new oc.gp_Pnt_3(centre[0], centre[1], centre[2]);
+  const axis = new oc.gp_Dir_4(normal[0], normal[1], normal[2]);
+  const gpPlane = new oc.gp_Pln_3(origin, axis);
+  // _9 = (gp_Pln, UMin, UMax, VMin, VMax) constructor
+  const planeBuilder = new oc.BRepBuilderAPI_MakeFace_9(gpPlane, -reach, reach, -reach, reach);
+  const planeFace = new Shape(planeBuilder.Face());
+  planeBuilder.delete();
+  gpPlane.delete();
+  axis.delete();
+  origin.delete();
+
+  // Everything on each side of the plane within reach
+  const front = extrude(planeFace, normal, reach);
+  const back = extrude(planeFace, normal, -reach);
+  planeFace.dispose();
+
+  let result: Shape | null = null;
+  let faceHistory: FaceHistoryMapping[] = [];
+  try {
+    for (let i = 0; i < faces.length; i++) {
+      const { normal: outward, facing } = samples[i];
+      // The side of the plane the face's outward normal points away from
+      const inside = facing > 0 ? back : front;
+      const outside = facing > 0 ? front : back;
+      const copy = new oc.BRepBuilderAPI_Copy_2(faces[i].face, true, false);
+      const profile = new Shape(copy.Shape());
+      copy.delete();
+
+      try {
+        for (const [sweep, region, op] of [
+          [reach, inside, `union`],
+          [-reach, outside, `subtract`],
+        ] as const) {
+          const prism = extrude(profile, outward as [number, number, number], sweep);
+          const tool = booleanOp(prism, region, `intersect`);
+          prism.dispose();
+          if (!tool.success || !tool.shape) {
+            throw new Error(tool.error ?? `Replace face failed`);
+          }
+          // Nothing to add or cut where the face already meets the plane
+          if (!hasSolid(tool.shape)) {
+            tool.shape.dispose();
+            continue;
+          }
+
+          const step = booleanOpWithHistory(result ?? shape, tool.shape, op);
+          tool.shape.dispose();
+          if (!step.success || !step.shape) {
+            throw new Error(step.error ?? `Replace face failed`);
+          }
+          const history = step.baseFaceMap ?? [];
+          faceHistory = result ? chainFaceHistory(faceHistory, history) : history;
+          result?.dispose();
+          result = step.shape;
+        }
+      } finally {
+        profile.dispose();
+      }
+    }
+  } catch (e) {
+    result?.dispose();
+    throw e;
+  } finally {
+    front.dispose();
+    back.dispose();
+  }
+
+  if (!result) {
+    throw new Error(`Replace face: the faces already lie on the plane`);
+  }
+
+  // Faces on the plane, facing out of the solid on the side the faces did
+  const tolerance = 1e-6 * Math.max(1, diagonal);
+  const replacedFaceHashes: number[] = [];
+  const explorer = new oc.TopExp_Explorer_2(
+    result.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  while (explorer.More()) {
+    const face = oc.TopoDS.Face_1(explorer.Current());
+    const { point, normal: outward } = sampleFace(face);
+    const facing = outward.reduce((sum, c, k) => sum + c * normal[k], 0);
+    if (Math.abs(distanceTo(point)) < tolerance && Math.abs(Math.abs(facing) - 1) < 1e-6) {
+      replacedFaceHashes.push(face.HashCode(0x7fffffff));
+    }
+    explorer.Next();
+  }
+  explorer.delete();
+
+  return {
+    shape: result,
+    faceHistory,
+    generatedFaceHashes: collectGeneratedFaceHashes(result, faceHistory),
+    replacedFaceHashes,
+  };
+}
+
+/**
+ * Combine shapes into one compound.
+ */
+export function makeCompound(shapes: Shape[]): Shape {
+  const oc = getOC();
+  const compound = new oc.TopoDS_Compound();
+  const builder = new oc.BRep_Builder();
+  builder.MakeCompound(compound);
+  for (const shape of shapes) {
+    builder.Add(compound, shape.raw);
+  }
+  builder.delete();
+  return new Shape(compound);
+}
+
+/**
+ * Add fillets to all edges of a shape.
+ */
+export function filletAllEdges(shape: Shape, radius: number): Shape {
+  const oc = getOC();
+  // Use correct enum access: ChFi3d_FilletShape.ChFi3d_Rational
+  const fillet = new oc.BRepFilletAPI_MakeFillet(shape.raw, oc.ChFi3d_FilletShape.ChFi3d_Rational);
+
+  // Add all edges
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+
+  while (explorer.More()) {
+    const edge = oc.TopoDS.Edge_1(explorer.Current());
+    fillet.Add_2(radius, edge);
+    explorer.Next();
+  }
+
+  // Build() works without progress parameter in this OpenCascade.js version
+  fillet.Build();
+  const result = new Shape(fillet.Shape());
+
+  explorer.delete();
+  fillet.delete();
+
+  return result;
+}
+
+/**
+ * Add fillets to specific edges.
+ */
+export function filletEdges(shape: Shape, radius: number, edges: TopoDS_Edge[]): Shape {
+  const oc = getOC();
+  const fillet = new oc.BRepFilletAPI_MakeFillet(shape.raw, oc.ChFi3d_FilletShape.ChFi3d_Rational);
+
+  for (const edge of edges) {
+    fillet.Add_2(radius, edge);
+  }
+
+  fillet.Build();
+  const result = new Shape(fillet.Shape());
+
+  fillet.delete();
+
+  return result;
+}
+
+/**
+ * Add chamfers to all edges of a shape.
+ */
+export function chamferAllEdges(shape: Shape, distance: number): Shape {
+  const oc = getOC();
+  const chamfer = new oc.BRepFilletAPI_MakeChamfer(shape.raw);
+
+  // Track added edges to avoid duplicates
+  const addedEdges = new Set<number>();
+
+  // Explore all edges
+  const explorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+
+  while (explorer.More()) {
+    const edge = oc.TopoDS.Edge_1(explorer.Current());
+    const hash = edge.HashCode(10000000);
+
+    if (!addedEdges.has(hash)) {
+      // _2 = (distance, edge) - symmetric chamfer
+      chamfer.Add_2(distance, edge);
+      addedEdges.add(hash);
+    }
+    explorer.Next();
+  }
+
+  chamfer.Build();
+  const result = new Shape(chamfer.Shape());
+
+  explorer.delete();
+  chamfer.delete();
 
   return result;
 }
@@ -780,3 +2878,122 @@ export function rotate(
 
   return result;
 }
+
+/**
+ * Mirror a shape across a plane.
+ */
+export function mirror(
+  shape: Shape,
+  planeOrigin: [number, number, number],
+  planeNormal: [number, number, number]
+): Shape {
+  const oc = getOC();
+
+  const origin = new oc.gp_Pnt_3(planeOrigin[0], planeOrigin[1], planeOrigin[2]);
+  const normal = new oc.gp_Dir_4(planeNormal[0], planeNormal[1], planeNormal[2]);
+  const plane = new oc.gp_Ax2_3(origin, normal);
+
+  const trsf = new oc.gp_Trsf_1();
+  trsf.SetMirror_3(plane);
+
+  const transform = new oc.BRepBuilderAPI_Transform_2(shape.raw, trsf, true);
+  const result = new Shape(transform.Shape());
+
+  origin.delete();
+  normal.delete();
+  plane.delete();
+  trsf.delete();
+  transform.delete();
+
+  return result;
+}
+
+/**
+ * Scale a shape uniformly about the origin.
+ */
+export function scale(shape: Shape, factor: number): Shape {
+  const oc = getOC();
+
+  const origin = new oc.gp_Pnt_3(0, 0, 0);
+  const trsf = new oc.gp_Trsf_1();
+  trsf.SetScale(origin, factor);
+
+  const transform = new oc.BRepBuilderAPI_Transform_2(shape.raw, trsf, true);
+  const result = new Shape(transform.Shape());
+
+  origin.delete();
+  trsf.delete();
+  transform.delete();
+
+  return result;
+}
+
+/**
+ * A rigid transform or reflection applied to a whole shape.
+ */
+export type ShapeTransform =
+  | { kind: `translate`; vector: [number, number, number] }
+  | {
+      kind: `rotate`;
+      origin: [number, number, number];
+      axis: [number, number, number];
+      angleDegrees: number;
+    }
+  | { kind: `mirror`; origin: [number, number, number]; normal: [number, number, number] };
+
+/**
+ * Copy a shape under a rigid transform or reflection, with OCCT history information.
+ *
+ * A list of transforms is applied in order as one combined transform. Every
+ * face of the input maps to exactly one face of the copy, so the face
+ * history lets callers carry face origins onto the transformed instance.
+ */
+export function transformWithHistory(
+  shape: Shape,
+  transform: ShapeTransform | ShapeTransform[]
+): ModifyWithHistoryResult {
+  const oc = getOC();
+  const trsf = new oc.gp_Trsf_1();
+  const handles: { delete(): void }[] = [trsf];
+
+  try {
+    for (const step of Array.isArray(transform) ? transform : [transform]) {
+      const stepTrsf = new oc.gp_Trsf_1();
+      handles.push(stepTrsf);
+
+      if (step.kind === `translate`) {
+        const vec = new oc.gp_Vec_4(...step.vector);
+        handles.push(vec);
+        stepTrsf.SetTranslation_1(vec);
+      } else if (step.kind === `rotate`) {
+        const origin = new oc.gp_Pnt_3(...step.origin);
+        const dir = new oc.gp_Dir_4(...step.axis);
+        const axis = new oc.gp_Ax1_2(origin, dir);
+        handles.push(origin, dir, axis);
+        stepTrsf.SetRotation_1(axis, (step.angleDegrees * Math.PI) / 180);
+      } else {
+        const origin = new oc.gp_Pnt_3(...step.origin);
+        const normal = new oc.gp_Dir_4(...step.normal);
+        const plane = new oc.gp_Ax2_3(origin, normal);
+        handles.push(origin, normal, plane);
+        stepTrsf.SetMirror_3(plane);
+      }
+
+      // Later steps act on the result of earlier ones
+      trsf.PreMultiply(stepTrsf);
+    }
+
+    const builder = new oc.BRepBuilderAPI_Transform_2(shape.raw, trsf, true);
+    handles.push(builder);
+
+    return {
+      shape: new Shape(builder.Shape()),
+      faceHistory: extractFaceHistory(builder, shape.raw),
+      generatedFaceHashes: [],
+    };
+  } finally {
+    for (const handle of handles) {
+      handle.delete();
+    }
+  }
+}
@@ -6,6 +6,7 @@
 
 import { getOC } from "./init.js";
 import { Shape } from "./Shape.js";
+import { getFacePlane } from "./tessellate.js";
 
 /**
  * Create a box centered at origin or at a corner.
@@ -79,3 +80,187 @@ export function makeTorus(majorRadius: number, minorRadius: number): Shape {
   torus.delete();
   return shape;
 }
+
+/**
+ * Dimensions of a primitive solid. Boxes, cylinders and cones stand on their
+ * base, centred on the origin and rising along +Z; spheres and tori are
+ * centred on the origin with their axis along Z.
+ */
+export type PrimitiveSpec =
+  | { kind: `box`; width: number; depth: number; height: number }
+  | { kind: `cylinder`; radius: number; height: number }
+  | { kind: `sphere`; radius: number }
+  | { kind: `cone`; radius: number; topRadius: number; height: number }
+  | { kind: `torus`; majorRadius: number; minorRadius: number };
+
+/**
+ * Names of the faces of each primitive. A face's position in its list is its
+ * stable index.
+ */
+export const PRIMITIVE_FACE_NAMES = {
+  box: [`bottom`, `top`, `left`, `right`, `front`, `back`],
+  cylinder: [`bottom`, `top`, `side`],
+  sphere: [`surface`],
+  cone: [`bottom`, `top`, `side`],
+  torus: [`surface`],
+} as const;
+
+/**
+ * Name of a face of a primitive.
+ */
+export type PrimitiveFaceName = (typeof PRIMITIVE_FACE_NAMES)[PrimitiveSpec[`kind`]][number];
+
+/**
+ * Where a primitive is placed: its origin, the direction its Z axis takes and
+ * the direction its X axis takes.
+ */
+export interface PrimitiveFrame {
+  origin: [number, number, number];
+  normal: [number, number, number];
+  xDir: [number, number, number];
+}
+
+/**
+ * A placed primitive solid, with the name of each of its faces.
+ */
+export interface PrimitiveShape {
+  shape: Shape;
+  /** Name of each face of the solid, by face hash */
+  faceNames: Map<number, PrimitiveFaceName>;
+}
+
+/**
+ * Build a primitive solid and move it into place.
+ *
+ * Faces are named on the unplaced solid, from the direction each one faces;
+ * moving the solid keeps its faces in the same order.
+ */
+export function makePrimitive(spec: PrimitiveSpec, frame: PrimitiveFrame): PrimitiveShape {
+  const oc = getOC();
+  const local = makeLocalPrimitive(spec);
+  const names = namePrimitiveFaces(spec, local);
+
+  const handles: { delete(): void }[] = [];
+  try {
+    const origin = new oc.gp_Pnt_3(...frame.origin);
+    const normal = new oc.gp_Dir_4(...frame.normal);
+    const xDir = new oc.gp_Dir_4(...frame.xDir);
+    const placed = new oc.gp_Ax3_3(origin, normal, xDir);
+    const world = new oc.gp_Ax3_1();
+    const trsf = new oc.gp_Trsf_1();
+    handles.push(origin, normal, xDir, placed, world, trsf);
+    trsf.SetTransformation_1(world, placed);
+    trsf.Invert();
+
+    const builder = new oc.BRepBuilderAPI_Transform_2(local.raw, trsf, true);
+    handles.push(builder);
+    const shape = new Shape(builder.Shape());
+
+    const faceNames = new Map<number, PrimitiveFaceName>();
+    const explorer = new oc.TopExp_Explorer_2(
+      shape.raw,
+      oc.TopAbs_ShapeEnum.TopAbs_FACE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+    handles.push(explorer);
+    for (let index = 0; explorer.More(); index++, explorer.Next()) {
+      const name = names[index];
+      if (name) {
+        faceNames.set(explorer.Current().HashCode(0x7fffffff), name);
+      }
+    }
+
+    return { shape, faceNames };
+  } finally {
+    for (const handle of handles) {
+      handle.delete();
+    }
+    local.dispose();
+  }
+}
+
+/**
+ * Build a primitive at the origin.
+ */
+function makeLocalPrimitive(spec: PrimitiveSpec): Shape {
+  const positive = (...values: number[]) => values.every((value) => value > 0);
+  switch (spec.kind) {
+    case `box`: {
+      if (!positive(spec.width, spec.depth, spec.height)) {
+        throw new Error(`Box dimensions must be positive`);
+      }
+      const oc = getOC();
+      const corner1 = new oc.gp_Pnt_3(-spec.width / 2, -spec.depth / 2, 0);
+      const corner2 = new oc.gp_Pnt_3(spec.width / 2, spec.depth / 2, spec.height);
+      const box = new oc.BRepPrimAPI_MakeBox_3(corner1, corner2);
+      const shape = new Shape(box.Shape());
+      corner1.delete();
+      corner2.delete();
+      box.delete();
+      return shape;
+    }
+    case `cylinder`:
+      if (!positive(spec.radius, spec.height)) {
+        throw new Error(`Cylinder radius and height must be positive`);
+      }
+      return makeCylinder(spec.radius, spec.height);
+    case `sphere`:
+      if (!positive(spec.radius)) {
+        throw new Error(`Sphere radius must be positive`);
+      }
+      return makeSphere(spec.radius);
+    case `cone`:
+      if (!positive(spec.height) || spec.radius < 0 || spec.topRadius < 0) {
+        throw new Error(`Cone height must be positive and its radii not negative`);
+      }
+      if (Math.abs(spec.radius - spec.topRadius) < 1e-9) {
+        throw new Error(`Cone radii must differ`);
+      }
+      return makeCone(spec.radius, spec.topRadius, spec.height);
+    case `torus`:
+      if (!positive(spec.majorRadius, spec.minorRadius)) {
+        throw new Error(`Torus radii must be positive`);
+      }
+      if (spec.minorRadius >= spec.majorRadius) {
+        throw new Error(`Torus minor radius must be smaller than its major radius`);
+      }
+      return makeTorus(spec.majorRadius, spec.minorRadius);
+  }
+}
+
+/**
+ * Name each face of an unplaced primitive, in face order.
+ */
+function namePrimitiveFaces(spec: PrimitiveSpec, shape: Shape): PrimitiveFaceName[] {
+  const names: PrimitiveFaceName[] = [];
+  for (let index = 0; ; index++) {
+    const plane = getFacePlane(shape, index);
+    if (!plane) {
+      return names;
+    }
+    names.push(faceNameFromNormal(spec, plane.normal));
+  }
+}
+
+/**
+ * Name a face of an unplaced primitive from its outward normal.
+ */
+function faceNameFromNormal(
+  spec: PrimitiveSpec,
+  [x, y, z]: [number, number, number]
+): PrimitiveFaceName {
+  const alongZ = Math.abs(z) > 1 - 1e-6;
+  switch (spec.kind) {
+    case `box`:
+      if (Math.abs(x) > 0.5) return x < 0 ? `left` : `right`;
+      if (Math.abs(y) > 0.5) return y < 0 ? `front` : `back`;
+      return z < 0 ? `bottom` : `top`;
+    case `cylinder`:
+    case `cone`:
+      if (!alongZ) return `side`;
+      return z < 0 ? `bottom` : `top`;
+    case `sphere`:
+    case `torus`:
+      return `surface`;
+  }
+}
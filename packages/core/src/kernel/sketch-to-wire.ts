@@ -6,7 +6,7 @@
 
 import { getOC } from "./init.js";
 import { Shape } from "./Shape.js";
-import type { SketchProfile, ProfileLoop } from "../model/sketchProfile.js";
+import type { SketchProfile, SketchPath, ProfileLoop } from "../model/sketchProfile.js";
 import type { DatumPlane } from "../model/planes.js";
 import type { Vec2 } from "../num/vec2.js";
 import type { Vec3 } from "../num/vec3.js";
@@ -74,6 +74,32 @@ export function sketchProfileToFace(profile: SketchProfile): Shape {
   return new Shape(face);
 }
 
+/**
+ * Convert a SketchPath to an OCCT Wire (e.g. the spine of a sweep).
+ */
+export function sketchPathToWire(path: SketchPath): Shape {
+  if (path.curves.length === 0) {
+    throw new Error(`Path has no curves`);
+  }
+
+  const { origin, xDir, yDir } = path.plane.surface;
+  const wire = buildWireFromLoop({ curves: path.curves, isOuter: true }, origin, xDir, yDir);
+  return new Shape(wire);
+}
+
+/**
+ * Convert the outer loop of a SketchProfile to an OCCT Wire (e.g. a loft section).
+ */
+export function sketchProfileToWire(profile: SketchProfile): Shape {
+  if (profile.loops.length === 0) {
+    throw new Error(`Profile has no loops`);
+  }
+
+  const { origin, xDir, yDir } = profile.plane.surface;
+  const wire = buildWireFromLoop(profile.loops[0], origin, xDir, yDir);
+  return new Shape(wire);
+}
+
 /**
  * Build an OCCT wire from a profile loop.
  */
@@ -136,14 +162,10 @@ function buildWireFromLoop(loop: ProfileLoop, origin: Vec3, xDir: Vec3, yDir: Ve
         circle.delete();
         edgeBuilder.delete();
       } else {
-        // Create arc from angles
-        // Adjust angles if not CCW
-        let arcStart = startAngle;
-        let arcEnd = endAngle;
-        if (!ccw) {
-          arcStart = endAngle;
-          arcEnd = startAngle;
-        }
+        // Create arc from angles. Clockwise arcs run around the flipped
+        // normal, where the plane's y axis (and so each angle) is negated.
+        const arcStart = ccw ? startAngle : -startAngle;
+        const arcEnd = ccw ? endAngle : -endAngle;
 
         const circle = new oc.gp_Circ_2(axis, radius);
         const edgeBuilder = new oc.BRepBuilderAPI_MakeEdge_9(circle, arcStart, arcEnd);
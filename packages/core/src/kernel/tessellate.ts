@@ -198,6 +198,11 @@ export interface TessellatedMeshWithHashes extends TessellatedMesh {
    * Hash codes for each edge, indexed by edgeIndex.
    */
   edgeHashes: Uint32Array;
+  /**
+   * Face indices on either side of each edge (2 per edge, indexed by edgeIndex).
+   * -1 marks a missing side, e.g. for seam or free edges.
+   */
+  edgeFaces: Int32Array;
 }
 
 /**
@@ -303,9 +308,59 @@ export function tessellateWithHashes(
     edgeMap: edgeResult.edgeMap,
     faceHashes: new Uint32Array(faceHashes),
     edgeHashes: edgeResult.edgeHashes,
+    edgeFaces: computeEdgeFaces(shape, edgeResult.edgeHashes),
   };
 }
 
+/**
+ * Find the faces on either side of each edge.
+ *
+ * Faces are numbered in exploration order (as in faceMap) and edges by their
+ * position in edgeHashes.
+ */
+function computeEdgeFaces(shape: Shape, edgeHashes: Uint32Array): Int32Array {
+  const oc = getOC();
+  const edgeFaces = new Int32Array(edgeHashes.length * 2).fill(-1);
+
+  const edgeIndexByHash = new Map<number, number>();
+  edgeHashes.forEach((hash, index) => edgeIndexByHash.set(hash, index));
+
+  const faceExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+
+  let faceIndex = 0;
+  while (faceExplorer.More()) {
+    const edgeExplorer = new oc.TopExp_Explorer_2(
+      faceExplorer.Current(),
+      oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+      oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+    );
+
+    while (edgeExplorer.More()) {
+      const edgeIndex = edgeIndexByHash.get(edgeExplorer.Current().HashCode(0x7fffffff));
+      if (edgeIndex !== undefined) {
+        const slot = edgeIndex * 2;
+        if (edgeFaces[slot] === -1) {
+          edgeFaces[slot] = faceIndex;
+        } else if (edgeFaces[slot] !== faceIndex && edgeFaces[slot + 1] === -1) {
+          edgeFaces[slot + 1] = faceIndex;
+        }
+      }
+      edgeExplorer.Next();
+    }
+
+    edgeExplorer.delete();
+    faceExplorer.Next();
+    faceIndex++;
+  }
+
+  faceExplorer.delete();
+  return edgeFaces;
+}
+
 /**
  * Extract B-Rep edges with hash codes for OCCT history matching.
  */
@@ -508,6 +563,30 @@ function computeNormals(vertices: number[], indices: number[]): number[] {
   return normals;
 }
 
+/**
+ * Get the hash of each face of a shape, in face index order.
+ *
+ * @param shape - The shape whose faces to hash
+ */
+export function getFaceHashes(shape: Shape): number[] {
+  const oc = getOC();
+
+  const faceExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+
+  const hashes: number[] = [];
+  while (faceExplorer.More()) {
+    hashes.push(faceExplorer.Current().HashCode(0x7fffffff));
+    faceExplorer.Next();
+  }
+  faceExplorer.delete();
+
+  return hashes;
+}
+
 /**
  * Plane data extracted from a face.
  */
@@ -546,85 +625,209 @@ export function getFacePlane(shape: Shape, faceIndex: number): FacePlaneData | n
     if (currentIndex === faceIndex) {
       const face = oc.TopoDS.Face_1(faceExplorer.Current());
 
-      // Get the surface from the face
-      const surface = oc.BRep_Tool.Surface_2(face);
+      // Adapt the face so the parameter range is trimmed to the face itself
+      // (the underlying Geom_Surface of a plane is unbounded)
+      const surface = new oc.BRepAdaptor_Surface_2(face, true);
 
-      if (!surface.IsNull()) {
-        const surfaceHandle = surface.get();
+      // Sample at the center of the face's parameter space
+      const uMid = (surface.FirstUParameter() + surface.LastUParameter()) / 2;
+      const vMid = (surface.FirstVParameter() + surface.LastVParameter()) / 2;
 
-        // Surface handle (for potential future use with different surface types)
+      // Get point and derivatives to compute normal and tangent directions
+      const d1u = new oc.gp_Vec_1();
+      const d1v = new oc.gp_Vec_1();
+      const pnt = new oc.gp_Pnt_1();
+      surface.D1(uMid, vMid, pnt, d1u, d1v);
 
-        // Try to get plane parameters using the Geom_Surface interface
-        // Get a point and normal at UV = (0, 0) - this works for any surface type
-        const uMin = { current: 0 };
-        const uMax = { current: 0 };
-        const vMin = { current: 0 };
-        const vMax = { current: 0 };
-        surfaceHandle.Bounds(uMin, uMax, vMin, vMax);
+      // Compute normal from cross product of derivatives
+      const normal = d1u.Crossed(d1v);
+      const normalLen = normal.Magnitude();
 
-        // Sample at the center of the parameter space
-        const uMid = (uMin.current + uMax.current) / 2;
-        const vMid = (vMin.current + vMax.current) / 2;
+      if (normalLen > 1e-10) {
+        // Normalize
+        normal.Scale(1 / normalLen);
 
-        // Get point on surface
-        const point = surfaceHandle.Value(uMid, vMid);
+        // Use d1u as xDir (normalized)
+        const d1uLen = d1u.Magnitude();
+        if (d1uLen > 1e-10) {
+          d1u.Scale(1 / d1uLen);
+        }
 
-        // Get derivatives to compute normal and tangent directions
-        const d1u = new oc.gp_Vec_1();
-        const d1v = new oc.gp_Vec_1();
-        const pnt = new oc.gp_Pnt_1();
-        surfaceHandle.D1(uMid, vMid, pnt, d1u, d1v);
+        // Compute yDir as normal × xDir
+        const yDir = normal.Crossed(d1u);
 
-        // Compute normal from cross product of derivatives
-        const normal = d1u.Crossed(d1v);
-        const normalLen = normal.Magnitude();
+        // Handle face orientation
+        const isReversed = face.Orientation_1() === oc.TopAbs_Orientation.TopAbs_REVERSED;
+        const sign = isReversed ? -1 : 1;
 
-        if (normalLen > 1e-10) {
-          // Normalize
-          normal.Scale(1 / normalLen);
+        result = {
+          origin: [pnt.X(), pnt.Y(), pnt.Z()],
+          normal: [normal.X() * sign, normal.Y() * sign, normal.Z() * sign],
+          xDir: [d1u.X(), d1u.Y(), d1u.Z()],
+          yDir: [yDir.X() * sign, yDir.Y() * sign, yDir.Z() * sign],
+        };
 
-          // Use d1u as xDir (normalized)
-          const d1uLen = d1u.Magnitude();
-          if (d1uLen > 1e-10) {
-            d1u.Scale(1 / d1uLen);
-          }
+        yDir.delete();
+      }
 
-          // Compute yDir as normal × xDir
-          const yDir = normal.Crossed(d1u);
+      // Clean up
+      d1u.delete();
+      d1v.delete();
+      pnt.delete();
+      normal.delete();
+      surface.delete();
 
-          // Handle face orientation
-          const isReversed = face.Orientation_1() === oc.TopAbs_Orientation.TopAbs_REVERSED;
-          const sign = isReversed ? -1 : 1;
+      break;
+    }
 
-          result = {
-            origin: [point.X(), point.Y(), point.Z()],
-            normal: [normal.X() * sign, normal.Y() * sign, normal.Z() * sign],
-            xDir: [d1u.X(), d1u.Y(), d1u.Z()],
-            yDir: [yDir.X() * sign, yDir.Y() * sign, yDir.Z() * sign],
-          };
+    faceExplorer.Next();
+    currentIndex++;
+  }
 
-          // Clean up
-          d1u.delete();
-          d1v.delete();
-          pnt.delete();
-          normal.delete();
-          yDir.delete();
-        }
+  faceExplorer.delete();
+  return result;
+}
 
-        point.delete();
-      }
+/**
+ * Cylinder data from a cylindrical face
+ */
+export interface FaceCylinderData {
+  /** Point on the axis level with the start of the face */
+  origin: [number, number, number];
+  /** Unit axis direction */
+  axis: [number, number, number];
+  radius: number;
+  /** Length of the face along the axis */
+  length: number;
+  /** The face's normal points toward the axis (a hole rather than a shaft) */
+  internal: boolean;
+}
 
-      break;
-    }
+/**
+ * Get the cylinder a face lies on.
+ * Returns null if the face index is out of range or the face is not cylindrical.
+ */
+export function getFaceCylinder(shape: Shape, faceIndex: number): FaceCylinderData | null {
+  const oc = getOC();
 
+  const faceExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_FACE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  for (let i = 0; i < faceIndex && faceExplorer.More(); i++) {
     faceExplorer.Next();
-    currentIndex++;
+  }
+  if (!faceExplorer.More()) {
+    faceExplorer.delete();
+    return null;
+  }
+
+  const face = oc.TopoDS.Face_1(faceExplorer.Current());
+  const surface = new oc.BRepAdaptor_Surface_2(face, true);
+  let result: FaceCylinderData | null = null;
+
+  if (surface.GetType() === oc.GeomAbs_SurfaceType.GeomAbs_Cylinder) {
+    const cylinder = surface.Cylinder();
+    const position = cylinder.Position();
+    const location = position.Location();
+    const direction = position.Direction();
+    const axis: [number, number, number] = [direction.X(), direction.Y(), direction.Z()];
+
+    // v runs along the axis from the cylinder's location
+    const vFirst = surface.FirstVParameter();
+    const vLast = surface.LastVParameter();
+
+    // Compare the face normal with the direction out from the axis
+    const uMid = (surface.FirstUParameter() + surface.LastUParameter()) / 2;
+    const d1u = new oc.gp_Vec_1();
+    const d1v = new oc.gp_Vec_1();
+    const pnt = new oc.gp_Pnt_1();
+    surface.D1(uMid, (vFirst + vLast) / 2, pnt, d1u, d1v);
+    const normal = d1u.Crossed(d1v);
+    const isReversed = face.Orientation_1() === oc.TopAbs_Orientation.TopAbs_REVERSED;
+    const fromAxis = [pnt.X() - location.X(), pnt.Y() - location.Y(), pnt.Z() - location.Z()];
+    const along = fromAxis[0] * axis[0] + fromAxis[1] * axis[1] + fromAxis[2] * axis[2];
+    const outward =
+      (fromAxis[0] - along * axis[0]) * normal.X() +
+      (fromAxis[1] - along * axis[1]) * normal.Y() +
+      (fromAxis[2] - along * axis[2]) * normal.Z();
+
+    result = {
+      origin: [
+        location.X() + axis[0] * vFirst,
+        location.Y() + axis[1] * vFirst,
+        location.Z() + axis[2] * vFirst,
+      ],
+      axis,
+      radius: cylinder.Radius(),
+      length: vLast - vFirst,
+      internal: isReversed ? outward > 0 : outward < 0,
+    };
+
+    normal.delete();
+    pnt.delete();
+    d1v.delete();
+    d1u.delete();
   }
 
+  surface.delete();
   faceExplorer.delete();
   return result;
 }
 
+/**
+ * Line data from a straight edge
+ */
+export interface EdgeLineData {
+  start: [number, number, number];
+  end: [number, number, number];
+}
+
+/**
+ * Get the end points of a straight edge.
+ * Returns null if the edge index is out of range or the edge is not a line.
+ *
+ * Edge indices follow the deduplicated TopExp order used by tessellation.
+ */
+export function getEdgeLine(shape: Shape, edgeIndex: number): EdgeLineData | null {
+  const oc = getOC();
+
+  const edgeExplorer = new oc.TopExp_Explorer_2(
+    shape.raw,
+    oc.TopAbs_ShapeEnum.TopAbs_EDGE,
+    oc.TopAbs_ShapeEnum.TopAbs_SHAPE
+  );
+  const seen = new Set<number>();
+  let result: EdgeLineData | null = null;
+
+  while (edgeExplorer.More()) {
+    const hash = edgeExplorer.Current().HashCode(0x7fffffff);
+    if (!seen.has(hash)) {
+      if (seen.size === edgeIndex) {
+        const curve = new oc.BRepAdaptor_Curve_2(oc.TopoDS.Edge_1(edgeExplorer.Current()));
+        if (curve.GetType() === oc.GeomAbs_CurveType.GeomAbs_Line) {
+          const start = curve.Value(curve.FirstParameter());
+          const end = curve.Value(curve.LastParameter());
+          result = {
+            start: [start.X(), start.Y(), start.Z()],
+            end: [end.X(), end.Y(), end.Z()],
+          };
+          start.delete();
+          end.delete();
+        }
+        curve.delete();
+        break;
+      }
+      seen.add(hash);
+    }
+    edgeExplorer.Next();
+  }
+
+  edgeExplorer.delete();
+  return result;
+}
+
 /**
  * Get the bounding box of a shape.
  */
@@ -0,0 +1,291 @@
+/**
+ * Sheet metal geometry
+ *
+ * A sheet metal part is a base flange (a closed profile given a thickness)
+ * with flanges bent up from straight edges of its outline. Everything here
+ * is 2D and worked out from those parameters: the cross-section of a bend
+ * and its wall, bend allowances, and the flat pattern the part is cut from.
+ */
+
+import type { Vec2 } from "../num/vec2.js";
+import type { Curve2D } from "../geom/curve2d.js";
+import { vec2, add2, sub2, mul2, dist2, length2 } from "../num/vec2.js";
+import { evalCurve2D } from "../geom/curve2d.js";
+import type { ProfileLoop, SketchProfile } from "./sketchProfile.js";
+
+/** Tolerance for matching a flange edge to the outline */
+const OUTLINE_TOLERANCE = 1e-6;
+
+/**
+ * Stock and bend settings shared by every bend of a part
+ */
+export interface SheetMetalParams {
+  /** Sheet thickness (positive) */
+  thickness: number;
+  /** Default inside bend radius (positive) */
+  bendRadius: number;
+  /** Position of the neutral axis as a fraction of the thickness from the inside of a bend */
+  kFactor: number;
+}
+
+/**
+ * A flange bent from a straight edge of the base flange outline
+ */
+export interface SheetMetalFlange {
+  /** Start of the outline edge, in profile coordinates */
+  start: Vec2;
+  /** End of the outline edge, in profile coordinates */
+  end: Vec2;
+  /** Bend angle in degrees, from flat (0 < angle < 180) */
+  angleDegrees: number;
+  /** Length of the straight wall beyond the bend */
+  length: number;
+  /** Whether the flange bends toward the profile plane normal */
+  up: boolean;
+  /** Inside bend radius, overriding the part's default */
+  bendRadius?: number;
+}
+
+/**
+ * The middle of a bend in a flat pattern
+ */
+export interface FlatPatternBendLine {
+  start: Vec2;
+  end: Vec2;
+  angleDegrees: number;
+  /** Inside bend radius */
+  radius: number;
+  /** Whether the bend goes toward the profile plane normal */
+  up: boolean;
+}
+
+/**
+ * The unfolded outline of a sheet metal part, in profile coordinates
+ */
+export interface FlatPattern {
+  /** Outline loops: the first is the outer boundary, the rest are holes */
+  loops: ProfileLoop[];
+  /**
+   * For each curve of `loops`, counted through all loops in order, the index
+   * of the profile curve it was kept from, or null if a flange strip added it
+   */
+  sourceCurves: Array<number | null>;
+  bendLines: FlatPatternBendLine[];
+}
+
+/**
+ * Where a flange edge sits on the base flange outline
+ */
+export interface OutlineEdge {
+  /** Index of the line in the outer loop */
+  curveIndex: number;
+  /** Unit direction in the profile plane pointing away from the material */
+  outward: Vec2;
+}
+
+/**
+ * Length of the neutral axis through a bend
+ *
+ * @param angleDegrees Bend angle in degrees
+ * @param radius Inside bend radius
+ * @param thickness Sheet thickness
+ * @param kFactor Neutral axis position as a fraction of the thickness
+ */
+export function bendAllowance(
+  angleDegrees: number,
+  radius: number,
+  thickness: number,
+  kFactor: number
+): number {
+  return ((angleDegrees * Math.PI) / 180) * (radius + kFactor * thickness);
+}
+
+/**
+ * Find the straight edge of a profile's outer loop running between two points
+ *
+ * @returns The line's index and outward direction, or null when no line of
+ *   the outer loop runs between the points (in either direction)
+ */
+export function findOutlineEdge(
+  profile: SketchProfile,
+  start: Vec2,
+  end: Vec2
+): OutlineEdge | null {
+  const outer = outerLoop(profile);
+  if (!outer) return null;
+
+  const curveIndex = outer.curves.findIndex(
+    (curve) =>
+      curve.kind === `line` &&
+      ((dist2(curve.p0, start) < OUTLINE_TOLERANCE && dist2(curve.p1, end) < OUTLINE_TOLERANCE) ||
+        (dist2(curve.p0, end) < OUTLINE_TOLERANCE && dist2(curve.p1, start) < OUTLINE_TOLERANCE))
+  );
+  if (curveIndex < 0) return null;
+
+  // Step off the middle of the edge to one side and see if that's inside
+  const along = sub2(end, start);
+  const length = length2(along);
+  const normal = vec2(along[1] / length, -along[0] / length);
+  const probe = add2(mul2(add2(start, end), 0.5), mul2(normal, Math.max(length, 1) * 1e-4));
+  const outward = insideLoop(outer, probe) ? mul2(normal, -1) : normal;
+  return { curveIndex, outward };
+}
+
+/**
+ * Cross-section of a bend and the wall beyond it
+ *
+ * Coordinates are `x` away from the edge (outward) and `y` toward the face
+ * the flange bends to; the sheet lies at -thickness ≤ y ≤ 0, x ≤ 0. The loop
+ * runs: the joint with the sheet, the outside of the bend, the outside of the
+ * wall, the end of the wall, the inside of the wall, the inside of the bend.
+ *
+ * @param mirror Flip the section over the x axis, for a frame whose y axis
+ *   points away from the face the flange bends to
+ */
+export function createFlangeSection(
+  thickness: number,
+  bendRadius: number,
+  angleDegrees: number,
+  length: number,
+  mirror = false
+): Curve2D[] {
+  const inner = bendRadius;
+  const outer = bendRadius + thickness;
+  const center = vec2(0, bendRadius);
+  const start = -Math.PI / 2;
+  const end = start + (angleDegrees * Math.PI) / 180;
+  const along = vec2(Math.cos(end + Math.PI / 2), Math.sin(end + Math.PI / 2));
+
+  const at = (radius: number, angle: number) =>
+    vec2(center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle));
+  const outerEnd = at(outer, end);
+  const innerEnd = at(inner, end);
+  const outerTip = add2(outerEnd, mul2(along, length));
+  const innerTip = add2(innerEnd, mul2(along, length));
+
+  const section: Curve2D[] = [
+    { kind: `line`, p0: vec2(0, 0), p1: vec2(0, -thickness) },
+    { kind: `arc`, center, radius: outer, startAngle: start, endAngle: end, ccw: true },
+    { kind: `line`, p0: outerEnd, p1: outerTip },
+    { kind: `line`, p0: outerTip, p1: innerTip },
+    { kind: `line`, p0: innerTip, p1: innerEnd },
+    { kind: `arc`, center, radius: inner, startAngle: end, endAngle: start, ccw: false },
+  ];
+  if (!mirror) return section;
+
+  const flip = (p: Vec2) => vec2(p[0], -p[1]);
+  return section.map((curve) =>
+    curve.kind === `arc`
+      ? {
+          ...curve,
+          center: flip(curve.center),
+          startAngle: -curve.startAngle,
+          endAngle: -curve.endAngle,
+          ccw: !curve.ccw,
+        }
+      : curve.kind === `line`
+        ? { kind: `line`, p0: flip(curve.p0), p1: flip(curve.p1) }
+        : curve
+  );
+}
+
+/**
+ * Unfold a sheet metal part into its flat pattern
+ *
+ * Each flange replaces its outline edge with a strip as wide as its bend
+ * allowance plus its wall, with a bend line down the middle of the bend.
+ *
+ * @param profile The base flange profile
+ * @param params Thickness, default bend radius and K-factor
+ * @param flanges Flanges on straight edges of the outer loop, one per edge
+ */
+export function computeFlatPattern(
+  profile: SketchProfile,
+  params: SheetMetalParams,
+  flanges: SheetMetalFlange[]
+): FlatPattern {
+  const outer = outerLoop(profile);
+  if (!outer) {
+    throw new Error(`Sheet metal profile has no outline`);
+  }
+  const strips = new Map<number, Curve2D[]>();
+  const bendLines: FlatPatternBendLine[] = [];
+
+  for (const flange of flanges) {
+    const edge = findOutlineEdge(profile, flange.start, flange.end);
+    if (!edge) {
+      throw new Error(`Flange edge is not a straight edge of the outline`);
+    }
+    if (strips.has(edge.curveIndex)) {
+      throw new Error(`Outline edge already has a flange`);
+    }
+
+    const radius = flange.bendRadius ?? params.bendRadius;
+    const bend = bendAllowance(flange.angleDegrees, radius, params.thickness, params.kFactor);
+    const width = bend + flange.length;
+
+    // Keep the direction of the line being replaced
+    const line = outer.curves[edge.curveIndex];
+    const [a, b] = line.kind === `line` ? [line.p0, line.p1] : [flange.start, flange.end];
+    const aOut = add2(a, mul2(edge.outward, width));
+    const bOut = add2(b, mul2(edge.outward, width));
+    strips.set(edge.curveIndex, [
+      { kind: `line`, p0: a, p1: aOut },
+      { kind: `line`, p0: aOut, p1: bOut },
+      { kind: `line`, p0: bOut, p1: b },
+    ]);
+
+    bendLines.push({
+      start: add2(flange.start, mul2(edge.outward, bend / 2)),
+      end: add2(flange.end, mul2(edge.outward, bend / 2)),
+      angleDegrees: flange.angleDegrees,
+      radius,
+      up: flange.up,
+    });
+  }
+
+  const loops: ProfileLoop[] = [];
+  const sourceCurves: Array<number | null> = [];
+  let firstCurve = 0;
+  for (const loop of profile.loops) {
+    const curves: Curve2D[] = [];
+    loop.curves.forEach((curve, i) => {
+      const strip = loop === outer ? strips.get(i) : undefined;
+      if (strip) {
+        curves.push(...strip);
+        sourceCurves.push(...strip.map(() => null));
+      } else {
+        curves.push(curve);
+        sourceCurves.push(firstCurve + i);
+      }
+    });
+    loops.push({ isOuter: loop.isOuter, curves });
+    firstCurve += loop.curves.length;
+  }
+
+  return { loops, sourceCurves, bendLines };
+}
+
+function outerLoop(profile: SketchProfile): ProfileLoop | undefined {
+  return profile.loops.find((loop) => loop.isOuter) ?? profile.loops[0];
+}
+
+/**
+ * Whether a point lies inside a loop, by counting crossings of a ray along +x
+ */
+function insideLoop(loop: ProfileLoop, point: Vec2): boolean {
+  let inside = false;
+  for (const curve of loop.curves) {
+    const steps = curve.kind === `line` ? 1 : 32;
+    let prev = evalCurve2D(curve, 0);
+    for (let i = 1; i <= steps; i++) {
+      const next = evalCurve2D(curve, i / steps);
+      if (prev[1] > point[1] !== next[1] > point[1]) {
+        const x = prev[0] + ((point[1] - prev[1]) / (next[1] - prev[1])) * (next[0] - prev[0]);
+        if (x > point[0]) inside = !inside;
+      }
+      prev = next;
+    }
+  }
+  return inside;
+}
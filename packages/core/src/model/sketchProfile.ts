@@ -13,7 +13,7 @@ import type { Vec2 } from "../num/vec2.js";
 import type { Curve2D, Line2D, Arc2D } from "../geom/curve2d.js";
 import type { NumericContext } from "../num/tolerance.js";
 import type { DatumPlane } from "./planes.js";
-import { vec2, dist2 } from "../num/vec2.js";
+import { vec2, dist2, add2, sub2, mul2, dot2, cross2, normalize2, length2 } from "../num/vec2.js";
 import { evalCurve2D } from "../geom/curve2d.js";
 
 /**
@@ -67,6 +67,22 @@ export interface SketchProfile {
   loops: ProfileLoop[];
 }
 
+/**
+ * A connected chain of sketch curves used as a sweep path
+ *
+ * Unlike a profile loop the chain does not need to close. Curves are
+ * ordered along the chain, but each keeps the orientation of the sketch
+ * entity it came from.
+ */
+export interface SketchPath {
+  /** The plane this path lies on */
+  plane: DatumPlane;
+  /** Curve segments ordered from one end of the path to the other */
+  curves: Curve2D[];
+  /** Whether the last curve ends at the start of the first */
+  closed: boolean;
+}
+
 /**
  * Validation result for a profile
  */
@@ -397,3 +413,278 @@ export function computeProfileArea(profile: SketchProfile): number {
 
   return totalArea;
 }
+
+/**
+ * Which side of a path a thin wall grows on
+ *
+ * - `normal`: left of the path, looking along it from its first curve
+ * - `reverse`: right of the path
+ * - `symmetric`: half the thickness on each side
+ */
+export type ThinWallSide = `normal` | `reverse` | `symmetric`;
+
+/**
+ * Which side of a path a rib fills, looking along it from its first curve
+ */
+export type RibSide = `left` | `right`;
+
+/** Tolerance for matching curve endpoints along a path */
+const PATH_TOLERANCE = 1e-6;
+
+/**
+ * Create a thin-wall profile around an open sketch path
+ *
+ * The path is offset to both faces of the wall and the two offsets are
+ * closed with straight end caps. Corners are mitred by extending or trimming
+ * neighbouring offset curves until they meet; where they never meet the gap
+ * is bridged with a straight segment.
+ *
+ * @param path An open path of lines and arcs
+ * @param thickness Wall thickness (positive)
+ * @param side Which side of the path the wall grows on
+ * @returns A profile with a single outer loop
+ */
+export function createThinProfile(
+  path: SketchPath,
+  thickness: number,
+  side: ThinWallSide = `normal`
+): SketchProfile {
+  if (path.closed) {
+    throw new Error(`Thin walls need an open path`);
+  }
+  if (!(thickness > 0)) {
+    throw new Error(`Thin wall thickness must be positive`);
+  }
+
+  const curves = orientPathCurves(path.curves);
+  const near = side === `normal` ? 0 : side === `reverse` ? -thickness : -thickness / 2;
+  const first = offsetPathCurves(curves, near, thickness);
+  const second = offsetPathCurves(curves, near + thickness, thickness);
+
+  const loop: Curve2D[] = [
+    ...first,
+    {
+      kind: `line`,
+      p0: curveEnd(first[first.length - 1]),
+      p1: curveEnd(second[second.length - 1]),
+    },
+    ...second.reverse().map(reverseCurve),
+    { kind: `line`, p0: curveStart(second[second.length - 1]), p1: curveStart(first[0]) },
+  ];
+
+  const profile = createEmptyProfile(path.plane);
+  addLoopToProfile(profile, loop, true);
+  return profile;
+}
+
+type PathCurve = Line2D | Arc2D;
+
+/**
+ * Create the region a rib may fill on one side of an open sketch path
+ *
+ * The path is extended from both ends along its end tangents by `reach` and
+ * closed far out on the chosen side, so the region covers everything within
+ * reach of the path on that side. The loop runs: the extension before the
+ * path, the path curves in order, the extension after it, then two lines
+ * closing the region.
+ *
+ * @param path An open path of lines and arcs
+ * @param reach How far the region extends beyond the path
+ * @param side Which side of the path the region lies on
+ * @returns A profile with a single outer loop
+ */
+export function createRibRegion(path: SketchPath, reach: number, side: RibSide): SketchProfile {
+  if (path.closed) {
+    throw new Error(`Ribs need an open path`);
+  }
+  if (!(reach > 0)) {
+    throw new Error(`Rib reach must be positive`);
+  }
+
+  const curves = orientPathCurves(path.curves);
+  const start = curveStart(curves[0]);
+  const end = curveEnd(curves[curves.length - 1]);
+  const before = sub2(start, mul2(curveStartTangent(curves[0]), reach));
+  const after = add2(end, mul2(curveEndTangent(curves[curves.length - 1]), reach));
+
+  // Close the region across from the middle of the extended path
+  const chord =
+    dist2(start, end) > PATH_TOLERANCE ? sub2(end, start) : curveStartTangent(curves[0]);
+  const left = normalize2(vec2(-chord[1], chord[0]));
+  const far = add2(
+    mul2(add2(before, after), 0.5),
+    mul2(left, side === `left` ? 2 * reach : -2 * reach)
+  );
+
+  const loop: Curve2D[] = [
+    { kind: `line`, p0: before, p1: start },
+    ...curves,
+    { kind: `line`, p0: end, p1: after },
+    { kind: `line`, p0: after, p1: far },
+    { kind: `line`, p0: far, p1: before },
+  ];
+
+  const profile = createEmptyProfile(path.plane);
+  addLoopToProfile(profile, loop, true);
+  return profile;
+}
+
+function curveStartTangent(curve: PathCurve): Vec2 {
+  if (curve.kind === `line`) return normalize2(sub2(curve.p1, curve.p0));
+  const sign = curve.ccw ? 1 : -1;
+  return vec2(-Math.sin(curve.startAngle) * sign, Math.cos(curve.startAngle) * sign);
+}
+
+function curveEndTangent(curve: PathCurve): Vec2 {
+  if (curve.kind === `line`) return normalize2(sub2(curve.p1, curve.p0));
+  const sign = curve.ccw ? 1 : -1;
+  return vec2(-Math.sin(curve.endAngle) * sign, Math.cos(curve.endAngle) * sign);
+}
+
+function arcPoint(arc: Arc2D, angle: number): Vec2 {
+  return vec2(
+    arc.center[0] + arc.radius * Math.cos(angle),
+    arc.center[1] + arc.radius * Math.sin(angle)
+  );
+}
+
+function curveStart(curve: PathCurve): Vec2 {
+  return curve.kind === `line` ? curve.p0 : arcPoint(curve, curve.startAngle);
+}
+
+function curveEnd(curve: PathCurve): Vec2 {
+  return curve.kind === `line` ? curve.p1 : arcPoint(curve, curve.endAngle);
+}
+
+function reverseCurve(curve: PathCurve): PathCurve {
+  return curve.kind === `line`
+    ? { kind: `line`, p0: curve.p1, p1: curve.p0 }
+    : { ...curve, startAngle: curve.endAngle, endAngle: curve.startAngle, ccw: !curve.ccw };
+}
+
+/**
+ * Flip path curves so each one starts where the previous one ends.
+ */
+function orientPathCurves(curves: Curve2D[]): PathCurve[] {
+  const pathCurves = curves.map((curve) => {
+    if (curve.kind === `polyline`) {
+      throw new Error(`Open paths only support lines and arcs`);
+    }
+    return curve;
+  });
+
+  return pathCurves.map((curve, i) => {
+    const touches = (p: Vec2, other: PathCurve): boolean =>
+      dist2(p, curveStart(other)) < PATH_TOLERANCE || dist2(p, curveEnd(other)) < PATH_TOLERANCE;
+    const forward =
+      i < pathCurves.length - 1
+        ? touches(curveEnd(curve), pathCurves[i + 1])
+        : i === 0 || touches(curveStart(curve), pathCurves[i - 1]);
+    return forward ? curve : reverseCurve(curve);
+  });
+}
+
+/**
+ * Offset oriented path curves to their left and join them at the corners.
+ */
+function offsetPathCurves(curves: PathCurve[], distance: number, thickness: number): PathCurve[] {
+  const offset = curves.map((curve) => offsetCurve(curve, distance));
+  const result: PathCurve[] = [offset[0]];
+
+  for (let i = 1; i < offset.length; i++) {
+    const previous = result[result.length - 1];
+    const next = offset[i];
+    const from = curveEnd(previous);
+    const to = curveStart(next);
+
+    if (dist2(from, to) > PATH_TOLERANCE) {
+      // Meet where the carriers cross closest to the original corner
+      const corner = curveStart(curves[i]);
+      const meeting = carrierIntersections(previous, next)
+        .filter((p) => dist2(p, corner) < 10 * thickness)
+        .sort((a, b) => dist2(a, corner) - dist2(b, corner))[0];
+
+      if (meeting) {
+        result[result.length - 1] = withEnd(previous, meeting);
+        result.push(withStart(next, meeting));
+        continue;
+      }
+      result.push({ kind: `line`, p0: from, p1: to });
+    }
+    result.push(next);
+  }
+
+  return result;
+}
+
+function offsetCurve(curve: PathCurve, distance: number): PathCurve {
+  if (distance === 0) return curve;
+
+  if (curve.kind === `line`) {
+    const dir = normalize2(sub2(curve.p1, curve.p0));
+    const shift = mul2(vec2(-dir[1], dir[0]), distance);
+    return { kind: `line`, p0: add2(curve.p0, shift), p1: add2(curve.p1, shift) };
+  }
+
+  // The left of a counter-clockwise arc is towards its center
+  const radius = curve.ccw ? curve.radius - distance : curve.radius + distance;
+  if (radius <= PATH_TOLERANCE) {
+    throw new Error(`Thin wall is thicker than an arc radius in the path`);
+  }
+  return { ...curve, radius };
+}
+
+function withStart(curve: PathCurve, point: Vec2): PathCurve {
+  return curve.kind === `line`
+    ? { ...curve, p0: point }
+    : { ...curve, startAngle: Math.atan2(point[1] - curve.center[1], point[0] - curve.center[0]) };
+}
+
+function withEnd(curve: PathCurve, point: Vec2): PathCurve {
+  return curve.kind === `line`
+    ? { ...curve, p1: point }
+    : { ...curve, endAngle: Math.atan2(point[1] - curve.center[1], point[0] - curve.center[0]) };
+}
+
+/**
+ * Intersections of the infinite lines / full circles carrying two curves.
+ */
+function carrierIntersections(a: PathCurve, b: PathCurve): Vec2[] {
+  if (a.kind === `line` && b.kind === `line`) {
+    const u = sub2(a.p1, a.p0);
+    const v = sub2(b.p1, b.p0);
+    const denom = cross2(u, v);
+    if (Math.abs(denom) < PATH_TOLERANCE * length2(u) * length2(v)) return [];
+    return [add2(a.p0, mul2(u, cross2(sub2(b.p0, a.p0), v) / denom))];
+  }
+  if (a.kind === `line` && b.kind === `arc`) {
+    return lineCircleIntersections(a, b);
+  }
+  if (a.kind === `arc` && b.kind === `line`) {
+    return lineCircleIntersections(b, a);
+  }
+  return circleCircleIntersections(a as Arc2D, b as Arc2D);
+}
+
+function lineCircleIntersections(line: Line2D, arc: Arc2D): Vec2[] {
+  const dir = normalize2(sub2(line.p1, line.p0));
+  const rel = sub2(line.p0, arc.center);
+  const b = dot2(dir, rel);
+  const disc = b * b - (dot2(rel, rel) - arc.radius * arc.radius);
+  if (disc < 0) return [];
+  const root = Math.sqrt(disc);
+  return [add2(line.p0, mul2(dir, -b - root)), add2(line.p0, mul2(dir, -b + root))];
+}
+
+function circleCircleIntersections(a: Arc2D, b: Arc2D): Vec2[] {
+  const d = dist2(a.center, b.center);
+  if (d < PATH_TOLERANCE || d > a.radius + b.radius || d < Math.abs(a.radius - b.radius)) {
+    return [];
+  }
+  const along = (d * d + a.radius * a.radius - b.radius * b.radius) / (2 * d);
+  const h = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+  const axis = mul2(sub2(b.center, a.center), 1 / d);
+  const mid = add2(a.center, mul2(axis, along));
+  const perp = vec2(-axis[1], axis[0]);
+  return [add2(mid, mul2(perp, h)), add2(mid, mul2(perp, -h))];
+}
@@ -14,7 +14,7 @@ import type { Vec2 } from "../num/vec2.js";
 import { vec2 } from "../num/vec2.js";
 import type { DatumPlane } from "../model/planes.js";
 import type { Curve2D } from "../geom/curve2d.js";
-import type { SketchProfile } from "../model/sketchProfile.js";
+import type { SketchProfile, SketchPath } from "../model/sketchProfile.js";
 import type { PersistentRef } from "../naming/types.js";
 import type {
   Sketch,
@@ -539,6 +539,95 @@ export class SketchModel implements Sketch {
     return profile;
   }
 
+  /**
+   * Convert the sketch to a SketchPath for use as a sweep path
+   *
+   * The entities must form a single connected chain (open or closed) with
+   * no branches. The chain starts at a free end when one exists.
+   *
+   * @param entityIds Optional specific entities to include (defaults to all non-construction)
+   * @returns A SketchPath, or null if the entities do not form a single chain
+   */
+  toPath(entityIds?: SketchEntityId[]): SketchPath | null {
+    const entities: SketchEntity[] = entityIds
+      ? entityIds
+          .map((id) => this.entities.get(id))
+          .filter((e): e is SketchEntity => e !== undefined)
+      : Array.from(this.entities.values()).filter((e) => !e.construction);
+
+    if (entities.length === 0) return null;
+
+    const tolerance = 1e-8;
+    const pointsClose = (a: Vec2, b: Vec2): boolean => {
+      const dx = a[0] - b[0];
+      const dy = a[1] - b[1];
+      return dx * dx + dy * dy < tolerance * tolerance;
+    };
+    const getEndpoints = (entity: SketchEntity): [Vec2, Vec2] => {
+      const start = this.points.get(entity.start)!;
+      const end = this.points.get(entity.end)!;
+      return [
+        [start.x, start.y],
+        [end.x, end.y],
+      ];
+    };
+    const countAt = (p: Vec2): number =>
+      entities.reduce((n, e) => {
+        const [s, t] = getEndpoints(e);
+        return n + (pointsClose(s, p) ? 1 : 0) + (pointsClose(t, p) ? 1 : 0);
+      }, 0);
+
+    // Start from a free end if the chain is open
+    let first = entities[0];
+    let chainStart = getEndpoints(first)[0];
+    for (const entity of entities) {
+      const [s, t] = getEndpoints(entity);
+      if (countAt(s) === 1) {
+        first = entity;
+        chainStart = s;
+        break;
+      }
+      if (countAt(t) === 1) {
+        first = entity;
+        chainStart = t;
+        break;
+      }
+    }
+
+    const ordered: SketchEntity[] = [first];
+    const used = new Set<SketchEntityId>([first.id]);
+    const [firstStart, firstEnd] = getEndpoints(first);
+    let currentEnd = pointsClose(firstStart, chainStart) ? firstEnd : firstStart;
+
+    let foundNext = true;
+    while (foundNext) {
+      foundNext = false;
+      for (const entity of entities) {
+        if (used.has(entity.id)) continue;
+        const [eStart, eEnd] = getEndpoints(entity);
+        if (pointsClose(currentEnd, eStart) || pointsClose(currentEnd, eEnd)) {
+          ordered.push(entity);
+          used.add(entity.id);
+          currentEnd = pointsClose(currentEnd, eStart) ? eEnd : eStart;
+          foundNext = true;
+          break;
+        }
+      }
+    }
+
+    // Disconnected or branching selections are not a single path
+    if (ordered.length !== entities.length) return null;
+    if (entities.some((e) => countAt(getEndpoints(e)[0]) > 2 || countAt(getEndpoints(e)[1]) > 2)) {
+      return null;
+    }
+
+    return {
+      plane: this.plane,
+      curves: ordered.map((entity) => this.entityToCurve(entity)),
+      closed: pointsClose(currentEnd, chainStart),
+    };
+  }
+
   /**
    * Find closed loops in a set of entities
    * @internal
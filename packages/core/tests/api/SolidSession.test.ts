@@ -9,8 +9,19 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { SolidSession } from "../../src/api/SolidSession.js";
-import { XY_PLANE, createDatumPlaneFromNormal } from "../../src/model/planes.js";
+import { SolidSession, type BodyId, type EdgeId } from "../../src/api/SolidSession.js";
+import {
+  XY_PLANE,
+  YZ_PLANE,
+  createDatumPlaneFromNormal,
+  createOffsetPlane,
+} from "../../src/model/planes.js";
+import {
+  createLProfile,
+  createRectangleProfile,
+  createThinProfile,
+} from "../../src/model/sketchProfile.js";
+import { vec2 } from "../../src/num/vec2.js";
 import { vec3 } from "../../src/num/vec3.js";
 
 // OCCT tests - enabled with Node.js wasmBinary loading
@@ -85,6 +96,63 @@ describe(`SolidSession (OCCT)`, () => {
 
       session.deleteBody(bodyId);
     });
+
+    it(`places a primitive and names its faces`, () => {
+      // Standing on the YZ plane at x = 10, rising along +X with its width along Y
+      const result = session.createPrimitive(
+        { kind: `box`, width: 4, depth: 2, height: 6 },
+        { origin: [10, 0, 0], axis: [1, 0, 0], xDir: [0, 1, 0] }
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[0]).toBeCloseTo(10, 1);
+        expect(bbox.max[0]).toBeCloseTo(16, 1);
+        expect(bbox.max[1]).toBeCloseTo(2, 1);
+        expect(bbox.max[2]).toBeCloseTo(1, 1);
+
+        const faces = result.value.faces.map(({ index, name }) => [index, name]);
+        expect(faces).toHaveLength(6);
+        expect(faces).toEqual(
+          expect.arrayContaining([
+            [0, `bottom`],
+            [1, `top`],
+            [2, `left`],
+            [3, `right`],
+            [4, `front`],
+            [5, `back`],
+          ])
+        );
+      }
+    });
+
+    it(`names the faces of cones, spheres and tori`, () => {
+      const cone = session.createPrimitive({ kind: `cone`, radius: 5, topRadius: 0, height: 8 });
+      expect(cone.success && cone.value.faces.map((face) => face.name).sort()).toEqual([
+        `bottom`,
+        `side`,
+      ]);
+
+      const torus = session.createPrimitive({ kind: `torus`, majorRadius: 10, minorRadius: 2 });
+      expect(torus.success && torus.value.faces.map((face) => face.name)).toEqual([`surface`]);
+    });
+
+    it(`rejects bad primitive dimensions and placements`, () => {
+      expect(session.createPrimitive({ kind: `sphere`, radius: 0 }).success).toBe(false);
+      expect(
+        session.createPrimitive({ kind: `torus`, majorRadius: 2, minorRadius: 3 }).success
+      ).toBe(false);
+      expect(
+        session.createPrimitive({ kind: `cone`, radius: 3, topRadius: 3, height: 5 }).success
+      ).toBe(false);
+      expect(
+        session.createPrimitive(
+          { kind: `cylinder`, radius: 2, height: 5 },
+          { origin: [0, 0, 0], axis: [0, 0, 1], xDir: [0, 0, 2] }
+        ).success
+      ).toBe(false);
+    });
   });
 
   describe(`profiles`, () => {
@@ -192,6 +260,402 @@ describe(`SolidSession (OCCT)`, () => {
 
       session.deleteBody(baseId);
     });
+
+    it(`extrudes up to a slanted face`, () => {
+      // A slab tilted 20° about X whose bottom face sits over the profile
+      const slabId = session.createBox(40, 40, 10, true);
+      const tilted = session.transformBody(slabId, {
+        kind: `rotate`,
+        origin: [0, 0, 0],
+        axis: [1, 0, 0],
+        angleDegrees: 20,
+      });
+      expect(tilted.success).toBe(true);
+      if (!tilted.success) return;
+      const raised = session.transformBody(tilted.value.bodyId, {
+        kind: `translate`,
+        vector: [0, 0, 20],
+      });
+      expect(raised.success).toBe(true);
+      if (!raised.success) return;
+      const targetId = raised.value.bodyId;
+
+      const faceCount = new Set(session.tessellate(targetId).faceMap).size;
+      let bottomFace = -1;
+      for (let i = 0; i < faceCount; i++) {
+        if (session.getFacePlane(targetId, i)!.normal[2] < -0.9) bottomFace = i;
+      }
+      expect(bottomFace).toBeGreaterThanOrEqual(0);
+
+      const profile = session.createRectangleProfile(XY_PLANE, 10, 10);
+      const result = session.extrude(profile, {
+        operation: `new`,
+        distance: 0,
+        upTo: { kind: `face`, bodyId: targetId, faceIndex: bottomFace },
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      // Bottom face centre is at 20 - 5 / cos 20°, rising 5 tan 20° to the profile edge
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(0, 3);
+      expect(bounds.max[2]).toBeCloseTo(
+        20 - 5 / Math.cos(Math.PI / 9) + 5 * Math.tan(Math.PI / 9),
+        3
+      );
+
+      const history = session.getOperationHistory(result.value)!;
+      expect(history.bottomCapHash).toBeDefined();
+      expect(history.topCapHash).toBeDefined();
+      expect(history.sideFaceMappings).toHaveLength(4);
+
+      for (const id of [slabId, tilted.value.bodyId, targetId, result.value]) {
+        session.deleteBody(id);
+      }
+    });
+
+    it(`extrudes up to a body with an offset`, () => {
+      const targetId = session.createBox(10, 10, 10);
+      const moved = session.transformBody(targetId, { kind: `translate`, vector: [0, 0, 20] });
+      expect(moved.success).toBe(true);
+      if (!moved.success) return;
+
+      const profile = session.createRectangleProfile(XY_PLANE, 4, 4, 5, 5);
+      const result = session.extrude(profile, {
+        operation: `new`,
+        distance: 0,
+        upTo: { kind: `body`, bodyId: moved.value.bodyId, offset: 2 },
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(session.getBoundingBox(result.value).max[2]).toBeCloseTo(18, 3);
+
+      // A profile beside the body never reaches it
+      const missing = session.extrude(session.createRectangleProfile(XY_PLANE, 4, 4, 50, 50), {
+        operation: `new`,
+        distance: 0,
+        upTo: { kind: `body`, bodyId: moved.value.bodyId },
+      });
+      expect(missing.success).toBe(false);
+
+      for (const id of [targetId, moved.value.bodyId, result.value]) {
+        session.deleteBody(id);
+      }
+    });
+  });
+
+  describe(`extrude sides and draft`, () => {
+    it(`extrudes two sides from an offset start`, () => {
+      const profile = session.createRectangleProfile(XY_PLANE, 10, 10);
+      const result = session.extrude(profile, {
+        operation: `new`,
+        distance: 10,
+        secondSide: { distance: 4 },
+        startOffset: 2,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(-2, 3);
+      expect(bounds.max[2]).toBeCloseTo(12, 3);
+
+      const history = session.getOperationHistory(result.value)!;
+      expect(history.bottomCapHash).toBeDefined();
+      expect(history.topCapHash).toBeDefined();
+      expect(history.sideFaceMappings).toHaveLength(4);
+
+      session.deleteBody(result.value);
+    });
+
+    it(`tapers drafted sides`, () => {
+      const profile = session.createRectangleProfile(XY_PLANE, 10, 10);
+      const result = session.extrude(profile, {
+        operation: `new`,
+        distance: 10,
+        draftAngle: 10,
+        secondSide: { distance: 5, draftAngle: -10 },
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      // Outward on the second side, inward on the first
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(-5, 3);
+      expect(bounds.max[2]).toBeCloseTo(10, 3);
+      expect(bounds.max[0]).toBeCloseTo(5 + 5 * Math.tan(Math.PI / 18), 3);
+
+      const mesh = session.tessellate(result.value);
+      let topHalfWidth = 0;
+      for (let i = 0; i < mesh.positions.length; i += 3) {
+        if (Math.abs(mesh.positions[i + 2] - 10) < 1e-6) {
+          topHalfWidth = Math.max(topHalfWidth, mesh.positions[i]);
+        }
+      }
+      expect(topHalfWidth).toBeCloseTo(5 - 10 * Math.tan(Math.PI / 18), 3);
+
+      const history = session.getOperationHistory(result.value)!;
+      expect(history.topCapHash).toBeDefined();
+      expect(history.bottomCapHash).toBeDefined();
+      expect(history.sideFaceMappings).toHaveLength(4);
+
+      session.deleteBody(result.value);
+    });
+
+    it(`names both caps of a symmetric extrude`, () => {
+      const profile = session.createCircleProfile(XY_PLANE, 3);
+      const result = session.extrude(profile, {
+        operation: `new`,
+        distance: 8,
+        symmetric: true,
+        draftAngle: 5,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(-4, 3);
+      expect(bounds.max[2]).toBeCloseTo(4, 3);
+      expect(bounds.max[0]).toBeCloseTo(3, 3);
+
+      const history = session.getOperationHistory(result.value)!;
+      expect(history.topCapHash).toBeDefined();
+      expect(history.bottomCapHash).toBeDefined();
+
+      session.deleteBody(result.value);
+    });
+  });
+
+  describe(`revolve directions`, () => {
+    // A 2×4 rectangle 5–7 from the Y axis, revolved about it
+    const axis = { origin: vec3(0, 0, 0), direction: vec3(0, 1, 0) };
+
+    it(`splits a symmetric revolve across the sketch plane`, () => {
+      const profile = session.createRectangleProfile(XY_PLANE, 2, 4, 6, 2);
+      const result = session.revolve(profile, {
+        operation: `new`,
+        axis,
+        angleDegrees: 90,
+        symmetric: true,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(-7 * Math.SQRT1_2, 3);
+      expect(bounds.max[2]).toBeCloseTo(7 * Math.SQRT1_2, 3);
+
+      const history = session.getOperationHistory(result.value)!;
+      expect(history.bottomCapHash).toBeDefined();
+      expect(history.topCapHash).toBeDefined();
+
+      session.deleteBody(result.value);
+    });
+
+    it(`revolves independent angles in both directions`, () => {
+      const profile = session.createRectangleProfile(XY_PLANE, 2, 4, 6, 2);
+      const result = session.revolve(profile, {
+        operation: `new`,
+        axis,
+        angleDegrees: 90,
+        secondAngleDegrees: 30,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.min[2]).toBeCloseTo(-7, 3);
+      expect(bounds.max[2]).toBeCloseTo(3.5, 3);
+
+      session.deleteBody(result.value);
+    });
+
+    it(`revolves a thin wall around an open path`, () => {
+      const path = {
+        plane: XY_PLANE,
+        curves: [{ kind: `line` as const, p0: vec2(5, 0), p1: vec2(5, 10) }],
+        closed: false,
+      };
+      const result = session.revolve(createThinProfile(path, 1), {
+        operation: `new`,
+        axis,
+        angleDegrees: 360,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      // A tube from radius 4 to 5
+      const bounds = session.getBoundingBox(result.value);
+      expect(bounds.max[0]).toBeCloseTo(5, 3);
+      expect(bounds.max[1]).toBeCloseTo(10, 3);
+      expect(session.tessellate(result.value).positions.length).toBeGreaterThan(0);
+
+      session.deleteBody(result.value);
+    });
+  });
+
+  describe(`sweep`, () => {
+    it(`sweeps a circle along a straight path`, () => {
+      const profile = session.createCircleProfile(YZ_PLANE, 2);
+      const pathSketch = session.createSketch(XY_PLANE);
+      pathSketch.addLineByCoords(0, 0, 20, 0);
+      const path = pathSketch.toPath()!;
+
+      const result = session.sweep(profile, path);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value);
+        expect(bbox.min[0]).toBeCloseTo(0, 1);
+        expect(bbox.max[0]).toBeCloseTo(20, 1);
+        expect(bbox.max[1]).toBeCloseTo(2, 1);
+        session.deleteBody(result.value);
+      }
+    });
+
+    it(`records caps and side faces along a line and arc path`, () => {
+      const profile = session.createCircleProfile(YZ_PLANE, 1);
+      const pathSketch = session.createSketch(XY_PLANE);
+      const start = pathSketch.addPoint(0, 0);
+      const bend = pathSketch.addPoint(10, 0);
+      const end = pathSketch.addPoint(15, 5);
+      const center = pathSketch.addPoint(10, 5);
+      pathSketch.addLine(start, bend);
+      pathSketch.addArc(bend, end, center, true);
+      const path = pathSketch.toPath()!;
+
+      const result = session.sweep(profile, path, { operation: `new` });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const history = session.getOperationHistory(result.value);
+        expect(history?.bottomCapHash).toBeDefined();
+        expect(history?.topCapHash).toBeDefined();
+        // One profile edge, one side face per path segment
+        expect(history?.sideFaceMappings.length).toBe(2);
+        expect(history?.sideFaceMappings.every((m) => m.profileEdgeIndex === 0)).toBe(true);
+
+        const bbox = session.getBoundingBox(result.value);
+        // Path ends at (15, 5) heading +Y; bounding boxes of curved faces are loose
+        expect(bbox.max[0]).toBeGreaterThan(15.5);
+        expect(bbox.max[1]).toBeGreaterThan(4.9);
+        session.deleteBody(result.value);
+      }
+    });
+
+    it(`cuts a swept groove from a target body`, () => {
+      const boxId = session.createBox(20, 20, 20, true);
+      // Groove along the top face: circle centred on the top edge at x = -15
+      const startPlane = createDatumPlaneFromNormal(
+        `start`,
+        vec3(-15, 0, 0),
+        vec3(1, 0, 0),
+        vec3(0, 1, 0)
+      );
+      const profile = session.createCircleProfile(startPlane, 2, 0, 10);
+      const pathSketch = session.createSketch(XY_PLANE);
+      pathSketch.addLineByCoords(-15, 0, 15, 0);
+      const path = pathSketch.toPath()!;
+
+      const plainMesh = session.tessellate(boxId);
+      const result = session.sweep(profile, path, { operation: `cut`, targetBody: boxId });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(boxId);
+        const mesh = session.tessellate(boxId);
+        expect(mesh.faceMap.length).toBeGreaterThan(plainMesh.faceMap.length);
+      }
+      session.deleteBody(boxId);
+    });
+
+    it(`fails for an empty path`, () => {
+      const profile = session.createCircleProfile(YZ_PLANE, 2);
+
+      const result = session.sweep(profile, { plane: XY_PLANE, curves: [], closed: false });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(`INVALID_PROFILE`);
+      }
+    });
+  });
+
+  describe(`loft`, () => {
+    it(`lofts a square to a circle`, () => {
+      const bottom = session.createRectangleProfile(XY_PLANE, 10, 10);
+      const top = session.createCircleProfile(createOffsetPlane(XY_PLANE, 10), 3);
+
+      const result = session.loft([bottom, top]);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value);
+        expect(bbox.min[2]).toBeCloseTo(0, 1);
+        expect(bbox.max[2]).toBeCloseTo(10, 1);
+        expect(bbox.max[0]).toBeCloseTo(5, 1);
+        session.deleteBody(result.value);
+      }
+    });
+
+    it(`records caps and a side face per edge of the first profile`, () => {
+      const bottom = session.createRectangleProfile(XY_PLANE, 10, 10);
+      const middle = session.createRectangleProfile(createOffsetPlane(XY_PLANE, 5), 6, 6);
+      const top = session.createRectangleProfile(createOffsetPlane(XY_PLANE, 10), 10, 10);
+
+      const result = session.loft([bottom, middle, top], { ruled: true });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const history = session.getOperationHistory(result.value);
+        expect(history?.bottomCapHash).toBeDefined();
+        expect(history?.topCapHash).toBeDefined();
+        expect(history?.sideFaceMappings.map((m) => m.profileEdgeIndex)).toEqual([0, 1, 2, 3]);
+        session.deleteBody(result.value);
+      }
+    });
+
+    it(`pulls the surface square to the end sections with normal tangency`, () => {
+      const bottom = session.createCircleProfile(XY_PLANE, 5);
+      const top = session.createCircleProfile(createOffsetPlane(XY_PLANE, 10), 2);
+
+      const plain = session.loft([bottom, top]);
+      const tangent = session.loft([bottom, top], {
+        startTangency: `normal`,
+        endTangency: `normal`,
+      });
+
+      expect(plain.success && tangent.success).toBe(true);
+      if (plain.success && tangent.success) {
+        // Leaving the base vertically keeps more material than a straight cone
+        const plainMesh = session.tessellate(plain.value);
+        const tangentMesh = session.tessellate(tangent.value);
+        const radiusAt = (positions: Float32Array, z: number) => {
+          let r = 0;
+          for (let i = 0; i < positions.length; i += 3) {
+            if (Math.abs(positions[i + 2] - z) < 1.5) {
+              r = Math.max(r, Math.hypot(positions[i], positions[i + 1]));
+            }
+          }
+          return r;
+        };
+        expect(radiusAt(tangentMesh.positions, 2)).toBeGreaterThan(
+          radiusAt(plainMesh.positions, 2)
+        );
+        session.deleteBody(plain.value);
+        session.deleteBody(tangent.value);
+      }
+    });
+
+    it(`fails with a single profile`, () => {
+      const result = session.loft([session.createCircleProfile(XY_PLANE, 2)]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(`INVALID_PROFILE`);
+      }
+    });
   });
 
   describe(`boolean operations`, () => {
@@ -306,6 +770,807 @@ describe(`SolidSession (OCCT)`, () => {
     });
   });
 
+  describe(`transformBody`, () => {
+    it(`translates a copy and maps every face`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.transformBody(boxId, { kind: `translate`, vector: [20, 0, 0] });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[0]).toBeCloseTo(20, 3);
+        expect(bbox.max[0]).toBeCloseTo(30, 3);
+        expect(result.value.faceHistory).toHaveLength(6);
+        expect(result.value.faceHistory.every((m) => m.outputHashes.length === 1)).toBe(true);
+        session.deleteBody(result.value.bodyId);
+      }
+      // Original body is untouched
+      expect(session.getBoundingBox(boxId).min[0]).toBeCloseTo(0, 3);
+
+      session.deleteBody(boxId);
+    });
+
+    it(`rotates a copy about an axis`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.transformBody(boxId, {
+        kind: `rotate`,
+        origin: [0, 0, 0],
+        axis: [0, 0, 1],
+        angleDegrees: 90,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[0]).toBeCloseTo(-10, 3);
+        expect(bbox.max[0]).toBeCloseTo(0, 3);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`applies a list of transforms in order`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.transformBody(boxId, [
+        { kind: `rotate`, origin: [0, 0, 0], axis: [0, 0, 1], angleDegrees: 90 },
+        { kind: `translate`, vector: [0, 0, 5] },
+        { kind: `rotate`, origin: [0, 0, 0], axis: [1, 0, 0], angleDegrees: 180 },
+      ]);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        // x -> [-10, 0], then z -> [5, 15], then flipped about x: y and z negate
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[0]).toBeCloseTo(-10, 3);
+        expect(bbox.max[0]).toBeCloseTo(0, 3);
+        expect(bbox.min[1]).toBeCloseTo(-10, 3);
+        expect(bbox.max[1]).toBeCloseTo(0, 3);
+        expect(bbox.min[2]).toBeCloseTo(-15, 3);
+        expect(bbox.max[2]).toBeCloseTo(-5, 3);
+        expect(result.value.faceHistory).toHaveLength(6);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`mirrors a copy across a plane into a valid solid`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.transformBody(boxId, {
+        kind: `mirror`,
+        origin: [10, 0, 0],
+        normal: [1, 0, 0],
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[0]).toBeCloseTo(10, 3);
+        expect(bbox.max[0]).toBeCloseTo(20, 3);
+        expect(result.value.faceHistory.every((m) => m.outputHashes.length === 1)).toBe(true);
+
+        // The reflected solid is still closed and fuses with the original
+        const union = session.union(boxId, result.value.bodyId);
+        expect(union.success).toBe(true);
+        if (union.success) {
+          const merged = session.getBoundingBox(union.value);
+          expect(merged.max[0] - merged.min[0]).toBeCloseTo(20, 3);
+          session.deleteBody(union.value);
+        }
+      }
+
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`getFacePlane`, () => {
+    it(`returns a point inside each box face with an outward normal`, () => {
+      const boxId = session.createBox(10, 20, 30);
+
+      for (let i = 0; i < 6; i++) {
+        const plane = session.getFacePlane(boxId, i);
+        expect(plane).not.toBeNull();
+        const { origin, normal } = plane!;
+
+        // Outward normal points away from the box center
+        const center = [5, 10, 15];
+        const dot = normal.reduce((sum, n, k) => sum + n * (origin[k] - center[k]), 0);
+        expect(dot).toBeGreaterThan(0);
+
+        // Origin lies within the face, not at an unbounded parameter
+        for (let k = 0; k < 3; k++) {
+          expect(origin[k]).toBeGreaterThanOrEqual(-1e-6);
+          expect(origin[k]).toBeLessThanOrEqual(center[k] * 2 + 1e-6);
+        }
+      }
+
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`edge sets`, () => {
+    const faceCount = (mesh: { faceMap: Uint32Array }) => new Set(mesh.faceMap).size;
+
+    it(`reports the two faces bounding every edge`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const mesh = session.tessellateWithTopologyHashes(boxId);
+
+      expect(mesh.edgeFaces).toHaveLength(24);
+      for (let i = 0; i < 12; i++) {
+        const [a, b] = [mesh.edgeFaces[i * 2], mesh.edgeFaces[i * 2 + 1]];
+        expect(a).toBeGreaterThanOrEqual(0);
+        expect(b).toBeGreaterThanOrEqual(0);
+        expect(a).not.toBe(b);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`fillets edge sets with different radii`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.filletEdges(boxId, [
+        { edges: [0 as EdgeId], radius: 1 },
+        { edges: [2 as EdgeId], radius: 2 },
+      ]);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.bodyId).not.toBe(boxId);
+        expect(faceCount(session.tessellate(result.value.bodyId))).toBe(8);
+        expect(result.value.generatedFaceHashes).toHaveLength(2);
+        session.deleteBody(result.value.bodyId);
+      }
+      // Original body is untouched
+      expect(faceCount(session.tessellate(boxId))).toBe(6);
+
+      session.deleteBody(boxId);
+    });
+
+    it(`chamfers with two distances and with a distance and angle`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const twoDistances = session.chamferEdges(boxId, [
+        { edges: [0 as EdgeId], distance: 1, distance2: 2 },
+      ]);
+      const distanceAngle = session.chamferEdges(boxId, [
+        { edges: [0 as EdgeId], distance: 1, angleDegrees: 30 },
+      ]);
+
+      expect(twoDistances.success).toBe(true);
+      expect(distanceAngle.success).toBe(true);
+      if (twoDistances.success && distanceAngle.success) {
+        expect(faceCount(session.tessellate(twoDistances.value.bodyId))).toBe(7);
+        expect(faceCount(session.tessellate(distanceAngle.value.bodyId))).toBe(7);
+        session.deleteBody(twoDistances.value.bodyId);
+        session.deleteBody(distanceAngle.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`rejects out-of-range edges and angles`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      expect(session.filletEdges(boxId, [{ edges: [99 as EdgeId], radius: 1 }]).success).toBe(
+        false
+      );
+      expect(
+        session.chamferEdges(boxId, [{ edges: [0 as EdgeId], distance: 1, angleDegrees: 90 }])
+          .success
+      ).toBe(false);
+
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`shell`, () => {
+    const faceCount = (mesh: { faceMap: Uint32Array }) => new Set(mesh.faceMap).size;
+
+    it(`hollows a box with one open face`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.shell(boxId, { thickness: 1, openFaces: [0] });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.bodyId).not.toBe(boxId);
+        // Five outer walls, five inner walls and the rim around the opening
+        expect(faceCount(session.tessellate(result.value.bodyId))).toBe(11);
+        expect(result.value.faceHistory.filter((m) => m.isDeleted)).toHaveLength(1);
+        // Inner walls and the rim are new faces
+        expect(result.value.generatedFaceHashes).toHaveLength(6);
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.max[0]).toBeCloseTo(10, 1);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`grows the wall outside the original boundary`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.shell(boxId, {
+        thickness: 2,
+        direction: `outside`,
+        openFaces: [0, 1],
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.max[2]).toBeGreaterThan(11.5);
+        expect(bbox.min[2]).toBeLessThan(-1.5);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`hollows a closed shell when no faces are open`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.shell(boxId, { thickness: 1 });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(faceCount(session.tessellate(result.value.bodyId))).toBe(12);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`fails for a non-positive thickness`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const result = session.shell(boxId, { thickness: 0, openFaces: [0] });
+
+      expect(result.success).toBe(false);
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`draft`, () => {
+    /** Largest x of the mesh vertices at height z */
+    const maxXAt = (mesh: { positions: Float32Array }, z: number) => {
+      let maxX = -Infinity;
+      for (let i = 0; i < mesh.positions.length; i += 3) {
+        if (Math.abs(mesh.positions[i + 2] - z) < 1e-4) {
+          maxX = Math.max(maxX, mesh.positions[i]);
+        }
+      }
+      return maxX;
+    };
+
+    it(`tapers the side faces of a box about the neutral plane`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      // Faces 0-3 are the x and y sides of the box
+      const result = session.draft(boxId, {
+        faces: [0, 1, 2, 3],
+        angleDegrees: 10,
+        pullDirection: [0, 0, 1],
+        neutralPlane: { origin: [0, 0, 0], normal: [0, 0, 1] },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const mesh = session.tessellate(result.value.bodyId);
+        // The base stays put, the top narrows by height * tan(angle)
+        expect(maxXAt(mesh, 0)).toBeCloseTo(10, 3);
+        expect(maxXAt(mesh, 10)).toBeCloseTo(10 - 10 * Math.tan((10 * Math.PI) / 180), 3);
+        // Every face is traced through the draft
+        expect(result.value.generatedFaceHashes).toHaveLength(0);
+        expect(result.value.draftedFaceHashes).toHaveLength(4);
+        expect(result.value.draftedFaceHashes.every((hashes) => hashes.length === 1)).toBe(true);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`fails for a zero angle or pull direction`, () => {
+      const boxId = session.createBox(10, 10, 10);
+
+      const flat = session.draft(boxId, {
+        faces: [0],
+        angleDegrees: 0,
+        pullDirection: [0, 0, 1],
+        neutralPlane: { origin: [0, 0, 0], normal: [0, 0, 1] },
+      });
+      const noPull = session.draft(boxId, {
+        faces: [0],
+        angleDegrees: 5,
+        pullDirection: [0, 0, 0],
+        neutralPlane: { origin: [0, 0, 0], normal: [0, 0, 1] },
+      });
+
+      expect(flat.success).toBe(false);
+      expect(noPull.success).toBe(false);
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`thread`, () => {
+    it(`cuts an external thread into a shaft`, () => {
+      const shaftId = session.createCylinder(5, 10);
+      expect(session.getFaceCylinder(shaftId, 0)).toMatchObject({ radius: 5, internal: false });
+
+      const result = session.thread(shaftId, {
+        face: 0,
+        helix: { origin: [0, 0, 2], axis: [0, 0, 1], pitch: 1.5, height: 4.5 },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.flankFaceHashes[0].length).toBeGreaterThan(0);
+        expect(result.value.flankFaceHashes[1].length).toBeGreaterThan(0);
+        // The groove is cut into the shaft down to the thread depth
+        const { positions } = session.tessellate(result.value.bodyId);
+        let minRadius = Infinity;
+        let maxRadius = 0;
+        for (let i = 0; i < positions.length; i += 3) {
+          const z = positions[i + 2];
+          if (z > 3 && z < 5.5) {
+            const radius = Math.hypot(positions[i], positions[i + 1]);
+            minRadius = Math.min(minRadius, radius);
+            maxRadius = Math.max(maxRadius, radius);
+          }
+        }
+        expect(maxRadius).toBeLessThan(5 + 1e-3);
+        expect(minRadius).toBeCloseTo(5 - (17 / 24) * (Math.sqrt(3) / 2) * 1.5, 1);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(shaftId);
+    });
+
+    it(`fails for a face that is not cylindrical or a helix off its axis`, () => {
+      const shaftId = session.createCylinder(5, 10);
+      const helix = { origin: vec3(0, 0, 2), axis: vec3(0, 0, 1), pitch: 1, height: 3 };
+
+      expect(session.thread(shaftId, { face: 1, helix }).success).toBe(false);
+      expect(
+        session.thread(shaftId, { face: 0, helix: { ...helix, origin: vec3(1, 0, 2) } }).success
+      ).toBe(false);
+      session.deleteBody(shaftId);
+    });
+  });
+
+  describe(`rib`, () => {
+    // An L bracket: a floor and a wall 3 thick, 20 deep along z
+    const createBracket = () => {
+      const result = session.extrude(createLProfile(XY_PLANE, 30, 30, 3, 3), {
+        operation: `new`,
+        distance: 20,
+      });
+      if (!result.success) throw new Error(result.error.message);
+      return result.value;
+    };
+    const ribPlane = createOffsetPlane(XY_PLANE, 10);
+
+    it(`fills the corner between the path and the walls`, () => {
+      const bracketId = createBracket();
+
+      // A short diagonal, extended until it meets the floor and the wall
+      const result = session.rib(bracketId, {
+        path: {
+          plane: ribPlane,
+          curves: [{ kind: `line`, p0: vec2(10, 13), p1: vec2(13, 10) }],
+          closed: false,
+        },
+        thickness: 2,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.sideFaceHashes[0].length).toBeGreaterThan(0);
+        expect(result.value.sideFaceHashes[1].length).toBeGreaterThan(0);
+        expect(result.value.pathFaceHashes[0].length).toBeGreaterThan(0);
+        expect(result.value.extensionFaceHashes[0].length).toBeGreaterThan(0);
+
+        // The rib spans the corner out to where the extended path meets the walls
+        const { positions } = session.tessellate(result.value.bodyId);
+        let ribReach = 0;
+        for (let i = 0; i < positions.length; i += 3) {
+          const z = positions[i + 2];
+          if (Math.abs(z - 10) < 1 + 1e-6) {
+            ribReach = Math.max(ribReach, positions[i], positions[i + 1]);
+          }
+        }
+        expect(ribReach).toBeCloseTo(20, 3);
+        expect(positions.some((_, i) => i % 3 === 2 && Math.abs(positions[i] - 9) < 1e-6)).toBe(
+          true
+        );
+        session.deleteBody(result.value.bodyId);
+      }
+
+      session.deleteBody(bracketId);
+    });
+
+    it(`fails when the body does not close the rib off`, () => {
+      const bracketId = createBracket();
+      const path = {
+        plane: ribPlane,
+        curves: [{ kind: `line` as const, p0: vec2(40, 40), p1: vec2(50, 45) }],
+        closed: false,
+      };
+
+      expect(session.rib(bracketId, { path, thickness: 2, materialSide: `left` }).success).toBe(
+        false
+      );
+      expect(session.rib(bracketId, { path, thickness: 0 }).success).toBe(false);
+      session.deleteBody(bracketId);
+    });
+  });
+
+  describe(`split`, () => {
+    it(`cuts a body into a piece on each side of a plane`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+
+      const result = session.split(boxId, {
+        tool: { kind: `plane`, origin: [2, 0, 0], normal: [1, 0, 0] },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const [front, back] = result.value.pieces;
+        expect(result.value.pieces).toHaveLength(2);
+        expect(front.side).toBe(`front`);
+        expect(back.side).toBe(`back`);
+        expect(session.getBoundingBox(front.bodyId).min[0]).toBeCloseTo(2, 3);
+        expect(session.getBoundingBox(front.bodyId).max[0]).toBeCloseTo(5, 3);
+        expect(session.getBoundingBox(back.bodyId).min[0]).toBeCloseTo(-5, 3);
+        expect(session.getBoundingBox(back.bodyId).max[0]).toBeCloseTo(2, 3);
+
+        // Each piece gets exactly one new face, where the plane cut it
+        for (const piece of result.value.pieces) {
+          expect(piece.generatedFaceHashes).toHaveLength(1);
+          expect(piece.toolFaceHashes).toEqual([piece.generatedFaceHashes]);
+          session.deleteBody(piece.bodyId);
+        }
+      }
+
+      // The original body is left alone
+      expect(session.hasBody(boxId)).toBe(true);
+      session.deleteBody(boxId);
+    });
+
+    it(`keeps only the requested side`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+
+      const result = session.split(boxId, {
+        tool: { kind: `plane`, origin: [0, 0, 0], normal: [0, 0, 1] },
+        keep: `back`,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.pieces.map((p) => p.side)).toEqual([`back`]);
+        expect(session.getBoundingBox(result.value.pieces[0].bodyId).max[2]).toBeCloseTo(0, 3);
+        session.deleteBody(result.value.pieces[0].bodyId);
+      }
+      session.deleteBody(boxId);
+    });
+
+    it(`cuts along an open sketch path extended through the body`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+
+      // A short line along y on the XY plane, left of it is -x
+      const result = session.split(boxId, {
+        tool: {
+          kind: `path`,
+          path: {
+            plane: XY_PLANE,
+            curves: [{ kind: `line`, p0: vec2(1, -1), p1: vec2(1, 1) }],
+            closed: false,
+          },
+        },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const [front, back] = result.value.pieces;
+        expect(session.getBoundingBox(front.bodyId).max[0]).toBeCloseTo(1, 3);
+        expect(session.getBoundingBox(back.bodyId).min[0]).toBeCloseTo(1, 3);
+        // The line is shorter than the box, so its extensions cut the rest of the way
+        expect(front.toolFaceHashes[0]).toHaveLength(1);
+        expect(front.extensionFaceHashes[0]).toHaveLength(1);
+        expect(front.extensionFaceHashes[1]).toHaveLength(1);
+        result.value.pieces.forEach((p) => session.deleteBody(p.bodyId));
+      }
+      session.deleteBody(boxId);
+    });
+
+    it(`fails when the tool misses the body`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+
+      const result = session.split(boxId, {
+        tool: { kind: `plane`, origin: [0, 0, 20], normal: [0, 0, 1] },
+      });
+
+      expect(result.success).toBe(false);
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`offsetFaces and thicken`, () => {
+    // Index of the box face whose outward normal is +z
+    const topFace = (bodyId: ReturnType<typeof session.createBox>) => {
+      for (let i = 0; i < 6; i++) {
+        if (session.getFacePlane(bodyId, i)!.normal[2] > 0.99) return i;
+      }
+      throw new Error(`no top face`);
+    };
+
+    it(`moves a face out, or into the body`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+      const top = topFace(boxId);
+
+      for (const distance of [2, -2]) {
+        const result = session.offsetFaces(boxId, { faces: [top], distance });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(session.getBoundingBox(result.value.bodyId).max[2]).toBeCloseTo(5 + distance, 3);
+          expect(session.getBoundingBox(result.value.bodyId).min[2]).toBeCloseTo(-5, 3);
+          expect(result.value.offsetFaceHashes).toHaveLength(1);
+          expect(result.value.offsetFaceHashes[0]).toHaveLength(1);
+          session.deleteBody(result.value.bodyId);
+        }
+      }
+
+      expect(session.offsetFaces(boxId, { faces: [top], distance: 0 }).success).toBe(false);
+      session.deleteBody(boxId);
+    });
+
+    it(`grows faces into a new solid`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+      const top = topFace(boxId);
+
+      const result = session.thicken(boxId, { faces: [top], thickness: 3 });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[2]).toBeCloseTo(5, 3);
+        expect(bbox.max[2]).toBeCloseTo(8, 3);
+        expect(result.value.startFaceHashes[0]).toHaveLength(1);
+        expect(result.value.offsetFaceHashes[0]).toHaveLength(1);
+        expect(result.value.sideFaceHashes).toHaveLength(4);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      expect(session.hasBody(boxId)).toBe(true);
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`deleteFaces and replaceFaces`, () => {
+    // Indices of the faces whose outward normal is +z, highest first
+    const upFaces = (bodyId: BodyId, count: number) => {
+      const faces: Array<{ index: number; z: number }> = [];
+      for (let i = 0; i < count; i++) {
+        const plane = session.getFacePlane(bodyId, i);
+        if (plane && plane.normal[2] > 0.99) faces.push({ index: i, z: plane.origin[2] });
+      }
+      return faces.sort((a, b) => b.z - a.z).map((face) => face.index);
+    };
+
+    it(`removes a boss and heals the face under it`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+      const cylinderId = session.createCylinder(2, 8);
+      const union = session.union(boxId, cylinderId);
+      expect(union.success).toBe(true);
+      if (!union.success) return;
+
+      const body = union.value;
+      const mesh = session.tessellate(body);
+      const faceCount = Math.max(...mesh.faceMap) + 1;
+      const side = [...Array(faceCount).keys()].find((i) => session.getFaceCylinder(body, i));
+      const cap = upFaces(body, faceCount)[0];
+      expect(side).toBeDefined();
+
+      const result = session.deleteFaces(body, { faces: [side!, cap] });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(session.getBoundingBox(result.value.bodyId).max[2]).toBeCloseTo(5, 3);
+        expect(result.value.faceHistory.filter((m) => m.isDeleted)).toHaveLength(2);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      expect(session.deleteFaces(body, { faces: [] }).success).toBe(false);
+      expect(session.deleteFaces(body, { faces: [99] }).success).toBe(false);
+    });
+
+    it(`replaces a face with a parallel or tilted plane`, () => {
+      const boxId = session.createBox(10, 10, 10, true);
+      const [top] = upFaces(boxId, 6);
+
+      for (const height of [7, 2]) {
+        const result = session.replaceFaces(boxId, {
+          faces: [top],
+          plane: { origin: [0, 0, height], normal: [0, 0, 1] },
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(session.getBoundingBox(result.value.bodyId).max[2]).toBeCloseTo(height, 3);
+          expect(session.getBoundingBox(result.value.bodyId).min[2]).toBeCloseTo(-5, 3);
+          expect(result.value.replacedFaceHashes).toHaveLength(1);
+          session.deleteBody(result.value.bodyId);
+        }
+      }
+
+      // z = 5 - x: up to 10 at one side of the box, down to 0 at the other
+      const tilted = session.replaceFaces(boxId, {
+        faces: [top],
+        plane: { origin: [0, 0, 5], normal: [1, 0, 1] },
+      });
+      expect(tilted.success).toBe(true);
+      if (tilted.success) {
+        expect(session.getBoundingBox(tilted.value.bodyId).max[2]).toBeCloseTo(10, 3);
+        // The part added above the old face and the part left after the cut
+        expect(tilted.value.replacedFaceHashes).toHaveLength(2);
+        session.deleteBody(tilted.value.bodyId);
+      }
+
+      const perpendicular = session.replaceFaces(boxId, {
+        faces: [top],
+        plane: { origin: [0, 0, 0], normal: [1, 0, 0] },
+      });
+      expect(perpendicular.success).toBe(false);
+      session.deleteBody(boxId);
+    });
+  });
+
+  describe(`edgeFlange`, () => {
+    const sheet = {
+      profile: createRectangleProfile(XY_PLANE, 40, 20, 20, 10),
+      thickness: 2,
+      bendRadius: 1,
+      kFactor: 0.44,
+    };
+
+    // Index of the straight edge running along x at the given y and z
+    const edgeAt = (bodyId: BodyId, y: number, z: number) => {
+      for (let i = 0; i < 24; i++) {
+        const line = session.getEdgeLine(bodyId, i);
+        if (
+          line &&
+          [line.start, line.end].every(
+            (p) => Math.abs(p[1] - y) < 1e-6 && Math.abs(p[2] - z) < 1e-6
+          ) &&
+          Math.abs(line.start[0] - line.end[0]) > 1
+        ) {
+          return i as EdgeId;
+        }
+      }
+      throw new Error(`no edge at y=${y} z=${z}`);
+    };
+
+    it(`bends a flange up from an edge of the top face`, () => {
+      const plate = session.extrude(sheet.profile, { operation: `new`, distance: 2 });
+      expect(plate.success).toBe(true);
+      if (!plate.success) return;
+
+      const result = session.edgeFlange(plate.value, {
+        edge: edgeAt(plate.value, 20, 2),
+        profile: sheet,
+        angleDegrees: 90,
+        length: 10,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        // Wall from the end of the bend (radius 1) for 10, 2 thick
+        expect(bbox.max[1]).toBeCloseTo(23, 3);
+        expect(bbox.max[2]).toBeCloseTo(13, 3);
+        expect(bbox.min[2]).toBeCloseTo(0, 3);
+        expect(result.value.flange.up).toBe(true);
+        expect(result.value.flangeFaceHashes.bendInside).toHaveLength(1);
+        expect(result.value.flangeFaceHashes.wallEnd).toHaveLength(1);
+        session.deleteBody(result.value.bodyId);
+      }
+      session.deleteBody(plate.value);
+    });
+
+    it(`bends down from the bottom face, and rejects edges off the outline`, () => {
+      const plate = session.extrude(sheet.profile, { operation: `new`, distance: 2 });
+      expect(plate.success).toBe(true);
+      if (!plate.success) return;
+
+      const result = session.edgeFlange(plate.value, {
+        edge: edgeAt(plate.value, 0, 0),
+        profile: sheet,
+        angleDegrees: 90,
+        length: 10,
+        bendRadius: 2,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const bbox = session.getBoundingBox(result.value.bodyId);
+        expect(bbox.min[1]).toBeCloseTo(-4, 3);
+        expect(bbox.min[2]).toBeCloseTo(-12, 3);
+        expect(result.value.flange.up).toBe(false);
+        expect(result.value.flange.bendRadius).toBe(2);
+        session.deleteBody(result.value.bodyId);
+      }
+
+      // Same edge, but the sheet is said to be thickened the other way
+      const wrongSide = session.edgeFlange(plate.value, {
+        edge: edgeAt(plate.value, 20, 2),
+        profile: { ...sheet, reverse: true },
+        angleDegrees: 90,
+        length: 10,
+      });
+      expect(wrongSide.success).toBe(false);
+      session.deleteBody(plate.value);
+    });
+  });
+
+  describe(`createHoleTool`, () => {
+    it(`builds counterbored hole tools that cut into a body`, () => {
+      const boxId = session.createBox(20, 20, 10);
+
+      const tool = session.createHoleTool({
+        holes: [
+          { origin: [5, 5, 10], depth: 6 },
+          { origin: [15, 15, 10], depth: 6 },
+        ],
+        direction: [0, 0, -1],
+        diameter: 4,
+        counterbore: { diameter: 8, depth: 2 },
+      });
+
+      expect(tool.success).toBe(true);
+      if (tool.success) {
+        const roles = tool.value.faces.filter((face) => face.hole === 1).map((face) => face.role);
+        expect(roles.sort()).toEqual([`bottom`, `counterbore`, `counterboreFloor`, `wall`]);
+        expect(tool.value.faces.filter((face) => face.hole === 0)).toHaveLength(4);
+
+        const cut = session.subtractWithHistory(boxId, tool.value.bodyId);
+        expect(cut.success).toBe(true);
+        if (cut.success) {
+          // Deepest point of the cut is the flat bottom of the holes
+          const mesh = session.tessellate(cut.value.bodyId);
+          const zs = new Set<number>();
+          for (let i = 2; i < mesh.positions.length; i += 3) {
+            zs.add(Math.round(mesh.positions[i] * 1000) / 1000);
+          }
+          expect(zs.has(4)).toBe(true);
+          expect(zs.has(8)).toBe(true);
+          session.deleteBody(cut.value.bodyId);
+        }
+        session.deleteBody(tool.value.bodyId);
+      }
+
+      session.deleteBody(boxId);
+    });
+
+    it(`rejects a countersink narrower than the hole`, () => {
+      const result = session.createHoleTool({
+        holes: [{ origin: [0, 0, 0], depth: 5 }],
+        direction: [0, 0, -1],
+        diameter: 4,
+        countersink: { diameter: 3, angleDegrees: 90 },
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe(`tessellation quality`, () => {
     it(`tessellates with different quality levels`, () => {
       const sphereId = session.createSphere(10);
@@ -336,6 +1601,123 @@ describe(`SolidSession (OCCT)`, () => {
     });
   });
 
+  describe(`import`, () => {
+    it(`imports a STEP export scaled, with a hash for each face`, () => {
+      const boxId = session.createBox(10, 20, 30);
+      const step = session.exportSTEP(boxId);
+
+      const result = session.importSTEP(step, { scale: 0.1 });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const bbox = session.getBoundingBox(result.value);
+      expect(bbox.max[0] - bbox.min[0]).toBeCloseTo(1, 3);
+      expect(bbox.max[2] - bbox.min[2]).toBeCloseTo(3, 3);
+
+      const hashes = session.getFaceHashes(result.value);
+      const mesh = session.tessellateWithTopologyHashes(result.value);
+      expect(hashes).toHaveLength(6);
+      expect([...mesh.faceHashes]).toEqual(hashes);
+
+      session.deleteBody(boxId);
+      session.deleteBody(result.value);
+    });
+
+    it(`round-trips a body through IGES as a solid`, () => {
+      const boxId = session.createBox(10, 20, 30);
+      const iges = session.exportIGES(boxId);
+      expect(new TextDecoder().decode(iges.slice(0, 80))).toMatch(/S0000001$/);
+
+      const result = session.importIGES(iges);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const bbox = session.getBoundingBox(result.value);
+      expect(bbox.max[1] - bbox.min[1]).toBeCloseTo(20, 3);
+      expect(session.getFaceHashes(result.value)).toHaveLength(6);
+
+      // Loose IGES surfaces come back sewn, so booleans work on the import
+      const cutter = session.createBox(4, 4, 40);
+      const cut = session.subtract(result.value, cutter);
+      expect(cut.success).toBe(true);
+
+      session.deleteBody(boxId);
+      session.deleteBody(cutter);
+      session.deleteBody(result.value);
+      if (cut.success) session.deleteBody(cut.value);
+    });
+
+    it(`exports several bodies to one IGES file`, () => {
+      const boxId = session.createBox(10, 10, 10);
+      const sourceId = session.createBox(10, 10, 10);
+      const moved = session.transformBody(sourceId, [{ kind: `translate`, vector: [40, 0, 0] }]);
+      expect(moved.success).toBe(true);
+      if (!moved.success) return;
+      const farId = moved.value.bodyId;
+
+      const result = session.importIGES(session.exportIGES([boxId, farId]));
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const bbox = session.getBoundingBox(result.value);
+      expect(bbox.max[0] - bbox.min[0]).toBeCloseTo(50, 3);
+      expect(session.getFaceHashes(result.value)).toHaveLength(12);
+
+      session.deleteBody(boxId);
+      session.deleteBody(sourceId);
+      session.deleteBody(farId);
+      session.deleteBody(result.value);
+    });
+
+    it(`exports bodies to STEP as named, colored products in the given units`, () => {
+      const plate = session.createBox(4, 2, 1);
+      const pin = session.createBox(1, 1, 3);
+      const products = [
+        { bodyId: plate, name: `Plate`, color: `#ff8000` },
+        { bodyId: pin, name: `Pin` },
+      ];
+
+      const ap242 = new TextDecoder().decode(
+        session.exportSTEPAssembly(products, { name: `Fixture`, schema: `AP242`, units: `in` })
+      );
+      expect(ap242).toContain(`AP242_MANAGED_MODEL_BASED_3D_ENGINEERING_MIM_LF`);
+      for (const name of [`Fixture`, `Plate`, `Pin`]) {
+        expect(ap242).toContain(`PRODUCT('${name}'`);
+      }
+      expect(ap242).toContain(`COLOUR_RGB('',1.,0.50196`);
+      expect(ap242).toContain(`CONVERSION_BASED_UNIT('INCH'`);
+
+      // Read back in millimetres, the 4 inch plate is 101.6mm long
+      const reread = session.importSTEP(new TextEncoder().encode(ap242));
+      expect(reread.success).toBe(true);
+      if (reread.success) {
+        const bbox = session.getBoundingBox(reread.value);
+        expect(bbox.max[0] - bbox.min[0]).toBeCloseTo(101.6, 3);
+        session.deleteBody(reread.value);
+      }
+
+      const ap203 = new TextDecoder().decode(
+        session.exportSTEPAssembly(products, { schema: `AP203`, units: `cm` })
+      );
+      expect(ap203).toContain(`FILE_SCHEMA(('CONFIG_CONTROL_DESIGN'))`);
+      expect(ap203).toContain(`SI_UNIT(.CENTI.,.METRE.)`);
+      expect(ap203).not.toContain(`COLOUR_RGB`);
+
+      session.deleteBody(plate);
+      session.deleteBody(pin);
+    });
+
+    it(`rejects unreadable data and a non-positive scale`, () => {
+      const garbage = new TextEncoder().encode(`not a file`);
+      expect(session.importBREP(garbage).success).toBe(false);
+
+      const boxId = session.createBox(1, 1, 1);
+      const step = session.exportSTEP(boxId);
+      expect(session.importSTEP(step, { scale: 0 }).success).toBe(false);
+      session.deleteBody(boxId);
+    });
+  });
+
   describe(`sketch-based workflow`, () => {
     it(`creates and extrudes a sketch`, () => {
       const sketch = session.createSketch(XY_PLANE, `test-sketch`);
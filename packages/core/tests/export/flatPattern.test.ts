@@ -0,0 +1,63 @@
+/**
+ * Flat pattern DXF and SVG export tests
+ */
+
+import { describe, test, expect } from "vitest";
+import { exportFlatPatternToDxf } from "../../src/export/dxf.js";
+import { exportFlatPatternToSvg } from "../../src/export/svg.js";
+import { computeFlatPattern } from "../../src/model/sheetMetal.js";
+import { createRectangleProfile, addLoopToProfile } from "../../src/model/sketchProfile.js";
+import { XY_PLANE } from "../../src/model/planes.js";
+import { vec2 } from "../../src/num/vec2.js";
+import type { FlatPattern } from "../../src/model/sheetMetal.js";
+
+function createPattern(): FlatPattern {
+  const plate = createRectangleProfile(XY_PLANE, 40, 20, 20, 10);
+  addLoopToProfile(
+    plate,
+    [
+      {
+        kind: `arc`,
+        center: vec2(10, 10),
+        radius: 3,
+        startAngle: 0,
+        endAngle: 2 * Math.PI,
+        ccw: true,
+      },
+    ],
+    false
+  );
+  return computeFlatPattern(plate, { thickness: 2, bendRadius: 1, kFactor: 0.44 }, [
+    { start: vec2(0, 20), end: vec2(40, 20), angleDegrees: 90, length: 10, up: true },
+    { start: vec2(0, 0), end: vec2(40, 0), angleDegrees: 45, length: 5, up: false },
+  ]);
+}
+
+describe(`exportFlatPatternToDxf`, () => {
+  test(`writes outline and bend lines on their own layers`, () => {
+    const dxf = exportFlatPatternToDxf(createPattern());
+    const lines = dxf.trimEnd().split(`\n`);
+
+    expect(lines.slice(0, 4)).toEqual([`0`, `SECTION`, `2`, `HEADER`]);
+    expect(lines.slice(-2)).toEqual([`0`, `EOF`]);
+    // 2 plain sides + 2 flange strips of 3 lines, plus the 2 bend lines
+    expect(lines.filter((l) => l === `LINE`)).toHaveLength(8 + 2);
+    expect(lines.filter((l) => l === `CIRCLE`)).toHaveLength(1);
+    expect(dxf).toContain(`BEND_UP`);
+    expect(dxf).toContain(`BEND_DOWN`);
+  });
+});
+
+describe(`exportFlatPatternToSvg`, () => {
+  test(`writes an outline path per loop and dashed bend lines`, () => {
+    const svg = exportFlatPatternToSvg(createPattern());
+
+    expect(svg.startsWith(`<?xml`)).toBe(true);
+    expect(svg).toContain(`<svg`);
+    expect(svg.match(/<path /g)).toHaveLength(1);
+    expect(svg.match(/<circle /g)).toHaveLength(1);
+    expect(svg.match(/<line class="bend-up"/g)).toHaveLength(1);
+    expect(svg.match(/<line class="bend-down"/g)).toHaveLength(1);
+    expect(svg).toContain(`stroke-dasharray`);
+  });
+});
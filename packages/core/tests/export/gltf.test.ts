@@ -0,0 +1,113 @@
+/**
+ * glTF Export Tests
+ */
+
+import { describe, test, expect } from "vitest";
+import { exportMeshesToGltf, isGltfBinary, type GltfBody } from "../../src/export/gltf.js";
+
+// Unit square in the XY plane as two faces of one triangle each
+function createSquareBody(name: string, color?: string): GltfBody {
+  return {
+    name,
+    color,
+    mesh: {
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]),
+      normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]),
+      indices: new Uint32Array([0, 1, 2, 0, 2, 3]),
+      faceMap: new Uint32Array([1, 0]),
+    },
+  };
+}
+
+// Split a GLB into its JSON document and binary chunk
+function readGlb(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 20, jsonLength)));
+  const hasBin = buffer.byteLength > 20 + jsonLength;
+  const binLength = hasBin ? view.getUint32(20 + jsonLength, true) : 0;
+  const bin = buffer.slice(28 + jsonLength, 28 + jsonLength + binLength);
+  return { view, json, bin };
+}
+
+describe(`exportMeshesToGltf`, () => {
+  test(`generates a valid GLB with one node per body`, () => {
+    const result = exportMeshesToGltf([
+      createSquareBody(`Base`, `#ff0000`),
+      createSquareBody(`Lid`, `#FF0000`),
+    ]);
+
+    expect(isGltfBinary(result)).toBe(true);
+    const buffer = result as ArrayBuffer;
+    const { view, json, bin } = readGlb(buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(4, true)).toBe(2);
+    expect(view.getUint32(8, true)).toBe(buffer.byteLength);
+    expect(buffer.byteLength % 4).toBe(0);
+
+    expect(json.asset.version).toBe(`2.0`);
+    expect(json.nodes.map((n: { name: string }) => n.name)).toEqual([`Base`, `Lid`, `model`]);
+    expect(json.scenes[0].nodes).toEqual([2]);
+    expect(json.nodes[2].children).toEqual([0, 1]);
+    expect(json.nodes[2].scale).toEqual([0.001, 0.001, 0.001]);
+    expect(json.buffers[0].byteLength).toBe(bin.byteLength);
+
+    // Both bodies share the one red material, in linear color space
+    expect(json.materials).toHaveLength(1);
+    expect(json.materials[0].pbrMetallicRoughness.baseColorFactor).toEqual([1, 0, 0, 1]);
+    expect(json.meshes[1].primitives[0].material).toBe(0);
+  });
+
+  test(`preserves positions and normals`, () => {
+    const { json, bin } = readGlb(exportMeshesToGltf([createSquareBody(`Base`)]) as ArrayBuffer);
+    const { attributes, indices, material } = json.meshes[0].primitives[0];
+
+    expect(material).toBeUndefined();
+    expect(json.accessors[attributes.POSITION].min).toEqual([0, 0, 0]);
+    expect(json.accessors[attributes.POSITION].max).toEqual([1, 1, 0]);
+
+    const normalView = json.bufferViews[json.accessors[attributes.NORMAL].bufferView];
+    const normals = new Float32Array(bin, normalView.byteOffset, normalView.byteLength / 4);
+    expect(Array.from(normals.slice(0, 3))).toEqual([0, 0, 1]);
+    expect(json.accessors[indices].count).toBe(6);
+  });
+
+  test(`splits bodies into face groups by faceMap`, () => {
+    const { json, bin } = readGlb(
+      exportMeshesToGltf([createSquareBody(`Base`, `#6699cc`)], {
+        faceGroups: true,
+      }) as ArrayBuffer
+    );
+    const primitives = json.meshes[0].primitives;
+
+    expect(primitives).toHaveLength(2);
+    expect(primitives.map((p: { extras: { faceIndex: number } }) => p.extras.faceIndex)).toEqual([
+      0, 1,
+    ]);
+    const view = json.bufferViews[json.accessors[primitives[0].indices].bufferView];
+    expect(Array.from(new Uint32Array(bin, view.byteOffset, 3))).toEqual([0, 2, 3]);
+  });
+
+  test(`writes JSON with a separate buffer`, () => {
+    const result = exportMeshesToGltf([createSquareBody(`Base`)], {
+      binary: false,
+      name: `bracket`,
+    });
+
+    expect(isGltfBinary(result)).toBe(false);
+    if (isGltfBinary(result)) return;
+    const json = JSON.parse(result.gltf);
+
+    expect(result.binUri).toBe(`bracket.bin`);
+    expect(json.buffers[0]).toEqual({ byteLength: result.bin.byteLength, uri: `bracket.bin` });
+    expect(json.scenes[0].name).toBe(`bracket`);
+  });
+
+  test(`handles an empty body list`, () => {
+    const { json } = readGlb(exportMeshesToGltf([]) as ArrayBuffer);
+
+    expect(json.nodes).toHaveLength(1);
+    expect(json.meshes).toBeUndefined();
+  });
+});
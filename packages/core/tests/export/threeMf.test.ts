@@ -0,0 +1,90 @@
+/**
+ * 3MF Export Tests
+ */
+
+import { describe, test, expect } from "vitest";
+import { exportMeshesTo3mf, type ThreeMfBody } from "../../src/export/threeMf.js";
+
+// Unit square with each triangle keeping its own vertices, as tessellation does
+function createSquareBody(name: string, color?: string, z = 0): ThreeMfBody {
+  return {
+    name,
+    color,
+    mesh: {
+      positions: new Float32Array([0, 0, z, 1, 0, z, 1, 1, z, 0, 0, z, 1, 1, z, 0, 1, z]),
+      normals: new Float32Array(18),
+      indices: new Uint32Array([0, 1, 2, 3, 4, 5]),
+    },
+  };
+}
+
+// Read the stored entries of a ZIP archive by walking its local headers
+function readZip(buffer: ArrayBuffer): Map<string, string> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 30, nameLength));
+    files.set(name, decoder.decode(new Uint8Array(buffer, offset + 30 + nameLength, size)));
+    offset += 30 + nameLength + size;
+  }
+  return files;
+}
+
+describe(`exportMeshesTo3mf`, () => {
+  test(`writes the package parts`, () => {
+    const files = readZip(exportMeshesTo3mf([createSquareBody(`Base`)]));
+
+    expect([...files.keys()]).toEqual([`[Content_Types].xml`, `_rels/.rels`, `3D/3dmodel.model`]);
+    expect(files.get(`_rels/.rels`)).toContain(`Target="/3D/3dmodel.model"`);
+    expect(files.get(`3D/3dmodel.model`)).toContain(`unit="millimeter"`);
+  });
+
+  test(`writes each body as a named, colored object with welded vertices`, () => {
+    const model = readZip(
+      exportMeshesTo3mf(
+        [
+          createSquareBody(`Base & Lid`, `#ff0000`),
+          createSquareBody(`Pin`),
+          createSquareBody(`Cap`, `#FF0000`),
+        ],
+        { units: `in` }
+      )
+    ).get(`3D/3dmodel.model`)!;
+
+    expect(model).toContain(`unit="inch"`);
+    expect(model.match(/<base /g)).toHaveLength(1);
+    expect(model).toContain(`displaycolor="#FF0000FF"`);
+    expect(model).toContain(`name="Base &amp; Lid" pid="1" pindex="0"`);
+    expect(model).toContain(`<object id="3" type="model" name="Pin">`);
+    expect(model.match(/<object /g)).toHaveLength(3);
+    expect(model.match(/<vertex /g)).toHaveLength(12);
+    expect(model.match(/<item /g)).toHaveLength(3);
+  });
+
+  test(`arranges objects on the build plate without overlap`, () => {
+    const model = readZip(
+      exportMeshesTo3mf([createSquareBody(`A`, undefined, 3), createSquareBody(`B`)])
+    ).get(`3D/3dmodel.model`)!;
+    const translations = [
+      ...model.matchAll(/transform="1 0 0 0 1 0 0 0 1 (\S+) (\S+) (\S+)"/g),
+    ].map((m) => m.slice(1).map(Number));
+
+    // Side by side with a 5 mm gap, centred on the origin, resting on z = 0
+    expect(translations).toEqual([
+      [-3.5, -0.5, -3],
+      [2.5, -0.5, 0],
+    ]);
+  });
+
+  test(`keeps model positions when not arranging`, () => {
+    const model = readZip(
+      exportMeshesTo3mf([createSquareBody(`A`, undefined, 3)], { arrange: false })
+    ).get(`3D/3dmodel.model`)!;
+
+    expect(model).toContain(`transform="1 0 0 0 1 0 0 0 1 0 0 0"`);
+  });
+});
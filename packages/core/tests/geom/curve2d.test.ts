@@ -79,6 +79,24 @@ describe(`curve2d`, () => {
       expect(mid[0]).toBeCloseTo(5 * Math.cos(expectedAngle), 10);
       expect(mid[1]).toBeCloseTo(5 * Math.sin(expectedAngle), 10);
     });
+
+    it(`evaluates clockwise arc at midpoint`, () => {
+      const arc: Arc2D = {
+        kind: `arc`,
+        center: vec2(0, 0),
+        radius: 5,
+        startAngle: Math.PI / 2,
+        endAngle: 0,
+        ccw: false,
+      };
+
+      const mid = evalCurve2D(arc, 0.5);
+      expect(mid[0]).toBeCloseTo(5 * Math.cos(Math.PI / 4), 10);
+      expect(mid[1]).toBeCloseTo(5 * Math.sin(Math.PI / 4), 10);
+      const end = evalCurve2D(arc, 1);
+      expect(end[0]).toBeCloseTo(5, 10);
+      expect(end[1]).toBeCloseTo(0, 10);
+    });
   });
 
   describe(`curveTangent2D`, () => {
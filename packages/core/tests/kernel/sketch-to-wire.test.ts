@@ -0,0 +1,71 @@
+/**
+ * Sketch to Wire Tests
+ *
+ * Checks that sketch profiles become OCCT faces with the curves the sketch
+ * describes, in particular arcs drawn clockwise.
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import { initOCCT, setOC, sketchProfileToFace, getBoundingBox } from "../../src/kernel/index.js";
+import { XY_PLANE } from "../../src/model/planes.js";
+import { createEmptyProfile, addLoopToProfile } from "../../src/model/sketchProfile.js";
+import { vec2 } from "../../src/num/vec2.js";
+
+describe(`sketchProfileToFace`, () => {
+  beforeAll(async () => {
+    const oc = await initOCCT();
+    setOC(oc);
+  });
+
+  // Half disc of radius 5 above the x axis, closed by a line along it
+  function halfDisc(ccw: boolean) {
+    const profile = createEmptyProfile(XY_PLANE);
+    addLoopToProfile(
+      profile,
+      ccw
+        ? [
+            { kind: `line`, p0: vec2(-5, 0), p1: vec2(5, 0) },
+            {
+              kind: `arc`,
+              center: vec2(0, 0),
+              radius: 5,
+              startAngle: 0,
+              endAngle: Math.PI,
+              ccw: true,
+            },
+          ]
+        : [
+            { kind: `line`, p0: vec2(5, 0), p1: vec2(-5, 0) },
+            {
+              kind: `arc`,
+              center: vec2(0, 0),
+              radius: 5,
+              startAngle: Math.PI,
+              endAngle: 0,
+              ccw: false,
+            },
+          ]
+    );
+    return profile;
+  }
+
+  it(`builds counter-clockwise arcs on the side they sweep`, () => {
+    const face = sketchProfileToFace(halfDisc(true));
+    const box = getBoundingBox(face);
+
+    expect(box.min[1]).toBeCloseTo(0, 3);
+    expect(box.max[1]).toBeCloseTo(5, 3);
+    face.dispose();
+  });
+
+  it(`builds clockwise arcs on the side they sweep`, () => {
+    const face = sketchProfileToFace(halfDisc(false));
+    const box = getBoundingBox(face);
+
+    expect(box.min[0]).toBeCloseTo(-5, 3);
+    expect(box.max[0]).toBeCloseTo(5, 3);
+    expect(box.min[1]).toBeCloseTo(0, 3);
+    expect(box.max[1]).toBeCloseTo(5, 3);
+    face.dispose();
+  });
+});
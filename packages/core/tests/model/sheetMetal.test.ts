@@ -0,0 +1,128 @@
+/**
+ * Tests for sheet metal geometry
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  bendAllowance,
+  computeFlatPattern,
+  createFlangeSection,
+  findOutlineEdge,
+} from "../../src/model/sheetMetal.js";
+import {
+  computeProfileArea,
+  createRectangleProfile,
+  validateProfile,
+} from "../../src/model/sketchProfile.js";
+import { XY_PLANE } from "../../src/model/planes.js";
+import { createNumericContext } from "../../src/num/tolerance.js";
+import { vec2 } from "../../src/num/vec2.js";
+import { evalCurve2D } from "../../src/geom/curve2d.js";
+
+const ctx = createNumericContext();
+const params = { thickness: 2, bendRadius: 1, kFactor: 0.44 };
+
+describe(`bendAllowance`, () => {
+  it(`is the length of the neutral axis through the bend`, () => {
+    expect(bendAllowance(90, 1, 2, 0.5)).toBeCloseTo(Math.PI, 10);
+    expect(bendAllowance(180, 3, 2, 0)).toBeCloseTo(3 * Math.PI, 10);
+  });
+});
+
+describe(`findOutlineEdge`, () => {
+  const plate = createRectangleProfile(XY_PLANE, 40, 20, 20, 10);
+
+  it(`finds a line of the outline in either direction, pointing outward`, () => {
+    const top = findOutlineEdge(plate, vec2(0, 20), vec2(40, 20));
+    expect(top?.curveIndex).toBe(2);
+    expect(top?.outward[0]).toBeCloseTo(0, 10);
+    expect(top?.outward[1]).toBeCloseTo(1, 10);
+
+    const left = findOutlineEdge(plate, vec2(0, 0), vec2(0, 20));
+    expect(left?.outward[0]).toBeCloseTo(-1, 10);
+  });
+
+  it(`returns null for points that are not an outline edge`, () => {
+    expect(findOutlineEdge(plate, vec2(0, 20), vec2(20, 20))).toBeNull();
+  });
+});
+
+describe(`createFlangeSection`, () => {
+  it(`closes the loop of the bend and wall`, () => {
+    for (const mirror of [false, true]) {
+      const section = createFlangeSection(2, 1, 90, 10, mirror);
+      expect(section).toHaveLength(6);
+      for (let i = 0; i < section.length; i++) {
+        const end = evalCurve2D(section[i], 1);
+        const next = evalCurve2D(section[(i + 1) % section.length], 0);
+        expect(end[0]).toBeCloseTo(next[0], 10);
+        expect(end[1]).toBeCloseTo(next[1], 10);
+      }
+    }
+  });
+
+  it(`ends the wall beyond the outside of the bend`, () => {
+    const section = createFlangeSection(2, 1, 90, 10);
+    // Wall end runs across the thickness at the top of the flange
+    const wallEnd = section[3];
+    expect(wallEnd.kind).toBe(`line`);
+    if (wallEnd.kind === `line`) {
+      expect(wallEnd.p0[0]).toBeCloseTo(3, 10);
+      expect(wallEnd.p0[1]).toBeCloseTo(11, 10);
+      expect(wallEnd.p1[0]).toBeCloseTo(1, 10);
+    }
+  });
+});
+
+describe(`computeFlatPattern`, () => {
+  it(`replaces a flanged edge with a strip and a bend line`, () => {
+    const plate = createRectangleProfile(XY_PLANE, 40, 20, 20, 10);
+    const pattern = computeFlatPattern(plate, params, [
+      { start: vec2(40, 20), end: vec2(0, 20), angleDegrees: 90, length: 10, up: true },
+    ]);
+
+    const bend = bendAllowance(90, 1, 2, 0.44);
+    const profile = { ...plate, loops: pattern.loops };
+    expect(validateProfile(profile, ctx).valid).toBe(true);
+    expect(pattern.loops[0].curves).toHaveLength(6);
+    expect(pattern.sourceCurves).toEqual([0, 1, null, null, null, 3]);
+    expect(computeProfileArea(profile)).toBeCloseTo(40 * (20 + bend + 10), 6);
+
+    expect(pattern.bendLines).toHaveLength(1);
+    expect(pattern.bendLines[0].start[1]).toBeCloseTo(20 + bend / 2, 10);
+    expect(pattern.bendLines[0].up).toBe(true);
+    expect(pattern.bendLines[0].radius).toBe(1);
+  });
+
+  it(`uses each flange's own bend radius`, () => {
+    const plate = createRectangleProfile(XY_PLANE, 40, 20, 20, 10);
+    const pattern = computeFlatPattern(plate, params, [
+      {
+        start: vec2(0, 0),
+        end: vec2(40, 0),
+        angleDegrees: 45,
+        length: 5,
+        up: false,
+        bendRadius: 4,
+      },
+    ]);
+    const bend = bendAllowance(45, 4, 2, 0.44);
+    expect(pattern.bendLines[0].radius).toBe(4);
+    expect(pattern.bendLines[0].start[1]).toBeCloseTo(-bend / 2, 10);
+  });
+
+  it(`rejects flanges off the outline and doubled-up flanges`, () => {
+    const plate = createRectangleProfile(XY_PLANE, 40, 20, 20, 10);
+    const flange = {
+      start: vec2(0, 20),
+      end: vec2(40, 20),
+      angleDegrees: 90,
+      length: 10,
+      up: true,
+    };
+    expect(() => computeFlatPattern(plate, params, [{ ...flange, end: vec2(20, 20) }])).toThrow(
+      `not a straight edge`
+    );
+    expect(() => computeFlatPattern(plate, params, [flange, flange])).toThrow(`already has`);
+  });
+});
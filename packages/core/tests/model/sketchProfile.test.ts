@@ -14,6 +14,8 @@ import {
   createLProfile,
   createRectangleWithHoleProfile,
   computeProfileArea,
+  createThinProfile,
+  createRibRegion,
 } from "../../src/model/sketchProfile.js";
 import { XY_PLANE } from "../../src/model/planes.js";
 import { createNumericContext } from "../../src/num/tolerance.js";
@@ -272,3 +274,111 @@ describe("computeProfileArea", () => {
     expect(computeProfileArea(profile)).toBe(0);
   });
 });
+
+describe("createThinProfile", () => {
+  // An L running up the y axis and then along x
+  const path = {
+    plane: XY_PLANE,
+    curves: [
+      { kind: "line", p0: vec2(0, 10), p1: vec2(0, 0) } as Line2D,
+      { kind: "line", p0: vec2(0, 10), p1: vec2(10, 10) } as Line2D,
+    ],
+    closed: false,
+  };
+
+  it("grows the wall on the left of the path", () => {
+    const profile = createThinProfile(path, 1);
+
+    expect(profile.loops).toHaveLength(1);
+    expect(validateProfile(profile, ctx).valid).toBe(true);
+    expect(computeProfileArea(profile)).toBeCloseTo(21);
+    // The outer corner is mitred
+    const vertices = getLoopVertices(profile.loops[0]);
+    expect(vertices.some(([x, y]) => Math.abs(x + 1) < 1e-9 && Math.abs(y - 11) < 1e-9)).toBe(true);
+  });
+
+  it("splits a symmetric wall across the path", () => {
+    const profile = createThinProfile(path, 2, "symmetric");
+
+    expect(validateProfile(profile, ctx).valid).toBe(true);
+    expect(computeProfileArea(profile)).toBeCloseTo(40);
+  });
+
+  it("offsets arcs by changing their radius", () => {
+    const arc: Arc2D = {
+      kind: "arc",
+      center: vec2(0, 0),
+      radius: 5,
+      startAngle: 0,
+      endAngle: Math.PI / 2,
+      ccw: true,
+    };
+    const profile = createThinProfile(
+      { plane: XY_PLANE, curves: [arc], closed: false },
+      1,
+      "reverse"
+    );
+
+    const radii = profile.loops[0].curves
+      .filter((c): c is Arc2D => c.kind === "arc")
+      .map((c) => c.radius);
+    expect(radii.sort()).toEqual([5, 6]);
+  });
+
+  it("rejects closed paths and arcs thinner than the wall", () => {
+    expect(() => createThinProfile({ ...path, closed: true }, 1)).toThrow(/open path/);
+    const arc: Arc2D = {
+      kind: "arc",
+      center: vec2(0, 0),
+      radius: 1,
+      startAngle: 0,
+      endAngle: Math.PI,
+      ccw: true,
+    };
+    expect(() => createThinProfile({ plane: XY_PLANE, curves: [arc], closed: false }, 2)).toThrow(
+      /arc radius/
+    );
+  });
+});
+
+describe("createRibRegion", () => {
+  const path = {
+    plane: XY_PLANE,
+    curves: [{ kind: "line", p0: vec2(0, 0), p1: vec2(10, 0) } as Line2D],
+    closed: false,
+  };
+
+  it("extends the path and closes the region on the chosen side", () => {
+    const left = createRibRegion(path, 100, "left");
+
+    expect(validateProfile(left, ctx).valid).toBe(true);
+    const curves = left.loops[0].curves as Line2D[];
+    expect(curves).toHaveLength(5);
+    expect(curves[0].p0).toEqual(vec2(-100, 0));
+    expect(curves[1]).toEqual(path.curves[0]);
+    expect(curves[2].p1).toEqual(vec2(110, 0));
+    expect(curves[3].p1[1]).toBeCloseTo(200);
+
+    const right = createRibRegion(path, 100, "right");
+    expect((right.loops[0].curves[3] as Line2D).p1[1]).toBeCloseTo(-200);
+  });
+
+  it("extends arcs along their end tangents", () => {
+    const arc: Arc2D = {
+      kind: "arc",
+      center: vec2(0, 0),
+      radius: 5,
+      startAngle: 0,
+      endAngle: Math.PI / 2,
+      ccw: true,
+    };
+    const region = createRibRegion({ plane: XY_PLANE, curves: [arc], closed: false }, 10, "left");
+    const curves = region.loops[0].curves;
+
+    expect((curves[0] as Line2D).p0[0]).toBeCloseTo(5);
+    expect((curves[0] as Line2D).p0[1]).toBeCloseTo(-10);
+    expect((curves[2] as Line2D).p1[0]).toBeCloseTo(-10);
+    expect((curves[2] as Line2D).p1[1]).toBeCloseTo(5);
+    expect(() => createRibRegion({ ...path, closed: true }, 10, "left")).toThrow(/open path/);
+  });
+});
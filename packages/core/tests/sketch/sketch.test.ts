@@ -396,4 +396,52 @@ describe("Sketch Creation", () => {
       expect(curveLength2D(curve)).toBeCloseTo(2 * Math.PI * 5, 6);
     });
   });
+
+  describe("toPath", () => {
+    it("should order an open chain from its free end", () => {
+      const sketch = new SketchModel(XY_PLANE);
+      const a = sketch.addPoint(0, 0);
+      const b = sketch.addPoint(10, 0);
+      const c = sketch.addPoint(10, 10);
+      // Added out of order to check chaining
+      sketch.addLine(b, c);
+      sketch.addLine(a, b);
+
+      const path = sketch.toPath();
+
+      expect(path).not.toBeNull();
+      expect(path!.closed).toBe(false);
+      expect(path!.curves.length).toBe(2);
+      expect(path!.curves[0]).toMatchObject({ kind: "line", p0: [10, 0], p1: [10, 10] });
+      expect(path!.curves[1]).toMatchObject({ kind: "line", p0: [0, 0], p1: [10, 0] });
+    });
+
+    it("should mark a closed chain as closed", () => {
+      const sketch = new SketchModel(XY_PLANE);
+      sketch.addRectangle(0, 0, 10, 10);
+
+      const path = sketch.toPath();
+
+      expect(path!.closed).toBe(true);
+      expect(path!.curves.length).toBe(4);
+    });
+
+    it("should return null for disconnected entities", () => {
+      const sketch = new SketchModel(XY_PLANE);
+      sketch.addLineByCoords(0, 0, 10, 0);
+      sketch.addLineByCoords(20, 0, 30, 0);
+
+      expect(sketch.toPath()).toBeNull();
+    });
+
+    it("should return null for a branching selection", () => {
+      const sketch = new SketchModel(XY_PLANE);
+      const center = sketch.addPoint(0, 0);
+      sketch.addLine(center, sketch.addPoint(10, 0));
+      sketch.addLine(center, sketch.addPoint(0, 10));
+      sketch.addLine(center, sketch.addPoint(-10, 0));
+
+      expect(sketch.toPath()).toBeNull();
+    });
+  });
 });